@@ -0,0 +1,29 @@
+// Shows Web Push notifications sent by the send-push Edge Function, or by
+// LocalPushTransport on the memory data source. Payloads are PushPayload
+// objects from src/push/transport.ts.
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+  const payload = event.data.json();
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      tag: payload.tag,
+      icon: '/favicon.ico',
+      data: { url: payload.url },
+    })
+  );
+});
+
+// Focuses an open tab on the notification's page, or opens one.
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url ?? '/notifications', self.location.origin).href;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => new URL(c.url).origin === self.location.origin);
+      if (!client) return self.clients.openWindow(url);
+      return client.focus().then((focused) => focused.navigate(url));
+    })
+  );
+});
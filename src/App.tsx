@@ -2,8 +2,12 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './context/AuthContext';
+import { SettingsProvider } from './context/SettingsContext';
+import { I18nProvider } from './context/I18nContext';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { Navbar } from './components/Navbar';
+import { Toaster } from './components/ui/toaster';
+import { useChangeToasts } from './hooks/useRealtime';
 import Index from './pages/Index';
 import { LandingPage } from './pages/LandingPage';
 import { ParkingSpotDetail } from './pages/ParkingSpotDetail';
@@ -16,23 +20,26 @@ import AddParkingSpot from './pages/AddParkingSpot';
 import { EditParkingSpot } from './pages/EditParkingSpot';
 import { ManageAvailability } from './pages/ManageAvailability';
 import { SettingsPage } from './pages/SettingsPage';
+import { NotificationsPage } from './pages/NotificationsPage';
 import { AdminBookingsPage } from './pages/AdminBookingsPage';
 import { AdminReviewsPage } from './pages/AdminReviewsPage';
+import { AdminPaymentsPage } from './pages/AdminPaymentsPage';
 import NotFound from './pages/NotFound';
 
 const AppContent: React.FC = () => {
   const { user, profile, isLoading } = useAuth();
+  useChangeToasts();
 
   if (isLoading) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
       </div>
     );
   }
 
   return (
-    <div className="min-h-screen bg-gray-50">
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <Routes>
         {/* Public Routes */}
         <Route path="/" element={<Index />} />
@@ -88,6 +95,15 @@ const AppContent: React.FC = () => {
           </ProtectedRoute>
         } />
         
+        <Route path="/notifications" element={
+          <ProtectedRoute>
+            <Navbar />
+            <div className="pt-16">
+              <NotificationsPage />
+            </div>
+          </ProtectedRoute>
+        } />
+        
         {/* Owner-only routes */}
         <Route path="/admin" element={
           <ProtectedRoute requireHost>
@@ -142,6 +158,15 @@ const AppContent: React.FC = () => {
             </div>
           </ProtectedRoute>
         } />
+        
+        <Route path="/admin/payments" element={
+          <ProtectedRoute requireHost>
+            <Navbar />
+            <div className="pt-16">
+              <AdminPaymentsPage />
+            </div>
+          </ProtectedRoute>
+        } />
 
         {/* 404 Route */}
         <Route path="*" element={<NotFound />} />
@@ -153,9 +178,14 @@ const AppContent: React.FC = () => {
 function App() {
   return (
     <AuthProvider>
-      <Router>
-        <AppContent />
-      </Router>
+      <SettingsProvider>
+        <I18nProvider>
+          <Router>
+            <AppContent />
+            <Toaster />
+          </Router>
+        </I18nProvider>
+      </SettingsProvider>
     </AuthProvider>
   );
 }
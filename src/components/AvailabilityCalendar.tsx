@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { AvailabilityBlock } from '../types';
+import { expandBlocks, peakOccupancy } from '../services/capacity';
+import { WEEK_ORDER } from '../services/schedule';
+import { useI18n } from '../context/I18nContext';
+
+interface AvailabilityCalendarProps {
+  blocks: AvailabilityBlock[];
+  totalSlots: number;
+  selectedDate: Date | null;
+  onSelectDate: (date: Date) => void;
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const sameDay = (a: Date, b: Date) => startOfDay(a).getTime() === startOfDay(b).getTime();
+
+export const AvailabilityCalendar: React.FC<AvailabilityCalendarProps> = ({
+  blocks,
+  totalSlots,
+  selectedDate,
+  onSelectDate
+}) => {
+  const { t, formatDate, formatWeekday } = useI18n();
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+
+  // Grid of whole weeks (Monday first) covering the visible month.
+  const days = useMemo(() => {
+    const leading = (month.getDay() + 6) % 7;
+    const first = new Date(month.getFullYear(), month.getMonth(), 1 - leading);
+    const lastOfMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+    const count = Math.ceil((leading + lastOfMonth.getDate()) / 7) * 7;
+    return Array.from({ length: count }, (_, i) =>
+      new Date(first.getFullYear(), first.getMonth(), first.getDate() + i)
+    );
+  }, [month]);
+
+  // Most slots blocked at once per day, keyed by local midnight.
+  const blockedByDay = useMemo(() => {
+    const result = new Map<number, number>();
+    if (days.length === 0) return result;
+
+    const windowStart = days[0];
+    const windowEnd = new Date(days[days.length - 1].getTime() + 24 * 60 * 60 * 1000);
+    const occurrences = expandBlocks(blocks, {
+      start_time: windowStart.toISOString(),
+      end_time: windowEnd.toISOString(),
+    });
+
+    days.forEach(day => {
+      const dayEnd = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+      const slots = peakOccupancy(occurrences, {
+        start_time: day.toISOString(),
+        end_time: dayEnd.toISOString(),
+      });
+      if (slots > 0) result.set(day.getTime(), slots);
+    });
+    return result;
+  }, [blocks, days]);
+
+  const today = new Date();
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <button
+          type="button"
+          onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}
+          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        >
+          <ChevronLeft className="h-5 w-5" />
+        </button>
+        <h3 className="font-semibold text-gray-900 dark:text-gray-100">
+          {formatDate(month, { month: 'long', year: 'numeric' })}
+        </h3>
+        <button
+          type="button"
+          onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}
+          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        >
+          <ChevronRight className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-xs font-medium text-gray-500 mb-1">
+        {WEEK_ORDER.map(day => (
+          <div key={day}>{formatWeekday(day, 'short')}</div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {days.map(day => {
+          const blocked = blockedByDay.get(day.getTime()) ?? 0;
+          const fullyBlocked = blocked >= totalSlots;
+          const inMonth = day.getMonth() === month.getMonth();
+          const isSelected = selectedDate !== null && sameDay(day, selectedDate);
+
+          return (
+            <button
+              key={day.getTime()}
+              type="button"
+              onClick={() => onSelectDate(day)}
+              className={`h-14 rounded-lg text-sm flex flex-col items-center justify-center border transition-colors ${
+                isSelected
+                  ? 'border-blue-600 ring-2 ring-blue-200'
+                  : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600'
+              } ${
+                fullyBlocked
+                  ? 'bg-red-100 text-red-800 dark:text-red-200'
+                  : blocked > 0
+                  ? 'bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200'
+                  : 'bg-white dark:bg-gray-800'
+              } ${inMonth ? '' : 'opacity-40'}`}
+            >
+              <span className={sameDay(day, today) ? 'font-bold text-blue-600' : ''}>{day.getDate()}</span>
+              {blocked > 0 && (
+                <span className="text-[10px]">
+                  {fullyBlocked ? t('schedule.closed') : t('availabilityCalendar.blockedSlots', { count: blocked })}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from 'react';
+import { Booking, BookingEvent } from '../types';
+import { database } from '../data/database';
+import { useI18n } from '../context/I18nContext';
+import { bookingEventLabel } from '../services/bookingState';
+
+interface BookingTimelineProps {
+  booking: Pick<Booking, 'id' | 'updated_at'>;
+}
+
+// The booking's status history, reloaded whenever the booking changes.
+export const BookingTimeline: React.FC<BookingTimelineProps> = ({ booking }) => {
+  const [events, setEvents] = useState<BookingEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { language, t, formatDateTime } = useI18n();
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    database.getBookingEvents(booking.id)
+      .then(result => {
+        if (!cancelled) setEvents(result);
+      })
+      .catch(error => console.error('Error loading booking history:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.id, booking.updated_at]);
+
+  if (isLoading) return <p className="text-sm text-gray-500">{t('bookingTimeline.loading')}</p>;
+  if (events.length === 0) return <p className="text-sm text-gray-500">{t('bookingTimeline.empty')}</p>;
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-gray-700 pl-4 text-left">
+      {events.map(event => (
+        <li key={event.id} className="mb-3 last:mb-0">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-600" />
+          <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{bookingEventLabel(event, language)}</p>
+          <p className="text-xs text-gray-500">{formatDateTime(event.created_at)}</p>
+          {event.reason && <p className="text-xs text-gray-600 dark:text-gray-400">{event.reason}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
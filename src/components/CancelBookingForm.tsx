@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Booking, ParkingSpot } from '../types';
+import { useI18n } from '../context/I18nContext';
+import { translateError } from '../i18n/errors';
+import { cancelBookingWithRefund } from '../payments/gateway';
+import { isBookingStateError } from '../data/errors';
+import { cancellationRefund, describeCancellationPolicy } from '../services/cancellation';
+
+interface CancelBookingFormProps {
+  booking: Booking;
+  spot?: ParkingSpot;
+  onCancelled: (booking: Booking) => void;
+  onClose: () => void;
+}
+
+export const CancelBookingForm: React.FC<CancelBookingFormProps> = ({ booking, spot, onCancelled, onClose }) => {
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const { language, t, formatCurrency } = useI18n();
+
+  // A preview only; cancelBooking works the refund out again when it runs.
+  const refund = cancellationRefund(spot ?? {}, booking, 'guest');
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    setError(null);
+    try {
+      onCancelled(await cancelBookingWithRefund(booking.id, booking.guest_id, reason.trim() || undefined));
+    } catch (err) {
+      if (isBookingStateError(err)) {
+        setError(translateError(language, err));
+        return;
+      }
+      console.error('Error cancelling booking:', err);
+      setError(t('cancelBooking.failed'));
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-left">
+      <ul className="list-disc pl-5 text-sm text-gray-600 dark:text-gray-400">
+        {describeCancellationPolicy(spot ?? {}, language).map(line => <li key={line}>{line}</li>)}
+      </ul>
+
+      <div className="rounded-md bg-gray-50 dark:bg-gray-900 p-3 text-sm">
+        {booking.payment_status === 'paid' ? (
+          <div className="flex justify-between font-semibold">
+            <span>{t('cancelBooking.refund', { percent: refund.refund_percent })}</span>
+            <span>{formatCurrency(refund.refund_amount, booking.currency)}</span>
+          </div>
+        ) : (
+          <p>{t('cancelBooking.notPaid')}</p>
+        )}
+      </div>
+
+      <div>
+        <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">{t('cancelBooking.reason')}</label>
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+        />
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="space-y-2">
+        <Button variant="destructive" onClick={handleCancel} disabled={isCancelling} className="w-full">
+          {isCancelling ? t('cancelBooking.cancelling') : t('cancelBooking.cancel')}
+        </Button>
+        <Button variant="outline" onClick={onClose} disabled={isCancelling} className="w-full">
+          {t('cancelBooking.keep')}
+        </Button>
+      </div>
+    </div>
+  );
+};
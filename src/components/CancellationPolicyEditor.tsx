@@ -0,0 +1,108 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { CancellationPolicyName, CancellationTier } from '../types';
+import { useI18n } from '../context/I18nContext';
+import {
+  CANCELLATION_POLICIES,
+  CancellationPolicy,
+  DEFAULT_CANCELLATION_POLICY,
+  cancellationPolicyLabel,
+  describeCancellationPolicy,
+} from '../services/cancellation';
+
+interface CancellationPolicyEditorProps {
+  value: CancellationPolicy;
+  onChange: (policy: CancellationPolicy) => void;
+}
+
+const POLICY_NAMES: CancellationPolicyName[] = ['flexible', 'moderate', 'strict', 'custom'];
+
+const fieldClass =
+  'px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none';
+
+export const CancellationPolicyEditor: React.FC<CancellationPolicyEditorProps> = ({ value, onChange }) => {
+  const { language, t } = useI18n();
+  const name = value.cancellation_policy ?? DEFAULT_CANCELLATION_POLICY;
+  const tiers = value.cancellation_tiers ?? [];
+
+  // Switching to custom starts from the tiers of the policy the host had.
+  const selectPolicy = (next: CancellationPolicyName) => {
+    if (next !== 'custom') {
+      onChange({ cancellation_policy: next, cancellation_tiers: undefined });
+      return;
+    }
+    const startingTiers = name === 'custom' ? CANCELLATION_POLICIES[DEFAULT_CANCELLATION_POLICY] : CANCELLATION_POLICIES[name];
+    onChange({ cancellation_policy: next, cancellation_tiers: tiers.length ? tiers : startingTiers });
+  };
+
+  const updateTier = (index: number, updates: Partial<CancellationTier>) =>
+    onChange({ ...value, cancellation_tiers: tiers.map((tier, i) => (i === index ? { ...tier, ...updates } : tier)) });
+
+  const removeTier = (index: number) =>
+    onChange({ ...value, cancellation_tiers: tiers.filter((_, i) => i !== index) });
+
+  const addTier = () =>
+    onChange({ ...value, cancellation_tiers: [...tiers, { hours_before: 0, refund_percent: 0 }] });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{t('cancellationEditor.policy')}</label>
+        <select
+          value={name}
+          onChange={(e) => selectPolicy(e.target.value as CancellationPolicyName)}
+          className={`w-full ${fieldClass}`}
+        >
+          {POLICY_NAMES.map(policy => (
+            <option key={policy} value={policy}>{cancellationPolicyLabel(policy, language)}</option>
+          ))}
+        </select>
+      </div>
+
+      {name === 'custom' && (
+        <div className="space-y-2">
+          {tiers.map((tier, index) => (
+            <div key={index} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={tier.refund_percent}
+                onChange={(e) => updateTier(index, { refund_percent: parseFloat(e.target.value) || 0 })}
+                className={`w-20 ${fieldClass}`}
+              />
+              <span>{t('cancellationEditor.refundIfCancelled')}</span>
+              <input
+                type="number"
+                min="0"
+                value={tier.hours_before}
+                onChange={(e) => updateTier(index, { hours_before: parseFloat(e.target.value) || 0 })}
+                className={`w-20 ${fieldClass}`}
+              />
+              <span>{t('cancellationEditor.hoursBefore')}</span>
+              <button
+                type="button"
+                onClick={() => removeTier(index)}
+                className="p-1 text-gray-400 hover:text-red-600"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={addTier}
+            className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="h-4 w-4" />
+            <span>{t('cancellationEditor.addTier')}</span>
+          </button>
+        </div>
+      )}
+
+      <ul className="list-disc pl-5 text-sm text-gray-500">
+        {describeCancellationPolicy(value, language).map(line => <li key={line}>{line}</li>)}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { CreditCard, Lock } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Booking, BookingCharge } from '../types';
+import { database } from '../data/database';
+import { paymentProvider } from '../payments/gateway';
+import { MOCK_TEST_CARDS } from '../payments/mockProvider';
+import { PaymentIntent } from '../payments/provider';
+import { currencyOf } from '../services/currency';
+import { useI18n } from '../context/I18nContext';
+
+interface CardPaymentFormProps {
+  booking: Booking;
+  // Pays this extra charge on the booking instead of the booking total.
+  charge?: BookingCharge;
+  onPaid: (booking: Booking) => void;
+  onPayLater?: () => void;
+}
+
+// "MM/YY" or "MM/YYYY" to month and four-digit year.
+const parseExpiry = (value: string) => {
+  const match = value.trim().match(/^(\d{1,2})\s*\/\s*(\d{2}|\d{4})$/);
+  if (!match) return null;
+  const year = Number(match[2]);
+  return { exp_month: Number(match[1]), exp_year: year < 100 ? 2000 + year : year };
+};
+
+export const CardPaymentForm: React.FC<CardPaymentFormProps> = ({ booking, charge, onPaid, onPayLater }) => {
+  const amount = charge ? charge.amount : booking.total_amount;
+  const currency = charge ? charge.currency : currencyOf(booking);
+  const chargeId = charge?.id;
+  const { t, formatCurrency } = useI18n();
+  const [intent, setIntent] = useState<PaymentIntent | null>(null);
+  const [cardNumber, setCardNumber] = useState('');
+  const [expiry, setExpiry] = useState('');
+  const [cvc, setCvc] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isPaying, setIsPaying] = useState(false);
+  const [unavailable, setUnavailable] = useState(false);
+
+  useEffect(() => {
+    if (!paymentProvider) {
+      setUnavailable(true);
+      return;
+    }
+    let cancelled = false;
+
+    paymentProvider.createIntent({ booking_id: booking.id, charge_id: chargeId, amount, currency })
+      .then(created => {
+        if (!cancelled) setIntent(created);
+      })
+      .catch(err => {
+        console.error('Error starting card payment:', err);
+        if (!cancelled) setUnavailable(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.id, chargeId, amount, currency]);
+
+  const handlePay = async () => {
+    if (!intent || !paymentProvider) return;
+
+    const exp = parseExpiry(expiry);
+    if (!exp) {
+      setError(t('cardPayment.invalidExpiry'));
+      return;
+    }
+
+    setIsPaying(true);
+    setError(null);
+    try {
+      const result = await paymentProvider.confirmIntent(intent.id, intent.client_secret, {
+        number: cardNumber,
+        cvc: cvc.trim(),
+        ...exp,
+      });
+      setIntent(result);
+
+      if (result.status !== 'succeeded') {
+        setError(result.last_error ?? t('cardPayment.notCharged'));
+        return;
+      }
+
+      // The booking, not the gateway response, decides whether we are done.
+      const [updated, charges] = await Promise.all([
+        database.getBookingById(booking.id),
+        chargeId ? database.getChargesByBooking(booking.id) : Promise.resolve([]),
+      ]);
+      const paid = chargeId
+        ? charges.some(c => c.id === chargeId && c.status === 'paid')
+        : updated?.payment_status === 'paid';
+      if (updated && paid) {
+        onPaid(updated);
+      } else {
+        setError(t('cardPayment.notConfirmed'));
+      }
+    } catch (err) {
+      console.error('Error confirming card payment:', err);
+      setError(t('cardPayment.failed'));
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center space-x-2 font-medium">
+          <CreditCard className="h-5 w-5 text-green-600" />
+          <span>{t('cardPayment.title')}</span>
+        </span>
+        <span className="text-xl font-bold text-green-600">{formatCurrency(amount, currency)}</span>
+      </div>
+
+      <div>
+        <Label htmlFor="cardNumber">{t('cardPayment.cardNumber')}</Label>
+        <Input
+          id="cardNumber"
+          inputMode="numeric"
+          autoComplete="cc-number"
+          value={cardNumber}
+          onChange={(e) => setCardNumber(e.target.value)}
+          placeholder="1234 5678 9012 3456"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="cardExpiry">{t('cardPayment.expiry')}</Label>
+          <Input
+            id="cardExpiry"
+            autoComplete="cc-exp"
+            value={expiry}
+            onChange={(e) => setExpiry(e.target.value)}
+            placeholder="MM/YY"
+          />
+        </div>
+        <div>
+          <Label htmlFor="cardCvc">{t('cardPayment.cvc')}</Label>
+          <Input
+            id="cardCvc"
+            inputMode="numeric"
+            autoComplete="cc-csc"
+            value={cvc}
+            onChange={(e) => setCvc(e.target.value)}
+            placeholder="123"
+          />
+        </div>
+      </div>
+
+      {paymentProvider?.name === 'mock' && (
+        <p className="text-xs text-gray-500">
+          {t('cardPayment.testMode', { success: MOCK_TEST_CARDS.success, declined: MOCK_TEST_CARDS.declined })}
+        </p>
+      )}
+      {(error || unavailable) && (
+        <p className="text-sm text-red-600">{error ?? t('cardPayment.unavailable')}</p>
+      )}
+
+      <Button
+        onClick={handlePay}
+        disabled={!intent || isPaying || !cardNumber || !expiry || !cvc}
+        className="w-full"
+        size="lg"
+      >
+        <Lock className="h-4 w-4 mr-2" />
+        {isPaying ? t('common.processing') : t('cardPayment.pay', { amount: formatCurrency(amount, currency) })}
+      </Button>
+      {onPayLater && (
+        <Button variant="outline" onClick={onPayLater} disabled={isPaying} className="w-full">
+          {t('cardPayment.payLater')}
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Clock } from 'lucide-react';
+import { Button } from './ui/button';
+import { Booking, BookingExtension, QuoteLineItem } from '../types';
+import { database } from '../data/database';
+import { useI18n } from '../context/I18nContext';
+import { translateError } from '../i18n/errors';
+import { useExtensionQuote } from '../hooks/useExtensionQuote';
+import { formatDuration } from '../services/occupancy';
+import { TAX_RATE } from '../services/quote';
+
+interface ExtendBookingFormProps {
+  booking: Booking;
+  onRequested: (extension: BookingExtension) => void;
+  onCancel: () => void;
+}
+
+const EXTENSION_OPTIONS_MINUTES = [30, 60, 120, 180, 240];
+
+const MINUTE_MS = 60_000;
+
+export const ExtendBookingForm: React.FC<ExtendBookingFormProps> = ({ booking, onRequested, onCancel }) => {
+  const [minutes, setMinutes] = useState(60);
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const [isRequesting, setIsRequesting] = useState(false);
+  const { language, t, formatDateTime, formatCurrency } = useI18n();
+
+  const newEndTime = new Date(Date.parse(booking.end_time) + minutes * MINUTE_MS).toISOString();
+  const { quote, loading, error } = useExtensionQuote(booking.id, newEndTime);
+
+  const quoteItemLabel = (item: QuoteLineItem) => {
+    switch (item.code) {
+      case 'base':
+        return t('extension.baseItem', { duration: formatDuration(quote?.additional_minutes ?? minutes, language) });
+      case 'tax':
+        return t('pricing.quoteItems.tax', { rate: Math.round(TAX_RATE * 100) });
+      default:
+        return t(`pricing.quoteItems.${item.code}`);
+    }
+  };
+
+  const handleRequest = async () => {
+    setIsRequesting(true);
+    setRequestError(null);
+    try {
+      onRequested(await database.requestExtension(booking.id, newEndTime, booking.guest_id));
+    } catch (err) {
+      console.error('Error requesting extension:', err);
+      setRequestError(translateError(language, err, 'extension.requestFailed'));
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-left">
+      <div>
+        <p className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">{t('extension.stayLonger')}</p>
+        <div className="flex flex-wrap gap-2">
+          {EXTENSION_OPTIONS_MINUTES.map(option => (
+            <Button
+              key={option}
+              type="button"
+              size="sm"
+              variant={option === minutes ? 'default' : 'outline'}
+              onClick={() => setMinutes(option)}
+            >
+              {formatDuration(option, language)}
+            </Button>
+          ))}
+        </div>
+        <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+          <Clock className="h-4 w-4 inline-block mr-1" />
+          {t('extension.newEndTime', { time: formatDateTime(newEndTime) })}
+        </p>
+      </div>
+
+      {loading && <p className="text-sm text-gray-500">{t('extension.calculating')}</p>}
+      {!loading && error != null && (
+        <p className="text-sm text-red-600">{translateError(language, error, 'extension.priceFailed')}</p>
+      )}
+      {quote && (
+        <div className="rounded-md bg-gray-50 dark:bg-gray-900 p-3 text-sm">
+          {quote.line_items.map(item => (
+            <div key={item.code} className="flex justify-between">
+              <span>{quoteItemLabel(item)}</span>
+              <span>{formatCurrency(item.amount, booking.currency)}</span>
+            </div>
+          ))}
+          <div className="mt-1 flex justify-between border-t pt-1 font-semibold">
+            <span>{t('extension.total')}</span>
+            <span>{formatCurrency(quote.total, booking.currency)}</span>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            {quote.requires_approval
+              ? t('extension.needsApproval')
+              : t('extension.autoApproved')}
+          </p>
+        </div>
+      )}
+      {requestError && <p className="text-sm text-red-600">{requestError}</p>}
+
+      <div className="space-y-2">
+        <Button onClick={handleRequest} disabled={!quote || isRequesting} className="w-full">
+          {isRequesting ? t('extension.requesting') : t('extension.request')}
+        </Button>
+        <Button variant="outline" onClick={onCancel} disabled={isRequesting} className="w-full">
+          {t('common.cancel')}
+        </Button>
+      </div>
+    </div>
+  );
+};
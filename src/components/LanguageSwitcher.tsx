@@ -0,0 +1,26 @@
+import React from 'react';
+import { Globe } from 'lucide-react';
+import { useI18n } from '../context/I18nContext';
+import { Language, LANGUAGES } from '../i18n/catalog';
+
+// A compact language picker for pages without the settings page, such as the
+// landing and sign-in pages.
+export const LanguageSwitcher: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { language, setLanguage, t } = useI18n();
+
+  return (
+    <label className={`flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400 ${className}`}>
+      <Globe className="h-4 w-4" />
+      <span className="sr-only">{t('common.language')}</span>
+      <select
+        value={language}
+        onChange={(e) => setLanguage(e.target.value as Language)}
+        className="bg-transparent border-none outline-none cursor-pointer"
+      >
+        {(Object.keys(LANGUAGES) as Language[]).map(code => (
+          <option key={code} value={code}>{LANGUAGES[code].label}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -1,144 +1,31 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { MapPin, User, Calendar, Settings, Home, LogOut, Bell, Clock, Menu, X } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
-
-interface Notification {
-  id: string;
-  type: 'booking_reminder' | 'extension_reminder' | 'owner_notification' | 'system';
-  title: string;
-  message: string;
-  time: string;
-  unread: boolean;
-  actionUrl?: string;
-}
+import { useI18n } from '../context/I18nContext';
+import { UserNotification } from '../types';
+import { useNotifications } from '../hooks/useNotifications';
+import { localizeNotification, notificationIcon, notificationTime } from '../services/notifications';
 
 export const Navbar: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const { user, profile, signOut } = useAuth();
+  const { profile, signOut } = useAuth();
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [showNotifications, setShowNotifications] = useState(false);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const { notifications, unreadCount, markRead } = useNotifications();
+  const { language, t, formatDateTime } = useI18n();
   
   const isActive = (path: string) => location.pathname === path;
 
-  useEffect(() => {
-    // Load notifications for the current user
-    loadNotifications();
-    
-    // Set up notification checking interval (every 30 seconds)
-    const interval = setInterval(checkForNotifications, 30000);
-    
-    return () => clearInterval(interval);
-  }, [user]);
-
-  const loadNotifications = () => {
-    // Mock notifications - in real app, fetch from API
-    const mockNotifications: Notification[] = [
-      {
-        id: '1',
-        type: 'booking_reminder',
-        title: 'Parking Session Starting Soon',
-        message: 'Your parking at Central Plaza starts in 30 minutes',
-        time: '5 min ago',
-        unread: true,
-        actionUrl: '/bookings'
-      },
-      {
-        id: '2',
-        type: 'extension_reminder',
-        title: 'Extend Your Parking?',
-        message: 'Your parking session ends in 30 minutes. Would you like to extend?',
-        time: '15 min ago',
-        unread: true,
-        actionUrl: '/bookings'
-      },
-      {
-        id: '3',
-        type: 'owner_notification',
-        title: 'Extension Request',
-        message: 'John Doe wants to extend parking at your Central Plaza spot',
-        time: '1 hour ago',
-        unread: false,
-        actionUrl: '/admin/bookings'
-      },
-      {
-        id: '4',
-        type: 'system',
-        title: 'Payment Receipt',
-        message: 'Payment receipt for booking #12345 is now available',
-        time: '2 hours ago',
-        unread: false,
-        actionUrl: '/profile'
-      }
-    ];
-    
-    // Filter notifications based on user type
-    const filteredNotifications = mockNotifications.filter(notification => {
-      if (profile?.user_type === 'host' || profile?.user_type === 'both') {
-        return ['owner_notification', 'system'].includes(notification.type);
-      } else {
-        return ['booking_reminder', 'extension_reminder', 'system'].includes(notification.type);
-      }
-    });
-    
-    setNotifications(filteredNotifications);
-  };
-
-  const checkForNotifications = () => {
-    // This function would check for new notifications
-    // For demo purposes, we'll simulate checking booking times
-    
-    if (!user) return;
-    
-    // In a real app, this would:
-    // 1. Check current time against user's bookings
-    // 2. Send notifications 30 minutes before start/end times
-    // 3. Check for owner notifications about extension requests
-    
-    console.log('Checking for new notifications...');
-    
-    // Simulate a new notification occasionally
-    if (Math.random() < 0.1) { // 10% chance
-      const newNotification: Notification = {
-        id: Date.now().toString(),
-        type: profile?.user_type === 'host' || profile?.user_type === 'both' ? 'owner_notification' : 'booking_reminder',
-        title: profile?.user_type === 'host' || profile?.user_type === 'both' ? 'New Booking' : 'Parking Reminder',
-        message: profile?.user_type === 'host' || profile?.user_type === 'both'
-          ? 'New booking received for your parking spot'
-          : 'Don\'t forget about your upcoming parking reservation',
-        time: 'Just now',
-        unread: true,
-        actionUrl: profile?.user_type === 'host' || profile?.user_type === 'both' ? '/admin/bookings' : '/bookings'
-      };
-      
-      setNotifications(prev => [newNotification, ...prev]);
-    }
-  };
-
-  const markAsRead = (notificationId: string) => {
-    setNotifications(prev => 
-      prev.map(notification => 
-        notification.id === notificationId 
-          ? { ...notification, unread: false }
-          : notification
-      )
-    );
-  };
-
-  const markAllAsRead = () => {
-    setNotifications(prev => 
-      prev.map(notification => ({ ...notification, unread: false }))
-    );
-  };
+  const markAllAsRead = () => markRead();
 
-  const handleNotificationClick = (notification: Notification) => {
-    markAsRead(notification.id);
-    if (notification.actionUrl) {
-      navigate(notification.actionUrl);
+  const handleNotificationClick = (notification: UserNotification) => {
+    if (!notification.is_read) markRead([notification.id]);
+    if (notification.action_url) {
+      navigate(notification.action_url);
     }
     setShowNotifications(false);
   };
@@ -150,8 +37,6 @@ export const Navbar: React.FC = () => {
     navigate('/login');
   };
 
-  const unreadCount = notifications.filter(n => n.unread).length;
-
   // Function to close all dropdowns/menus
   const closeAllMenus = () => {
     setShowUserMenu(false);
@@ -162,28 +47,14 @@ export const Navbar: React.FC = () => {
   // Condition to show background overlay
   const showBackgroundOverlay = showUserMenu || showNotifications || showMobileMenu;
 
-  const getNotificationIcon = (type: string) => {
-    switch (type) {
-      case 'booking_reminder':
-      case 'extension_reminder':
-        return '🚗';
-      case 'owner_notification':
-        return '👤';
-      case 'system':
-        return '📄';
-      default:
-        return '🔔';
-    }
-  };
-
   return (
     <>
-      <nav className="fixed top-0 w-full bg-white shadow-lg border-b border-gray-200 z-50">
+      <nav className="fixed top-0 w-full bg-white dark:bg-gray-800 shadow-lg border-b border-gray-200 dark:border-gray-700 z-50">
         <div className="max-w-7xl mx-auto px-4">
           <div className="flex justify-between items-center h-16">
             <Link to="/" className="flex items-center space-x-2">
               <MapPin className="h-8 w-8 text-blue-600" />
-              <span className="text-xl font-bold text-gray-900">ParkPass</span>
+              <span className="text-xl font-bold text-gray-900 dark:text-gray-100">ParkPass</span>
             </Link>
 
             {/* Desktop Right Side */}
@@ -195,7 +66,7 @@ export const Navbar: React.FC = () => {
                     setShowNotifications(!showNotifications);
                     setShowUserMenu(false);
                   }}
-                  className="relative p-2 text-gray-600 hover:text-blue-600 hover:bg-gray-100 rounded-lg transition-colors"
+                  className="relative p-2 text-gray-600 dark:text-gray-400 hover:text-blue-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
                 >
                   <Bell className="h-5 w-5" />
                   {unreadCount > 0 && (
@@ -206,15 +77,15 @@ export const Navbar: React.FC = () => {
                 </button>
 
                 {showNotifications && (
-                  <div className="absolute right-0 mt-2 w-96 bg-white rounded-lg shadow-lg border border-gray-200 z-50 max-h-96 overflow-hidden">
-                    <div className="p-4 border-b border-gray-200 flex items-center justify-between">
-                      <h3 className="font-semibold text-gray-900">Notifications</h3>
+                  <div className="absolute right-0 mt-2 w-96 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50 max-h-96 overflow-hidden">
+                    <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+                      <h3 className="font-semibold text-gray-900 dark:text-gray-100">{t('nav.notifications')}</h3>
                       {unreadCount > 0 && (
                         <button
                           onClick={markAllAsRead}
                           className="text-sm text-blue-600 hover:text-blue-800 font-medium"
                         >
-                          Mark all read
+                          {t('nav.markAllRead')}
                         </button>
                       )}
                     </div>
@@ -224,23 +95,23 @@ export const Navbar: React.FC = () => {
                           <div
                             key={notification.id}
                             onClick={() => handleNotificationClick(notification)}
-                            className={`p-4 border-b border-gray-100 hover:bg-gray-50 transition-colors cursor-pointer ${
-                              notification.unread ? 'bg-blue-50' : ''
+                            className={`p-4 border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors cursor-pointer ${
+                              !notification.is_read ? 'bg-blue-50 dark:bg-blue-900/30' : ''
                             }`}
                           >
                             <div className="flex items-start space-x-3">
-                              <span className="text-lg">{getNotificationIcon(notification.type)}</span>
+                              <span className="text-lg">{notificationIcon(notification.type)}</span>
                               <div className="flex-1 min-w-0">
-                                <p className={`text-sm font-medium ${notification.unread ? 'text-gray-900' : 'text-gray-700'}`}>
-                                  {notification.title}
+                                <p className={`text-sm font-medium ${!notification.is_read ? 'text-gray-900 dark:text-gray-100' : 'text-gray-700 dark:text-gray-300'}`}>
+                                  {localizeNotification(notification, language).title}
                                 </p>
-                                <p className="text-sm text-gray-600 mt-1">{notification.message}</p>
+                                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{localizeNotification(notification, language).message}</p>
                                 <div className="flex items-center space-x-1 mt-2">
                                   <Clock className="h-3 w-3 text-gray-400" />
-                                  <span className="text-xs text-gray-500">{notification.time}</span>
+                                  <span className="text-xs text-gray-500">{formatDateTime(notificationTime(notification))}</span>
                                 </div>
                               </div>
-                              {notification.unread && (
+                              {!notification.is_read && (
                                 <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                               )}
                             </div>
@@ -249,20 +120,19 @@ export const Navbar: React.FC = () => {
                       ) : (
                         <div className="p-8 text-center text-gray-500">
                           <Bell className="h-8 w-8 mx-auto mb-2 text-gray-400" />
-                          <p>No notifications yet</p>
+                          <p>{t('nav.noNotifications')}</p>
                         </div>
                       )}
                     </div>
-                    <div className="p-3 border-t border-gray-200">
+                    <div className="p-3 border-t border-gray-200 dark:border-gray-700">
                       <button 
                         onClick={() => {
                           setShowNotifications(false);
-                          // In a real app, navigate to a dedicated notifications page
-                          console.log('Navigate to all notifications page');
+                          navigate('/notifications');
                         }}
                         className="text-sm text-blue-600 hover:text-blue-800 font-medium w-full text-center"
                       >
-                        View all notifications
+                        {t('nav.viewAllNotifications')}
                       </button>
                     </div>
                   </div>
@@ -276,64 +146,64 @@ export const Navbar: React.FC = () => {
                     setShowUserMenu(!showUserMenu);
                     setShowNotifications(false);
                   }}
-                  className="flex items-center space-x-2 p-2 text-gray-600 hover:text-blue-600 hover:bg-gray-100 rounded-lg transition-colors"
+                  className="flex items-center space-x-2 p-2 text-gray-600 dark:text-gray-400 hover:text-blue-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
                 >
                   <User className="h-5 w-5" />
-                  <span className="text-sm font-medium">{profile?.full_name || 'User'}</span>
+                  <span className="text-sm font-medium">{profile?.full_name || t('nav.user')}</span>
                 </button>
 
                 {showUserMenu && (
-                  <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
-                    <div className="p-3 border-b border-gray-200">
-                      <p className="font-semibold text-gray-900">{profile?.full_name || 'User'}</p>
-                      <p className="text-sm text-gray-600">{profile?.email}</p>
-                      <p className="text-xs text-blue-600 capitalize">{profile?.user_type || 'guest'}</p>
+                  <div className="absolute right-0 mt-2 w-48 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50">
+                    <div className="p-3 border-b border-gray-200 dark:border-gray-700">
+                      <p className="font-semibold text-gray-900 dark:text-gray-100">{profile?.full_name || t('nav.user')}</p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">{profile?.email}</p>
+                      <p className="text-xs text-blue-600">{t(`userTypes.${profile?.user_type ?? 'guest'}`)}</p>
                     </div>
                     <div className="py-2">
                       <Link
                         to="/profile"
-                        className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                        className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
                         onClick={() => setShowUserMenu(false)}
                       >
                         <User className="h-4 w-4" />
-                        <span>Profile</span>
+                        <span>{t('nav.profile')}</span>
                       </Link>
                       {(profile?.user_type === 'guest' || profile?.user_type === 'both') && (
                         <Link
                           to="/bookings"
-                          className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                          className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
                           onClick={() => setShowUserMenu(false)}
                         >
                           <Calendar className="h-4 w-4" />
-                          <span>My Bookings</span>
+                          <span>{t('nav.myBookings')}</span>
                         </Link>
                       )}
                       {(profile?.user_type === 'host' || profile?.user_type === 'both') && (
                         <Link
                           to="/admin"
-                          className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                          className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
                           onClick={() => setShowUserMenu(false)}
                         >
                           <Settings className="h-4 w-4" />
-                          <span>Dashboard</span>
+                          <span>{t('nav.dashboard')}</span>
                         </Link>
                       )}
                       <Link
                         to="/settings"
-                        className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                        className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
                         onClick={() => setShowUserMenu(false)}
                       >
                         <Settings className="h-4 w-4" />
-                        <span>Settings</span>
+                        <span>{t('nav.settings')}</span>
                       </Link>
                     </div>
-                    <div className="border-t border-gray-200 py-2">
+                    <div className="border-t border-gray-200 dark:border-gray-700 py-2">
                       <button
                         onClick={handleLogout}
                         className="flex items-center space-x-2 px-4 py-2 text-sm text-red-600 hover:bg-red-50 transition-colors w-full text-left"
                       >
                         <LogOut className="h-4 w-4" />
-                        <span>Sign Out</span>
+                        <span>{t('nav.signOut')}</span>
                       </button>
                     </div>
                   </div>
@@ -349,7 +219,7 @@ export const Navbar: React.FC = () => {
                   setShowNotifications(!showNotifications);
                   setShowMobileMenu(false);
                 }}
-                className="relative p-2 text-gray-600 hover:text-blue-600 rounded-lg transition-colors"
+                className="relative p-2 text-gray-600 dark:text-gray-400 hover:text-blue-600 rounded-lg transition-colors"
               >
                 <Bell className="h-5 w-5" />
                 {unreadCount > 0 && (
@@ -365,7 +235,7 @@ export const Navbar: React.FC = () => {
                   setShowMobileMenu(!showMobileMenu);
                   setShowNotifications(false);
                 }}
-                className="p-2 text-gray-700 hover:text-blue-600 rounded-lg transition-colors"
+                className="p-2 text-gray-700 dark:text-gray-300 hover:text-blue-600 rounded-lg transition-colors"
               >
                 {showMobileMenu ? (
                   <X className="h-6 w-6" />
@@ -379,18 +249,18 @@ export const Navbar: React.FC = () => {
 
         {/* Mobile Menu */}
         {showMobileMenu && (
-          <div className="md:hidden border-t border-gray-200 bg-white fixed w-full top-16 left-0 z-50 shadow-lg">
+          <div className="md:hidden border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 fixed w-full top-16 left-0 z-50 shadow-lg">
             <div className="px-2 pt-2 pb-3 space-y-1">
               {/* User Info */}
-              <div className="px-3 py-3 border-b border-gray-200 mb-2">
+              <div className="px-3 py-3 border-b border-gray-200 dark:border-gray-700 mb-2">
                 <div className="flex items-center space-x-3">
                   <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
                     <User className="h-5 w-5 text-blue-600" />
                   </div>
                   <div>
-                    <p className="font-semibold text-gray-900">{profile?.full_name || 'User'}</p>
-                    <p className="text-sm text-gray-600">{profile?.email}</p>
-                    <p className="text-xs text-blue-600 capitalize">{profile?.user_type || 'guest'}</p>
+                    <p className="font-semibold text-gray-900 dark:text-gray-100">{profile?.full_name || t('nav.user')}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">{profile?.email}</p>
+                    <p className="text-xs text-blue-600">{t(`userTypes.${profile?.user_type ?? 'guest'}`)}</p>
                   </div>
                 </div>
               </div>
@@ -400,13 +270,13 @@ export const Navbar: React.FC = () => {
                 to="/"
                 className={`flex items-center space-x-2 px-3 py-2 rounded-md text-base font-medium transition-colors ${
                   isActive('/')
-                    ? 'text-blue-600 bg-blue-50'
-                    : 'text-gray-700 hover:text-blue-600 hover:bg-gray-50'
+                    ? 'text-blue-600 bg-blue-50 dark:bg-blue-900/30'
+                    : 'text-gray-700 dark:text-gray-300 hover:text-blue-600 hover:bg-gray-50 dark:hover:bg-gray-700'
                 }`}
                 onClick={() => setShowMobileMenu(false)}
               >
                 <Home className="h-5 w-5" />
-                <span>Home</span>
+                <span>{t('nav.home')}</span>
               </Link>
 
               {(profile?.user_type === 'guest' || profile?.user_type === 'both') && (
@@ -414,13 +284,13 @@ export const Navbar: React.FC = () => {
                   to="/bookings"
                   className={`flex items-center space-x-2 px-3 py-2 rounded-md text-base font-medium transition-colors ${
                     isActive('/bookings')
-                      ? 'text-blue-600 bg-blue-50'
-                      : 'text-gray-700 hover:text-blue-600 hover:bg-gray-50'
+                      ? 'text-blue-600 bg-blue-50 dark:bg-blue-900/30'
+                      : 'text-gray-700 dark:text-gray-300 hover:text-blue-600 hover:bg-gray-50 dark:hover:bg-gray-700'
                   }`}
                   onClick={() => setShowMobileMenu(false)}
                 >
                   <Calendar className="h-5 w-5" />
-                  <span>My Bookings</span>
+                  <span>{t('nav.myBookings')}</span>
                 </Link>
               )}
 
@@ -429,42 +299,42 @@ export const Navbar: React.FC = () => {
                   to="/admin"
                   className={`flex items-center space-x-2 px-3 py-2 rounded-md text-base font-medium transition-colors ${
                     isActive('/admin')
-                      ? 'text-blue-600 bg-blue-50'
-                      : 'text-gray-700 hover:text-blue-600 hover:bg-gray-50'
+                      ? 'text-blue-600 bg-blue-50 dark:bg-blue-900/30'
+                      : 'text-gray-700 dark:text-gray-300 hover:text-blue-600 hover:bg-gray-50 dark:hover:bg-gray-700'
                   }`}
                   onClick={() => setShowMobileMenu(false)}
                 >
                   <Settings className="h-5 w-5" />
-                  <span>Dashboard</span>
+                  <span>{t('nav.dashboard')}</span>
                 </Link>
               )}
 
               <Link
                 to="/profile"
-                className="flex items-center space-x-2 px-3 py-2 rounded-md text-base font-medium text-gray-700 hover:text-blue-600 hover:bg-gray-50 transition-colors"
+                className="flex items-center space-x-2 px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-blue-600 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
                 onClick={() => setShowMobileMenu(false)}
               >
                 <User className="h-5 w-5" />
-                <span>Profile</span>
+                <span>{t('nav.profile')}</span>
               </Link>
 
               <Link
                 to="/settings"
-                className="flex items-center space-x-2 px-3 py-2 rounded-md text-base font-medium text-gray-700 hover:text-blue-600 hover:bg-gray-50 transition-colors"
+                className="flex items-center space-x-2 px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-blue-600 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
                 onClick={() => setShowMobileMenu(false)}
               >
                 <Settings className="h-5 w-5" />
-                <span>Settings</span>
+                <span>{t('nav.settings')}</span>
               </Link>
 
               {/* Logout */}
-              <div className="border-t border-gray-200 pt-2 mt-2">
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-2 mt-2">
                 <button
                   onClick={handleLogout}
                   className="flex items-center space-x-2 px-3 py-2 rounded-md text-base font-medium text-red-600 hover:bg-red-50 transition-colors w-full text-left"
                 >
                   <LogOut className="h-5 w-5" />
-                  <span>Sign Out</span>
+                  <span>{t('nav.signOut')}</span>
                 </button>
               </div>
             </div>
@@ -473,15 +343,15 @@ export const Navbar: React.FC = () => {
 
         {/* Mobile Notifications Dropdown */}
         {showNotifications && (
-          <div className="md:hidden fixed left-0 right-0 top-16 bg-white border-b border-gray-200 shadow-lg z-50 max-h-80 overflow-hidden">
-            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
-              <h3 className="font-semibold text-gray-900">Notifications</h3>
+          <div className="md:hidden fixed left-0 right-0 top-16 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 shadow-lg z-50 max-h-80 overflow-hidden">
+            <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+              <h3 className="font-semibold text-gray-900 dark:text-gray-100">{t('nav.notifications')}</h3>
               {unreadCount > 0 && (
                 <button
                   onClick={markAllAsRead}
                   className="text-sm text-blue-600 hover:text-blue-800 font-medium"
                 >
-                  Mark all read
+                  {t('nav.markAllRead')}
                 </button>
               )}
             </div>
@@ -491,23 +361,23 @@ export const Navbar: React.FC = () => {
                   <div
                     key={notification.id}
                     onClick={() => handleNotificationClick(notification)}
-                    className={`p-4 border-b border-gray-100 hover:bg-gray-50 transition-colors cursor-pointer ${
-                      notification.unread ? 'bg-blue-50' : ''
+                    className={`p-4 border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors cursor-pointer ${
+                      !notification.is_read ? 'bg-blue-50 dark:bg-blue-900/30' : ''
                     }`}
                   >
                     <div className="flex items-start space-x-3">
-                      <span className="text-lg">{getNotificationIcon(notification.type)}</span>
+                      <span className="text-lg">{notificationIcon(notification.type)}</span>
                       <div className="flex-1 min-w-0">
-                        <p className={`text-sm font-medium ${notification.unread ? 'text-gray-900' : 'text-gray-700'}`}>
-                          {notification.title}
+                        <p className={`text-sm font-medium ${!notification.is_read ? 'text-gray-900 dark:text-gray-100' : 'text-gray-700 dark:text-gray-300'}`}>
+                          {localizeNotification(notification, language).title}
                         </p>
-                        <p className="text-sm text-gray-600 mt-1">{notification.message}</p>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{localizeNotification(notification, language).message}</p>
                         <div className="flex items-center space-x-1 mt-2">
                           <Clock className="h-3 w-3 text-gray-400" />
-                          <span className="text-xs text-gray-500">{notification.time}</span>
+                          <span className="text-xs text-gray-500">{formatDateTime(notificationTime(notification))}</span>
                         </div>
                       </div>
-                      {notification.unread && (
+                      {!notification.is_read && (
                         <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                       )}
                     </div>
@@ -516,19 +386,19 @@ export const Navbar: React.FC = () => {
               ) : (
                 <div className="p-8 text-center text-gray-500">
                   <Bell className="h-8 w-8 mx-auto mb-2 text-gray-400" />
-                  <p>No notifications yet</p>
+                  <p>{t('nav.noNotifications')}</p>
                 </div>
               )}
             </div>
-            <div className="p-3 border-t border-gray-200">
+            <div className="p-3 border-t border-gray-200 dark:border-gray-700">
               <button
                 className="text-sm text-blue-600 hover:text-blue-800 font-medium w-full text-center"
                 onClick={() => {
                   setShowNotifications(false);
-                  console.log('Navigate to all notifications page');
+                  navigate('/notifications');
                 }}
               >
-                View all notifications
+                {t('nav.viewAllNotifications')}
               </button>
             </div>
           </div>
@@ -2,9 +2,11 @@
 import React, { useState } from 'react';
 import { Upload, FileText, Check } from 'lucide-react';
 import { useFileUpload } from '../hooks/useFileUpload';
+import { SLIP_FILE_TYPES } from '../services/payments';
+import { useI18n } from '../context/I18nContext';
 
 interface PaymentSlipUploadProps {
-  onUploadComplete?: (fileUrl: string) => void;
+  onUploadComplete?: (fileUrl: string, fileType?: string) => void;
   bookingId?: string;
 }
 
@@ -15,18 +17,18 @@ export const PaymentSlipUpload: React.FC<PaymentSlipUploadProps> = ({
   const [dragActive, setDragActive] = useState(false);
   const { uploadFile, isUploading, uploadProgress } = useFileUpload();
   const [uploadedFile, setUploadedFile] = useState<string | null>(null);
+  const { t } = useI18n();
 
   const handleFile = async (file: File) => {
     // Validate file type
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/gif', 'application/pdf'];
-    if (!allowedTypes.includes(file.type)) {
-      alert('Please upload an image (JPEG, PNG, GIF) or PDF file');
+    if (!SLIP_FILE_TYPES.includes(file.type)) {
+      alert(t('slipUpload.invalidType'));
       return;
     }
 
     // Validate file size (5MB max)
     if (file.size > 5 * 1024 * 1024) {
-      alert('File size must be less than 5MB');
+      alert(t('slipUpload.tooLarge'));
       return;
     }
 
@@ -36,11 +38,11 @@ export const PaymentSlipUpload: React.FC<PaymentSlipUploadProps> = ({
       
       if (result.publicUrl) {
         setUploadedFile(result.publicUrl);
-        onUploadComplete?.(result.publicUrl);
+        onUploadComplete?.(result.publicUrl, file.type);
       }
     } catch (error) {
       console.error('Error uploading payment slip:', error);
-      alert('Error uploading payment slip. Please try again.');
+      alert(t('slipUpload.failed'));
     }
   };
 
@@ -73,16 +75,16 @@ export const PaymentSlipUpload: React.FC<PaymentSlipUploadProps> = ({
 
   if (uploadedFile) {
     return (
-      <div className="border-2 border-green-200 border-dashed rounded-lg p-6 bg-green-50">
+      <div className="border-2 border-green-200 dark:border-green-800 border-dashed rounded-lg p-6 bg-green-50 dark:bg-green-900/30">
         <div className="text-center">
           <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
             <Check className="h-6 w-6 text-green-600" />
           </div>
-          <h3 className="text-lg font-semibold text-green-900 mb-2">
-            Payment Slip Uploaded Successfully
+          <h3 className="text-lg font-semibold text-green-900 dark:text-green-200 mb-2">
+            {t('slipUpload.uploaded')}
           </h3>
-          <p className="text-sm text-green-700 mb-4">
-            Your payment slip has been uploaded and will be reviewed shortly.
+          <p className="text-sm text-green-700 dark:text-green-300 mb-4">
+            {t('slipUpload.uploadedText')}
           </p>
           <button
             onClick={() => {
@@ -91,7 +93,7 @@ export const PaymentSlipUpload: React.FC<PaymentSlipUploadProps> = ({
             }}
             className="text-green-600 hover:text-green-800 text-sm font-medium"
           >
-            Upload a different file
+            {t('slipUpload.replace')}
           </button>
         </div>
       </div>
@@ -100,21 +102,21 @@ export const PaymentSlipUpload: React.FC<PaymentSlipUploadProps> = ({
 
   return (
     <div className="space-y-4">
-      <div className="text-sm text-gray-600 mb-4">
-        <p className="font-medium mb-2">Payment Instructions:</p>
+      <div className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        <p className="font-medium mb-2">{t('slipUpload.instructions')}</p>
         <ul className="list-disc list-inside space-y-1 text-xs">
-          <li>Transfer the exact amount to our payment account</li>
-          <li>Take a screenshot or photo of your payment confirmation</li>
-          <li>Upload the payment slip below for verification</li>
-          <li>Your booking will be confirmed once payment is verified</li>
+          <li>{t('slipUpload.stepTransfer')}</li>
+          <li>{t('slipUpload.stepScreenshot')}</li>
+          <li>{t('slipUpload.stepUpload')}</li>
+          <li>{t('slipUpload.stepConfirm')}</li>
         </ul>
       </div>
 
       <div
         className={`relative border-2 border-dashed rounded-lg p-6 transition-colors ${
           dragActive
-            ? 'border-blue-400 bg-blue-50'
-            : 'border-gray-300 hover:border-gray-400'
+            ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/30'
+            : 'border-gray-300 dark:border-gray-600 hover:border-gray-400'
         }`}
         onDragEnter={handleDrag}
         onDragLeave={handleDrag}
@@ -136,34 +138,34 @@ export const PaymentSlipUpload: React.FC<PaymentSlipUploadProps> = ({
                 <Upload className="h-6 w-6 text-blue-600 animate-pulse" />
               </div>
               <div>
-                <p className="text-sm font-medium text-gray-900">
-                  Uploading payment slip...
+                <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                  {t('slipUpload.uploading')}
                 </p>
-                <div className="mt-2 bg-gray-200 rounded-full h-2">
+                <div className="mt-2 bg-gray-200 dark:bg-gray-600 rounded-full h-2">
                   <div 
                     className="bg-blue-600 h-2 rounded-full transition-all duration-300"
                     style={{ width: `${uploadProgress}%` }}
                   ></div>
                 </div>
                 <p className="text-xs text-gray-500 mt-1">
-                  {uploadProgress}% complete
+                  {t('slipUpload.progress', { percent: uploadProgress })}
                 </p>
               </div>
             </div>
           ) : (
             <div className="space-y-4">
-              <div className="w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center mx-auto">
-                <FileText className="h-6 w-6 text-gray-600" />
+              <div className="w-12 h-12 bg-gray-100 dark:bg-gray-700 rounded-full flex items-center justify-center mx-auto">
+                <FileText className="h-6 w-6 text-gray-600 dark:text-gray-400" />
               </div>
               <div>
-                <p className="text-sm font-medium text-gray-900">
-                  Upload Payment Slip
+                <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                  {t('slipUpload.title')}
                 </p>
                 <p className="text-xs text-gray-500 mt-1">
-                  Drag and drop your payment slip here, or click to browse
+                  {t('slipUpload.dropHint')}
                 </p>
                 <p className="text-xs text-gray-400 mt-1">
-                  Supports: JPEG, PNG, GIF, PDF (max 5MB)
+                  {t('slipUpload.supported')}
                 </p>
               </div>
             </div>
@@ -0,0 +1,127 @@
+import React from 'react';
+import { useI18n } from '../context/I18nContext';
+import { PricingRules } from '../services/pricing';
+import { DEFAULT_OVERSTAY_GRACE_MINUTES } from '../services/overstay';
+
+interface PricingRulesEditorProps {
+  value: PricingRules;
+  onChange: (rules: PricingRules) => void;
+}
+
+const fieldClass =
+  'px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none';
+const inputClass = `w-full ${fieldClass}`;
+
+const toNumber = (value: string) => (value === '' ? undefined : parseFloat(value));
+
+export const PricingRulesEditor: React.FC<PricingRulesEditorProps> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  const update = (updates: Partial<PricingRules>) => onChange({ ...value, ...updates });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{t('pricingEditor.monthlyRate')}</label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={value.monthly_rate ?? ''}
+            onChange={(e) => update({ monthly_rate: toNumber(e.target.value) })}
+            placeholder={t('pricingEditor.optional')}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{t('pricingEditor.weekendRate')}</label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={value.weekend_hourly_rate ?? ''}
+            onChange={(e) => update({ weekend_hourly_rate: toNumber(e.target.value) })}
+            placeholder={t('pricingEditor.sameAsHourly')}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{t('pricingEditor.peakRate')}</label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={value.peak_hourly_rate ?? ''}
+            onChange={(e) => update({ peak_hourly_rate: toNumber(e.target.value) })}
+            placeholder={t('pricingEditor.noPeak')}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {value.peak_hourly_rate != null && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-700 dark:text-gray-300">{t('pricingEditor.peakFrom')}</span>
+          <input
+            type="time"
+            value={value.peak_start ?? ''}
+            onChange={(e) => update({ peak_start: e.target.value || undefined })}
+            className={fieldClass}
+          />
+          <span className="text-sm text-gray-700 dark:text-gray-300">{t('pricingEditor.peakTo')}</span>
+          <input
+            type="time"
+            value={value.peak_end ?? ''}
+            onChange={(e) => update({ peak_end: e.target.value || undefined })}
+            className={fieldClass}
+          />
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{t('pricingEditor.minimumStay')}</label>
+          <input
+            type="number"
+            min="0"
+            step="15"
+            value={value.minimum_duration_minutes ?? ''}
+            onChange={(e) => update({ minimum_duration_minutes: toNumber(e.target.value) })}
+            placeholder={t('pricingEditor.none')}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{t('pricingEditor.gracePeriod')}</label>
+          <input
+            type="number"
+            min="0"
+            max="59"
+            value={value.grace_period_minutes ?? ''}
+            onChange={(e) => update({ grace_period_minutes: toNumber(e.target.value) })}
+            placeholder={t('pricingEditor.none')}
+            className={inputClass}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            {t('pricingEditor.gracePeriodHelp')}
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{t('pricingEditor.overstayGrace')}</label>
+          <input
+            type="number"
+            min="0"
+            step="5"
+            value={value.overstay_grace_minutes ?? ''}
+            onChange={(e) => update({ overstay_grace_minutes: toNumber(e.target.value) })}
+            placeholder={`${DEFAULT_OVERSTAY_GRACE_MINUTES}`}
+            className={inputClass}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            {t('pricingEditor.overstayGraceHelp')}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
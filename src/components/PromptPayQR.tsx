@@ -0,0 +1,30 @@
+import React from 'react';
+import { QRCodeGenerator } from './QRCodeGenerator';
+import { buildPromptPayPayload, isValidPromptPayId } from '../services/promptpay';
+import { useI18n } from '../context/I18nContext';
+
+interface PromptPayQRProps {
+  promptPayId: string;
+  amount: number;
+  size?: number;
+}
+
+export const PromptPayQR: React.FC<PromptPayQRProps> = ({ promptPayId, amount, size = 200 }) => {
+  const { t, formatCurrency } = useI18n();
+
+  if (!isValidPromptPayId(promptPayId) || !(amount > 0)) {
+    return (
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        {t('promptPay.unavailable')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center">
+      <QRCodeGenerator value={buildPromptPayPayload(promptPayId, amount)} size={size} />
+      <p className="mt-2 text-sm font-medium text-gray-900 dark:text-gray-100">{t('promptPay.scan')}</p>
+      <p className="text-sm text-gray-600 dark:text-gray-400">{t('promptPay.amount', { amount: formatCurrency(amount, 'THB') })}</p>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React from 'react';
 import QRCode from 'qrcode';
+import { useI18n } from '../context/I18nContext';
 
 interface QRCodeGeneratorProps {
   value: string;
@@ -12,6 +13,7 @@ export const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({
   size = 200, 
   className = "" 
 }) => {
+  const { t } = useI18n();
   const [qrCodeUrl, setQrCodeUrl] = React.useState<string>('');
 
   React.useEffect(() => {
@@ -39,7 +41,7 @@ export const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({
   if (!qrCodeUrl) {
     return (
       <div 
-        className={`flex items-center justify-center bg-gray-100 rounded-lg ${className}`}
+        className={`flex items-center justify-center bg-gray-100 dark:bg-gray-700 rounded-lg ${className}`}
         style={{ width: size + 32, height: size + 32 }}
       >
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
@@ -50,12 +52,12 @@ export const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({
   return (
     <div className={`flex flex-col items-center ${className}`}>
       <div 
-        className="border-2 border-gray-200 rounded-lg p-4 bg-white"
+        className="border-2 border-gray-200 dark:border-gray-700 rounded-lg p-4 bg-white dark:bg-gray-800"
         style={{ width: size + 32, height: size + 32 }}
       >
         <img 
           src={qrCodeUrl}
-          alt="QR Code"
+          alt={t('scanner.qrCode')}
           width={size}
           height={size}
           className="w-full h-full"
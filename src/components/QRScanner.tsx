@@ -1,11 +1,21 @@
 
-import React, { useState } from 'react';
-import { QrCode, Hash, Check, X, AlertCircle, User, MapPin, Clock, Car } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { QrCode, Hash, Check, X, AlertCircle, User, MapPin, Clock, Car, LogIn, Flashlight, FlashlightOff, SwitchCamera, ImageUp } from 'lucide-react';
 import { database } from '../data/database';
-import { Booking, ParkingSpot } from '../services/supabaseService';
+import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { translateError } from '../i18n/errors';
+import { useQRCamera } from '../hooks/useQRCamera';
+import { decodeQRCodeFromFile } from '../services/qrDecoder';
+import { AccessCredential } from '../data/repository';
+import { isAccessDeniedError, isBookingStateError } from '../data/errors';
+import { PIN_LENGTH } from '../services/access';
+import { bookingStatusLabel, formatDuration, isOverstaying, overstayMinutes } from '../services/occupancy';
+import { Booking, ParkingSpot } from '../types';
 
 interface QRScannerProps {
-  onScan: (data: string) => void;
+  // Called with the booking after it has been checked in or out.
+  onScan: (booking: Booking) => void;
   onClose?: () => void;
 }
 
@@ -13,48 +23,56 @@ interface BookingDetails {
   booking: Booking;
   spot: ParkingSpot;
   customerName: string;
+  credential: AccessCredential;
 }
 
 export const QRScanner: React.FC<QRScannerProps> = ({ onScan, onClose }) => {
+  const { user } = useAuth();
+  const { language, t, formatDate, formatTime, formatCurrency } = useI18n();
   const [scanMode, setScanMode] = useState<'qr' | 'pin'>('qr');
   const [pinInput, setPinInput] = useState('');
   const [qrInput, setQrInput] = useState('');
-  const [isScanning, setIsScanning] = useState(false);
+  const [spots, setSpots] = useState<ParkingSpot[]>([]);
+  const [pinSpotId, setPinSpotId] = useState('');
   const [bookingDetails, setBookingDetails] = useState<BookingDetails | null>(null);
   const [error, setError] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const validateAndShowBooking = async (code: string, isPin: boolean = false) => {
+  // The video element only exists on the scanning screen.
+  const camera = useQRCamera(videoRef, {
+    active: scanMode === 'qr' && !bookingDetails,
+    onDecode: (text) => {
+      if (!isProcessing) validateAndShowBooking({ token: text });
+    }
+  });
+
+  // PINs are only unique per spot, so PIN entry needs the spot being entered.
+  useEffect(() => {
+    if (!user) return;
+    database.getParkingSpotsByOwner(user.id)
+      .then(ownerSpots => {
+        setSpots(ownerSpots);
+        setPinSpotId(current => current || ownerSpots[0]?.id || '');
+      })
+      .catch(error => console.error('Error loading spots:', error));
+  }, [user]);
+
+  const validateAndShowBooking = async (credential: AccessCredential) => {
+    if (!user) return;
     setError('');
     setIsProcessing(true);
 
     try {
-      let booking: Booking | null = null;
-      
-      if (isPin) {
-        booking = await database.getBookingByPin(code);
-      } else {
-        booking = await database.getBookingByQRCode(code);
-      }
-
-      if (!booking) {
-        setError('Invalid code. Please check and try again.');
-        setIsProcessing(false);
-        return;
-      }
-
-      if (booking.status === 'completed' || booking.status === 'cancelled') {
-        setError('This booking has already been processed.');
-        setIsProcessing(false);
-        return;
-      }
+      const booking = await database.verifyBookingAccess(credential, user.id);
 
       // Get spot and customer details
       const spot = await database.getParkingSpotById(booking.spot_id);
-      const customer = await database.getUserById(booking.guest_id);
+      const [customer] = await database.getProfilesByIds([booking.guest_id]);
 
       if (!spot || !customer) {
-        setError('Booking details not found.');
+        setError(t('scanner.notFound'));
         setIsProcessing(false);
         return;
       }
@@ -62,10 +80,15 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScan, onClose }) => {
       setBookingDetails({
         booking,
         spot,
-        customerName: customer.name
+        customerName: customer.full_name,
+        credential
       });
     } catch (error) {
-      setError('Error validating code. Please try again.');
+      if (isAccessDeniedError(error)) {
+        setError(translateError(language, error));
+        return;
+      }
+      setError(t('scanner.validateFailed'));
     } finally {
       setIsProcessing(false);
     }
@@ -73,120 +96,157 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScan, onClose }) => {
 
   const handlePinSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (pinInput.length === 4) {
-      validateAndShowBooking(pinInput, true);
+    if (pinInput.length === PIN_LENGTH && pinSpotId) {
+      validateAndShowBooking({ spot_id: pinSpotId, pin: pinInput });
     }
   };
 
   const handleQRSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (qrInput.trim()) {
-      validateAndShowBooking(qrInput.trim());
+      validateAndShowBooking({ token: qrInput.trim() });
     }
   };
 
-  const simulateQRScan = () => {
-    setIsScanning(true);
-    // Simulate scanning delay
-    setTimeout(() => {
-      setIsScanning(false);
-      // Use a valid QR code from the database for demo
-      validateAndShowBooking('QR_b1_1_1737123456789');
-    }, 2000);
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    try {
+      const text = await decodeQRCodeFromFile(file);
+      if (text) {
+        validateAndShowBooking({ token: text });
+      } else {
+        setError(t('scanner.noCodeInImage'));
+      }
+    } catch (error) {
+      console.error('Error reading image:', error);
+      setError(t('scanner.imageUnreadable'));
+    }
   };
 
-  const confirmEntry = async () => {
-    if (!bookingDetails) return;
+  const cancelBookingDetails = () => {
+    setBookingDetails(null);
+    // Let the same code be scanned again once the camera restarts.
+    camera.rescan();
+  };
+
+  // Entry checks the booking in; a booking that is already checked in is
+  // leaving, so the same scan checks it out.
+  const confirmGate = async () => {
+    if (!bookingDetails || !user) return;
 
     setIsProcessing(true);
     try {
-      // Update booking status to confirmed (if it was pending) or completed
-      const newStatus = bookingDetails.booking.status === 'pending' ? 'confirmed' : 'completed';
-      await database.updateBookingStatus(bookingDetails.booking.id, newStatus);
-      
-      onScan(`QR_${bookingDetails.booking.id}`);
+      const updated = bookingDetails.booking.status === 'checked_in'
+        ? await database.checkOutBooking(bookingDetails.booking.id, user.id)
+        : await database.checkInBooking(bookingDetails.credential, user.id);
+
+      onScan(updated);
       setBookingDetails(null);
       if (onClose) onClose();
     } catch (error) {
-      setError('Error processing entry. Please try again.');
+      if (isAccessDeniedError(error) || isBookingStateError(error)) {
+        setError(translateError(language, error));
+        return;
+      }
+      setError(bookingDetails.booking.status === 'checked_in' ? t('scanner.exitFailed') : t('scanner.entryFailed'));
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const formatDateTime = (dateString: string) => {
-    const date = new Date(dateString);
-    return {
-      date: date.toLocaleDateString(),
-      time: date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
-    };
-  };
+  const formatDateTime = (dateString: string) => ({
+    date: formatDate(dateString),
+    time: formatTime(dateString)
+  });
 
   if (bookingDetails) {
     const startDateTime = formatDateTime(bookingDetails.booking.start_time);
     const endDateTime = formatDateTime(bookingDetails.booking.end_time);
+    const isExit = bookingDetails.booking.status === 'checked_in';
 
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-        <div className="bg-white rounded-xl shadow-2xl max-w-md w-full">
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-md w-full">
           <div className="p-6">
             <div className="text-center mb-6">
               <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
                 <Check className="h-8 w-8 text-green-600" />
               </div>
-              <h3 className="text-xl font-bold text-gray-900 mb-2">
-                Valid Booking Found
+              <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+                {t('scanner.validBooking')}
               </h3>
-              <p className="text-green-700">
-                Booking details verified successfully
+              <p className="text-green-700 dark:text-green-300">
+                {isExit ? t('scanner.readyToLeave') : t('scanner.verified')}
               </p>
             </div>
 
             {/* Booking Details */}
-            <div className="bg-gray-50 rounded-lg p-4 mb-6 space-y-3">
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4 mb-6 space-y-3">
               <div className="flex items-center space-x-2">
-                <User className="h-4 w-4 text-gray-600" />
-                <span className="text-sm text-gray-600">Customer:</span>
+                <User className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+                <span className="text-sm text-gray-600 dark:text-gray-400">{t('scanner.customer')}</span>
                 <span className="font-medium">{bookingDetails.customerName}</span>
               </div>
               
               <div className="flex items-center space-x-2">
-                <MapPin className="h-4 w-4 text-gray-600" />
-                <span className="text-sm text-gray-600">Location:</span>
+                <MapPin className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+                <span className="text-sm text-gray-600 dark:text-gray-400">{t('scanner.location')}</span>
                 <span className="font-medium">{bookingDetails.spot.title}</span>
               </div>
 
               <div className="flex items-center space-x-2">
-                <Clock className="h-4 w-4 text-gray-600" />
-                <span className="text-sm text-gray-600">Time:</span>
+                <Clock className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+                <span className="text-sm text-gray-600 dark:text-gray-400">{t('scanner.time')}</span>
                 <span className="font-medium">
                   {startDateTime.date} • {startDateTime.time} - {endDateTime.time}
                 </span>
               </div>
 
               <div className="flex items-center space-x-2">
-                <Car className="h-4 w-4 text-gray-600" />
-                <span className="text-sm text-gray-600">Status:</span>
+                <Car className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+                <span className="text-sm text-gray-600 dark:text-gray-400">{t('scanner.status')}</span>
                 <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                  bookingDetails.booking.status === 'confirmed' ? 'bg-green-100 text-green-800' :
-                  bookingDetails.booking.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                  'bg-gray-100 text-gray-800'
+                  bookingDetails.booking.status === 'confirmed' ? 'bg-green-100 text-green-800 dark:text-green-200' :
+                  bookingDetails.booking.status === 'pending' ? 'bg-yellow-100 text-yellow-800 dark:text-yellow-200' :
+                  bookingDetails.booking.status === 'checked_in' ? 'bg-purple-100 text-purple-800 dark:text-purple-200' :
+                  'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
                 }`}>
-                  {bookingDetails.booking.status.charAt(0).toUpperCase() + bookingDetails.booking.status.slice(1)}
+                  {bookingStatusLabel(bookingDetails.booking.status, language)}
                 </span>
               </div>
 
-              <div className="pt-2 border-t border-gray-200">
+              {bookingDetails.booking.checked_in_at && (
+                <div className="flex items-center space-x-2">
+                  <LogIn className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+                  <span className="text-sm text-gray-600 dark:text-gray-400">{t('scanner.checkedIn')}</span>
+                  <span className="font-medium">{formatDateTime(bookingDetails.booking.checked_in_at).time}</span>
+                </div>
+              )}
+
+              {isOverstaying(bookingDetails.booking) && (
+                <div className="flex items-center space-x-2 text-red-700 dark:text-red-300">
+                  <AlertCircle className="h-4 w-4" />
+                  <span className="text-sm font-medium">
+                    {t('scanner.overstayed', { duration: formatDuration(overstayMinutes(bookingDetails.booking), language) })}
+                  </span>
+                </div>
+              )}
+
+              <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
                 <div className="flex justify-between items-center">
-                  <span className="text-sm text-gray-600">Total Amount:</span>
-                  <span className="font-bold text-lg">${bookingDetails.booking.total_amount}</span>
+                  <span className="text-sm text-gray-600 dark:text-gray-400">{t('scanner.totalAmount')}</span>
+                  <span className="font-bold text-lg">{formatCurrency(bookingDetails.booking.total_amount, bookingDetails.booking.currency)}</span>
                 </div>
               </div>
             </div>
 
             {error && (
-              <div className="mb-4 p-3 bg-red-50 rounded-lg">
-                <div className="flex items-center space-x-2 text-red-800">
+              <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/30 rounded-lg">
+                <div className="flex items-center space-x-2 text-red-800 dark:text-red-200">
                   <AlertCircle className="h-4 w-4" />
                   <span className="text-sm">{error}</span>
                 </div>
@@ -195,18 +255,18 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScan, onClose }) => {
 
             <div className="flex gap-3">
               <button
-                onClick={() => setBookingDetails(null)}
-                className="flex-1 border border-gray-200 py-3 px-4 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+                onClick={cancelBookingDetails}
+                className="flex-1 border border-gray-200 dark:border-gray-700 py-3 px-4 rounded-lg font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
                 disabled={isProcessing}
               >
-                Cancel
+                {t('common.cancel')}
               </button>
               <button
-                onClick={confirmEntry}
+                onClick={confirmGate}
                 disabled={isProcessing}
                 className="flex-1 bg-green-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
               >
-                {isProcessing ? 'Processing...' : 'Confirm Entry'}
+                {isProcessing ? t('common.processing') : isExit ? t('scanner.confirmExit') : t('scanner.confirmEntry')}
               </button>
             </div>
           </div>
@@ -217,14 +277,14 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScan, onClose }) => {
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-md w-full">
         <div className="p-6">
           <div className="flex items-center justify-between mb-6">
-            <h3 className="text-xl font-bold text-gray-900">Entry Validation</h3>
+            <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100">{t('scanner.title')}</h3>
             {onClose && (
               <button
                 onClick={onClose}
-                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
               >
                 <X className="h-5 w-5 text-gray-500" />
               </button>
@@ -232,34 +292,34 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScan, onClose }) => {
           </div>
 
           {/* Mode Toggle */}
-          <div className="flex bg-gray-100 rounded-lg p-1 mb-6">
+          <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1 mb-6">
             <button
               onClick={() => setScanMode('qr')}
               className={`flex-1 flex items-center justify-center space-x-2 py-2 px-4 rounded-md font-medium transition-colors ${
                 scanMode === 'qr'
-                  ? 'bg-white text-blue-600 shadow-sm'
-                  : 'text-gray-600'
+                  ? 'bg-white dark:bg-gray-800 text-blue-600 shadow-sm'
+                  : 'text-gray-600 dark:text-gray-400'
               }`}
             >
               <QrCode className="h-4 w-4" />
-              <span>QR Code</span>
+              <span>{t('scanner.qrCode')}</span>
             </button>
             <button
               onClick={() => setScanMode('pin')}
               className={`flex-1 flex items-center justify-center space-x-2 py-2 px-4 rounded-md font-medium transition-colors ${
                 scanMode === 'pin'
-                  ? 'bg-white text-blue-600 shadow-sm'
-                  : 'text-gray-600'
+                  ? 'bg-white dark:bg-gray-800 text-blue-600 shadow-sm'
+                  : 'text-gray-600 dark:text-gray-400'
               }`}
             >
               <Hash className="h-4 w-4" />
-              <span>PIN</span>
+              <span>{t('scanner.pin')}</span>
             </button>
           </div>
 
           {error && (
-            <div className="mb-4 p-3 bg-red-50 rounded-lg">
-              <div className="flex items-center space-x-2 text-red-800">
+            <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/30 rounded-lg">
+              <div className="flex items-center space-x-2 text-red-800 dark:text-red-200">
                 <AlertCircle className="h-4 w-4" />
                 <span className="text-sm">{error}</span>
               </div>
@@ -268,51 +328,93 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScan, onClose }) => {
 
           {scanMode === 'qr' ? (
             <div className="text-center">
-              <div className="w-48 h-48 bg-gray-100 rounded-lg mx-auto mb-4 flex items-center justify-center relative overflow-hidden">
-                {isScanning ? (
-                  <div className="absolute inset-0 bg-blue-600 bg-opacity-20 flex items-center justify-center">
-                    <div className="animate-pulse text-blue-600">
-                      <QrCode className="h-12 w-12" />
+              {camera.error ? (
+                <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/30 rounded-lg text-left">
+                  <div className="flex items-start space-x-2 text-yellow-800 dark:text-yellow-200">
+                    <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <span className="text-sm">{t(`scanner.cameraProblems.${camera.error}`)}</span>
+                  </div>
+                </div>
+              ) : (
+                <div className="w-64 h-64 bg-gray-900 rounded-lg mx-auto mb-3 relative overflow-hidden">
+                  <video
+                    ref={videoRef}
+                    className="w-full h-full object-cover"
+                    muted
+                    playsInline
+                  />
+                  {camera.isStarting && (
+                    <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-300">
+                      {t('scanner.startingCamera')}
                     </div>
+                  )}
+                  {/* Scanning overlay */}
+                  <div className="absolute inset-8 border-2 border-blue-600 rounded-lg pointer-events-none">
+                    <div className="absolute top-0 left-0 w-6 h-6 border-t-4 border-l-4 border-blue-600 rounded-tl-lg"></div>
+                    <div className="absolute top-0 right-0 w-6 h-6 border-t-4 border-r-4 border-blue-600 rounded-tr-lg"></div>
+                    <div className="absolute bottom-0 left-0 w-6 h-6 border-b-4 border-l-4 border-blue-600 rounded-bl-lg"></div>
+                    <div className="absolute bottom-0 right-0 w-6 h-6 border-b-4 border-r-4 border-blue-600 rounded-br-lg"></div>
                   </div>
-                ) : (
-                  <QrCode className="h-12 w-12 text-gray-400" />
-                )}
-                {/* Scanning overlay */}
-                <div className="absolute inset-4 border-2 border-blue-600 rounded-lg">
-                  <div className="absolute top-0 left-0 w-6 h-6 border-t-4 border-l-4 border-blue-600 rounded-tl-lg"></div>
-                  <div className="absolute top-0 right-0 w-6 h-6 border-t-4 border-r-4 border-blue-600 rounded-tr-lg"></div>
-                  <div className="absolute bottom-0 left-0 w-6 h-6 border-b-4 border-l-4 border-blue-600 rounded-bl-lg"></div>
-                  <div className="absolute bottom-0 right-0 w-6 h-6 border-b-4 border-r-4 border-blue-600 rounded-br-lg"></div>
                 </div>
+              )}
+
+              <div className="flex justify-center gap-2 mb-4">
+                {camera.torchSupported && (
+                  <button
+                    type="button"
+                    onClick={camera.toggleTorch}
+                    className="flex items-center space-x-1 border border-gray-200 dark:border-gray-700 py-2 px-3 rounded-lg text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    {camera.torchOn ? <FlashlightOff className="h-4 w-4" /> : <Flashlight className="h-4 w-4" />}
+                    <span>{camera.torchOn ? t('scanner.torchOff') : t('scanner.torchOn')}</span>
+                  </button>
+                )}
+                {camera.cameras.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={camera.switchCamera}
+                    className="flex items-center space-x-1 border border-gray-200 dark:border-gray-700 py-2 px-3 rounded-lg text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    <SwitchCamera className="h-4 w-4" />
+                    <span>{t('scanner.switchCamera')}</span>
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isProcessing}
+                  className="flex items-center space-x-1 border border-gray-200 dark:border-gray-700 py-2 px-3 rounded-lg text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                >
+                  <ImageUp className="h-4 w-4" />
+                  <span>{t('scanner.scanImage')}</span>
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  onChange={handleImageUpload}
+                  className="hidden"
+                />
               </div>
-              
-              <button
-                onClick={simulateQRScan}
-                disabled={isScanning || isProcessing}
-                className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg font-semibold hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors mb-4"
-              >
-                {isScanning ? 'Scanning...' : 'Simulate QR Scan'}
-              </button>
 
               <div className="text-left">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Or enter QR code manually:
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  {t('scanner.enterManually')}
                 </label>
                 <form onSubmit={handleQRSubmit} className="space-y-3">
                   <input
                     type="text"
                     value={qrInput}
                     onChange={(e) => setQrInput(e.target.value)}
-                    placeholder="Paste QR code here"
-                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    placeholder={t('scanner.pastePlaceholder')}
+                    className="w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
                   />
                   <button
                     type="submit"
                     disabled={!qrInput.trim() || isProcessing}
                     className="w-full bg-gray-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-gray-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
                   >
-                    {isProcessing ? 'Validating...' : 'Validate Code'}
+                    {isProcessing ? t('scanner.validating') : t('scanner.validateCode')}
                   </button>
                 </form>
               </div>
@@ -320,37 +422,41 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScan, onClose }) => {
           ) : (
             <form onSubmit={handlePinSubmit}>
               <div className="mb-4">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Enter 4-digit PIN
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  {t('scanner.spot')}
+                </label>
+                <select
+                  value={pinSpotId}
+                  onChange={(e) => setPinSpotId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                >
+                  {spots.map(spot => (
+                    <option key={spot.id} value={spot.id}>{spot.title}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  {t('scanner.enterPin', { length: PIN_LENGTH })}
                 </label>
                 <input
                   type="text"
                   value={pinInput}
-                  onChange={(e) => setPinInput(e.target.value.replace(/\D/g, '').slice(0, 4))}
+                  onChange={(e) => setPinInput(e.target.value.replace(/\D/g, '').slice(0, PIN_LENGTH))}
                   placeholder="1234"
-                  className="w-full px-4 py-3 border border-gray-200 rounded-lg text-center text-2xl font-mono tracking-widest focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-                  maxLength={4}
+                  className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-lg text-center text-2xl font-mono tracking-widest focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                  maxLength={PIN_LENGTH}
                 />
               </div>
               <button
                 type="submit"
-                disabled={pinInput.length !== 4 || isProcessing}
+                disabled={pinInput.length !== PIN_LENGTH || !pinSpotId || isProcessing}
                 className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg font-semibold hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
               >
-                {isProcessing ? 'Validating...' : 'Validate PIN'}
+                {isProcessing ? t('scanner.validating') : t('scanner.validatePin')}
               </button>
             </form>
           )}
-
-          {/* Demo Instructions */}
-          <div className="mt-6 p-3 bg-blue-50 rounded-lg">
-            <h4 className="font-medium text-blue-900 mb-2">Demo Instructions</h4>
-            <div className="text-xs text-blue-700 space-y-1">
-              <p>• Use "Simulate QR Scan" to test with demo booking</p>
-              <p>• Or enter PIN: <strong>1234</strong></p>
-              <p>• QR Code: <strong>QR_b1_1_1737123456789</strong></p>
-            </div>
-          </div>
         </div>
       </div>
     </div>
@@ -1,6 +1,7 @@
 
 import React, { useState } from 'react';
 import { Star, X, Send, Camera } from 'lucide-react';
+import { useI18n } from '../context/I18nContext';
 
 interface RatingReviewModalProps {
   isOpen: boolean;
@@ -21,11 +22,12 @@ export const RatingReviewModal: React.FC<RatingReviewModalProps> = ({
   const [review, setReview] = useState('');
   const [photos, setPhotos] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { t } = useI18n();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (rating === 0) {
-      alert('Please select a rating');
+      alert(t('review.selectRating'));
       return;
     }
 
@@ -46,7 +48,7 @@ export const RatingReviewModal: React.FC<RatingReviewModalProps> = ({
   };
 
   const addPhoto = () => {
-    const url = prompt('Enter photo URL:');
+    const url = prompt(t('review.photoUrlPrompt'));
     if (url) {
       setPhotos(prev => [...prev, url]);
     }
@@ -58,28 +60,28 @@ export const RatingReviewModal: React.FC<RatingReviewModalProps> = ({
 
   const ratingLabels = [
     '', // 0 stars
-    'Terrible',
-    'Poor', 
-    'Average',
-    'Good',
-    'Excellent'
+    t('review.ratings.terrible'),
+    t('review.ratings.poor'),
+    t('review.ratings.average'),
+    t('review.ratings.good'),
+    t('review.ratings.excellent')
   ];
 
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
         <div className="p-6">
           {/* Header */}
           <div className="flex items-center justify-between mb-6">
             <div>
-              <h3 className="text-xl font-bold text-gray-900">Rate & Review</h3>
-              <p className="text-sm text-gray-600">{spotName}</p>
+              <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100">{t('review.title')}</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">{spotName}</p>
             </div>
             <button
               onClick={onClose}
-              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
             >
               <X className="h-5 w-5 text-gray-500" />
             </button>
@@ -88,8 +90,8 @@ export const RatingReviewModal: React.FC<RatingReviewModalProps> = ({
           <form onSubmit={handleSubmit} className="space-y-6">
             {/* Rating Section */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">
-                How was your parking experience?
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                {t('review.experience')}
               </label>
               <div className="flex items-center space-x-2 mb-2">
                 {[1, 2, 3, 4, 5].map((star) => (
@@ -112,7 +114,7 @@ export const RatingReviewModal: React.FC<RatingReviewModalProps> = ({
                 ))}
               </div>
               {(rating > 0 || hoverRating > 0) && (
-                <p className="text-sm font-medium text-gray-700">
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
                   {ratingLabels[hoverRating || rating]}
                 </p>
               )}
@@ -120,20 +122,20 @@ export const RatingReviewModal: React.FC<RatingReviewModalProps> = ({
 
             {/* Review Text */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Write your review (optional)
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                {t('review.writeReview')}
               </label>
               <textarea
                 value={review}
                 onChange={(e) => setReview(e.target.value)}
                 rows={4}
-                placeholder="Share your experience with other drivers. Was the location easy to find? How was the security? Any tips for future visitors?"
-                className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none resize-none"
+                placeholder={t('review.placeholder')}
+                className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none resize-none"
                 maxLength={500}
               />
               <div className="flex justify-between items-center mt-1">
                 <p className="text-xs text-gray-500">
-                  Help other drivers by sharing specific details
+                  {t('review.helpText')}
                 </p>
                 <p className="text-xs text-gray-500">
                   {review.length}/500
@@ -143,15 +145,15 @@ export const RatingReviewModal: React.FC<RatingReviewModalProps> = ({
 
             {/* Photo Upload */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Add photos (optional)
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                {t('review.addPhotos')}
               </label>
               <div className="grid grid-cols-3 gap-3 mb-3">
                 {photos.map((photo, index) => (
                   <div key={index} className="relative">
                     <img
                       src={photo}
-                      alt={`Review photo ${index + 1}`}
+                      alt={t('review.photoAlt', { number: index + 1 })}
                       className="w-full h-20 object-cover rounded-lg"
                     />
                     <button
@@ -167,34 +169,34 @@ export const RatingReviewModal: React.FC<RatingReviewModalProps> = ({
                   <button
                     type="button"
                     onClick={addPhoto}
-                    className="h-20 border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center hover:border-gray-400 transition-colors"
+                    className="h-20 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg flex items-center justify-center hover:border-gray-400 transition-colors"
                   >
                     <div className="text-center">
                       <Camera className="h-6 w-6 text-gray-400 mx-auto mb-1" />
-                      <span className="text-xs text-gray-500">Add Photo</span>
+                      <span className="text-xs text-gray-500">{t('review.addPhoto')}</span>
                     </div>
                   </button>
                 )}
               </div>
               <p className="text-xs text-gray-500">
-                Add up to 3 photos to help other drivers
+                {t('review.photoLimit', { count: 3 })}
               </p>
             </div>
 
             {/* Review Categories */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">
-                Rate specific aspects (optional)
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                {t('review.aspectsTitle')}
               </label>
               <div className="space-y-3">
                 {[
-                  { label: 'Location & Access', key: 'location' },
-                  { label: 'Security & Safety', key: 'security' },
-                  { label: 'Value for Money', key: 'value' },
-                  { label: 'Cleanliness', key: 'cleanliness' }
+                  { label: t('review.aspects.location'), key: 'location' },
+                  { label: t('review.aspects.security'), key: 'security' },
+                  { label: t('review.aspects.value'), key: 'value' },
+                  { label: t('review.aspects.cleanliness'), key: 'cleanliness' }
                 ].map((aspect) => (
                   <div key={aspect.key} className="flex items-center justify-between">
-                    <span className="text-sm text-gray-700">{aspect.label}</span>
+                    <span className="text-sm text-gray-700 dark:text-gray-300">{aspect.label}</span>
                     <div className="flex items-center space-x-1">
                       {[1, 2, 3, 4, 5].map((star) => (
                         <Star
@@ -213,22 +215,22 @@ export const RatingReviewModal: React.FC<RatingReviewModalProps> = ({
               <input
                 type="checkbox"
                 id="anonymous"
-                className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                className="rounded border-gray-300 dark:border-gray-600 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
               />
-              <label htmlFor="anonymous" className="ml-2 text-sm text-gray-700">
-                Post this review anonymously
+              <label htmlFor="anonymous" className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                {t('review.anonymous')}
               </label>
             </div>
 
             {/* Submit Buttons */}
-            <div className="flex gap-3 pt-4 border-t border-gray-200">
+            <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
               <button
                 type="button"
                 onClick={onClose}
-                className="flex-1 border border-gray-200 py-3 px-4 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+                className="flex-1 border border-gray-200 dark:border-gray-700 py-3 px-4 rounded-lg font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
                 disabled={isSubmitting}
               >
-                Cancel
+                {t('common.cancel')}
               </button>
               <button
                 type="submit"
@@ -238,12 +240,12 @@ export const RatingReviewModal: React.FC<RatingReviewModalProps> = ({
                 {isSubmitting ? (
                   <>
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                    <span>Submitting...</span>
+                    <span>{t('review.submitting')}</span>
                   </>
                 ) : (
                   <>
                     <Send className="h-4 w-4" />
-                    <span>Submit Review</span>
+                    <span>{t('review.submit')}</span>
                   </>
                 )}
               </button>
@@ -251,13 +253,13 @@ export const RatingReviewModal: React.FC<RatingReviewModalProps> = ({
           </form>
 
           {/* Review Guidelines */}
-          <div className="mt-6 p-4 bg-blue-50 rounded-lg">
-            <h4 className="font-medium text-blue-900 mb-2">Review Guidelines</h4>
-            <ul className="text-xs text-blue-700 space-y-1">
-              <li>• Be honest and helpful to other drivers</li>
-              <li>• Focus on your parking experience</li>
-              <li>• Avoid personal information or offensive content</li>
-              <li>• Photos should be relevant to the parking spot</li>
+          <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-900/30 rounded-lg">
+            <h4 className="font-medium text-blue-900 dark:text-blue-200 mb-2">{t('review.guidelinesTitle')}</h4>
+            <ul className="text-xs text-blue-700 dark:text-blue-300 space-y-1">
+              <li>• {t('review.guidelines.honest')}</li>
+              <li>• {t('review.guidelines.focus')}</li>
+              <li>• {t('review.guidelines.privacy')}</li>
+              <li>• {t('review.guidelines.photos')}</li>
             </ul>
           </div>
         </div>
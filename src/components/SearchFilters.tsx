@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Search, Filter, MapPin, X } from 'lucide-react';
+import { useI18n } from '../context/I18nContext';
 
 interface SearchFiltersProps {
   onSearch: (query: string) => void;
@@ -9,17 +10,24 @@ interface SearchFiltersProps {
 
 interface FilterOptions {
   priceRange: [number, number];
-  parkingType: string;
+  parkingType: ParkingType;
   amenities: string[];
-  sortBy: string;
+  sortBy: SortOption;
   availableOnly: boolean;
 }
 
+type ParkingType = 'all' | 'covered' | 'open' | 'valet' | 'garage';
+type SortOption = 'distance' | 'price_low' | 'price_high' | 'rating' | 'availability';
+
+const PARKING_TYPES: ParkingType[] = ['all', 'covered', 'open', 'valet', 'garage'];
+const SORT_OPTIONS: SortOption[] = ['distance', 'price_low', 'price_high', 'rating', 'availability'];
+
 export const SearchFilters: React.FC<SearchFiltersProps> = ({
   onSearch,
   onFilter,
   onFindNearMe
 }) => {
+  const { t, formatCurrency } = useI18n();
   const [searchQuery, setSearchQuery] = useState('');
   const [showFilters, setShowFilters] = useState(false);
   const [filters, setFilters] = useState<FilterOptions>({
@@ -80,16 +88,16 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
     filters.availableOnly;
 
   return (
-    <div className="bg-white rounded-xl shadow-md p-6 mb-6">
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md p-6 mb-6">
       <form onSubmit={handleSearch} className="flex flex-col md:flex-row gap-4 mb-4">
         <div className="flex-1 relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
           <input
             type="text"
-            placeholder="Search by location, address, or parking spot name..."
+            placeholder={t('searchFilters.placeholder')}
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            className="w-full pl-10 pr-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors"
+            className="w-full pl-10 pr-4 py-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors"
           />
         </div>
         
@@ -100,8 +108,8 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
             className="flex items-center space-x-2 px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium whitespace-nowrap"
           >
             <MapPin className="h-5 w-5" />
-            <span className="hidden md:inline">Find Near Me</span>
-            <span className="md:hidden">Near Me</span>
+            <span className="hidden md:inline">{t('searchFilters.findNearMe')}</span>
+            <span className="md:hidden">{t('searchFilters.nearMe')}</span>
           </button>
           
           <button
@@ -109,12 +117,12 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
             onClick={() => setShowFilters(!showFilters)}
             className={`flex items-center space-x-2 px-4 py-3 border rounded-lg font-medium transition-colors relative ${
               hasActiveFilters 
-                ? 'border-blue-500 bg-blue-50 text-blue-700' 
-                : 'border-gray-200 hover:bg-gray-50'
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' 
+                : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
             }`}
           >
             <Filter className="h-5 w-5" />
-            <span className="hidden md:inline">Filters</span>
+            <span className="hidden md:inline">{t('searchFilters.filters')}</span>
             {hasActiveFilters && (
               <span className="absolute -top-2 -right-2 bg-blue-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
                 {filters.amenities.length + 
@@ -129,15 +137,15 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
       </form>
 
       {showFilters && (
-        <div className="border-t border-gray-200 pt-6">
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
           <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold text-gray-900">Filter Options</h3>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{t('searchFilters.filterOptions')}</h3>
             {hasActiveFilters && (
               <button
                 onClick={clearFilters}
                 className="text-sm text-blue-600 hover:text-blue-800 font-medium"
               >
-                Clear All
+                {t('searchFilters.clearAll')}
               </button>
             )}
           </div>
@@ -145,8 +153,8 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
           <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6">
             {/* Price Range */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">
-                Price Range (per hour)
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                {t('searchFilters.priceRange')}
               </label>
               <div className="space-y-2">
                 <input
@@ -159,70 +167,66 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
                   })}
                   className="w-full"
                 />
-                <div className="flex justify-between text-sm text-gray-600">
-                  <span>$0</span>
-                  <span>${filters.priceRange[1]}</span>
+                <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400">
+                  <span>{formatCurrency(0)}</span>
+                  <span>{formatCurrency(filters.priceRange[1])}</span>
                 </div>
               </div>
             </div>
 
             {/* Parking Type */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">
-                Parking Type
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                {t('searchFilters.parkingType')}
               </label>
               <select
                 value={filters.parkingType}
-                onChange={(e) => handleFilterChange({ parkingType: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                onChange={(e) => handleFilterChange({ parkingType: e.target.value as ParkingType })}
+                className="w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
               >
-                <option value="all">All Types</option>
-                <option value="covered">Covered</option>
-                <option value="open">Open Air</option>
-                <option value="valet">Valet Service</option>
-                <option value="garage">Garage</option>
+                {PARKING_TYPES.map(type => (
+                  <option key={type} value={type}>{t(`searchFilters.types.${type}`)}</option>
+                ))}
               </select>
             </div>
 
             {/* Sort By */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">
-                Sort By
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                {t('searchFilters.sortBy')}
               </label>
               <select
                 value={filters.sortBy}
-                onChange={(e) => handleFilterChange({ sortBy: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                onChange={(e) => handleFilterChange({ sortBy: e.target.value as SortOption })}
+                className="w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
               >
-                <option value="distance">Distance</option>
-                <option value="price_low">Price: Low to High</option>
-                <option value="price_high">Price: High to Low</option>
-                <option value="rating">Highest Rated</option>
-                <option value="availability">Most Available</option>
+                {SORT_OPTIONS.map(option => (
+                  <option key={option} value={option}>{t(`searchFilters.sort.${option}`)}</option>
+                ))}
               </select>
             </div>
 
             {/* Available Only */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">
-                Availability
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                {t('searchFilters.availability')}
               </label>
               <label className="flex items-center">
                 <input
                   type="checkbox"
                   checked={filters.availableOnly}
                   onChange={(e) => handleFilterChange({ availableOnly: e.target.checked })}
-                  className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                  className="rounded border-gray-300 dark:border-gray-600 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
                 />
-                <span className="ml-2 text-sm text-gray-700">Available spots only</span>
+                <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">{t('searchFilters.availableOnly')}</span>
               </label>
             </div>
           </div>
 
           {/* Amenities */}
           <div className="mt-6">
-            <label className="block text-sm font-medium text-gray-700 mb-3">
-              Amenities
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+              {t('searchFilters.amenities')}
             </label>
             <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
               {availableAmenities.map((amenity) => {
@@ -234,8 +238,8 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
                     onClick={() => toggleAmenity(amenity)}
                     className={`flex items-center justify-between p-3 border-2 rounded-lg transition-colors text-sm ${
                       isSelected
-                        ? 'border-blue-500 bg-blue-50 text-blue-700'
-                        : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                        : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 text-gray-700 dark:text-gray-300'
                     }`}
                   >
                     <span>{amenity}</span>
@@ -250,33 +254,33 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
 
           {/* Active Filters Summary */}
           {hasActiveFilters && (
-            <div className="mt-6 p-4 bg-blue-50 rounded-lg">
-              <h4 className="text-sm font-medium text-blue-900 mb-2">Active Filters:</h4>
+            <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-900/30 rounded-lg">
+              <h4 className="text-sm font-medium text-blue-900 dark:text-blue-200 mb-2">{t('searchFilters.activeFilters')}</h4>
               <div className="flex flex-wrap gap-2">
                 {filters.priceRange[1] < 500 && (
-                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                    Price: $0-${filters.priceRange[1]}
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:text-blue-200">
+                    {t('searchFilters.priceChip', { min: formatCurrency(0), max: formatCurrency(filters.priceRange[1]) })}
                   </span>
                 )}
                 {filters.parkingType !== 'all' && (
-                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                    Type: {filters.parkingType}
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:text-blue-200">
+                    {t('searchFilters.typeChip', { type: t(`searchFilters.types.${filters.parkingType}`) })}
                   </span>
                 )}
                 {filters.sortBy !== 'distance' && (
-                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                    Sort: {filters.sortBy.replace('_', ' ')}
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:text-blue-200">
+                    {t('searchFilters.sortChip', { sort: t(`searchFilters.sort.${filters.sortBy}`) })}
                   </span>
                 )}
                 {filters.availableOnly && (
-                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                    Available only
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:text-blue-200">
+                    {t('searchFilters.availableOnlyChip')}
                   </span>
                 )}
                 {filters.amenities.map((amenity) => (
                   <span
                     key={amenity}
-                    className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                    className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:text-blue-200"
                   >
                     {amenity}
                   </span>
@@ -0,0 +1,149 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { DaySchedule, OpeningInterval, WeeklySchedule } from '../types';
+import {
+  WEEK_ORDER,
+  createAlwaysOpenSchedule,
+  createDailySchedule,
+} from '../services/schedule';
+import { useI18n } from '../context/I18nContext';
+
+interface WeeklyScheduleEditorProps {
+  value: WeeklySchedule;
+  onChange: (schedule: WeeklySchedule) => void;
+}
+
+const inputClass =
+  'px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none';
+
+export const WeeklyScheduleEditor: React.FC<WeeklyScheduleEditorProps> = ({ value, onChange }) => {
+  const { t, formatWeekday } = useI18n();
+
+  const updateDay = (dayOfWeek: number, updates: Partial<DaySchedule>) => {
+    onChange({
+      ...value,
+      days: value.days.map(day => (day.day_of_week === dayOfWeek ? { ...day, ...updates } : day)),
+    });
+  };
+
+  const updateInterval = (day: DaySchedule, index: number, updates: Partial<OpeningInterval>) => {
+    updateDay(day.day_of_week, {
+      intervals: day.intervals.map((interval, i) => (i === index ? { ...interval, ...updates } : interval)),
+    });
+  };
+
+  const addInterval = (day: DaySchedule) => {
+    updateDay(day.day_of_week, {
+      is_open: true,
+      intervals: [...day.intervals, { open: '09:00', close: '17:00' }],
+    });
+  };
+
+  const removeInterval = (day: DaySchedule, index: number) => {
+    const intervals = day.intervals.filter((_, i) => i !== index);
+    updateDay(day.day_of_week, { intervals, is_open: intervals.length > 0 });
+  };
+
+  const toggleDay = (day: DaySchedule) => {
+    updateDay(day.day_of_week, {
+      is_open: !day.is_open,
+      intervals: !day.is_open && day.intervals.length === 0 ? [{ open: '09:00', close: '17:00' }] : day.intervals,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex-1 min-w-[200px]">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{t('scheduleEditor.timezone')}</label>
+          <input
+            type="text"
+            value={value.timezone}
+            onChange={(e) => onChange({ ...value, timezone: e.target.value })}
+            placeholder={t('scheduleEditor.timezonePlaceholder')}
+            className={`w-full ${inputClass}`}
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange(createAlwaysOpenSchedule(value.timezone))}
+          className="px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        >
+          {t('scheduleEditor.alwaysOpen')}
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange(createDailySchedule('08:00', '20:00', value.timezone))}
+          className="px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        >
+          {t('scheduleEditor.daily', { open: '08:00', close: '20:00' })}
+        </button>
+      </div>
+
+      <div className="divide-y divide-gray-200 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800">
+        {WEEK_ORDER.map((dayOfWeek) => {
+          const day = value.days.find(d => d.day_of_week === dayOfWeek)
+            ?? { day_of_week: dayOfWeek, is_open: false, intervals: [] };
+
+          return (
+            <div key={dayOfWeek} className="flex flex-col md:flex-row md:items-start gap-3 p-3">
+              <label className="flex items-center space-x-2 w-36 pt-2">
+                <input
+                  type="checkbox"
+                  checked={day.is_open}
+                  onChange={() => toggleDay(day)}
+                  className="h-4 w-4"
+                />
+                <span className="text-sm font-medium text-gray-900 dark:text-gray-100">{formatWeekday(dayOfWeek)}</span>
+              </label>
+
+              {day.is_open ? (
+                <div className="flex-1 space-y-2">
+                  {day.intervals.map((interval, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="time"
+                        value={interval.open}
+                        onChange={(e) => updateInterval(day, index, { open: e.target.value })}
+                        className={inputClass}
+                      />
+                      <span className="text-gray-500">{t('scheduleEditor.to')}</span>
+                      <input
+                        type="time"
+                        value={interval.close}
+                        onChange={(e) => updateInterval(day, index, { close: e.target.value })}
+                        className={inputClass}
+                      />
+                      {interval.close <= interval.open && (
+                        <span className="text-xs text-gray-500">
+                          {interval.open === '00:00' && interval.close === '00:00' ? t('scheduleEditor.allDay') : t('scheduleEditor.nextDay')}
+                        </span>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => removeInterval(day, index)}
+                        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => addInterval(day)}
+                    className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>{t('scheduleEditor.addHours')}</span>
+                  </button>
+                </div>
+              ) : (
+                <span className="flex-1 pt-2 text-sm text-gray-500">{t('schedule.closed')}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
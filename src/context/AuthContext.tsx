@@ -1,7 +1,8 @@
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { supabase } from '../integrations/supabase/client';
-import { supabaseService, Profile } from '../services/supabaseService';
+import { database } from '../data/database';
+import { Profile } from '../types';
 import type { User } from '@supabase/supabase-js';
 
 interface AuthContextType {
@@ -9,7 +10,7 @@ interface AuthContextType {
   profile: Profile | null;
   isLoading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
-  signUp: (email: string, password: string, fullName: string) => Promise<void>;
+  signUp: (email: string, password: string, fullName: string, userType?: Profile['user_type']) => Promise<void>;
   signOut: () => Promise<void>;
   updateProfile: (updates: Partial<Profile>) => Promise<void>;
 }
@@ -36,7 +37,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setUser(session?.user ?? null);
       
       if (session?.user) {
-        const userProfile = await supabaseService.getCurrentUserProfile();
+        const userProfile = await database.getProfileById(session.user.id);
         setProfile(userProfile);
       }
       
@@ -50,7 +51,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setUser(session?.user ?? null);
       
       if (session?.user) {
-        const userProfile = await supabaseService.getCurrentUserProfile();
+        const userProfile = await database.getProfileById(session.user.id);
         setProfile(userProfile);
       } else {
         setProfile(null);
@@ -71,18 +72,20 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     if (error) throw error;
     
     if (data.user) {
-      const userProfile = await supabaseService.getCurrentUserProfile();
+      const userProfile = await database.getProfileById(data.user.id);
       setProfile(userProfile);
     }
   };
 
-  const signUp = async (email: string, password: string, fullName: string) => {
+  const signUp = async (email: string, password: string, fullName: string, userType: Profile['user_type'] = 'guest') => {
     const { data, error } = await supabase.auth.signUp({
       email,
       password,
       options: {
+        // Copied into the new profiles row by the handle_new_user trigger.
         data: {
-          full_name: fullName,
+          name: fullName,
+          user_type: userType,
         },
       },
     });
@@ -91,9 +94,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     
     // Profile will be created automatically by the trigger
     if (data.user) {
+      const newUserId = data.user.id;
       // Wait a moment for the trigger to create the profile
       setTimeout(async () => {
-        const userProfile = await supabaseService.getCurrentUserProfile();
+        const userProfile = await database.getProfileById(newUserId);
         setProfile(userProfile);
       }, 1000);
     }
@@ -106,7 +110,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const updateProfile = async (updates: Partial<Profile>) => {
-    const updatedProfile = await supabaseService.updateProfile(updates);
+    if (!user) throw new Error('Not authenticated');
+    const updatedProfile = await database.updateProfile(user.id, updates);
     setProfile(updatedProfile);
   };
 
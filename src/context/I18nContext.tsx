@@ -0,0 +1,94 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useSettings } from './SettingsContext';
+import {
+  Language,
+  LANGUAGES,
+  MessageKey,
+  MessageParams,
+  missingTranslations,
+  resolveLanguage,
+  translate,
+} from '../i18n/catalog';
+import {
+  formatCurrency,
+  formatCurrencyName,
+  formatDate,
+  formatDateTime,
+  formatNumber,
+  formatTime,
+  formatWeekday,
+} from '../i18n/format';
+
+// Remembers the last language on this device, for signed-out pages.
+const LANGUAGE_STORAGE_KEY = 'parkpass_language';
+
+type DateInput = string | number | Date;
+
+interface I18nContextType {
+  language: Language;
+  locale: string;
+  // Saved to the user's settings when signed in, otherwise to this device.
+  setLanguage: (language: Language) => Promise<void>;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatDate: (value: DateInput, options?: Intl.DateTimeFormatOptions) => string;
+  formatTime: (value: DateInput, options?: Intl.DateTimeFormatOptions) => string;
+  formatDateTime: (value: DateInput, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatCurrency: (amount: number, currency?: string) => string;
+  formatCurrencyName: (currency: string) => string;
+  formatWeekday: (dayOfWeek: number, weekday?: 'long' | 'short') => string;
+}
+
+const I18nContext = createContext<I18nContextType | undefined>(undefined);
+
+export const useI18n = () => {
+  const context = useContext(I18nContext);
+  if (context === undefined) {
+    throw new Error('useI18n must be used within an I18nProvider');
+  }
+  return context;
+};
+
+const deviceLanguage = () =>
+  resolveLanguage(localStorage.getItem(LANGUAGE_STORAGE_KEY) ?? navigator.language);
+
+if (import.meta.env.DEV) {
+  for (const [language, missing] of Object.entries(missingTranslations())) {
+    console.warn(`Missing ${language} translations:`, missing);
+  }
+}
+
+// Translates the app into the signed-in user's language, or the device's
+// when signed out. Must sit inside SettingsProvider.
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { settings, updateSettings } = useSettings();
+  const [storedLanguage, setStoredLanguage] = useState<Language>(deviceLanguage);
+  const language = settings ? resolveLanguage(settings.language) : storedLanguage;
+  const { locale } = LANGUAGES[language];
+
+  useEffect(() => {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback(async (next: Language) => {
+    setStoredLanguage(next);
+    if (settings) await updateSettings({ language: next });
+  }, [settings, updateSettings]);
+
+  const value = useMemo<I18nContextType>(() => ({
+    language,
+    locale,
+    setLanguage,
+    t: (key, params) => translate(language, key, params),
+    formatDate: (value, options) => formatDate(value, locale, options),
+    formatTime: (value, options) => formatTime(value, locale, options),
+    formatDateTime: (value, options) => formatDateTime(value, locale, options),
+    formatNumber: (value, options) => formatNumber(value, locale, options),
+    formatCurrency: (amount, currency) => formatCurrency(amount, locale, currency),
+    formatCurrencyName: currency => formatCurrencyName(currency, locale),
+    formatWeekday: (dayOfWeek, weekday) => formatWeekday(dayOfWeek, locale, weekday),
+  }), [language, locale, setLanguage]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
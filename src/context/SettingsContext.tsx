@@ -0,0 +1,91 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { database } from '../data/database';
+import { useAuth } from './AuthContext';
+import { UserPreferences, UserSettings } from '../types';
+import { DEFAULT_USER_SETTINGS } from '../services/settings';
+
+interface SettingsContextType {
+  // Null until loaded and while signed out.
+  settings: UserSettings | null;
+  isLoading: boolean;
+  // Shows the change straight away and undoes it if the save fails.
+  updateSettings: (updates: Partial<UserPreferences>) => Promise<void>;
+}
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+// Puts the dark class on <html> for Tailwind's dark: variants.
+const applyTheme = (theme: UserSettings['theme']) => {
+  const dark = theme === 'dark' || (theme === 'system' && window.matchMedia(DARK_QUERY).matches);
+  document.documentElement.classList.toggle('dark', dark);
+};
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+export const useSettings = () => {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+};
+
+// Loads the signed-in user's settings and applies the theme to the whole app.
+// Signed-out pages get the defaults. I18nProvider applies the language.
+export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<UserSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      setSettings(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    database.getUserSettings(user.id)
+      .then(saved => {
+        if (!cancelled) setSettings(saved);
+      })
+      .catch(error => console.error('Error loading settings:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const theme = settings?.theme ?? DEFAULT_USER_SETTINGS.theme;
+
+  useEffect(() => {
+    applyTheme(theme);
+    if (theme !== 'system') return;
+
+    // Follow the device when it switches between light and dark.
+    const query = window.matchMedia(DARK_QUERY);
+    const onChange = () => applyTheme(theme);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, [theme]);
+
+  const updateSettings = async (updates: Partial<UserPreferences>) => {
+    if (!user || !settings) return;
+    const previous = settings;
+    setSettings({ ...settings, ...updates });
+    try {
+      setSettings(await database.updateUserSettings(user.id, updates));
+    } catch (error) {
+      setSettings(previous);
+      throw error;
+    }
+  };
+
+  return (
+    <SettingsContext.Provider value={{ settings, isLoading, updateSettings }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
@@ -0,0 +1,293 @@
+import { Booking, TimeRange } from '../types';
+
+// Thrown by DataRepository.reserveBooking when the requested range would put
+// more concurrent bookings on a spot than it has slots.
+export class BookingConflictError extends Error {
+  readonly spotId: string;
+  readonly suggestions: TimeRange[];
+
+  constructor(spotId: string, suggestions: TimeRange[] = []) {
+    super('This spot is fully booked for the selected time');
+    this.name = 'BookingConflictError';
+    this.spotId = spotId;
+    this.suggestions = suggestions;
+  }
+}
+
+export const isBookingConflictError = (error: unknown): error is BookingConflictError =>
+  error instanceof BookingConflictError;
+
+// Thrown by DataRepository.reserveBooking when the requested range falls
+// outside the spot's weekly operating hours.
+export class SpotClosedError extends Error {
+  readonly spotId: string;
+
+  constructor(spotId: string) {
+    super('This spot is closed during part of the selected time');
+    this.name = 'SpotClosedError';
+    this.spotId = spotId;
+  }
+}
+
+export const isSpotClosedError = (error: unknown): error is SpotClosedError =>
+  error instanceof SpotClosedError;
+
+// Thrown when a booking's total_amount differs from the quote computed for it
+// server-side, e.g. because rates changed after the guest saw the price.
+export class QuoteMismatchError extends Error {
+  readonly expected: number;
+  readonly received: number;
+
+  constructor(expected: number, received: number) {
+    super('The price for this booking has changed');
+    this.name = 'QuoteMismatchError';
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+export const isQuoteMismatchError = (error: unknown): error is QuoteMismatchError =>
+  error instanceof QuoteMismatchError;
+
+export type PromoCodeProblem =
+  | 'not_found'
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'wrong_spot'
+  | 'wrong_currency'
+  | 'below_minimum'
+  | 'usage_limit'
+  | 'guest_limit';
+
+const PROMO_CODE_MESSAGES: Record<PromoCodeProblem, string> = {
+  not_found: 'This promo code does not exist',
+  inactive: 'This promo code is no longer active',
+  not_started: 'This promo code is not valid yet',
+  expired: 'This promo code has expired',
+  wrong_spot: 'This promo code cannot be used for this spot',
+  wrong_currency: 'This promo code cannot be used for prices in this currency',
+  below_minimum: 'This booking is below the minimum amount for this promo code',
+  usage_limit: 'This promo code has been fully redeemed',
+  guest_limit: 'You have already used this promo code',
+};
+
+// Thrown when quoting or booking with a promo code that cannot be applied.
+export class PromoCodeError extends Error {
+  readonly code: string;
+  readonly problem: PromoCodeProblem;
+
+  constructor(code: string, problem: PromoCodeProblem) {
+    super(PROMO_CODE_MESSAGES[problem]);
+    this.name = 'PromoCodeError';
+    this.code = code;
+    this.problem = problem;
+  }
+}
+
+export const isPromoCodeError = (error: unknown): error is PromoCodeError =>
+  error instanceof PromoCodeError;
+
+export type PaymentStateProblem =
+  | 'booking_paid'
+  | 'booking_not_pending'
+  | 'amount_mismatch'
+  | 'slip_pending'
+  | 'already_reviewed'
+  | 'charge_paid'
+  | 'charge_waived'
+  | 'charge_amount_mismatch'
+  | 'wrong_payment'
+  | 'invalid_state';
+
+const PAYMENT_STATE_MESSAGES: Record<PaymentStateProblem, string> = {
+  booking_paid: 'This booking has already been paid',
+  booking_not_pending: 'Only pending bookings can be paid',
+  amount_mismatch: 'The payment amount does not match the booking total',
+  slip_pending: 'A payment slip for this booking is already awaiting review',
+  already_reviewed: 'This payment has already been reviewed',
+  charge_paid: 'This charge has already been paid',
+  charge_waived: 'This charge has been waived',
+  charge_amount_mismatch: 'The payment amount does not match the charge',
+  wrong_payment: 'The refund is for a different payment',
+  invalid_state: 'This payment cannot be changed in its current state',
+};
+
+// Thrown when a payment action does not fit the payment's current state, e.g.
+// reviewing a slip twice or submitting one for a booking that is already paid.
+export class PaymentStateError extends Error {
+  readonly problem: PaymentStateProblem;
+  readonly paymentId?: string;
+
+  constructor(problem: PaymentStateProblem, paymentId?: string) {
+    super(PAYMENT_STATE_MESSAGES[problem]);
+    this.name = 'PaymentStateError';
+    this.problem = problem;
+    this.paymentId = paymentId;
+  }
+}
+
+export const isPaymentStateError = (error: unknown): error is PaymentStateError =>
+  error instanceof PaymentStateError;
+
+// Thrown by PaymentProvider.constructWebhookEvent when a delivery's signature
+// does not verify or its payload cannot be read. The event must be dropped.
+export class PaymentWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentWebhookError';
+  }
+}
+
+export const isPaymentWebhookError = (error: unknown): error is PaymentWebhookError =>
+  error instanceof PaymentWebhookError;
+
+export type AccessDeniedReason =
+  | 'invalid'
+  | 'not_found'
+  | 'not_yet_valid'
+  | 'expired'
+  | 'inactive'
+  | 'already_used'
+  | 'rate_limited'
+  | 'not_permitted';
+
+const ACCESS_DENIED_MESSAGES: Record<AccessDeniedReason, string> = {
+  invalid: 'This code is not valid',
+  not_found: 'No booking matches this code',
+  not_yet_valid: 'This booking cannot be used for entry yet',
+  expired: 'This booking has expired',
+  inactive: 'This booking has been cancelled or completed',
+  already_used: 'This code has already been used for entry',
+  rate_limited: 'Too many failed attempts. Please wait a few minutes and try again',
+  not_permitted: 'You are not allowed to do this for this booking',
+};
+
+// Thrown when a scanned QR token or entered PIN does not grant entry, or when
+// a user acts on a booking or payment that is not theirs to act on.
+export class AccessDeniedError extends Error {
+  readonly reason: AccessDeniedReason;
+
+  constructor(reason: AccessDeniedReason) {
+    super(ACCESS_DENIED_MESSAGES[reason]);
+    this.name = 'AccessDeniedError';
+    this.reason = reason;
+  }
+}
+
+export const isAccessDeniedError = (error: unknown): error is AccessDeniedError =>
+  error instanceof AccessDeniedError;
+
+export type BookingStateProblem =
+  | 'not_allowed'
+  | 'host_only'
+  | 'guest_only'
+  | 'parties_only'
+  | 'automatic'
+  | 'not_extendable'
+  | 'not_checked_in'
+  | 'not_cancellable'
+  | 'invalid_state';
+
+const statusText = (status?: Booking['status']) => status?.replace('_', ' ') ?? '';
+
+const BOOKING_STATE_MESSAGES: Record<
+  BookingStateProblem,
+  (from: Booking['status'], to?: Booking['status']) => string
+> = {
+  not_allowed: (from, to) => `A ${statusText(from)} booking cannot be marked ${statusText(to)}`,
+  host_only: (_, to) => `Only the host can mark this booking ${statusText(to)}`,
+  guest_only: (_, to) => `Only the guest can mark this booking ${statusText(to)}`,
+  parties_only: (_, to) => `Only the guest or host can mark this booking ${statusText(to)}`,
+  automatic: (_, to) => `This booking is marked ${statusText(to)} automatically`,
+  not_extendable: () => 'Only confirmed or checked-in bookings can be extended',
+  not_checked_in: () => 'Only a checked-in booking can be checked out',
+  not_cancellable: () => 'Only pending or confirmed bookings can be cancelled',
+  invalid_state: () => 'This booking cannot be changed in its current state',
+};
+
+// Thrown when a booking lifecycle action does not fit the booking's current
+// status, e.g. checking out a car that never checked in. target is the status
+// the action would have moved the booking to, when it names one.
+export class BookingStateError extends Error {
+  readonly bookingId: string;
+  readonly status: Booking['status'];
+  readonly problem: BookingStateProblem;
+  readonly target?: Booking['status'];
+
+  constructor(bookingId: string, status: Booking['status'], problem: BookingStateProblem, target?: Booking['status']) {
+    super(BOOKING_STATE_MESSAGES[problem](status, target));
+    this.name = 'BookingStateError';
+    this.bookingId = bookingId;
+    this.status = status;
+    this.problem = problem;
+    this.target = target;
+  }
+}
+
+export const isBookingStateError = (error: unknown): error is BookingStateError =>
+  error instanceof BookingStateError;
+
+export type ExtensionTimeProblem = 'no_end_time' | 'end_not_later' | 'end_in_past';
+
+export type ExtensionStateProblem =
+  | ExtensionTimeProblem
+  | 'already_pending'
+  | 'already_reviewed'
+  | 'booking_changed'
+  | 'invalid_state';
+
+const EXTENSION_STATE_MESSAGES: Record<ExtensionStateProblem, string> = {
+  no_end_time: 'Choose a new end time',
+  end_not_later: 'The new end time must be after the current one',
+  end_in_past: 'The new end time must be in the future',
+  already_pending: 'An extension for this booking is already awaiting the host',
+  already_reviewed: 'This extension has already been reviewed',
+  booking_changed: 'The booking has changed since this extension was requested',
+  invalid_state: 'This extension cannot be changed in its current state',
+};
+
+// Thrown when an extension request does not fit its current state, e.g.
+// reviewing it twice, requesting another while one awaits the host or asking
+// for an end time that is not later.
+export class ExtensionStateError extends Error {
+  readonly problem: ExtensionStateProblem;
+  readonly extensionId?: string;
+
+  constructor(problem: ExtensionStateProblem, extensionId?: string) {
+    super(EXTENSION_STATE_MESSAGES[problem]);
+    this.name = 'ExtensionStateError';
+    this.problem = problem;
+    this.extensionId = extensionId;
+  }
+}
+
+export const isExtensionStateError = (error: unknown): error is ExtensionStateError =>
+  error instanceof ExtensionStateError;
+
+// Thrown by PushTransport.send when the push service no longer knows the
+// device, e.g. because the user revoked permission. Its subscription should
+// be deleted.
+export class PushSubscriptionGoneError extends Error {
+  readonly endpoint: string;
+
+  constructor(endpoint: string) {
+    super('This device is no longer subscribed to push notifications');
+    this.name = 'PushSubscriptionGoneError';
+    this.endpoint = endpoint;
+  }
+}
+
+export const isPushSubscriptionGoneError = (error: unknown): error is PushSubscriptionGoneError =>
+  error instanceof PushSubscriptionGoneError;
+
+// Thrown by subscribeDevice when the user blocks notifications for the site.
+export class PushPermissionError extends Error {
+  constructor() {
+    super('Notifications are blocked in this browser');
+    this.name = 'PushPermissionError';
+  }
+}
+
+export const isPushPermissionError = (error: unknown): error is PushPermissionError =>
+  error instanceof PushPermissionError;
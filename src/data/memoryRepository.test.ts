@@ -0,0 +1,244 @@
+import { describe, expect, it } from 'vitest';
+import { InMemoryRepository } from './memoryRepository';
+import { mockParkingSpots } from './mockData';
+import {
+  AccessDeniedError,
+  BookingConflictError,
+  ExtensionStateError,
+  QuoteMismatchError,
+  SpotClosedError,
+} from './errors';
+import { Booking, TimeRange } from '../types';
+
+const HOUR_MS = 3_600_000;
+
+const fromNow = (startHours: number, endHours: number): TimeRange => ({
+  start_time: new Date(Date.now() + startHours * HOUR_MS).toISOString(),
+  end_time: new Date(Date.now() + endHours * HOUR_MS).toISOString(),
+});
+
+// A repository with the mock spots and nothing booked on them.
+const emptyRepository = (spotUpdates: Partial<(typeof mockParkingSpots)[number]> = {}) =>
+  new InMemoryRepository({
+    spots: mockParkingSpots.map(spot => ({ ...spot, ...spotUpdates })),
+    bookings: [],
+    payments: [],
+    availabilityBlocks: [],
+  });
+
+const reserve = async (
+  repository: InMemoryRepository,
+  range: TimeRange,
+  { spot_id = '1', guest_id = 'user1', promo_code }: { spot_id?: string; guest_id?: string; promo_code?: string } = {}
+) => {
+  const quote = await repository.getQuote({ spot_id, guest_id, promo_code, ...range });
+  return repository.reserveBooking({
+    spot_id,
+    guest_id,
+    host_id: 'owner1',
+    ...range,
+    total_amount: quote.total,
+    promo_code,
+    status: 'pending',
+  });
+};
+
+const errorOf = async (promise: Promise<unknown>) => promise.then(() => null, (error: unknown) => error);
+
+describe('InMemoryRepository bookings', () => {
+  it('stores the server-side quote with the booking', async () => {
+    const repository = emptyRepository();
+    const range = fromNow(24, 27);
+    const quote = await repository.getQuote({ spot_id: '1', guest_id: 'user1', promo_code: 'welcome10', ...range });
+    const booking = await reserve(repository, range, { promo_code: 'welcome10' });
+
+    expect(booking).toMatchObject({
+      total_amount: quote.total,
+      discount_amount: quote.discount_amount,
+      service_fee: quote.service_fee,
+      tax_amount: quote.tax_amount,
+      promo_code: 'WELCOME10',
+      payment_status: 'pending',
+    });
+    expect(booking.pin).toMatch(/^\d{4}$/);
+  });
+
+  it('refuses a total that does not match the quote', async () => {
+    const repository = emptyRepository();
+    const error = await errorOf(repository.reserveBooking({
+      spot_id: '1',
+      guest_id: 'user1',
+      host_id: 'owner1',
+      ...fromNow(24, 26),
+      total_amount: 1,
+      status: 'pending',
+    }));
+    expect(error).toBeInstanceOf(QuoteMismatchError);
+  });
+
+  it('limits each guest to one use of WELCOME10', async () => {
+    const repository = emptyRepository();
+    await reserve(repository, fromNow(24, 26), { promo_code: 'WELCOME10' });
+    const error = await errorOf(reserve(repository, fromNow(48, 50), { promo_code: 'WELCOME10' }));
+    expect(error).toMatchObject({ problem: 'guest_limit' });
+  });
+
+  it('refuses to overbook a spot and suggests other times', async () => {
+    const repository = emptyRepository({ total_slots: 1 });
+    await reserve(repository, fromNow(24, 26));
+
+    const error = await errorOf(reserve(repository, fromNow(25, 27), { guest_id: 'user2' }));
+    expect(error).toBeInstanceOf(BookingConflictError);
+    expect((error as BookingConflictError).suggestions.length).toBeGreaterThan(0);
+
+    await expect(reserve(repository, fromNow(26, 28), { guest_id: 'user2' })).resolves.toMatchObject({ status: 'pending' });
+  });
+
+  it('applies the capacity check to createBooking too', async () => {
+    const repository = emptyRepository({ total_slots: 1 });
+    const range = fromNow(24, 26);
+    await reserve(repository, range);
+
+    const quote = await repository.getQuote({ spot_id: '1', guest_id: 'user2', ...range });
+    const error = await errorOf(repository.createBooking({
+      spot_id: '1',
+      guest_id: 'user2',
+      host_id: 'owner1',
+      ...range,
+      total_amount: quote.total,
+      status: 'pending',
+    }));
+    expect(error).toBeInstanceOf(BookingConflictError);
+  });
+
+  it('refuses bookings outside opening hours', async () => {
+    const repository = emptyRepository();
+    // 03:00-05:00 in New York; spot 3 opens at 06:00.
+    const error = await errorOf(reserve(repository, {
+      start_time: '2027-01-13T08:00:00Z',
+      end_time: '2027-01-13T10:00:00Z',
+    }, { spot_id: '3' }));
+    expect(error).toBeInstanceOf(SpotClosedError);
+  });
+
+  it('refuses a promo code in another currency than the spot', async () => {
+    const repository = emptyRepository({ currency: 'THB' });
+    const error = await errorOf(reserve(repository, fromNow(24, 30), { spot_id: '2', promo_code: 'AIRPORT5' }));
+    expect(error).toMatchObject({ problem: 'wrong_currency' });
+  });
+
+  it('books in the spot currency', async () => {
+    const repository = emptyRepository({ currency: 'THB' });
+    const booking = await reserve(repository, fromNow(24, 26));
+    expect(booking.currency).toBe('THB');
+  });
+});
+
+describe('InMemoryRepository access', () => {
+  it('checks a booking in once with its QR token', async () => {
+    const repository = emptyRepository();
+    const booking = await reserve(repository, fromNow(0.25, 2));
+    const token = await repository.getBookingAccessToken(booking.id);
+
+    await expect(repository.checkInBooking({ token }, 'user2')).rejects.toMatchObject({ reason: 'not_found' });
+    await expect(repository.checkInBooking({ token }, 'owner1')).resolves.toMatchObject({ status: 'checked_in' });
+    await expect(repository.checkInBooking({ token }, 'owner1')).rejects.toMatchObject({ reason: 'already_used' });
+  });
+
+  it('checks a booking in with its PIN', async () => {
+    const repository = emptyRepository();
+    const booking = await reserve(repository, fromNow(0.25, 2));
+    const checkedIn = await repository.checkInBooking({ spot_id: '1', pin: booking.pin ?? '' }, 'owner1');
+    expect(checkedIn.id).toBe(booking.id);
+  });
+
+  it('locks out a scanner after repeated failures', async () => {
+    const repository = emptyRepository();
+    const booking = await reserve(repository, fromNow(0.25, 2));
+    const token = await repository.getBookingAccessToken(booking.id);
+
+    for (let i = 0; i < 5; i++) {
+      await expect(repository.verifyBookingAccess({ token: 'v1.bad.token' }, 'owner1')).rejects.toBeInstanceOf(AccessDeniedError);
+    }
+    await expect(repository.checkInBooking({ token }, 'owner1')).rejects.toMatchObject({ reason: 'rate_limited' });
+  });
+});
+
+describe('InMemoryRepository cancellation and check-out', () => {
+  it('refunds a paid booking cancelled with enough notice', async () => {
+    const repository = emptyRepository();
+    const booking = await reserve(repository, fromNow(24, 26));
+    await repository.updateBooking(booking.id, { payment_status: 'paid' });
+
+    const cancelled = await repository.cancelBooking(booking.id, 'user1', 'Plans changed');
+    expect(cancelled).toMatchObject({ status: 'cancelled', refund_amount: booking.total_amount });
+  });
+
+  it('refuses to cancel after check-in', async () => {
+    const repository = emptyRepository();
+    const booking = await reserve(repository, fromNow(0.25, 2));
+    await repository.checkInBooking({ token: await repository.getBookingAccessToken(booking.id) }, 'owner1');
+    await expect(repository.cancelBooking(booking.id, 'user1')).rejects.toThrow();
+  });
+
+  it('rejects a pending extension with a code when its booking is cancelled', async () => {
+    const repository = emptyRepository({ auto_approve_extensions: false });
+    const booking = await reserve(repository, fromNow(24, 26));
+    const payment = await repository.submitPaymentSlip({ booking_id: booking.id, payer_id: 'user1', slip_url: 'slip.png' });
+    await repository.reviewPayment(payment.id, 'approved', 'owner1');
+
+    const error = await errorOf(repository.quoteExtension(booking.id, booking.start_time));
+    expect(error).toBeInstanceOf(ExtensionStateError);
+    expect(error).toMatchObject({ problem: 'end_not_later' });
+    await repository.requestExtension(booking.id, fromNow(24, 27).end_time, 'user1');
+    await repository.cancelBooking(booking.id, 'user1');
+    const [extension] = await repository.getExtensionsByBooking(booking.id);
+    expect(extension).toMatchObject({ status: 'rejected', rejection_code: 'booking_cancelled' });
+    expect(extension.rejection_reason).toBeUndefined();
+  });
+
+  it('charges an overstay at check-out in the booking currency', async () => {
+    const overstaying: Booking = {
+      id: 'late',
+      spot_id: '1',
+      guest_id: 'user1',
+      host_id: 'owner1',
+      ...fromNow(-5, -2),
+      total_amount: 50,
+      currency: 'THB',
+      status: 'checked_in',
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    const repository = new InMemoryRepository({ bookings: [overstaying], payments: [] });
+
+    await repository.checkOutBooking('late', 'owner1');
+    const [charge] = await repository.getChargesByBooking('late');
+    expect(charge).toMatchObject({ kind: 'overstay', currency: 'THB', status: 'unpaid' });
+    expect(charge.overstay_minutes).toBeGreaterThanOrEqual(119);
+  });
+});
+
+describe('InMemoryRepository payment slips', () => {
+  const slip = (booking_id: string, payer_id: string) => ({ booking_id, payer_id, slip_url: 'slips/transfer.png' });
+
+  it('only takes a slip from the booking guest', async () => {
+    const repository = emptyRepository();
+    const booking = await reserve(repository, fromNow(24, 26));
+
+    await expect(repository.submitPaymentSlip(slip(booking.id, 'user2'))).rejects.toMatchObject({ reason: 'not_permitted' });
+    await expect(repository.submitPaymentSlip(slip(booking.id, 'user1'))).resolves.toMatchObject({ status: 'submitted' });
+  });
+
+  it('only lets the spot host review a slip', async () => {
+    const repository = emptyRepository();
+    const booking = await reserve(repository, fromNow(24, 26));
+    const payment = await repository.submitPaymentSlip(slip(booking.id, 'user1'));
+
+    await expect(repository.reviewPayment(payment.id, 'approved', 'user1')).rejects.toBeInstanceOf(AccessDeniedError);
+    await expect(repository.reviewPayment(payment.id, 'approved', 'owner1')).resolves.toMatchObject({ status: 'approved' });
+    await expect(repository.getBookingById(booking.id)).resolves.toMatchObject({ status: 'confirmed', payment_status: 'paid' });
+    const events = await repository.getBookingEvents(booking.id);
+    expect(events[events.length - 1]).toMatchObject({ to_status: 'confirmed', actor_role: 'system', actor_id: 'owner1' });
+  });
+});
@@ -0,0 +1,1196 @@
+import {
+  AvailabilityBlock,
+  Booking,
+  BookingActorRole,
+  BookingCharge,
+  BookingEvent,
+  BookingExtension,
+  BookingQuote,
+  DeliveryChannel,
+  DevicePushSubscription,
+  ExtensionDecision,
+  ExtensionQuote,
+  HeldRange,
+  NotificationDelivery,
+  ParkingSpot,
+  Payment,
+  PaymentDecision,
+  Profile,
+  PromoCode,
+  Review,
+  SpotFilters,
+  TimeRange,
+  UserNotification,
+  UserPreferences,
+  UserSettings,
+  Vehicle,
+  WeeklySchedule,
+} from '../types';
+import {
+  AccessCredential,
+  DataRepository,
+  EmailJob,
+  NewAvailabilityBlock,
+  NewBooking,
+  NewNotification,
+  NewNotificationDelivery,
+  NewPushSubscription,
+  NewParkingSpot,
+  NewPaymentSlip,
+  NewReview,
+  NewVehicle,
+  PushJob,
+  QuoteRequest,
+  DataChange,
+} from './repository';
+import { PaymentEvent } from '../payments/provider';
+import {
+  AccessDeniedError,
+  AccessDeniedReason,
+  BookingConflictError,
+  BookingStateError,
+  ExtensionStateError,
+  PaymentStateError,
+  PromoCodeError,
+  QuoteMismatchError,
+  SpotClosedError,
+} from './errors';
+import {
+  bookingToHeldRange,
+  defaultWindow,
+  expandBlocks,
+  hasCapacity,
+  isActiveBooking,
+  rangesOverlap,
+  suggestAlternativeTimes,
+} from '../services/capacity';
+import { isOpenThroughout } from '../services/schedule';
+import { quotePrice } from '../services/pricing';
+import { currencyOf } from '../services/currency';
+import {
+  amountsMatch,
+  buildBookingQuote,
+  normalizePromoCode,
+  promoCodeProblem,
+} from '../services/quote';
+import {
+  bookingStatusAfterReview,
+  bookingUpdateForPaymentEvent,
+  canTransitionPayment,
+  chargeUpdateForPaymentEvent,
+  paymentApprovedNotification,
+  slipSubmissionProblem,
+} from '../services/payments';
+import {
+  AccessTokenClaims,
+  accessProblem,
+  accessWindow,
+  allocatePin,
+  isAccessRateLimited,
+  pinsInUse,
+  signAccessToken,
+  verifyAccessToken,
+} from '../services/access';
+import { randomHex } from '../services/signing';
+import { canCheckIn, canCheckOut } from '../services/occupancy';
+import {
+  overstayFee,
+  overstayNotifications,
+  overstayReminderTime,
+  overstayReminders,
+} from '../services/overstay';
+import {
+  autoApprovesExtensions,
+  buildExtensionQuote,
+  canExtend,
+  extensionChargeDescription,
+  extensionDecisionNotification,
+  extensionRange,
+  extensionRequestNotification,
+  extensionTimeProblem,
+} from '../services/extensions';
+import { canCancel, cancellationNotification, cancellationRefund } from '../services/cancellation';
+import { assertTransition, bookingRole } from '../services/bookingState';
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  bookingConfirmedNotification,
+  bookingCreatedNotification,
+  bookingReminders,
+  isNotificationShown,
+  notificationEvent,
+  notificationTime,
+  reminderKind,
+  reviewPostedNotification,
+  reviewRequestNotification,
+  wantsDelivery,
+  wantsReminder,
+} from '../services/notifications';
+import { withDefaultSettings } from '../services/settings';
+import { publicProfile } from '../services/privacy';
+import { resolveLanguage } from '../i18n/catalog';
+import {
+  mockAvailabilityBlocks,
+  mockBookings,
+  mockParkingSpots,
+  mockPayments,
+  mockProfiles,
+  mockPromoCodes,
+  mockReviews,
+  mockSchedules,
+  mockVehicles,
+} from './mockData';
+
+export interface SeedData {
+  profiles: Profile[];
+  spots: ParkingSpot[];
+  bookings: Booking[];
+  vehicles: Vehicle[];
+  reviews: Review[];
+  schedules: Record<string, WeeklySchedule>;
+  availabilityBlocks: AvailabilityBlock[];
+  promoCodes: PromoCode[];
+  payments: Payment[];
+  charges: BookingCharge[];
+  extensions: BookingExtension[];
+  bookingEvents: BookingEvent[];
+  notifications: UserNotification[];
+  settings: UserSettings[];
+  deliveries: NotificationDelivery[];
+  pushSubscriptions: DevicePushSubscription[];
+}
+
+export const defaultSeedData: SeedData = {
+  profiles: mockProfiles,
+  spots: mockParkingSpots,
+  bookings: mockBookings,
+  vehicles: mockVehicles,
+  reviews: mockReviews,
+  schedules: mockSchedules,
+  availabilityBlocks: mockAvailabilityBlocks,
+  promoCodes: mockPromoCodes,
+  payments: mockPayments,
+  charges: [],
+  extensions: [],
+  bookingEvents: [],
+  notifications: [],
+  settings: [],
+  deliveries: [],
+  pushSubscriptions: [],
+};
+
+const now = () => new Date().toISOString();
+
+const generateId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// In-memory implementation used for local development and tests.
+// Each instance owns a deep copy of its seed so instances never share state.
+export class InMemoryRepository implements DataRepository {
+  private profiles: Profile[];
+  private spots: ParkingSpot[];
+  private bookings: Booking[];
+  private vehicles: Vehicle[];
+  private reviews: Review[];
+  private schedules: Record<string, WeeklySchedule>;
+  private availabilityBlocks: AvailabilityBlock[];
+  private promoCodes: PromoCode[];
+  private payments: Payment[];
+  private charges: BookingCharge[];
+  private extensions: BookingExtension[];
+  private bookingEvents: BookingEvent[];
+  private notifications: UserNotification[];
+  private settings: UserSettings[];
+  private deliveries: NotificationDelivery[];
+  private pushSubscriptions: DevicePushSubscription[];
+  private paymentEventIds = new Set<string>();
+  private accessSecret = randomHex(32);
+  private accessRedemptions = new Set<string>(); // bookings whose entry has been used
+  private failedAccessAttempts = new Map<string, string[]>(); // scanner id -> attempt times
+  private subscribers = new Set<{ userId: string; onChange: (change: DataChange) => void }>();
+
+  constructor(seed: Partial<SeedData> = defaultSeedData) {
+    const data: SeedData = structuredClone({ ...defaultSeedData, ...seed });
+    this.profiles = data.profiles;
+    this.spots = data.spots;
+    this.bookings = data.bookings;
+    this.vehicles = data.vehicles;
+    this.reviews = data.reviews;
+    this.schedules = data.schedules;
+    this.availabilityBlocks = data.availabilityBlocks;
+    this.promoCodes = data.promoCodes;
+    this.payments = data.payments;
+    this.charges = data.charges;
+    this.extensions = data.extensions;
+    this.bookingEvents = data.bookingEvents;
+    this.notifications = data.notifications;
+    this.settings = data.settings;
+    this.deliveries = data.deliveries;
+    this.pushSubscriptions = data.pushSubscriptions;
+  }
+
+  private heldRanges(spotId: string, window: TimeRange): HeldRange[] {
+    return [
+      ...this.bookings
+        .filter(b => b.spot_id === spotId && isActiveBooking(b) && rangesOverlap(b, window))
+        .map(bookingToHeldRange),
+      ...expandBlocks(this.availabilityBlocks.filter(b => b.spot_id === spotId), window),
+    ];
+  }
+
+  // Synchronous so reserveBooking can quote without yielding.
+  private quote(request: QuoteRequest): BookingQuote {
+    const spot = this.findOrThrow(this.spots, request.spot_id, 'Parking spot');
+    const baseAmount = quotePrice(spot, request).total;
+    if (!request.promo_code) return buildBookingQuote(spot.id, request, baseAmount);
+
+    const code = normalizePromoCode(request.promo_code);
+    const promo = this.promoCodes.find(p => p.code === code);
+    if (!promo) throw new PromoCodeError(code, 'not_found');
+
+    const redemptions = this.bookings.filter(b => b.promo_code === code && b.status !== 'cancelled');
+    const problem = promoCodeProblem(promo, {
+      spotId: spot.id,
+      currency: currencyOf(spot),
+      baseAmount,
+      usage: {
+        total: redemptions.length,
+        byGuest: redemptions.filter(b => b.guest_id === request.guest_id).length,
+      },
+    });
+    if (problem) throw new PromoCodeError(code, problem);
+
+    return buildBookingQuote(spot.id, request, baseAmount, promo);
+  }
+
+  // Re-quotes the booking and returns it with the server-side components.
+  private priceBooking(booking: NewBooking): NewBooking {
+    const quote = this.quote(booking);
+    if (!amountsMatch(quote.total, booking.total_amount)) {
+      throw new QuoteMismatchError(quote.total, booking.total_amount);
+    }
+    return {
+      ...booking,
+      total_amount: quote.total,
+      discount_amount: quote.discount_amount,
+      service_fee: quote.service_fee,
+      tax_amount: quote.tax_amount,
+      promo_code: quote.promo_code,
+    };
+  }
+
+  // Prices the booking and fills in what only the server may set: the spot's
+  // currency, payment state and a PIN no overlapping booking on the spot is
+  // using.
+  private insertBooking(booking: NewBooking): Booking {
+    const spot = this.findOrThrow(this.spots, booking.spot_id, 'Parking spot');
+    const created: Booking = {
+      ...this.priceBooking(booking),
+      currency: currencyOf(spot),
+      payment_status: 'pending',
+      payment_provider: undefined,
+      payment_intent_id: undefined,
+      qr_code: undefined,
+      pin: allocatePin(pinsInUse(this.bookings, booking.spot_id, booking)),
+      id: generateId(),
+      created_at: now(),
+      updated_at: now(),
+    };
+    this.bookings.push(created);
+    this.recordBookingEvent(created, 'guest', created.guest_id);
+    this.publish({ table: 'bookings', type: 'insert', record: { ...created } });
+    this.addNotification(bookingCreatedNotification(created, spot.title));
+    return created;
+  }
+
+  // Applies the updates, tells subscribers and moves the guest's reminders
+  // along with the booking's times and status.
+  private patchBooking(booking: Booking, updates: Partial<Booking>) {
+    const previous = { ...booking };
+    Object.assign(booking, updates, { updated_at: now() });
+    this.publish({ table: 'bookings', type: 'update', record: { ...booking }, previous });
+    if (booking.status !== previous.status || booking.start_time !== previous.start_time
+        || booking.end_time !== previous.end_time) {
+      this.scheduleReminders(booking);
+    }
+  }
+
+  // Drops the booking's reminders that have not been sent and schedules the
+  // ones it needs now. A reminder already sent for the same time is not
+  // scheduled again.
+  private scheduleReminders(booking: Booking) {
+    const isPending = (n: UserNotification) =>
+      n.metadata?.booking_id === booking.id && reminderKind(n) && !n.sent_at;
+    this.notifications = this.notifications.filter(n => !isPending(n));
+
+    const spot = this.findOrThrow(this.spots, booking.spot_id, 'Parking spot');
+    bookingReminders(booking, spot.title)
+      .filter(reminder => !this.hasReminder(reminder))
+      .forEach(reminder => this.addNotification(reminder));
+  }
+
+  // Each reminder goes to a user once per booking and time.
+  private hasReminder(reminder: NewNotification) {
+    return this.notifications.some(n =>
+      n.user_id === reminder.user_id
+      && n.metadata?.booking_id === reminder.metadata?.booking_id
+      && reminderKind(n) === reminderKind(reminder)
+      && n.scheduled_for === reminder.scheduled_for);
+  }
+
+  private settingsFor(userId: string): UserSettings {
+    return withDefaultSettings(userId, this.settings.find(s => s.user_id === userId));
+  }
+
+  // Not yet sent to the recipient by the channel, and not given up on.
+  private awaitsDelivery(notification: UserNotification, channel: DeliveryChannel, recipient?: string) {
+    const attempts = this.deliveries.filter(d =>
+      d.notification_id === notification.id && d.channel === channel && (!recipient || d.recipient === recipient));
+    return !attempts.some(d => d.status === 'sent') && attempts.length < MAX_DELIVERY_ATTEMPTS;
+  }
+
+  private patchPayment(payment: Payment, updates: Partial<Payment>) {
+    const previous = { ...payment };
+    Object.assign(payment, updates, { updated_at: now() });
+    this.publish({ table: 'payments', type: 'update', record: { ...payment }, previous });
+  }
+
+  // Who may see the change: the booking's guest and host, a payment's payer
+  // and host, the host a review is about, a notification's recipient.
+  private changeAudience(change: DataChange): (string | undefined)[] {
+    switch (change.table) {
+      case 'bookings':
+        return [change.record.guest_id, change.record.host_id];
+      case 'payments':
+        return [change.record.payer_id, this.bookings.find(b => b.id === change.record.booking_id)?.host_id];
+      case 'reviews':
+        return [change.record.reviewee_id];
+      case 'notifications':
+        return [change.record.user_id];
+    }
+  }
+
+  // Delivers the change to the subscribers who can see it, after the current
+  // call returns as a server push would.
+  private publish(change: DataChange) {
+    const audience = this.changeAudience(change);
+    this.subscribers.forEach(subscriber => {
+      if (audience.includes(subscriber.userId)) {
+        queueMicrotask(() => subscriber.onChange(structuredClone(change)));
+      }
+    });
+  }
+
+  private recordBookingEvent(
+    booking: Booking,
+    role: BookingActorRole,
+    actorId?: string,
+    from?: Booking['status'],
+    reason?: string
+  ) {
+    this.bookingEvents.push({
+      id: generateId(),
+      booking_id: booking.id,
+      from_status: from,
+      to_status: booking.status,
+      actor_role: role,
+      actor_id: actorId,
+      reason,
+      created_at: now(),
+    });
+  }
+
+  // The one place a booking's status changes: checks the move against
+  // BOOKING_TRANSITIONS, applies it with any other updates and records it.
+  private transitionBooking(
+    booking: Booking,
+    to: Booking['status'],
+    role: BookingActorRole,
+    actorId?: string,
+    updates: Partial<Booking> = {},
+    reason?: string
+  ) {
+    assertTransition(booking, to, role);
+    const from = booking.status;
+    this.patchBooking(booking, { ...updates, status: to });
+    this.recordBookingEvent(booking, role, actorId, from, reason);
+    const spot = this.findOrThrow(this.spots, booking.spot_id, 'Parking spot');
+    if (to === 'confirmed') this.addNotification(bookingConfirmedNotification(booking, spot.title));
+    if (to === 'completed') this.addNotification(reviewRequestNotification(booking, spot.title));
+  }
+
+  // Resolves a credential to the scanning host's booking and, when checking
+  // in, uses it up. Synchronous after the signature check, so two check-ins
+  // cannot both pass the replay check.
+  private async checkAccess(credential: AccessCredential, scannerId: string, checkIn: boolean): Promise<Booking> {
+    const failures = this.failedAccessAttempts.get(scannerId) ?? [];
+    if (isAccessRateLimited(failures)) throw new AccessDeniedError('rate_limited');
+
+    const deny = (reason: AccessDeniedReason) => {
+      this.failedAccessAttempts.set(scannerId, [...failures, now()]);
+      return new AccessDeniedError(reason);
+    };
+
+    let claims: AccessTokenClaims | null = null;
+    let booking: Booking | undefined;
+    if ('token' in credential) {
+      const verified = await verifyAccessToken(this.accessSecret, credential.token);
+      if (!verified) throw deny('invalid');
+      claims = verified;
+      booking = this.bookings.find(b => b.id === verified.bid);
+    } else {
+      booking = this.bookingForPin(credential);
+    }
+    if (!booking || booking.host_id !== scannerId) throw deny('not_found');
+
+    const problem = accessProblem(booking, claims, this.accessRedemptions.has(booking.id));
+    if (problem) throw deny(problem);
+
+    if (checkIn) {
+      if (!canCheckIn(booking)) throw deny('already_used');
+      this.accessRedemptions.add(booking.id);
+      this.transitionBooking(booking, 'checked_in', 'host', scannerId, { checked_in_at: now() });
+    }
+    return booking;
+  }
+
+  // PINs repeat across time, so prefer a car that is in the spot, then the
+  // live booking whose window is open.
+  private bookingForPin({ spot_id, pin }: { spot_id: string; pin: string }): Booking | undefined {
+    const candidates = this.bookings.filter(b => b.spot_id === spot_id && b.pin === pin && isActiveBooking(b));
+    const current = new Date().toISOString();
+    return candidates.find(b => b.status === 'checked_in') ?? candidates.find(b => {
+      const window = accessWindow(b);
+      return window.start_time <= current && current < window.end_time;
+    }) ?? candidates[0];
+  }
+
+  private addNotification(notification: NewNotification): UserNotification {
+    const created: UserNotification = {
+      ...notification,
+      id: generateId(),
+      is_read: false,
+      created_at: now(),
+    };
+    this.notifications.push(created);
+    if (isNotificationShown(created)) {
+      this.publish({ table: 'notifications', type: 'insert', record: { ...created } });
+    }
+    return created;
+  }
+
+  private extensionQuote(booking: Booking, newEndTime: string): ExtensionQuote {
+    if (!canExtend(booking)) {
+      throw new BookingStateError(booking.id, booking.status, 'not_extendable');
+    }
+    const problem = extensionTimeProblem(booking, newEndTime);
+    if (problem) throw new ExtensionStateError(problem);
+
+    return buildExtensionQuote(this.findOrThrow(this.spots, booking.spot_id, 'Parking spot'), booking, newEndTime);
+  }
+
+  // The added time must be open and have a free slot. The booking itself
+  // ends where the added time starts, so it never counts against itself.
+  private checkExtensionRoom(booking: Booking, newEndTime: string) {
+    const spot = this.findOrThrow(this.spots, booking.spot_id, 'Parking spot');
+    const range = extensionRange(booking, newEndTime);
+    const schedule = this.schedules[spot.id];
+    if (schedule && !isOpenThroughout(schedule, range)) throw new SpotClosedError(spot.id);
+    if (!hasCapacity(this.heldRanges(spot.id, range), spot.total_slots, range)) {
+      throw new BookingConflictError(spot.id);
+    }
+  }
+
+  // Moves the booking's end, keeping its PIN unless a booking that now
+  // overlaps it uses the same one, and raises the charge for the guest.
+  // Synchronous so nothing can take the added time in between.
+  private approveExtension(extension: BookingExtension, reviewerId?: string) {
+    const booking = this.findOrThrow(this.bookings, extension.booking_id, 'Booking');
+    if (!canExtend(booking)) {
+      throw new BookingStateError(booking.id, booking.status, 'not_extendable');
+    }
+    if (booking.end_time !== extension.original_end_time) {
+      throw new ExtensionStateError('booking_changed', extension.id);
+    }
+    this.checkExtensionRoom(booking, extension.new_end_time);
+
+    const extended = { start_time: booking.start_time, end_time: extension.new_end_time };
+    const taken = pinsInUse(this.bookings.filter(b => b.id !== booking.id), booking.spot_id, extended);
+    const charge: BookingCharge = {
+      id: generateId(),
+      booking_id: booking.id,
+      guest_id: booking.guest_id,
+      host_id: booking.host_id,
+      kind: 'extension',
+      description: extensionChargeDescription(extension),
+      base_amount: extension.base_amount,
+      service_fee: extension.service_fee,
+      tax_amount: extension.tax_amount,
+      amount: extension.additional_cost,
+      currency: currencyOf(booking),
+      extension_id: extension.id,
+      extension_minutes: extension.additional_minutes,
+      status: 'unpaid',
+      created_at: now(),
+      updated_at: now(),
+    };
+    this.charges.push(charge);
+
+    this.patchBooking(booking, {
+      end_time: extension.new_end_time,
+      extension_count: (booking.extension_count ?? 0) + 1,
+      ...(booking.pin && taken.has(booking.pin) && { pin: allocatePin(taken) }),
+    });
+    Object.assign(extension, {
+      status: 'approved',
+      charge_id: charge.id,
+      processed_at: now(),
+      processed_by: reviewerId,
+    });
+  }
+
+  private findOrThrow<T extends { id: string }>(items: T[], id: string, label: string): T {
+    const item = items.find(i => i.id === id);
+    if (!item) throw new Error(`${label} not found`);
+    return item;
+  }
+
+  // Profile methods
+  async getProfileById(id: string): Promise<Profile | null> {
+    const profile = this.profiles.find(p => p.id === id);
+    return profile ? { ...profile } : null;
+  }
+
+  // There is no signed-in user here, so every profile is shown as to others.
+  async getProfilesByIds(ids: string[]): Promise<Profile[]> {
+    return this.profiles
+      .filter(profile => ids.includes(profile.id))
+      .map(profile => publicProfile(profile, this.settingsFor(profile.id)));
+  }
+
+  async updateProfile(id: string, updates: Partial<Profile>): Promise<Profile> {
+    const profile = this.findOrThrow(this.profiles, id, 'Profile');
+    Object.assign(profile, updates, { id, updated_at: now() });
+    return { ...profile };
+  }
+
+  // Parking spot methods
+  async getParkingSpots(filters?: SpotFilters): Promise<ParkingSpot[]> {
+    return this.searchParkingSpots('', filters);
+  }
+
+  async searchParkingSpots(query: string, filters?: SpotFilters): Promise<ParkingSpot[]> {
+    const q = query.toLowerCase();
+    return this.spots.filter(spot => {
+      if (!spot.is_available) return false;
+      if (q && ![spot.title, spot.address, spot.description ?? ''].some(v => v.toLowerCase().includes(q))) {
+        return false;
+      }
+      if (filters?.location && !spot.address.toLowerCase().includes(filters.location.toLowerCase())) {
+        return false;
+      }
+      if (filters?.spot_type && spot.spot_type !== filters.spot_type) return false;
+      if (filters?.max_hourly_rate && spot.hourly_rate > filters.max_hourly_rate) return false;
+      if (filters?.amenities?.length && !filters.amenities.every(a => spot.amenities.includes(a))) {
+        return false;
+      }
+      return true;
+    }).map(spot => ({ ...spot }));
+  }
+
+  async getParkingSpotById(id: string): Promise<ParkingSpot | null> {
+    const spot = this.spots.find(s => s.id === id);
+    return spot ? { ...spot } : null;
+  }
+
+  async getParkingSpotsByOwner(ownerId: string): Promise<ParkingSpot[]> {
+    return this.spots.filter(spot => spot.owner_id === ownerId).map(spot => ({ ...spot }));
+  }
+
+  async createParkingSpot(spot: NewParkingSpot): Promise<ParkingSpot> {
+    const created: ParkingSpot = { ...spot, id: generateId(), created_at: now(), updated_at: now() };
+    this.spots.push(created);
+    return { ...created };
+  }
+
+  async updateParkingSpot(id: string, updates: Partial<ParkingSpot>): Promise<ParkingSpot> {
+    const spot = this.findOrThrow(this.spots, id, 'Parking spot');
+    Object.assign(spot, updates, { id, updated_at: now() });
+    return { ...spot };
+  }
+
+  async deleteParkingSpot(id: string): Promise<void> {
+    this.spots = this.spots.filter(spot => spot.id !== id);
+    delete this.schedules[id];
+    this.availabilityBlocks = this.availabilityBlocks.filter(block => block.spot_id !== id);
+  }
+
+  async getSpotSchedule(spotId: string): Promise<WeeklySchedule | null> {
+    const schedule = this.schedules[spotId];
+    return schedule ? structuredClone(schedule) : null;
+  }
+
+  async saveSpotSchedule(spotId: string, schedule: WeeklySchedule): Promise<void> {
+    const spot = this.findOrThrow(this.spots, spotId, 'Parking spot');
+    this.schedules[spotId] = structuredClone(schedule);
+    spot.timezone = schedule.timezone;
+  }
+
+  // Booking methods
+  async getBookingById(id: string): Promise<Booking | null> {
+    const booking = this.bookings.find(b => b.id === id);
+    return booking ? { ...booking } : null;
+  }
+
+  async getBookingsByGuest(guestId: string): Promise<Booking[]> {
+    return this.bookings
+      .filter(booking => booking.guest_id === guestId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map(booking => ({ ...booking }));
+  }
+
+  async getBookingsByHost(hostId: string): Promise<Booking[]> {
+    return this.bookings
+      .filter(booking => booking.host_id === hostId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map(booking => ({ ...booking }));
+  }
+
+  async getBookingsBySpotId(spotId: string): Promise<Booking[]> {
+    return this.bookings
+      .filter(booking => booking.spot_id === spotId)
+      .sort((a, b) => a.start_time.localeCompare(b.start_time))
+      .map(booking => ({ ...booking }));
+  }
+
+  async getBookingAccessToken(bookingId: string): Promise<string> {
+    return signAccessToken(this.accessSecret, this.findOrThrow(this.bookings, bookingId, 'Booking'));
+  }
+
+  async verifyBookingAccess(credential: AccessCredential, scannerId: string): Promise<Booking> {
+    return { ...(await this.checkAccess(credential, scannerId, false)) };
+  }
+
+  async checkInBooking(credential: AccessCredential, scannerId: string): Promise<Booking> {
+    return { ...(await this.checkAccess(credential, scannerId, true)) };
+  }
+
+  async checkOutBooking(bookingId: string, hostId: string): Promise<Booking> {
+    const booking = this.findOrThrow(this.bookings, bookingId, 'Booking');
+    if (booking.host_id !== hostId) throw new Error('Booking not found');
+    if (!canCheckOut(booking)) {
+      throw new BookingStateError(booking.id, booking.status, 'not_checked_in');
+    }
+
+    this.transitionBooking(booking, 'completed', 'host', hostId, { checked_out_at: now() });
+
+    const spot = this.findOrThrow(this.spots, booking.spot_id, 'Parking spot');
+    const fee = overstayFee(spot, booking);
+    if (fee) {
+      const charge: BookingCharge = {
+        id: generateId(),
+        booking_id: booking.id,
+        guest_id: booking.guest_id,
+        host_id: booking.host_id,
+        kind: 'overstay',
+        description: fee.description,
+        base_amount: fee.base_amount,
+        tax_amount: fee.tax_amount,
+        amount: fee.amount,
+        currency: currencyOf(booking),
+        overstay_minutes: fee.overstay_minutes,
+        status: 'unpaid',
+        created_at: now(),
+        updated_at: now(),
+      };
+      this.charges.push(charge);
+      overstayNotifications(booking, charge, spot.title).forEach(n => this.addNotification(n));
+    }
+    return { ...booking };
+  }
+
+  async getChargesByBooking(bookingId: string): Promise<BookingCharge[]> {
+    return this.charges
+      .filter(charge => charge.booking_id === bookingId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map(charge => ({ ...charge }));
+  }
+
+  async getQuote(request: QuoteRequest): Promise<BookingQuote> {
+    return this.quote(request);
+  }
+
+  async createBooking(booking: NewBooking): Promise<Booking> {
+    return this.reserveBooking(booking);
+  }
+
+  // No await between the capacity check and the push, so concurrent calls
+  // cannot interleave and overbook the spot.
+  async reserveBooking(booking: NewBooking): Promise<Booking> {
+    if (new Date(booking.end_time) <= new Date(booking.start_time)) {
+      throw new Error('Booking must end after it starts');
+    }
+
+    const spot = this.findOrThrow(this.spots, booking.spot_id, 'Parking spot');
+    const schedule = this.schedules[spot.id];
+    if (schedule && !isOpenThroughout(schedule, booking)) {
+      throw new SpotClosedError(spot.id);
+    }
+
+    // Wide enough to cover the request and the look-ahead used for suggestions.
+    const lookahead = defaultWindow();
+    const held = this.heldRanges(spot.id, {
+      start_time: booking.start_time < lookahead.start_time ? booking.start_time : lookahead.start_time,
+      end_time: booking.end_time > lookahead.end_time ? booking.end_time : lookahead.end_time,
+    });
+
+    if (!hasCapacity(held, spot.total_slots, booking)) {
+      throw new BookingConflictError(
+        spot.id,
+        suggestAlternativeTimes(held, spot.total_slots, booking)
+      );
+    }
+
+    return { ...this.insertBooking({ ...booking, host_id: spot.owner_id }) };
+  }
+
+  async updateBooking(id: string, updates: Partial<Booking>): Promise<Booking> {
+    const booking = this.findOrThrow(this.bookings, id, 'Booking');
+    if (updates.status && updates.status !== booking.status) {
+      throw new Error('Booking status changes go through payment, cancelBooking and the gate methods');
+    }
+    this.patchBooking(booking, { ...updates, id });
+    return { ...booking };
+  }
+
+  async getBookingEvents(bookingId: string): Promise<BookingEvent[]> {
+    return this.bookingEvents
+      .filter(event => event.booking_id === bookingId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(event => ({ ...event }));
+  }
+
+  async cancelBooking(bookingId: string, actorId: string, reason?: string): Promise<Booking> {
+    const booking = this.findOrThrow(this.bookings, bookingId, 'Booking');
+    const cancelledBy = bookingRole(booking, actorId);
+    if (!cancelledBy) throw new Error('Booking not found');
+    if (!canCancel(booking)) {
+      throw new BookingStateError(booking.id, booking.status, 'not_cancellable');
+    }
+
+    const spot = this.findOrThrow(this.spots, booking.spot_id, 'Parking spot');
+    const { refund_amount } = cancellationRefund(spot, booking, cancelledBy);
+    this.transitionBooking(booking, 'cancelled', cancelledBy, actorId, {
+      cancelled_at: now(),
+      cancelled_by: actorId,
+      cancellation_reason: reason,
+      refund_amount,
+    }, reason);
+    this.extensions
+      .filter(e => e.booking_id === booking.id && e.status === 'pending')
+      .forEach(e => Object.assign(e, { status: 'rejected', rejection_code: 'booking_cancelled', processed_at: now() }));
+    this.addNotification(cancellationNotification(booking, cancelledBy, spot.title));
+    return { ...booking };
+  }
+
+  // Payment methods
+  async getPaymentsByBooking(bookingId: string): Promise<Payment[]> {
+    return this.payments
+      .filter(payment => payment.booking_id === bookingId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map(payment => ({ ...payment }));
+  }
+
+  async getPaymentsByHost(hostId: string, status?: Payment['status']): Promise<Payment[]> {
+    const bookingIds = new Set(this.bookings.filter(b => b.host_id === hostId).map(b => b.id));
+    return this.payments
+      .filter(payment => bookingIds.has(payment.booking_id) && (!status || payment.status === status))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map(payment => ({ ...payment }));
+  }
+
+  async submitPaymentSlip(slip: NewPaymentSlip): Promise<Payment> {
+    const booking = this.findOrThrow(this.bookings, slip.booking_id, 'Booking');
+    if (booking.guest_id !== slip.payer_id) throw new AccessDeniedError('not_permitted');
+    const problem = slipSubmissionProblem(
+      booking,
+      this.payments.filter(payment => payment.booking_id === booking.id)
+    );
+    if (problem) throw new PaymentStateError(problem);
+
+    const created: Payment = {
+      ...slip,
+      id: generateId(),
+      amount: booking.total_amount,
+      currency: currencyOf(booking),
+      payment_method: 'slip',
+      status: 'submitted',
+      created_at: now(),
+      updated_at: now(),
+    };
+    this.payments.push(created);
+    this.publish({ table: 'payments', type: 'insert', record: { ...created } });
+    return { ...created };
+  }
+
+  async reviewPayment(
+    id: string,
+    decision: PaymentDecision,
+    reviewerId: string,
+    reason?: string
+  ): Promise<Payment> {
+    const payment = this.findOrThrow(this.payments, id, 'Payment');
+    const booking = this.findOrThrow(this.bookings, payment.booking_id, 'Booking');
+    if (booking.host_id !== reviewerId) throw new AccessDeniedError('not_permitted');
+    if (!canTransitionPayment(payment.status, decision)) {
+      throw new PaymentStateError('already_reviewed', id);
+    }
+
+    const status = bookingStatusAfterReview(decision, booking.status);
+    if (status !== booking.status) assertTransition(booking, status, 'system');
+
+    this.patchPayment(payment, {
+      status: decision,
+      failure_reason: decision === 'rejected' ? reason : undefined,
+      reviewed_by: reviewerId,
+      reviewed_at: now(),
+    });
+    if (decision === 'approved') {
+      const spot = this.findOrThrow(this.spots, booking.spot_id, 'Parking spot');
+      this.addNotification(paymentApprovedNotification(payment, spot.title));
+    }
+    const updates: Partial<Booking> = decision === 'approved' ? { payment_status: 'paid' } : {};
+    if (status === booking.status) {
+      this.patchBooking(booking, updates);
+    } else {
+      this.transitionBooking(booking, status, 'system', reviewerId, updates);
+    }
+    return { ...payment };
+  }
+
+  async applyPaymentEvent(event: PaymentEvent): Promise<Booking> {
+    const booking = this.findOrThrow(this.bookings, event.intent.booking_id, 'Booking');
+    if (this.paymentEventIds.has(event.id)) return { ...booking };
+
+    const { charge_id: chargeId } = event.intent;
+    if (chargeId) {
+      const charge = this.findOrThrow(this.charges, chargeId, 'Charge');
+      if (charge.booking_id !== booking.id) throw new Error('Charge not found');
+      const updates = chargeUpdateForPaymentEvent(charge, event);
+      this.paymentEventIds.add(event.id);
+      if (updates) Object.assign(charge, updates, { updated_at: now() });
+      return { ...booking };
+    }
+
+    const updates = bookingUpdateForPaymentEvent(booking, event);
+    if (updates?.status) {
+      this.transitionBooking(booking, updates.status, 'system', undefined, updates);
+    } else if (updates) {
+      this.patchBooking(booking, updates);
+    }
+    this.paymentEventIds.add(event.id);
+    return { ...booking };
+  }
+
+  async getBookingPromptPayId(bookingId: string): Promise<string | null> {
+    const booking = this.findOrThrow(this.bookings, bookingId, 'Booking');
+    return this.profiles.find(profile => profile.id === booking.host_id)?.promptpay_id ?? null;
+  }
+
+  // Extension methods
+  async quoteExtension(bookingId: string, newEndTime: string): Promise<ExtensionQuote> {
+    return this.extensionQuote(this.findOrThrow(this.bookings, bookingId, 'Booking'), newEndTime);
+  }
+
+  async requestExtension(bookingId: string, newEndTime: string, guestId: string): Promise<BookingExtension> {
+    const booking = this.findOrThrow(this.bookings, bookingId, 'Booking');
+    if (booking.guest_id !== guestId) throw new Error('Booking not found');
+
+    const quote = this.extensionQuote(booking, newEndTime);
+    if (this.extensions.some(e => e.booking_id === booking.id && e.status === 'pending')) {
+      throw new ExtensionStateError('already_pending');
+    }
+    this.checkExtensionRoom(booking, newEndTime);
+
+    const extension: BookingExtension = {
+      id: generateId(),
+      booking_id: booking.id,
+      guest_id: booking.guest_id,
+      host_id: booking.host_id,
+      original_end_time: booking.end_time,
+      new_end_time: newEndTime,
+      additional_minutes: quote.additional_minutes,
+      base_amount: quote.base_amount,
+      service_fee: quote.service_fee,
+      tax_amount: quote.tax_amount,
+      additional_cost: quote.total,
+      status: 'pending',
+      requested_at: now(),
+    };
+    this.extensions.push(extension);
+
+    const spot = this.findOrThrow(this.spots, booking.spot_id, 'Parking spot');
+    if (autoApprovesExtensions(spot)) this.approveExtension(extension);
+    this.addNotification(extensionRequestNotification(extension, spot.title, booking.currency));
+    return { ...extension };
+  }
+
+  async getExtensionsByBooking(bookingId: string): Promise<BookingExtension[]> {
+    return this.extensions
+      .filter(extension => extension.booking_id === bookingId)
+      .sort((a, b) => b.requested_at.localeCompare(a.requested_at))
+      .map(extension => ({ ...extension }));
+  }
+
+  async getExtensionsByHost(hostId: string, status?: BookingExtension['status']): Promise<BookingExtension[]> {
+    return this.extensions
+      .filter(extension => extension.host_id === hostId && (!status || extension.status === status))
+      .sort((a, b) => b.requested_at.localeCompare(a.requested_at))
+      .map(extension => ({ ...extension }));
+  }
+
+  async reviewExtension(
+    id: string,
+    decision: ExtensionDecision,
+    reviewerId: string,
+    reason?: string
+  ): Promise<BookingExtension> {
+    const extension = this.findOrThrow(this.extensions, id, 'Extension');
+    if (extension.host_id !== reviewerId) throw new Error('Extension not found');
+    if (extension.status !== 'pending') {
+      throw new ExtensionStateError('already_reviewed', id);
+    }
+
+    if (decision === 'approved') {
+      this.approveExtension(extension, reviewerId);
+    } else {
+      Object.assign(extension, {
+        status: 'rejected',
+        rejection_reason: reason,
+        processed_at: now(),
+        processed_by: reviewerId,
+      });
+    }
+
+    const booking = this.findOrThrow(this.bookings, extension.booking_id, 'Booking');
+    const spot = this.findOrThrow(this.spots, booking.spot_id, 'Parking spot');
+    this.addNotification(extensionDecisionNotification(extension, spot.title, booking.currency));
+    return { ...extension };
+  }
+
+  // Availability methods
+  async getAvailabilityBlocks(spotId: string): Promise<AvailabilityBlock[]> {
+    return this.availabilityBlocks
+      .filter(block => block.spot_id === spotId)
+      .sort((a, b) => a.start_time.localeCompare(b.start_time))
+      .map(block => ({ ...block }));
+  }
+
+  async createAvailabilityBlock(block: NewAvailabilityBlock): Promise<AvailabilityBlock> {
+    if (new Date(block.end_time) <= new Date(block.start_time)) {
+      throw new Error('Block must end after it starts');
+    }
+    this.findOrThrow(this.spots, block.spot_id, 'Parking spot');
+
+    const created: AvailabilityBlock = { ...block, id: generateId(), created_at: now() };
+    this.availabilityBlocks.push(created);
+    return { ...created };
+  }
+
+  async deleteAvailabilityBlock(id: string): Promise<void> {
+    this.availabilityBlocks = this.availabilityBlocks.filter(block => block.id !== id);
+  }
+
+  async getSpotHeldRanges(spotId: string, window: TimeRange = defaultWindow()): Promise<HeldRange[]> {
+    return this.heldRanges(spotId, window)
+      .sort((a, b) => a.start_time.localeCompare(b.start_time));
+  }
+
+  // Notification methods
+  async getNotificationsByUser(userId: string): Promise<UserNotification[]> {
+    return this.notifications
+      .filter(notification => notification.user_id === userId && isNotificationShown(notification))
+      .sort((a, b) => notificationTime(b).localeCompare(notificationTime(a)))
+      .map(notification => ({ ...notification }));
+  }
+
+  async markNotificationsRead(userId: string, ids?: string[]): Promise<void> {
+    this.notifications
+      .filter(notification =>
+        notification.user_id === userId
+        && !notification.is_read
+        && isNotificationShown(notification)
+        && (!ids || ids.includes(notification.id)))
+      .forEach(notification => {
+        const previous = { ...notification };
+        notification.is_read = true;
+        this.publish({ table: 'notifications', type: 'update', record: { ...notification }, previous });
+      });
+  }
+
+  async sendDueReminders(): Promise<number> {
+    const current = new Date();
+    this.bookings
+      .filter(booking => booking.status === 'checked_in')
+      .forEach(booking => {
+        const spot = this.findOrThrow(this.spots, booking.spot_id, 'Parking spot');
+        if (new Date(overstayReminderTime(booking, spot)) > current) return;
+        overstayReminders(booking, spot)
+          .filter(reminder => wantsReminder(this.settingsFor(reminder.user_id), reminder) && !this.hasReminder(reminder))
+          .forEach(reminder => this.addNotification(reminder));
+      });
+
+    const due = this.notifications.filter(n =>
+      n.scheduled_for && !n.sent_at && new Date(n.scheduled_for) <= current);
+    const unwanted = due.filter(n => !wantsReminder(this.settingsFor(n.user_id), n));
+    this.notifications = this.notifications.filter(n => !unwanted.includes(n));
+
+    const sent = due.filter(n => !unwanted.includes(n));
+    sent.forEach(notification => {
+      const previous = { ...notification };
+      notification.sent_at = now();
+      this.publish({ table: 'notifications', type: 'update', record: { ...notification }, previous });
+    });
+    return sent.length;
+  }
+
+  async getEmailOutbox(): Promise<EmailJob[]> {
+    const jobs: EmailJob[] = [];
+    const pending = this.notifications
+      .filter(n => isNotificationShown(n) && wantsDelivery(this.settingsFor(n.user_id), n, 'email'))
+      .filter(n => this.awaitsDelivery(n, 'email'))
+      .sort((a, b) => notificationTime(a).localeCompare(notificationTime(b)));
+
+    for (const notification of pending) {
+      const recipient = this.profiles.find(p => p.id === notification.user_id);
+      const booking = this.bookings.find(b => b.id === notification.metadata?.booking_id);
+      const spot = booking && this.spots.find(s => s.id === booking.spot_id);
+      if (!recipient || !booking || !spot) continue;
+
+      jobs.push({
+        notification: { ...notification },
+        recipient: { id: recipient.id, email: recipient.email, full_name: recipient.full_name },
+        language: resolveLanguage(this.settingsFor(recipient.id).language),
+        booking: { ...booking },
+        spot: { id: spot.id, title: spot.title, address: spot.address, timezone: spot.timezone },
+        payment: this.payments.find(p => p.id === notification.metadata?.payment_id),
+        access_token: notificationEvent(notification) === 'booking_confirmed'
+          ? await signAccessToken(this.accessSecret, booking)
+          : undefined,
+      });
+    }
+    return jobs;
+  }
+
+  async getPushOutbox(): Promise<PushJob[]> {
+    return this.notifications
+      .filter(n => isNotificationShown(n) && wantsDelivery(this.settingsFor(n.user_id), n, 'push'))
+      .sort((a, b) => notificationTime(a).localeCompare(notificationTime(b)))
+      .flatMap(notification =>
+        this.pushSubscriptions
+          .filter(s => s.user_id === notification.user_id && notificationTime(notification) >= s.created_at)
+          .filter(s => this.awaitsDelivery(notification, 'push', s.endpoint))
+          .map(subscription => ({
+            notification: { ...notification },
+            subscription: { ...subscription },
+            language: resolveLanguage(this.settingsFor(notification.user_id).language),
+          }))
+      );
+  }
+
+  async recordNotificationDelivery(delivery: NewNotificationDelivery): Promise<NotificationDelivery> {
+    this.findOrThrow(this.notifications, delivery.notification_id, 'Notification');
+    const created: NotificationDelivery = { ...delivery, id: generateId(), created_at: now() };
+    this.deliveries.push(created);
+    return { ...created };
+  }
+
+  async getNotificationDeliveries(notificationId: string): Promise<NotificationDelivery[]> {
+    return this.deliveries
+      .filter(delivery => delivery.notification_id === notificationId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(delivery => ({ ...delivery }));
+  }
+
+  async savePushSubscription(subscription: NewPushSubscription): Promise<DevicePushSubscription> {
+    this.pushSubscriptions = this.pushSubscriptions.filter(s => s.endpoint !== subscription.endpoint);
+    const created: DevicePushSubscription = { ...subscription, id: generateId(), created_at: now() };
+    this.pushSubscriptions.push(created);
+    return { ...created };
+  }
+
+  async deletePushSubscription(endpoint: string): Promise<void> {
+    this.pushSubscriptions = this.pushSubscriptions.filter(s => s.endpoint !== endpoint);
+  }
+
+  // Settings methods
+  async getUserSettings(userId: string): Promise<UserSettings> {
+    return { ...this.settingsFor(userId) };
+  }
+
+  async updateUserSettings(userId: string, updates: Partial<UserPreferences>): Promise<UserSettings> {
+    let settings = this.settings.find(s => s.user_id === userId);
+    if (!settings) {
+      settings = { ...withDefaultSettings(userId), created_at: now() };
+      this.settings.push(settings);
+    }
+    Object.assign(settings, updates, { user_id: userId, updated_at: now() });
+    return { ...settings };
+  }
+
+  // Vehicle methods
+  async getVehiclesByUserId(userId: string): Promise<Vehicle[]> {
+    return this.vehicles.filter(vehicle => vehicle.user_id === userId).map(vehicle => ({ ...vehicle }));
+  }
+
+  async createVehicle(vehicle: NewVehicle): Promise<Vehicle> {
+    const created: Vehicle = { ...vehicle, id: generateId(), created_at: now() };
+    this.vehicles.push(created);
+    return { ...created };
+  }
+
+  async updateVehicle(id: string, updates: Partial<Vehicle>): Promise<Vehicle> {
+    const vehicle = this.findOrThrow(this.vehicles, id, 'Vehicle');
+    Object.assign(vehicle, updates, { id });
+    return { ...vehicle };
+  }
+
+  async deleteVehicle(id: string): Promise<void> {
+    this.vehicles = this.vehicles.filter(vehicle => vehicle.id !== id);
+  }
+
+  // Review methods
+  async getReviewsBySpotId(spotId: string): Promise<Review[]> {
+    return this.reviews
+      .filter(review => review.spot_id === spotId && !review.is_host_review)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map(review => ({ ...review }));
+  }
+
+  async createReview(review: NewReview): Promise<Review> {
+    const created: Review = { ...review, id: generateId(), created_at: now() };
+    this.reviews.push(created);
+    this.publish({ table: 'reviews', type: 'insert', record: { ...created } });
+    const spot = this.findOrThrow(this.spots, created.spot_id, 'Parking spot');
+    this.addNotification(reviewPostedNotification(created, spot.title));
+    return { ...created };
+  }
+
+  async updateReview(id: string, updates: Partial<Review>): Promise<Review> {
+    const review = this.findOrThrow(this.reviews, id, 'Review');
+    const previous = { ...review };
+    Object.assign(review, updates, { id });
+    this.publish({ table: 'reviews', type: 'update', record: { ...review }, previous });
+    return { ...review };
+  }
+
+  // Realtime
+  subscribeToChanges(userId: string, onChange: (change: DataChange) => void): () => void {
+    const subscriber = { userId, onChange };
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+}
@@ -1,141 +1,293 @@
-import { ParkingSpot, Booking, User, Review } from '../types';
+import { ParkingSpot, Booking, Payment, Profile, PromoCode, Review, Vehicle, WeeklySchedule, AvailabilityBlock } from '../types';
+import { createAlwaysOpenSchedule, createDailySchedule } from '../services/schedule';
+
+export const mockProfiles: Profile[] = [
+  {
+    id: 'owner1',
+    full_name: 'Somchai Parking Co.',
+    email: 'owner@parkpass.app',
+    phone: '+1 (555) 123-4567',
+    promptpay_id: '0812345678',
+    user_type: 'host',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
+  },
+  {
+    id: 'user1',
+    full_name: 'John Doe',
+    email: 'john.doe@example.com',
+    phone: '+1 (555) 123-4567',
+    user_type: 'guest',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
+  },
+  {
+    id: 'user2',
+    full_name: 'Sarah Miller',
+    email: 'sarah.miller@example.com',
+    user_type: 'guest',
+    created_at: '2024-01-02T00:00:00Z',
+    updated_at: '2024-01-02T00:00:00Z'
+  }
+];
 
 export const mockParkingSpots: ParkingSpot[] = [
   {
     id: '1',
-    name: 'Downtown Central Parking',
+    owner_id: 'owner1',
+    title: 'Downtown Central Parking',
+    description: 'Secure covered parking in the heart of downtown. Perfect for business meetings and shopping.',
+    spot_type: 'garage',
     address: '123 Main Street, Downtown',
-    price: 15,
-    priceType: 'hour',
-    totalSlots: 50,
-    availableSlots: 23,
-    rating: 4.5,
-    reviewCount: 128,
+    latitude: 40.7128,
+    longitude: -74.0060,
+    hourly_rate: 15,
+    daily_rate: 90,
+    monthly_rate: 1200,
+    peak_hourly_rate: 20,
+    peak_start: '07:00',
+    peak_end: '10:00',
+    weekend_hourly_rate: 10,
+    minimum_duration_minutes: 60,
+    grace_period_minutes: 10,
+    timezone: 'America/New_York',
+    is_available: true,
     images: [
       '/placeholder.svg',
       '/placeholder.svg',
       '/placeholder.svg'
     ],
     amenities: ['Security Camera', '24/7 Access', 'Covered Parking', 'Electric Vehicle Charging'],
-    openingHours: '24/7',
-    description: 'Secure covered parking in the heart of downtown. Perfect for business meetings and shopping.',
-    lat: 40.7128,
-    lng: -74.0060,
+    total_slots: 50,
+    available_slots: 23,
+    opening_hours: '24/7',
     phone: '+1 (555) 123-4567',
-    ownerId: 'owner1',
-    isActive: true
+    rating: 4.5,
+    review_count: 128,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
   },
   {
     id: '2',
-    name: 'Airport Express Parking',
+    owner_id: 'owner1',
+    title: 'Airport Express Parking',
+    description: 'Convenient airport parking with complimentary shuttle service. Ideal for travelers.',
+    spot_type: 'lot',
     address: '456 Airport Boulevard, Terminal Area',
-    price: 25,
-    priceType: 'day',
-    totalSlots: 200,
-    availableSlots: 89,
-    rating: 4.2,
-    reviewCount: 256,
+    latitude: 40.6892,
+    longitude: -74.1745,
+    hourly_rate: 5,
+    daily_rate: 25,
+    monthly_rate: 400,
+    grace_period_minutes: 15,
+    timezone: 'America/New_York',
+    is_available: true,
     images: [
       '/placeholder.svg',
       '/placeholder.svg'
     ],
     amenities: ['Shuttle Service', 'Security Camera', 'Covered Parking', 'Car Wash'],
-    openingHours: '24/7',
-    description: 'Convenient airport parking with complimentary shuttle service. Ideal for travelers.',
-    lat: 40.6892,
-    lng: -74.1745,
+    total_slots: 200,
+    available_slots: 89,
+    opening_hours: '24/7',
     phone: '+1 (555) 987-6543',
-    ownerId: 'owner2',
-    isActive: true
+    rating: 4.2,
+    review_count: 256,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
   },
   {
     id: '3',
-    name: 'Shopping Mall Parking',
+    owner_id: 'owner1',
+    title: 'Shopping Mall Parking',
+    description: 'Large parking facility adjacent to the main shopping mall. Great for shoppers and diners.',
+    spot_type: 'lot',
     address: '789 Mall Drive, Shopping District',
-    price: 8,
-    priceType: 'day',
-    totalSlots: 300,
-    availableSlots: 156,
-    rating: 4.0,
-    reviewCount: 89,
+    latitude: 40.7282,
+    longitude: -73.7949,
+    hourly_rate: 2,
+    daily_rate: 8,
+    weekend_hourly_rate: 3,
+    timezone: 'America/New_York',
+    is_available: true,
     images: [
       '/placeholder.svg'
     ],
     amenities: ['Security Camera', 'Covered Parking', 'Walking Distance to Mall'],
-    openingHours: '6:00 AM - 11:00 PM',
-    description: 'Large parking facility adjacent to the main shopping mall. Great for shoppers and diners.',
-    lat: 40.7282,
-    lng: -73.7949,
+    total_slots: 300,
+    available_slots: 156,
+    opening_hours: '6:00 AM - 11:00 PM',
     phone: '+1 (555) 456-7890',
-    ownerId: 'owner1',
-    isActive: true
+    rating: 4.0,
+    review_count: 89,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
   }
 ];
 
-export const mockUser: User = {
-  id: '1',
-  name: 'John Doe',
-  email: 'john.doe@example.com',
-  phone: '+1 (555) 123-4567',
-  password: 'hashedpassword',
-  userType: 'customer',
-  vehicles: [
-    {
-      id: 'v1',
-      make: 'Toyota',
-      model: 'Camry',
-      licensePlate: 'ABC-123',
-      color: 'Blue'
-    }
-  ]
+export const mockSchedules: Record<string, WeeklySchedule> = {
+  '1': createAlwaysOpenSchedule('America/New_York'),
+  '2': createAlwaysOpenSchedule('America/New_York'),
+  '3': createDailySchedule('06:00', '23:00', 'America/New_York')
 };
 
+export const mockAvailabilityBlocks: AvailabilityBlock[] = [
+  {
+    id: 'ab1',
+    spot_id: '1',
+    start_time: '2024-01-07T07:00:00Z',
+    end_time: '2024-01-07T09:00:00Z',
+    block_type: 'maintenance',
+    slots_affected: 10,
+    reason: 'Weekly floor cleaning (level 1)',
+    recurrence: 'weekly',
+    created_by: 'owner1',
+    created_at: '2024-01-01T00:00:00Z'
+  }
+];
+
+export const mockPromoCodes: PromoCode[] = [
+  {
+    id: 'pc1',
+    code: 'WELCOME10',
+    description: '10% off your first booking',
+    discount_type: 'percent',
+    discount_value: 10,
+    currency: 'USD',
+    max_discount_amount: 20,
+    max_uses_per_guest: 1,
+    is_active: true,
+    created_at: '2024-01-01T00:00:00Z'
+  },
+  {
+    id: 'pc2',
+    code: 'AIRPORT5',
+    description: '$5 off airport parking over $20',
+    discount_type: 'fixed',
+    discount_value: 5,
+    currency: 'USD',
+    min_booking_amount: 20,
+    spot_id: '2',
+    max_uses: 500,
+    expires_at: '2027-12-31T23:59:59Z',
+    is_active: true,
+    created_at: '2024-01-01T00:00:00Z'
+  }
+];
+
+export const mockVehicles: Vehicle[] = [
+  {
+    id: 'v1',
+    user_id: 'user1',
+    make: 'Toyota',
+    model: 'Camry',
+    license_plate: 'ABC-123',
+    color: 'Blue',
+    created_at: '2024-01-01T00:00:00Z'
+  },
+  {
+    id: 'v2',
+    user_id: 'user1',
+    make: 'Honda',
+    model: 'Civic',
+    license_plate: 'XYZ-789',
+    color: 'White',
+    created_at: '2024-01-05T00:00:00Z'
+  }
+];
+
 export const mockBookings: Booking[] = [
   {
     id: 'b1',
-    spotId: '1',
-    userId: 'user1',
-    startTime: '2024-01-15T09:00:00Z',
-    endTime: '2024-01-15T17:00:00Z',
-    vehicleId: 'v1',
-    totalCost: 200,
-    status: 'active',
-    qrCode: 'QR123456789',
+    spot_id: '1',
+    guest_id: 'user1',
+    host_id: 'owner1',
+    vehicle_id: 'v1',
+    start_time: '2024-01-15T09:00:00Z',
+    end_time: '2024-01-15T17:00:00Z',
+    total_amount: 120,
+    status: 'confirmed',
+    payment_status: 'paid',
+    qr_code: 'QR_b1_1_1737123456789',
     pin: '1234',
-    createdAt: '2024-01-14T10:30:00Z'
+    created_at: '2024-01-14T10:30:00Z',
+    updated_at: '2024-01-14T10:30:00Z'
   },
   {
     id: 'b2',
-    spotId: '2',
-    userId: 'user1',
-    startTime: '2024-01-12T14:00:00Z',
-    endTime: '2024-01-12T18:00:00Z',
-    vehicleId: 'v2',
-    totalCost: 100,
+    spot_id: '2',
+    guest_id: 'user1',
+    host_id: 'owner1',
+    vehicle_id: 'v2',
+    start_time: '2024-01-12T14:00:00Z',
+    end_time: '2024-01-12T18:00:00Z',
+    total_amount: 20,
     status: 'completed',
-    qrCode: 'QR987654321',
+    payment_status: 'paid',
+    qr_code: 'QR987654321',
     pin: '5678',
-    createdAt: '2024-01-11T16:20:00Z'
+    created_at: '2024-01-11T16:20:00Z',
+    updated_at: '2024-01-12T18:00:00Z'
+  },
+  {
+    id: 'b3',
+    spot_id: '3',
+    guest_id: 'user1',
+    host_id: 'owner1',
+    vehicle_id: 'v1',
+    start_time: '2024-01-20T10:00:00Z',
+    end_time: '2024-01-20T14:00:00Z',
+    total_amount: 8.99,
+    service_fee: 0.4,
+    tax_amount: 0.59,
+    status: 'pending',
+    payment_status: 'pending',
+    qr_code: 'QR_b3_3_1737300000000',
+    pin: '4321',
+    created_at: '2024-01-18T08:15:00Z',
+    updated_at: '2024-01-18T08:15:00Z'
+  }
+];
+
+export const mockPayments: Payment[] = [
+  {
+    id: 'pay1',
+    booking_id: 'b3',
+    payer_id: 'user1',
+    amount: 8.99,
+    currency: 'USD',
+    payment_method: 'slip',
+    status: 'submitted',
+    slip_url: '/placeholder.svg',
+    slip_file_type: 'image/svg+xml',
+    created_at: '2024-01-18T08:40:00Z',
+    updated_at: '2024-01-18T08:40:00Z'
   }
 ];
 
 export const mockReviews: Review[] = [
   {
     id: 'r1',
-    userId: 'user1',
-    spotId: '1',
+    booking_id: 'b1',
+    spot_id: '1',
+    reviewer_id: 'user1',
+    reviewee_id: 'owner1',
     rating: 5,
     comment: 'Excellent parking facility with great security and easy access. Highly recommended!',
-    createdAt: '2024-01-10T15:30:00Z',
-    userName: 'John D.'
+    reviewer_name: 'John D.',
+    is_host_review: false,
+    created_at: '2024-01-10T15:30:00Z'
   },
   {
     id: 'r2',
-    userId: 'user2',
-    spotId: '1',
+    booking_id: 'b2',
+    spot_id: '2',
+    reviewer_id: 'user2',
+    reviewee_id: 'owner1',
     rating: 4,
     comment: 'Good location and clean facilities. The EV charging station was very convenient.',
-    createdAt: '2024-01-08T11:45:00Z',
-    userName: 'Sarah M.'
+    reviewer_name: 'Sarah M.',
+    is_host_review: false,
+    created_at: '2024-01-08T11:45:00Z'
   }
 ];
@@ -0,0 +1,19 @@
+import { DataRepository } from './repository';
+
+// Matches the every-minute schedule of the send-reminders Edge Function.
+export const REMINDER_JOB_INTERVAL_MS = 60_000;
+
+// Runs the reminder job now and then on every interval until the returned
+// function is called. Stands in for the Edge Function's cron schedule where
+// there is none, like the memory data source.
+export const startReminderJob = (
+  repository: Pick<DataRepository, 'sendDueReminders'>,
+  intervalMs = REMINDER_JOB_INTERVAL_MS
+): (() => void) => {
+  const run = () => {
+    repository.sendDueReminders().catch(error => console.error('Error sending reminders:', error));
+  };
+  run();
+  const interval = setInterval(run, intervalMs);
+  return () => clearInterval(interval);
+};
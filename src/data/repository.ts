@@ -0,0 +1,260 @@
+import {
+  AvailabilityBlock,
+  Booking,
+  BookingCharge,
+  BookingEvent,
+  BookingExtension,
+  BookingQuote,
+  DevicePushSubscription,
+  ExtensionDecision,
+  ExtensionQuote,
+  HeldRange,
+  NotificationDelivery,
+  ParkingSpot,
+  Payment,
+  PaymentDecision,
+  Profile,
+  Review,
+  SpotFilters,
+  TimeRange,
+  UserNotification,
+  UserPreferences,
+  UserSettings,
+  Vehicle,
+  WeeklySchedule,
+} from '../types';
+import { PaymentEvent } from '../payments/provider';
+import { Language } from '../i18n/catalog';
+
+export type NewParkingSpot = Omit<ParkingSpot, 'id' | 'created_at' | 'updated_at'>;
+export type NewBooking = Omit<Booking, 'id' | 'created_at' | 'updated_at'>;
+export type NewVehicle = Omit<Vehicle, 'id' | 'created_at'>;
+export type NewReview = Omit<Review, 'id' | 'created_at'>;
+export type NewAvailabilityBlock = Omit<AvailabilityBlock, 'id' | 'created_at'>;
+export type NewNotification = Omit<UserNotification, 'id' | 'is_read' | 'created_at'>;
+export type NewNotificationDelivery = Omit<NotificationDelivery, 'id' | 'created_at'>;
+export type NewPushSubscription = Omit<DevicePushSubscription, 'id' | 'created_at'>;
+
+export interface NewPaymentSlip {
+  booking_id: string;
+  payer_id: string;
+  slip_url: string;
+  slip_file_type?: string;
+  transaction_id?: string;
+}
+
+// What a guest shows at the gate: the signed QR token, or the booking's PIN
+// for the spot being entered.
+export type AccessCredential =
+  | { token: string }
+  | { spot_id: string; pin: string };
+
+export interface QuoteRequest extends TimeRange {
+  spot_id: string;
+  guest_id?: string; // for per-guest promo limits; defaults to the signed-in user
+  promo_code?: string;
+}
+
+// A notification waiting to be emailed, with what its template needs.
+// access_token is the guest's QR token, for booking confirmations. language
+// is the recipient's.
+export interface EmailJob {
+  notification: UserNotification;
+  recipient: Pick<Profile, 'id' | 'email' | 'full_name'>;
+  language: Language;
+  booking: Booking;
+  spot: Pick<ParkingSpot, 'id' | 'title' | 'address' | 'timezone'>;
+  payment?: Payment;
+  access_token?: string;
+}
+
+// A notification waiting to be pushed to one of its user's devices.
+export interface PushJob {
+  notification: UserNotification;
+  subscription: DevicePushSubscription;
+  // The user's, for the notification's text.
+  language: Language;
+}
+
+// A row the user can see was added or changed. previous is the row before an
+// update, when the data source sends it.
+export type DataChangeType = 'insert' | 'update';
+export type DataChange =
+  | { table: 'bookings'; type: DataChangeType; record: Booking; previous?: Partial<Booking> }
+  | { table: 'payments'; type: DataChangeType; record: Payment; previous?: Partial<Payment> }
+  | { table: 'reviews'; type: DataChangeType; record: Review; previous?: Partial<Review> }
+  | { table: 'notifications'; type: DataChangeType; record: UserNotification; previous?: Partial<UserNotification> };
+
+// Single data access contract shared by every page. Implemented by
+// SupabaseRepository (production) and InMemoryRepository (local dev / tests).
+export interface DataRepository {
+  // Profile methods
+  // The whole profile, for the signed-in user's own.
+  getProfileById(id: string): Promise<Profile | null>;
+  // Other users' profiles as their privacy settings show them (see
+  // publicProfile). The signed-in user's own comes back whole.
+  getProfilesByIds(ids: string[]): Promise<Profile[]>;
+  updateProfile(id: string, updates: Partial<Profile>): Promise<Profile>;
+
+  // Parking spot methods
+  getParkingSpots(filters?: SpotFilters): Promise<ParkingSpot[]>;
+  searchParkingSpots(query: string, filters?: SpotFilters): Promise<ParkingSpot[]>;
+  getParkingSpotById(id: string): Promise<ParkingSpot | null>;
+  getParkingSpotsByOwner(ownerId: string): Promise<ParkingSpot[]>;
+  createParkingSpot(spot: NewParkingSpot): Promise<ParkingSpot>;
+  updateParkingSpot(id: string, updates: Partial<ParkingSpot>): Promise<ParkingSpot>;
+  deleteParkingSpot(id: string): Promise<void>;
+  // Null means the spot has no schedule and is always open.
+  getSpotSchedule(spotId: string): Promise<WeeklySchedule | null>;
+  saveSpotSchedule(spotId: string, schedule: WeeklySchedule): Promise<void>;
+
+  // Booking methods
+  getBookingById(id: string): Promise<Booking | null>;
+  getBookingsByGuest(guestId: string): Promise<Booking[]>;
+  getBookingsByHost(hostId: string): Promise<Booking[]>;
+  getBookingsBySpotId(spotId: string): Promise<Booking[]>;
+  // Signed QR token for the booking's guest, valid from shortly before the
+  // booking starts until shortly after it ends.
+  getBookingAccessToken(bookingId: string): Promise<string>;
+  // Checks a credential for the scanning host without using it up. Throws
+  // AccessDeniedError; every failure counts toward the scanner's rate limit.
+  // A checked-in booking verifies outside its window so the car can leave.
+  verifyBookingAccess(credential: AccessCredential, scannerId: string): Promise<Booking>;
+  // Same checks, then uses up the credential and marks the booking checked in
+  // with the arrival time. Throws AccessDeniedError if already checked in.
+  checkInBooking(credential: AccessCredential, scannerId: string): Promise<Booking>;
+  // Completes a checked-in booking of the host's with the departure time.
+  // Leaving after the overstay grace period adds an overstay charge and
+  // notifies the guest and host. Throws BookingStateError if the booking is
+  // not checked in.
+  checkOutBooking(bookingId: string, hostId: string): Promise<Booking>;
+  // Extra charges raised on the booking, newest first.
+  getChargesByBooking(bookingId: string): Promise<BookingCharge[]>;
+  // Prices the range with the spot's rate card, fees, VAT and the promo code.
+  // Throws PromoCodeError when the code cannot be applied.
+  getQuote(request: QuoteRequest): Promise<BookingQuote>;
+  // Same as reserveBooking; bookings have no insert path that skips the
+  // capacity and operating-hours checks.
+  createBooking(booking: NewBooking): Promise<Booking>;
+  // Atomically checks slot capacity for the booking's time range and inserts
+  // it. Throws SpotClosedError outside operating hours and BookingConflictError
+  // (with suggested times) when the spot is full. The booking is re-quoted and
+  // QuoteMismatchError thrown unless total_amount matches; the stored quote
+  // components come from the server.
+  reserveBooking(booking: NewBooking): Promise<Booking>;
+  // Does not change the status. Payment confirms a booking, cancelling goes
+  // through cancelBooking, and check-in and check-out through the gate
+  // methods, each along BOOKING_TRANSITIONS.
+  updateBooking(id: string, updates: Partial<Booking>): Promise<Booking>;
+  // The booking's status history, oldest first.
+  getBookingEvents(bookingId: string): Promise<BookingEvent[]>;
+  // Cancels a pending or confirmed booking for its guest or host, recording
+  // who cancelled and why and the refund due under the spot's cancellation
+  // policy (in full when the host cancels), and notifies the other party.
+  // Throws BookingStateError for any other status.
+  cancelBooking(bookingId: string, actorId: string, reason?: string): Promise<Booking>;
+
+  // Payment methods
+  getPaymentsByBooking(bookingId: string): Promise<Payment[]>;
+  // Payments on the host's bookings, newest first, optionally by status.
+  getPaymentsByHost(hostId: string, status?: Payment['status']): Promise<Payment[]>;
+  // Records a slip for a pending booking, charged at the booking's total.
+  // Throws AccessDeniedError unless the payer is the booking's guest and
+  // PaymentStateError if the booking is paid or a slip awaits review.
+  submitPaymentSlip(slip: NewPaymentSlip): Promise<Payment>;
+  // Approves or rejects a submitted slip and updates the booking status to
+  // match in the same step. Throws AccessDeniedError unless the reviewer hosts
+  // the booking and PaymentStateError if already reviewed.
+  reviewPayment(id: string, decision: PaymentDecision, reviewerId: string, reason?: string): Promise<Payment>;
+  // The host's PromptPay ID for the booking's guest to pay to, or null when
+  // the host has not set one up.
+  getBookingPromptPayId(bookingId: string): Promise<string | null>;
+  // Applies a verified card payment event to its booking: a success confirms
+  // it, a decline or refund only updates payment_status. Intents for an extra
+  // charge mark that charge paid instead. Redelivered events are ignored.
+  // Throws PaymentStateError when the payment does not fit the booking or
+  // charge (already paid, no longer pending, or a different amount).
+  applyPaymentEvent(event: PaymentEvent): Promise<Booking>;
+
+  // Extension methods
+  // Prices moving a confirmed or checked-in booking's end to newEndTime.
+  // Throws BookingStateError for other bookings and ExtensionStateError for
+  // an end time that is not later or already past.
+  quoteExtension(bookingId: string, newEndTime: string): Promise<ExtensionQuote>;
+  // Checks the added time against operating hours (SpotClosedError) and
+  // capacity (BookingConflictError) and records the request for the host.
+  // Spots that auto-approve extend the booking straight away. Throws
+  // ExtensionStateError while another request awaits the host.
+  requestExtension(bookingId: string, newEndTime: string, guestId: string): Promise<BookingExtension>;
+  // Newest first.
+  getExtensionsByBooking(bookingId: string): Promise<BookingExtension[]>;
+  // Requests on the host's bookings, newest first, optionally by status.
+  getExtensionsByHost(hostId: string, status?: BookingExtension['status']): Promise<BookingExtension[]>;
+  // Approval re-checks hours and capacity, moves the booking's end time and
+  // raises an extension charge for the guest to pay; either way the guest is
+  // notified. Throws ExtensionStateError if already reviewed.
+  reviewExtension(
+    id: string,
+    decision: ExtensionDecision,
+    reviewerId: string,
+    reason?: string
+  ): Promise<BookingExtension>;
+
+  // Availability methods
+  getAvailabilityBlocks(spotId: string): Promise<AvailabilityBlock[]>;
+  createAvailabilityBlock(block: NewAvailabilityBlock): Promise<AvailabilityBlock>;
+  deleteAvailabilityBlock(id: string): Promise<void>;
+  // Slots taken by active bookings and block occurrences overlapping the window
+  // (default: now to 90 days ahead). Safe for guests: carries no booking details.
+  getSpotHeldRanges(spotId: string, window?: TimeRange): Promise<HeldRange[]>;
+
+  // Notification methods
+  // The user's notifications, newest first. Scheduled reminders are left out
+  // until sendDueReminders sends them.
+  getNotificationsByUser(userId: string): Promise<UserNotification[]>;
+  // Marks the given notifications of the user's read, or all of them when no
+  // ids are given.
+  markNotificationsRead(userId: string, ids?: string[]): Promise<void>;
+  // The reminder job: raises overstay reminders for checked-in cars past the
+  // grace period, then sends every reminder whose time has come, once, to
+  // users whose settings allow it and drops the rest. Returns how many were
+  // sent. Needs the service role on Supabase.
+  sendDueReminders(): Promise<number>;
+  // Shown notifications the user wants emailed (see wantsDelivery) not yet
+  // emailed and not yet failed MAX_DELIVERY_ATTEMPTS times, oldest first.
+  // Needs the service role on Supabase.
+  getEmailOutbox(): Promise<EmailJob[]>;
+  // The same for push, once per device, to devices subscribed before the
+  // notification was shown.
+  getPushOutbox(): Promise<PushJob[]>;
+  recordNotificationDelivery(delivery: NewNotificationDelivery): Promise<NotificationDelivery>;
+  // Oldest first.
+  getNotificationDeliveries(notificationId: string): Promise<NotificationDelivery[]>;
+  // Replaces any subscription with the same endpoint, so a device signed in
+  // to another account only receives the latest one's notifications.
+  savePushSubscription(subscription: NewPushSubscription): Promise<DevicePushSubscription>;
+  // Also called when the push service reports the device gone.
+  deletePushSubscription(endpoint: string): Promise<void>;
+
+  // Settings methods
+  // The defaults until the user saves any.
+  getUserSettings(userId: string): Promise<UserSettings>;
+  updateUserSettings(userId: string, updates: Partial<UserPreferences>): Promise<UserSettings>;
+
+  // Vehicle methods
+  getVehiclesByUserId(userId: string): Promise<Vehicle[]>;
+  createVehicle(vehicle: NewVehicle): Promise<Vehicle>;
+  updateVehicle(id: string, updates: Partial<Vehicle>): Promise<Vehicle>;
+  deleteVehicle(id: string): Promise<void>;
+
+  // Review methods
+  getReviewsBySpotId(spotId: string): Promise<Review[]>;
+  createReview(review: NewReview): Promise<Review>;
+  updateReview(id: string, updates: Partial<Review>): Promise<Review>;
+
+  // Realtime
+  // Calls onChange as the user's bookings (as guest or host), the payments on
+  // them, reviews of the user's spots and the user's notifications are added
+  // or changed, until the returned function is called.
+  subscribeToChanges(userId: string, onChange: (change: DataChange) => void): () => void;
+}
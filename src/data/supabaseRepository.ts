@@ -0,0 +1,1006 @@
+import { supabase } from '../integrations/supabase/client';
+import {
+  AvailabilityBlock,
+  Booking,
+  BookingCharge,
+  BookingEvent,
+  BookingExtension,
+  BookingQuote,
+  DaySchedule,
+  DevicePushSubscription,
+  ExtensionDecision,
+  ExtensionQuote,
+  HeldRange,
+  NotificationDelivery,
+  ParkingSpot,
+  Payment,
+  PaymentDecision,
+  Profile,
+  Review,
+  SpotFilters,
+  TimeRange,
+  UserNotification,
+  UserPreferences,
+  UserSettings,
+  Vehicle,
+  WeeklySchedule,
+} from '../types';
+import {
+  AccessDeniedError,
+  AccessDeniedReason,
+  BookingConflictError,
+  BookingStateError,
+  BookingStateProblem,
+  ExtensionStateError,
+  ExtensionStateProblem,
+  PaymentStateError,
+  PaymentStateProblem,
+  PromoCodeError,
+  PromoCodeProblem,
+  QuoteMismatchError,
+  SpotClosedError,
+} from './errors';
+import { defaultWindow, suggestAlternativeTimes } from '../services/capacity';
+import {
+  AccessCredential,
+  DataChange,
+  DataRepository,
+  EmailJob,
+  NewAvailabilityBlock,
+  NewBooking,
+  NewNotificationDelivery,
+  NewPushSubscription,
+  NewParkingSpot,
+  NewPaymentSlip,
+  NewReview,
+  NewVehicle,
+  PushJob,
+  QuoteRequest,
+} from './repository';
+import { PaymentEvent } from '../payments/provider';
+import { normalizePromoCode } from '../services/quote';
+import { notificationTime } from '../services/notifications';
+import { withDefaultSettings } from '../services/settings';
+
+// SQLSTATEs raised by reserve_booking and the booking triggers.
+const BOOKING_CONFLICT_CODE = 'P0409';
+const SPOT_CLOSED_CODE = 'P0410';
+const QUOTE_MISMATCH_CODE = 'P0422';
+const PROMO_CODE_INVALID_CODE = 'P0423';
+// Raised by submit_payment_slip and review_payment.
+const PAYMENT_STATE_CODE = 'P0424';
+// Raised by check_out_booking, cancel_booking, the extension functions and
+// the booking transition trigger, with the booking's status as the detail.
+// The trigger also gives the booking id as the hint.
+const BOOKING_STATE_CODE = 'P0425';
+// Raised by request_booking_extension and review_booking_extension.
+const EXTENSION_STATE_CODE = 'P0426';
+// Raised for a new end time that is not after the current one.
+const INVALID_PARAMETER_CODE = '22023';
+// Raised by submit_payment_slip and review_payment for a booking or payment
+// that does not exist or is not the caller's.
+const NOT_FOUND_CODE = 'P0002';
+
+interface RpcError {
+  code: string;
+  message: string;
+  details: string;
+  hint?: string;
+}
+
+// SQL raises the state errors with the English messages of src/data/errors,
+// so they are matched back to their problems. Messages that name a status
+// are matched by pattern.
+const PAYMENT_STATE_PROBLEMS: Record<string, PaymentStateProblem> = {
+  'This booking has already been paid': 'booking_paid',
+  'Only pending bookings can be paid': 'booking_not_pending',
+  'The payment amount does not match the booking total': 'amount_mismatch',
+  'A payment slip for this booking is already awaiting review': 'slip_pending',
+  'This charge has already been paid': 'charge_paid',
+  'This charge has been waived': 'charge_waived',
+  'The payment amount does not match the charge': 'charge_amount_mismatch',
+  'The refund is for a different payment': 'wrong_payment',
+};
+
+const BOOKING_STATE_PROBLEMS: Record<string, BookingStateProblem> = {
+  'Only confirmed or checked-in bookings can be extended': 'not_extendable',
+  'Only a checked-in booking can be checked out': 'not_checked_in',
+  'Only pending or confirmed bookings can be cancelled': 'not_cancellable',
+};
+
+const EXTENSION_STATE_PROBLEMS: Record<string, ExtensionStateProblem> = {
+  'Choose a new end time': 'no_end_time',
+  'The new end time must be after the current one': 'end_not_later',
+  'The new end time must be in the future': 'end_in_past',
+  'An extension for this booking is already awaiting the host': 'already_pending',
+  'The booking has changed since this extension was requested': 'booking_changed',
+};
+
+const toPaymentStateError = (error: RpcError, paymentId?: string) =>
+  new PaymentStateError(
+    /^This payment has already been /.test(error.message)
+      ? 'already_reviewed'
+      : PAYMENT_STATE_PROBLEMS[error.message] ?? 'invalid_state',
+    paymentId
+  );
+
+// The transition trigger raises "A <from> booking cannot be marked <to> by
+// the <role>", with spaces for underscores.
+const toBookingStateError = (error: RpcError, bookingId: string) => {
+  const status = error.details as Booking['status'];
+  const refused = error.message.match(/^A .+ booking cannot be marked (.+) by the \w+$/);
+  if (refused) {
+    return new BookingStateError(bookingId, status, 'not_allowed', refused[1].replace(' ', '_') as Booking['status']);
+  }
+  return new BookingStateError(bookingId, status, BOOKING_STATE_PROBLEMS[error.message] ?? 'invalid_state');
+};
+
+const toExtensionStateError = (error: RpcError, extensionId?: string) =>
+  new ExtensionStateError(
+    /^This extension has already been /.test(error.message)
+      ? 'already_reviewed'
+      : EXTENSION_STATE_PROBLEMS[error.message] ?? 'invalid_state',
+    extensionId
+  );
+
+// Quote errors carry the promo problem as the message and the server total as
+// the detail. Null for any other error.
+const toQuoteError = (error: RpcError, promoCode: string | undefined, received: number) => {
+  if (error.code === PROMO_CODE_INVALID_CODE) {
+    return new PromoCodeError(normalizePromoCode(promoCode ?? ''), error.message as PromoCodeProblem);
+  }
+  if (error.code === QUOTE_MISMATCH_CODE) {
+    return new QuoteMismatchError(parseFloat(error.details), received);
+  }
+  return null;
+};
+
+// The extension functions report a full or closed spot with the spot ID as
+// the detail, and review_booking_extension gives the booking ID as the hint.
+// Null for errors that are not about the extension.
+const toExtensionError = (error: RpcError, bookingId = error.hint ?? '', extensionId?: string) => {
+  switch (error.code) {
+    case BOOKING_CONFLICT_CODE:
+      return new BookingConflictError(error.details);
+    case SPOT_CLOSED_CODE:
+      return new SpotClosedError(error.details);
+    case BOOKING_STATE_CODE:
+      return toBookingStateError(error, bookingId);
+    case EXTENSION_STATE_CODE:
+      return toExtensionStateError(error, extensionId);
+    case INVALID_PARAMETER_CODE:
+      // compute_extension_quote reports an unusable end time this way.
+      return error.message in EXTENSION_STATE_PROBLEMS
+        ? toExtensionStateError(error, extensionId)
+        : new Error(error.message);
+    default:
+      return null;
+  }
+};
+
+interface SpotHoursRow {
+  day_of_week: number;
+  is_open: boolean;
+  opening_time: string | null;
+  closing_time: string | null;
+}
+
+// parking_spot_hours stores one row per interval, plus an is_open = false row
+// for each closed day. TIME columns come back as "HH:mm:ss".
+const rowsToSchedule = (timezone: string, rows: SpotHoursRow[]): WeeklySchedule => ({
+  timezone,
+  days: [0, 1, 2, 3, 4, 5, 6].map((day_of_week): DaySchedule => {
+    const open = rows.filter(r => r.day_of_week === day_of_week && r.is_open && r.opening_time && r.closing_time);
+    return {
+      day_of_week,
+      is_open: open.length > 0,
+      intervals: open
+        .map(r => ({ open: r.opening_time!.slice(0, 5), close: r.closing_time!.slice(0, 5) }))
+        .sort((a, b) => a.open.localeCompare(b.open)),
+    };
+  }),
+});
+
+const scheduleToRows = (schedule: WeeklySchedule): SpotHoursRow[] =>
+  schedule.days.flatMap((day): SpotHoursRow[] =>
+    day.is_open && day.intervals.length > 0
+      ? day.intervals.map(i => ({
+          day_of_week: day.day_of_week,
+          is_open: true,
+          opening_time: i.open,
+          closing_time: i.close,
+        }))
+      : [{ day_of_week: day.day_of_week, is_open: false, opening_time: null, closing_time: null }]
+  );
+
+// profiles keeps the user's name in its name column, which the app calls
+// full_name. public_profiles already returns it as full_name.
+type ProfileRow = Omit<Profile, 'full_name'> & { name: string };
+
+const rowToProfile = ({ name, ...row }: ProfileRow): Profile => ({ ...row, full_name: name });
+
+const profileToRow = ({ full_name, ...updates }: Partial<Profile>): Partial<ProfileRow> =>
+  full_name === undefined ? updates : { ...updates, name: full_name };
+
+export class SupabaseRepository implements DataRepository {
+  private channelCount = 0; // each subscription gets its own channel topic
+
+  // Profile methods
+  async getProfileById(id: string): Promise<Profile | null> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching profile:', error);
+      return null;
+    }
+
+    return rowToProfile(data);
+  }
+
+  // Users may only read their own profile row, so other users' come from
+  // public_profiles.
+  async getProfilesByIds(ids: string[]): Promise<Profile[]> {
+    if (ids.length === 0) return [];
+
+    const { data, error } = await supabase.rpc('public_profiles', { p_ids: ids });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async updateProfile(id: string, updates: Partial<Profile>): Promise<Profile> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .update(profileToRow(updates))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return rowToProfile(data);
+  }
+
+  // Parking spot methods
+  async getParkingSpots(filters?: SpotFilters): Promise<ParkingSpot[]> {
+    return this.searchParkingSpots('', filters);
+  }
+
+  async searchParkingSpots(query: string, filters?: SpotFilters): Promise<ParkingSpot[]> {
+    let supabaseQuery = supabase
+      .from('parking_spots')
+      .select('*')
+      .eq('is_available', true);
+
+    if (query) {
+      supabaseQuery = supabaseQuery.or(`title.ilike.%${query}%,address.ilike.%${query}%,description.ilike.%${query}%`);
+    }
+
+    if (filters?.location) {
+      supabaseQuery = supabaseQuery.ilike('address', `%${filters.location}%`);
+    }
+
+    if (filters?.spot_type) {
+      supabaseQuery = supabaseQuery.eq('spot_type', filters.spot_type);
+    }
+
+    if (filters?.max_hourly_rate) {
+      supabaseQuery = supabaseQuery.lte('hourly_rate', filters.max_hourly_rate);
+    }
+
+    if (filters?.amenities && filters.amenities.length > 0) {
+      supabaseQuery = supabaseQuery.contains('amenities', filters.amenities);
+    }
+
+    const { data, error } = await supabaseQuery.order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getParkingSpotById(id: string): Promise<ParkingSpot | null> {
+    const { data, error } = await supabase
+      .from('parking_spots')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching parking spot:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async getParkingSpotsByOwner(ownerId: string): Promise<ParkingSpot[]> {
+    const { data, error } = await supabase
+      .from('parking_spots')
+      .select('*')
+      .eq('owner_id', ownerId);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createParkingSpot(spot: NewParkingSpot): Promise<ParkingSpot> {
+    const { data, error } = await supabase
+      .from('parking_spots')
+      .insert(spot)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateParkingSpot(id: string, updates: Partial<ParkingSpot>): Promise<ParkingSpot> {
+    const { data, error } = await supabase
+      .from('parking_spots')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteParkingSpot(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('parking_spots')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async getSpotSchedule(spotId: string): Promise<WeeklySchedule | null> {
+    const [spotResult, hoursResult] = await Promise.all([
+      supabase.from('parking_spots').select('timezone').eq('id', spotId).maybeSingle(),
+      supabase.from('parking_spot_hours').select('*').eq('spot_id', spotId),
+    ]);
+
+    if (spotResult.error) throw spotResult.error;
+    if (hoursResult.error) throw hoursResult.error;
+    if (!spotResult.data || !hoursResult.data?.length) return null;
+
+    return rowsToSchedule(spotResult.data.timezone, hoursResult.data);
+  }
+
+  async saveSpotSchedule(spotId: string, schedule: WeeklySchedule): Promise<void> {
+    const { error } = await supabase.rpc('save_spot_schedule', {
+      p_spot_id: spotId,
+      p_timezone: schedule.timezone,
+      p_hours: scheduleToRows(schedule),
+    });
+
+    if (error) throw error;
+  }
+
+  // Booking methods
+  async getBookingById(id: string): Promise<Booking | null> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getBookingsByGuest(guestId: string): Promise<Booking[]> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('*')
+      .eq('guest_id', guestId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getBookingsByHost(hostId: string): Promise<Booking[]> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('*')
+      .eq('host_id', hostId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getBookingsBySpotId(spotId: string): Promise<Booking[]> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('*')
+      .eq('spot_id', spotId)
+      .order('start_time', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Signed in SQL with a secret clients never see.
+  async getBookingAccessToken(bookingId: string): Promise<string> {
+    const { data, error } = await supabase.rpc('booking_access_token', { p_booking_id: bookingId });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // The scanner is the signed-in host; check_booking_access uses auth.uid().
+  async verifyBookingAccess(credential: AccessCredential): Promise<Booking> {
+    return this.checkBookingAccess(credential, false);
+  }
+
+  async checkInBooking(credential: AccessCredential): Promise<Booking> {
+    return this.checkBookingAccess(credential, true);
+  }
+
+  // check_out_booking checks the host against auth.uid() and raises any
+  // overstay charge in the same transaction.
+  async checkOutBooking(bookingId: string): Promise<Booking> {
+    const { data, error } = await supabase.rpc('check_out_booking', { p_booking_id: bookingId });
+
+    if (error) {
+      throw error.code === BOOKING_STATE_CODE
+        ? toBookingStateError(error, bookingId)
+        : error;
+    }
+    return data;
+  }
+
+  async getChargesByBooking(bookingId: string): Promise<BookingCharge[]> {
+    const { data, error } = await supabase
+      .from('booking_charges')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Denials come back as a result rather than an error so the failed attempt
+  // the function records for rate limiting is not rolled back. Redeeming is
+  // what checks the booking in.
+  private async checkBookingAccess(credential: AccessCredential, redeem: boolean): Promise<Booking> {
+    const { data, error } = await supabase.rpc('check_booking_access', {
+      p_token: 'token' in credential ? credential.token : null,
+      p_spot_id: 'token' in credential ? null : credential.spot_id,
+      p_pin: 'token' in credential ? null : credential.pin,
+      p_redeem: redeem,
+    });
+
+    if (error) throw error;
+    if (data.problem) throw new AccessDeniedError(data.problem as AccessDeniedReason);
+    return data.booking;
+  }
+
+  async getQuote(request: QuoteRequest): Promise<BookingQuote> {
+    const { data, error } = await supabase.rpc('quote_booking', {
+      p_spot_id: request.spot_id,
+      p_start_time: request.start_time,
+      p_end_time: request.end_time,
+      p_promo_code: request.promo_code ?? null,
+    });
+
+    if (error) throw toQuoteError(error, request.promo_code, 0) ?? error;
+    return data;
+  }
+
+  // Guests may not insert into bookings directly, only through reserve_booking.
+  async createBooking(booking: NewBooking): Promise<Booking> {
+    return this.reserveBooking(booking);
+  }
+
+  async reserveBooking(booking: NewBooking): Promise<Booking> {
+    const { data, error } = await supabase.rpc('reserve_booking', {
+      p_spot_id: booking.spot_id,
+      p_vehicle_id: booking.vehicle_id ?? null,
+      p_start_time: booking.start_time,
+      p_end_time: booking.end_time,
+      p_total_amount: booking.total_amount,
+      p_promo_code: booking.promo_code ?? null,
+      p_qr_code: booking.qr_code ?? null,
+      p_pin: booking.pin ?? null,
+      p_guest_notes: booking.guest_notes ?? null,
+    });
+
+    if (error) {
+      if (error.code === BOOKING_CONFLICT_CODE) {
+        throw await this.bookingConflict(booking);
+      }
+      if (error.code === SPOT_CLOSED_CODE) {
+        throw new SpotClosedError(booking.spot_id);
+      }
+      throw toQuoteError(error, booking.promo_code, booking.total_amount) ?? error;
+    }
+    return data;
+  }
+
+  // The RPC only reports that the spot is full; alternatives are worked out
+  // here from the spot's held time ranges.
+  private async bookingConflict(booking: NewBooking): Promise<BookingConflictError> {
+    try {
+      const lookahead = defaultWindow();
+      const [spot, held] = await Promise.all([
+        this.getParkingSpotById(booking.spot_id),
+        this.getSpotHeldRanges(booking.spot_id, {
+          start_time: lookahead.start_time,
+          end_time: booking.end_time > lookahead.end_time ? booking.end_time : lookahead.end_time,
+        }),
+      ]);
+
+      const suggestions = spot
+        ? suggestAlternativeTimes(held, spot.total_slots, booking)
+        : [];
+      return new BookingConflictError(booking.spot_id, suggestions);
+    } catch (error) {
+      console.error('Error computing alternative booking times:', error);
+      return new BookingConflictError(booking.spot_id);
+    }
+  }
+
+  async updateBooking(id: string, updates: Partial<Booking>): Promise<Booking> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getBookingEvents(bookingId: string): Promise<BookingEvent[]> {
+    const { data, error } = await supabase
+      .from('booking_events')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async cancelBooking(bookingId: string, _actorId: string, reason?: string): Promise<Booking> {
+    const { data, error } = await supabase.rpc('cancel_booking', {
+      p_booking_id: bookingId,
+      p_reason: reason ?? null,
+    });
+
+    if (error) {
+      throw error.code === BOOKING_STATE_CODE
+        ? toBookingStateError(error, bookingId)
+        : error;
+    }
+    return data;
+  }
+
+  // Payment methods
+  async getPaymentsByBooking(bookingId: string): Promise<Payment[]> {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getPaymentsByHost(hostId: string, status?: Payment['status']): Promise<Payment[]> {
+    const bookings = await this.getBookingsByHost(hostId);
+    if (bookings.length === 0) return [];
+
+    let query = supabase
+      .from('payments')
+      .select('*')
+      .in('booking_id', bookings.map(b => b.id));
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+    if (error) throw error;
+    return data || [];
+  }
+
+  async submitPaymentSlip(slip: NewPaymentSlip): Promise<Payment> {
+    const { data, error } = await supabase.rpc('submit_payment_slip', {
+      p_booking_id: slip.booking_id,
+      p_slip_url: slip.slip_url,
+      p_slip_file_type: slip.slip_file_type ?? null,
+      p_transaction_id: slip.transaction_id ?? null,
+    });
+
+    if (error) {
+      if (error.code === NOT_FOUND_CODE) throw new AccessDeniedError('not_permitted');
+      throw error.code === PAYMENT_STATE_CODE ? toPaymentStateError(error) : error;
+    }
+    return data;
+  }
+
+  // The reviewer is the signed-in host; review_payment checks ownership itself.
+  async reviewPayment(
+    id: string,
+    decision: PaymentDecision,
+    _reviewerId: string,
+    reason?: string
+  ): Promise<Payment> {
+    const { data, error } = await supabase.rpc('review_payment', {
+      p_payment_id: id,
+      p_decision: decision,
+      p_reason: reason ?? null,
+    });
+
+    if (error) {
+      if (error.code === NOT_FOUND_CODE) throw new AccessDeniedError('not_permitted');
+      if (error.code === BOOKING_STATE_CODE) {
+        throw toBookingStateError(error, error.hint ?? '');
+      }
+      throw error.code === PAYMENT_STATE_CODE ? toPaymentStateError(error, id) : error;
+    }
+    return data;
+  }
+
+  // Only the service role may call apply_payment_event, so this works from the
+  // webhook server function and fails from the browser by design.
+  async applyPaymentEvent(event: PaymentEvent): Promise<Booking> {
+    const { data, error } = await supabase.rpc('apply_payment_event', { p_event: event });
+
+    if (error) {
+      if (error.code === NOT_FOUND_CODE) throw new AccessDeniedError('not_permitted');
+      throw error.code === PAYMENT_STATE_CODE ? toPaymentStateError(error) : error;
+    }
+    return data;
+  }
+
+  // Guests cannot read host profiles, so the ID comes through a function that
+  // only answers for the booking's own guest.
+  async getBookingPromptPayId(bookingId: string): Promise<string | null> {
+    const { data, error } = await supabase.rpc('booking_promptpay_id', { p_booking_id: bookingId });
+
+    if (error) throw error;
+    return data ?? null;
+  }
+
+  // Extension methods
+  async quoteExtension(bookingId: string, newEndTime: string): Promise<ExtensionQuote> {
+    const { data, error } = await supabase.rpc('quote_booking_extension', {
+      p_booking_id: bookingId,
+      p_new_end_time: newEndTime,
+    });
+
+    if (error) throw toExtensionError(error, bookingId) ?? error;
+    return data;
+  }
+
+  async requestExtension(bookingId: string, newEndTime: string): Promise<BookingExtension> {
+    const { data, error } = await supabase.rpc('request_booking_extension', {
+      p_booking_id: bookingId,
+      p_new_end_time: newEndTime,
+    });
+
+    if (error) throw toExtensionError(error, bookingId) ?? error;
+    return data;
+  }
+
+  async getExtensionsByBooking(bookingId: string): Promise<BookingExtension[]> {
+    const { data, error } = await supabase
+      .from('booking_extensions')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .order('requested_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getExtensionsByHost(hostId: string, status?: BookingExtension['status']): Promise<BookingExtension[]> {
+    let query = supabase
+      .from('booking_extensions')
+      .select('*')
+      .eq('host_id', hostId);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query.order('requested_at', { ascending: false });
+    if (error) throw error;
+    return data || [];
+  }
+
+  async reviewExtension(
+    id: string,
+    decision: ExtensionDecision,
+    _reviewerId: string,
+    reason?: string
+  ): Promise<BookingExtension> {
+    const { data, error } = await supabase.rpc('review_booking_extension', {
+      p_extension_id: id,
+      p_decision: decision,
+      p_reason: reason ?? null,
+    });
+
+    if (error) throw toExtensionError(error, undefined, id) ?? error;
+    return data;
+  }
+
+  // Availability methods
+  async getAvailabilityBlocks(spotId: string): Promise<AvailabilityBlock[]> {
+    const { data, error } = await supabase
+      .from('availability_blocks')
+      .select('*')
+      .eq('spot_id', spotId)
+      .order('start_time', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createAvailabilityBlock(block: NewAvailabilityBlock): Promise<AvailabilityBlock> {
+    const { data, error } = await supabase
+      .from('availability_blocks')
+      .insert(block)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteAvailabilityBlock(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('availability_blocks')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Guests cannot read other guests' bookings or the host's blocks, so the
+  // ranges come from the spot_held_ranges function.
+  async getSpotHeldRanges(spotId: string, window: TimeRange = defaultWindow()): Promise<HeldRange[]> {
+    const { data, error } = await supabase.rpc('spot_held_ranges', {
+      p_spot_id: spotId,
+      p_from: window.start_time,
+      p_to: window.end_time,
+    });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Notification methods
+  // Reminders sort by when they were sent rather than when they were made.
+  async getNotificationsByUser(userId: string): Promise<UserNotification[]> {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .or('scheduled_for.is.null,sent_at.not.is.null')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return ((data || []) as UserNotification[])
+      .sort((a, b) => notificationTime(b).localeCompare(notificationTime(a)));
+  }
+
+  // Clients may not update notifications, so only is_read can change.
+  async markNotificationsRead(_userId: string, ids?: string[]): Promise<void> {
+    const { error } = await supabase.rpc('mark_notifications_read', { p_ids: ids ?? null });
+
+    if (error) throw error;
+  }
+
+  async sendDueReminders(): Promise<number> {
+    const { data, error } = await supabase.rpc('send_due_reminders');
+
+    if (error) throw error;
+    return data ?? 0;
+  }
+
+  // The outbox, access tokens included, is built by email_outbox.
+  async getEmailOutbox(): Promise<EmailJob[]> {
+    const { data, error } = await supabase.rpc('email_outbox');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getPushOutbox(): Promise<PushJob[]> {
+    const { data, error } = await supabase.rpc('push_outbox');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async recordNotificationDelivery(delivery: NewNotificationDelivery): Promise<NotificationDelivery> {
+    const { data, error } = await supabase
+      .from('notification_deliveries')
+      .insert(delivery)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getNotificationDeliveries(notificationId: string): Promise<NotificationDelivery[]> {
+    const { data, error } = await supabase
+      .from('notification_deliveries')
+      .select('*')
+      .eq('notification_id', notificationId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // The endpoint may be saved under another account, whose row the caller
+  // cannot see, so save_push_subscription takes it over.
+  async savePushSubscription(subscription: NewPushSubscription): Promise<DevicePushSubscription> {
+    const { data, error } = await supabase.rpc('save_push_subscription', {
+      p_endpoint: subscription.endpoint,
+      p_p256dh: subscription.p256dh,
+      p_auth: subscription.auth,
+      p_user_agent: subscription.user_agent ?? null,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deletePushSubscription(endpoint: string): Promise<void> {
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('endpoint', endpoint);
+
+    if (error) throw error;
+  }
+
+  // Settings methods
+  async getUserSettings(userId: string): Promise<UserSettings> {
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return withDefaultSettings(userId, data);
+  }
+
+  async updateUserSettings(userId: string, updates: Partial<UserPreferences>): Promise<UserSettings> {
+    const { data, error } = await supabase
+      .from('user_settings')
+      .upsert({ ...updates, user_id: userId, updated_at: new Date().toISOString() })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Vehicle methods
+  async getVehiclesByUserId(userId: string): Promise<Vehicle[]> {
+    const { data, error } = await supabase
+      .from('vehicles')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createVehicle(vehicle: NewVehicle): Promise<Vehicle> {
+    const { data, error } = await supabase
+      .from('vehicles')
+      .insert(vehicle)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateVehicle(id: string, updates: Partial<Vehicle>): Promise<Vehicle> {
+    const { data, error } = await supabase
+      .from('vehicles')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteVehicle(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('vehicles')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Review methods
+  async getReviewsBySpotId(spotId: string): Promise<Review[]> {
+    const { data, error } = await supabase
+      .from('reviews')
+      .select('*')
+      .eq('spot_id', spotId)
+      .eq('is_host_review', false)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createReview(review: NewReview): Promise<Review> {
+    const { data, error } = await supabase
+      .from('reviews')
+      .insert(review)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateReview(id: string, updates: Partial<Review>): Promise<Review> {
+    const { data, error } = await supabase
+      .from('reviews')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Realtime
+  // Realtime only sends rows the user's select policies let them read. A
+  // postgres_changes filter takes one column, so bookings need a listener for
+  // each side; payments have no host column and rely on the policies alone.
+  subscribeToChanges(userId: string, onChange: (change: DataChange) => void): () => void {
+    const forward = (table: DataChange['table']) =>
+      (payload: { eventType: string; new: unknown; old: unknown }) => {
+        if (payload.eventType !== 'INSERT' && payload.eventType !== 'UPDATE') return;
+        onChange({
+          table,
+          type: payload.eventType === 'INSERT' ? 'insert' : 'update',
+          record: payload.new,
+          previous: payload.eventType === 'UPDATE' ? payload.old : undefined,
+        } as DataChange);
+      };
+
+    const channel = supabase
+      .channel(`changes:${userId}:${++this.channelCount}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'bookings', filter: `guest_id=eq.${userId}` }, forward('bookings'))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'bookings', filter: `host_id=eq.${userId}` }, forward('bookings'))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'payments' }, forward('payments'))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'reviews', filter: `reviewee_id=eq.${userId}` }, forward('reviews'))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` }, forward('notifications'))
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import { EmailMessage, EmailTransport, SentEmail } from './transport';
+
+export interface CapturedEmail extends EmailMessage {
+  message_id: string;
+  sent_at: string;
+}
+
+interface CaptureTransportOptions {
+  // Recipients whose mail is refused, to exercise failed deliveries.
+  rejectRecipients?: string[];
+}
+
+const randomId = () => `capture_${Math.random().toString(36).slice(2, 12)}${Date.now().toString(36)}`;
+
+// Keeps sent mail in memory instead of handing it to an SMTP server. Stands
+// in for a real transport in local development and tests.
+export class CaptureEmailTransport implements EmailTransport {
+  readonly name = 'capture';
+  readonly messages: CapturedEmail[] = [];
+  private rejectRecipients: string[];
+
+  constructor(options: CaptureTransportOptions = {}) {
+    this.rejectRecipients = options.rejectRecipients ?? [];
+  }
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    if (this.rejectRecipients.includes(message.to)) {
+      throw new Error(`Mailbox unavailable: ${message.to}`);
+    }
+    const captured: CapturedEmail = { ...message, message_id: randomId(), sent_at: new Date().toISOString() };
+    this.messages.push(captured);
+    return { message_id: captured.message_id };
+  }
+
+  messagesTo(recipient: string): CapturedEmail[] {
+    return this.messages.filter(message => message.to === recipient);
+  }
+
+  clear() {
+    this.messages.length = 0;
+  }
+}
@@ -0,0 +1,96 @@
+import QRCode from 'qrcode';
+import { DataRepository, EmailJob } from '../data/repository';
+import { NotificationDelivery } from '../types';
+import { EmailMessage, EmailTransport } from './transport';
+import { CaptureEmailTransport } from './captureTransport';
+import { QR_CONTENT_ID, renderEmail } from './templates';
+
+// Runs alongside the reminder job so reminders' emails follow them promptly.
+export const EMAIL_JOB_INTERVAL_MS = 60_000;
+
+type MailerRepository = Pick<DataRepository, 'getEmailOutbox' | 'recordNotificationDelivery'>;
+
+const appBaseUrl = () => (typeof window !== 'undefined' ? window.location.origin : '');
+
+const buildMessage = async (job: EmailJob, baseUrl: string): Promise<EmailMessage> => {
+  const message: EmailMessage = { to: job.recipient.email, ...renderEmail(job, baseUrl) };
+  if (job.access_token) {
+    const dataUrl = await QRCode.toDataURL(job.access_token, { width: 200, margin: 2 });
+    message.attachments = [
+      {
+        filename: 'booking-qr.png',
+        content: dataUrl.slice(dataUrl.indexOf(',') + 1),
+        content_type: 'image/png',
+        content_id: QR_CONTENT_ID,
+      },
+    ];
+  }
+  return message;
+};
+
+// Emails every notification in the outbox and logs each attempt against its
+// notification. A failed send is retried on later runs until the outbox
+// gives up on it.
+export const deliverPendingEmails = async (
+  repository: MailerRepository,
+  transport: EmailTransport,
+  baseUrl = appBaseUrl()
+): Promise<NotificationDelivery[]> => {
+  const deliveries: NotificationDelivery[] = [];
+  for (const job of await repository.getEmailOutbox()) {
+    const attempt = {
+      notification_id: job.notification.id,
+      channel: 'email' as const,
+      recipient: job.recipient.email,
+      transport: transport.name,
+    };
+    try {
+      const sent = await transport.send(await buildMessage(job, baseUrl));
+      deliveries.push(
+        await repository.recordNotificationDelivery({ ...attempt, status: 'sent', provider_message_id: sent.message_id })
+      );
+    } catch (error) {
+      deliveries.push(
+        await repository.recordNotificationDelivery({
+          ...attempt,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+  return deliveries;
+};
+
+// Runs deliverPendingEmails now and then on every interval until the returned
+// function is called. Hosted transports hold credentials the browser must not
+// see, so Supabase sends its mail from the send-email Edge Function instead.
+export const startEmailJob = (
+  repository: MailerRepository,
+  transport: EmailTransport,
+  intervalMs = EMAIL_JOB_INTERVAL_MS
+): (() => void) => {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await deliverPendingEmails(repository, transport);
+    } catch (error) {
+      console.error('Error sending emails:', error);
+    } finally {
+      running = false;
+    }
+  };
+  run();
+  const interval = setInterval(run, intervalMs);
+  return () => clearInterval(interval);
+};
+
+// Pick the mail transport once at startup, like the data source. The browser
+// only ever captures mail; VITE_EMAIL_TRANSPORT=capture is also the default.
+export const createEmailTransport = (): EmailTransport => {
+  const name = import.meta.env.VITE_EMAIL_TRANSPORT ?? 'capture';
+  if (name === 'capture') return new CaptureEmailTransport();
+  throw new Error(`Unknown email transport: ${name}`);
+};
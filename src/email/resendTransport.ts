@@ -0,0 +1,48 @@
+import { EmailMessage, EmailTransport, SentEmail } from './transport';
+
+interface ResendTransportOptions {
+  apiKey: string;
+  // The sender, e.g. "ParkPass <bookings@example.com>", on a domain verified
+  // with Resend.
+  from: string;
+  endpoint?: string;
+}
+
+// Sends mail through Resend's HTTP API. The API key must stay on the server,
+// so only the send-email Edge Function uses it.
+export class ResendEmailTransport implements EmailTransport {
+  readonly name = 'resend';
+  private apiKey: string;
+  private from: string;
+  private endpoint: string;
+
+  constructor(options: ResendTransportOptions) {
+    this.apiKey = options.apiKey;
+    this.from = options.from;
+    this.endpoint = options.endpoint ?? 'https://api.resend.com/emails';
+  }
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        attachments: message.attachments,
+      }),
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Resend refused the message (${response.status}): ${body.message ?? response.statusText}`);
+    }
+    return { message_id: body.id };
+  }
+}
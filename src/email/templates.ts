@@ -0,0 +1,152 @@
+import { EmailJob } from '../data/repository';
+import { LANGUAGES, MessageKey, MessageParams, translate } from '../i18n/catalog';
+import { NotificationEvent, localizeNotification, notificationEvent } from '../services/notifications';
+import { DEFAULT_TIMEZONE } from '../services/schedule';
+import { formatMoney } from '../services/currency';
+
+// The QR image attached to booking confirmations is referred to by this id.
+export const QR_CONTENT_ID = 'booking-qr';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Extra detail shown under the notification's message, as label and value.
+type DetailRow = [string, string];
+
+interface EmailContent {
+  subject: string;
+  heading: string;
+  details: DetailRow[];
+  // Shown only in the HTML version, after the details.
+  image?: { content_id: string; alt: string };
+  action?: { label: string; path: string };
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Emails are written in the recipient's language, not the sender's.
+const emailText = (job: EmailJob, key: MessageKey, params?: MessageParams) => translate(job.language, key, params);
+
+const formatTime = (job: EmailJob, time: string, timeZone: string) =>
+  new Date(time).toLocaleString(LANGUAGES[job.language].locale, {
+    timeZone,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+
+const bookingDetails = (job: EmailJob): DetailRow[] => {
+  const timeZone = job.spot.timezone || DEFAULT_TIMEZONE;
+  return [
+    [emailText(job, 'emails.details.spot'), job.spot.title],
+    [emailText(job, 'emails.details.address'), job.spot.address],
+    [emailText(job, 'emails.details.from'), formatTime(job, job.booking.start_time, timeZone)],
+    [emailText(job, 'emails.details.until'), formatTime(job, job.booking.end_time, timeZone)],
+  ];
+};
+
+const TEMPLATES: Record<NotificationEvent, (job: EmailJob) => EmailContent> = {
+  booking_confirmed: job => ({
+    subject: emailText(job, 'emails.booking_confirmed.subject', { spot: job.spot.title }),
+    heading: emailText(job, 'emails.booking_confirmed.heading'),
+    details: [
+      ...bookingDetails(job),
+      [emailText(job, 'emails.details.total'), formatMoney(job.booking.total_amount, job.booking.currency)],
+      ...(job.booking.pin ? [[emailText(job, 'emails.details.entryPin'), job.booking.pin] as DetailRow] : []),
+    ],
+    image: job.access_token ? { content_id: QR_CONTENT_ID, alt: emailText(job, 'emails.qrAlt') } : undefined,
+    action: { label: emailText(job, 'emails.viewBooking'), path: '/bookings' },
+  }),
+  booking_cancelled: job => ({
+    subject: emailText(job, 'emails.booking_cancelled.subject', { spot: job.spot.title }),
+    heading: emailText(job, 'emails.booking_cancelled.heading'),
+    details: [
+      ...bookingDetails(job),
+      ...(job.booking.refund_amount ? [[emailText(job, 'emails.details.refund'), formatMoney(job.booking.refund_amount, job.booking.currency)] as DetailRow] : []),
+    ],
+    action: job.notification.action_url ? { label: emailText(job, 'emails.viewBooking'), path: job.notification.action_url } : undefined,
+  }),
+  payment_approved: job => ({
+    subject: emailText(job, 'emails.payment_approved.subject', { spot: job.spot.title }),
+    heading: emailText(job, 'emails.payment_approved.heading'),
+    details: [
+      ...bookingDetails(job),
+      [emailText(job, 'emails.details.amount'), job.payment
+        ? formatMoney(job.payment.amount, job.payment.currency)
+        : formatMoney(job.booking.total_amount, job.booking.currency)],
+      ...(job.payment?.transaction_id ? [[emailText(job, 'emails.details.reference'), job.payment.transaction_id] as DetailRow] : []),
+    ],
+    action: { label: emailText(job, 'emails.viewBooking'), path: '/bookings' },
+  }),
+  review_request: job => ({
+    subject: emailText(job, 'emails.review_request.subject', { spot: job.spot.title }),
+    heading: emailText(job, 'emails.review_request.heading'),
+    details: bookingDetails(job),
+    action: { label: emailText(job, 'emails.leaveReview'), path: '/bookings' },
+  }),
+};
+
+const renderHtml = (job: EmailJob, content: EmailContent, baseUrl: string) => {
+  const rows = content.details
+    .map(([label, value]) =>
+      `<tr><td style="padding:4px 12px 4px 0;color:#6b7280">${escapeHtml(label)}</td>` +
+      `<td style="padding:4px 0;color:#111827">${escapeHtml(value)}</td></tr>`
+    )
+    .join('');
+  const image = content.image
+    ? `<p><img src="cid:${content.image.content_id}" alt="${escapeHtml(content.image.alt)}" width="200" height="200"></p>`
+    : '';
+  const action = content.action
+    ? `<p><a href="${escapeHtml(baseUrl + content.action.path)}" ` +
+      `style="display:inline-block;padding:10px 16px;background:#2563eb;color:#ffffff;border-radius:6px;text-decoration:none">` +
+      `${escapeHtml(content.action.label)}</a></p>`
+    : '';
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${job.language}"><body style="font-family:Arial,sans-serif;background:#f9fafb;padding:24px">`,
+    '<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">',
+    `<h1 style="font-size:20px;color:#111827">${escapeHtml(content.heading)}</h1>`,
+    `<p>${escapeHtml(emailText(job, 'emails.greeting', { name: job.recipient.full_name }))}</p>`,
+    `<p>${escapeHtml(localizeNotification(job.notification, job.language).message)}</p>`,
+    `<table>${rows}</table>`,
+    image,
+    action,
+    '</div>',
+    '</body></html>',
+  ].join('\n');
+};
+
+const renderText = (job: EmailJob, content: EmailContent, baseUrl: string) =>
+  [
+    content.heading,
+    '',
+    emailText(job, 'emails.greeting', { name: job.recipient.full_name }),
+    '',
+    localizeNotification(job.notification, job.language).message,
+    '',
+    ...content.details.map(([label, value]) => `${label}: ${value}`),
+    ...(content.action ? ['', `${content.action.label}: ${baseUrl}${content.action.path}`] : []),
+  ].join('\n');
+
+// The email for a notification's event. baseUrl is prefixed to links, so
+// they work outside the app.
+export const renderEmail = (job: EmailJob, baseUrl: string): RenderedEmail => {
+  const event = notificationEvent(job.notification);
+  if (!event) throw new Error(`Notification ${job.notification.id} has no email template`);
+
+  const content = TEMPLATES[event](job);
+  return {
+    subject: content.subject,
+    html: renderHtml(job, content, baseUrl),
+    text: renderText(job, content, baseUrl),
+  };
+};
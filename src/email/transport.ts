@@ -0,0 +1,29 @@
+// Outgoing mail contract shared by every transport. Messages carry both an
+// HTML and a plain-text body; inline images are attachments with a
+// content_id that the HTML refers to as cid:<content_id>.
+
+export interface EmailAttachment {
+  filename: string;
+  content: string; // base64
+  content_type: string;
+  content_id?: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface SentEmail {
+  message_id: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  // Resolves once the transport has accepted the message; throws when it
+  // refuses it.
+  send(message: EmailMessage): Promise<SentEmail>;
+}
@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import { TimeRange } from '../types';
+import { getFreeWindowsForDay, getNextAvailableWindow } from '../services/availability';
+
+export function useNextAvailableWindow(spotId: string | undefined, durationMinutes = 60) {
+  const [nextWindow, setNextWindow] = useState<TimeRange | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!spotId) return;
+    let cancelled = false;
+
+    setLoading(true);
+    getNextAvailableWindow(spotId, durationMinutes)
+      .then(result => {
+        if (cancelled) return;
+        setNextWindow(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'An error occurred');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [spotId, durationMinutes]);
+
+  return { nextWindow, loading, error };
+}
+
+// date is a calendar day (YYYY-MM-DD) in the spot's timezone.
+export function useFreeWindows(spotId: string | undefined, date: string, timeZone: string | undefined) {
+  const [windows, setWindows] = useState<TimeRange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!spotId || !timeZone) return;
+    let cancelled = false;
+
+    setLoading(true);
+    getFreeWindowsForDay(spotId, date, timeZone)
+      .then(result => {
+        if (cancelled) return;
+        setWindows(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'An error occurred');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [spotId, date, timeZone]);
+
+  return { windows, loading, error };
+}
@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BookingQuote } from '../types';
+import { database } from '../data/database';
+import { QuoteRequest } from '../data/repository';
+
+// Server-side quote for the request, refetched whenever any field changes.
+// A null request (incomplete form) clears the quote.
+export function useBookingQuote(request: QuoteRequest | null) {
+  const [quote, setQuote] = useState<BookingQuote | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [version, setVersion] = useState(0);
+
+  const key = request ? JSON.stringify(request) : null;
+
+  useEffect(() => {
+    if (!key) {
+      setQuote(null);
+      setError(null);
+      return;
+    }
+    let cancelled = false;
+
+    setLoading(true);
+    database.getQuote(JSON.parse(key) as QuoteRequest)
+      .then(result => {
+        if (cancelled) return;
+        setQuote(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setQuote(null);
+        setError(err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, version]);
+
+  const refresh = useCallback(() => setVersion(v => v + 1), []);
+
+  return { quote, loading, error, refresh };
+}
@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { ExtensionQuote } from '../types';
+import { database } from '../data/database';
+
+// Server-side price for moving the booking's end to newEndTime, refetched
+// whenever either changes. A null argument clears the quote.
+export function useExtensionQuote(bookingId: string | null, newEndTime: string | null) {
+  const [quote, setQuote] = useState<ExtensionQuote | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  useEffect(() => {
+    if (!bookingId || !newEndTime) {
+      setQuote(null);
+      setError(null);
+      return;
+    }
+    let cancelled = false;
+
+    setLoading(true);
+    database.quoteExtension(bookingId, newEndTime)
+      .then(result => {
+        if (cancelled) return;
+        setQuote(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setQuote(null);
+        setError(err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookingId, newEndTime]);
+
+  return { quote, loading, error };
+}
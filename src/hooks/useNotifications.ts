@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { database } from '../data/database';
+import { useAuth } from '../context/AuthContext';
+import { UserNotification } from '../types';
+import { useDataChanges } from './useRealtime';
+import { applyNotificationChange } from '../services/realtime';
+
+// Reminders come due without any change to push, so the list is also
+// reloaded on this interval.
+const REFRESH_INTERVAL_MS = 60_000;
+
+// The signed-in user's notifications, kept live, with read state saved to the
+// server. Marking read updates the list straight away.
+export function useNotifications() {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!user) {
+      setNotifications([]);
+      setLoading(false);
+      return;
+    }
+    try {
+      setNotifications(await database.getNotificationsByUser(user.id));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  useDataChanges(change => setNotifications(prev => applyNotificationChange(prev, change)));
+
+  // All of them when no ids are given.
+  const markRead = async (ids?: string[]) => {
+    if (!user) return;
+    setNotifications(prev => prev.map(n => (!ids || ids.includes(n.id) ? { ...n, is_read: true } : n)));
+    try {
+      await database.markNotificationsRead(user.id, ids);
+    } catch (err) {
+      console.error('Error marking notifications read:', err);
+      fetchNotifications();
+    }
+  };
+
+  const unreadCount = notifications.filter(n => !n.is_read).length;
+
+  return { notifications, unreadCount, loading, error, markRead, refetch: fetchNotifications };
+}
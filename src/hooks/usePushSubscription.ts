@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'react';
+import { database } from '../data/database';
+import { useAuth } from '../context/AuthContext';
+import {
+  getDevicePushSubscription,
+  isPushSupported,
+  subscribeDevice,
+  unsubscribeDevice,
+} from '../push/subscription';
+
+// Whether this browser receives the signed-in user's push notifications, and
+// the means to change it. subscribe and unsubscribe throw when the browser
+// or server refuses.
+export function usePushSubscription() {
+  const { user } = useAuth();
+  const supported = isPushSupported();
+  const [subscribed, setSubscribed] = useState(false);
+
+  useEffect(() => {
+    if (!supported) return;
+    getDevicePushSubscription()
+      .then(subscription => setSubscribed(!!subscription))
+      .catch(error => console.error('Error reading push subscription:', error));
+  }, [supported]);
+
+  const subscribe = async () => {
+    if (!user) return;
+    const device = await subscribeDevice();
+    await database.savePushSubscription({ ...device, user_id: user.id });
+    setSubscribed(true);
+  };
+
+  const unsubscribe = async () => {
+    const endpoint = await unsubscribeDevice();
+    if (endpoint) await database.deletePushSubscription(endpoint);
+    setSubscribed(false);
+  };
+
+  return { supported, subscribed, subscribe, unsubscribe };
+}
@@ -0,0 +1,166 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { captureFrame, decodeImageData } from '../services/qrDecoder';
+
+// Decoding every animation frame pegs a phone's CPU for no gain.
+const SCAN_INTERVAL_MS = 150;
+
+interface UseQRCameraOptions {
+  // The camera only runs while this is true.
+  active: boolean;
+  onDecode: (text: string) => void;
+}
+
+// Torch is a Chromium extension to the Media Capture spec and is missing from
+// the DOM typings.
+type TorchCapabilities = MediaTrackCapabilities & { torch?: boolean };
+
+// Why the camera is not streaming. The scanner shows these from the
+// scanner.cameraProblems messages.
+export type CameraProblem = 'unsupported' | 'blocked' | 'not_found' | 'in_use' | 'failed';
+
+const cameraProblem = (err: unknown): CameraProblem => {
+  const name = err instanceof DOMException ? err.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'blocked';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'not_found';
+    case 'NotReadableError':
+      return 'in_use';
+    default:
+      return 'failed';
+  }
+};
+
+// Streams the device camera into the video element and reports each new QR
+// code it sees. A code is reported once; call rescan() to accept it again.
+export const useQRCamera = (videoRef: RefObject<HTMLVideoElement>, { active, onDecode }: UseQRCameraOptions) => {
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [cameraId, setCameraId] = useState<string | null>(null);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<CameraProblem | null>(null);
+
+  const trackRef = useRef<MediaStreamTrack | null>(null);
+  const lastDecodedRef = useRef<string | null>(null);
+  const onDecodeRef = useRef(onDecode);
+  onDecodeRef.current = onDecode;
+
+  useEffect(() => {
+    if (!active) return;
+
+    if (!window.isSecureContext || !navigator.mediaDevices?.getUserMedia) {
+      setError('unsupported');
+      return;
+    }
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let attachedVideo: HTMLVideoElement | null = null;
+    let frame = 0;
+    let lastScan = 0;
+    const canvas = document.createElement('canvas');
+
+    const scan = (time: number) => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+
+      if (time - lastScan >= SCAN_INTERVAL_MS && video.readyState >= video.HAVE_CURRENT_DATA) {
+        lastScan = time;
+        const image = captureFrame(video, video.videoWidth, video.videoHeight, canvas);
+        const text = image && decodeImageData(image);
+        if (text && text !== lastDecodedRef.current) {
+          lastDecodedRef.current = text;
+          onDecodeRef.current(text);
+        }
+      }
+      frame = requestAnimationFrame(scan);
+    };
+
+    const start = async () => {
+      setIsStarting(true);
+      setError(null);
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: false,
+          video: cameraId ? { deviceId: { exact: cameraId } } : { facingMode: 'environment' },
+        });
+        const video = videoRef.current;
+        if (cancelled || !video) {
+          // Closed while the permission prompt was open.
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        const track = stream.getVideoTracks()[0];
+        trackRef.current = track;
+        setTorchSupported(Boolean((track.getCapabilities?.() as TorchCapabilities | undefined)?.torch));
+        setTorchOn(false);
+
+        attachedVideo = video;
+        video.srcObject = stream;
+        await video.play();
+
+        // Device labels are only exposed once permission has been granted.
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (cancelled) return;
+        setCameras(devices.filter(device => device.kind === 'videoinput'));
+
+        frame = requestAnimationFrame(scan);
+      } catch (err) {
+        console.error('Error starting camera:', err);
+        if (!cancelled) setError(cameraProblem(err));
+      } finally {
+        if (!cancelled) setIsStarting(false);
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+      trackRef.current = null;
+      if (attachedVideo) attachedVideo.srcObject = null;
+    };
+  }, [active, cameraId, videoRef]);
+
+  // Moves to the next camera, starting from whichever one is live now.
+  const switchCamera = useCallback(() => {
+    if (cameras.length < 2) return;
+    const currentId = cameraId ?? trackRef.current?.getSettings().deviceId;
+    const index = cameras.findIndex(camera => camera.deviceId === currentId);
+    setCameraId(cameras[(index + 1) % cameras.length].deviceId);
+  }, [cameras, cameraId]);
+
+  const toggleTorch = useCallback(async () => {
+    const track = trackRef.current;
+    if (!track || !torchSupported) return;
+    try {
+      await track.applyConstraints({ advanced: [{ torch: !torchOn } as MediaTrackConstraintSet] });
+      setTorchOn(!torchOn);
+    } catch (err) {
+      console.error('Error toggling torch:', err);
+      setTorchSupported(false);
+    }
+  }, [torchOn, torchSupported]);
+
+  const rescan = useCallback(() => {
+    lastDecodedRef.current = null;
+  }, []);
+
+  return {
+    cameras,
+    switchCamera,
+    torchSupported,
+    torchOn,
+    toggleTorch,
+    isStarting,
+    error,
+    rescan,
+  };
+};
@@ -0,0 +1,38 @@
+import { useEffect, useRef } from 'react';
+import { database } from '../data/database';
+import { DataChange } from '../data/repository';
+import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { useToast } from './use-toast';
+import { changeToast } from '../services/realtime';
+
+// Calls onChange for changes to the signed-in user's bookings, payments and
+// reviews while the component is mounted. onChange may differ between renders
+// without resubscribing.
+export function useDataChanges(onChange: (change: DataChange) => void) {
+  const { user } = useAuth();
+  const handler = useRef(onChange);
+
+  useEffect(() => {
+    handler.current = onChange;
+  });
+
+  useEffect(() => {
+    if (!user) return;
+    return database.subscribeToChanges(user.id, change => handler.current(change));
+  }, [user]);
+}
+
+// Raises a toast for changes other people make to the user's bookings,
+// payments and reviews. Mounted once for the whole app.
+export function useChangeToasts() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { language } = useI18n();
+
+  useDataChanges(change => {
+    if (!user) return;
+    const message = changeToast(change, user.id, language);
+    if (message) toast(message);
+  });
+}
@@ -1,16 +1,20 @@
 
 import { useState, useEffect } from 'react';
-import { supabaseService, ParkingSpot, Booking, Profile } from '../services/supabaseService';
+import { database } from '../data/database';
+import { useAuth } from '../context/AuthContext';
+import { ParkingSpot, Booking, Profile, SpotFilters } from '../types';
+import { useDataChanges } from './useRealtime';
+import { applyBookingChange } from '../services/realtime';
 
 export function useParkingSpots() {
   const [spots, setSpots] = useState<ParkingSpot[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const fetchSpots = async (filters?: any) => {
+  const fetchSpots = async (filters?: SpotFilters) => {
     try {
       setLoading(true);
-      const data = await supabaseService.getParkingSpots(filters);
+      const data = await database.getParkingSpots(filters);
       setSpots(data);
       setError(null);
     } catch (err) {
@@ -28,14 +32,20 @@ export function useParkingSpots() {
 }
 
 export function useUserProfile() {
+  const { user } = useAuth();
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const fetchProfile = async () => {
+    if (!user) {
+      setProfile(null);
+      setLoading(false);
+      return;
+    }
     try {
       setLoading(true);
-      const data = await supabaseService.getCurrentUserProfile();
+      const data = await database.getProfileById(user.id);
       setProfile(data);
       setError(null);
     } catch (err) {
@@ -47,21 +57,31 @@ export function useUserProfile() {
 
   useEffect(() => {
     fetchProfile();
-  }, []);
+  }, [user]);
 
   return { profile, loading, error, refetch: fetchProfile };
 }
 
 export function useBookings() {
+  const { user } = useAuth();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const fetchBookings = async () => {
+    if (!user) {
+      setBookings([]);
+      setLoading(false);
+      return;
+    }
     try {
       setLoading(true);
-      const data = await supabaseService.getMyBookings();
-      setBookings(data);
+      const [asGuest, asHost] = await Promise.all([
+        database.getBookingsByGuest(user.id),
+        database.getBookingsByHost(user.id)
+      ]);
+      const merged = [...asGuest, ...asHost.filter(b => !asGuest.some(g => g.id === b.id))];
+      setBookings(merged.sort((a, b) => b.created_at.localeCompare(a.created_at)));
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -72,7 +92,9 @@ export function useBookings() {
 
   useEffect(() => {
     fetchBookings();
-  }, []);
+  }, [user]);
+
+  useDataChanges(change => setBookings(prev => applyBookingChange(prev, change)));
 
   return { bookings, loading, error, refetch: fetchBookings };
 }
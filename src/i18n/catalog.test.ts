@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { findMissingKeys, missingTranslations, resolveLanguage, translate } from './catalog';
+
+describe('missingTranslations', () => {
+  it('finds every bundled catalog complete', () => {
+    expect(missingTranslations()).toEqual({});
+  });
+});
+
+describe('findMissingKeys', () => {
+  it('reports absent, empty and mismatched messages', () => {
+    const reference = { a: { b: 'Hello {name}', c: 'Bye' }, d: 'Yes', e: { f: 'No' } };
+    const catalog = { a: { b: 'สวัสดี {who}', c: ' ' }, e: 'ไม่' };
+    expect(findMissingKeys(reference, catalog)).toEqual(['a.b', 'a.c', 'd', 'e']);
+  });
+});
+
+describe('translate', () => {
+  it('fills in placeholders', () => {
+    expect(translate('en', 'common.perHour', { price: '$5' })).toBe('$5/hour');
+  });
+
+  it('uses the requested language', () => {
+    expect(translate('th', 'promo.problems.expired')).not.toBe(translate('en', 'promo.problems.expired'));
+  });
+});
+
+describe('resolveLanguage', () => {
+  it('maps tags to a supported language', () => {
+    expect(resolveLanguage('th-TH')).toBe('th');
+    expect(resolveLanguage('fr')).toBe('en');
+    expect(resolveLanguage(null)).toBe('en');
+  });
+});
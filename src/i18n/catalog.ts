@@ -0,0 +1,79 @@
+import { en, Messages } from './messages/en';
+import { th } from './messages/th';
+
+export type Language = 'en' | 'th';
+
+// The languages the app is translated into. locale picks the date, number
+// and currency formats.
+export const LANGUAGES: Record<Language, { label: string; locale: string }> = {
+  en: { label: 'English', locale: 'en-US' },
+  th: { label: 'ไทย', locale: 'th-TH' },
+};
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const CATALOGS: Record<Language, Messages> = { en, th };
+
+// Dotted paths to every message, e.g. "common.save".
+type MessagePaths<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string ? `${Prefix}${K}` : MessagePaths<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type MessageKey = MessagePaths<Messages>;
+
+export type MessageParams = Record<string, string | number>;
+
+// The supported language for a BCP 47 tag, e.g. "th-TH" -> "th". Anything
+// untranslated falls back to English.
+export const resolveLanguage = (tag: string | null | undefined): Language => {
+  const base = tag?.toLowerCase().split('-')[0];
+  return base && base in LANGUAGES ? (base as Language) : DEFAULT_LANGUAGE;
+};
+
+const lookup = (catalog: object, key: string): string | undefined => {
+  let value: unknown = catalog;
+  for (const part of key.split('.')) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return typeof value === 'string' ? value : undefined;
+};
+
+// The message in the language with its {placeholders} filled in. A message
+// missing from the catalog falls back to English, then to the key itself.
+export const translate = (language: Language, key: MessageKey, params?: MessageParams): string => {
+  const message = lookup(CATALOGS[language], key) ?? lookup(en, key) ?? key;
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+};
+
+const placeholders = (message: string) => (message.match(/\{\w+\}/g) ?? []).sort().join(',');
+
+// Every message in reference that catalog lacks, leaves empty or translates
+// with different {placeholders}, as dotted paths. The type checker already
+// catches most of these for the bundled catalogs; this also covers catalogs
+// loaded as plain JSON.
+export const findMissingKeys = (reference: object, catalog: object, prefix = ''): string[] =>
+  Object.entries(reference).flatMap(([name, value]) => {
+    const path = `${prefix}${name}`;
+    const translated = (catalog as Record<string, unknown>)[name];
+    if (typeof value !== 'string') {
+      return typeof translated === 'object' && translated !== null
+        ? findMissingKeys(value, translated, `${path}.`)
+        : [path];
+    }
+    return typeof translated === 'string' && translated.trim() && placeholders(translated) === placeholders(value)
+      ? []
+      : [path];
+  });
+
+// The missing keys of each bundled catalog, checked against English.
+export const missingTranslations = (): Partial<Record<Language, string[]>> =>
+  Object.fromEntries(
+    (Object.keys(CATALOGS) as Language[])
+      .filter(language => language !== DEFAULT_LANGUAGE)
+      .map(language => [language, findMissingKeys(en, CATALOGS[language])])
+      .filter(([, missing]) => missing.length > 0)
+  );
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { BookingStateError, PaymentStateError, PromoCodeError } from '../data/errors';
+import { translateError } from './errors';
+
+describe('translateError', () => {
+  it('translates errors from the data layer', () => {
+    const error = new PaymentStateError('slip_pending');
+    expect(translateError('en', error)).toBe(error.message);
+    expect(translateError('th', error)).not.toBe(error.message);
+    expect(translateError('en', new PromoCodeError('SAVE10', 'expired'))).toBe('This promo code has expired');
+  });
+
+  it('names the statuses of a refused move', () => {
+    const error = new BookingStateError('b1', 'checked_in', 'not_allowed', 'cancelled');
+    expect(translateError('en', error)).toBe('A checked in booking cannot be marked cancelled');
+    expect(error.message).toBe('A checked in booking cannot be marked cancelled');
+  });
+
+  it('uses the fallback for any other error', () => {
+    expect(translateError('en', new Error('fetch failed'))).toBe('Something went wrong. Please try again.');
+    expect(translateError('en', new Error('fetch failed'), 'extension.requestFailed')).not.toContain('fetch failed');
+  });
+});
@@ -0,0 +1,41 @@
+import {
+  isAccessDeniedError,
+  isBookingConflictError,
+  isBookingStateError,
+  isExtensionStateError,
+  isPaymentStateError,
+  isPromoCodeError,
+  isPushPermissionError,
+  isQuoteMismatchError,
+  isSpotClosedError,
+} from '../data/errors';
+import { BookingStatus } from '../types';
+import { Language, LANGUAGES, MessageKey, translate } from './catalog';
+
+const statusText = (language: Language, status?: BookingStatus) =>
+  status ? translate(language, `bookingStatus.${status}`).toLocaleLowerCase(LANGUAGES[language].locale) : '';
+
+// The message for an error from src/data/errors in the language. Their own
+// messages are English, for logs. Any other error gets the fallback, since
+// its message is not meant for users.
+export const translateError = (
+  language: Language,
+  error: unknown,
+  fallback: MessageKey = 'errors.unexpected'
+): string => {
+  if (isBookingConflictError(error)) return translate(language, 'errors.bookingConflict');
+  if (isSpotClosedError(error)) return translate(language, 'errors.spotClosed');
+  if (isQuoteMismatchError(error)) return translate(language, 'errors.quoteMismatch');
+  if (isPromoCodeError(error)) return translate(language, `promo.problems.${error.problem}`);
+  if (isAccessDeniedError(error)) return translate(language, `errors.access.${error.reason}`);
+  if (isPaymentStateError(error)) return translate(language, `errors.paymentState.${error.problem}`);
+  if (isExtensionStateError(error)) return translate(language, `errors.extensionState.${error.problem}`);
+  if (isPushPermissionError(error)) return translate(language, 'errors.pushBlocked');
+  if (isBookingStateError(error)) {
+    return translate(language, `errors.bookingState.${error.problem}`, {
+      from: statusText(language, error.status),
+      to: statusText(language, error.target),
+    });
+  }
+  return translate(language, fallback);
+};
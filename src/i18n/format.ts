@@ -0,0 +1,38 @@
+// Locale-aware formatting for dates, times, numbers and money. locale is a
+// BCP 47 tag such as LANGUAGES[language].locale; Thai dates come out in the
+// Buddhist calendar, as Thai readers expect.
+
+// The currency prices and payments are recorded in unless they say otherwise.
+export const DEFAULT_CURRENCY = 'USD';
+
+type DateInput = string | number | Date;
+
+const toDate = (value: DateInput) => (value instanceof Date ? value : new Date(value));
+
+export const formatDate = (value: DateInput, locale: string, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }) =>
+  toDate(value).toLocaleDateString(locale, options);
+
+export const formatTime = (value: DateInput, locale: string, options: Intl.DateTimeFormatOptions = { timeStyle: 'short' }) =>
+  toDate(value).toLocaleTimeString(locale, options);
+
+export const formatDateTime = (
+  value: DateInput,
+  locale: string,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }
+) => toDate(value).toLocaleString(locale, options);
+
+export const formatNumber = (value: number, locale: string, options?: Intl.NumberFormatOptions) =>
+  value.toLocaleString(locale, options);
+
+// An amount of money in its own currency, e.g. "$12.50" in en-US or
+// "฿12.50" for THB in th-TH.
+export const formatCurrency = (amount: number, locale: string, currency = DEFAULT_CURRENCY) =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+
+// The currency's name in the locale, e.g. "Thai Baht" or "บาท".
+export const formatCurrencyName = (currency: string, locale: string) =>
+  new Intl.DisplayNames([locale], { type: 'currency' }).of(currency) ?? currency;
+
+// The name of a day of the week, 0 being Sunday as in Date.getDay().
+export const formatWeekday = (dayOfWeek: number, locale: string, weekday: 'long' | 'short' = 'long') =>
+  new Date(Date.UTC(1970, 0, 4 + dayOfWeek)).toLocaleDateString(locale, { weekday, timeZone: 'UTC' });
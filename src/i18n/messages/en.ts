@@ -0,0 +1,1032 @@
+// English messages, the reference catalog every other language must match.
+// Placeholders in braces are filled in by t(), e.g. {name}.
+export const en = {
+  common: {
+    appName: 'ParkPass',
+    language: 'Language',
+    loading: 'Loading...',
+    save: 'Save',
+    saving: 'Saving...',
+    cancel: 'Cancel',
+    close: 'Close',
+    delete: 'Delete',
+    edit: 'Edit',
+    back: 'Back',
+    retry: 'Try again',
+    processing: 'Processing...',
+    pleaseWait: 'Please wait...',
+    perHour: '{price}/hour',
+    perHourUnit: '/hour',
+    perDay: '{price}/day',
+    error: 'Error',
+    success: 'Success',
+  },
+  landing: {
+    signIn: 'Sign In',
+    heroTitle: 'Find Perfect',
+    heroHighlight: 'Parking Spots',
+    heroText:
+      'Discover and book parking spaces near you, or rent out your own space to earn extra income. Safe, convenient, and affordable parking made simple.',
+    findParking: 'Find Parking',
+    listSpace: 'List Your Space',
+    whyTitle: 'Why Choose ParkPass?',
+    whySubtitle: 'The easiest way to park and earn',
+    locationTitle: 'Easy Location',
+    locationText: 'Find parking spots near your destination with our smart search',
+    bookingTitle: 'Instant Booking',
+    bookingText: 'Book your parking spot in seconds with our quick booking system',
+    secureTitle: 'Secure & Safe',
+    secureText: 'All transactions are secure and parking spots are verified',
+    ratedTitle: 'Top Rated',
+    ratedText: 'Join thousands of satisfied users who trust ParkPass',
+    ctaTitle: 'Ready to Get Started?',
+    ctaText: 'Join ParkPass today and experience hassle-free parking',
+    ctaButton: 'Get Started Now',
+    footer: '© 2024 ParkPass. Making parking simple and profitable.',
+  },
+  notFound: {
+    title: 'Oops! Page not found',
+    home: 'Return to Home',
+  },
+  login: {
+    taglineLogin: 'Welcome back to the future of parking',
+    taglineDriver: 'Find and book parking spots instantly',
+    taglineOwner: 'Start earning from your parking spaces',
+    driver: 'Driver',
+    driverHint: 'Find & book parking',
+    owner: 'Owner',
+    ownerHint: 'List your spaces',
+    signIn: 'Sign In',
+    createDriver: 'Create Driver Account',
+    createOwner: 'Create Owner Account',
+    introLogin: 'Enter your credentials to access your account',
+    introDriver: 'Join thousands of drivers finding perfect parking',
+    introOwner: 'Start monetizing your parking spaces today',
+    fullName: 'Full Name',
+    fullNamePlaceholder: 'Enter your full name',
+    email: 'Email Address',
+    emailPlaceholder: 'Enter your email',
+    phone: 'Phone Number',
+    phonePlaceholder: 'Enter your phone number',
+    password: 'Password',
+    passwordPlaceholder: 'Enter your password',
+    passwordHint: 'Must be at least 6 characters',
+    confirmPassword: 'Confirm Password',
+    confirmPasswordPlaceholder: 'Confirm your password',
+    rememberMe: 'Remember me',
+    forgotPassword: 'Forgot password?',
+    noAccount: "Don't have an account?",
+    signUpDriver: 'Sign up as a driver',
+    or: 'or',
+    signUpOwner: 'list your parking space',
+    haveAccount: 'Already have an account?',
+    signInLink: 'Sign in',
+    demoCredentials: 'Demo Credentials',
+    invalidCredentials: 'Invalid email or password',
+    passwordMismatch: 'Passwords do not match',
+    passwordTooShort: 'Password must be at least 6 characters long',
+    genericError: 'An error occurred. Please try again.',
+  },
+  nav: {
+    home: 'Home',
+    notifications: 'Notifications',
+    markAllRead: 'Mark all read',
+    noNotifications: 'No notifications yet',
+    viewAllNotifications: 'View all notifications',
+    user: 'User',
+    profile: 'Profile',
+    myBookings: 'My Bookings',
+    dashboard: 'Dashboard',
+    settings: 'Settings',
+    signOut: 'Sign Out',
+  },
+  userTypes: {
+    guest: 'Driver',
+    host: 'Host',
+    both: 'Driver and host',
+  },
+  home: {
+    loading: 'Loading parking spots...',
+    loadError: 'Error loading parking spots: {error}',
+    heroTitle: 'Find Your Perfect Parking Spot',
+    heroText: 'Book private parking spaces from local hosts in your area',
+    where: 'Where',
+    locationPlaceholder: 'Enter location',
+    search: 'Search',
+    searchPlaceholder: 'Search parking spots...',
+    availableSpots: 'Available Parking Spots',
+    spotFound: '{count} spot found',
+    spotsFound: '{count} spots found',
+    moreAmenities: '+{count} more',
+    noSpots: 'No parking spots found',
+    noSpotsHint: 'Try adjusting your search criteria or check back later for new listings.',
+    ctaTitle: 'Have a parking space to rent?',
+    ctaText: 'Start earning money by sharing your unused parking space with others.',
+    ctaButton: 'List Your Space',
+  },
+  availability: {
+    checking: 'Checking availability...',
+    noneSoon: 'No availability in the next 90 days',
+    now: 'Available now',
+    today: 'Next free today at {time}',
+    tomorrow: 'Next free tomorrow at {time}',
+    later: 'Next free {date} at {time}',
+  },
+  schedule: {
+    closed: 'Closed',
+    open24Hours: 'Open 24 hours',
+    openUntil: 'Open now · closes at {time}',
+    closedUntil: 'Closed · opens {time}',
+    unknownTimezone: 'Unknown timezone "{timezone}"',
+    noHours: '{day} is open but has no hours',
+    invalidTime: '{day} has an invalid time',
+    overlapping: '{day} has overlapping hours',
+  },
+  spot: {
+    available: 'Available',
+    unavailable: 'Unavailable',
+    notAvailable: 'Not Available',
+    bookNow: 'Book Now',
+  },
+  spotDetail: {
+    notFound: 'Spot Not Found',
+    notFoundText: "The parking spot you're looking for doesn't exist.",
+    ratingSummary: '{rating} ({count} reviews)',
+    perHour: 'per hour',
+    slotsAvailable: '{available}/{total} spots available',
+    description: 'Description',
+    openingHours: 'Opening Hours',
+    timezone: 'Times shown in {timezone}',
+    amenities: 'Amenities',
+    reviews: 'Reviews ({count})',
+    guest: 'Guest',
+    noReviews: 'No reviews yet. Be the first to review this spot!',
+    spotsAvailable: '{count} spots available',
+    full: 'Currently full',
+    plenty: 'Plenty of space',
+    limited: 'Limited availability',
+    checkBack: 'Check back later',
+    freeTimes: 'Free times',
+    noFreeTimes: 'No free times on this day',
+    chargeNotice: "You won't be charged until your booking is confirmed",
+  },
+  scheduleEditor: {
+    timezone: 'Timezone',
+    timezonePlaceholder: 'e.g., Asia/Bangkok',
+    alwaysOpen: 'Open 24/7',
+    daily: 'Daily {open} - {close}',
+    to: 'to',
+    allDay: 'all day',
+    nextDay: 'next day',
+    addHours: 'Add hours',
+  },
+  availabilityCalendar: {
+    blockedSlots: '-{count} slots',
+  },
+  searchFilters: {
+    placeholder: 'Search by location, address, or parking spot name...',
+    findNearMe: 'Find Near Me',
+    nearMe: 'Near Me',
+    filters: 'Filters',
+    filterOptions: 'Filter Options',
+    clearAll: 'Clear All',
+    priceRange: 'Price Range (per hour)',
+    parkingType: 'Parking Type',
+    types: {
+      all: 'All Types',
+      covered: 'Covered',
+      open: 'Open Air',
+      valet: 'Valet Service',
+      garage: 'Garage',
+    },
+    sortBy: 'Sort By',
+    sort: {
+      distance: 'Distance',
+      price_low: 'Price: Low to High',
+      price_high: 'Price: High to Low',
+      rating: 'Highest Rated',
+      availability: 'Most Available',
+    },
+    availability: 'Availability',
+    availableOnly: 'Available spots only',
+    amenities: 'Amenities',
+    activeFilters: 'Active Filters:',
+    priceChip: 'Price: {min}-{max}',
+    typeChip: 'Type: {type}',
+    sortChip: 'Sort: {sort}',
+    availableOnlyChip: 'Available only',
+  },
+  cancellation: {
+    policies: {
+      flexible: 'Flexible',
+      moderate: 'Moderate',
+      strict: 'Strict',
+      custom: 'Custom',
+    },
+    policyName: '{policy} cancellation',
+    fullRefund: 'Full refund',
+    partialRefund: '{percent}% refund',
+    refundWithNotice: '{refund} if cancelled {hours}+ hours before the start',
+    refundBeforeStart: '{refund} if cancelled before the start',
+    noRefundAfter: 'No refund after that',
+    noRefund: 'No refund on cancellation',
+    errors: {
+      noTiers: 'Add at least one refund tier to a custom policy',
+      negativeNotice: 'Refund tiers need zero or more hours of notice',
+      percentRange: 'Refunds must be between 0% and 100%',
+      duplicateNotice: 'Each refund tier needs a different notice period',
+    },
+  },
+  pricing: {
+    lineItems: {
+      monthly: 'Monthly pass',
+      standard: 'Standard rate',
+      peak: 'Peak rate',
+      weekend: 'Weekend rate',
+      daily_cap: 'Daily maximum',
+      monthly_cap: 'Monthly maximum',
+    },
+    quoteItems: {
+      base: 'Parking',
+      discount: 'Promo {code}',
+      service_fee: 'Service fee',
+      tax: 'VAT ({rate}%)',
+    },
+    errors: {
+      peakTimes: 'Set both a start and end time for the peak rate',
+      peakSameTime: 'Peak hours must start and end at different times',
+      graceTooLong: 'Grace period must be shorter than an hour',
+      overstayNegative: 'Overstay grace period cannot be negative',
+    },
+  },
+  booking: {
+    loadFailed: 'Failed to load booking information',
+    missingInfo: 'Missing Information',
+    missingInfoText: 'Please fill in all required fields',
+    reserved: 'Spot Reserved',
+    reservedText: 'Complete payment to confirm your booking',
+    fullyBooked: 'Spot Fully Booked',
+    fullyBookedText: 'This spot is fully booked for the selected time',
+    priceUpdated: 'Price Updated',
+    priceUpdatedText: 'The price changed since you saw it. Please review the new total before booking.',
+    promoRemoved: 'Promo Code Removed',
+    spotClosed: 'Spot Closed',
+    spotClosedText: 'This spot is closed during part of the selected time. Opening hours: {hours}',
+    failed: 'Booking Failed',
+    failedText: 'Failed to create booking. Please try again.',
+    confirmed: 'Booking Confirmed!',
+    confirmedText: 'Payment received. Your parking spot is booked',
+    pending: 'Booking Pending',
+    pendingText: 'Upload a transfer slip from My Bookings to confirm it',
+    hostedBy: 'Hosted by {name}',
+    slotsAvailable: '{available}/{total} available',
+    price: 'Price',
+    peakRate: 'Peak (weekdays {start} - {end}): {price}/hour',
+    weekendRate: 'Weekends: {price}/hour',
+    dailyMax: 'Daily maximum: {price}',
+    monthly: 'Monthly: {price}',
+    minimumStay: 'Minimum stay: {minutes} minutes',
+    gracePeriod: '{minutes} minute grace period',
+    overstayAfter: 'Overstay fee after {minutes} minutes past your end time',
+    completePayment: 'Complete Payment',
+    slotHeld: '{range}. Your slot is held; the booking is confirmed once payment succeeds.',
+    bookThisSpot: 'Book This Spot',
+    selectVehicle: 'Select Vehicle',
+    chooseVehicle: 'Choose your vehicle',
+    startDate: 'Start Date',
+    startTime: 'Start Time',
+    endDate: 'End Date',
+    endTime: 'End Time',
+    promoCode: 'Promo Code',
+    promoPlaceholder: 'Enter code',
+    apply: 'Apply',
+    promoApplied: 'Promo {code} applied',
+    totalCost: 'Total Cost',
+    noSlots: 'No slots left for this time',
+    suggestions: 'These times are still available:',
+    tryAnotherTime: 'Please try a different date or time.',
+    secure: 'Secure Booking',
+    secureText: "Your booking is protected and you'll receive a QR code for entry.",
+    bookNow: 'Book Now - {total}',
+  },
+  promo: {
+    problems: {
+      not_found: 'This promo code does not exist',
+      inactive: 'This promo code is no longer active',
+      not_started: 'This promo code is not valid yet',
+      expired: 'This promo code has expired',
+      wrong_spot: 'This promo code cannot be used for this spot',
+      wrong_currency: 'This promo code cannot be used for prices in this currency',
+      below_minimum: 'This booking is below the minimum amount for this promo code',
+      usage_limit: 'This promo code has been fully redeemed',
+      guest_limit: 'You have already used this promo code',
+    },
+  },
+  cardPayment: {
+    title: 'Pay by Card',
+    cardNumber: 'Card Number',
+    expiry: 'Expiry',
+    cvc: 'CVC',
+    testMode: 'Test mode: {success} succeeds, {declined} is declined.',
+    pay: 'Pay {amount}',
+    payLater: 'Pay Later by Bank Transfer',
+    unavailable: 'Card payments are unavailable right now. Please try again later.',
+    invalidExpiry: 'Enter the expiry date as MM/YY',
+    notCharged: 'Your card could not be charged',
+    notConfirmed: 'Your payment was received but is not confirmed yet. Check My Bookings shortly.',
+    failed: 'Payment failed. Please try again.',
+  },
+  promptPay: {
+    unavailable: 'PromptPay is not available for this booking. Please contact the host for transfer details.',
+    scan: 'Scan with any Thai banking app',
+    amount: 'Amount: {amount}',
+  },
+  slipUpload: {
+    title: 'Upload Payment Slip',
+    instructions: 'Payment Instructions:',
+    stepTransfer: 'Transfer the exact amount to our payment account',
+    stepScreenshot: 'Take a screenshot or photo of your payment confirmation',
+    stepUpload: 'Upload the payment slip below for verification',
+    stepConfirm: 'Your booking will be confirmed once payment is verified',
+    uploading: 'Uploading payment slip...',
+    progress: '{percent}% complete',
+    dropHint: 'Drag and drop your payment slip here, or click to browse',
+    supported: 'Supports: JPEG, PNG, GIF, PDF (max 5MB)',
+    uploaded: 'Payment Slip Uploaded Successfully',
+    uploadedText: 'Submit it below to send it to the host for review.',
+    replace: 'Upload a different file',
+    invalidType: 'Please upload an image (JPEG, PNG, GIF) or PDF file',
+    tooLarge: 'File size must be less than 5MB',
+    failed: 'Error uploading payment slip. Please try again.',
+  },
+  bookingStatus: {
+    pending: 'Pending',
+    confirmed: 'Confirmed',
+    checked_in: 'Checked In',
+    completed: 'Completed',
+    cancelled: 'Cancelled',
+  },
+  duration: {
+    minutes: '{minutes}m',
+    hours: '{hours}h',
+    hoursMinutes: '{hours}h {minutes}m',
+  },
+  bookingEvents: {
+    pending: 'Booked',
+    confirmed: 'Confirmed',
+    checked_in: 'Checked in',
+    completed: 'Checked out',
+    cancelled: 'Cancelled',
+    by: '{event} by {actor}',
+    actors: {
+      guest: 'guest',
+      host: 'host',
+      payment: 'payment',
+    },
+  },
+  extension: {
+    stayLonger: 'Stay longer by',
+    newEndTime: 'New end time: {time}',
+    calculating: 'Calculating price...',
+    priceFailed: 'Could not price this extension.',
+    baseItem: 'Parking +{duration}',
+    total: 'Total',
+    needsApproval: 'The host reviews your request. You pay once it is approved.',
+    autoApproved: 'This spot approves extensions straight away. You pay from My Bookings.',
+    request: 'Request Extension',
+    requesting: 'Requesting...',
+    requestFailed: 'Failed to request the extension. Please try again.',
+  },
+  charges: {
+    overstay: 'Overstay of {duration} past the booked end time',
+    extension: 'Extension of {duration}',
+  },
+  cancelBooking: {
+    refund: 'Refund ({percent}%)',
+    notPaid: 'This booking is not paid yet, so there is nothing to refund.',
+    reason: 'Reason (optional)',
+    cancel: 'Cancel Booking',
+    cancelling: 'Cancelling...',
+    keep: 'Keep Booking',
+    failed: 'Failed to cancel the booking. Please try again.',
+  },
+  bookingTimeline: {
+    loading: 'Loading history...',
+    empty: 'No history recorded for this booking.',
+  },
+  scanner: {
+    title: 'Entry Validation',
+    qrCode: 'QR Code',
+    pin: 'PIN',
+    startingCamera: 'Starting camera...',
+    torchOn: 'Torch On',
+    torchOff: 'Torch Off',
+    switchCamera: 'Switch Camera',
+    scanImage: 'Scan Image',
+    enterManually: 'Or enter the code manually:',
+    pastePlaceholder: 'Paste QR code here',
+    validateCode: 'Validate Code',
+    validatePin: 'Validate PIN',
+    validating: 'Validating...',
+    spot: 'Spot',
+    enterPin: 'Enter {length}-digit PIN',
+    validBooking: 'Valid Booking Found',
+    readyToLeave: 'Car is checked in and ready to leave',
+    verified: 'Booking details verified successfully',
+    customer: 'Customer:',
+    location: 'Location:',
+    time: 'Time:',
+    status: 'Status:',
+    checkedIn: 'Checked in:',
+    overstayed: 'Overstayed by {duration}',
+    totalAmount: 'Total Amount:',
+    confirmEntry: 'Confirm Entry',
+    confirmExit: 'Confirm Exit',
+    notFound: 'Booking details not found.',
+    validateFailed: 'Error validating code. Please try again.',
+    noCodeInImage: 'No QR code found in that image. Try a sharper photo or enter the code manually.',
+    imageUnreadable: 'That image could not be read. Try another photo or enter the code manually.',
+    entryFailed: 'Error processing entry. Please try again.',
+    exitFailed: 'Error processing exit. Please try again.',
+    cameraProblems: {
+      unsupported: 'Camera scanning needs a secure (https) connection and a supported browser. Enter the code manually.',
+      blocked: 'Camera access was blocked. Allow it in your browser settings, or scan an image or enter the code manually.',
+      not_found: 'No camera was found. Scan an image or enter the code manually.',
+      in_use: 'The camera is in use by another app. Close it and try again, or enter the code manually.',
+      failed: 'The camera could not be started. Scan an image or enter the code manually.',
+    },
+  },
+  review: {
+    title: 'Rate & Review',
+    experience: 'How was your parking experience?',
+    ratings: {
+      terrible: 'Terrible',
+      poor: 'Poor',
+      average: 'Average',
+      good: 'Good',
+      excellent: 'Excellent',
+    },
+    writeReview: 'Write your review (optional)',
+    placeholder:
+      'Share your experience with other drivers. Was the location easy to find? How was the security? Any tips for future visitors?',
+    helpText: 'Help other drivers by sharing specific details',
+    addPhotos: 'Add photos (optional)',
+    addPhoto: 'Add Photo',
+    photoAlt: 'Review photo {number}',
+    photoUrlPrompt: 'Enter photo URL:',
+    photoLimit: 'Add up to {count} photos to help other drivers',
+    aspectsTitle: 'Rate specific aspects (optional)',
+    aspects: {
+      location: 'Location & Access',
+      security: 'Security & Safety',
+      value: 'Value for Money',
+      cleanliness: 'Cleanliness',
+    },
+    anonymous: 'Post this review anonymously',
+    selectRating: 'Please select a rating',
+    submit: 'Submit Review',
+    submitting: 'Submitting...',
+    guidelinesTitle: 'Review Guidelines',
+    guidelines: {
+      honest: 'Be honest and helpful to other drivers',
+      focus: 'Focus on your parking experience',
+      privacy: 'Avoid personal information or offensive content',
+      photos: 'Photos should be relevant to the parking spot',
+    },
+  },
+  cancellationEditor: {
+    policy: 'Cancellation Policy',
+    refundIfCancelled: '% refund if cancelled',
+    hoursBefore: 'hours or more before the start',
+    addTier: 'Add Refund Tier',
+  },
+  pricingEditor: {
+    monthlyRate: 'Monthly Rate',
+    weekendRate: 'Weekend Hourly Rate',
+    peakRate: 'Peak Hourly Rate',
+    optional: 'Optional',
+    sameAsHourly: 'Same as hourly',
+    noPeak: 'No peak pricing',
+    none: 'None',
+    peakFrom: 'Peak hours on weekdays from',
+    peakTo: 'to',
+    minimumStay: 'Minimum Stay (minutes)',
+    gracePeriod: 'Grace Period (minutes)',
+    gracePeriodHelp: 'A last part-hour this short is not charged.',
+    overstayGrace: 'Overstay Grace (minutes)',
+    overstayGraceHelp: 'Leaving later than this after the booking ends adds an overstay fee at your rates.',
+  },
+  bookings: {
+    unknownSpot: 'Unknown Spot',
+    qrFailed: 'Could not load the QR code. Please use your PIN.',
+    cancelledByHost: 'Cancelled by the host on {time}',
+    cancelledByYou: 'Cancelled by you on {time}',
+    refundIssued: 'Refund of {amount} issued to your card',
+    refundDue: 'Refund of {amount} due from the host',
+    extensionPending: 'Extension of {duration} requested, awaiting host approval',
+    extensionApproved: 'Extended by {duration} until {time}',
+    extensionDeclined: 'Extension declined',
+    slipFailed: 'Failed to submit payment slip. Please try again.',
+    paidByCard: 'Paid by card',
+    awaitingPayment: 'Awaiting payment',
+    slipSubmitted: 'Payment slip submitted, awaiting host review',
+    paymentApproved: 'Payment approved',
+    slipRejected: 'Payment slip rejected',
+    uploadNewSlip: 'Please upload a new slip.',
+    noVehicle: 'Vehicle info not available',
+    notAvailable: 'N/A',
+    checkedIn: 'Checked in {time}',
+    checkedOut: 'Checked out {time}',
+    overstaying: 'Your booking ended {duration} ago. Please move your car.',
+    extensionRejections: {
+      booking_cancelled: 'Booking cancelled',
+    },
+    chargeStatus: {
+      unpaid: 'Unpaid',
+      paid: 'Paid',
+      waived: 'Waived',
+    },
+    pay: 'Pay',
+    viewQr: 'View QR Code',
+    extend: 'Extend',
+    uploadPayment: 'Upload Payment',
+    history: 'History',
+    emptyTitle: 'No bookings yet',
+    emptyText: 'Book your parking spot now.',
+    qrTitle: 'Booking QR Code',
+    bookingId: 'Booking ID: {id}',
+    pin: 'PIN: {pin}',
+    validBetween: 'Valid {start} to {end}',
+    payTitle: 'Pay for Your Booking',
+    payText: 'After paying, upload your transfer slip for the host to confirm.',
+    slipAlt: 'Payment Slip',
+    submitSlip: 'Submit for Review',
+    submitting: 'Submitting...',
+    extendTitle: 'Extend Your Booking',
+    cancelTitle: 'Cancel Your Booking',
+    historyTitle: 'Booking History',
+  },
+  notifications: {
+    unread: '{count} unread',
+    allTypes: 'All Types',
+    unreadOnly: 'Unread only',
+    noMatches: 'No notifications match these filters',
+    types: {
+      booking_reminder: 'Bookings',
+      extension_reminder: 'Extensions',
+      owner_notification: 'Hosting',
+      system: 'Account',
+      promotion: 'Promotions',
+    },
+  },
+  settings: {
+    push: 'Push Notifications',
+    pushText: 'Booking start and end, extension and payment updates on this device.',
+    pushUnsupported: 'This browser does not support push notifications.',
+    pushEnableFailed: 'Could not enable push notifications',
+    pushDisableFailed: 'Could not disable push notifications',
+    email: 'Email Notifications',
+    emailText: 'Booking confirmations, cancellations, payment receipts and review requests.',
+    bookingReminders: 'Booking Reminders',
+    bookingRemindersText: 'Before your parking starts, and if you stay past your booking.',
+    extensionReminders: 'Extension Reminders',
+    extensionRemindersText: 'Before your parking ends, so you can extend it in time.',
+    sendMe: 'Send me',
+    channels: {
+      email: 'Email',
+      push: 'Push',
+    },
+    topics: {
+      booking_confirmed: 'Booking confirmations',
+      booking_cancelled: 'Cancellations',
+      payment_approved: 'Approved payments',
+      review_request: 'Review requests',
+      booking_reminders: 'Start, end and overstay reminders',
+      extension_updates: 'Extension requests and decisions',
+    },
+    topicByChannel: '{topic} by {channel}',
+    privacy: 'Privacy',
+    privacyMode: 'Privacy Mode',
+    privacyModeText: 'Show others only your first name and initial, without your photo, bio or phone.',
+    showEmail: 'Show Email',
+    showEmailText: 'Control whether your email is visible to others.',
+    show: 'Show',
+    hide: 'Hide',
+    appearance: 'Appearance',
+    appearanceText: 'Customize the look and feel of the app.',
+    theme: 'Theme',
+    selectTheme: 'Select theme',
+    themes: {
+      light: 'Light',
+      dark: 'Dark',
+      system: 'System',
+    },
+    selectLanguage: 'Select language',
+    languageText: 'Choose your preferred language.',
+    save: 'Save Settings',
+    saved: 'Settings Saved',
+    savedText: 'Your settings have been successfully saved.',
+    notSaved: 'Settings not saved',
+    tryAgain: 'Please try again.',
+  },
+  profile: {
+    title: 'Profile Information',
+    fullName: 'Full Name',
+    email: 'Email',
+    phone: 'Phone Number',
+    promptPayId: 'PromptPay ID',
+    promptPayPlaceholder: 'Mobile number or national ID',
+    promptPayHelp: 'Guests scan a PromptPay QR for the exact booking amount',
+    invalidPromptPay: 'Invalid PromptPay ID',
+    invalidPromptPayText: 'Enter the 10-digit mobile number or 13-digit national ID registered with PromptPay',
+    accountType: 'Account Type',
+    customer: 'Customer',
+    owner: 'Parking Owner',
+    updated: 'Profile Updated',
+    updatedText: 'Your profile has been successfully updated',
+    updateFailed: 'Failed to update profile',
+    myVehicles: 'My Vehicles ({count})',
+    addVehicle: 'Add Vehicle',
+    addNewVehicle: 'Add New Vehicle',
+    make: 'Make',
+    makePlaceholder: 'e.g., Toyota',
+    model: 'Model',
+    modelPlaceholder: 'e.g., Camry',
+    licensePlate: 'License Plate',
+    licensePlatePlaceholder: 'e.g., ABC123',
+    color: 'Color',
+    colorPlaceholder: 'e.g., Blue',
+    missingInfo: 'Missing Information',
+    missingInfoText: 'Please fill in all required fields',
+    vehicleAdded: 'Vehicle Added',
+    vehicleAddedText: 'Your vehicle has been successfully added',
+    addVehicleFailed: 'Failed to add vehicle',
+    vehicleRemoved: 'Vehicle Removed',
+    vehicleRemovedText: 'Your vehicle has been successfully removed',
+    deleteVehicleFailed: 'Failed to delete vehicle',
+    noVehicles: 'No vehicles added',
+    noVehiclesText: 'Add your vehicle information to make booking easier',
+  },
+  spotForm: {
+    backToDashboard: 'Back to Dashboard',
+    addTitle: 'Add New Parking Spot',
+    addSubmit: 'Add Parking Spot',
+    editTitle: 'Edit Parking Spot',
+    editSubtitle: 'Update your parking spot information and settings',
+    enabled: 'Enabled',
+    disabled: 'Disabled',
+    basicInfo: 'Basic Information',
+    name: 'Name',
+    spotName: 'Parking Spot Name',
+    description: 'Description',
+    address: 'Address',
+    location: 'Location',
+    fullAddress: 'Full Address',
+    coordinates: 'Coordinates',
+    setCoordinates: 'Set Coordinates',
+    latLng: 'Latitude: {lat}, Longitude: {lng}',
+    totalSlots: 'Total Slots',
+    totalParkingSlots: 'Total Parking Slots',
+    spotType: 'Spot Type',
+    selectSpotType: 'Select spot type',
+    spotTypes: {
+      driveway: 'Driveway',
+      garage: 'Garage',
+      street: 'Street',
+      lot: 'Lot',
+      covered: 'Covered',
+    },
+    pricingCapacity: 'Pricing & Capacity',
+    currency: 'Currency',
+    currencyHint: 'Bookings already made keep the currency they were made in.',
+    hourlyRate: 'Hourly Rate',
+    dailyRate: 'Daily Rate',
+    dailyRateOptional: 'Daily Rate (optional)',
+    pricingRules: 'Pricing Rules',
+    autoApprove: 'Approve extensions automatically',
+    autoApproveText: 'Guests can stay longer without waiting for you when a slot is free during opening hours.',
+    amenityOptions: {
+      securityCamera: 'Security Camera',
+      twentyFourSevenAccess: '24/7 Access',
+      coveredParking: 'Covered Parking',
+      electricVehicleCharging: 'Electric Vehicle Charging',
+    },
+    images: 'Images',
+    imageAlt: 'Parking spot {number}',
+    addImage: 'Add Image',
+    imageUrlPrompt: 'Enter image URL:',
+    openingHours: 'Opening Hours',
+    operatingHours: 'Operating Hours',
+    saveChanges: 'Save Changes',
+    updated: 'Parking spot updated successfully!',
+    updateFailed: 'Failed to update parking spot. Please try again.',
+    confirmDelete: 'Are you sure you want to delete this parking spot? This action cannot be undone.',
+    deleted: 'Parking spot deleted successfully!',
+    deleteFailed: 'Failed to delete parking spot. Please try again.',
+  },
+  manageAvailability: {
+    title: 'Manage Availability',
+    availableSlots: 'Available Slots',
+    currentStatus: 'Current Status',
+    totalSlotsLabel: 'Total Slots:',
+    availableSlotsLabel: 'Available Slots:',
+    occupiedSlotsLabel: 'Occupied Slots:',
+    occupancyRate: 'Occupancy Rate:',
+    nextFreeSlot: 'Next Free Slot:',
+    noneIn90Days: 'None in the next 90 days',
+    updated: 'Availability updated successfully',
+    updateFailed: 'Failed to update availability',
+    loadFailed: 'Failed to load availability information',
+    activeBookings: 'Active Bookings ({count})',
+    upcomingBookings: 'Upcoming Bookings ({count})',
+    bookingNumber: 'Booking #{id}',
+    active: 'Active',
+    noActive: 'No active bookings',
+    noUpcoming: 'No upcoming bookings',
+    moreBookings: '+{count} more bookings',
+    blockedDates: 'Blocked Dates',
+    from: 'From',
+    until: 'Until',
+    reason: 'Reason',
+    blockTypes: {
+      maintenance: 'Maintenance',
+      blocked: 'Blocked',
+      reserved: 'Personal use',
+    },
+    slotsToBlock: 'Slots to block',
+    closesSpot: 'Closes the whole spot',
+    reducesCapacity: 'Reduces capacity',
+    repeat: 'Repeat',
+    recurrences: {
+      none: 'Does not repeat',
+      daily: 'Every day',
+      weekly: 'Every week',
+    },
+    repeatUntil: 'Repeat until (optional)',
+    repeatsUntil: 'until {date}',
+    note: 'Note',
+    notePlaceholder: 'e.g., Resurfacing the driveway',
+    addBlock: 'Add Block',
+    invalidBlock: 'Invalid Block',
+    invalidBlockText: 'Choose an end time after the start time',
+    blockAdded: 'Block Added',
+    blockAddedText: 'Guests can no longer book the blocked slots for that period',
+    addBlockFailed: 'Failed to add availability block',
+    removeBlockFailed: 'Failed to remove availability block',
+    wholeSpot: 'Whole spot',
+    slotCount: '{count} slots',
+    noBlocks: 'No blocked dates',
+  },
+  hostDashboard: {
+    title: 'Parking Owner Dashboard',
+    subtitle: 'Manage your parking spots and monitor performance',
+    loading: 'Loading dashboard...',
+    tabs: {
+      home: 'Home',
+      dashboard: 'Dashboard',
+      spots: 'My Spots',
+      bookings: 'Bookings',
+      payments: 'Payments',
+      reviews: 'Reviews',
+    },
+    todaysRevenue: "Today's Revenue",
+    approxAmount: '≈ {amount}',
+    activeBookings: 'Active Bookings',
+    totalSpots: 'Total Spots',
+    avgRating: 'Avg Rating',
+    scannerText: 'Scan customer QR codes or enter PIN for parking entry validation',
+    openScanner: 'Open Scanner',
+    todaysBookings: "Today's Bookings",
+    noBookingsToday: 'No bookings today',
+    quickActions: 'Quick Actions',
+    revenueTrend: 'Revenue Trend',
+    revenueChart: 'Revenue chart would be here',
+    bookingDistribution: 'Booking Distribution',
+    bookingDistributionChart: 'Booking distribution chart',
+    mySpots: 'My Parking Spots',
+    addNewSpot: 'Add New Spot',
+    active: 'Active',
+    inactive: 'Inactive',
+    slotsAvailable: '{available}/{total} available',
+    noSpots: 'No parking spots yet',
+    noSpotsText: 'Create your first parking spot to start earning revenue.',
+    addFirstSpot: 'Add Your First Spot',
+  },
+  hostBookings: {
+    title: 'Booking Management',
+    searchPlaceholder: 'Search by spot name or customer...',
+    allStatus: 'All Status',
+    export: 'Export',
+    columns: {
+      booking: 'Booking',
+      customer: 'Customer',
+      spot: 'Spot',
+      duration: 'Duration',
+      amount: 'Amount',
+      status: 'Status',
+      actions: 'Actions',
+    },
+    unknown: 'Unknown',
+    in: 'In {time}',
+    out: 'Out {time}',
+    overstay: 'Overstay {duration}',
+    extensionRequested: 'Extension requested: +{duration} until {time} ({amount})',
+    charge: '+{amount} {kind} ({status})',
+    chargeKinds: {
+      overstay: 'overstay',
+      extension: 'extension',
+    },
+    refund: '-{amount} refund',
+    approveExtension: 'Approve extension',
+    declineExtension: 'Decline extension',
+    checkOut: 'Check out',
+    confirmCancel: 'Cancel this booking?',
+    confirmCancelRefund: 'Cancel this booking? The guest will be refunded {amount}.',
+    cancelReasonPrompt: 'Reason for cancelling (shown to the guest):',
+    declineReasonPrompt: 'Reason for declining (shown to the guest):',
+    noneFound: 'No bookings found',
+    adjustFilters: 'Try adjusting your filters',
+    noneYet: 'No bookings have been made yet',
+  },
+  hostReviews: {
+    title: 'Reviews & Feedback',
+    averageRating: 'Average Rating',
+    totalReviews: 'Total Reviews',
+    thisMonth: 'This Month',
+    allSpots: 'All Spots',
+    anonymous: 'Anonymous',
+    replyPlaceholder: 'Reply to this review...',
+    reply: 'Reply',
+    noReviews: 'No reviews yet',
+    noReviewsForSpot: 'No reviews for the selected spot',
+    noReviewsText: 'Reviews will appear here once customers start rating your spots',
+  },
+  hostPayments: {
+    title: 'Payment Review',
+    statuses: {
+      submitted: 'Awaiting review',
+      approved: 'Approved',
+      rejected: 'Rejected',
+    },
+    all: 'All',
+    noPdfPreview: 'This browser cannot preview PDFs inline.',
+    openOriginal: 'Open original',
+    guest: 'Guest',
+    amountDue: 'Amount due',
+    reference: 'Reference',
+    rejectionReason: 'Rejection reason',
+    rejectPlaceholder: 'Reason for rejection (shown to the guest)',
+    reasonRequired: 'Please give the guest a reason for the rejection',
+    reviewFailed: 'Failed to review payment. Please try again.',
+    approve: 'Approve & Confirm Booking',
+    reject: 'Reject',
+    noneFound: 'No payments found',
+    noneWaiting: 'No payment slips are waiting for review',
+    tryOtherFilter: 'Try a different filter',
+  },
+  changeToasts: {
+    newBooking: 'New booking',
+    newBookingText: 'A guest booked your spot for {date}.',
+    cancelled: 'Booking cancelled',
+    cancelledByGuest: 'A guest cancelled their booking for {date}.',
+    cancelledByHost: 'The host cancelled your booking for {date}.',
+    confirmed: 'Booking confirmed',
+    confirmedText: 'Your booking for {date} is confirmed.',
+    slipReceived: 'Payment slip received',
+    slipReceivedText: 'A guest sent a {amount} slip for you to review.',
+    paymentApproved: 'Payment approved',
+    paymentApprovedText: 'The host approved your payment slip.',
+    slipRejected: 'Payment slip rejected',
+    slipRejectedText: 'The host rejected your payment slip. Please upload a new one.',
+    newReview: 'New review',
+    newReviewText: 'A guest left a {rating}★ review.',
+  },
+  errors: {
+    unexpected: 'Something went wrong. Please try again.',
+    bookingConflict: 'This spot is fully booked for the selected time',
+    spotClosed: 'This spot is closed during part of the selected time',
+    quoteMismatch: 'The price for this booking has changed',
+    pushBlocked: 'Notifications are blocked in this browser',
+    access: {
+      invalid: 'This code is not valid',
+      not_found: 'No booking matches this code',
+      not_yet_valid: 'This booking cannot be used for entry yet',
+      expired: 'This booking has expired',
+      inactive: 'This booking has been cancelled or completed',
+      already_used: 'This code has already been used for entry',
+      rate_limited: 'Too many failed attempts. Please wait a few minutes and try again',
+      not_permitted: 'You are not allowed to do this for this booking',
+    },
+    paymentState: {
+      booking_paid: 'This booking has already been paid',
+      booking_not_pending: 'Only pending bookings can be paid',
+      amount_mismatch: 'The payment amount does not match the booking total',
+      slip_pending: 'A payment slip for this booking is already awaiting review',
+      already_reviewed: 'This payment has already been reviewed',
+      charge_paid: 'This charge has already been paid',
+      charge_waived: 'This charge has been waived',
+      charge_amount_mismatch: 'The payment amount does not match the charge',
+      wrong_payment: 'The refund is for a different payment',
+      invalid_state: 'This payment cannot be changed in its current state',
+    },
+    bookingState: {
+      not_allowed: 'A {from} booking cannot be marked {to}',
+      host_only: 'Only the host can mark this booking {to}',
+      guest_only: 'Only the guest can mark this booking {to}',
+      parties_only: 'Only the guest or host can mark this booking {to}',
+      automatic: 'This booking is marked {to} automatically',
+      not_extendable: 'Only confirmed or checked-in bookings can be extended',
+      not_checked_in: 'Only a checked-in booking can be checked out',
+      not_cancellable: 'Only pending or confirmed bookings can be cancelled',
+      invalid_state: 'This booking cannot be changed in its current state',
+    },
+    extensionState: {
+      no_end_time: 'Choose a new end time',
+      end_not_later: 'The new end time must be after the current one',
+      end_in_past: 'The new end time must be in the future',
+      already_pending: 'An extension for this booking is already awaiting the host',
+      already_reviewed: 'This extension has already been reviewed',
+      booking_changed: 'The booking has changed since this extension was requested',
+      invalid_state: 'This extension cannot be changed in its current state',
+    },
+  },
+  notificationTexts: {
+    bookingCreated: { title: 'New booking', message: 'A guest booked {spot}.' },
+    bookingConfirmed: { title: 'Booking confirmed', message: 'Your booking at {spot} is confirmed.' },
+    reviewRequest: {
+      title: 'How was your stay?',
+      message: 'Thanks for parking at {spot}. Leave a review to help other drivers.',
+    },
+    startingSoon: {
+      title: 'Parking starting soon',
+      message: 'Your parking at {spot} starts soon. Show your QR code or PIN at the entrance.',
+    },
+    endingSoon: {
+      title: 'Parking ending soon',
+      message: 'Your parking at {spot} ends soon. Need longer? Request an extension from My Bookings.',
+    },
+    guestReviewPosted: { title: 'New review', message: 'A guest rated {spot} {rating}★.' },
+    hostReviewPosted: { title: 'New review', message: 'The host of {spot} rated your stay {rating}★.' },
+    cancelledByGuest: { title: 'Booking cancelled by guest', message: 'A booking at {spot} was cancelled.' },
+    cancelledByHost: {
+      title: 'Booking cancelled by host',
+      message: 'Your booking at {spot} was cancelled by the host.',
+    },
+    paymentApproved: { title: 'Payment approved', message: 'The host of {spot} approved your {amount} payment.' },
+    extensionRequested: {
+      title: 'Extension requested',
+      message: 'A guest at {spot} asked to stay {duration} longer for {amount}.',
+    },
+    extensionApproved: {
+      title: 'Extension approved',
+      message: 'Your booking at {spot} now runs {duration} longer. Please pay the extra {amount} from My Bookings.',
+    },
+    extensionDeclined: {
+      title: 'Extension declined',
+      message: 'Your request to stay longer at {spot} was declined.',
+    },
+    overstayCharged: {
+      title: 'Overstay fee added',
+      message: 'You stayed {duration} past the booked end time at {spot}. An extra charge of {amount} has been added to your booking.',
+    },
+    overstayChargedHost: {
+      title: 'Overstay fee charged',
+      message: 'A guest stayed {duration} past the booked end time at {spot} and has been charged {amount}.',
+    },
+    overstayApplies: {
+      title: 'Overstay fee applies',
+      message: 'Your booking at {spot} has ended. An overstay fee will be charged when you leave unless you extend your booking from My Bookings.',
+    },
+    guestOverstaying: {
+      title: 'Guest overstaying',
+      message: 'A car at {spot} is still parked after its booking ended. An overstay fee will be added at check-out.',
+    },
+    extras: {
+      refundDue: 'A refund of {refund} is due to the guest.',
+      reason: 'Reason: {reason}',
+    },
+  },
+  emails: {
+    greeting: 'Hi {name},',
+    viewBooking: 'View booking',
+    leaveReview: 'Leave a review',
+    qrAlt: 'Entry QR code',
+    details: {
+      spot: 'Spot',
+      address: 'Address',
+      from: 'From',
+      until: 'Until',
+      total: 'Total',
+      entryPin: 'Entry PIN',
+      refund: 'Refund',
+      amount: 'Amount',
+      reference: 'Reference',
+    },
+    booking_confirmed: { subject: 'Booking confirmed: {spot}', heading: 'Your booking is confirmed' },
+    booking_cancelled: { subject: 'Booking cancelled: {spot}', heading: 'A booking was cancelled' },
+    payment_approved: { subject: 'Payment approved: {spot}', heading: 'Your payment was approved' },
+    review_request: { subject: 'How was your stay at {spot}?', heading: 'How was your stay?' },
+  },
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,1032 @@
+import { Messages } from './en';
+
+// Thai messages. Typed against the English catalog, so a missing key fails
+// to compile.
+export const th: Messages = {
+  common: {
+    appName: 'ParkPass',
+    language: 'ภาษา',
+    loading: 'กำลังโหลด...',
+    save: 'บันทึก',
+    saving: 'กำลังบันทึก...',
+    cancel: 'ยกเลิก',
+    close: 'ปิด',
+    delete: 'ลบ',
+    edit: 'แก้ไข',
+    back: 'ย้อนกลับ',
+    retry: 'ลองอีกครั้ง',
+    processing: 'กำลังดำเนินการ...',
+    pleaseWait: 'กรุณารอสักครู่...',
+    perHour: '{price}/ชั่วโมง',
+    perHourUnit: '/ชั่วโมง',
+    perDay: '{price}/วัน',
+    error: 'ข้อผิดพลาด',
+    success: 'สำเร็จ',
+  },
+  landing: {
+    signIn: 'เข้าสู่ระบบ',
+    heroTitle: 'ค้นหา',
+    heroHighlight: 'ที่จอดรถที่ใช่',
+    heroText:
+      'ค้นหาและจองที่จอดรถใกล้คุณ หรือปล่อยเช่าที่จอดของคุณเพื่อสร้างรายได้เสริม ที่จอดรถที่ปลอดภัย สะดวก และราคาเป็นมิตร',
+    findParking: 'หาที่จอดรถ',
+    listSpace: 'ลงประกาศที่จอดของคุณ',
+    whyTitle: 'ทำไมต้อง ParkPass?',
+    whySubtitle: 'วิธีที่ง่ายที่สุดในการจอดรถและสร้างรายได้',
+    locationTitle: 'ค้นหาง่าย',
+    locationText: 'ค้นหาที่จอดรถใกล้จุดหมายของคุณด้วยระบบค้นหาอัจฉริยะ',
+    bookingTitle: 'จองได้ทันที',
+    bookingText: 'จองที่จอดรถได้ในไม่กี่วินาทีด้วยระบบจองที่รวดเร็ว',
+    secureTitle: 'ปลอดภัยและมั่นใจ',
+    secureText: 'ทุกธุรกรรมปลอดภัยและที่จอดรถทุกแห่งผ่านการตรวจสอบ',
+    ratedTitle: 'ได้รับคะแนนสูงสุด',
+    ratedText: 'ร่วมเป็นส่วนหนึ่งของผู้ใช้หลายพันคนที่ไว้วางใจ ParkPass',
+    ctaTitle: 'พร้อมเริ่มต้นหรือยัง?',
+    ctaText: 'สมัคร ParkPass วันนี้ แล้วสัมผัสการจอดรถที่ไม่ยุ่งยาก',
+    ctaButton: 'เริ่มต้นใช้งานเลย',
+    footer: '© 2024 ParkPass ทำให้การจอดรถเป็นเรื่องง่ายและสร้างรายได้',
+  },
+  notFound: {
+    title: 'ขออภัย ไม่พบหน้านี้',
+    home: 'กลับสู่หน้าแรก',
+  },
+  login: {
+    taglineLogin: 'ยินดีต้อนรับกลับสู่อนาคตของการจอดรถ',
+    taglineDriver: 'ค้นหาและจองที่จอดรถได้ทันที',
+    taglineOwner: 'เริ่มสร้างรายได้จากที่จอดรถของคุณ',
+    driver: 'ผู้ขับขี่',
+    driverHint: 'ค้นหาและจองที่จอดรถ',
+    owner: 'เจ้าของที่จอด',
+    ownerHint: 'ลงประกาศที่จอดของคุณ',
+    signIn: 'เข้าสู่ระบบ',
+    createDriver: 'สร้างบัญชีผู้ขับขี่',
+    createOwner: 'สร้างบัญชีเจ้าของที่จอด',
+    introLogin: 'กรอกข้อมูลเพื่อเข้าสู่บัญชีของคุณ',
+    introDriver: 'ร่วมกับผู้ขับขี่หลายพันคนที่ค้นหาที่จอดรถที่ใช่',
+    introOwner: 'เริ่มสร้างรายได้จากที่จอดรถของคุณวันนี้',
+    fullName: 'ชื่อ-นามสกุล',
+    fullNamePlaceholder: 'กรอกชื่อ-นามสกุล',
+    email: 'อีเมล',
+    emailPlaceholder: 'กรอกอีเมลของคุณ',
+    phone: 'เบอร์โทรศัพท์',
+    phonePlaceholder: 'กรอกเบอร์โทรศัพท์',
+    password: 'รหัสผ่าน',
+    passwordPlaceholder: 'กรอกรหัสผ่าน',
+    passwordHint: 'ต้องมีอย่างน้อย 6 ตัวอักษร',
+    confirmPassword: 'ยืนยันรหัสผ่าน',
+    confirmPasswordPlaceholder: 'กรอกรหัสผ่านอีกครั้ง',
+    rememberMe: 'จดจำฉัน',
+    forgotPassword: 'ลืมรหัสผ่าน?',
+    noAccount: 'ยังไม่มีบัญชี?',
+    signUpDriver: 'สมัครเป็นผู้ขับขี่',
+    or: 'หรือ',
+    signUpOwner: 'ลงประกาศที่จอดรถของคุณ',
+    haveAccount: 'มีบัญชีอยู่แล้ว?',
+    signInLink: 'เข้าสู่ระบบ',
+    demoCredentials: 'บัญชีทดลอง',
+    invalidCredentials: 'อีเมลหรือรหัสผ่านไม่ถูกต้อง',
+    passwordMismatch: 'รหัสผ่านไม่ตรงกัน',
+    passwordTooShort: 'รหัสผ่านต้องมีอย่างน้อย 6 ตัวอักษร',
+    genericError: 'เกิดข้อผิดพลาด กรุณาลองอีกครั้ง',
+  },
+  nav: {
+    home: 'หน้าแรก',
+    notifications: 'การแจ้งเตือน',
+    markAllRead: 'อ่านทั้งหมดแล้ว',
+    noNotifications: 'ยังไม่มีการแจ้งเตือน',
+    viewAllNotifications: 'ดูการแจ้งเตือนทั้งหมด',
+    user: 'ผู้ใช้',
+    profile: 'โปรไฟล์',
+    myBookings: 'การจองของฉัน',
+    dashboard: 'แดชบอร์ด',
+    settings: 'การตั้งค่า',
+    signOut: 'ออกจากระบบ',
+  },
+  userTypes: {
+    guest: 'ผู้ขับขี่',
+    host: 'เจ้าของที่จอด',
+    both: 'ผู้ขับขี่และเจ้าของที่จอด',
+  },
+  home: {
+    loading: 'กำลังโหลดที่จอดรถ...',
+    loadError: 'โหลดที่จอดรถไม่สำเร็จ: {error}',
+    heroTitle: 'ค้นหาที่จอดรถที่ใช่สำหรับคุณ',
+    heroText: 'จองที่จอดรถส่วนตัวจากเจ้าของที่จอดในพื้นที่ของคุณ',
+    where: 'สถานที่',
+    locationPlaceholder: 'กรอกสถานที่',
+    search: 'ค้นหา',
+    searchPlaceholder: 'ค้นหาที่จอดรถ...',
+    availableSpots: 'ที่จอดรถที่ว่าง',
+    spotFound: 'พบ {count} แห่ง',
+    spotsFound: 'พบ {count} แห่ง',
+    moreAmenities: '+อีก {count}',
+    noSpots: 'ไม่พบที่จอดรถ',
+    noSpotsHint: 'ลองปรับเงื่อนไขการค้นหา หรือกลับมาดูประกาศใหม่ภายหลัง',
+    ctaTitle: 'มีที่จอดรถให้เช่าหรือไม่?',
+    ctaText: 'เริ่มสร้างรายได้ด้วยการแบ่งปันที่จอดรถที่ไม่ได้ใช้ให้ผู้อื่น',
+    ctaButton: 'ลงประกาศที่จอดของคุณ',
+  },
+  availability: {
+    checking: 'กำลังตรวจสอบที่ว่าง...',
+    noneSoon: 'ไม่มีที่ว่างในอีก 90 วันข้างหน้า',
+    now: 'ว่างตอนนี้',
+    today: 'ว่างครั้งถัดไปวันนี้ เวลา {time}',
+    tomorrow: 'ว่างครั้งถัดไปพรุ่งนี้ เวลา {time}',
+    later: 'ว่างครั้งถัดไป {date} เวลา {time}',
+  },
+  schedule: {
+    closed: 'ปิด',
+    open24Hours: 'เปิด 24 ชั่วโมง',
+    openUntil: 'เปิดอยู่ · ปิดเวลา {time}',
+    closedUntil: 'ปิดอยู่ · เปิด {time}',
+    unknownTimezone: 'ไม่รู้จักเขตเวลา "{timezone}"',
+    noHours: '{day}เปิดแต่ไม่ได้ระบุเวลา',
+    invalidTime: '{day}มีเวลาที่ไม่ถูกต้อง',
+    overlapping: '{day}มีช่วงเวลาที่ซ้อนกัน',
+  },
+  spot: {
+    available: 'ว่าง',
+    unavailable: 'ไม่ว่าง',
+    notAvailable: 'ไม่ว่าง',
+    bookNow: 'จองเลย',
+  },
+  spotDetail: {
+    notFound: 'ไม่พบที่จอดรถ',
+    notFoundText: 'ไม่มีที่จอดรถที่คุณกำลังค้นหา',
+    ratingSummary: '{rating} ({count} รีวิว)',
+    perHour: 'ต่อชั่วโมง',
+    slotsAvailable: 'ว่าง {available}/{total} ช่อง',
+    description: 'รายละเอียด',
+    openingHours: 'เวลาทำการ',
+    timezone: 'แสดงเวลาตามเขตเวลา {timezone}',
+    amenities: 'สิ่งอำนวยความสะดวก',
+    reviews: 'รีวิว ({count})',
+    guest: 'ผู้เข้าพัก',
+    noReviews: 'ยังไม่มีรีวิว มาเป็นคนแรกที่รีวิวที่จอดนี้!',
+    spotsAvailable: 'ว่าง {count} ช่อง',
+    full: 'เต็มแล้ว',
+    plenty: 'มีที่ว่างเหลือเฟือ',
+    limited: 'ที่ว่างมีจำกัด',
+    checkBack: 'กลับมาตรวจสอบภายหลัง',
+    freeTimes: 'ช่วงเวลาว่าง',
+    noFreeTimes: 'ไม่มีช่วงเวลาว่างในวันนี้',
+    chargeNotice: 'คุณจะยังไม่ถูกเรียกเก็บเงินจนกว่าการจองจะได้รับการยืนยัน',
+  },
+  scheduleEditor: {
+    timezone: 'เขตเวลา',
+    timezonePlaceholder: 'เช่น Asia/Bangkok',
+    alwaysOpen: 'เปิด 24 ชั่วโมงทุกวัน',
+    daily: 'ทุกวัน {open} - {close}',
+    to: 'ถึง',
+    allDay: 'ทั้งวัน',
+    nextDay: 'วันถัดไป',
+    addHours: 'เพิ่มช่วงเวลา',
+  },
+  availabilityCalendar: {
+    blockedSlots: '-{count} ช่อง',
+  },
+  searchFilters: {
+    placeholder: 'ค้นหาตามสถานที่ ที่อยู่ หรือชื่อที่จอดรถ...',
+    findNearMe: 'ค้นหาใกล้ฉัน',
+    nearMe: 'ใกล้ฉัน',
+    filters: 'ตัวกรอง',
+    filterOptions: 'ตัวเลือกการกรอง',
+    clearAll: 'ล้างทั้งหมด',
+    priceRange: 'ช่วงราคา (ต่อชั่วโมง)',
+    parkingType: 'ประเภทที่จอด',
+    types: {
+      all: 'ทุกประเภท',
+      covered: 'มีหลังคา',
+      open: 'กลางแจ้ง',
+      valet: 'บริการรับจอดรถ',
+      garage: 'โรงจอดรถ',
+    },
+    sortBy: 'เรียงตาม',
+    sort: {
+      distance: 'ระยะทาง',
+      price_low: 'ราคา: ต่ำไปสูง',
+      price_high: 'ราคา: สูงไปต่ำ',
+      rating: 'คะแนนสูงสุด',
+      availability: 'ว่างมากที่สุด',
+    },
+    availability: 'สถานะว่าง',
+    availableOnly: 'เฉพาะที่จอดที่ว่าง',
+    amenities: 'สิ่งอำนวยความสะดวก',
+    activeFilters: 'ตัวกรองที่ใช้อยู่:',
+    priceChip: 'ราคา: {min}-{max}',
+    typeChip: 'ประเภท: {type}',
+    sortChip: 'เรียง: {sort}',
+    availableOnlyChip: 'เฉพาะที่ว่าง',
+  },
+  cancellation: {
+    policies: {
+      flexible: 'ยืดหยุ่น',
+      moderate: 'ปานกลาง',
+      strict: 'เข้มงวด',
+      custom: 'กำหนดเอง',
+    },
+    policyName: 'นโยบายการยกเลิกแบบ{policy}',
+    fullRefund: 'คืนเงินเต็มจำนวน',
+    partialRefund: 'คืนเงิน {percent}%',
+    refundWithNotice: '{refund} หากยกเลิกก่อนเวลาเริ่มอย่างน้อย {hours} ชั่วโมง',
+    refundBeforeStart: '{refund} หากยกเลิกก่อนเวลาเริ่ม',
+    noRefundAfter: 'หลังจากนั้นไม่คืนเงิน',
+    noRefund: 'ไม่คืนเงินเมื่อยกเลิก',
+    errors: {
+      noTiers: 'เพิ่มเงื่อนไขการคืนเงินอย่างน้อยหนึ่งข้อสำหรับนโยบายแบบกำหนดเอง',
+      negativeNotice: 'เงื่อนไขการคืนเงินต้องแจ้งล่วงหน้าตั้งแต่ 0 ชั่วโมงขึ้นไป',
+      percentRange: 'การคืนเงินต้องอยู่ระหว่าง 0% ถึง 100%',
+      duplicateNotice: 'แต่ละเงื่อนไขการคืนเงินต้องมีระยะเวลาแจ้งล่วงหน้าต่างกัน',
+    },
+  },
+  pricing: {
+    lineItems: {
+      monthly: 'บัตรรายเดือน',
+      standard: 'อัตราปกติ',
+      peak: 'อัตราช่วงเวลาเร่งด่วน',
+      weekend: 'อัตราวันหยุดสุดสัปดาห์',
+      daily_cap: 'สูงสุดต่อวัน',
+      monthly_cap: 'สูงสุดต่อเดือน',
+    },
+    quoteItems: {
+      base: 'ค่าที่จอดรถ',
+      discount: 'โปรโมชัน {code}',
+      service_fee: 'ค่าบริการ',
+      tax: 'ภาษีมูลค่าเพิ่ม ({rate}%)',
+    },
+    errors: {
+      peakTimes: 'กำหนดทั้งเวลาเริ่มและเวลาสิ้นสุดของอัตราช่วงเวลาเร่งด่วน',
+      peakSameTime: 'ช่วงเวลาเร่งด่วนต้องมีเวลาเริ่มและสิ้นสุดต่างกัน',
+      graceTooLong: 'ระยะผ่อนผันต้องน้อยกว่าหนึ่งชั่วโมง',
+      overstayNegative: 'ระยะผ่อนผันการจอดเกินเวลาต้องไม่ติดลบ',
+    },
+  },
+  booking: {
+    loadFailed: 'โหลดข้อมูลการจองไม่สำเร็จ',
+    missingInfo: 'ข้อมูลไม่ครบถ้วน',
+    missingInfoText: 'กรุณากรอกข้อมูลที่จำเป็นให้ครบ',
+    reserved: 'จองที่จอดไว้แล้ว',
+    reservedText: 'ชำระเงินเพื่อยืนยันการจองของคุณ',
+    fullyBooked: 'ที่จอดเต็มแล้ว',
+    fullyBookedText: 'ที่จอดนี้ถูกจองเต็มในช่วงเวลาที่เลือก',
+    priceUpdated: 'ราคามีการเปลี่ยนแปลง',
+    priceUpdatedText: 'ราคาเปลี่ยนไปจากที่คุณเห็น กรุณาตรวจสอบยอดรวมใหม่ก่อนจอง',
+    promoRemoved: 'นำโค้ดโปรโมชันออกแล้ว',
+    spotClosed: 'ที่จอดปิดทำการ',
+    spotClosedText: 'ที่จอดนี้ปิดทำการในบางช่วงของเวลาที่เลือก เวลาทำการ: {hours}',
+    failed: 'จองไม่สำเร็จ',
+    failedText: 'สร้างการจองไม่สำเร็จ กรุณาลองอีกครั้ง',
+    confirmed: 'ยืนยันการจองแล้ว!',
+    confirmedText: 'ได้รับการชำระเงินแล้ว ที่จอดรถของคุณถูกจองเรียบร้อย',
+    pending: 'การจองรอดำเนินการ',
+    pendingText: 'อัปโหลดสลิปการโอนเงินจากหน้าการจองของฉันเพื่อยืนยัน',
+    hostedBy: 'ให้บริการโดย {name}',
+    slotsAvailable: 'ว่าง {available}/{total}',
+    price: 'ราคา',
+    peakRate: 'ช่วงเร่งด่วน (วันธรรมดา {start} - {end}): {price}/ชั่วโมง',
+    weekendRate: 'วันหยุดสุดสัปดาห์: {price}/ชั่วโมง',
+    dailyMax: 'สูงสุดต่อวัน: {price}',
+    monthly: 'รายเดือน: {price}',
+    minimumStay: 'จอดขั้นต่ำ: {minutes} นาที',
+    gracePeriod: 'ระยะผ่อนผัน {minutes} นาที',
+    overstayAfter: 'คิดค่าจอดเกินเวลาหลังเลยเวลาสิ้นสุด {minutes} นาที',
+    completePayment: 'ชำระเงิน',
+    slotHeld: '{range} ระบบกันที่จอดไว้ให้คุณแล้ว การจองจะได้รับการยืนยันเมื่อชำระเงินสำเร็จ',
+    bookThisSpot: 'จองที่จอดนี้',
+    selectVehicle: 'เลือกรถ',
+    chooseVehicle: 'เลือกรถของคุณ',
+    startDate: 'วันที่เริ่ม',
+    startTime: 'เวลาเริ่ม',
+    endDate: 'วันที่สิ้นสุด',
+    endTime: 'เวลาสิ้นสุด',
+    promoCode: 'โค้ดโปรโมชัน',
+    promoPlaceholder: 'กรอกโค้ด',
+    apply: 'ใช้โค้ด',
+    promoApplied: 'ใช้โค้ด {code} แล้ว',
+    totalCost: 'ยอดรวม',
+    noSlots: 'ไม่มีช่องจอดว่างในเวลานี้',
+    suggestions: 'ช่วงเวลาเหล่านี้ยังว่างอยู่:',
+    tryAnotherTime: 'กรุณาเลือกวันหรือเวลาอื่น',
+    secure: 'การจองที่ปลอดภัย',
+    secureText: 'การจองของคุณได้รับการคุ้มครอง และคุณจะได้รับ QR code สำหรับเข้าที่จอด',
+    bookNow: 'จองเลย - {total}',
+  },
+  promo: {
+    problems: {
+      not_found: 'ไม่มีโค้ดโปรโมชันนี้',
+      inactive: 'โค้ดโปรโมชันนี้ไม่สามารถใช้งานได้แล้ว',
+      not_started: 'โค้ดโปรโมชันนี้ยังไม่เริ่มใช้งาน',
+      expired: 'โค้ดโปรโมชันนี้หมดอายุแล้ว',
+      wrong_spot: 'ไม่สามารถใช้โค้ดโปรโมชันนี้กับที่จอดนี้ได้',
+      wrong_currency: 'ไม่สามารถใช้โค้ดโปรโมชันนี้กับราคาในสกุลเงินนี้ได้',
+      below_minimum: 'ยอดการจองนี้ต่ำกว่ายอดขั้นต่ำของโค้ดโปรโมชัน',
+      usage_limit: 'โค้ดโปรโมชันนี้ถูกใช้ครบจำนวนแล้ว',
+      guest_limit: 'คุณใช้โค้ดโปรโมชันนี้ไปแล้ว',
+    },
+  },
+  cardPayment: {
+    title: 'ชำระด้วยบัตร',
+    cardNumber: 'หมายเลขบัตร',
+    expiry: 'วันหมดอายุ',
+    cvc: 'CVC',
+    testMode: 'โหมดทดสอบ: {success} ชำระสำเร็จ, {declined} ถูกปฏิเสธ',
+    pay: 'ชำระ {amount}',
+    payLater: 'ชำระภายหลังด้วยการโอนเงิน',
+    unavailable: 'ไม่สามารถชำระด้วยบัตรได้ในขณะนี้ กรุณาลองใหม่ภายหลัง',
+    invalidExpiry: 'กรอกวันหมดอายุในรูปแบบ MM/YY',
+    notCharged: 'ไม่สามารถเรียกเก็บเงินจากบัตรของคุณได้',
+    notConfirmed: 'ได้รับการชำระเงินแล้วแต่ยังไม่ได้รับการยืนยัน กรุณาตรวจสอบที่หน้าการจองของฉันในอีกสักครู่',
+    failed: 'ชำระเงินไม่สำเร็จ กรุณาลองอีกครั้ง',
+  },
+  promptPay: {
+    unavailable: 'ไม่สามารถใช้พร้อมเพย์กับการจองนี้ได้ กรุณาติดต่อเจ้าของที่จอดเพื่อขอรายละเอียดการโอนเงิน',
+    scan: 'สแกนด้วยแอปธนาคารไทยใดก็ได้',
+    amount: 'จำนวนเงิน: {amount}',
+  },
+  slipUpload: {
+    title: 'อัปโหลดสลิปการชำระเงิน',
+    instructions: 'วิธีการชำระเงิน:',
+    stepTransfer: 'โอนเงินตามจำนวนที่ระบุไปยังบัญชีรับชำระเงิน',
+    stepScreenshot: 'บันทึกภาพหน้าจอหรือถ่ายรูปหลักฐานการชำระเงิน',
+    stepUpload: 'อัปโหลดสลิปด้านล่างเพื่อตรวจสอบ',
+    stepConfirm: 'การจองจะได้รับการยืนยันเมื่อการชำระเงินได้รับการตรวจสอบแล้ว',
+    uploading: 'กำลังอัปโหลดสลิป...',
+    progress: 'เสร็จแล้ว {percent}%',
+    dropHint: 'ลากสลิปมาวางที่นี่ หรือคลิกเพื่อเลือกไฟล์',
+    supported: 'รองรับ: JPEG, PNG, GIF, PDF (ไม่เกิน 5MB)',
+    uploaded: 'อัปโหลดสลิปเรียบร้อยแล้ว',
+    uploadedText: 'กดส่งด้านล่างเพื่อส่งให้เจ้าของที่จอดตรวจสอบ',
+    replace: 'อัปโหลดไฟล์อื่น',
+    invalidType: 'กรุณาอัปโหลดไฟล์รูปภาพ (JPEG, PNG, GIF) หรือ PDF',
+    tooLarge: 'ขนาดไฟล์ต้องไม่เกิน 5MB',
+    failed: 'อัปโหลดสลิปไม่สำเร็จ กรุณาลองอีกครั้ง',
+  },
+  bookingStatus: {
+    pending: 'รอดำเนินการ',
+    confirmed: 'ยืนยันแล้ว',
+    checked_in: 'เช็คอินแล้ว',
+    completed: 'เสร็จสิ้น',
+    cancelled: 'ยกเลิกแล้ว',
+  },
+  duration: {
+    minutes: '{minutes} นาที',
+    hours: '{hours} ชม.',
+    hoursMinutes: '{hours} ชม. {minutes} นาที',
+  },
+  bookingEvents: {
+    pending: 'จองแล้ว',
+    confirmed: 'ยืนยันแล้ว',
+    checked_in: 'เช็คอินแล้ว',
+    completed: 'เช็คเอาต์แล้ว',
+    cancelled: 'ยกเลิกแล้ว',
+    by: '{event}โดย{actor}',
+    actors: {
+      guest: 'ผู้เช่า',
+      host: 'เจ้าของที่จอด',
+      payment: 'ระบบชำระเงิน',
+    },
+  },
+  extension: {
+    stayLonger: 'อยู่ต่ออีก',
+    newEndTime: 'เวลาสิ้นสุดใหม่: {time}',
+    calculating: 'กำลังคำนวณราคา...',
+    priceFailed: 'ไม่สามารถคำนวณราคาการขยายเวลานี้ได้',
+    baseItem: 'ค่าจอด +{duration}',
+    total: 'รวม',
+    needsApproval: 'เจ้าของที่จอดจะตรวจสอบคำขอของคุณ คุณจะชำระเงินเมื่อได้รับการอนุมัติ',
+    autoApproved: 'ที่จอดนี้อนุมัติการขยายเวลาทันที ชำระเงินได้ที่การจองของฉัน',
+    request: 'ขอขยายเวลา',
+    requesting: 'กำลังส่งคำขอ...',
+    requestFailed: 'ขอขยายเวลาไม่สำเร็จ กรุณาลองอีกครั้ง',
+  },
+  charges: {
+    overstay: 'จอดเกินเวลาที่จองไว้ {duration}',
+    extension: 'ขยายเวลา {duration}',
+  },
+  cancelBooking: {
+    refund: 'เงินคืน ({percent}%)',
+    notPaid: 'การจองนี้ยังไม่ได้ชำระเงิน จึงไม่มีเงินคืน',
+    reason: 'เหตุผล (ไม่บังคับ)',
+    cancel: 'ยกเลิกการจอง',
+    cancelling: 'กำลังยกเลิก...',
+    keep: 'เก็บการจองไว้',
+    failed: 'ยกเลิกการจองไม่สำเร็จ กรุณาลองอีกครั้ง',
+  },
+  bookingTimeline: {
+    loading: 'กำลังโหลดประวัติ...',
+    empty: 'ยังไม่มีประวัติของการจองนี้',
+  },
+  scanner: {
+    title: 'ตรวจสอบการเข้าจอด',
+    qrCode: 'คิวอาร์โค้ด',
+    pin: 'PIN',
+    startingCamera: 'กำลังเปิดกล้อง...',
+    torchOn: 'เปิดไฟฉาย',
+    torchOff: 'ปิดไฟฉาย',
+    switchCamera: 'สลับกล้อง',
+    scanImage: 'สแกนจากรูปภาพ',
+    enterManually: 'หรือกรอกรหัสด้วยตนเอง:',
+    pastePlaceholder: 'วางรหัสคิวอาร์ที่นี่',
+    validateCode: 'ตรวจสอบรหัส',
+    validatePin: 'ตรวจสอบ PIN',
+    validating: 'กำลังตรวจสอบ...',
+    spot: 'ที่จอด',
+    enterPin: 'กรอก PIN {length} หลัก',
+    validBooking: 'พบการจองที่ถูกต้อง',
+    readyToLeave: 'รถเช็คอินแล้วและพร้อมออก',
+    verified: 'ตรวจสอบรายละเอียดการจองเรียบร้อยแล้ว',
+    customer: 'ลูกค้า:',
+    location: 'สถานที่:',
+    time: 'เวลา:',
+    status: 'สถานะ:',
+    checkedIn: 'เช็คอินเมื่อ:',
+    overstayed: 'จอดเกินเวลา {duration}',
+    totalAmount: 'ยอดรวม:',
+    confirmEntry: 'ยืนยันการเข้า',
+    confirmExit: 'ยืนยันการออก',
+    notFound: 'ไม่พบรายละเอียดการจอง',
+    validateFailed: 'ตรวจสอบรหัสไม่สำเร็จ กรุณาลองอีกครั้ง',
+    noCodeInImage: 'ไม่พบคิวอาร์โค้ดในรูปภาพนี้ ลองใช้รูปที่ชัดขึ้นหรือกรอกรหัสด้วยตนเอง',
+    imageUnreadable: 'ไม่สามารถอ่านรูปภาพนี้ได้ ลองใช้รูปอื่นหรือกรอกรหัสด้วยตนเอง',
+    entryFailed: 'บันทึกการเข้าไม่สำเร็จ กรุณาลองอีกครั้ง',
+    exitFailed: 'บันทึกการออกไม่สำเร็จ กรุณาลองอีกครั้ง',
+    cameraProblems: {
+      unsupported: 'การสแกนด้วยกล้องต้องใช้การเชื่อมต่อที่ปลอดภัย (https) และเบราว์เซอร์ที่รองรับ กรุณากรอกรหัสด้วยตนเอง',
+      blocked: 'การเข้าถึงกล้องถูกบล็อก อนุญาตในการตั้งค่าเบราว์เซอร์ หรือสแกนจากรูปภาพหรือกรอกรหัสด้วยตนเอง',
+      not_found: 'ไม่พบกล้อง สแกนจากรูปภาพหรือกรอกรหัสด้วยตนเอง',
+      in_use: 'กล้องกำลังถูกใช้งานโดยแอปอื่น ปิดแอปนั้นแล้วลองอีกครั้ง หรือกรอกรหัสด้วยตนเอง',
+      failed: 'ไม่สามารถเปิดกล้องได้ สแกนจากรูปภาพหรือกรอกรหัสด้วยตนเอง',
+    },
+  },
+  review: {
+    title: 'ให้คะแนนและรีวิว',
+    experience: 'ประสบการณ์การจอดรถของคุณเป็นอย่างไร?',
+    ratings: {
+      terrible: 'แย่มาก',
+      poor: 'แย่',
+      average: 'พอใช้',
+      good: 'ดี',
+      excellent: 'ดีเยี่ยม',
+    },
+    writeReview: 'เขียนรีวิว (ไม่บังคับ)',
+    placeholder:
+      'แบ่งปันประสบการณ์ของคุณกับผู้ขับขี่คนอื่น หาสถานที่ง่ายไหม? ความปลอดภัยเป็นอย่างไร? มีคำแนะนำสำหรับผู้มาครั้งต่อไปไหม?',
+    helpText: 'ช่วยผู้ขับขี่คนอื่นด้วยการให้รายละเอียดที่ชัดเจน',
+    addPhotos: 'เพิ่มรูปภาพ (ไม่บังคับ)',
+    addPhoto: 'เพิ่มรูปภาพ',
+    photoAlt: 'รูปรีวิว {number}',
+    photoUrlPrompt: 'กรอก URL ของรูปภาพ:',
+    photoLimit: 'เพิ่มรูปได้สูงสุด {count} รูปเพื่อช่วยผู้ขับขี่คนอื่น',
+    aspectsTitle: 'ให้คะแนนแต่ละด้าน (ไม่บังคับ)',
+    aspects: {
+      location: 'ทำเลและการเข้าถึง',
+      security: 'ความปลอดภัย',
+      value: 'ความคุ้มค่า',
+      cleanliness: 'ความสะอาด',
+    },
+    anonymous: 'โพสต์รีวิวนี้โดยไม่ระบุชื่อ',
+    selectRating: 'กรุณาเลือกคะแนน',
+    submit: 'ส่งรีวิว',
+    submitting: 'กำลังส่ง...',
+    guidelinesTitle: 'แนวทางการรีวิว',
+    guidelines: {
+      honest: 'รีวิวอย่างตรงไปตรงมาและเป็นประโยชน์ต่อผู้ขับขี่คนอื่น',
+      focus: 'เน้นที่ประสบการณ์การจอดรถของคุณ',
+      privacy: 'หลีกเลี่ยงข้อมูลส่วนตัวหรือเนื้อหาที่ไม่เหมาะสม',
+      photos: 'รูปภาพควรเกี่ยวข้องกับที่จอดรถ',
+    },
+  },
+  cancellationEditor: {
+    policy: 'นโยบายการยกเลิก',
+    refundIfCancelled: '% คืนเงินหากยกเลิก',
+    hoursBefore: 'ชั่วโมงขึ้นไปก่อนเวลาเริ่ม',
+    addTier: 'เพิ่มขั้นการคืนเงิน',
+  },
+  pricingEditor: {
+    monthlyRate: 'ราคารายเดือน',
+    weekendRate: 'ราคาต่อชั่วโมงวันหยุดสุดสัปดาห์',
+    peakRate: 'ราคาต่อชั่วโมงช่วงเร่งด่วน',
+    optional: 'ไม่บังคับ',
+    sameAsHourly: 'เท่ากับราคาต่อชั่วโมง',
+    noPeak: 'ไม่มีราคาช่วงเร่งด่วน',
+    none: 'ไม่มี',
+    peakFrom: 'ช่วงเร่งด่วนในวันธรรมดาตั้งแต่',
+    peakTo: 'ถึง',
+    minimumStay: 'ระยะเวลาจอดขั้นต่ำ (นาที)',
+    gracePeriod: 'ระยะผ่อนผัน (นาที)',
+    gracePeriodHelp: 'เศษชั่วโมงสุดท้ายที่สั้นกว่านี้จะไม่คิดค่าบริการ',
+    overstayGrace: 'ระยะผ่อนผันการจอดเกินเวลา (นาที)',
+    overstayGraceHelp: 'หากออกช้ากว่านี้หลังการจองสิ้นสุด จะมีค่าจอดเกินเวลาตามอัตราของคุณ',
+  },
+  bookings: {
+    unknownSpot: 'ไม่ทราบที่จอด',
+    qrFailed: 'โหลดคิวอาร์โค้ดไม่สำเร็จ กรุณาใช้ PIN ของคุณ',
+    cancelledByHost: 'เจ้าของที่จอดยกเลิกเมื่อ {time}',
+    cancelledByYou: 'คุณยกเลิกเมื่อ {time}',
+    refundIssued: 'คืนเงิน {amount} เข้าบัตรของคุณแล้ว',
+    refundDue: 'เจ้าของที่จอดต้องคืนเงิน {amount}',
+    extensionPending: 'ขอขยายเวลา {duration} แล้ว รอเจ้าของที่จอดอนุมัติ',
+    extensionApproved: 'ขยายเวลา {duration} ถึง {time}',
+    extensionDeclined: 'คำขอขยายเวลาถูกปฏิเสธ',
+    slipFailed: 'ส่งสลิปการชำระเงินไม่สำเร็จ กรุณาลองอีกครั้ง',
+    paidByCard: 'ชำระด้วยบัตรแล้ว',
+    awaitingPayment: 'รอการชำระเงิน',
+    slipSubmitted: 'ส่งสลิปแล้ว รอเจ้าของที่จอดตรวจสอบ',
+    paymentApproved: 'อนุมัติการชำระเงินแล้ว',
+    slipRejected: 'สลิปการชำระเงินถูกปฏิเสธ',
+    uploadNewSlip: 'กรุณาอัปโหลดสลิปใหม่',
+    noVehicle: 'ไม่มีข้อมูลรถ',
+    notAvailable: 'ไม่มีข้อมูล',
+    checkedIn: 'เช็คอินเมื่อ {time}',
+    checkedOut: 'เช็คเอาต์เมื่อ {time}',
+    overstaying: 'การจองของคุณสิ้นสุดไปแล้ว {duration} กรุณานำรถออก',
+    extensionRejections: {
+      booking_cancelled: 'การจองถูกยกเลิก',
+    },
+    chargeStatus: {
+      unpaid: 'ยังไม่ชำระ',
+      paid: 'ชำระแล้ว',
+      waived: 'ยกเว้นแล้ว',
+    },
+    pay: 'ชำระเงิน',
+    viewQr: 'ดูคิวอาร์โค้ด',
+    extend: 'ขยายเวลา',
+    uploadPayment: 'อัปโหลดการชำระเงิน',
+    history: 'ประวัติ',
+    emptyTitle: 'ยังไม่มีการจอง',
+    emptyText: 'จองที่จอดรถของคุณเลย',
+    qrTitle: 'คิวอาร์โค้ดการจอง',
+    bookingId: 'รหัสการจอง: {id}',
+    pin: 'PIN: {pin}',
+    validBetween: 'ใช้ได้ตั้งแต่ {start} ถึง {end}',
+    payTitle: 'ชำระเงินค่าจอง',
+    payText: 'หลังชำระเงินแล้ว อัปโหลดสลิปการโอนเพื่อให้เจ้าของที่จอดยืนยัน',
+    slipAlt: 'สลิปการชำระเงิน',
+    submitSlip: 'ส่งให้ตรวจสอบ',
+    submitting: 'กำลังส่ง...',
+    extendTitle: 'ขยายเวลาการจอง',
+    cancelTitle: 'ยกเลิกการจอง',
+    historyTitle: 'ประวัติการจอง',
+  },
+  notifications: {
+    unread: 'ยังไม่อ่าน {count}',
+    allTypes: 'ทุกประเภท',
+    unreadOnly: 'เฉพาะที่ยังไม่อ่าน',
+    noMatches: 'ไม่มีการแจ้งเตือนที่ตรงกับตัวกรองนี้',
+    types: {
+      booking_reminder: 'การจอง',
+      extension_reminder: 'การขยายเวลา',
+      owner_notification: 'การให้เช่าที่จอด',
+      system: 'บัญชี',
+      promotion: 'โปรโมชัน',
+    },
+  },
+  settings: {
+    push: 'การแจ้งเตือนแบบพุช',
+    pushText: 'การเริ่มและสิ้นสุดการจอง การขยายเวลา และการชำระเงินบนอุปกรณ์นี้',
+    pushUnsupported: 'เบราว์เซอร์นี้ไม่รองรับการแจ้งเตือนแบบพุช',
+    pushEnableFailed: 'เปิดการแจ้งเตือนแบบพุชไม่สำเร็จ',
+    pushDisableFailed: 'ปิดการแจ้งเตือนแบบพุชไม่สำเร็จ',
+    email: 'การแจ้งเตือนทางอีเมล',
+    emailText: 'การยืนยันการจอง การยกเลิก ใบเสร็จการชำระเงิน และคำขอรีวิว',
+    bookingReminders: 'การเตือนการจอง',
+    bookingRemindersText: 'ก่อนเริ่มจอดรถ และเมื่อคุณจอดเกินเวลาที่จอง',
+    extensionReminders: 'การเตือนการขยายเวลา',
+    extensionRemindersText: 'ก่อนหมดเวลาจอด เพื่อให้คุณขยายเวลาได้ทัน',
+    sendMe: 'ส่งให้ฉัน',
+    channels: {
+      email: 'อีเมล',
+      push: 'พุช',
+    },
+    topics: {
+      booking_confirmed: 'การยืนยันการจอง',
+      booking_cancelled: 'การยกเลิก',
+      payment_approved: 'การชำระเงินที่อนุมัติแล้ว',
+      review_request: 'คำขอรีวิว',
+      booking_reminders: 'การเตือนเริ่ม สิ้นสุด และจอดเกินเวลา',
+      extension_updates: 'คำขอและผลการขยายเวลา',
+    },
+    topicByChannel: '{topic} ทาง{channel}',
+    privacy: 'ความเป็นส่วนตัว',
+    privacyMode: 'โหมดความเป็นส่วนตัว',
+    privacyModeText: 'แสดงเฉพาะชื่อและอักษรย่อของคุณต่อผู้อื่น โดยไม่แสดงรูป ประวัติ หรือเบอร์โทร',
+    showEmail: 'แสดงอีเมล',
+    showEmailText: 'กำหนดว่าจะให้ผู้อื่นเห็นอีเมลของคุณหรือไม่',
+    show: 'แสดง',
+    hide: 'ซ่อน',
+    appearance: 'รูปลักษณ์',
+    appearanceText: 'ปรับแต่งหน้าตาของแอป',
+    theme: 'ธีม',
+    selectTheme: 'เลือกธีม',
+    themes: {
+      light: 'สว่าง',
+      dark: 'มืด',
+      system: 'ตามระบบ',
+    },
+    selectLanguage: 'เลือกภาษา',
+    languageText: 'เลือกภาษาที่คุณต้องการ',
+    save: 'บันทึกการตั้งค่า',
+    saved: 'บันทึกการตั้งค่าแล้ว',
+    savedText: 'บันทึกการตั้งค่าของคุณเรียบร้อยแล้ว',
+    notSaved: 'บันทึกการตั้งค่าไม่สำเร็จ',
+    tryAgain: 'กรุณาลองอีกครั้ง',
+  },
+  profile: {
+    title: 'ข้อมูลโปรไฟล์',
+    fullName: 'ชื่อ-นามสกุล',
+    email: 'อีเมล',
+    phone: 'เบอร์โทรศัพท์',
+    promptPayId: 'พร้อมเพย์',
+    promptPayPlaceholder: 'เบอร์มือถือหรือเลขบัตรประชาชน',
+    promptPayHelp: 'ผู้เช่าจะสแกนคิวอาร์พร้อมเพย์ตามยอดการจองพอดี',
+    invalidPromptPay: 'หมายเลขพร้อมเพย์ไม่ถูกต้อง',
+    invalidPromptPayText: 'กรอกเบอร์มือถือ 10 หลักหรือเลขบัตรประชาชน 13 หลักที่ลงทะเบียนพร้อมเพย์',
+    accountType: 'ประเภทบัญชี',
+    customer: 'ลูกค้า',
+    owner: 'เจ้าของที่จอด',
+    updated: 'อัปเดตโปรไฟล์แล้ว',
+    updatedText: 'อัปเดตโปรไฟล์ของคุณเรียบร้อยแล้ว',
+    updateFailed: 'อัปเดตโปรไฟล์ไม่สำเร็จ',
+    myVehicles: 'รถของฉัน ({count})',
+    addVehicle: 'เพิ่มรถ',
+    addNewVehicle: 'เพิ่มรถคันใหม่',
+    make: 'ยี่ห้อ',
+    makePlaceholder: 'เช่น Toyota',
+    model: 'รุ่น',
+    modelPlaceholder: 'เช่น Camry',
+    licensePlate: 'ทะเบียนรถ',
+    licensePlatePlaceholder: 'เช่น กข 1234',
+    color: 'สี',
+    colorPlaceholder: 'เช่น น้ำเงิน',
+    missingInfo: 'ข้อมูลไม่ครบ',
+    missingInfoText: 'กรุณากรอกข้อมูลที่จำเป็นให้ครบ',
+    vehicleAdded: 'เพิ่มรถแล้ว',
+    vehicleAddedText: 'เพิ่มรถของคุณเรียบร้อยแล้ว',
+    addVehicleFailed: 'เพิ่มรถไม่สำเร็จ',
+    vehicleRemoved: 'ลบรถแล้ว',
+    vehicleRemovedText: 'ลบรถของคุณเรียบร้อยแล้ว',
+    deleteVehicleFailed: 'ลบรถไม่สำเร็จ',
+    noVehicles: 'ยังไม่ได้เพิ่มรถ',
+    noVehiclesText: 'เพิ่มข้อมูลรถของคุณเพื่อให้จองได้ง่ายขึ้น',
+  },
+  spotForm: {
+    backToDashboard: 'กลับไปที่แดชบอร์ด',
+    addTitle: 'เพิ่มที่จอดรถใหม่',
+    addSubmit: 'เพิ่มที่จอดรถ',
+    editTitle: 'แก้ไขที่จอดรถ',
+    editSubtitle: 'อัปเดตข้อมูลและการตั้งค่าที่จอดรถของคุณ',
+    enabled: 'เปิดใช้งาน',
+    disabled: 'ปิดใช้งาน',
+    basicInfo: 'ข้อมูลพื้นฐาน',
+    name: 'ชื่อ',
+    spotName: 'ชื่อที่จอดรถ',
+    description: 'รายละเอียด',
+    address: 'ที่อยู่',
+    location: 'ตำแหน่ง',
+    fullAddress: 'ที่อยู่เต็ม',
+    coordinates: 'พิกัด',
+    setCoordinates: 'กำหนดพิกัด',
+    latLng: 'ละติจูด: {lat}, ลองจิจูด: {lng}',
+    totalSlots: 'จำนวนช่องจอด',
+    totalParkingSlots: 'จำนวนช่องจอดทั้งหมด',
+    spotType: 'ประเภทที่จอด',
+    selectSpotType: 'เลือกประเภทที่จอด',
+    spotTypes: {
+      driveway: 'ทางเข้าบ้าน',
+      garage: 'โรงจอดรถ',
+      street: 'ริมถนน',
+      lot: 'ลานจอด',
+      covered: 'มีหลังคา',
+    },
+    pricingCapacity: 'ราคาและความจุ',
+    currency: 'สกุลเงิน',
+    currencyHint: 'การจองที่มีอยู่แล้วจะใช้สกุลเงินเดิม',
+    hourlyRate: 'ราคาต่อชั่วโมง',
+    dailyRate: 'ราคาต่อวัน',
+    dailyRateOptional: 'ราคาต่อวัน (ไม่บังคับ)',
+    pricingRules: 'กฎการคิดราคา',
+    autoApprove: 'อนุมัติการขยายเวลาอัตโนมัติ',
+    autoApproveText: 'ผู้เช่าอยู่ต่อได้โดยไม่ต้องรอคุณ เมื่อมีช่องว่างในเวลาทำการ',
+    amenityOptions: {
+      securityCamera: 'กล้องวงจรปิด',
+      twentyFourSevenAccess: 'เข้าออกได้ตลอด 24 ชั่วโมง',
+      coveredParking: 'ที่จอดมีหลังคา',
+      electricVehicleCharging: 'ที่ชาร์จรถยนต์ไฟฟ้า',
+    },
+    images: 'รูปภาพ',
+    imageAlt: 'ที่จอดรถ {number}',
+    addImage: 'เพิ่มรูปภาพ',
+    imageUrlPrompt: 'กรอก URL ของรูปภาพ:',
+    openingHours: 'เวลาทำการ',
+    operatingHours: 'เวลาทำการ',
+    saveChanges: 'บันทึกการเปลี่ยนแปลง',
+    updated: 'อัปเดตที่จอดรถเรียบร้อยแล้ว!',
+    updateFailed: 'อัปเดตที่จอดรถไม่สำเร็จ กรุณาลองอีกครั้ง',
+    confirmDelete: 'คุณแน่ใจหรือไม่ว่าต้องการลบที่จอดรถนี้? การดำเนินการนี้ไม่สามารถย้อนกลับได้',
+    deleted: 'ลบที่จอดรถเรียบร้อยแล้ว!',
+    deleteFailed: 'ลบที่จอดรถไม่สำเร็จ กรุณาลองอีกครั้ง',
+  },
+  manageAvailability: {
+    title: 'จัดการช่องจอดว่าง',
+    availableSlots: 'ช่องจอดว่าง',
+    currentStatus: 'สถานะปัจจุบัน',
+    totalSlotsLabel: 'ช่องจอดทั้งหมด:',
+    availableSlotsLabel: 'ช่องจอดว่าง:',
+    occupiedSlotsLabel: 'ช่องจอดที่ใช้อยู่:',
+    occupancyRate: 'อัตราการใช้งาน:',
+    nextFreeSlot: 'ช่องว่างถัดไป:',
+    noneIn90Days: 'ไม่มีใน 90 วันข้างหน้า',
+    updated: 'อัปเดตช่องจอดว่างเรียบร้อยแล้ว',
+    updateFailed: 'อัปเดตช่องจอดว่างไม่สำเร็จ',
+    loadFailed: 'โหลดข้อมูลช่องจอดว่างไม่สำเร็จ',
+    activeBookings: 'การจองที่กำลังใช้งาน ({count})',
+    upcomingBookings: 'การจองที่กำลังจะมาถึง ({count})',
+    bookingNumber: 'การจอง #{id}',
+    active: 'กำลังใช้งาน',
+    noActive: 'ไม่มีการจองที่กำลังใช้งาน',
+    noUpcoming: 'ไม่มีการจองที่กำลังจะมาถึง',
+    moreBookings: 'และอีก {count} การจอง',
+    blockedDates: 'วันที่ปิดรับจอง',
+    from: 'ตั้งแต่',
+    until: 'ถึง',
+    reason: 'เหตุผล',
+    blockTypes: {
+      maintenance: 'ซ่อมบำรุง',
+      blocked: 'ปิดรับจอง',
+      reserved: 'ใช้ส่วนตัว',
+    },
+    slotsToBlock: 'จำนวนช่องที่ปิด',
+    closesSpot: 'ปิดทั้งที่จอด',
+    reducesCapacity: 'ลดจำนวนช่องจอด',
+    repeat: 'ทำซ้ำ',
+    recurrences: {
+      none: 'ไม่ทำซ้ำ',
+      daily: 'ทุกวัน',
+      weekly: 'ทุกสัปดาห์',
+    },
+    repeatUntil: 'ทำซ้ำจนถึง (ไม่บังคับ)',
+    repeatsUntil: 'จนถึง {date}',
+    note: 'หมายเหตุ',
+    notePlaceholder: 'เช่น ปูพื้นทางเข้าใหม่',
+    addBlock: 'เพิ่มช่วงปิดรับจอง',
+    invalidBlock: 'ช่วงเวลาไม่ถูกต้อง',
+    invalidBlockText: 'เลือกเวลาสิ้นสุดที่อยู่หลังเวลาเริ่ม',
+    blockAdded: 'เพิ่มช่วงปิดรับจองแล้ว',
+    blockAddedText: 'ผู้เช่าไม่สามารถจองช่องที่ปิดในช่วงเวลานั้นได้อีก',
+    addBlockFailed: 'เพิ่มช่วงปิดรับจองไม่สำเร็จ',
+    removeBlockFailed: 'ลบช่วงปิดรับจองไม่สำเร็จ',
+    wholeSpot: 'ทั้งที่จอด',
+    slotCount: '{count} ช่อง',
+    noBlocks: 'ไม่มีวันที่ปิดรับจอง',
+  },
+  hostDashboard: {
+    title: 'แดชบอร์ดเจ้าของที่จอดรถ',
+    subtitle: 'จัดการที่จอดรถและติดตามผลการดำเนินงาน',
+    loading: 'กำลังโหลดแดชบอร์ด...',
+    tabs: {
+      home: 'หน้าแรก',
+      dashboard: 'แดชบอร์ด',
+      spots: 'ที่จอดของฉัน',
+      bookings: 'การจอง',
+      payments: 'การชำระเงิน',
+      reviews: 'รีวิว',
+    },
+    todaysRevenue: 'รายได้วันนี้',
+    approxAmount: '≈ {amount}',
+    activeBookings: 'การจองที่ใช้งานอยู่',
+    totalSpots: 'ที่จอดทั้งหมด',
+    avgRating: 'คะแนนเฉลี่ย',
+    scannerText: 'สแกนคิวอาร์โค้ดของลูกค้าหรือกรอก PIN เพื่อตรวจสอบการเข้าจอด',
+    openScanner: 'เปิดเครื่องสแกน',
+    todaysBookings: 'การจองวันนี้',
+    noBookingsToday: 'ไม่มีการจองวันนี้',
+    quickActions: 'ทางลัด',
+    revenueTrend: 'แนวโน้มรายได้',
+    revenueChart: 'กราฟรายได้จะแสดงที่นี่',
+    bookingDistribution: 'การกระจายการจอง',
+    bookingDistributionChart: 'กราฟการกระจายการจอง',
+    mySpots: 'ที่จอดรถของฉัน',
+    addNewSpot: 'เพิ่มที่จอดใหม่',
+    active: 'เปิดให้บริการ',
+    inactive: 'ปิดให้บริการ',
+    slotsAvailable: 'ว่าง {available}/{total}',
+    noSpots: 'ยังไม่มีที่จอดรถ',
+    noSpotsText: 'สร้างที่จอดรถแห่งแรกของคุณเพื่อเริ่มสร้างรายได้',
+    addFirstSpot: 'เพิ่มที่จอดแห่งแรก',
+  },
+  hostBookings: {
+    title: 'จัดการการจอง',
+    searchPlaceholder: 'ค้นหาด้วยชื่อที่จอดหรือลูกค้า...',
+    allStatus: 'ทุกสถานะ',
+    export: 'ส่งออก',
+    columns: {
+      booking: 'การจอง',
+      customer: 'ลูกค้า',
+      spot: 'ที่จอด',
+      duration: 'ระยะเวลา',
+      amount: 'จำนวนเงิน',
+      status: 'สถานะ',
+      actions: 'การดำเนินการ',
+    },
+    unknown: 'ไม่ทราบ',
+    in: 'เข้า {time}',
+    out: 'ออก {time}',
+    overstay: 'จอดเกินเวลา {duration}',
+    extensionRequested: 'ขอขยายเวลา: +{duration} ถึง {time} ({amount})',
+    charge: '+{amount} {kind} ({status})',
+    chargeKinds: {
+      overstay: 'ค่าจอดเกินเวลา',
+      extension: 'ค่าขยายเวลา',
+    },
+    refund: '-{amount} คืนเงิน',
+    approveExtension: 'อนุมัติการขยายเวลา',
+    declineExtension: 'ปฏิเสธการขยายเวลา',
+    checkOut: 'เช็คเอาต์',
+    confirmCancel: 'ยกเลิกการจองนี้?',
+    confirmCancelRefund: 'ยกเลิกการจองนี้? ผู้เช่าจะได้รับเงินคืน {amount}',
+    cancelReasonPrompt: 'เหตุผลในการยกเลิก (แสดงให้ผู้เช่าเห็น):',
+    declineReasonPrompt: 'เหตุผลในการปฏิเสธ (แสดงให้ผู้เช่าเห็น):',
+    noneFound: 'ไม่พบการจอง',
+    adjustFilters: 'ลองปรับตัวกรอง',
+    noneYet: 'ยังไม่มีการจอง',
+  },
+  hostReviews: {
+    title: 'รีวิวและความคิดเห็น',
+    averageRating: 'คะแนนเฉลี่ย',
+    totalReviews: 'รีวิวทั้งหมด',
+    thisMonth: 'เดือนนี้',
+    allSpots: 'ทุกที่จอด',
+    anonymous: 'ไม่ระบุชื่อ',
+    replyPlaceholder: 'ตอบกลับรีวิวนี้...',
+    reply: 'ตอบกลับ',
+    noReviews: 'ยังไม่มีรีวิว',
+    noReviewsForSpot: 'ไม่มีรีวิวสำหรับที่จอดที่เลือก',
+    noReviewsText: 'รีวิวจะแสดงที่นี่เมื่อลูกค้าเริ่มให้คะแนนที่จอดของคุณ',
+  },
+  hostPayments: {
+    title: 'ตรวจสอบการชำระเงิน',
+    statuses: {
+      submitted: 'รอตรวจสอบ',
+      approved: 'อนุมัติแล้ว',
+      rejected: 'ปฏิเสธแล้ว',
+    },
+    all: 'ทั้งหมด',
+    noPdfPreview: 'เบราว์เซอร์นี้ไม่สามารถแสดงตัวอย่าง PDF ได้',
+    openOriginal: 'เปิดไฟล์ต้นฉบับ',
+    guest: 'ผู้เช่า',
+    amountDue: 'ยอดที่ต้องชำระ',
+    reference: 'เลขอ้างอิง',
+    rejectionReason: 'เหตุผลที่ปฏิเสธ',
+    rejectPlaceholder: 'เหตุผลในการปฏิเสธ (แสดงให้ผู้เช่าเห็น)',
+    reasonRequired: 'กรุณาระบุเหตุผลในการปฏิเสธให้ผู้เช่า',
+    reviewFailed: 'ตรวจสอบการชำระเงินไม่สำเร็จ กรุณาลองอีกครั้ง',
+    approve: 'อนุมัติและยืนยันการจอง',
+    reject: 'ปฏิเสธ',
+    noneFound: 'ไม่พบการชำระเงิน',
+    noneWaiting: 'ไม่มีสลิปที่รอตรวจสอบ',
+    tryOtherFilter: 'ลองใช้ตัวกรองอื่น',
+  },
+  changeToasts: {
+    newBooking: 'การจองใหม่',
+    newBookingText: 'มีผู้เช่าจองที่จอดของคุณสำหรับ {date}',
+    cancelled: 'การจองถูกยกเลิก',
+    cancelledByGuest: 'ผู้เช่ายกเลิกการจองสำหรับ {date}',
+    cancelledByHost: 'เจ้าของที่จอดยกเลิกการจองของคุณสำหรับ {date}',
+    confirmed: 'ยืนยันการจองแล้ว',
+    confirmedText: 'การจองของคุณสำหรับ {date} ได้รับการยืนยันแล้ว',
+    slipReceived: 'ได้รับสลิปการชำระเงิน',
+    slipReceivedText: 'ผู้เช่าส่งสลิปยอด {amount} ให้คุณตรวจสอบ',
+    paymentApproved: 'อนุมัติการชำระเงินแล้ว',
+    paymentApprovedText: 'เจ้าของที่จอดอนุมัติสลิปการชำระเงินของคุณแล้ว',
+    slipRejected: 'สลิปการชำระเงินถูกปฏิเสธ',
+    slipRejectedText: 'เจ้าของที่จอดปฏิเสธสลิปการชำระเงินของคุณ กรุณาอัปโหลดใหม่',
+    newReview: 'รีวิวใหม่',
+    newReviewText: 'ผู้เช่าให้รีวิว {rating}★',
+  },
+  errors: {
+    unexpected: 'เกิดข้อผิดพลาด กรุณาลองอีกครั้ง',
+    bookingConflict: 'ที่จอดนี้ถูกจองเต็มในช่วงเวลาที่เลือก',
+    spotClosed: 'ที่จอดนี้ปิดในบางช่วงของเวลาที่เลือก',
+    quoteMismatch: 'ราคาของการจองนี้มีการเปลี่ยนแปลง',
+    pushBlocked: 'การแจ้งเตือนถูกบล็อกในเบราว์เซอร์นี้',
+    access: {
+      invalid: 'รหัสนี้ไม่ถูกต้อง',
+      not_found: 'ไม่พบการจองที่ตรงกับรหัสนี้',
+      not_yet_valid: 'ยังไม่สามารถใช้การจองนี้เพื่อเข้าจอดได้',
+      expired: 'การจองนี้หมดอายุแล้ว',
+      inactive: 'การจองนี้ถูกยกเลิกหรือเสร็จสิ้นแล้ว',
+      already_used: 'รหัสนี้ถูกใช้เข้าจอดไปแล้ว',
+      rate_limited: 'ลองผิดหลายครั้งเกินไป กรุณารอสักครู่แล้วลองอีกครั้ง',
+      not_permitted: 'คุณไม่มีสิทธิ์ทำรายการนี้กับการจองนี้',
+    },
+    paymentState: {
+      booking_paid: 'การจองนี้ชำระเงินแล้ว',
+      booking_not_pending: 'ชำระเงินได้เฉพาะการจองที่รอดำเนินการเท่านั้น',
+      amount_mismatch: 'ยอดชำระไม่ตรงกับยอดรวมของการจอง',
+      slip_pending: 'มีสลิปการชำระเงินของการจองนี้รอตรวจสอบอยู่แล้ว',
+      already_reviewed: 'การชำระเงินนี้ได้รับการตรวจสอบแล้ว',
+      charge_paid: 'ค่าบริการนี้ชำระแล้ว',
+      charge_waived: 'ค่าบริการนี้ได้รับการยกเว้นแล้ว',
+      charge_amount_mismatch: 'ยอดชำระไม่ตรงกับค่าบริการ',
+      wrong_payment: 'การคืนเงินนี้เป็นของการชำระเงินรายการอื่น',
+      invalid_state: 'ไม่สามารถเปลี่ยนแปลงการชำระเงินนี้ในสถานะปัจจุบันได้',
+    },
+    bookingState: {
+      not_allowed: 'ไม่สามารถเปลี่ยนการจองที่{from}เป็น{to}ได้',
+      host_only: 'เฉพาะเจ้าของที่จอดเท่านั้นที่เปลี่ยนการจองนี้เป็น{to}ได้',
+      guest_only: 'เฉพาะผู้จองเท่านั้นที่เปลี่ยนการจองนี้เป็น{to}ได้',
+      parties_only: 'เฉพาะผู้จองหรือเจ้าของที่จอดเท่านั้นที่เปลี่ยนการจองนี้เป็น{to}ได้',
+      automatic: 'การจองนี้จะเปลี่ยนเป็น{to}โดยอัตโนมัติ',
+      not_extendable: 'ขยายเวลาได้เฉพาะการจองที่ยืนยันแล้วหรือเช็คอินแล้วเท่านั้น',
+      not_checked_in: 'เช็คเอาท์ได้เฉพาะการจองที่เช็คอินแล้วเท่านั้น',
+      not_cancellable: 'ยกเลิกได้เฉพาะการจองที่รอดำเนินการหรือยืนยันแล้วเท่านั้น',
+      invalid_state: 'ไม่สามารถเปลี่ยนแปลงการจองนี้ในสถานะปัจจุบันได้',
+    },
+    extensionState: {
+      no_end_time: 'กรุณาเลือกเวลาสิ้นสุดใหม่',
+      end_not_later: 'เวลาสิ้นสุดใหม่ต้องอยู่หลังเวลาสิ้นสุดเดิม',
+      end_in_past: 'เวลาสิ้นสุดใหม่ต้องเป็นเวลาในอนาคต',
+      already_pending: 'มีคำขอขยายเวลาของการจองนี้รอเจ้าของที่จอดอยู่แล้ว',
+      already_reviewed: 'คำขอขยายเวลานี้ได้รับการพิจารณาแล้ว',
+      booking_changed: 'การจองมีการเปลี่ยนแปลงหลังจากส่งคำขอขยายเวลานี้',
+      invalid_state: 'ไม่สามารถเปลี่ยนแปลงคำขอขยายเวลานี้ในสถานะปัจจุบันได้',
+    },
+  },
+  notificationTexts: {
+    bookingCreated: { title: 'การจองใหม่', message: 'มีผู้จอง {spot}' },
+    bookingConfirmed: { title: 'ยืนยันการจองแล้ว', message: 'การจองของคุณที่ {spot} ได้รับการยืนยันแล้ว' },
+    reviewRequest: {
+      title: 'การจอดครั้งนี้เป็นอย่างไรบ้าง?',
+      message: 'ขอบคุณที่จอดที่ {spot} เขียนรีวิวเพื่อช่วยผู้ขับขี่คนอื่น',
+    },
+    startingSoon: {
+      title: 'ใกล้ถึงเวลาจอดแล้ว',
+      message: 'การจอดของคุณที่ {spot} ใกล้จะเริ่มแล้ว แสดงคิวอาร์โค้ดหรือ PIN ที่ทางเข้า',
+    },
+    endingSoon: {
+      title: 'ใกล้หมดเวลาจอดแล้ว',
+      message: 'การจอดของคุณที่ {spot} ใกล้จะสิ้นสุดแล้ว ต้องการจอดนานขึ้น? ขอขยายเวลาได้ที่การจองของฉัน',
+    },
+    guestReviewPosted: { title: 'รีวิวใหม่', message: 'ผู้จองให้คะแนน {spot} {rating}★' },
+    hostReviewPosted: { title: 'รีวิวใหม่', message: 'เจ้าของ {spot} ให้คะแนนการจอดของคุณ {rating}★' },
+    cancelledByGuest: { title: 'ผู้จองยกเลิกการจอง', message: 'การจองที่ {spot} ถูกยกเลิก' },
+    cancelledByHost: {
+      title: 'เจ้าของที่จอดยกเลิกการจอง',
+      message: 'การจองของคุณที่ {spot} ถูกยกเลิกโดยเจ้าของที่จอด',
+    },
+    paymentApproved: { title: 'อนุมัติการชำระเงินแล้ว', message: 'เจ้าของ {spot} อนุมัติการชำระเงิน {amount} ของคุณแล้ว' },
+    extensionRequested: {
+      title: 'มีคำขอขยายเวลา',
+      message: 'ผู้จองที่ {spot} ขอจอดเพิ่มอีก {duration} ในราคา {amount}',
+    },
+    extensionApproved: {
+      title: 'อนุมัติการขยายเวลาแล้ว',
+      message: 'การจองของคุณที่ {spot} ขยายเวลาออกไปอีก {duration} กรุณาชำระเงินเพิ่ม {amount} ที่การจองของฉัน',
+    },
+    extensionDeclined: {
+      title: 'คำขอขยายเวลาถูกปฏิเสธ',
+      message: 'คำขอจอดเพิ่มที่ {spot} ของคุณถูกปฏิเสธ',
+    },
+    overstayCharged: {
+      title: 'มีค่าจอดเกินเวลา',
+      message: 'คุณจอดเกินเวลาที่จองไว้ {duration} ที่ {spot} มีค่าบริการเพิ่ม {amount} ในการจองของคุณ',
+    },
+    overstayChargedHost: {
+      title: 'เรียกเก็บค่าจอดเกินเวลาแล้ว',
+      message: 'ผู้จองจอดเกินเวลาที่จองไว้ {duration} ที่ {spot} และถูกเรียกเก็บ {amount}',
+    },
+    overstayApplies: {
+      title: 'จะมีค่าจอดเกินเวลา',
+      message: 'การจองของคุณที่ {spot} สิ้นสุดแล้ว จะมีค่าจอดเกินเวลาเมื่อคุณออก เว้นแต่คุณขยายเวลาการจองที่การจองของฉัน',
+    },
+    guestOverstaying: {
+      title: 'ผู้จองจอดเกินเวลา',
+      message: 'ยังมีรถจอดอยู่ที่ {spot} หลังการจองสิ้นสุด จะมีค่าจอดเกินเวลาเมื่อเช็คเอาท์',
+    },
+    extras: {
+      refundDue: 'ผู้จองจะได้รับเงินคืน {refund}',
+      reason: 'เหตุผล: {reason}',
+    },
+  },
+  emails: {
+    greeting: 'สวัสดีคุณ {name}',
+    viewBooking: 'ดูการจอง',
+    leaveReview: 'เขียนรีวิว',
+    qrAlt: 'คิวอาร์โค้ดสำหรับเข้าจอด',
+    details: {
+      spot: 'ที่จอด',
+      address: 'ที่อยู่',
+      from: 'ตั้งแต่',
+      until: 'ถึง',
+      total: 'ยอดรวม',
+      entryPin: 'PIN เข้าจอด',
+      refund: 'เงินคืน',
+      amount: 'จำนวนเงิน',
+      reference: 'เลขอ้างอิง',
+    },
+    booking_confirmed: { subject: 'ยืนยันการจองแล้ว: {spot}', heading: 'การจองของคุณได้รับการยืนยันแล้ว' },
+    booking_cancelled: { subject: 'การจองถูกยกเลิก: {spot}', heading: 'มีการยกเลิกการจอง' },
+    payment_approved: { subject: 'อนุมัติการชำระเงินแล้ว: {spot}', heading: 'การชำระเงินของคุณได้รับการอนุมัติแล้ว' },
+    review_request: { subject: 'การจอดที่ {spot} เป็นอย่างไรบ้าง?', heading: 'การจอดครั้งนี้เป็นอย่างไรบ้าง?' },
+  },
+};
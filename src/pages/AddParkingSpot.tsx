@@ -10,21 +10,47 @@ import { Checkbox } from '../components/ui/checkbox';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { ArrowLeft, MapPin } from 'lucide-react';
 import { database } from '../data/database';
+import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { ParkingSpot, WeeklySchedule } from '../types';
+import { WeeklyScheduleEditor } from '../components/WeeklyScheduleEditor';
+import { createAlwaysOpenSchedule, formatScheduleSummary, validateSchedule } from '../services/schedule';
+import { PricingRulesEditor } from '../components/PricingRulesEditor';
+import { PricingRules, validatePricingRules } from '../services/pricing';
+import { CURRENCIES } from '../services/currency';
+import { DEFAULT_CURRENCY } from '../i18n/format';
+
+// Amenities are stored by their English name, which other pages show as is.
+const AMENITIES = [
+  { id: 'securityCamera', value: 'Security Camera' },
+  { id: 'twentyFourSevenAccess', value: '24/7 Access' },
+  { id: 'coveredParking', value: 'Covered Parking' },
+  { id: 'electricVehicleCharging', value: 'Electric Vehicle Charging' },
+] as const;
+
+const SPOT_TYPES: ParkingSpot['spot_type'][] = ['driveway', 'garage', 'street', 'lot', 'covered'];
 
 const AddParkingSpot: React.FC = () => {
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const { language, t, formatCurrencyName } = useI18n();
 
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [address, setAddress] = useState('');
   const [coordinates, setCoordinates] = useState({ lat: 0, lng: 0 });
   const [totalSlots, setTotalSlots] = useState('');
-  const [priceType, setPriceType] = useState<string>('hour');
-  const [price, setPrice] = useState('');
+  const [spotType, setSpotType] = useState<ParkingSpot['spot_type']>('lot');
+  const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [dailyRate, setDailyRate] = useState('');
+  const [pricingRules, setPricingRules] = useState<PricingRules>({});
+  const [pricingError, setPricingError] = useState<string | null>(null);
   const [phone, setPhone] = useState('');
   const [selectedAmenities, setSelectedAmenities] = useState<string[]>([]);
   const [uploadedImages, setUploadedImages] = useState<string[]>([]);
-  const [openingHours, setOpeningHours] = useState('');
+  const [schedule, setSchedule] = useState<WeeklySchedule>(() => createAlwaysOpenSchedule());
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
 
   const handleAmenityChange = (amenity: string) => {
     setSelectedAmenities((prev) =>
@@ -52,26 +78,39 @@ const AddParkingSpot: React.FC = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!user) return;
 
+    const invalid = validateSchedule(schedule, language);
+    setScheduleError(invalid);
+    const invalidPricing = validatePricingRules(pricingRules, language);
+    setPricingError(invalidPricing);
+    if (invalid || invalidPricing) return;
+
+    const slots = parseInt(totalSlots);
     const newSpot = {
-      ownerId: 'owner1', // This should come from auth context
-      name,
+      owner_id: user.id,
+      title: name,
       description,
+      spot_type: spotType,
       address,
-      lat: coordinates.lat,
-      lng: coordinates.lng,
-      totalSlots: parseInt(totalSlots),
-      priceType: priceType as 'hour' | 'day' | 'month',
-      price: parseFloat(price),
+      latitude: coordinates.lat,
+      longitude: coordinates.lng,
+      total_slots: slots,
+      available_slots: slots,
+      currency,
+      hourly_rate: parseFloat(hourlyRate),
+      daily_rate: dailyRate ? parseFloat(dailyRate) : undefined,
+      ...pricingRules,
       phone,
       amenities: selectedAmenities,
       images: uploadedImages,
-      openingHours,
-      isActive: true
+      opening_hours: formatScheduleSummary(schedule),
+      is_available: true
     };
 
     try {
-      await database.addParkingSpot(newSpot);
+      const created = await database.createParkingSpot(newSpot);
+      await database.saveSpotSchedule(created.id, schedule);
       navigate('/admin');
     } catch (error) {
       console.error("Error adding parking spot:", error);
@@ -82,16 +121,16 @@ const AddParkingSpot: React.FC = () => {
     <div className="container py-8">
       <Button variant="ghost" onClick={() => navigate('/admin')} className="mb-4">
         <ArrowLeft className="mr-2 h-4 w-4" />
-        Back to Dashboard
+        {t('spotForm.backToDashboard')}
       </Button>
       <Card>
         <CardHeader>
-          <CardTitle>Add New Parking Spot</CardTitle>
+          <CardTitle>{t('spotForm.addTitle')}</CardTitle>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="grid gap-4">
             <div className="grid gap-2">
-              <Label htmlFor="name">Name</Label>
+              <Label htmlFor="name">{t('spotForm.name')}</Label>
               <Input
                 id="name"
                 value={name}
@@ -100,7 +139,7 @@ const AddParkingSpot: React.FC = () => {
               />
             </div>
             <div className="grid gap-2">
-              <Label htmlFor="description">Description</Label>
+              <Label htmlFor="description">{t('spotForm.description')}</Label>
               <Textarea
                 id="description"
                 value={description}
@@ -109,7 +148,7 @@ const AddParkingSpot: React.FC = () => {
               />
             </div>
             <div className="grid gap-2">
-              <Label htmlFor="address">Address</Label>
+              <Label htmlFor="address">{t('spotForm.address')}</Label>
               <Input
                 id="address"
                 value={address}
@@ -118,17 +157,17 @@ const AddParkingSpot: React.FC = () => {
               />
             </div>
             <div className="grid gap-2">
-              <Label>Coordinates</Label>
+              <Label>{t('spotForm.coordinates')}</Label>
               <Button type="button" variant="outline" onClick={handleMapPinClick}>
                 <MapPin className="mr-2 h-4 w-4" />
-                Set Coordinates
+                {t('spotForm.setCoordinates')}
               </Button>
               <div className="text-sm text-muted-foreground">
-                Latitude: {coordinates.lat}, Longitude: {coordinates.lng}
+                {t('spotForm.latLng', { lat: coordinates.lat, lng: coordinates.lng })}
               </div>
             </div>
             <div className="grid gap-2">
-              <Label htmlFor="totalSlots">Total Slots</Label>
+              <Label htmlFor="totalSlots">{t('spotForm.totalSlots')}</Label>
               <Input
                 id="totalSlots"
                 type="number"
@@ -138,31 +177,61 @@ const AddParkingSpot: React.FC = () => {
               />
             </div>
             <div className="grid gap-2">
-              <Label htmlFor="priceType">Price Type</Label>
-              <Select value={priceType} onValueChange={setPriceType}>
+              <Label htmlFor="spotType">{t('spotForm.spotType')}</Label>
+              <Select value={spotType} onValueChange={(value: string) => setSpotType(value as ParkingSpot['spot_type'])}>
                 <SelectTrigger className="w-full">
-                  <SelectValue placeholder="Select price type" />
+                  <SelectValue placeholder={t('spotForm.selectSpotType')} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="hour">Per Hour</SelectItem>
-                  <SelectItem value="day">Per Day</SelectItem>
-                  <SelectItem value="month">Per Month</SelectItem>
+                  {SPOT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{t(`spotForm.spotTypes.${type}`)}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
             <div className="grid gap-2">
-              <Label htmlFor="price">Price</Label>
+              <Label htmlFor="currency">{t('spotForm.currency')}</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger id="currency" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map(code => (
+                    <SelectItem key={code} value={code}>{code} - {formatCurrencyName(code)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="hourlyRate">{t('spotForm.hourlyRate')}</Label>
               <Input
-                id="price"
+                id="hourlyRate"
                 type="number"
                 step="0.01"
-                value={price}
-                onChange={(e) => setPrice(e.target.value)}
+                value={hourlyRate}
+                onChange={(e) => setHourlyRate(e.target.value)}
                 required
               />
             </div>
             <div className="grid gap-2">
-              <Label htmlFor="phone">Phone Number</Label>
+              <Label htmlFor="dailyRate">{t('spotForm.dailyRateOptional')}</Label>
+              <Input
+                id="dailyRate"
+                type="number"
+                step="0.01"
+                value={dailyRate}
+                onChange={(e) => setDailyRate(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>{t('spotForm.pricingRules')}</Label>
+              <PricingRulesEditor value={pricingRules} onChange={setPricingRules} />
+              {pricingError && (
+                <p className="text-sm text-red-600">{pricingError}</p>
+              )}
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="phone">{t('profile.phone')}</Label>
               <Input
                 id="phone"
                 type="tel"
@@ -172,44 +241,22 @@ const AddParkingSpot: React.FC = () => {
               />
             </div>
             <div className="grid gap-2">
-              <Label>Amenities</Label>
+              <Label>{t('searchFilters.amenities')}</Label>
               <div className="flex flex-wrap gap-2">
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="securityCamera"
-                    checked={selectedAmenities.includes('Security Camera')}
-                    onCheckedChange={() => handleAmenityChange('Security Camera')}
-                  />
-                  <Label htmlFor="securityCamera">Security Camera</Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="twentyFourSevenAccess"
-                    checked={selectedAmenities.includes('24/7 Access')}
-                    onCheckedChange={() => handleAmenityChange('24/7 Access')}
-                  />
-                  <Label htmlFor="twentyFourSevenAccess">24/7 Access</Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="coveredParking"
-                    checked={selectedAmenities.includes('Covered Parking')}
-                    onCheckedChange={() => handleAmenityChange('Covered Parking')}
-                  />
-                  <Label htmlFor="coveredParking">Covered Parking</Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="electricVehicleCharging"
-                    checked={selectedAmenities.includes('Electric Vehicle Charging')}
-                    onCheckedChange={() => handleAmenityChange('Electric Vehicle Charging')}
-                  />
-                  <Label htmlFor="electricVehicleCharging">Electric Vehicle Charging</Label>
-                </div>
+                {AMENITIES.map(amenity => (
+                  <div key={amenity.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={amenity.id}
+                      checked={selectedAmenities.includes(amenity.value)}
+                      onCheckedChange={() => handleAmenityChange(amenity.value)}
+                    />
+                    <Label htmlFor={amenity.id}>{t(`spotForm.amenityOptions.${amenity.id}`)}</Label>
+                  </div>
+                ))}
               </div>
             </div>
             <div className="grid gap-2">
-              <Label htmlFor="images">Images</Label>
+              <Label htmlFor="images">{t('spotForm.images')}</Label>
               <Input
                 id="images"
                 type="file"
@@ -222,7 +269,7 @@ const AddParkingSpot: React.FC = () => {
                     <img
                       key={index}
                       src={image}
-                      alt={`Uploaded ${index + 1}`}
+                      alt={t('spotForm.imageAlt', { number: index + 1 })}
                       className="h-20 w-auto rounded-md"
                     />
                   ))}
@@ -230,16 +277,13 @@ const AddParkingSpot: React.FC = () => {
               )}
             </div>
             <div className="grid gap-2">
-              <Label htmlFor="openingHours">Opening Hours</Label>
-              <Input
-                id="openingHours"
-                type="text"
-                value={openingHours}
-                onChange={(e) => setOpeningHours(e.target.value)}
-                required
-              />
+              <Label>{t('spotForm.openingHours')}</Label>
+              <WeeklyScheduleEditor value={schedule} onChange={setSchedule} />
+              {scheduleError && (
+                <p className="text-sm text-red-600">{scheduleError}</p>
+              )}
             </div>
-            <Button type="submit">Add Parking Spot</Button>
+            <Button type="submit">{t('spotForm.addSubmit')}</Button>
           </form>
         </CardContent>
       </Card>
@@ -1,24 +1,48 @@
 
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
-import { Calendar, Clock, MapPin, Car, Phone, CheckCircle, XCircle, AlertCircle, Search, Download, Eye, MoreHorizontal } from 'lucide-react';
+import { Calendar, Clock, MapPin, Car, Phone, CheckCircle, XCircle, AlertCircle, Search, Download, Eye, MoreHorizontal, LogIn, LogOut, CalendarCheck, CalendarX } from 'lucide-react';
 import { database } from '../data/database';
 import { useAuth } from '../context/AuthContext';
-import { Booking, ParkingSpot, User } from '../types';
+import { useI18n } from '../context/I18nContext';
+import { translateError } from '../i18n/errors';
+import { Booking, BookingCharge, BookingExtension, BookingStatus, ExtensionDecision, ParkingSpot, Profile } from '../types';
+import {
+  isBookingConflictError,
+  isBookingStateError,
+  isExtensionStateError,
+  isSpotClosedError,
+} from '../data/errors';
+import { bookingStatusLabel, canCheckOut, formatDuration, overstayMinutes } from '../services/occupancy';
+import { canCancel } from '../services/cancellation';
+import { chargeDescription } from '../services/payments';
+import { BookingTimeline } from '../components/BookingTimeline';
+import { useDataChanges } from '../hooks/useRealtime';
+import { cancelBookingWithRefund } from '../payments/gateway';
+
+const STATUSES: BookingStatus[] = ['pending', 'confirmed', 'checked_in', 'completed', 'cancelled'];
 
 export const AdminBookingsPage: React.FC = () => {
   const { user } = useAuth();
+  const { language, t, formatDate, formatTime, formatCurrency } = useI18n();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [spots, setSpots] = useState<ParkingSpot[]>([]);
-  const [customers, setCustomers] = useState<User[]>([]);
+  const [customers, setCustomers] = useState<Profile[]>([]);
+  const [charges, setCharges] = useState<Record<string, BookingCharge[]>>({});
+  const [pendingExtensions, setPendingExtensions] = useState<BookingExtension[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [expandedBookingId, setExpandedBookingId] = useState<string | null>(null);
 
   useEffect(() => {
     loadData();
   }, [user]);
 
+  useDataChanges(change => {
+    if (change.table === 'bookings' || change.table === 'payments') loadData();
+  });
+
   const loadData = async () => {
     if (!user) return;
     
@@ -29,16 +53,17 @@ export const AdminBookingsPage: React.FC = () => {
       setSpots(ownerSpots);
 
       // Get all bookings for owner's spots
-      const allBookings: Booking[] = [];
-      for (const spot of ownerSpots) {
-        const spotBookings = await database.getBookingsBySpotId(spot.id);
-        allBookings.push(...spotBookings);
-      }
-      setBookings(allBookings);
+      const hostBookings = await database.getBookingsByHost(user.id);
+      setBookings(hostBookings);
 
       // Get customer information
-      const allUsers = await database.getAllUsers();
-      setCustomers(allUsers.filter(u => u.userType === 'customer'));
+      const guestIds = [...new Set(hostBookings.map(b => b.guest_id))];
+      setCustomers(await database.getProfilesByIds(guestIds));
+
+      const bookingCharges = await Promise.all(hostBookings.map(b => database.getChargesByBooking(b.id)));
+      setCharges(Object.fromEntries(hostBookings.map((b, i) => [b.id, bookingCharges[i]])));
+
+      setPendingExtensions(await database.getExtensionsByHost(user.id, 'pending'));
     } catch (error) {
       console.error('Error loading bookings:', error);
     } finally {
@@ -50,50 +75,104 @@ export const AdminBookingsPage: React.FC = () => {
     switch (status) {
       case 'pending':
         return <Clock className="h-4 w-4 text-yellow-600" />;
-      case 'active':
+      case 'confirmed':
         return <CheckCircle className="h-4 w-4 text-green-600" />;
+      case 'checked_in':
+        return <LogIn className="h-4 w-4 text-purple-600" />;
       case 'completed':
         return <CheckCircle className="h-4 w-4 text-blue-600" />;
       case 'cancelled':
         return <XCircle className="h-4 w-4 text-red-600" />;
       default:
-        return <AlertCircle className="h-4 w-4 text-gray-600" />;
+        return <AlertCircle className="h-4 w-4 text-gray-600 dark:text-gray-400" />;
     }
   };
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'pending': return 'bg-yellow-100 text-yellow-800';
-      case 'active': return 'bg-green-100 text-green-800';
-      case 'completed': return 'bg-blue-100 text-blue-800';
-      case 'cancelled': return 'bg-red-100 text-red-800';
-      default: return 'bg-gray-100 text-gray-800';
+      case 'pending': return 'bg-yellow-100 text-yellow-800 dark:text-yellow-200';
+      case 'confirmed': return 'bg-green-100 text-green-800 dark:text-green-200';
+      case 'checked_in': return 'bg-purple-100 text-purple-800 dark:text-purple-200';
+      case 'completed': return 'bg-blue-100 text-blue-800 dark:text-blue-200';
+      case 'cancelled': return 'bg-red-100 text-red-800 dark:text-red-200';
+      default: return 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200';
     }
   };
 
-  const handleStatusUpdate = async (bookingId: string, newStatus: string) => {
+  // A host cancellation refunds a paid booking in full, so confirm first.
+  const handleCancel = async (booking: Booking) => {
+    if (!user) return;
+    const question = booking.payment_status === 'paid'
+      ? t('hostBookings.confirmCancelRefund', { amount: formatCurrency(booking.total_amount, booking.currency) })
+      : t('hostBookings.confirmCancel');
+    if (!confirm(question)) return;
+    const reason = prompt(t('hostBookings.cancelReasonPrompt'))?.trim() || undefined;
     try {
-      await database.updateBooking(bookingId, { status: newStatus as any });
-      loadData(); // Refresh the data
+      await cancelBookingWithRefund(booking.id, user.id, reason);
+      loadData();
     } catch (error) {
-      console.error('Error updating booking status:', error);
+      if (isBookingStateError(error)) {
+        alert(translateError(language, error));
+        loadData();
+        return;
+      }
+      console.error('Error cancelling booking:', error);
+    }
+  };
+
+  const handleCheckOut = async (bookingId: string) => {
+    if (!user) return;
+    try {
+      await database.checkOutBooking(bookingId, user.id);
+      loadData();
+    } catch (error) {
+      if (isBookingStateError(error)) {
+        alert(translateError(language, error));
+        loadData();
+        return;
+      }
+      console.error('Error checking out booking:', error);
+    }
+  };
+
+  const handleExtensionReview = async (extension: BookingExtension, decision: ExtensionDecision) => {
+    if (!user) return;
+    let reason: string | undefined;
+    if (decision === 'rejected') {
+      reason = prompt(t('hostBookings.declineReasonPrompt'))?.trim() || undefined;
+    }
+    try {
+      await database.reviewExtension(extension.id, decision, user.id, reason);
+      loadData();
+    } catch (error) {
+      if (
+        isExtensionStateError(error)
+        || isBookingStateError(error)
+        || isBookingConflictError(error)
+        || isSpotClosedError(error)
+      ) {
+        alert(translateError(language, error));
+        loadData();
+        return;
+      }
+      console.error('Error reviewing extension:', error);
     }
   };
 
   const filteredBookings = bookings.filter(booking => {
     const statusMatch = filterStatus === 'all' || booking.status === filterStatus;
-    const spot = spots.find(s => s.id === booking.spotId);
-    const customer = customers.find(c => c.id === booking.userId);
+    const spot = spots.find(s => s.id === booking.spot_id);
+    const customer = customers.find(c => c.id === booking.guest_id);
     const searchMatch = searchTerm === '' || 
-      (spot?.name.toLowerCase().includes(searchTerm.toLowerCase())) ||
-      (customer?.name.toLowerCase().includes(searchTerm.toLowerCase()));
+      (spot?.title.toLowerCase().includes(searchTerm.toLowerCase())) ||
+      (customer?.full_name.toLowerCase().includes(searchTerm.toLowerCase()));
     
     return statusMatch && searchMatch;
   });
 
-  if (isLoading) {
+  if (isLoading && bookings.length === 0) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
       </div>
     );
@@ -103,17 +182,17 @@ export const AdminBookingsPage: React.FC = () => {
     <div className="container py-8">
       <Card>
         <CardHeader>
-          <CardTitle>Booking Management</CardTitle>
+          <CardTitle>{t('hostBookings.title')}</CardTitle>
           <div className="flex flex-col md:flex-row gap-4 mt-4">
             {/* Search */}
             <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
               <input
                 type="text"
-                placeholder="Search by spot name or customer..."
+                placeholder={t('hostBookings.searchPlaceholder')}
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10 pr-4 py-2 border border-gray-200 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                className="pl-10 pr-4 py-2 border border-gray-200 dark:border-gray-700 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               />
             </div>
             
@@ -121,19 +200,18 @@ export const AdminBookingsPage: React.FC = () => {
             <select
               value={filterStatus}
               onChange={(e) => setFilterStatus(e.target.value)}
-              className="px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              className="px-4 py-2 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             >
-              <option value="all">All Status</option>
-              <option value="pending">Pending</option>
-              <option value="active">Active</option>
-              <option value="completed">Completed</option>
-              <option value="cancelled">Cancelled</option>
+              <option value="all">{t('hostBookings.allStatus')}</option>
+              {STATUSES.map(status => (
+                <option key={status} value={status}>{bookingStatusLabel(status, language)}</option>
+              ))}
             </select>
 
             {/* Export Button */}
             <button className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
               <Download className="h-4 w-4" />
-              <span>Export</span>
+              <span>{t('hostBookings.export')}</span>
             </button>
           </div>
         </CardHeader>
@@ -142,90 +220,165 @@ export const AdminBookingsPage: React.FC = () => {
             <div className="overflow-x-auto">
               <table className="w-full">
                 <thead>
-                  <tr className="border-b border-gray-200">
-                    <th className="text-left py-3 px-4 font-medium text-gray-700">Booking</th>
-                    <th className="text-left py-3 px-4 font-medium text-gray-700">Customer</th>
-                    <th className="text-left py-3 px-4 font-medium text-gray-700">Spot</th>
-                    <th className="text-left py-3 px-4 font-medium text-gray-700">Duration</th>
-                    <th className="text-left py-3 px-4 font-medium text-gray-700">Amount</th>
-                    <th className="text-left py-3 px-4 font-medium text-gray-700">Status</th>
-                    <th className="text-left py-3 px-4 font-medium text-gray-700">Actions</th>
+                  <tr className="border-b border-gray-200 dark:border-gray-700">
+                    <th className="text-left py-3 px-4 font-medium text-gray-700 dark:text-gray-300">{t('hostBookings.columns.booking')}</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700 dark:text-gray-300">{t('hostBookings.columns.customer')}</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700 dark:text-gray-300">{t('hostBookings.columns.spot')}</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700 dark:text-gray-300">{t('hostBookings.columns.duration')}</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700 dark:text-gray-300">{t('hostBookings.columns.amount')}</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700 dark:text-gray-300">{t('hostBookings.columns.status')}</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700 dark:text-gray-300">{t('hostBookings.columns.actions')}</th>
                   </tr>
                 </thead>
                 <tbody>
                   {filteredBookings.map((booking) => {
-                    const spot = spots.find(s => s.id === booking.spotId);
-                    const customer = customers.find(c => c.id === booking.userId);
+                    const spot = spots.find(s => s.id === booking.spot_id);
+                    const customer = customers.find(c => c.id === booking.guest_id);
+                    const overstay = overstayMinutes(booking);
+                    const extension = pendingExtensions.find(e => e.booking_id === booking.id);
                     
                     return (
-                      <tr key={booking.id} className="border-b border-gray-100 hover:bg-gray-50">
-                        <td className="py-4 px-4">
-                          <div>
-                            <div className="font-medium text-sm">#{booking.id.slice(0, 8)}</div>
-                            <div className="text-xs text-gray-500 flex items-center">
-                              <Calendar className="h-3 w-3 mr-1" />
-                              {new Date(booking.createdAt).toLocaleDateString()}
+                      <React.Fragment key={booking.id}>
+                        <tr className="border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700">
+                          <td className="py-4 px-4">
+                            <div>
+                              <div className="font-medium text-sm">#{booking.id.slice(0, 8)}</div>
+                              <div className="text-xs text-gray-500 flex items-center">
+                                <Calendar className="h-3 w-3 mr-1" />
+                                {formatDate(booking.created_at)}
+                              </div>
                             </div>
-                          </div>
-                        </td>
-                        <td className="py-4 px-4">
-                          <div className="font-medium text-sm">{customer?.name || 'Unknown'}</div>
-                          <div className="text-xs text-gray-500">{customer?.email}</div>
-                        </td>
-                        <td className="py-4 px-4">
-                          <div className="font-medium text-sm">{spot?.name || 'Unknown Spot'}</div>
-                          <div className="text-xs text-gray-500 flex items-center">
-                            <MapPin className="h-3 w-3 mr-1" />
-                            {spot?.address}
-                          </div>
-                        </td>
-                        <td className="py-4 px-4">
-                          <div className="text-sm">
-                            <div className="flex items-center">
-                              <Clock className="h-3 w-3 mr-1 text-gray-400" />
-                              {new Date(booking.startTime).toLocaleDateString()}
+                          </td>
+                          <td className="py-4 px-4">
+                            <div className="font-medium text-sm">{customer?.full_name || t('hostBookings.unknown')}</div>
+                            <div className="text-xs text-gray-500">{customer?.email}</div>
+                          </td>
+                          <td className="py-4 px-4">
+                            <div className="font-medium text-sm">{spot?.title || t('bookings.unknownSpot')}</div>
+                            <div className="text-xs text-gray-500 flex items-center">
+                              <MapPin className="h-3 w-3 mr-1" />
+                              {spot?.address}
                             </div>
-                            <div className="text-xs text-gray-500">
-                              {new Date(booking.startTime).toLocaleTimeString()} - {new Date(booking.endTime).toLocaleTimeString()}
+                          </td>
+                          <td className="py-4 px-4">
+                            <div className="text-sm">
+                              <div className="flex items-center">
+                                <Clock className="h-3 w-3 mr-1 text-gray-400" />
+                                {formatDate(booking.start_time)}
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                {formatTime(booking.start_time)} - {formatTime(booking.end_time)}
+                              </div>
+                              {booking.checked_in_at && (
+                                <div className="text-xs text-gray-500 flex items-center">
+                                  <LogIn className="h-3 w-3 mr-1" />
+                                  {t('hostBookings.in', { time: formatTime(booking.checked_in_at) })}
+                                </div>
+                              )}
+                              {booking.checked_out_at && (
+                                <div className="text-xs text-gray-500 flex items-center">
+                                  <LogOut className="h-3 w-3 mr-1" />
+                                  {t('hostBookings.out', { time: formatTime(booking.checked_out_at) })}
+                                </div>
+                              )}
+                              {overstay > 0 && (
+                                <div className="text-xs font-medium text-red-600">
+                                  {t('hostBookings.overstay', { duration: formatDuration(overstay, language) })}
+                                </div>
+                              )}
+                              {extension && (
+                                <div className="text-xs font-medium text-blue-600">
+                                  {t('hostBookings.extensionRequested', {
+                                    duration: formatDuration(extension.additional_minutes, language),
+                                    time: formatTime(extension.new_end_time),
+                                    amount: formatCurrency(extension.additional_cost, booking.currency),
+                                  })}
+                                </div>
+                              )}
                             </div>
-                          </div>
-                        </td>
-                        <td className="py-4 px-4">
-                          <div className="font-medium text-sm">${booking.totalCost}</div>
-                        </td>
-                        <td className="py-4 px-4">
-                          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(booking.status)}`}>
-                            {getStatusIcon(booking.status)}
-                            <span className="ml-1 capitalize">{booking.status}</span>
-                          </span>
-                        </td>
-                        <td className="py-4 px-4">
-                          <div className="flex items-center space-x-2">
-                            <button className="p-1 text-gray-400 hover:text-blue-600">
-                              <Eye className="h-4 w-4" />
-                            </button>
-                            {booking.status === 'pending' && (
-                              <>
-                                <button 
-                                  onClick={() => handleStatusUpdate(booking.id, 'active')}
-                                  className="p-1 text-gray-400 hover:text-green-600"
-                                >
-                                  <CheckCircle className="h-4 w-4" />
-                                </button>
+                          </td>
+                          <td className="py-4 px-4">
+                            <div className="font-medium text-sm">{formatCurrency(booking.total_amount, booking.currency)}</div>
+                            {(charges[booking.id] ?? []).map(charge => (
+                              <div key={charge.id} className="text-xs text-red-600" title={chargeDescription(charge, language)}>
+                                {t('hostBookings.charge', {
+                                  amount: formatCurrency(charge.amount, charge.currency),
+                                  kind: t(`hostBookings.chargeKinds.${charge.kind}`),
+                                  status: t(`bookings.chargeStatus.${charge.status}`),
+                                })}
+                              </div>
+                            ))}
+                            {!!booking.refund_amount && (
+                              <div className="text-xs text-green-700 dark:text-green-300" title={booking.cancellation_reason}>
+                                {t('hostBookings.refund', { amount: formatCurrency(booking.refund_amount, booking.currency) })}
+                              </div>
+                            )}
+                          </td>
+                          <td className="py-4 px-4">
+                            <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(booking.status)}`}>
+                              {getStatusIcon(booking.status)}
+                              <span className="ml-1">{bookingStatusLabel(booking.status, language)}</span>
+                            </span>
+                          </td>
+                          <td className="py-4 px-4">
+                            <div className="flex items-center space-x-2">
+                              <button
+                                onClick={() => setExpandedBookingId(expandedBookingId === booking.id ? null : booking.id)}
+                                className="p-1 text-gray-400 hover:text-blue-600"
+                                title={t('bookings.historyTitle')}
+                              >
+                                <Eye className="h-4 w-4" />
+                              </button>
+                              {canCancel(booking) && (
                                 <button 
-                                  onClick={() => handleStatusUpdate(booking.id, 'cancelled')}
+                                  onClick={() => handleCancel(booking)}
                                   className="p-1 text-gray-400 hover:text-red-600"
+                                  title={t('cancelBooking.cancel')}
                                 >
                                   <XCircle className="h-4 w-4" />
                                 </button>
-                              </>
-                            )}
-                            <button className="p-1 text-gray-400 hover:text-gray-600">
-                              <MoreHorizontal className="h-4 w-4" />
-                            </button>
-                          </div>
-                        </td>
-                      </tr>
+                              )}
+                              {extension && (
+                                <>
+                                  <button
+                                    onClick={() => handleExtensionReview(extension, 'approved')}
+                                    className="p-1 text-gray-400 hover:text-green-600"
+                                    title={t('hostBookings.approveExtension')}
+                                  >
+                                    <CalendarCheck className="h-4 w-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => handleExtensionReview(extension, 'rejected')}
+                                    className="p-1 text-gray-400 hover:text-red-600"
+                                    title={t('hostBookings.declineExtension')}
+                                  >
+                                    <CalendarX className="h-4 w-4" />
+                                  </button>
+                                </>
+                              )}
+                              {canCheckOut(booking) && (
+                                <button
+                                  onClick={() => handleCheckOut(booking.id)}
+                                  className="p-1 text-gray-400 hover:text-purple-600"
+                                  title={t('hostBookings.checkOut')}
+                                >
+                                  <LogOut className="h-4 w-4" />
+                                </button>
+                              )}
+                              <button className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-400">
+                                <MoreHorizontal className="h-4 w-4" />
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                        {expandedBookingId === booking.id && (
+                          <tr className="border-b border-gray-100 dark:border-gray-800 bg-gray-50 dark:bg-gray-900">
+                            <td colSpan={7} className="py-4 px-8">
+                              <BookingTimeline booking={booking} />
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
                     );
                   })}
                 </tbody>
@@ -234,11 +387,11 @@ export const AdminBookingsPage: React.FC = () => {
           ) : (
             <div className="text-center py-8">
               <Car className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                No bookings found
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">
+                {t('hostBookings.noneFound')}
               </h3>
-              <p className="text-gray-600">
-                {filterStatus !== 'all' || searchTerm ? 'Try adjusting your filters' : 'No bookings have been made yet'}
+              <p className="text-gray-600 dark:text-gray-400">
+                {filterStatus !== 'all' || searchTerm ? t('hostBookings.adjustFilters') : t('hostBookings.noneYet')}
               </p>
             </div>
           )}
@@ -18,20 +18,28 @@ import {
   MoreHorizontal,
   PieChart,
   CalendarDays,
-  MessageSquare
+  MessageSquare,
+  Receipt
 } from 'lucide-react';
 import { QRScanner } from '../components/QRScanner';
 import { database } from '../data/database';
 import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
 import { ParkingSpot, Booking } from '../types';
 import { AdminBookingsPage } from './AdminBookingsPage';
 import { AdminReviewsPage } from './AdminReviewsPage';
+import { AdminPaymentsPage } from './AdminPaymentsPage';
+import { useDataChanges } from '../hooks/useRealtime';
+import { bookingStatusLabel } from '../services/occupancy';
+import { currencyOf, mainCurrency, summarizeMoney } from '../services/currency';
+import { earnsRevenue } from '../services/payments';
 
 export const AdminDashboard: React.FC = () => {
   const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState<'home' | 'dashboard' | 'spots' | 'bookings' | 'reviews'>('home');
+  const { language, t, formatDate, formatNumber, formatCurrency } = useI18n();
+  const [activeTab, setActiveTab] = useState<'home' | 'dashboard' | 'spots' | 'bookings' | 'payments' | 'reviews'>('home');
   const [showQRScanner, setShowQRScanner] = useState(false);
-  const [scanResult, setScanResult] = useState<string | null>(null);
+  const [scanResult, setScanResult] = useState<Booking | null>(null);
   const [spots, setSpots] = useState<ParkingSpot[]>([]);
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -42,17 +50,17 @@ export const AdminDashboard: React.FC = () => {
     }
   }, [user]);
 
+  useDataChanges(change => {
+    if (change.table === 'bookings') loadDashboardData();
+  });
+
   const loadDashboardData = async () => {
     try {
-      const [ownerSpots, allBookings] = await Promise.all([
+      const [ownerSpots, ownerBookings] = await Promise.all([
         database.getParkingSpotsByOwner(user!.id),
-        database.getAllBookings()
+        database.getBookingsByHost(user!.id)
       ]);
       
-      // Filter bookings for owner's spots
-      const spotIds = ownerSpots.map(spot => spot.id);
-      const ownerBookings = allBookings.filter(booking => spotIds.includes(booking.spotId));
-      
       setSpots(ownerSpots);
       setBookings(ownerBookings);
     } catch (error) {
@@ -62,31 +70,60 @@ export const AdminDashboard: React.FC = () => {
     }
   };
 
+  // Spots can be priced in different currencies, so revenue is totalled per
+  // currency and shown converted into the one most of the spots use.
+  const revenueOn = (day: Date) => summarizeMoney(
+    bookings
+      .filter(b => earnsRevenue(b) && new Date(b.start_time).toDateString() === day.toDateString())
+      .map(b => ({ amount: b.total_amount, currency: currencyOf(b) })),
+    mainCurrency(spots)
+  );
+  const today = new Date();
+  const todaysRevenue = revenueOn(today);
+  const yesterdaysRevenue = revenueOn(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1));
+  // Against yesterday; there is nothing to compare with after a day without revenue.
+  const revenueChange = yesterdaysRevenue.total.amount > 0
+    ? formatNumber(todaysRevenue.total.amount / yesterdaysRevenue.total.amount - 1, {
+        style: 'percent',
+        signDisplay: 'exceptZero',
+        maximumFractionDigits: 0,
+      })
+    : undefined;
+  const mixedCurrencies = todaysRevenue.byCurrency.length > 1;
+  const revenueShown = todaysRevenue.byCurrency.length === 1 ? todaysRevenue.byCurrency[0] : todaysRevenue.total;
+  const revenueText = formatCurrency(revenueShown.amount, revenueShown.currency);
+
   const stats = [
     { 
-      label: 'Today\'s Revenue', 
-      value: `$${bookings.filter(b => new Date(b.startTime).toDateString() === new Date().toDateString()).reduce((sum, b) => sum + b.totalCost, 0)}`, 
-      change: '+15%', 
+      label: t('hostDashboard.todaysRevenue'), 
+      value: mixedCurrencies ? t('hostDashboard.approxAmount', { amount: revenueText }) : revenueText,
+      detail: mixedCurrencies
+        ? todaysRevenue.byCurrency.map(money => formatCurrency(money.amount, money.currency)).join(' + ')
+        : undefined,
+      change: revenueChange,
       icon: DollarSign, 
       color: 'text-green-600' 
     },
     { 
-      label: 'Active Bookings', 
-      value: bookings.filter(b => b.status === 'active').length.toString(), 
+      label: t('hostDashboard.activeBookings'), 
+      value: formatNumber(bookings.filter(b => b.status === 'confirmed' || b.status === 'checked_in').length), 
       change: '+8%', 
       icon: Calendar, 
       color: 'text-blue-600' 
     },
     { 
-      label: 'Total Spots', 
-      value: spots.length.toString(), 
+      label: t('hostDashboard.totalSpots'), 
+      value: formatNumber(spots.length), 
       change: '0%', 
       icon: MapPin, 
       color: 'text-purple-600' 
     },
     { 
-      label: 'Avg Rating', 
-      value: spots.length > 0 ? (spots.reduce((sum, spot) => sum + spot.rating, 0) / spots.length).toFixed(1) : '0', 
+      label: t('hostDashboard.avgRating'), 
+      value: formatNumber(spots.length > 0 ? spots.reduce((sum, spot) => sum + (spot.rating ?? 0), 0) / spots.length : 0, {
+        minimumFractionDigits: 1,
+        maximumFractionDigits: 1,
+      }), 
       change: '+0.2', 
       icon: Star, 
       color: 'text-yellow-600' 
@@ -94,77 +131,79 @@ export const AdminDashboard: React.FC = () => {
   ];
 
   const todayBookings = bookings.filter(b => 
-    new Date(b.startTime).toDateString() === new Date().toDateString()
+    new Date(b.start_time).toDateString() === today.toDateString()
   ).slice(0, 3);
 
-  const handleQRScan = (data: string) => {
-    setScanResult(data);
+  const handleQRScan = (booking: Booking) => {
+    setScanResult(booking);
     setShowQRScanner(false);
-    console.log('Scanned data:', data);
+    loadDashboardData();
   };
 
   const HomeSection = () => (
     <div className="space-y-6">
       {/* QR Scanner Section */}
-      <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md p-6">
         <div className="text-center">
           <div className="w-20 h-20 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
             <QrCode className="h-10 w-10 text-blue-600" />
           </div>
-          <h3 className="text-xl font-bold text-gray-900 mb-2">
-            Entry Validation
+          <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+            {t('scanner.title')}
           </h3>
-          <p className="text-gray-600 mb-6">
-            Scan customer QR codes or enter PIN for parking entry validation
+          <p className="text-gray-600 dark:text-gray-400 mb-6">
+            {t('hostDashboard.scannerText')}
           </p>
           <button
             onClick={() => setShowQRScanner(true)}
             className="bg-blue-600 text-white px-8 py-4 rounded-lg font-semibold hover:bg-blue-700 transition-colors text-lg"
           >
-            Open Scanner
+            {t('hostDashboard.openScanner')}
           </button>
           
           {scanResult && (
-            <div className="mt-4 p-4 bg-green-50 rounded-lg">
-              <div className="flex items-center justify-center space-x-2 text-green-800">
+            <div className="mt-4 p-4 bg-green-50 dark:bg-green-900/30 rounded-lg">
+              <div className="flex items-center justify-center space-x-2 text-green-800 dark:text-green-200">
                 <CheckCircle className="h-5 w-5" />
-                <span className="font-medium">Entry Validated</span>
+                <span className="font-medium">
+                  {scanResult.status === 'checked_in' ? t('bookingEvents.checked_in') : t('bookingEvents.completed')}
+                </span>
               </div>
-              <p className="text-sm text-green-700 mt-1">Code: {scanResult}</p>
+              <p className="text-sm text-green-700 dark:text-green-300 mt-1">{t('manageAvailability.bookingNumber', { id: scanResult.id.slice(0, 8) })}</p>
             </div>
           )}
         </div>
       </div>
 
       {/* Today's Summary */}
-      <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md p-6">
         <div className="flex items-center justify-between mb-4">
-          <h3 className="text-lg font-semibold text-gray-900">Today's Bookings</h3>
-          <span className="text-sm text-gray-500">{new Date().toLocaleDateString()}</span>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{t('hostDashboard.todaysBookings')}</h3>
+          <span className="text-sm text-gray-500">{formatDate(new Date())}</span>
         </div>
         
         {todayBookings.length > 0 ? (
           <div className="space-y-3">
             {todayBookings.map((booking) => {
-              const spot = spots.find(s => s.id === booking.spotId);
+              const spot = spots.find(s => s.id === booking.spot_id);
               return (
-                <div key={booking.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div key={booking.id} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-900 rounded-lg">
                   <div className="flex-1">
                     <div className="flex items-center space-x-3">
-                      <span className="font-medium text-gray-900">Booking #{booking.id.slice(-6)}</span>
+                      <span className="font-medium text-gray-900 dark:text-gray-100">{t('manageAvailability.bookingNumber', { id: booking.id.slice(-6) })}</span>
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                        booking.status === 'active' ? 'bg-green-100 text-green-800' :
-                        booking.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                        'bg-gray-100 text-gray-800'
+                        booking.status === 'confirmed' ? 'bg-green-100 text-green-800 dark:text-green-200' :
+                        booking.status === 'pending' ? 'bg-yellow-100 text-yellow-800 dark:text-yellow-200' :
+                        'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
                       }`}>
-                        {booking.status}
+                        {bookingStatusLabel(booking.status, language)}
                       </span>
                     </div>
-                    <div className="text-sm text-gray-600 mt-1">
-                      {spot?.name} • ${booking.totalCost}
+                    <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                      {spot?.title} • {formatCurrency(booking.total_amount, booking.currency)}
                     </div>
                   </div>
-                  <button className="p-2 hover:bg-gray-200 rounded-lg transition-colors">
+                  <button className="p-2 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors">
                     <MoreHorizontal className="h-4 w-4 text-gray-500" />
                   </button>
                 </div>
@@ -172,24 +211,24 @@ export const AdminDashboard: React.FC = () => {
             })}
           </div>
         ) : (
-          <p className="text-gray-500 text-center py-4">No bookings today</p>
+          <p className="text-gray-500 text-center py-4">{t('hostDashboard.noBookingsToday')}</p>
         )}
       </div>
 
       {/* Quick Actions */}
-      <div className="bg-white rounded-xl shadow-md p-6">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md p-6">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">{t('hostDashboard.quickActions')}</h3>
         <div className="grid grid-cols-2 gap-4">
           <Link
             to="/admin/add-spot"
-            className="flex items-center space-x-3 p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+            className="flex items-center space-x-3 p-4 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
           >
             <Plus className="h-6 w-6 text-blue-600" />
-            <span className="font-medium">Add Parking Spot</span>
+            <span className="font-medium">{t('spotForm.addSubmit')}</span>
           </Link>
-          <button className="flex items-center space-x-3 p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors">
+          <button className="flex items-center space-x-3 p-4 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
             <Bell className="h-6 w-6 text-blue-600" />
-            <span className="font-medium">Notifications</span>
+            <span className="font-medium">{t('nav.notifications')}</span>
           </button>
         </div>
       </div>
@@ -203,7 +242,7 @@ export const AdminDashboard: React.FC = () => {
         {stats.map((stat, index) => {
           const Icon = stat.icon;
           return (
-            <div key={index} className="bg-white rounded-xl shadow-md p-6">
+            <div key={index} className="bg-white dark:bg-gray-800 rounded-xl shadow-md p-6">
               <div className="flex items-center justify-between mb-4">
                 <div className={`w-12 h-12 rounded-lg flex items-center justify-center ${
                   stat.color === 'text-green-600' ? 'bg-green-100' :
@@ -213,18 +252,25 @@ export const AdminDashboard: React.FC = () => {
                 }`}>
                   <Icon className={`h-6 w-6 ${stat.color}`} />
                 </div>
-                <span className={`text-sm font-medium ${
-                  stat.change.startsWith('+') ? 'text-green-600' : 'text-gray-600'
-                }`}>
-                  {stat.change}
-                </span>
+                {stat.change && (
+                  <span className={`text-sm font-medium ${
+                    stat.change.startsWith('+') ? 'text-green-600' : 'text-gray-600 dark:text-gray-400'
+                  }`}>
+                    {stat.change}
+                  </span>
+                )}
               </div>
-              <div className="text-2xl font-bold text-gray-900 mb-1">
+              <div className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-1">
                 {stat.value}
               </div>
-              <div className="text-sm text-gray-600">
+              <div className="text-sm text-gray-600 dark:text-gray-400">
                 {stat.label}
               </div>
+              {stat.detail && (
+                <div className="text-xs text-gray-500 mt-1">
+                  {stat.detail}
+                </div>
+              )}
             </div>
           );
         })}
@@ -232,22 +278,22 @@ export const AdminDashboard: React.FC = () => {
 
       {/* Charts Row */}
       <div className="grid lg:grid-cols-2 gap-6">
-        <div className="bg-white rounded-xl shadow-md p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">Revenue Trend</h3>
-          <div className="h-64 bg-gray-50 rounded-lg flex items-center justify-center">
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md p-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">{t('hostDashboard.revenueTrend')}</h3>
+          <div className="h-64 bg-gray-50 dark:bg-gray-900 rounded-lg flex items-center justify-center">
             <div className="text-center">
               <TrendingUp className="h-12 w-12 text-gray-400 mx-auto mb-2" />
-              <p className="text-gray-500">Revenue chart would be here</p>
+              <p className="text-gray-500">{t('hostDashboard.revenueChart')}</p>
             </div>
           </div>
         </div>
         
-        <div className="bg-white rounded-xl shadow-md p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">Booking Distribution</h3>
-          <div className="h-64 bg-gray-50 rounded-lg flex items-center justify-center">
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md p-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">{t('hostDashboard.bookingDistribution')}</h3>
+          <div className="h-64 bg-gray-50 dark:bg-gray-900 rounded-lg flex items-center justify-center">
             <div className="text-center">
               <PieChart className="h-12 w-12 text-gray-400 mx-auto mb-2" />
-              <p className="text-gray-500">Booking distribution chart</p>
+              <p className="text-gray-500">{t('hostDashboard.bookingDistributionChart')}</p>
             </div>
           </div>
         </div>
@@ -257,60 +303,60 @@ export const AdminDashboard: React.FC = () => {
 
   const SpotsSection = () => (
     <div className="space-y-6">
-      <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md p-6">
         <div className="flex items-center justify-between mb-6">
-          <h3 className="text-lg font-semibold text-gray-900">My Parking Spots</h3>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{t('hostDashboard.mySpots')}</h3>
           <Link
             to="/admin/add-spot"
             className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
           >
             <Plus className="h-4 w-4" />
-            <span>Add New Spot</span>
+            <span>{t('hostDashboard.addNewSpot')}</span>
           </Link>
         </div>
 
         {spots.length > 0 ? (
           <div className="space-y-4">
             {spots.map((spot) => (
-              <div key={spot.id} className="border border-gray-200 rounded-lg p-4">
+              <div key={spot.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
                 <div className="flex items-center justify-between">
                   <div className="flex-1">
                     <div className="flex items-center space-x-3 mb-2">
-                      <h4 className="font-semibold text-gray-900">{spot.name}</h4>
+                      <h4 className="font-semibold text-gray-900 dark:text-gray-100">{spot.title}</h4>
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                        spot.isActive 
-                          ? 'bg-green-100 text-green-800' 
-                          : 'bg-gray-100 text-gray-800'
+                        spot.is_available 
+                          ? 'bg-green-100 text-green-800 dark:text-green-200' 
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
                       }`}>
-                        {spot.isActive ? 'Active' : 'Inactive'}
+                        {spot.is_available ? t('hostDashboard.active') : t('hostDashboard.inactive')}
                       </span>
                     </div>
-                    <p className="text-sm text-gray-600 mb-1">{spot.address}</p>
-                    <div className="flex items-center space-x-4 text-sm text-gray-600">
-                      <span>{spot.availableSlots}/{spot.totalSlots} available</span>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">{spot.address}</p>
+                    <div className="flex items-center space-x-4 text-sm text-gray-600 dark:text-gray-400">
+                      <span>{t('hostDashboard.slotsAvailable', { available: spot.available_slots, total: spot.total_slots })}</span>
                       <span>•</span>
-                      <span>${spot.price}/{spot.priceType}</span>
+                      <span>{t('common.perHour', { price: formatCurrency(spot.hourly_rate, spot.currency) })}</span>
                     </div>
                   </div>
                   <div className="flex items-center space-x-2">
-                    <button className="p-2 text-gray-600 hover:text-blue-600 transition-colors">
+                    <button className="p-2 text-gray-600 dark:text-gray-400 hover:text-blue-600 transition-colors">
                       <Eye className="h-4 w-4" />
                     </button>
                     <Link
                       to={`/admin/edit-spot/${spot.id}`}
-                      className="p-2 text-gray-600 hover:text-blue-600 transition-colors"
+                      className="p-2 text-gray-600 dark:text-gray-400 hover:text-blue-600 transition-colors"
                     >
                       <Edit className="h-4 w-4" />
                     </Link>
                     <Link
                       to={`/admin/availability/${spot.id}`}
-                      className="p-2 text-gray-600 hover:text-purple-600 transition-colors"
-                      title="Manage Availability"
+                      className="p-2 text-gray-600 dark:text-gray-400 hover:text-purple-600 transition-colors"
+                      title={t('manageAvailability.title')}
                     >
                       <CalendarDays className="h-4 w-4" />
                     </Link>
-                    <button className="p-2 text-gray-600 hover:text-blue-600 transition-colors">
-                      {spot.isActive ? <ToggleRight className="h-5 w-5" /> : <ToggleLeft className="h-5 w-5" />}
+                    <button className="p-2 text-gray-600 dark:text-gray-400 hover:text-blue-600 transition-colors">
+                      {spot.is_available ? <ToggleRight className="h-5 w-5" /> : <ToggleLeft className="h-5 w-5" />}
                     </button>
                   </div>
                 </div>
@@ -320,18 +366,18 @@ export const AdminDashboard: React.FC = () => {
         ) : (
           <div className="text-center py-8">
             <MapPin className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">
-              No parking spots yet
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">
+              {t('hostDashboard.noSpots')}
             </h3>
-            <p className="text-gray-600 mb-4">
-              Create your first parking spot to start earning revenue.
+            <p className="text-gray-600 dark:text-gray-400 mb-4">
+              {t('hostDashboard.noSpotsText')}
             </p>
             <Link
               to="/admin/add-spot"
               className="inline-flex items-center space-x-2 bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors"
             >
               <Plus className="h-5 w-5" />
-              <span>Add Your First Spot</span>
+              <span>{t('hostDashboard.addFirstSpot')}</span>
             </Link>
           </div>
         )}
@@ -345,6 +391,7 @@ export const AdminDashboard: React.FC = () => {
       case 'dashboard': return <DashboardSection />;
       case 'spots': return <SpotsSection />;
       case 'bookings': return <AdminBookingsPage />;
+      case 'payments': return <AdminPaymentsPage />;
       case 'reviews': return <AdminReviewsPage />;
       default: return <HomeSection />;
     }
@@ -352,36 +399,37 @@ export const AdminDashboard: React.FC = () => {
 
   if (isLoading) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading dashboard...</p>
+          <p className="text-gray-600 dark:text-gray-400">{t('hostDashboard.loading')}</p>
         </div>
       </div>
     );
   }
 
   return (
-    <div className="min-h-screen bg-gray-50">
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <div className="max-w-7xl mx-auto px-4 py-8">
         <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">
-            Parking Owner Dashboard
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+            {t('hostDashboard.title')}
           </h1>
-          <p className="text-gray-600">
-            Manage your parking spots and monitor performance
+          <p className="text-gray-600 dark:text-gray-400">
+            {t('hostDashboard.subtitle')}
           </p>
         </div>
 
         {/* Navigation Tabs */}
-        <div className="bg-white rounded-xl shadow-md mb-6">
-          <div className="flex border-b border-gray-200 overflow-x-auto">
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md mb-6">
+          <div className="flex border-b border-gray-200 dark:border-gray-700 overflow-x-auto">
             {[
-              { id: 'home', label: 'Home', icon: QrCode },
-              { id: 'dashboard', label: 'Dashboard', icon: BarChart3 },
-              { id: 'spots', label: 'My Spots', icon: MapPin },
-              { id: 'bookings', label: 'Bookings', icon: Calendar/* , link: '/admin/bookings'  */},
-              { id: 'reviews', label: 'Reviews', icon: MessageSquare/* , link: '/admin/reviews'  */},
+              { id: 'home', label: t('hostDashboard.tabs.home'), icon: QrCode },
+              { id: 'dashboard', label: t('hostDashboard.tabs.dashboard'), icon: BarChart3 },
+              { id: 'spots', label: t('hostDashboard.tabs.spots'), icon: MapPin },
+              { id: 'bookings', label: t('hostDashboard.tabs.bookings'), icon: Calendar/* , link: '/admin/bookings'  */},
+              { id: 'payments', label: t('hostDashboard.tabs.payments'), icon: Receipt },
+              { id: 'reviews', label: t('hostDashboard.tabs.reviews'), icon: MessageSquare/* , link: '/admin/reviews'  */},
             ].map((tab) => {
               const Icon = tab.icon;
               /* if (tab.link) {
@@ -389,7 +437,7 @@ export const AdminDashboard: React.FC = () => {
                   <Link
                     key={tab.id}
                     to={tab.link}
-                    className="flex items-center space-x-2 py-4 px-6 font-medium text-gray-600 hover:text-gray-900 transition-colors whitespace-nowrap"
+                    className="flex items-center space-x-2 py-4 px-6 font-medium text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 transition-colors whitespace-nowrap"
                   >
                     <Icon className="h-5 w-5" />
                     <span>{tab.label}</span>
@@ -402,8 +450,8 @@ export const AdminDashboard: React.FC = () => {
                   onClick={() => setActiveTab(tab.id as any)}
                   className={`flex items-center space-x-2 py-4 px-6 font-medium transition-colors whitespace-nowrap ${
                     activeTab === tab.id
-                      ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
-                      : 'text-gray-600 hover:text-gray-900'
+                      ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50 dark:bg-blue-900/30'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
                   }`}
                 >
                   <Icon className="h-5 w-5" />
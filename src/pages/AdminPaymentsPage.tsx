@@ -0,0 +1,298 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { CheckCircle, XCircle, Clock, FileText, ExternalLink, Receipt } from 'lucide-react';
+import { database } from '../data/database';
+import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { translateError } from '../i18n/errors';
+import { Booking, ParkingSpot, Payment, PaymentDecision, Profile } from '../types';
+import { isPaymentStateError } from '../data/errors';
+import { isPdfSlip } from '../services/payments';
+import { bookingStatusLabel } from '../services/occupancy';
+import { useDataChanges } from '../hooks/useRealtime';
+
+type StatusFilter = Payment['status'] | 'all';
+
+export const AdminPaymentsPage: React.FC = () => {
+  const { user } = useAuth();
+  const { language, t, formatDateTime, formatCurrency } = useI18n();
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [spots, setSpots] = useState<ParkingSpot[]>([]);
+  const [customers, setCustomers] = useState<Profile[]>([]);
+  const [filterStatus, setFilterStatus] = useState<StatusFilter>('submitted');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadData = async () => {
+      setIsLoading(true);
+      try {
+        const [hostPayments, hostBookings, ownerSpots] = await Promise.all([
+          database.getPaymentsByHost(user.id, filterStatus === 'all' ? undefined : filterStatus),
+          database.getBookingsByHost(user.id),
+          database.getParkingSpotsByOwner(user.id),
+        ]);
+        setPayments(hostPayments);
+        setBookings(hostBookings);
+        setSpots(ownerSpots);
+        setCustomers(await database.getProfilesByIds([...new Set(hostPayments.map(p => p.payer_id))]));
+        setSelectedId(current =>
+          current && hostPayments.some(p => p.id === current) ? current : hostPayments[0]?.id ?? null
+        );
+      } catch (error) {
+        console.error('Error loading payments:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadData();
+  }, [user, filterStatus, reloadKey]);
+
+  useDataChanges(change => {
+    if (change.table === 'payments') setReloadKey(k => k + 1);
+  });
+
+  const handleReview = async (payment: Payment, decision: PaymentDecision) => {
+    if (!user) return;
+    if (decision === 'rejected' && !rejectReason.trim()) {
+      setReviewError(t('hostPayments.reasonRequired'));
+      return;
+    }
+
+    setIsReviewing(true);
+    setReviewError(null);
+    try {
+      await database.reviewPayment(
+        payment.id,
+        decision,
+        user.id,
+        decision === 'rejected' ? rejectReason.trim() : undefined
+      );
+      setRejectReason('');
+      setReloadKey(k => k + 1);
+    } catch (error) {
+      if (isPaymentStateError(error)) {
+        setReviewError(translateError(language, error));
+        setReloadKey(k => k + 1);
+        return;
+      }
+      console.error('Error reviewing payment:', error);
+      setReviewError(t('hostPayments.reviewFailed'));
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  const getStatusBadge = (status: Payment['status']) => {
+    switch (status) {
+      case 'submitted':
+        return (
+          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 dark:text-yellow-200">
+            <Clock className="h-3 w-3 mr-1" />
+            {t('hostPayments.statuses.submitted')}
+          </span>
+        );
+      case 'approved':
+        return (
+          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:text-green-200">
+            <CheckCircle className="h-3 w-3 mr-1" />
+            {t('hostPayments.statuses.approved')}
+          </span>
+        );
+      case 'rejected':
+        return (
+          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:text-red-200">
+            <XCircle className="h-3 w-3 mr-1" />
+            {t('hostPayments.statuses.rejected')}
+          </span>
+        );
+    }
+  };
+
+  const selected = payments.find(p => p.id === selectedId) ?? null;
+  const selectedBooking = selected ? bookings.find(b => b.id === selected.booking_id) : undefined;
+  const selectedSpot = selectedBooking ? spots.find(s => s.id === selectedBooking.spot_id) : undefined;
+  const selectedCustomer = selected ? customers.find(c => c.id === selected.payer_id) : undefined;
+
+  if (isLoading && payments.length === 0) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('hostPayments.title')}</CardTitle>
+          <div className="flex gap-4 mt-4">
+            <select
+              value={filterStatus}
+              onChange={(e) => setFilterStatus(e.target.value as StatusFilter)}
+              className="px-4 py-2 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="submitted">{t('hostPayments.statuses.submitted')}</option>
+              <option value="approved">{t('hostPayments.statuses.approved')}</option>
+              <option value="rejected">{t('hostPayments.statuses.rejected')}</option>
+              <option value="all">{t('hostPayments.all')}</option>
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {payments.length > 0 ? (
+            <div className="grid lg:grid-cols-5 gap-6">
+              {/* Queue */}
+              <div className="lg:col-span-2 space-y-2">
+                {payments.map((payment) => {
+                  const booking = bookings.find(b => b.id === payment.booking_id);
+                  const spot = booking ? spots.find(s => s.id === booking.spot_id) : undefined;
+                  const customer = customers.find(c => c.id === payment.payer_id);
+
+                  return (
+                    <button
+                      key={payment.id}
+                      type="button"
+                      onClick={() => {
+                        setSelectedId(payment.id);
+                        setRejectReason('');
+                        setReviewError(null);
+                      }}
+                      className={`w-full text-left p-4 border rounded-lg transition-colors ${
+                        payment.id === selectedId ? 'border-blue-600 bg-blue-50 dark:bg-blue-900/30' : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-sm">{customer?.full_name || t('hostBookings.unknown')}</span>
+                        {getStatusBadge(payment.status)}
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {spot?.title || t('bookings.unknownSpot')} • #{payment.booking_id.slice(0, 8)}
+                      </div>
+                      <div className="flex items-center justify-between mt-1 text-sm">
+                        <span>{formatCurrency(payment.amount, payment.currency)}</span>
+                        <span className="text-xs text-gray-500">
+                          {formatDateTime(payment.created_at)}
+                        </span>
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+
+              {/* Slip and decision */}
+              {selected && (
+                <div className="lg:col-span-3 space-y-4">
+                  <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden bg-gray-50 dark:bg-gray-900">
+                    {isPdfSlip(selected) ? (
+                      <object data={selected.slip_url} type="application/pdf" className="w-full h-96">
+                        <div className="p-6 text-center text-sm text-gray-600 dark:text-gray-400">
+                          <FileText className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                          {t('hostPayments.noPdfPreview')}
+                        </div>
+                      </object>
+                    ) : (
+                      <img
+                        src={selected.slip_url}
+                        alt={t('bookings.slipAlt')}
+                        className="w-full max-h-96 object-contain"
+                      />
+                    )}
+                  </div>
+                  <a
+                    href={selected.slip_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <ExternalLink className="h-4 w-4 mr-1" />
+                    {t('hostPayments.openOriginal')}
+                  </a>
+
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    <div className="text-gray-500">{t('hostPayments.guest')}</div>
+                    <div>{selectedCustomer?.full_name || t('hostBookings.unknown')}</div>
+                    <div className="text-gray-500">{t('hostBookings.columns.spot')}</div>
+                    <div>{selectedSpot?.title || t('bookings.unknownSpot')}</div>
+                    <div className="text-gray-500">{t('hostBookings.columns.booking')}</div>
+                    <div>
+                      {selectedBooking
+                        ? `${formatDateTime(selectedBooking.start_time)} (${bookingStatusLabel(selectedBooking.status, language)})`
+                        : `#${selected.booking_id.slice(0, 8)}`}
+                    </div>
+                    <div className="text-gray-500">{t('hostPayments.amountDue')}</div>
+                    <div className="font-medium">{formatCurrency(selected.amount, selected.currency)}</div>
+                    {selected.transaction_id && (
+                      <>
+                        <div className="text-gray-500">{t('hostPayments.reference')}</div>
+                        <div>{selected.transaction_id}</div>
+                      </>
+                    )}
+                    {selected.failure_reason && (
+                      <>
+                        <div className="text-gray-500">{t('hostPayments.rejectionReason')}</div>
+                        <div>{selected.failure_reason}</div>
+                      </>
+                    )}
+                  </div>
+
+                  {selected.status === 'submitted' && (
+                    <div className="space-y-3 border-t pt-4">
+                      <textarea
+                        value={rejectReason}
+                        onChange={(e) => setRejectReason(e.target.value)}
+                        placeholder={t('hostPayments.rejectPlaceholder')}
+                        rows={2}
+                        className="w-full px-4 py-2 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                      />
+                      {reviewError && (
+                        <p className="text-sm text-red-600">{reviewError}</p>
+                      )}
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => handleReview(selected, 'approved')}
+                          disabled={isReviewing}
+                          className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                        >
+                          <CheckCircle className="h-4 w-4" />
+                          <span>{t('hostPayments.approve')}</span>
+                        </button>
+                        <button
+                          onClick={() => handleReview(selected, 'rejected')}
+                          disabled={isReviewing}
+                          className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                        >
+                          <XCircle className="h-4 w-4" />
+                          <span>{t('hostPayments.reject')}</span>
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <Receipt className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">
+                {t('hostPayments.noneFound')}
+              </h3>
+              <p className="text-gray-600 dark:text-gray-400">
+                {filterStatus === 'submitted' ? t('hostPayments.noneWaiting') : t('hostPayments.tryOtherFilter')}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
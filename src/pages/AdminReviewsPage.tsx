@@ -4,13 +4,16 @@ import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Star, Calendar, User } from 'lucide-react';
 import { database } from '../data/database';
 import { useAuth } from '../context/AuthContext';
-import { Review, ParkingSpot, User as UserType } from '../types';
+import { useI18n } from '../context/I18nContext';
+import { Review, ParkingSpot, Profile } from '../types';
+import { useDataChanges } from '../hooks/useRealtime';
 
 export const AdminReviewsPage: React.FC = () => {
   const { user } = useAuth();
+  const { t, formatDate, formatNumber } = useI18n();
   const [reviews, setReviews] = useState<Review[]>([]);
   const [spots, setSpots] = useState<ParkingSpot[]>([]);
-  const [customers, setCustomers] = useState<UserType[]>([]);
+  const [customers, setCustomers] = useState<Profile[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedSpot, setSelectedSpot] = useState<string>('all');
 
@@ -18,6 +21,10 @@ export const AdminReviewsPage: React.FC = () => {
     loadData();
   }, [user]);
 
+  useDataChanges(change => {
+    if (change.table === 'reviews') loadData();
+  });
+
   const loadData = async () => {
     if (!user) return;
     
@@ -36,8 +43,8 @@ export const AdminReviewsPage: React.FC = () => {
       setReviews(allReviews);
 
       // Get customer information
-      const allUsers = await database.getAllUsers();
-      setCustomers(allUsers.filter((u: UserType) => u.userType === 'customer'));
+      const reviewerIds = [...new Set(allReviews.map(r => r.reviewer_id))];
+      setCustomers(await database.getProfilesByIds(reviewerIds));
     } catch (error) {
       console.error('Error loading reviews:', error);
     } finally {
@@ -70,16 +77,16 @@ export const AdminReviewsPage: React.FC = () => {
   };
 
   const filteredReviews = reviews.filter(review => 
-    selectedSpot === 'all' || review.spotId === selectedSpot
+    selectedSpot === 'all' || review.spot_id === selectedSpot
   );
 
   const averageRating = filteredReviews.length > 0 
     ? filteredReviews.reduce((sum, review) => sum + review.rating, 0) / filteredReviews.length 
     : 0;
 
-  if (isLoading) {
+  if (isLoading && reviews.length === 0) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
       </div>
     );
@@ -95,8 +102,8 @@ export const AdminReviewsPage: React.FC = () => {
               <div className="flex items-center">
                 <Star className="h-8 w-8 text-yellow-400" />
                 <div className="ml-4">
-                  <p className="text-sm font-medium text-gray-600">Average Rating</p>
-                  <p className="text-2xl font-bold text-gray-900">{averageRating.toFixed(1)}</p>
+                  <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t('hostReviews.averageRating')}</p>
+                  <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">{formatNumber(averageRating, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}</p>
                 </div>
               </div>
             </CardContent>
@@ -107,8 +114,8 @@ export const AdminReviewsPage: React.FC = () => {
               <div className="flex items-center">
                 <User className="h-8 w-8 text-blue-600" />
                 <div className="ml-4">
-                  <p className="text-sm font-medium text-gray-600">Total Reviews</p>
-                  <p className="text-2xl font-bold text-gray-900">{filteredReviews.length}</p>
+                  <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t('hostReviews.totalReviews')}</p>
+                  <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">{filteredReviews.length}</p>
                 </div>
               </div>
             </CardContent>
@@ -119,10 +126,10 @@ export const AdminReviewsPage: React.FC = () => {
               <div className="flex items-center">
                 <Calendar className="h-8 w-8 text-green-600" />
                 <div className="ml-4">
-                  <p className="text-sm font-medium text-gray-600">This Month</p>
-                  <p className="text-2xl font-bold text-gray-900">
+                  <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t('hostReviews.thisMonth')}</p>
+                  <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">
                     {filteredReviews.filter(r => 
-                      new Date(r.createdAt).getMonth() === new Date().getMonth()
+                      new Date(r.created_at).getMonth() === new Date().getMonth()
                     ).length}
                   </p>
                 </div>
@@ -134,17 +141,17 @@ export const AdminReviewsPage: React.FC = () => {
         {/* Reviews Management */}
         <Card>
           <CardHeader>
-            <CardTitle>Reviews & Feedback</CardTitle>
+            <CardTitle>{t('hostReviews.title')}</CardTitle>
             <div className="flex gap-4 mt-4">
               <select
                 value={selectedSpot}
                 onChange={(e) => setSelectedSpot(e.target.value)}
-                className="px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                className="px-4 py-2 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               >
-                <option value="all">All Spots</option>
+                <option value="all">{t('hostReviews.allSpots')}</option>
                 {spots.map((spot) => (
                   <option key={spot.id} value={spot.id}>
-                    {spot.name}
+                    {spot.title}
                   </option>
                 ))}
               </select>
@@ -154,48 +161,48 @@ export const AdminReviewsPage: React.FC = () => {
             {filteredReviews.length > 0 ? (
               <div className="space-y-6">
                 {filteredReviews.map((review) => {
-                  const spot = spots.find(s => s.id === review.spotId);
-                  const customer = customers.find(c => c.id === review.userId);
+                  const spot = spots.find(s => s.id === review.spot_id);
+                  const customer = customers.find(c => c.id === review.reviewer_id);
                   
                   return (
-                    <div key={review.id} className="border border-gray-200 rounded-lg p-6">
+                    <div key={review.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-6">
                       <div className="flex items-start justify-between mb-4">
                         <div className="flex items-center space-x-4">
                           <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
                             <User className="h-5 w-5 text-blue-600" />
                           </div>
                           <div>
-                            <h4 className="font-semibold text-gray-900">{review.userName || customer?.name || 'Anonymous'}</h4>
-                            <p className="text-sm text-gray-500">{spot?.name}</p>
+                            <h4 className="font-semibold text-gray-900 dark:text-gray-100">{review.reviewer_name || customer?.full_name || t('hostReviews.anonymous')}</h4>
+                            <p className="text-sm text-gray-500">{spot?.title}</p>
                           </div>
                         </div>
                         <div className="text-right">
                           {renderStars(review.rating)}
                           <p className="text-sm text-gray-500 mt-1">
-                            {new Date(review.createdAt).toLocaleDateString()}
+                            {formatDate(review.created_at)}
                           </p>
                         </div>
                       </div>
                       
                       <div className="mb-4">
-                        <p className="text-gray-700">{review.comment}</p>
+                        <p className="text-gray-700 dark:text-gray-300">{review.comment}</p>
                       </div>
                       
                       {/* Reply Section - Owner can respond to reviews */}
-                      <div className="border-t border-gray-100 pt-4">
+                      <div className="border-t border-gray-100 dark:border-gray-800 pt-4">
                         <div className="flex items-start space-x-3">
                           <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
                             <User className="h-4 w-4 text-green-600" />
                           </div>
                           <div className="flex-1">
                             <textarea
-                              placeholder="Reply to this review..."
-                              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+                              placeholder={t('hostReviews.replyPlaceholder')}
+                              className="w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
                               rows={2}
                             />
                             <div className="flex justify-end mt-2">
                               <button className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700">
-                                Reply
+                                {t('hostReviews.reply')}
                               </button>
                             </div>
                           </div>
@@ -208,11 +215,11 @@ export const AdminReviewsPage: React.FC = () => {
             ) : (
               <div className="text-center py-8">
                 <Star className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                  No reviews yet
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">
+                  {t('hostReviews.noReviews')}
                 </h3>
-                <p className="text-gray-600">
-                  {selectedSpot !== 'all' ? 'No reviews for the selected spot' : 'Reviews will appear here once customers start rating your spots'}
+                <p className="text-gray-600 dark:text-gray-400">
+                  {selectedSpot !== 'all' ? t('hostReviews.noReviewsForSpot') : t('hostReviews.noReviewsText')}
                 </p>
               </div>
             )}
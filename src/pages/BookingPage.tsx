@@ -6,20 +6,41 @@ import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
-import { Calendar, Clock, MapPin, Car, CreditCard, Shield } from 'lucide-react';
+import { Calendar, Clock, MapPin, Car, CreditCard, Shield, AlertTriangle } from 'lucide-react';
 import { database } from '../data/database';
 import { useAuth } from '../context/AuthContext';
-import { ParkingSpot, User, Vehicle, Booking } from '../types';
+import { useI18n } from '../context/I18nContext';
+import { Booking, ParkingSpot, Profile, QuoteLineItem, TimeRange, Vehicle } from '../types';
+import { NewBooking, QuoteRequest } from '../data/repository';
+import {
+  isBookingConflictError,
+  isPromoCodeError,
+  isQuoteMismatchError,
+  isSpotClosedError,
+} from '../data/errors';
 import { useToast } from '../hooks/use-toast';
+import { CardPaymentForm } from '../components/CardPaymentForm';
+import { paymentProvider } from '../payments/gateway';
+import { useBookingQuote } from '../hooks/useBookingQuote';
+import { quotePrice } from '../services/pricing';
+import { TAX_RATE, normalizePromoCode } from '../services/quote';
+import { overstayGraceMinutes } from '../services/overstay';
+import { DEFAULT_TIMEZONE, fromZonedInputs, toZonedInputs } from '../services/schedule';
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  cancellationPolicyLabel,
+  describeCancellationPolicy,
+} from '../services/cancellation';
 
 export const BookingPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
   const { toast } = useToast();
+  const { t, language, formatCurrency, formatDateTime, formatTime } = useI18n();
   
   const [spot, setSpot] = useState<ParkingSpot | null>(null);
-  const [owner, setOwner] = useState<User | null>(null);
+  const [owner, setOwner] = useState<Profile | null>(null);
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [selectedVehicle, setSelectedVehicle] = useState<string>('');
   const [startDate, setStartDate] = useState('');
@@ -28,6 +49,51 @@ export const BookingPage: React.FC = () => {
   const [endTime, setEndTime] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [isBooking, setIsBooking] = useState(false);
+  const [suggestions, setSuggestions] = useState<TimeRange[] | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<string | undefined>(undefined);
+  // Set once the slot is held; the booking stays pending until it is paid.
+  const [reservedBooking, setReservedBooking] = useState<Booking | null>(null);
+
+  // The date and time inputs are in the spot's timezone, not the browser's.
+  const spotTimezone = spot?.timezone || DEFAULT_TIMEZONE;
+  const today = toZonedInputs(new Date(), spotTimezone).date;
+
+  const selectedRange = (): TimeRange | null => {
+    if (!startDate || !startTime || !endDate || !endTime) return null;
+    
+    const start = fromZonedInputs(startDate, startTime, spotTimezone);
+    const end = fromZonedInputs(endDate, endTime, spotTimezone);
+    if (end <= start) return null;
+    
+    return { start_time: start.toISOString(), end_time: end.toISOString() };
+  };
+
+  const formatRange = (range: TimeRange) =>
+    `${formatDateTime(range.start_time, { dateStyle: 'medium', timeStyle: 'short', timeZone: spotTimezone })} - ${formatTime(range.end_time, { timeStyle: 'short', timeZone: spotTimezone })}`;
+
+  // Everything on this page is priced in the spot's currency.
+  const formatPrice = (amount: number) => formatCurrency(amount, spot?.currency);
+
+  // Signed, so discounts show as e.g. "-$5.00".
+  const formatAmount = (amount: number) => `${amount < 0 ? '-' : ''}${formatPrice(Math.abs(amount))}`;
+
+  const quoteItemLabel = (item: QuoteLineItem) => {
+    switch (item.code) {
+      case 'discount':
+        return t('pricing.quoteItems.discount', { code: quote?.promo_code ?? '' });
+      case 'tax':
+        return t('pricing.quoteItems.tax', { rate: Math.round(TAX_RATE * 100) });
+      default:
+        return t(`pricing.quoteItems.${item.code}`);
+    }
+  };
+
+  const range = selectedRange();
+  const quoteRequest: QuoteRequest | null = spot && user && range
+    ? { spot_id: spot.id, guest_id: user.id, ...range, promo_code: appliedPromo }
+    : null;
+  const { quote, error: quoteError, refresh: refreshQuote } = useBookingQuote(quoteRequest);
 
   useEffect(() => {
     loadData();
@@ -39,17 +105,17 @@ export const BookingPage: React.FC = () => {
     setIsLoading(true);
     try {
       const spotData = await database.getParkingSpotById(id);
-      const ownerData = spotData ? await database.getUserById(spotData.ownerId) : null;
+      const [ownerData = null] = spotData ? await database.getProfilesByIds([spotData.owner_id]) : [];
       const userVehicles = await database.getVehiclesByUserId(user.id);
       
-      setSpot(spotData || null);
-      setOwner(ownerData || null);
+      setSpot(spotData);
+      setOwner(ownerData);
       setVehicles(userVehicles);
     } catch (error) {
       console.error('Error loading booking data:', error);
       toast({
-        title: "Error",
-        description: "Failed to load booking information",
+        title: t('common.error'),
+        description: t('booking.loadFailed'),
         variant: "destructive",
       });
     } finally {
@@ -57,67 +123,88 @@ export const BookingPage: React.FC = () => {
     }
   };
 
-  const calculateCost = () => {
-    if (!spot || !startDate || !startTime || !endDate || !endTime) return 0;
-    
-    const start = new Date(`${startDate}T${startTime}`);
-    const end = new Date(`${endDate}T${endTime}`);
-    const diffInHours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
-    
-    if (spot.priceType === 'hour') {
-      return Math.ceil(diffInHours) * spot.price;
-    } else if (spot.priceType === 'day') {
-      const diffInDays = Math.ceil(diffInHours / 24);
-      return diffInDays * spot.price;
-    } else if (spot.priceType === 'month') {
-      const diffInMonths = Math.ceil(diffInHours / (24 * 30));
-      return diffInMonths * spot.price;
-    }
-    
-    return 0;
+  const applyPromo = () => {
+    const code = normalizePromoCode(promoInput);
+    setAppliedPromo(code || undefined);
   };
 
   const handleBooking = async () => {
-    if (!spot || !user || !selectedVehicle || !startDate || !startTime || !endDate || !endTime) {
+    if (!spot || !user || !selectedVehicle || !range || !quote) {
       toast({
-        title: "Missing Information",
-        description: "Please fill in all required fields",
+        title: t('booking.missingInfo'),
+        description: t('booking.missingInfoText'),
         variant: "destructive",
       });
       return;
     }
 
     setIsBooking(true);
+    setSuggestions(null);
     try {
-      const startDateTime = new Date(`${startDate}T${startTime}`).toISOString();
-      const endDateTime = new Date(`${endDate}T${endTime}`).toISOString();
-      const totalCost = calculateCost();
-      
-      const bookingData: Omit<Booking, 'id' | 'createdAt'> = {
-        spotId: spot.id,
-        userId: user.id,
-        vehicleId: selectedVehicle,
-        startTime: startDateTime,
-        endTime: endDateTime,
-        totalCost,
+      const bookingData: NewBooking = {
+        spot_id: spot.id,
+        guest_id: user.id,
+        host_id: spot.owner_id,
+        vehicle_id: selectedVehicle,
+        start_time: range.start_time,
+        end_time: range.end_time,
+        total_amount: quote.total,
+        promo_code: quote.promo_code,
         status: 'pending',
-        qrCode: `QR_${spot.id}_${user.id}_${Date.now()}`,
-        pin: Math.floor(1000 + Math.random() * 9000).toString(),
       };
 
-      await database.createBooking(bookingData);
+      const booking = await database.reserveBooking(bookingData);
+      if (!paymentProvider) {
+        // Without card checkout the guest pays by transfer slip from My Bookings.
+        handlePayLater();
+        return;
+      }
+      setReservedBooking(booking);
       
       toast({
-        title: "Booking Confirmed!",
-        description: "Your parking spot has been successfully booked",
+        title: t('booking.reserved'),
+        description: t('booking.reservedText'),
       });
-      
-      navigate('/app/bookings');
     } catch (error) {
+      if (isBookingConflictError(error)) {
+        setSuggestions(error.suggestions);
+        toast({
+          title: t('booking.fullyBooked'),
+          description: t('booking.fullyBookedText'),
+          variant: "destructive",
+        });
+        return;
+      }
+      if (isQuoteMismatchError(error)) {
+        refreshQuote();
+        toast({
+          title: t('booking.priceUpdated'),
+          description: t('booking.priceUpdatedText'),
+          variant: "destructive",
+        });
+        return;
+      }
+      if (isPromoCodeError(error)) {
+        setAppliedPromo(undefined);
+        toast({
+          title: t('booking.promoRemoved'),
+          description: t(`promo.problems.${error.problem}`),
+          variant: "destructive",
+        });
+        return;
+      }
+      if (isSpotClosedError(error)) {
+        toast({
+          title: t('booking.spotClosed'),
+          description: t('booking.spotClosedText', { hours: spot.opening_hours || '24/7' }),
+          variant: "destructive",
+        });
+        return;
+      }
       console.error('Error creating booking:', error);
       toast({
-        title: "Booking Failed",
-        description: "Failed to create booking. Please try again.",
+        title: t('booking.failed'),
+        description: t('booking.failedText'),
         variant: "destructive",
       });
     } finally {
@@ -125,9 +212,35 @@ export const BookingPage: React.FC = () => {
     }
   };
 
+  const handlePaid = () => {
+    toast({
+      title: t('booking.confirmed'),
+      description: t('booking.confirmedText'),
+    });
+    navigate('/bookings');
+  };
+
+  const handlePayLater = () => {
+    toast({
+      title: t('booking.pending'),
+      description: t('booking.pendingText'),
+    });
+    navigate('/bookings');
+  };
+
+  const applySuggestion = (range: TimeRange) => {
+    const start = toZonedInputs(new Date(range.start_time), spotTimezone);
+    const end = toZonedInputs(new Date(range.end_time), spotTimezone);
+    setStartDate(start.date);
+    setStartTime(start.time);
+    setEndDate(end.date);
+    setEndTime(end.time);
+    setSuggestions(null);
+  };
+
   if (isLoading) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
       </div>
     );
@@ -135,19 +248,21 @@ export const BookingPage: React.FC = () => {
 
   if (!spot) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
         <div className="text-center">
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Spot Not Found</h2>
-          <p className="text-gray-600">The parking spot you're looking for doesn't exist.</p>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">{t('spotDetail.notFound')}</h2>
+          <p className="text-gray-600 dark:text-gray-400">{t('spotDetail.notFoundText')}</p>
         </div>
       </div>
     );
   }
 
-  const totalCost = calculateCost();
+  // Rate-card detail for the base price; fees and discounts come from the quote.
+  const priceBreakdown = range ? quotePrice(spot, range) : null;
+  const totalCost = quote?.total ?? 0;
 
   return (
-    <div className="min-h-screen bg-gray-50 py-8">
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
       <div className="max-w-4xl mx-auto px-4">
         <div className="grid lg:grid-cols-2 gap-8">
           {/* Spot Details */}
@@ -155,28 +270,31 @@ export const BookingPage: React.FC = () => {
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
                 <MapPin className="h-5 w-5 text-blue-600" />
-                <span>{spot.name}</span>
+                <span>{spot.title}</span>
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               <img 
-                src={spot.images[0]} 
-                alt={spot.name}
+                src={spot.images[0] || '/placeholder.svg'} 
+                alt={spot.title}
                 className="w-full h-48 object-cover rounded-lg"
               />
               
               <div className="space-y-2">
-                <p className="text-gray-600">{spot.address}</p>
-                <p className="text-gray-600">{spot.description}</p>
+                <p className="text-gray-600 dark:text-gray-400">{spot.address}</p>
+                <p className="text-gray-600 dark:text-gray-400">{spot.description}</p>
+                {owner && (
+                  <p className="text-sm text-gray-500">{t('booking.hostedBy', { name: owner.full_name })}</p>
+                )}
                 
                 <div className="flex items-center space-x-4 text-sm text-gray-500">
                   <span className="flex items-center">
                     <Clock className="h-4 w-4 mr-1" />
-                    {spot.openingHours}
+                    {spot.opening_hours || '24/7'}
                   </span>
                   <span className="flex items-center">
                     <Car className="h-4 w-4 mr-1" />
-                    {spot.availableSlots}/{spot.totalSlots} available
+                    {t('booking.slotsAvailable', { available: spot.available_slots, total: spot.total_slots })}
                   </span>
                 </div>
                 
@@ -184,7 +302,7 @@ export const BookingPage: React.FC = () => {
                   {spot.amenities.map((amenity, index) => (
                     <span 
                       key={index}
-                      className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full"
+                      className="px-2 py-1 bg-blue-100 text-blue-800 dark:text-blue-200 text-xs rounded-full"
                     >
                       {amenity}
                     </span>
@@ -194,117 +312,227 @@ export const BookingPage: React.FC = () => {
               
               <div className="border-t pt-4">
                 <div className="flex justify-between items-center">
-                  <span className="text-lg font-semibold text-gray-900">Price</span>
+                  <span className="text-lg font-semibold text-gray-900 dark:text-gray-100">{t('booking.price')}</span>
                   <span className="text-2xl font-bold text-blue-600">
-                    ${spot.price}/{spot.priceType}
+                    {t('common.perHour', { price: formatPrice(spot.hourly_rate) })}
                   </span>
                 </div>
+                <div className="mt-2 space-y-1 text-sm text-gray-500">
+                  {spot.peak_hourly_rate != null && spot.peak_start && spot.peak_end && (
+                    <p>{t('booking.peakRate', { start: spot.peak_start, end: spot.peak_end, price: formatPrice(spot.peak_hourly_rate) })}</p>
+                  )}
+                  {spot.weekend_hourly_rate != null && (
+                    <p>{t('booking.weekendRate', { price: formatPrice(spot.weekend_hourly_rate) })}</p>
+                  )}
+                  {spot.daily_rate != null && <p>{t('booking.dailyMax', { price: formatPrice(spot.daily_rate) })}</p>}
+                  {spot.monthly_rate != null && <p>{t('booking.monthly', { price: formatPrice(spot.monthly_rate) })}</p>}
+                  {!!spot.minimum_duration_minutes && (
+                    <p>{t('booking.minimumStay', { minutes: spot.minimum_duration_minutes })}</p>
+                  )}
+                  {!!spot.grace_period_minutes && <p>{t('booking.gracePeriod', { minutes: spot.grace_period_minutes })}</p>}
+                  <p>{t('booking.overstayAfter', { minutes: overstayGraceMinutes(spot) })}</p>
+                </div>
+                <div className="mt-2 space-y-1 text-sm text-gray-500">
+                  <p className="font-medium text-gray-700 dark:text-gray-300">
+                    {t('cancellation.policyName', {
+                      policy: cancellationPolicyLabel(spot.cancellation_policy ?? DEFAULT_CANCELLATION_POLICY, language),
+                    })}
+                  </p>
+                  {describeCancellationPolicy(spot, language).map(line => <p key={line}>{line}</p>)}
+                </div>
               </div>
             </CardContent>
           </Card>
 
           {/* Booking Form */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center space-x-2">
-                <CreditCard className="h-5 w-5 text-green-600" />
-                <span>Book This Spot</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              {/* Vehicle Selection */}
-              <div>
-                <Label htmlFor="vehicle">Select Vehicle</Label>
-                <Select value={selectedVehicle} onValueChange={setSelectedVehicle}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Choose your vehicle" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {vehicles.map((vehicle) => (
-                      <SelectItem key={vehicle.id} value={vehicle.id}>
-                        {vehicle.make} {vehicle.model} - {vehicle.licensePlate}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-
-              {/* Start Date/Time */}
-              <div className="grid grid-cols-2 gap-4">
+          {reservedBooking ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <CreditCard className="h-5 w-5 text-green-600" />
+                  <span>{t('booking.completePayment')}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+                  {t('booking.slotHeld', { range: formatRange(reservedBooking) })}
+                </p>
+                <CardPaymentForm booking={reservedBooking} onPaid={handlePaid} onPayLater={handlePayLater} />
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <CreditCard className="h-5 w-5 text-green-600" />
+                  <span>{t('booking.bookThisSpot')}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {/* Vehicle Selection */}
                 <div>
-                  <Label htmlFor="startDate">Start Date</Label>
-                  <Input
-                    id="startDate"
-                    type="date"
-                    value={startDate}
-                    onChange={(e) => setStartDate(e.target.value)}
-                    min={new Date().toISOString().split('T')[0]}
-                  />
+                  <Label htmlFor="vehicle">{t('booking.selectVehicle')}</Label>
+                  <Select value={selectedVehicle} onValueChange={setSelectedVehicle}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={t('booking.chooseVehicle')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {vehicles.map((vehicle) => (
+                        <SelectItem key={vehicle.id} value={vehicle.id}>
+                          {vehicle.make} {vehicle.model} - {vehicle.license_plate}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-                <div>
-                  <Label htmlFor="startTime">Start Time</Label>
-                  <Input
-                    id="startTime"
-                    type="time"
-                    value={startTime}
-                    onChange={(e) => setStartTime(e.target.value)}
-                  />
+
+                {/* Start Date/Time */}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="startDate">{t('booking.startDate')}</Label>
+                    <Input
+                      id="startDate"
+                      type="date"
+                      value={startDate}
+                      onChange={(e) => setStartDate(e.target.value)}
+                      min={today}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="startTime">{t('booking.startTime')}</Label>
+                    <Input
+                      id="startTime"
+                      type="time"
+                      value={startTime}
+                      onChange={(e) => setStartTime(e.target.value)}
+                    />
+                  </div>
                 </div>
-              </div>
 
-              {/* End Date/Time */}
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="endDate">End Date</Label>
-                  <Input
-                    id="endDate"
-                    type="date"
-                    value={endDate}
-                    onChange={(e) => setEndDate(e.target.value)}
-                    min={startDate || new Date().toISOString().split('T')[0]}
-                  />
+                {/* End Date/Time */}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="endDate">{t('booking.endDate')}</Label>
+                    <Input
+                      id="endDate"
+                      type="date"
+                      value={endDate}
+                      onChange={(e) => setEndDate(e.target.value)}
+                      min={startDate || today}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="endTime">{t('booking.endTime')}</Label>
+                    <Input
+                      id="endTime"
+                      type="time"
+                      value={endTime}
+                      onChange={(e) => setEndTime(e.target.value)}
+                    />
+                  </div>
                 </div>
+                <p className="text-xs text-gray-500">{t('spotDetail.timezone', { timezone: spotTimezone })}</p>
+
+                {/* Promo Code */}
                 <div>
-                  <Label htmlFor="endTime">End Time</Label>
-                  <Input
-                    id="endTime"
-                    type="time"
-                    value={endTime}
-                    onChange={(e) => setEndTime(e.target.value)}
-                  />
+                  <Label htmlFor="promoCode">{t('booking.promoCode')}</Label>
+                  <div className="flex space-x-2">
+                    <Input
+                      id="promoCode"
+                      value={promoInput}
+                      onChange={(e) => setPromoInput(e.target.value)}
+                      placeholder={t('booking.promoPlaceholder')}
+                    />
+                    <Button type="button" variant="outline" onClick={applyPromo}>
+                      {t('booking.apply')}
+                    </Button>
+                  </div>
+                  {appliedPromo && isPromoCodeError(quoteError) && (
+                    <p className="mt-1 text-sm text-red-600">{t(`promo.problems.${quoteError.problem}`)}</p>
+                  )}
+                  {appliedPromo && quote?.promo_code && (
+                    <p className="mt-1 text-sm text-green-600">{t('booking.promoApplied', { code: quote.promo_code })}</p>
+                  )}
                 </div>
-              </div>
 
-              {/* Cost Summary */}
-              {totalCost > 0 && (
-                <div className="bg-gray-50 rounded-lg p-4">
-                  <div className="flex justify-between items-center">
-                    <span className="font-medium">Total Cost</span>
-                    <span className="text-2xl font-bold text-green-600">${totalCost.toFixed(2)}</span>
+                {/* Cost Summary */}
+                {quote && totalCost > 0 && (
+                  <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4 space-y-2">
+                    {priceBreakdown?.line_items.map((item) => (
+                      <div key={item.code} className="flex justify-between text-sm text-gray-600 dark:text-gray-400">
+                        <span>
+                          {t(`pricing.lineItems.${item.code}`)}
+                          {item.unit_amount !== undefined && ` (${item.quantity} x ${formatPrice(item.unit_amount)})`}
+                        </span>
+                        <span>{formatAmount(item.amount)}</span>
+                      </div>
+                    ))}
+                    {quote.line_items.filter((item) => item.code !== 'base').map((item) => (
+                      <div key={item.code} className="flex justify-between text-sm text-gray-600 dark:text-gray-400">
+                        <span>{quoteItemLabel(item)}</span>
+                        <span>{formatAmount(item.amount)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between items-center border-t pt-2">
+                      <span className="font-medium">{t('booking.totalCost')}</span>
+                      <span className="text-2xl font-bold text-green-600">{formatPrice(totalCost)}</span>
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
 
-              {/* Security Notice */}
-              <div className="flex items-start space-x-2 p-4 bg-blue-50 rounded-lg">
-                <Shield className="h-5 w-5 text-blue-600 mt-0.5" />
-                <div className="text-sm text-blue-800">
-                  <p className="font-medium">Secure Booking</p>
-                  <p>Your booking is protected and you'll receive a QR code for entry.</p>
+                {/* Capacity Conflict */}
+                {suggestions && (
+                  <div className="p-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg space-y-3">
+                    <div className="flex items-start space-x-2">
+                      <AlertTriangle className="h-5 w-5 text-red-600 mt-0.5" />
+                      <div className="text-sm text-red-800 dark:text-red-200">
+                        <p className="font-medium">{t('booking.noSlots')}</p>
+                        <p>
+                          {suggestions.length > 0
+                            ? t('booking.suggestions')
+                            : t('booking.tryAnotherTime')}
+                        </p>
+                      </div>
+                    </div>
+                    {suggestions.length > 0 && (
+                      <div className="space-y-2">
+                        {suggestions.map((range) => (
+                          <Button
+                            key={range.start_time}
+                            variant="outline"
+                            className="w-full justify-start"
+                            onClick={() => applySuggestion(range)}
+                          >
+                            <Calendar className="h-4 w-4 mr-2" />
+                            {formatRange(range)}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Security Notice */}
+                <div className="flex items-start space-x-2 p-4 bg-blue-50 dark:bg-blue-900/30 rounded-lg">
+                  <Shield className="h-5 w-5 text-blue-600 mt-0.5" />
+                  <div className="text-sm text-blue-800 dark:text-blue-200">
+                    <p className="font-medium">{t('booking.secure')}</p>
+                    <p>{t('booking.secureText')}</p>
+                  </div>
                 </div>
-              </div>
 
-              {/* Book Button */}
-              <Button
-                onClick={handleBooking}
-                disabled={isBooking || !selectedVehicle || !startDate || !startTime || !endDate || !endTime}
-                className="w-full"
-                size="lg"
-              >
-                {isBooking ? 'Processing...' : `Book Now - $${totalCost.toFixed(2)}`}
-              </Button>
-            </CardContent>
-          </Card>
+                {/* Book Button */}
+                <Button
+                  onClick={handleBooking}
+                  disabled={isBooking || !selectedVehicle || !quote}
+                  className="w-full"
+                  size="lg"
+                >
+                  {isBooking ? t('common.processing') : t('booking.bookNow', { total: formatPrice(totalCost) })}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </div>
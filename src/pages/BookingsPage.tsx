@@ -3,24 +3,54 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
 import { Button } from '../components/ui/button';
-import { Calendar, Clock, MapPin, Car, QrCode, Phone } from 'lucide-react';
+import { Ban, Calendar, CalendarPlus, Clock, CreditCard, History, MapPin, Car, QrCode, Phone, LogIn, LogOut } from 'lucide-react';
 import { QRCodeGenerator } from '../components/QRCodeGenerator';
 import { PaymentSlipUpload } from '../components/PaymentSlipUpload';
+import { PromptPayQR } from '../components/PromptPayQR';
 import { RatingReviewModal } from '../components/RatingReviewModal';
+import { CardPaymentForm } from '../components/CardPaymentForm';
+import { paymentProvider } from '../payments/gateway';
+import { ExtendBookingForm } from '../components/ExtendBookingForm';
+import { CancelBookingForm } from '../components/CancelBookingForm';
+import { BookingTimeline } from '../components/BookingTimeline';
 import { database } from '../data/database';
 import { useAuth } from '../context/AuthContext';
-import { Booking, ParkingSpot, Vehicle } from '../types';
+import { useI18n } from '../context/I18nContext';
+import { translateError } from '../i18n/errors';
+import { Booking, BookingCharge, BookingExtension, ParkingSpot, Payment, Vehicle } from '../types';
+import { isPaymentStateError } from '../data/errors';
+import { chargeDescription, latestPayment, slipSubmissionProblem } from '../services/payments';
+import { accessWindow } from '../services/access';
+import { bookingStatusLabel, formatDuration, isOverstaying, overstayMinutes } from '../services/occupancy';
+import { canExtend } from '../services/extensions';
+import { canCancel } from '../services/cancellation';
+import { applyBookingChange } from '../services/realtime';
+import { currencyOf } from '../services/currency';
+import { useDataChanges } from '../hooks/useRealtime';
 
 export const BookingsPage: React.FC = () => {
   const { user } = useAuth();
+  const { language, t, formatDate, formatTime, formatDateTime, formatCurrency } = useI18n();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [spots, setSpots] = useState<ParkingSpot[]>([]);
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const [showQRCode, setShowQRCode] = useState(false);
+  const [accessToken, setAccessToken] = useState<string | null>(null);
+  const [accessTokenError, setAccessTokenError] = useState<string | null>(null);
   const [showPaymentUpload, setShowPaymentUpload] = useState(false);
   const [showRatingModal, setShowRatingModal] = useState(false);
-  const [paymentSlip, setPaymentSlip] = useState<string | null>(null);
+  const [paymentSlip, setPaymentSlip] = useState<{ url: string; fileType?: string } | null>(null);
+  const [payments, setPayments] = useState<Record<string, Payment[]>>({});
+  const [charges, setCharges] = useState<Record<string, BookingCharge[]>>({});
+  const [extensions, setExtensions] = useState<Record<string, BookingExtension[]>>({});
+  const [showExtend, setShowExtend] = useState(false);
+  const [showCancel, setShowCancel] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [payingCharge, setPayingCharge] = useState<BookingCharge | null>(null);
+  const [isSubmittingSlip, setIsSubmittingSlip] = useState(false);
+  const [slipError, setSlipError] = useState<string | null>(null);
+  const [promptPayId, setPromptPayId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -32,14 +62,24 @@ export const BookingsPage: React.FC = () => {
           return;
         }
 
-        const userBookings = await database.getBookingsByUserId(user.id);
+        const userBookings = await database.getBookingsByGuest(user.id);
         setBookings(userBookings);
 
         const userVehicles = await database.getVehiclesByUserId(user.id);
         setVehicles(userVehicles);
 
-        const allSpots = await database.getParkingSpots();
-        setSpots(allSpots);
+        const spotIds = [...new Set(userBookings.map(b => b.spot_id))];
+        const bookedSpots = await Promise.all(spotIds.map(id => database.getParkingSpotById(id)));
+        setSpots(bookedSpots.filter((spot): spot is ParkingSpot => spot !== null));
+
+        const bookingPayments = await Promise.all(userBookings.map(b => database.getPaymentsByBooking(b.id)));
+        setPayments(Object.fromEntries(userBookings.map((b, i) => [b.id, bookingPayments[i]])));
+
+        const bookingCharges = await Promise.all(userBookings.map(b => database.getChargesByBooking(b.id)));
+        setCharges(Object.fromEntries(userBookings.map((b, i) => [b.id, bookingCharges[i]])));
+
+        const bookingExtensions = await Promise.all(userBookings.map(b => database.getExtensionsByBooking(b.id)));
+        setExtensions(Object.fromEntries(userBookings.map((b, i) => [b.id, bookingExtensions[i]])));
       } catch (error) {
         console.error("Failed to load data:", error);
       } finally {
@@ -50,19 +90,162 @@ export const BookingsPage: React.FC = () => {
     loadData();
   }, [user]);
 
+  // Keeps the list live as the host confirms, extends or cancels a booking or
+  // reviews a payment slip.
+  useDataChanges(change => {
+    if (change.table === 'bookings' && change.record.guest_id === user?.id) {
+      const bookingId = change.record.id;
+      setBookings(prev => applyBookingChange(prev, change));
+      Promise.all([database.getChargesByBooking(bookingId), database.getExtensionsByBooking(bookingId)])
+        .then(([bookingCharges, bookingExtensions]) => {
+          setCharges(prev => ({ ...prev, [bookingId]: bookingCharges }));
+          setExtensions(prev => ({ ...prev, [bookingId]: bookingExtensions }));
+        })
+        .catch(error => console.error('Error refreshing booking:', error));
+    } else if (change.table === 'payments') {
+      const payment = change.record;
+      setPayments(prev => ({
+        ...prev,
+        [payment.booking_id]: [payment, ...(prev[payment.booking_id] ?? []).filter(p => p.id !== payment.id)]
+          .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+      }));
+    }
+  });
+
   const getSpotName = (spotId: string) => {
     const spot = spots.find(spot => spot.id === spotId);
-    return spot ? spot.name : 'Unknown Spot';
+    return spot ? spot.title : t('bookings.unknownSpot');
   };
 
   const handleBookingClick = (booking: Booking) => {
     setSelectedBooking(booking);
+    setAccessToken(null);
+    setAccessTokenError(null);
     setShowQRCode(true);
+    database.getBookingAccessToken(booking.id)
+      .then(setAccessToken)
+      .catch(error => {
+        console.error('Error loading booking QR code:', error);
+        setAccessTokenError(t('bookings.qrFailed'));
+      });
   };
 
   const handlePaymentUploadClick = (booking: Booking) => {
     setSelectedBooking(booking);
+    setPaymentSlip(null);
+    setSlipError(null);
+    setPromptPayId(null);
     setShowPaymentUpload(true);
+    database.getBookingPromptPayId(booking.id)
+      .then(setPromptPayId)
+      .catch(error => console.error('Error loading PromptPay details:', error));
+  };
+
+  const handleExtendClick = (booking: Booking) => {
+    setSelectedBooking(booking);
+    setShowExtend(true);
+  };
+
+  // An auto-approved request has already moved the booking's end and raised
+  // a charge, so reload both.
+  const handleExtensionRequested = async (extension: BookingExtension) => {
+    setShowExtend(false);
+    setExtensions(prev => ({
+      ...prev,
+      [extension.booking_id]: [extension, ...(prev[extension.booking_id] ?? [])],
+    }));
+    if (extension.status !== 'approved') return;
+
+    const [updated, bookingCharges] = await Promise.all([
+      database.getBookingById(extension.booking_id),
+      database.getChargesByBooking(extension.booking_id),
+    ]);
+    if (updated) setBookings(prev => prev.map(b => (b.id === updated.id ? updated : b)));
+    setCharges(prev => ({ ...prev, [extension.booking_id]: bookingCharges }));
+  };
+
+  const handleHistoryClick = (booking: Booking) => {
+    setSelectedBooking(booking);
+    setShowHistory(true);
+  };
+
+  const handleCancelClick = (booking: Booking) => {
+    setSelectedBooking(booking);
+    setShowCancel(true);
+  };
+
+  const handleCancelled = (cancelled: Booking) => {
+    setShowCancel(false);
+    setBookings(prev => prev.map(b => (b.id === cancelled.id ? cancelled : b)));
+    setExtensions(prev => ({
+      ...prev,
+      [cancelled.id]: (prev[cancelled.id] ?? []).map(e => (e.status === 'pending' ? { ...e, status: 'rejected' } : e)),
+    }));
+  };
+
+  const renderCancellation = (booking: Booking) => {
+    if (booking.status !== 'cancelled' || !booking.cancelled_at) return null;
+    const time = formatDateTime(booking.cancelled_at);
+    return (
+      <div className="mt-2 text-sm text-red-700 dark:text-red-300">
+        <p>
+          {booking.cancelled_by === booking.host_id
+            ? t('bookings.cancelledByHost', { time })
+            : t('bookings.cancelledByYou', { time })}
+          {booking.cancellation_reason ? `: ${booking.cancellation_reason}` : ''}
+        </p>
+        {!!booking.refund_amount && (
+          <p className="text-green-700 dark:text-green-300">
+            {booking.payment_status === 'refunded' || booking.payment_status === 'partially_refunded'
+              ? t('bookings.refundIssued', { amount: formatCurrency(booking.refund_amount, booking.currency) })
+              : t('bookings.refundDue', { amount: formatCurrency(booking.refund_amount, booking.currency) })}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const handlePayChargeClick = (booking: Booking, charge: BookingCharge) => {
+    setSelectedBooking(booking);
+    setPayingCharge(charge);
+  };
+
+  const handleChargePaid = async (booking: Booking) => {
+    setPayingCharge(null);
+    const bookingCharges = await database.getChargesByBooking(booking.id);
+    setCharges(prev => ({ ...prev, [booking.id]: bookingCharges }));
+  };
+
+  const renderExtensionStatus = (booking: Booking) => {
+    const latest = (extensions[booking.id] ?? [])[0];
+    if (!latest) return null;
+    switch (latest.status) {
+      case 'pending':
+        return (
+          <p className="mt-2 text-sm text-blue-700 dark:text-blue-300">
+            {t('bookings.extensionPending', { duration: formatDuration(latest.additional_minutes, language) })}
+          </p>
+        );
+      case 'approved':
+        return (
+          <p className="mt-2 text-sm text-green-700 dark:text-green-300">
+            {t('bookings.extensionApproved', {
+              duration: formatDuration(latest.additional_minutes, language),
+              time: formatDateTime(latest.new_end_time),
+            })}
+          </p>
+        );
+      case 'rejected': {
+        const rejection = latest.rejection_code
+          ? t(`bookings.extensionRejections.${latest.rejection_code}`)
+          : latest.rejection_reason;
+        return (
+          <p className="mt-2 text-sm text-red-700 dark:text-red-300">
+            {t('bookings.extensionDeclined')}{rejection ? `: ${rejection}` : ''}
+          </p>
+        );
+      }
+    }
   };
 
   const handleRatingClick = (booking: Booking) => {
@@ -70,23 +253,81 @@ export const BookingsPage: React.FC = () => {
     setShowRatingModal(true);
   };
 
-  const handlePaymentSlipUpload = (file: File | null) => {
-    if (file) {
-      // Simulate upload and set the state
-      setPaymentSlip(URL.createObjectURL(file));
+  const handlePaymentSlipUpload = (fileUrl: string, fileType?: string) => {
+    setPaymentSlip(fileUrl ? { url: fileUrl, fileType } : null);
+  };
+
+  const handleSubmitSlip = async () => {
+    if (!user || !selectedBooking || !paymentSlip) return;
+
+    setIsSubmittingSlip(true);
+    setSlipError(null);
+    try {
+      const payment = await database.submitPaymentSlip({
+        booking_id: selectedBooking.id,
+        payer_id: user.id,
+        slip_url: paymentSlip.url,
+        slip_file_type: paymentSlip.fileType,
+      });
+      setPayments(prev => ({
+        ...prev,
+        [selectedBooking.id]: [payment, ...(prev[selectedBooking.id] ?? [])],
+      }));
       setShowPaymentUpload(false);
+    } catch (error) {
+      if (isPaymentStateError(error)) {
+        setSlipError(translateError(language, error));
+        return;
+      }
+      console.error('Error submitting payment slip:', error);
+      setSlipError(t('bookings.slipFailed'));
+    } finally {
+      setIsSubmittingSlip(false);
+    }
+  };
+
+  const renderPaymentStatus = (booking: Booking) => {
+    const payment = latestPayment(payments[booking.id] ?? []);
+    if (!payment) {
+      if (booking.payment_status === 'paid') {
+        return <p className="mt-2 text-sm text-green-700 dark:text-green-300">{t('bookings.paidByCard')}</p>;
+      }
+      return booking.status === 'pending'
+        ? <p className="mt-2 text-sm text-yellow-700 dark:text-yellow-300">{t('bookings.awaitingPayment')}</p>
+        : null;
+    }
+    switch (payment.status) {
+      case 'submitted':
+        return <p className="mt-2 text-sm text-blue-700 dark:text-blue-300">{t('bookings.slipSubmitted')}</p>;
+      case 'approved':
+        return <p className="mt-2 text-sm text-green-700 dark:text-green-300">{t('bookings.paymentApproved')}</p>;
+      case 'rejected':
+        return (
+          <p className="mt-2 text-sm text-red-700 dark:text-red-300">
+            {t('bookings.slipRejected')}{payment.failure_reason ? `: ${payment.failure_reason}` : ''}. {t('bookings.uploadNewSlip')}
+          </p>
+        );
     }
   };
 
-  const handleRatingSubmit = (rating: number, reviewText: string) => {
-    // Implement the submission logic here
-    console.log('Rating:', rating, 'Review:', reviewText);
+  const handleRatingSubmit = async (rating: number, reviewText: string) => {
+    if (!user || !selectedBooking) return;
+
+    await database.createReview({
+      booking_id: selectedBooking.id,
+      spot_id: selectedBooking.spot_id,
+      reviewer_id: user.id,
+      reviewee_id: selectedBooking.host_id,
+      rating,
+      comment: reviewText,
+      is_host_review: false
+    });
     setShowRatingModal(false);
   };
 
   if (isLoading) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
       </div>
     );
@@ -96,55 +337,108 @@ export const BookingsPage: React.FC = () => {
     <div className="container py-8">
       <Card>
         <CardHeader>
-          <CardTitle>My Bookings</CardTitle>
+          <CardTitle>{t('nav.myBookings')}</CardTitle>
         </CardHeader>
         <CardContent>
           {bookings.length > 0 ? (
             <div className="grid gap-4">
               {bookings.map((booking) => {
-                const spot = spots.find(s => s.id === booking.spotId);
-                const vehicle = vehicles.find(v => v.id === booking.vehicleId);
+                const spot = spots.find(s => s.id === booking.spot_id);
+                const vehicle = vehicles.find(v => v.id === booking.vehicle_id);
 
                 return (
                   <div key={booking.id} className="border rounded-lg p-4">
                     <div className="flex items-center justify-between">
                       <div>
-                        <h3 className="text-lg font-semibold">{getSpotName(booking.spotId)}</h3>
+                        <h3 className="text-lg font-semibold">{getSpotName(booking.spot_id)}</h3>
                         <div className="text-sm text-gray-500">
                           <MapPin className="h-4 w-4 inline-block mr-1" />
                           {spot?.address}
                         </div>
                       </div>
-                      <Badge variant="secondary">{booking.status}</Badge>
+                      <Badge variant="secondary">{bookingStatusLabel(booking.status, language)}</Badge>
                     </div>
                     <div className="mt-2 grid grid-cols-2 gap-2 text-sm">
                       <div>
                         <Calendar className="h-4 w-4 inline-block mr-1" />
-                        {new Date(booking.startTime).toLocaleDateString()}
+                        {formatDate(booking.start_time)}
                       </div>
                       <div>
                         <Clock className="h-4 w-4 inline-block mr-1" />
-                        {new Date(booking.startTime).toLocaleTimeString()} - {new Date(booking.endTime).toLocaleTimeString()}
+                        {formatTime(booking.start_time)} - {formatTime(booking.end_time)}
                       </div>
                       <div>
                         <Car className="h-4 w-4 inline-block mr-1" />
-                        {vehicle ? `${vehicle.make} ${vehicle.model}` : 'Vehicle info not available'}
+                        {vehicle ? `${vehicle.make} ${vehicle.model}` : t('bookings.noVehicle')}
                       </div>
                       <div>
                         <Phone className="h-4 w-4 inline-block mr-1" />
-                        {spot?.phone || 'N/A'}
+                        {spot?.phone || t('bookings.notAvailable')}
                       </div>
+                      {booking.checked_in_at && (
+                        <div>
+                          <LogIn className="h-4 w-4 inline-block mr-1" />
+                          {t('bookings.checkedIn', { time: formatDateTime(booking.checked_in_at) })}
+                        </div>
+                      )}
+                      {booking.checked_out_at && (
+                        <div>
+                          <LogOut className="h-4 w-4 inline-block mr-1" />
+                          {t('bookings.checkedOut', { time: formatDateTime(booking.checked_out_at) })}
+                        </div>
+                      )}
                     </div>
+                    {isOverstaying(booking) && (
+                      <p className="mt-2 text-sm text-red-700 dark:text-red-300">
+                        {t('bookings.overstaying', { duration: formatDuration(overstayMinutes(booking), language) })}
+                      </p>
+                    )}
+                    {(charges[booking.id] ?? []).map(charge => (
+                      <div key={charge.id} className="mt-2 flex items-center justify-between rounded-md bg-red-50 dark:bg-red-900/30 px-3 py-2 text-sm">
+                        <span className="text-red-800 dark:text-red-200">{chargeDescription(charge, language)}</span>
+                        <span className="font-medium text-red-800 dark:text-red-200">
+                          {formatCurrency(charge.amount, charge.currency)}
+                          <span className="ml-2 text-xs font-normal">{t(`bookings.chargeStatus.${charge.status}`)}</span>
+                          {charge.status === 'unpaid' && paymentProvider && (
+                            <Button size="sm" variant="outline" className="ml-2" onClick={() => handlePayChargeClick(booking, charge)}>
+                              <CreditCard className="h-4 w-4 mr-1" />
+                              {t('bookings.pay')}
+                            </Button>
+                          )}
+                        </span>
+                      </div>
+                    ))}
+                    {renderExtensionStatus(booking)}
+                    {renderPaymentStatus(booking)}
+                    {renderCancellation(booking)}
                     <div className="mt-4 flex justify-end space-x-2">
                       <Button size="sm" onClick={() => handleBookingClick(booking)}>
                         <QrCode className="h-4 w-4 mr-2" />
-                        View QR Code
+                        {t('bookings.viewQr')}
                       </Button>
-                      <Button size="sm" variant="outline" onClick={() => handlePaymentUploadClick(booking)}>
-                        Upload Payment
+                      {canExtend(booking) && !(extensions[booking.id] ?? []).some(e => e.status === 'pending') && (
+                        <Button size="sm" variant="outline" onClick={() => handleExtendClick(booking)}>
+                          <CalendarPlus className="h-4 w-4 mr-2" />
+                          {t('bookings.extend')}
+                        </Button>
+                      )}
+                      {!slipSubmissionProblem(booking, payments[booking.id] ?? []) && (
+                        <Button size="sm" variant="outline" onClick={() => handlePaymentUploadClick(booking)}>
+                          {t('bookings.uploadPayment')}
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => handleHistoryClick(booking)}>
+                        <History className="h-4 w-4 mr-2" />
+                        {t('bookings.history')}
                       </Button>
+                      {canCancel(booking) && (
+                        <Button size="sm" variant="outline" onClick={() => handleCancelClick(booking)}>
+                          <Ban className="h-4 w-4 mr-2" />
+                          {t('common.cancel')}
+                        </Button>
+                      )}
                       <Button size="sm" onClick={() => handleRatingClick(booking)}>
-                        Rate & Review
+                        {t('review.title')}
                       </Button>
                     </div>
                   </div>
@@ -154,11 +448,11 @@ export const BookingsPage: React.FC = () => {
           ) : (
             <div className="text-center py-8">
               <Car className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                No bookings yet
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">
+                {t('bookings.emptyTitle')}
               </h3>
-              <p className="text-gray-600 mb-4">
-                Book your parking spot now.
+              <p className="text-gray-600 dark:text-gray-400 mb-4">
+                {t('bookings.emptyText')}
               </p>
             </div>
           )}
@@ -168,19 +462,31 @@ export const BookingsPage: React.FC = () => {
       {/* QR Code Modal */}
       {showQRCode && selectedBooking && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full">
-          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white dark:bg-gray-800">
             <div className="mt-3 text-center">
-              <h3 className="text-lg leading-6 font-medium text-gray-900">
-                Booking QR Code
+              <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100">
+                {t('bookings.qrTitle')}
               </h3>
               <div className="mt-2">
-                <QRCodeGenerator value={selectedBooking.qrCode} />
-                <p>Booking ID: {selectedBooking.id}</p>
-                <p>PIN: {selectedBooking.pin}</p>
+                {accessToken ? (
+                  <QRCodeGenerator value={accessToken} />
+                ) : accessTokenError ? (
+                  <p className="text-sm text-red-600">{accessTokenError}</p>
+                ) : (
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto my-8"></div>
+                )}
+                <p>{t('bookings.bookingId', { id: selectedBooking.id })}</p>
+                <p>{t('bookings.pin', { pin: selectedBooking.pin ?? '' })}</p>
+                <p className="mt-1 text-xs text-gray-500">
+                  {t('bookings.validBetween', {
+                    start: formatDateTime(accessWindow(selectedBooking).start_time),
+                    end: formatDateTime(accessWindow(selectedBooking).end_time),
+                  })}
+                </p>
               </div>
               <div className="items-center px-4 py-3">
                 <Button onClick={() => setShowQRCode(false)} className="px-4 py-2 bg-gray-500 text-white text-base font-medium rounded-md width-full shadow-sm hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300">
-                  Close
+                  {t('common.close')}
                 </Button>
               </div>
             </div>
@@ -191,20 +497,35 @@ export const BookingsPage: React.FC = () => {
       {/* Payment Upload Modal */}
       {showPaymentUpload && selectedBooking && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full">
-          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white dark:bg-gray-800">
             <div className="mt-3 text-center">
-              <h3 className="text-lg leading-6 font-medium text-gray-900">
-                Upload Payment Slip
+              <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100">
+                {t('bookings.payTitle')}
               </h3>
               <div className="mt-2">
-                <PaymentSlipUpload onUpload={handlePaymentSlipUpload} />
-                {paymentSlip && (
-                  <img src={paymentSlip} alt="Payment Slip" className="mt-4 max-h-40 object-contain" />
+                {/* PromptPay only moves baht. */}
+                {promptPayId && currencyOf(selectedBooking) === 'THB' && (
+                  <div className="mb-4">
+                    <PromptPayQR promptPayId={promptPayId} amount={selectedBooking.total_amount} />
+                  </div>
+                )}
+                <p className="mb-2 text-sm text-gray-600 dark:text-gray-400">
+                  {t('bookings.payText')}
+                </p>
+                <PaymentSlipUpload bookingId={selectedBooking.id} onUploadComplete={handlePaymentSlipUpload} />
+                {paymentSlip && paymentSlip.fileType !== 'application/pdf' && (
+                  <img src={paymentSlip.url} alt={t('bookings.slipAlt')} className="mt-4 max-h-40 object-contain" />
+                )}
+                {slipError && (
+                  <p className="mt-2 text-sm text-red-600">{slipError}</p>
                 )}
               </div>
-              <div className="items-center px-4 py-3">
+              <div className="items-center px-4 py-3 space-y-2">
+                <Button onClick={handleSubmitSlip} disabled={!paymentSlip || isSubmittingSlip} className="w-full">
+                  {isSubmittingSlip ? t('bookings.submitting') : t('bookings.submitSlip')}
+                </Button>
                 <Button onClick={() => setShowPaymentUpload(false)} className="px-4 py-2 bg-gray-500 text-white text-base font-medium rounded-md width-full shadow-sm hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300">
-                  Close
+                  {t('common.close')}
                 </Button>
               </div>
             </div>
@@ -212,21 +533,82 @@ export const BookingsPage: React.FC = () => {
         </div>
       )}
 
-      {/* Rating and Review Modal */}
-      {showRatingModal && selectedBooking && (
+      {/* Extension Modal */}
+      {showExtend && selectedBooking && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full">
-          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
-            <div className="mt-3 text-center">
-              <h3 className="text-lg leading-6 font-medium text-gray-900">
-                Rate and Review
-              </h3>
-              <div className="mt-2">
-                <RatingReviewModal onSubmit={handleRatingSubmit} />
-              </div>
-            </div>
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white dark:bg-gray-800">
+            <h3 className="mb-4 text-lg leading-6 font-medium text-gray-900 dark:text-gray-100 text-center">
+              {t('bookings.extendTitle')}
+            </h3>
+            <ExtendBookingForm
+              booking={selectedBooking}
+              onRequested={handleExtensionRequested}
+              onCancel={() => setShowExtend(false)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Cancellation Modal */}
+      {showCancel && selectedBooking && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white dark:bg-gray-800">
+            <h3 className="mb-1 text-lg leading-6 font-medium text-gray-900 dark:text-gray-100 text-center">
+              {t('bookings.cancelTitle')}
+            </h3>
+            <p className="mb-4 text-sm text-gray-500 text-center">{getSpotName(selectedBooking.spot_id)}</p>
+            <CancelBookingForm
+              booking={selectedBooking}
+              spot={spots.find(s => s.id === selectedBooking.spot_id)}
+              onCancelled={handleCancelled}
+              onClose={() => setShowCancel(false)}
+            />
           </div>
         </div>
       )}
+
+      {/* Booking History Modal */}
+      {showHistory && selectedBooking && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white dark:bg-gray-800">
+            <h3 className="mb-1 text-lg leading-6 font-medium text-gray-900 dark:text-gray-100 text-center">
+              {t('bookings.historyTitle')}
+            </h3>
+            <p className="mb-4 text-sm text-gray-500 text-center">{getSpotName(selectedBooking.spot_id)}</p>
+            <BookingTimeline booking={selectedBooking} />
+            <Button variant="outline" onClick={() => setShowHistory(false)} className="mt-4 w-full">
+              {t('common.close')}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Charge Payment Modal */}
+      {payingCharge && selectedBooking && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white dark:bg-gray-800">
+            <h3 className="mb-1 text-lg leading-6 font-medium text-gray-900 dark:text-gray-100 text-center">
+              {chargeDescription(payingCharge, language)}
+            </h3>
+            <p className="mb-4 text-sm text-gray-500 text-center">{getSpotName(selectedBooking.spot_id)}</p>
+            <CardPaymentForm booking={selectedBooking} charge={payingCharge} onPaid={handleChargePaid} />
+            <Button variant="outline" onClick={() => setPayingCharge(null)} className="mt-2 w-full">
+              {t('common.close')}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Rating and Review Modal */}
+      {selectedBooking && (
+        <RatingReviewModal
+          isOpen={showRatingModal}
+          onClose={() => setShowRatingModal(false)}
+          spotName={getSpotName(selectedBooking.spot_id)}
+          bookingId={selectedBooking.id}
+          onSubmit={handleRatingSubmit}
+        />
+      )}
     </div>
   );
 };
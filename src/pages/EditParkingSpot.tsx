@@ -13,41 +13,86 @@ import {
   ToggleLeft,
   ToggleRight
 } from 'lucide-react';
-import { mockParkingSpots } from '../data/mockData';
+import { database } from '../data/database';
+import { useI18n } from '../context/I18nContext';
+import { WeeklySchedule } from '../types';
+import { WeeklyScheduleEditor } from '../components/WeeklyScheduleEditor';
+import { createAlwaysOpenSchedule, formatScheduleSummary, validateSchedule } from '../services/schedule';
+import { PricingRulesEditor } from '../components/PricingRulesEditor';
+import { PricingRules, validatePricingRules } from '../services/pricing';
+import { CancellationPolicyEditor } from '../components/CancellationPolicyEditor';
+import { CancellationPolicy, validateCancellationPolicy } from '../services/cancellation';
+import { CURRENCIES, currencyOf } from '../services/currency';
+import { DEFAULT_CURRENCY } from '../i18n/format';
 
 export const EditParkingSpot: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { language, t, formatCurrencyName } = useI18n();
   const [isEnabled, setIsEnabled] = useState(true);
+  const [autoApproveExtensions, setAutoApproveExtensions] = useState(false);
+  const [schedule, setSchedule] = useState<WeeklySchedule>(() => createAlwaysOpenSchedule());
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
+  const [pricingRules, setPricingRules] = useState<PricingRules>({});
+  const [pricingError, setPricingError] = useState<string | null>(null);
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicy>({});
+  const [cancellationError, setCancellationError] = useState<string | null>(null);
   const [formData, setFormData] = useState({
-    name: '',
+    title: '',
     description: '',
     address: '',
-    totalSlots: 1,
-    priceType: 'hour' as 'hour' | 'day' | 'month',
-    price: 0,
+    total_slots: 1,
+    currency: DEFAULT_CURRENCY,
+    hourly_rate: 0,
+    daily_rate: 0,
     phone: '',
     amenities: [] as string[],
     images: [] as string[],
-    openingHours: '24/7',
   });
 
   useEffect(() => {
-    const spot = mockParkingSpots.find(s => s.id === id);
-    if (spot) {
-      setFormData({
-        name: spot.name,
-        description: spot.description,
-        address: spot.address,
-        totalSlots: spot.totalSlots,
-        priceType: spot.priceType,
-        price: spot.price,
-        phone: spot.phone || '',
-        amenities: spot.amenities,
-        images: spot.images,
-        openingHours: spot.openingHours,
-      });
-    }
+    const loadSpot = async () => {
+      if (!id) return;
+      const [spot, spotSchedule] = await Promise.all([
+        database.getParkingSpotById(id),
+        database.getSpotSchedule(id),
+      ]);
+      if (spotSchedule) {
+        setSchedule(spotSchedule);
+      }
+      if (spot) {
+        setIsEnabled(spot.is_available);
+        setAutoApproveExtensions(Boolean(spot.auto_approve_extensions));
+        setFormData({
+          title: spot.title,
+          description: spot.description || '',
+          address: spot.address,
+          total_slots: spot.total_slots,
+          currency: currencyOf(spot),
+          hourly_rate: spot.hourly_rate,
+          daily_rate: spot.daily_rate || 0,
+          phone: spot.phone || '',
+          amenities: spot.amenities,
+          images: spot.images,
+        });
+        setPricingRules({
+          monthly_rate: spot.monthly_rate ?? undefined,
+          weekend_hourly_rate: spot.weekend_hourly_rate ?? undefined,
+          peak_hourly_rate: spot.peak_hourly_rate ?? undefined,
+          peak_start: spot.peak_start ?? undefined,
+          peak_end: spot.peak_end ?? undefined,
+          minimum_duration_minutes: spot.minimum_duration_minutes ?? undefined,
+          grace_period_minutes: spot.grace_period_minutes ?? undefined,
+          overstay_grace_minutes: spot.overstay_grace_minutes ?? undefined,
+        });
+        setCancellationPolicy({
+          cancellation_policy: spot.cancellation_policy,
+          cancellation_tiers: spot.cancellation_tiers ?? undefined,
+        });
+      }
+    };
+
+    loadSpot();
   }, [id]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
@@ -58,23 +103,53 @@ export const EditParkingSpot: React.FC = () => {
     }));
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    console.log('Updating parking spot:', formData);
-    alert('Parking spot updated successfully!');
-    navigate('/admin');
-  };
+    if (!id) return;
+
+    const invalid = validateSchedule(schedule, language);
+    setScheduleError(invalid);
+    const invalidPricing = validatePricingRules(pricingRules, language);
+    setPricingError(invalidPricing);
+    const invalidCancellation = validateCancellationPolicy(cancellationPolicy, language);
+    setCancellationError(invalidCancellation);
+    if (invalid || invalidPricing || invalidCancellation) return;
 
-  const handleDelete = () => {
-    if (confirm('Are you sure you want to delete this parking spot? This action cannot be undone.')) {
-      console.log('Deleting parking spot:', id);
-      alert('Parking spot deleted successfully!');
+    try {
+      await database.updateParkingSpot(id, {
+        ...formData,
+        daily_rate: formData.daily_rate || undefined,
+        ...pricingRules,
+        ...cancellationPolicy,
+        opening_hours: formatScheduleSummary(schedule),
+        is_available: isEnabled,
+        auto_approve_extensions: autoApproveExtensions,
+      });
+      await database.saveSpotSchedule(id, schedule);
+      alert(t('spotForm.updated'));
       navigate('/admin');
+    } catch (error) {
+      console.error('Error updating parking spot:', error);
+      alert(t('spotForm.updateFailed'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!id) return;
+    if (confirm(t('spotForm.confirmDelete'))) {
+      try {
+        await database.deleteParkingSpot(id);
+        alert(t('spotForm.deleted'));
+        navigate('/admin');
+      } catch (error) {
+        console.error('Error deleting parking spot:', error);
+        alert(t('spotForm.deleteFailed'));
+      }
     }
   };
 
   const addImageUrl = () => {
-    const url = prompt('Enter image URL:');
+    const url = prompt(t('spotForm.imageUrlPrompt'));
     if (url) {
       setFormData(prev => ({
         ...prev,
@@ -91,30 +166,30 @@ export const EditParkingSpot: React.FC = () => {
   };
 
   return (
-    <div className="min-h-screen bg-gray-50">
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <div className="max-w-4xl mx-auto px-4 py-8">
         <button 
           onClick={() => navigate('/admin')}
-          className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 mb-6 transition-colors"
+          className="flex items-center space-x-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 mb-6 transition-colors"
         >
           <ArrowLeft className="h-5 w-5" />
-          <span>Back to Dashboard</span>
+          <span>{t('spotForm.backToDashboard')}</span>
         </button>
 
-        <div className="bg-white rounded-xl shadow-lg p-8">
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-8">
           <div className="flex items-center justify-between mb-8">
             <div>
-              <h1 className="text-3xl font-bold text-gray-900 mb-2">
-                Edit Parking Spot
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+                {t('spotForm.editTitle')}
               </h1>
-              <p className="text-gray-600">
-                Update your parking spot information and settings
+              <p className="text-gray-600 dark:text-gray-400">
+                {t('spotForm.editSubtitle')}
               </p>
             </div>
             <div className="flex items-center space-x-4">
               <div className="flex items-center space-x-2">
-                <span className="text-sm font-medium text-gray-700">
-                  {isEnabled ? 'Enabled' : 'Disabled'}
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {isEnabled ? t('spotForm.enabled') : t('spotForm.disabled')}
                 </span>
                 <button
                   onClick={() => setIsEnabled(!isEnabled)}
@@ -128,160 +203,192 @@ export const EditParkingSpot: React.FC = () => {
                 className="flex items-center space-x-2 text-red-600 hover:text-red-800 transition-colors"
               >
                 <Trash2 className="h-5 w-5" />
-                <span>Delete</span>
+                <span>{t('common.delete')}</span>
               </button>
             </div>
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-8">
             {/* Basic Information */}
-            <div className="bg-gray-50 rounded-lg p-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Basic Information</h3>
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">{t('spotForm.basicInfo')}</h3>
               <div className="grid md:grid-cols-2 gap-6">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Parking Spot Name
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {t('spotForm.spotName')}
                   </label>
                   <input
                     type="text"
-                    name="name"
-                    value={formData.name}
+                    name="title"
+                    value={formData.title}
                     onChange={handleInputChange}
-                    className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
                   />
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Phone Number
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {t('profile.phone')}
                   </label>
                   <input
                     type="tel"
                     name="phone"
                     value={formData.phone}
                     onChange={handleInputChange}
-                    className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
                   />
                 </div>
               </div>
               <div className="mt-4">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Description
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  {t('spotForm.description')}
                 </label>
                 <textarea
                   name="description"
                   value={formData.description}
                   onChange={handleInputChange}
                   rows={3}
-                  className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                  className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
                 />
               </div>
             </div>
 
             {/* Location */}
-            <div className="bg-gray-50 rounded-lg p-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4 flex items-center">
                 <MapPin className="h-5 w-5 mr-2" />
-                Location
+                {t('spotForm.location')}
               </h3>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Full Address
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  {t('spotForm.fullAddress')}
                 </label>
                 <input
                   type="text"
                   name="address"
                   value={formData.address}
                   onChange={handleInputChange}
-                  className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                  className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
                 />
               </div>
             </div>
 
             {/* Pricing & Capacity */}
-            <div className="bg-gray-50 rounded-lg p-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4 flex items-center">
                 <DollarSign className="h-5 w-5 mr-2" />
-                Pricing & Capacity
+                {t('spotForm.pricingCapacity')}
               </h3>
               <div className="grid md:grid-cols-3 gap-6">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Price
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {t('spotForm.currency')}
+                  </label>
+                  <select
+                    name="currency"
+                    value={formData.currency}
+                    onChange={handleInputChange}
+                    className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                  >
+                    {CURRENCIES.map(code => (
+                      <option key={code} value={code}>{code} - {formatCurrencyName(code)}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">{t('spotForm.currencyHint')}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {t('spotForm.hourlyRate')}
                   </label>
                   <input
                     type="number"
-                    name="price"
-                    value={formData.price}
+                    name="hourly_rate"
+                    value={formData.hourly_rate}
                     onChange={handleInputChange}
                     min="0"
                     step="0.01"
-                    className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
                   />
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Price Type
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {t('spotForm.dailyRate')}
                   </label>
-                  <select
-                    name="priceType"
-                    value={formData.priceType}
+                  <input
+                    type="number"
+                    name="daily_rate"
+                    value={formData.daily_rate}
                     onChange={handleInputChange}
-                    className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-                  >
-                    <option value="hour">Per Hour</option>
-                    <option value="day">Per Day</option>
-                    <option value="month">Per Month</option>
-                  </select>
+                    min="0"
+                    step="0.01"
+                    className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                  />
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Total Parking Slots
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {t('spotForm.totalParkingSlots')}
                   </label>
                   <input
                     type="number"
-                    name="totalSlots"
-                    value={formData.totalSlots}
+                    name="total_slots"
+                    value={formData.total_slots}
                     onChange={handleInputChange}
                     min="1"
-                    className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
                   />
                 </div>
               </div>
+              <div className="mt-6">
+                <PricingRulesEditor value={pricingRules} onChange={setPricingRules} />
+                {pricingError && (
+                  <p className="mt-2 text-sm text-red-600">{pricingError}</p>
+                )}
+              </div>
+              <label className="mt-6 flex items-start space-x-3">
+                <input
+                  type="checkbox"
+                  checked={autoApproveExtensions}
+                  onChange={(e) => setAutoApproveExtensions(e.target.checked)}
+                  className="mt-1 h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('spotForm.autoApprove')}</span>
+                  <span className="block text-sm text-gray-500">
+                    {t('spotForm.autoApproveText')}
+                  </span>
+                </span>
+              </label>
+              <div className="mt-6">
+                <CancellationPolicyEditor value={cancellationPolicy} onChange={setCancellationPolicy} />
+                {cancellationError && (
+                  <p className="mt-2 text-sm text-red-600">{cancellationError}</p>
+                )}
+              </div>
             </div>
 
             {/* Operating Hours */}
-            <div className="bg-gray-50 rounded-lg p-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4 flex items-center">
                 <Clock className="h-5 w-5 mr-2" />
-                Operating Hours
+                {t('spotForm.operatingHours')}
               </h3>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Hours
-                </label>
-                <input
-                  type="text"
-                  name="openingHours"
-                  value={formData.openingHours}
-                  onChange={handleInputChange}
-                  placeholder="e.g., 6:00 AM - 11:00 PM or 24/7"
-                  className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-                />
-              </div>
+              <WeeklyScheduleEditor value={schedule} onChange={setSchedule} />
+              {scheduleError && (
+                <p className="mt-2 text-sm text-red-600">{scheduleError}</p>
+              )}
             </div>
 
             {/* Images */}
-            <div className="bg-gray-50 rounded-lg p-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4 flex items-center">
                 <Camera className="h-5 w-5 mr-2" />
-                Images
+                {t('spotForm.images')}
               </h3>
               <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4 mb-4">
                 {formData.images.map((image, index) => (
                   <div key={index} className="relative">
                     <img
                       src={image}
-                      alt={`Parking spot ${index + 1}`}
+                      alt={t('spotForm.imageAlt', { number: index + 1 })}
                       className="w-full h-32 object-cover rounded-lg"
                     />
                     <button
@@ -296,11 +403,11 @@ export const EditParkingSpot: React.FC = () => {
                 <button
                   type="button"
                   onClick={addImageUrl}
-                  className="h-32 border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center hover:border-gray-400 transition-colors"
+                  className="h-32 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg flex items-center justify-center hover:border-gray-400 transition-colors"
                 >
                   <div className="text-center">
                     <Plus className="h-8 w-8 text-gray-400 mx-auto mb-2" />
-                    <span className="text-sm text-gray-600">Add Image</span>
+                    <span className="text-sm text-gray-600 dark:text-gray-400">{t('spotForm.addImage')}</span>
                   </div>
                 </button>
               </div>
@@ -311,16 +418,16 @@ export const EditParkingSpot: React.FC = () => {
               <button
                 type="button"
                 onClick={() => navigate('/admin')}
-                className="flex-1 border border-gray-200 py-3 px-6 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+                className="flex-1 border border-gray-200 dark:border-gray-700 py-3 px-6 rounded-lg font-semibold hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
               >
-                Cancel
+                {t('common.cancel')}
               </button>
               <button
                 type="submit"
                 className="flex-1 bg-blue-600 text-white py-3 px-6 rounded-lg font-semibold hover:bg-blue-700 transition-colors flex items-center justify-center space-x-2"
               >
                 <Save className="h-5 w-5" />
-                <span>Save Changes</span>
+                <span>{t('spotForm.saveChanges')}</span>
               </button>
             </div>
           </form>
@@ -6,10 +6,12 @@ import { Input } from '../components/ui/input';
 import { Badge } from '../components/ui/badge';
 import { MapPin, Star, Clock, Car, Wifi, Camera, Shield } from 'lucide-react';
 import { useParkingSpots } from '../hooks/useSupabase';
-import { ParkingSpot } from '../services/supabaseService';
+import { ParkingSpot } from '../types';
+import { useI18n } from '../context/I18nContext';
 
 export const HomePage = () => {
   const { spots, loading, error } = useParkingSpots();
+  const { t, formatCurrency } = useI18n();
   const [searchQuery, setSearchQuery] = useState('');
   const [locationFilter, setLocationFilter] = useState('');
 
@@ -41,11 +43,11 @@ export const HomePage = () => {
 
   if (loading) {
     return (
-      <div className="min-h-screen bg-gray-50 p-6">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-6">
         <div className="max-w-7xl mx-auto">
           <div className="text-center py-12">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
-            <p className="mt-4 text-gray-600">Loading parking spots...</p>
+            <p className="mt-4 text-gray-600 dark:text-gray-400">{t('home.loading')}</p>
           </div>
         </div>
       </div>
@@ -54,10 +56,10 @@ export const HomePage = () => {
 
   if (error) {
     return (
-      <div className="min-h-screen bg-gray-50 p-6">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-6">
         <div className="max-w-7xl mx-auto">
           <div className="text-center py-12">
-            <p className="text-red-600">Error loading parking spots: {error}</p>
+            <p className="text-red-600">{t('home.loadError', { error })}</p>
           </div>
         </div>
       </div>
@@ -65,35 +67,35 @@ export const HomePage = () => {
   }
 
   return (
-    <div className="min-h-screen bg-gray-50">
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       {/* Hero Section */}
       <div className="bg-gradient-to-br from-blue-600 to-blue-800 text-white py-16">
         <div className="max-w-7xl mx-auto px-6">
           <div className="text-center">
             <h1 className="text-4xl md:text-6xl font-bold mb-6">
-              Find Your Perfect Parking Spot
+              {t('home.heroTitle')}
             </h1>
             <p className="text-xl md:text-2xl mb-8 text-blue-100">
-              Book private parking spaces from local hosts in your area
+              {t('home.heroText')}
             </p>
             
             {/* Search Bar */}
             <div className="max-w-4xl mx-auto">
-              <div className="bg-white rounded-lg p-4 shadow-lg">
+              <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-lg">
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="space-y-2">
-                    <label className="text-sm font-medium text-gray-700">Where</label>
+                    <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('home.where')}</label>
                     <Input
-                      placeholder="Enter location"
+                      placeholder={t('home.locationPlaceholder')}
                       value={locationFilter}
                       onChange={(e) => setLocationFilter(e.target.value)}
                       className="w-full"
                     />
                   </div>
                   <div className="space-y-2">
-                    <label className="text-sm font-medium text-gray-700">Search</label>
+                    <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('home.search')}</label>
                     <Input
-                      placeholder="Search parking spots..."
+                      placeholder={t('home.searchPlaceholder')}
                       value={searchQuery}
                       onChange={(e) => setSearchQuery(e.target.value)}
                       className="w-full"
@@ -101,7 +103,7 @@ export const HomePage = () => {
                   </div>
                   <div className="flex items-end">
                     <Button className="w-full bg-blue-600 hover:bg-blue-700">
-                      Search
+                      {t('home.search')}
                     </Button>
                   </div>
                 </div>
@@ -114,11 +116,11 @@ export const HomePage = () => {
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-6 py-12">
         <div className="flex justify-between items-center mb-8">
-          <h2 className="text-3xl font-bold text-gray-900">
-            Available Parking Spots
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+            {t('home.availableSpots')}
           </h2>
-          <p className="text-gray-600">
-            {filteredSpots.length} spot{filteredSpots.length !== 1 ? 's' : ''} found
+          <p className="text-gray-600 dark:text-gray-400">
+            {t(filteredSpots.length === 1 ? 'home.spotFound' : 'home.spotsFound', { count: filteredSpots.length })}
           </p>
         </div>
 
@@ -134,17 +136,17 @@ export const HomePage = () => {
                     className="w-full h-48 object-cover"
                   />
                 ) : (
-                  <div className="w-full h-48 bg-gray-200 flex items-center justify-center">
+                  <div className="w-full h-48 bg-gray-200 dark:bg-gray-600 flex items-center justify-center">
                     <span className="text-4xl">{getSpotTypeIcon(spot.spot_type)}</span>
                   </div>
                 )}
                 {spot.is_available ? (
                   <Badge className="absolute top-2 right-2 bg-green-500">
-                    Available
+                    {t('spot.available')}
                   </Badge>
                 ) : (
                   <Badge className="absolute top-2 right-2 bg-red-500">
-                    Unavailable
+                    {t('spot.unavailable')}
                   </Badge>
                 )}
               </div>
@@ -152,10 +154,10 @@ export const HomePage = () => {
               <CardContent className="p-6">
                 <div className="space-y-4">
                   <div>
-                    <h3 className="text-xl font-semibold text-gray-900 mb-2">
+                    <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-2">
                       {spot.title}
                     </h3>
-                    <div className="flex items-center text-gray-600 mb-2">
+                    <div className="flex items-center text-gray-600 dark:text-gray-400 mb-2">
                       <MapPin className="w-4 h-4 mr-1" />
                       <span className="text-sm">{spot.address}</span>
                     </div>
@@ -164,19 +166,19 @@ export const HomePage = () => {
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-2">
                       <span className="text-2xl font-bold text-blue-600">
-                        ${spot.hourly_rate}
+                        {formatCurrency(spot.hourly_rate, spot.currency)}
                       </span>
-                      <span className="text-gray-600">/hour</span>
+                      <span className="text-gray-600 dark:text-gray-400">{t('common.perHourUnit')}</span>
                     </div>
                     {spot.daily_rate && (
-                      <div className="text-sm text-gray-600">
-                        ${spot.daily_rate}/day
+                      <div className="text-sm text-gray-600 dark:text-gray-400">
+                        {t('common.perDay', { price: formatCurrency(spot.daily_rate, spot.currency) })}
                       </div>
                     )}
                   </div>
 
                   {spot.description && (
-                    <p className="text-gray-600 text-sm line-clamp-2">
+                    <p className="text-gray-600 dark:text-gray-400 text-sm line-clamp-2">
                       {spot.description}
                     </p>
                   )}
@@ -192,7 +194,7 @@ export const HomePage = () => {
                       ))}
                       {spot.amenities.length > 3 && (
                         <Badge variant="secondary" className="text-xs">
-                          +{spot.amenities.length - 3} more
+                          {t('home.moreAmenities', { count: spot.amenities.length - 3 })}
                         </Badge>
                       )}
                     </div>
@@ -202,7 +204,7 @@ export const HomePage = () => {
                     className="w-full bg-blue-600 hover:bg-blue-700"
                     disabled={!spot.is_available}
                   >
-                    {spot.is_available ? 'Book Now' : 'Unavailable'}
+                    {spot.is_available ? t('spot.bookNow') : t('spot.unavailable')}
                   </Button>
                 </div>
               </CardContent>
@@ -215,11 +217,11 @@ export const HomePage = () => {
             <div className="text-gray-400 mb-4">
               <MapPin className="w-16 h-16 mx-auto" />
             </div>
-            <h3 className="text-xl font-semibold text-gray-900 mb-2">
-              No parking spots found
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-2">
+              {t('home.noSpots')}
             </h3>
-            <p className="text-gray-600">
-              Try adjusting your search criteria or check back later for new listings.
+            <p className="text-gray-600 dark:text-gray-400">
+              {t('home.noSpotsHint')}
             </p>
           </div>
         )}
@@ -229,13 +231,13 @@ export const HomePage = () => {
       <div className="bg-blue-600 text-white py-16">
         <div className="max-w-4xl mx-auto text-center px-6">
           <h2 className="text-3xl font-bold mb-4">
-            Have a parking space to rent?
+            {t('home.ctaTitle')}
           </h2>
           <p className="text-xl mb-8 text-blue-100">
-            Start earning money by sharing your unused parking space with others.
+            {t('home.ctaText')}
           </p>
-          <Button size="lg" variant="secondary" className="bg-white text-blue-600 hover:bg-gray-100">
-            List Your Space
+          <Button size="lg" variant="secondary" className="bg-white dark:bg-gray-800 text-blue-600 hover:bg-gray-100 dark:hover:bg-gray-700">
+            {t('home.ctaButton')}
           </Button>
         </div>
       </div>
@@ -2,24 +2,29 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import { MapPin, Car, Shield, Clock, Star, ArrowRight } from 'lucide-react';
+import { useI18n } from '../context/I18nContext';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
 
 export const LandingPage: React.FC = () => {
+  const { t } = useI18n();
+
   return (
-    <div className="min-h-screen bg-white">
+    <div className="min-h-screen bg-white dark:bg-gray-800">
       {/* Header */}
-      <header className="bg-white shadow-sm">
+      <header className="bg-white dark:bg-gray-800 shadow-sm">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center py-6">
             <div className="flex items-center">
               <MapPin className="h-8 w-8 text-blue-600" />
-              <span className="ml-2 text-xl font-bold text-gray-900">ParkPass</span>
+              <span className="ml-2 text-xl font-bold text-gray-900 dark:text-gray-100">ParkPass</span>
             </div>
             <div className="flex items-center space-x-4">
+              <LanguageSwitcher />
               <Link
                 to="/login"
                 className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium transition-colors"
               >
-                Sign In
+                {t('landing.signIn')}
               </Link>
             </div>
           </div>
@@ -30,26 +35,26 @@ export const LandingPage: React.FC = () => {
       <section className="bg-gradient-to-br from-blue-50 to-indigo-100 py-20">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="text-center">
-            <h1 className="text-4xl md:text-6xl font-bold text-gray-900 mb-6">
-              Find Perfect
-              <span className="text-blue-600"> Parking Spots</span>
+            <h1 className="text-4xl md:text-6xl font-bold text-gray-900 dark:text-gray-100 mb-6">
+              {t('landing.heroTitle')}
+              <span className="text-blue-600"> {t('landing.heroHighlight')}</span>
             </h1>
-            <p className="text-xl text-gray-600 mb-8 max-w-3xl mx-auto">
-              Discover and book parking spaces near you, or rent out your own space to earn extra income. Safe, convenient, and affordable parking made simple.
+            <p className="text-xl text-gray-600 dark:text-gray-400 mb-8 max-w-3xl mx-auto">
+              {t('landing.heroText')}
             </p>
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
               <Link
                 to="/login"
                 className="bg-blue-600 hover:bg-blue-700 text-white px-8 py-4 rounded-lg font-semibold text-lg transition-colors flex items-center justify-center"
               >
-                Find Parking
+                {t('landing.findParking')}
                 <ArrowRight className="ml-2 h-5 w-5" />
               </Link>
               <Link
                 to="/login"
                 className="border-2 border-blue-600 text-blue-600 hover:bg-blue-600 hover:text-white px-8 py-4 rounded-lg font-semibold text-lg transition-colors"
               >
-                List Your Space
+                {t('landing.listSpace')}
               </Link>
             </div>
           </div>
@@ -57,14 +62,14 @@ export const LandingPage: React.FC = () => {
       </section>
 
       {/* Features Section */}
-      <section className="py-20 bg-white">
+      <section className="py-20 bg-white dark:bg-gray-800">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="text-center mb-16">
-            <h2 className="text-3xl md:text-4xl font-bold text-gray-900 mb-4">
-              Why Choose ParkPass?
+            <h2 className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-gray-100 mb-4">
+              {t('landing.whyTitle')}
             </h2>
-            <p className="text-xl text-gray-600">
-              The easiest way to park and earn
+            <p className="text-xl text-gray-600 dark:text-gray-400">
+              {t('landing.whySubtitle')}
             </p>
           </div>
 
@@ -73,32 +78,32 @@ export const LandingPage: React.FC = () => {
               <div className="bg-blue-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
                 <MapPin className="h-8 w-8 text-blue-600" />
               </div>
-              <h3 className="text-xl font-semibold text-gray-900 mb-2">Easy Location</h3>
-              <p className="text-gray-600">Find parking spots near your destination with our smart search</p>
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-2">{t('landing.locationTitle')}</h3>
+              <p className="text-gray-600 dark:text-gray-400">{t('landing.locationText')}</p>
             </div>
 
             <div className="text-center">
               <div className="bg-green-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
                 <Clock className="h-8 w-8 text-green-600" />
               </div>
-              <h3 className="text-xl font-semibold text-gray-900 mb-2">Instant Booking</h3>
-              <p className="text-gray-600">Book your parking spot in seconds with our quick booking system</p>
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-2">{t('landing.bookingTitle')}</h3>
+              <p className="text-gray-600 dark:text-gray-400">{t('landing.bookingText')}</p>
             </div>
 
             <div className="text-center">
               <div className="bg-purple-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
                 <Shield className="h-8 w-8 text-purple-600" />
               </div>
-              <h3 className="text-xl font-semibold text-gray-900 mb-2">Secure & Safe</h3>
-              <p className="text-gray-600">All transactions are secure and parking spots are verified</p>
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-2">{t('landing.secureTitle')}</h3>
+              <p className="text-gray-600 dark:text-gray-400">{t('landing.secureText')}</p>
             </div>
 
             <div className="text-center">
               <div className="bg-yellow-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
                 <Star className="h-8 w-8 text-yellow-600" />
               </div>
-              <h3 className="text-xl font-semibold text-gray-900 mb-2">Top Rated</h3>
-              <p className="text-gray-600">Join thousands of satisfied users who trust ParkPass</p>
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-2">{t('landing.ratedTitle')}</h3>
+              <p className="text-gray-600 dark:text-gray-400">{t('landing.ratedText')}</p>
             </div>
           </div>
         </div>
@@ -108,16 +113,16 @@ export const LandingPage: React.FC = () => {
       <section className="bg-blue-600 py-16">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
           <h2 className="text-3xl md:text-4xl font-bold text-white mb-4">
-            Ready to Get Started?
+            {t('landing.ctaTitle')}
           </h2>
           <p className="text-xl text-blue-100 mb-8">
-            Join ParkPass today and experience hassle-free parking
+            {t('landing.ctaText')}
           </p>
           <Link
             to="/login"
-            className="bg-white text-blue-600 hover:bg-gray-100 px-8 py-4 rounded-lg font-semibold text-lg transition-colors inline-flex items-center"
+            className="bg-white dark:bg-gray-800 text-blue-600 hover:bg-gray-100 dark:hover:bg-gray-700 px-8 py-4 rounded-lg font-semibold text-lg transition-colors inline-flex items-center"
           >
-            Get Started Now
+            {t('landing.ctaButton')}
             <ArrowRight className="ml-2 h-5 w-5" />
           </Link>
         </div>
@@ -131,7 +136,7 @@ export const LandingPage: React.FC = () => {
             <span className="ml-2 text-xl font-bold">ParkPass</span>
           </div>
           <p className="text-center text-gray-400 mt-4">
-            © 2024 ParkPass. Making parking simple and profitable.
+            {t('landing.footer')}
           </p>
         </div>
       </footer>
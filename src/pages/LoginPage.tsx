@@ -2,7 +2,8 @@ import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { MapPin, Eye, EyeOff, Mail, Lock, User, Building2, Car } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
-import { database } from '../data/database';
+import { useI18n } from '../context/I18nContext';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
 
 export const LoginPage: React.FC = () => {
   const [mode, setMode] = useState<'login' | 'customer-register' | 'owner-register'>('login');
@@ -21,7 +22,8 @@ export const LoginPage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const navigate = useNavigate();
-  const { login } = useAuth();
+  const { signIn, signUp } = useAuth();
+  const { t } = useI18n();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -30,50 +32,42 @@ export const LoginPage: React.FC = () => {
 
     try {
       if (mode === 'login') {
-        const success = await login(formData.email, formData.password);
-        if (success) {
-          // Store remember me preference
-          if (rememberMe) {
-            localStorage.setItem('parkpass_remember', 'true');
-          }
-          // Navigation will be handled by the auth context and route protection
-          navigate('/');
-        } else {
-          setError('Invalid email or password');
+        try {
+          await signIn(formData.email, formData.password);
+        } catch {
+          setError(t('login.invalidCredentials'));
+          return;
+        }
+        // Store remember me preference
+        if (rememberMe) {
+          localStorage.setItem('parkpass_remember', 'true');
         }
+        // Navigation will be handled by the auth context and route protection
+        navigate('/');
       } else {
         // Registration
         if (formData.password !== formData.confirmPassword) {
-          setError('Passwords do not match');
+          setError(t('login.passwordMismatch'));
           setIsLoading(false);
           return;
         }
 
         if (formData.password.length < 6) {
-          setError('Password must be at least 6 characters long');
+          setError(t('login.passwordTooShort'));
           setIsLoading(false);
           return;
         }
 
-        const userData = {
-          name: formData.name,
-          email: formData.email,
-          password: formData.password,
-          phone: formData.phone,
-          userType: mode === 'owner-register' ? 'owner' as const : 'customer' as const,
-          vehicles: []
-        };
-
-        await database.createUser(userData);
-        
-        // Auto-login after registration
-        const success = await login(formData.email, formData.password);
-        if (success) {
-          navigate('/');
-        }
+        await signUp(
+          formData.email,
+          formData.password,
+          formData.name,
+          mode === 'owner-register' ? 'host' : 'guest'
+        );
+        navigate('/');
       }
     } catch (error) {
-      setError('An error occurred. Please try again.');
+      setError(t('login.genericError'));
     } finally {
       setIsLoading(false);
     }
@@ -107,6 +101,8 @@ export const LoginPage: React.FC = () => {
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 flex items-center justify-center p-4">
       <div className="max-w-md w-full">
+        <LanguageSwitcher className="justify-end mb-4" />
+
         {/* Logo */}
         <div className="text-center mb-8">
           <div className="flex items-center justify-center space-x-2 mb-4">
@@ -117,10 +113,10 @@ export const LoginPage: React.FC = () => {
               ParkPass
             </span>
           </div>
-          <p className="text-gray-600">
-            {mode === 'login' && 'Welcome back to the future of parking'}
-            {mode === 'customer-register' && 'Find and book parking spots instantly'}
-            {mode === 'owner-register' && 'Start earning from your parking spaces'}
+          <p className="text-gray-600 dark:text-gray-400">
+            {mode === 'login' && t('login.taglineLogin')}
+            {mode === 'customer-register' && t('login.taglineDriver')}
+            {mode === 'owner-register' && t('login.taglineOwner')}
           </p>
         </div>
 
@@ -132,20 +128,20 @@ export const LoginPage: React.FC = () => {
                 onClick={() => switchMode('customer-register')}
                 className={`p-4 rounded-xl border-2 transition-all duration-200 ${
                   mode === 'customer-register'
-                    ? 'border-blue-500 bg-blue-50 shadow-md'
-                    : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 shadow-md'
+                    : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
                 }`}
               >
                 <Car className={`h-6 w-6 mx-auto mb-2 ${
-                  mode === 'customer-register' ? 'text-blue-600' : 'text-gray-600'
+                  mode === 'customer-register' ? 'text-blue-600' : 'text-gray-600 dark:text-gray-400'
                 }`} />
                 <div className={`font-semibold ${
-                  mode === 'customer-register' ? 'text-blue-900' : 'text-gray-900'
+                  mode === 'customer-register' ? 'text-blue-900 dark:text-blue-200' : 'text-gray-900 dark:text-gray-100'
                 }`}>
-                  Driver
+                  {t('login.driver')}
                 </div>
-                <div className="text-xs text-gray-600 mt-1">
-                  Find & book parking
+                <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                  {t('login.driverHint')}
                 </div>
               </button>
               
@@ -153,20 +149,20 @@ export const LoginPage: React.FC = () => {
                 onClick={() => switchMode('owner-register')}
                 className={`p-4 rounded-xl border-2 transition-all duration-200 ${
                   mode === 'owner-register'
-                    ? 'border-blue-500 bg-blue-50 shadow-md'
-                    : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 shadow-md'
+                    : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
                 }`}
               >
                 <Building2 className={`h-6 w-6 mx-auto mb-2 ${
-                  mode === 'owner-register' ? 'text-blue-600' : 'text-gray-600'
+                  mode === 'owner-register' ? 'text-blue-600' : 'text-gray-600 dark:text-gray-400'
                 }`} />
                 <div className={`font-semibold ${
-                  mode === 'owner-register' ? 'text-blue-900' : 'text-gray-900'
+                  mode === 'owner-register' ? 'text-blue-900 dark:text-blue-200' : 'text-gray-900 dark:text-gray-100'
                 }`}>
-                  Owner
+                  {t('login.owner')}
                 </div>
-                <div className="text-xs text-gray-600 mt-1">
-                  List your spaces
+                <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                  {t('login.ownerHint')}
                 </div>
               </button>
             </div>
@@ -174,23 +170,23 @@ export const LoginPage: React.FC = () => {
         )}
 
         {/* Form Container */}
-        <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8">
+        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-100 dark:border-gray-800 p-8">
           <div className="mb-6">
-            <h2 className="text-2xl font-bold text-gray-900 mb-2">
-              {mode === 'login' && 'Sign In'}
-              {mode === 'customer-register' && 'Create Driver Account'}
-              {mode === 'owner-register' && 'Create Owner Account'}
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+              {mode === 'login' && t('login.signIn')}
+              {mode === 'customer-register' && t('login.createDriver')}
+              {mode === 'owner-register' && t('login.createOwner')}
             </h2>
-            <p className="text-gray-600">
-              {mode === 'login' && 'Enter your credentials to access your account'}
-              {mode === 'customer-register' && 'Join thousands of drivers finding perfect parking'}
-              {mode === 'owner-register' && 'Start monetizing your parking spaces today'}
+            <p className="text-gray-600 dark:text-gray-400">
+              {mode === 'login' && t('login.introLogin')}
+              {mode === 'customer-register' && t('login.introDriver')}
+              {mode === 'owner-register' && t('login.introOwner')}
             </p>
           </div>
 
           {error && (
-            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
-              <p className="text-red-700 text-sm">{error}</p>
+            <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-red-700 dark:text-red-300 text-sm">{error}</p>
             </div>
           )}
 
@@ -198,8 +194,8 @@ export const LoginPage: React.FC = () => {
             {/* Name Field (Registration only) */}
             {mode !== 'login' && (
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Full Name
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  {t('login.fullName')}
                 </label>
                 <div className="relative">
                   <User className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
@@ -208,8 +204,8 @@ export const LoginPage: React.FC = () => {
                     name="name"
                     value={formData.name}
                     onChange={handleInputChange}
-                    placeholder="Enter your full name"
-                    className="w-full pl-10 pr-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all duration-200 hover:border-gray-300"
+                    placeholder={t('login.fullNamePlaceholder')}
+                    className="w-full pl-10 pr-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all duration-200 hover:border-gray-300 dark:hover:border-gray-600"
                     required
                   />
                 </div>
@@ -218,8 +214,8 @@ export const LoginPage: React.FC = () => {
 
             {/* Email Field */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Email Address
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                {t('login.email')}
               </label>
               <div className="relative">
                 <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
@@ -228,8 +224,8 @@ export const LoginPage: React.FC = () => {
                   name="email"
                   value={formData.email}
                   onChange={handleInputChange}
-                  placeholder="Enter your email"
-                  className="w-full pl-10 pr-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all duration-200 hover:border-gray-300"
+                  placeholder={t('login.emailPlaceholder')}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all duration-200 hover:border-gray-300 dark:hover:border-gray-600"
                   required
                 />
               </div>
@@ -238,16 +234,16 @@ export const LoginPage: React.FC = () => {
             {/* Phone Field (Registration only) */}
             {mode !== 'login' && (
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Phone Number
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  {t('login.phone')}
                 </label>
                 <input
                   type="tel"
                   name="phone"
                   value={formData.phone}
                   onChange={handleInputChange}
-                  placeholder="Enter your phone number"
-                  className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all duration-200 hover:border-gray-300"
+                  placeholder={t('login.phonePlaceholder')}
+                  className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all duration-200 hover:border-gray-300 dark:hover:border-gray-600"
                   required
                 />
               </div>
@@ -255,8 +251,8 @@ export const LoginPage: React.FC = () => {
 
             {/* Password Field */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Password
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                {t('login.password')}
               </label>
               <div className="relative">
                 <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
@@ -265,21 +261,21 @@ export const LoginPage: React.FC = () => {
                   name="password"
                   value={formData.password}
                   onChange={handleInputChange}
-                  placeholder="Enter your password"
-                  className="w-full pl-10 pr-12 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all duration-200 hover:border-gray-300"
+                  placeholder={t('login.passwordPlaceholder')}
+                  className="w-full pl-10 pr-12 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all duration-200 hover:border-gray-300 dark:hover:border-gray-600"
                   required
                 />
                 <button
                   type="button"
                   onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                  className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-400 transition-colors"
                 >
                   {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
                 </button>
               </div>
               {mode !== 'login' && (
                 <p className="text-xs text-gray-500 mt-1">
-                  Must be at least 6 characters
+                  {t('login.passwordHint')}
                 </p>
               )}
             </div>
@@ -287,8 +283,8 @@ export const LoginPage: React.FC = () => {
             {/* Confirm Password Field (Registration only) */}
             {mode !== 'login' && (
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Confirm Password
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  {t('login.confirmPassword')}
                 </label>
                 <div className="relative">
                   <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
@@ -297,14 +293,14 @@ export const LoginPage: React.FC = () => {
                     name="confirmPassword"
                     value={formData.confirmPassword}
                     onChange={handleInputChange}
-                    placeholder="Confirm your password"
-                    className="w-full pl-10 pr-12 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all duration-200 hover:border-gray-300"
+                    placeholder={t('login.confirmPasswordPlaceholder')}
+                    className="w-full pl-10 pr-12 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all duration-200 hover:border-gray-300 dark:hover:border-gray-600"
                     required
                   />
                   <button
                     type="button"
                     onClick={() => setShowConfirmPassword(!showConfirmPassword)}
-                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-400 transition-colors"
                   >
                     {showConfirmPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
                   </button>
@@ -320,15 +316,15 @@ export const LoginPage: React.FC = () => {
                     type="checkbox"
                     checked={rememberMe}
                     onChange={(e) => setRememberMe(e.target.checked)}
-                    className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                    className="rounded border-gray-300 dark:border-gray-600 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
                   />
-                  <span className="ml-2 text-sm text-gray-700">Remember me</span>
+                  <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">{t('login.rememberMe')}</span>
                 </label>
                 <button
                   type="button"
                   className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
                 >
-                  Forgot password?
+                  {t('login.forgotPassword')}
                 </button>
               </div>
             )}
@@ -342,13 +338,13 @@ export const LoginPage: React.FC = () => {
               {isLoading ? (
                 <div className="flex items-center justify-center space-x-2">
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                  <span>Please wait...</span>
+                  <span>{t('common.pleaseWait')}</span>
                 </div>
               ) : (
                 <>
-                  {mode === 'login' && 'Sign In'}
-                  {mode === 'customer-register' && 'Create Driver Account'}
-                  {mode === 'owner-register' && 'Create Owner Account'}
+                  {mode === 'login' && t('login.signIn')}
+                  {mode === 'customer-register' && t('login.createDriver')}
+                  {mode === 'owner-register' && t('login.createOwner')}
                 </>
               )}
             </button>
@@ -357,30 +353,30 @@ export const LoginPage: React.FC = () => {
           {/* Toggle Login/Register */}
           <div className="mt-6 text-center">
             {mode === 'login' ? (
-              <p className="text-gray-600">
-                Don't have an account?{' '}
+              <p className="text-gray-600 dark:text-gray-400">
+                {t('login.noAccount')}{' '}
                 <button
                   onClick={() => switchMode('customer-register')}
                   className="text-blue-600 hover:text-blue-800 font-semibold transition-colors"
                 >
-                  Sign up as a driver
+                  {t('login.signUpDriver')}
                 </button>
-                {' '}or{' '}
+                {' '}{t('login.or')}{' '}
                 <button
                   onClick={() => switchMode('owner-register')}
                   className="text-blue-600 hover:text-blue-800 font-semibold transition-colors"
                 >
-                  list your parking space
+                  {t('login.signUpOwner')}
                 </button>
               </p>
             ) : (
-              <p className="text-gray-600">
-                Already have an account?{' '}
+              <p className="text-gray-600 dark:text-gray-400">
+                {t('login.haveAccount')}{' '}
                 <button
                   onClick={() => switchMode('login')}
                   className="text-blue-600 hover:text-blue-800 font-semibold transition-colors"
                 >
-                  Sign in
+                  {t('login.signInLink')}
                 </button>
               </p>
             )}
@@ -388,17 +384,17 @@ export const LoginPage: React.FC = () => {
 
           {/* Demo Credentials */}
           <div className="mt-6 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl p-4 border border-blue-100">
-            <h4 className="font-semibold text-blue-900 mb-3 flex items-center">
+            <h4 className="font-semibold text-blue-900 dark:text-blue-200 mb-3 flex items-center">
               <span className="w-2 h-2 bg-blue-500 rounded-full mr-2"></span>
-              Demo Credentials
+              {t('login.demoCredentials')}
             </h4>
-            <div className="text-sm text-blue-800 space-y-2">
+            <div className="text-sm text-blue-800 dark:text-blue-200 space-y-2">
               <div className="flex justify-between items-center">
-                <span><strong>Driver:</strong> driver@demo.com</span>
+                <span><strong>{t('login.driver')}:</strong> driver@demo.com</span>
                 <span className="font-mono text-xs bg-blue-100 px-2 py-1 rounded">demo123</span>
               </div>
               <div className="flex justify-between items-center">
-                <span><strong>Owner:</strong> owner@demo.com</span>
+                <span><strong>{t('login.owner')}:</strong> owner@demo.com</span>
                 <span className="font-mono text-xs bg-blue-100 px-2 py-1 rounded">demo123</span>
               </div>
             </div>
@@ -5,21 +5,60 @@ import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
-import { Calendar, Clock, Car, Save, ArrowLeft } from 'lucide-react';
+import { Textarea } from '../components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Calendar, Clock, Car, Save, ArrowLeft, Ban, Trash2 } from 'lucide-react';
 import { database } from '../data/database';
 import { useAuth } from '../context/AuthContext';
-import { ParkingSpot, Booking } from '../types';
+import { useI18n } from '../context/I18nContext';
+import { AvailabilityBlock, ParkingSpot, Booking } from '../types';
 import { useToast } from '../hooks/use-toast';
+import { AvailabilityCalendar } from '../components/AvailabilityCalendar';
+import { getNextAvailableTime } from '../services/availability';
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Value for a datetime-local input in the browser's timezone.
+const toDateTimeInput = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const BLOCK_TYPES: AvailabilityBlock['block_type'][] = ['maintenance', 'blocked', 'reserved'];
+
+const RECURRENCES: AvailabilityBlock['recurrence'][] = ['none', 'daily', 'weekly'];
+
+interface BlockForm {
+  block_type: AvailabilityBlock['block_type'];
+  start: string;
+  end: string;
+  slots_affected: number;
+  recurrence: AvailabilityBlock['recurrence'];
+  recurrence_until: string;
+  reason: string;
+}
 
 export const ManageAvailability: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
   const { toast } = useToast();
+  const { t, formatDate, formatDateTime, formatNumber } = useI18n();
   
   const [spot, setSpot] = useState<ParkingSpot | null>(null);
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [availableSlots, setAvailableSlots] = useState<number>(0);
+  const [blocks, setBlocks] = useState<AvailabilityBlock[]>([]);
+  const [nextAvailable, setNextAvailable] = useState<Date | null>(null);
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [blockForm, setBlockForm] = useState<BlockForm>({
+    block_type: 'maintenance',
+    start: '',
+    end: '',
+    slots_affected: 1,
+    recurrence: 'none',
+    recurrence_until: '',
+    reason: '',
+  });
+  const [isSavingBlock, setIsSavingBlock] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
 
@@ -34,15 +73,19 @@ export const ManageAvailability: React.FC = () => {
     try {
       const spotData = await database.getParkingSpotById(id);
       const spotBookings = spotData ? await database.getBookingsBySpotId(spotData.id) : [];
+      const spotBlocks = spotData ? await database.getAvailabilityBlocks(spotData.id) : [];
       
-      setSpot(spotData || null);
+      setSpot(spotData);
       setBookings(spotBookings);
-      setAvailableSlots(spotData?.availableSlots || 0);
+      setBlocks(spotBlocks);
+      setAvailableSlots(spotData?.available_slots || 0);
+      setBlockForm(prev => ({ ...prev, slots_affected: spotData?.total_slots || 1 }));
+      setNextAvailable(spotData ? await getNextAvailableTime(spotData.id) : null);
     } catch (error) {
       console.error('Error loading availability data:', error);
       toast({
-        title: "Error",
-        description: "Failed to load availability information",
+        title: t('common.error'),
+        description: t('manageAvailability.loadFailed'),
         variant: "destructive",
       });
     } finally {
@@ -55,19 +98,19 @@ export const ManageAvailability: React.FC = () => {
     
     setIsSaving(true);
     try {
-      await database.updateParkingSpot(spot.id, { availableSlots });
+      await database.updateParkingSpot(spot.id, { available_slots: availableSlots });
       
       toast({
-        title: "Success",
-        description: "Availability updated successfully",
+        title: t('common.success'),
+        description: t('manageAvailability.updated'),
       });
       
-      navigate('/app/admin');
+      navigate('/admin');
     } catch (error) {
       console.error('Error updating availability:', error);
       toast({
-        title: "Error",
-        description: "Failed to update availability",
+        title: t('common.error'),
+        description: t('manageAvailability.updateFailed'),
         variant: "destructive",
       });
     } finally {
@@ -75,12 +118,85 @@ export const ManageAvailability: React.FC = () => {
     }
   };
 
+  const handleSelectDate = (date: Date) => {
+    setSelectedDate(date);
+    const end = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+    setBlockForm(prev => ({
+      ...prev,
+      start: toDateTimeInput(date),
+      end: toDateTimeInput(end),
+    }));
+  };
+
+  const handleAddBlock = async () => {
+    if (!spot || !user) return;
+
+    if (!blockForm.start || !blockForm.end || new Date(blockForm.end) <= new Date(blockForm.start)) {
+      toast({
+        title: t('manageAvailability.invalidBlock'),
+        description: t('manageAvailability.invalidBlockText'),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSavingBlock(true);
+    try {
+      const created = await database.createAvailabilityBlock({
+        spot_id: spot.id,
+        block_type: blockForm.block_type,
+        start_time: new Date(blockForm.start).toISOString(),
+        end_time: new Date(blockForm.end).toISOString(),
+        slots_affected: Math.min(Math.max(blockForm.slots_affected, 1), spot.total_slots),
+        recurrence: blockForm.recurrence,
+        recurrence_until: blockForm.recurrence !== 'none' && blockForm.recurrence_until
+          ? new Date(`${blockForm.recurrence_until}T23:59:59`).toISOString()
+          : undefined,
+        reason: blockForm.reason || undefined,
+        created_by: user.id,
+      });
+
+      setBlocks(prev => [...prev, created].sort((a, b) => a.start_time.localeCompare(b.start_time)));
+      setNextAvailable(await getNextAvailableTime(spot.id));
+      setBlockForm(prev => ({ ...prev, reason: '' }));
+      toast({
+        title: t('manageAvailability.blockAdded'),
+        description: t('manageAvailability.blockAddedText'),
+      });
+    } catch (error) {
+      console.error('Error adding availability block:', error);
+      toast({
+        title: t('common.error'),
+        description: t('manageAvailability.addBlockFailed'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingBlock(false);
+    }
+  };
+
+  const handleDeleteBlock = async (blockId: string) => {
+    if (!spot) return;
+    try {
+      await database.deleteAvailabilityBlock(blockId);
+      setBlocks(prev => prev.filter(block => block.id !== blockId));
+      setNextAvailable(await getNextAvailableTime(spot.id));
+    } catch (error) {
+      console.error('Error deleting availability block:', error);
+      toast({
+        title: t('common.error'),
+        description: t('manageAvailability.removeBlockFailed'),
+        variant: "destructive",
+      });
+    }
+  };
+
   const getActiveBookings = () => {
     const now = new Date();
     return bookings.filter(booking => 
-      booking.status === 'active' && 
-      new Date(booking.startTime) <= now && 
-      new Date(booking.endTime) >= now
+      booking.status === 'confirmed' && 
+      new Date(booking.start_time) <= now && 
+      new Date(booking.end_time) >= now
     );
   };
 
@@ -88,13 +204,13 @@ export const ManageAvailability: React.FC = () => {
     const now = new Date();
     return bookings.filter(booking => 
       booking.status === 'pending' && 
-      new Date(booking.startTime) > now
+      new Date(booking.start_time) > now
     );
   };
 
   if (isLoading) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
       </div>
     );
@@ -102,10 +218,10 @@ export const ManageAvailability: React.FC = () => {
 
   if (!spot) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
         <div className="text-center">
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Spot Not Found</h2>
-          <p className="text-gray-600">The parking spot you're looking for doesn't exist.</p>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">{t('spotDetail.notFound')}</h2>
+          <p className="text-gray-600 dark:text-gray-400">{t('spotDetail.notFoundText')}</p>
         </div>
       </div>
     );
@@ -115,19 +231,19 @@ export const ManageAvailability: React.FC = () => {
   const upcomingBookings = getUpcomingBookings();
 
   return (
-    <div className="min-h-screen bg-gray-50 py-8">
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
       <div className="max-w-4xl mx-auto px-4">
         <div className="mb-6">
           <Button
             variant="outline"
-            onClick={() => navigate('/app/admin')}
+            onClick={() => navigate('/admin')}
             className="mb-4"
           >
             <ArrowLeft className="h-4 w-4 mr-2" />
-            Back to Dashboard
+            {t('spotForm.backToDashboard')}
           </Button>
-          <h1 className="text-3xl font-bold text-gray-900">{spot.name}</h1>
-          <p className="text-gray-600">{spot.address}</p>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">{spot.title}</h1>
+          <p className="text-gray-600 dark:text-gray-400">{spot.address}</p>
         </div>
 
         <div className="grid lg:grid-cols-2 gap-8">
@@ -136,52 +252,62 @@ export const ManageAvailability: React.FC = () => {
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
                 <Car className="h-5 w-5 text-blue-600" />
-                <span>Manage Availability</span>
+                <span>{t('manageAvailability.title')}</span>
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label>Total Slots</Label>
+                  <Label>{t('spotForm.totalSlots')}</Label>
                   <Input
                     type="number"
-                    value={spot.totalSlots}
+                    value={spot.total_slots}
                     disabled
-                    className="bg-gray-50"
+                    className="bg-gray-50 dark:bg-gray-900"
                   />
                 </div>
                 <div>
-                  <Label htmlFor="availableSlots">Available Slots</Label>
+                  <Label htmlFor="availableSlots">{t('manageAvailability.availableSlots')}</Label>
                   <Input
                     id="availableSlots"
                     type="number"
                     value={availableSlots}
                     onChange={(e) => setAvailableSlots(parseInt(e.target.value) || 0)}
                     min={0}
-                    max={spot.totalSlots}
+                    max={spot.total_slots}
                   />
                 </div>
               </div>
 
-              <div className="bg-gray-50 rounded-lg p-4">
-                <h4 className="font-medium text-gray-900 mb-2">Current Status</h4>
+              <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
+                <h4 className="font-medium text-gray-900 dark:text-gray-100 mb-2">{t('manageAvailability.currentStatus')}</h4>
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
-                    <span>Total Slots:</span>
-                    <span className="font-medium">{spot.totalSlots}</span>
+                    <span>{t('manageAvailability.totalSlotsLabel')}</span>
+                    <span className="font-medium">{spot.total_slots}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Available Slots:</span>
+                    <span>{t('manageAvailability.availableSlotsLabel')}</span>
                     <span className="font-medium text-green-600">{availableSlots}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Occupied Slots:</span>
-                    <span className="font-medium text-red-600">{spot.totalSlots - availableSlots}</span>
+                    <span>{t('manageAvailability.occupiedSlotsLabel')}</span>
+                    <span className="font-medium text-red-600">{spot.total_slots - availableSlots}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>{t('manageAvailability.occupancyRate')}</span>
+                    <span className="font-medium">
+                      {formatNumber((spot.total_slots - availableSlots) / spot.total_slots, {
+                        style: 'percent',
+                        minimumFractionDigits: 1,
+                        maximumFractionDigits: 1,
+                      })}
+                    </span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Occupancy Rate:</span>
+                    <span>{t('manageAvailability.nextFreeSlot')}</span>
                     <span className="font-medium">
-                      {((spot.totalSlots - availableSlots) / spot.totalSlots * 100).toFixed(1)}%
+                      {nextAvailable ? formatDateTime(nextAvailable) : t('manageAvailability.noneIn90Days')}
                     </span>
                   </div>
                 </div>
@@ -193,7 +319,7 @@ export const ManageAvailability: React.FC = () => {
                 className="w-full"
               >
                 <Save className="h-4 w-4 mr-2" />
-                {isSaving ? 'Saving...' : 'Save Changes'}
+                {isSaving ? t('common.saving') : t('spotForm.saveChanges')}
               </Button>
             </CardContent>
           </Card>
@@ -205,28 +331,28 @@ export const ManageAvailability: React.FC = () => {
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
                   <Clock className="h-5 w-5 text-green-600" />
-                  <span>Active Bookings ({activeBookings.length})</span>
+                  <span>{t('manageAvailability.activeBookings', { count: activeBookings.length })}</span>
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 {activeBookings.length > 0 ? (
                   <div className="space-y-3">
                     {activeBookings.map((booking) => (
-                      <div key={booking.id} className="flex items-center justify-between p-3 bg-green-50 rounded-lg">
+                      <div key={booking.id} className="flex items-center justify-between p-3 bg-green-50 dark:bg-green-900/30 rounded-lg">
                         <div>
-                          <p className="font-medium text-sm">Booking #{booking.id.slice(0, 8)}</p>
-                          <p className="text-xs text-gray-600">
-                            {new Date(booking.startTime).toLocaleString()} - {new Date(booking.endTime).toLocaleString()}
+                          <p className="font-medium text-sm">{t('manageAvailability.bookingNumber', { id: booking.id.slice(0, 8) })}</p>
+                          <p className="text-xs text-gray-600 dark:text-gray-400">
+                            {formatDateTime(booking.start_time)} - {formatDateTime(booking.end_time)}
                           </p>
                         </div>
-                        <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">
-                          Active
+                        <span className="px-2 py-1 bg-green-100 text-green-800 dark:text-green-200 text-xs rounded-full">
+                          {t('manageAvailability.active')}
                         </span>
                       </div>
                     ))}
                   </div>
                 ) : (
-                  <p className="text-gray-500 text-center py-4">No active bookings</p>
+                  <p className="text-gray-500 text-center py-4">{t('manageAvailability.noActive')}</p>
                 )}
               </CardContent>
             </Card>
@@ -236,38 +362,195 @@ export const ManageAvailability: React.FC = () => {
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
                   <Calendar className="h-5 w-5 text-blue-600" />
-                  <span>Upcoming Bookings ({upcomingBookings.length})</span>
+                  <span>{t('manageAvailability.upcomingBookings', { count: upcomingBookings.length })}</span>
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 {upcomingBookings.length > 0 ? (
                   <div className="space-y-3">
                     {upcomingBookings.slice(0, 5).map((booking) => (
-                      <div key={booking.id} className="flex items-center justify-between p-3 bg-blue-50 rounded-lg">
+                      <div key={booking.id} className="flex items-center justify-between p-3 bg-blue-50 dark:bg-blue-900/30 rounded-lg">
                         <div>
-                          <p className="font-medium text-sm">Booking #{booking.id.slice(0, 8)}</p>
-                          <p className="text-xs text-gray-600">
-                            {new Date(booking.startTime).toLocaleString()}
+                          <p className="font-medium text-sm">{t('manageAvailability.bookingNumber', { id: booking.id.slice(0, 8) })}</p>
+                          <p className="text-xs text-gray-600 dark:text-gray-400">
+                            {formatDateTime(booking.start_time)}
                           </p>
                         </div>
-                        <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">
-                          Pending
+                        <span className="px-2 py-1 bg-blue-100 text-blue-800 dark:text-blue-200 text-xs rounded-full">
+                          {t('bookingStatus.pending')}
                         </span>
                       </div>
                     ))}
                     {upcomingBookings.length > 5 && (
                       <p className="text-sm text-gray-500 text-center">
-                        +{upcomingBookings.length - 5} more bookings
+                        {t('manageAvailability.moreBookings', { count: upcomingBookings.length - 5 })}
                       </p>
                     )}
                   </div>
                 ) : (
-                  <p className="text-gray-500 text-center py-4">No upcoming bookings</p>
+                  <p className="text-gray-500 text-center py-4">{t('manageAvailability.noUpcoming')}</p>
                 )}
               </CardContent>
             </Card>
           </div>
         </div>
+
+        {/* Availability Blocks */}
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Ban className="h-5 w-5 text-red-600" />
+              <span>{t('manageAvailability.blockedDates')}</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid lg:grid-cols-2 gap-8">
+              <AvailabilityCalendar
+                blocks={blocks}
+                totalSlots={spot.total_slots}
+                selectedDate={selectedDate}
+                onSelectDate={handleSelectDate}
+              />
+
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="blockStart">{t('manageAvailability.from')}</Label>
+                    <Input
+                      id="blockStart"
+                      type="datetime-local"
+                      value={blockForm.start}
+                      onChange={(e) => setBlockForm(prev => ({ ...prev, start: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="blockEnd">{t('manageAvailability.until')}</Label>
+                    <Input
+                      id="blockEnd"
+                      type="datetime-local"
+                      value={blockForm.end}
+                      onChange={(e) => setBlockForm(prev => ({ ...prev, end: e.target.value }))}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>{t('manageAvailability.reason')}</Label>
+                    <Select
+                      value={blockForm.block_type}
+                      onValueChange={(value: string) =>
+                        setBlockForm(prev => ({ ...prev, block_type: value as AvailabilityBlock['block_type'] }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {BLOCK_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{t(`manageAvailability.blockTypes.${type}`)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="slotsAffected">{t('manageAvailability.slotsToBlock')}</Label>
+                    <Input
+                      id="slotsAffected"
+                      type="number"
+                      min={1}
+                      max={spot.total_slots}
+                      value={blockForm.slots_affected}
+                      onChange={(e) => setBlockForm(prev => ({ ...prev, slots_affected: parseInt(e.target.value) || 1 }))}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {blockForm.slots_affected >= spot.total_slots ? t('manageAvailability.closesSpot') : t('manageAvailability.reducesCapacity')}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>{t('manageAvailability.repeat')}</Label>
+                    <Select
+                      value={blockForm.recurrence}
+                      onValueChange={(value: string) =>
+                        setBlockForm(prev => ({ ...prev, recurrence: value as AvailabilityBlock['recurrence'] }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RECURRENCES.map(recurrence => (
+                          <SelectItem key={recurrence} value={recurrence}>
+                            {t(`manageAvailability.recurrences.${recurrence}`)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {blockForm.recurrence !== 'none' && (
+                    <div>
+                      <Label htmlFor="recurrenceUntil">{t('manageAvailability.repeatUntil')}</Label>
+                      <Input
+                        id="recurrenceUntil"
+                        type="date"
+                        value={blockForm.recurrence_until}
+                        onChange={(e) => setBlockForm(prev => ({ ...prev, recurrence_until: e.target.value }))}
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <Label htmlFor="blockReason">{t('manageAvailability.note')}</Label>
+                  <Textarea
+                    id="blockReason"
+                    value={blockForm.reason}
+                    onChange={(e) => setBlockForm(prev => ({ ...prev, reason: e.target.value }))}
+                    placeholder={t('manageAvailability.notePlaceholder')}
+                    rows={2}
+                  />
+                </div>
+
+                <Button onClick={handleAddBlock} disabled={isSavingBlock} className="w-full">
+                  {isSavingBlock ? t('common.saving') : t('manageAvailability.addBlock')}
+                </Button>
+              </div>
+            </div>
+
+            <div className="mt-8 space-y-3">
+              {blocks.length > 0 ? (
+                blocks.map((block) => (
+                  <div key={block.id} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-900 rounded-lg">
+                    <div>
+                      <p className="font-medium text-sm">
+                        {t(`manageAvailability.blockTypes.${block.block_type}`)}
+                        {' · '}
+                        {block.slots_affected >= spot.total_slots
+                          ? t('manageAvailability.wholeSpot')
+                          : t('manageAvailability.slotCount', { count: block.slots_affected })}
+                        {block.recurrence !== 'none' && ` · ${t(`manageAvailability.recurrences.${block.recurrence}`)}`}
+                      </p>
+                      <p className="text-xs text-gray-600 dark:text-gray-400">
+                        {formatDateTime(block.start_time)} - {formatDateTime(block.end_time)}
+                        {block.recurrence_until &&
+                          ` (${t('manageAvailability.repeatsUntil', { date: formatDate(block.recurrence_until) })})`}
+                      </p>
+                      {block.reason && <p className="text-xs text-gray-500">{block.reason}</p>}
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteBlock(block.id)}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                ))
+              ) : (
+                <p className="text-gray-500 text-center py-4">{t('manageAvailability.noBlocks')}</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Bell, CheckCheck, Clock } from 'lucide-react';
+import { UserNotification } from '../types';
+import { useNotifications } from '../hooks/useNotifications';
+import { useI18n } from '../context/I18nContext';
+import {
+  NOTIFICATION_TYPES,
+  NotificationFilter,
+  filterNotifications,
+  localizeNotification,
+  notificationIcon,
+  notificationTime,
+} from '../services/notifications';
+
+export const NotificationsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { language, t, formatDateTime } = useI18n();
+  const { notifications, unreadCount, loading, markRead } = useNotifications();
+  const [filter, setFilter] = useState<NotificationFilter>({ type: 'all', unreadOnly: false });
+
+  const handleOpen = (notification: UserNotification) => {
+    if (!notification.is_read) markRead([notification.id]);
+    if (notification.action_url) navigate(notification.action_url);
+  };
+
+  const filteredNotifications = filterNotifications(notifications, filter);
+
+  if (loading && notifications.length === 0) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container py-8">
+      <div className="max-w-4xl mx-auto">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center space-x-2">
+                <Bell className="h-5 w-5" />
+                <span>{t('nav.notifications')}</span>
+                {unreadCount > 0 && (
+                  <span className="text-sm font-normal text-gray-500">({t('notifications.unread', { count: unreadCount })})</span>
+                )}
+              </CardTitle>
+              {unreadCount > 0 && (
+                <button
+                  onClick={() => markRead()}
+                  className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  <CheckCheck className="h-4 w-4" />
+                  <span>{t('nav.markAllRead')}</span>
+                </button>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-4 mt-4">
+              <select
+                value={filter.type}
+                onChange={(e) => setFilter({ ...filter, type: e.target.value as NotificationFilter['type'] })}
+                className="px-4 py-2 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="all">{t('notifications.allTypes')}</option>
+                {NOTIFICATION_TYPES.map(type => (
+                  <option key={type} value={type}>
+                    {t(`notifications.types.${type}`)}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={filter.unreadOnly}
+                  onChange={(e) => setFilter({ ...filter, unreadOnly: e.target.checked })}
+                  className="rounded border-gray-300 dark:border-gray-600"
+                />
+                <span>{t('notifications.unreadOnly')}</span>
+              </label>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {filteredNotifications.length > 0 ? (
+              <div className="divide-y divide-gray-100 border border-gray-200 dark:border-gray-700 rounded-lg">
+                {filteredNotifications.map((notification) => (
+                  <div
+                    key={notification.id}
+                    onClick={() => handleOpen(notification)}
+                    className={`p-4 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors cursor-pointer ${
+                      !notification.is_read ? 'bg-blue-50 dark:bg-blue-900/30' : ''
+                    }`}
+                  >
+                    <div className="flex items-start space-x-3">
+                      <span className="text-lg">{notificationIcon(notification.type)}</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between">
+                          <p className={`text-sm font-medium ${!notification.is_read ? 'text-gray-900 dark:text-gray-100' : 'text-gray-700 dark:text-gray-300'}`}>
+                            {localizeNotification(notification, language).title}
+                          </p>
+                          <span className="text-xs text-gray-500">{t(`notifications.types.${notification.type}`)}</span>
+                        </div>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{localizeNotification(notification, language).message}</p>
+                        <div className="flex items-center space-x-1 mt-2">
+                          <Clock className="h-3 w-3 text-gray-400" />
+                          <span className="text-xs text-gray-500">
+                            {formatDateTime(notificationTime(notification))}
+                          </span>
+                        </div>
+                      </div>
+                      {!notification.is_read && (
+                        <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="p-8 text-center text-gray-500">
+                <Bell className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                <p>{notifications.length > 0 ? t('notifications.noMatches') : t('nav.noNotifications')}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -6,14 +6,29 @@ import { Button } from '../components/ui/button';
 import { Badge } from '../components/ui/badge';
 import { MapPin, Star, Car, Clock, Phone, Wifi, Camera, Zap, Shield, Users } from 'lucide-react';
 import { database } from '../data/database';
-import { ParkingSpot, Review } from '../types';
+import { ParkingSpot, Review, WeeklySchedule } from '../types';
+import { DEFAULT_TIMEZONE, WEEK_ORDER, describeOpenStatus, formatIntervals, isOpenAt } from '../services/schedule';
+import { describeNextAvailable } from '../services/availability';
+import { useFreeWindows, useNextAvailableWindow } from '../hooks/useAvailability';
+import { useI18n } from '../context/I18nContext';
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
 
 export const ParkingSpotDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
+  const { t, language, formatCurrency, formatDate, formatTime, formatWeekday } = useI18n();
   const [spot, setSpot] = useState<ParkingSpot | null>(null);
   const [reviews, setReviews] = useState<Review[]>([]);
+  const [schedule, setSchedule] = useState<WeeklySchedule | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
+  const [availabilityDate, setAvailabilityDate] = useState(() => toDateInput(new Date()));
+  const { nextWindow, loading: nextWindowLoading } = useNextAvailableWindow(id);
+  const spotTimezone = spot ? spot.timezone || DEFAULT_TIMEZONE : undefined;
+  const { windows: freeWindows, loading: freeWindowsLoading } = useFreeWindows(id, availabilityDate, spotTimezone);
 
   useEffect(() => {
     loadSpotDetails();
@@ -26,9 +41,11 @@ export const ParkingSpotDetail: React.FC = () => {
     try {
       const spotData = await database.getParkingSpotById(id);
       const reviewsData = await database.getReviewsBySpotId(id);
+      const scheduleData = await database.getSpotSchedule(id);
       
-      setSpot(spotData || null);
+      setSpot(spotData);
       setReviews(reviewsData);
+      setSchedule(scheduleData);
     } catch (error) {
       console.error('Error loading spot details:', error);
     } finally {
@@ -71,7 +88,7 @@ export const ParkingSpotDetail: React.FC = () => {
 
   if (isLoading) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
       </div>
     );
@@ -79,17 +96,17 @@ export const ParkingSpotDetail: React.FC = () => {
 
   if (!spot) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
         <div className="text-center">
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Spot Not Found</h2>
-          <p className="text-gray-600">The parking spot you're looking for doesn't exist.</p>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">{t('spotDetail.notFound')}</h2>
+          <p className="text-gray-600 dark:text-gray-400">{t('spotDetail.notFoundText')}</p>
         </div>
       </div>
     );
   }
 
   return (
-    <div className="min-h-screen bg-gray-50 py-8">
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
       <div className="max-w-6xl mx-auto px-4">
         <div className="grid lg:grid-cols-3 gap-8">
           {/* Main Content */}
@@ -99,8 +116,8 @@ export const ParkingSpotDetail: React.FC = () => {
               <CardContent className="p-0">
                 <div className="relative">
                   <img
-                    src={spot.images[selectedImageIndex]}
-                    alt={spot.name}
+                    src={spot.images[selectedImageIndex] || '/placeholder.svg'}
+                    alt={spot.title}
                     className="w-full h-96 object-cover rounded-t-lg"
                   />
                   {spot.images.length > 1 && (
@@ -110,7 +127,7 @@ export const ParkingSpotDetail: React.FC = () => {
                           key={index}
                           onClick={() => setSelectedImageIndex(index)}
                           className={`w-3 h-3 rounded-full ${
-                            index === selectedImageIndex ? 'bg-white' : 'bg-white/50'
+                            index === selectedImageIndex ? 'bg-white dark:bg-gray-800' : 'bg-white/50'
                           }`}
                         />
                       ))}
@@ -125,54 +142,78 @@ export const ParkingSpotDetail: React.FC = () => {
               <CardHeader>
                 <div className="flex items-start justify-between">
                   <div>
-                    <CardTitle className="text-2xl">{spot.name}</CardTitle>
+                    <CardTitle className="text-2xl">{spot.title}</CardTitle>
                     <div className="flex items-center space-x-1 text-yellow-500 mt-2">
-                      {renderStars(spot.rating)}
-                      <span className="text-gray-600 ml-2">
-                        {spot.rating} ({spot.reviewCount} reviews)
+                      {renderStars(spot.rating ?? 0)}
+                      <span className="text-gray-600 dark:text-gray-400 ml-2">
+                        {t('spotDetail.ratingSummary', { rating: spot.rating ?? 0, count: spot.review_count ?? reviews.length })}
                       </span>
                     </div>
                   </div>
                   <div className="text-right">
                     <div className="text-3xl font-bold text-blue-600">
-                      ${spot.price}
+                      {formatCurrency(spot.hourly_rate, spot.currency)}
                     </div>
-                    <div className="text-gray-500">per {spot.priceType}</div>
+                    <div className="text-gray-500">{t('spotDetail.perHour')}</div>
                   </div>
                 </div>
               </CardHeader>
               <CardContent className="space-y-6">
-                <div className="flex items-center space-x-2 text-gray-600">
+                <div className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
                   <MapPin className="h-5 w-5" />
                   <span>{spot.address}</span>
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="flex items-center space-x-2">
-                    <Car className="h-5 w-5 text-gray-600" />
-                    <span className="text-gray-700">
-                      {spot.availableSlots}/{spot.totalSlots} spots available
+                    <Car className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+                    <span className="text-gray-700 dark:text-gray-300">
+                      {t('spotDetail.slotsAvailable', { available: spot.available_slots, total: spot.total_slots })}
                     </span>
                   </div>
                   <div className="flex items-center space-x-2">
-                    <Clock className="h-5 w-5 text-gray-600" />
-                    <span className="text-gray-700">{spot.openingHours}</span>
+                    <Clock className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+                    {schedule ? (
+                      <span className={isOpenAt(schedule, new Date()) ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'}>
+                        {describeOpenStatus(schedule, language)}
+                      </span>
+                    ) : (
+                      <span className="text-gray-700 dark:text-gray-300">{spot.opening_hours || '24/7'}</span>
+                    )}
                   </div>
                   {spot.phone && (
                     <div className="flex items-center space-x-2">
-                      <Phone className="h-5 w-5 text-gray-600" />
-                      <span className="text-gray-700">{spot.phone}</span>
+                      <Phone className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+                      <span className="text-gray-700 dark:text-gray-300">{spot.phone}</span>
                     </div>
                   )}
                 </div>
 
                 <div>
-                  <h3 className="font-semibold text-gray-900 mb-3">Description</h3>
-                  <p className="text-gray-700">{spot.description}</p>
+                  <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-3">{t('spotDetail.description')}</h3>
+                  <p className="text-gray-700 dark:text-gray-300">{spot.description}</p>
                 </div>
 
+                {schedule && (
+                  <div>
+                    <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-3">{t('spotDetail.openingHours')}</h3>
+                    <div className="space-y-1 text-sm">
+                      {WEEK_ORDER.map((dayOfWeek) => {
+                        const day = schedule.days.find(d => d.day_of_week === dayOfWeek);
+                        return (
+                          <div key={dayOfWeek} className="flex justify-between max-w-sm">
+                            <span className="text-gray-600 dark:text-gray-400">{formatWeekday(dayOfWeek)}</span>
+                            <span className="text-gray-900 dark:text-gray-100">{day ? formatIntervals(day, language) : t('schedule.closed')}</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">{t('spotDetail.timezone', { timezone: schedule.timezone })}</p>
+                  </div>
+                )}
+
                 <div>
-                  <h3 className="font-semibold text-gray-900 mb-3">Amenities</h3>
+                  <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-3">{t('spotDetail.amenities')}</h3>
                   <div className="flex flex-wrap gap-2">
                     {spot.amenities.map((amenity, index) => (
                       <Badge key={index} variant="secondary" className="flex items-center space-x-1">
@@ -190,32 +231,32 @@ export const ParkingSpotDetail: React.FC = () => {
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
                   <Users className="h-5 w-5" />
-                  <span>Reviews ({reviews.length})</span>
+                  <span>{t('spotDetail.reviews', { count: reviews.length })}</span>
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 {reviews.length > 0 ? (
                   <div className="space-y-4">
                     {reviews.map((review) => (
-                      <div key={review.id} className="border-b border-gray-200 pb-4 last:border-b-0">
+                      <div key={review.id} className="border-b border-gray-200 dark:border-gray-700 pb-4 last:border-b-0">
                         <div className="flex items-start justify-between mb-2">
                           <div>
-                            <h4 className="font-semibold text-gray-900">{review.userName}</h4>
+                            <h4 className="font-semibold text-gray-900 dark:text-gray-100">{review.reviewer_name || t('spotDetail.guest')}</h4>
                             <div className="flex items-center space-x-2">
                               {renderStars(review.rating)}
                               <span className="text-sm text-gray-500">
-                                {new Date(review.createdAt).toLocaleDateString()}
+                                {formatDate(review.created_at)}
                               </span>
                             </div>
                           </div>
                         </div>
-                        <p className="text-gray-700">{review.comment}</p>
+                        <p className="text-gray-700 dark:text-gray-300">{review.comment}</p>
                       </div>
                     ))}
                   </div>
                 ) : (
                   <p className="text-gray-500 text-center py-8">
-                    No reviews yet. Be the first to review this spot!
+                    {t('spotDetail.noReviews')}
                   </p>
                 )}
               </CardContent>
@@ -228,48 +269,86 @@ export const ParkingSpotDetail: React.FC = () => {
               <CardContent className="p-6 space-y-4">
                 <div className="text-center">
                   <div className="text-3xl font-bold text-blue-600 mb-2">
-                    ${spot.price}
+                    {formatCurrency(spot.hourly_rate, spot.currency)}
                   </div>
-                  <div className="text-gray-500">per {spot.priceType}</div>
+                  <div className="text-gray-500">{t('spotDetail.perHour')}</div>
                 </div>
 
                 <div className={`p-4 rounded-lg text-center ${
-                  spot.availableSlots > 10
-                    ? 'bg-green-50 text-green-800'
-                    : spot.availableSlots > 5
-                    ? 'bg-yellow-50 text-yellow-800'
-                    : spot.availableSlots > 0
-                    ? 'bg-orange-50 text-orange-800'
-                    : 'bg-red-50 text-red-800'
+                  spot.available_slots > 10
+                    ? 'bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-200'
+                    : spot.available_slots > 5
+                    ? 'bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200'
+                    : spot.available_slots > 0
+                    ? 'bg-orange-50 dark:bg-orange-900/30 text-orange-800 dark:text-orange-200'
+                    : 'bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200'
                 }`}>
                   <div className="font-semibold">
-                    {spot.availableSlots > 0 
-                      ? `${spot.availableSlots} spots available`
-                      : 'Currently full'
+                    {spot.available_slots > 0 
+                      ? t('spotDetail.spotsAvailable', { count: spot.available_slots })
+                      : t('spotDetail.full')
                     }
                   </div>
                   <div className="text-sm mt-1">
-                    {spot.availableSlots > 10 
-                      ? 'Plenty of space' 
-                      : spot.availableSlots > 0 
-                      ? 'Limited availability' 
-                      : 'Check back later'
+                    {spot.available_slots > 10 
+                      ? t('spotDetail.plenty')
+                      : spot.available_slots > 0
+                      ? t('spotDetail.limited')
+                      : t('spotDetail.checkBack')
                     }
                   </div>
                 </div>
 
-                <Link to={`/app/book/${spot.id}`} className="block">
+                <div className="space-y-3">
+                  <div className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                    <Clock className="h-4 w-4" />
+                    <span>
+                      {nextWindowLoading ? t('availability.checking') : describeNextAvailable(nextWindow, language, spotTimezone)}
+                    </span>
+                  </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-medium text-gray-900 dark:text-gray-100">{t('spotDetail.freeTimes')}</span>
+                      <input
+                        type="date"
+                        value={availabilityDate}
+                        min={toDateInput(new Date())}
+                        onChange={(e) => e.target.value && setAvailabilityDate(e.target.value)}
+                        className="text-sm border border-gray-200 dark:border-gray-700 rounded-md px-2 py-1"
+                      />
+                    </div>
+                    {freeWindowsLoading ? (
+                      <p className="text-sm text-gray-500">{t('common.loading')}</p>
+                    ) : freeWindows.length > 0 ? (
+                      <div className="flex flex-wrap gap-2">
+                        {freeWindows.map((window) => (
+                          <span
+                            key={window.start_time}
+                            className="px-2 py-1 bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-200 text-xs rounded-full"
+                          >
+                            {formatTime(window.start_time, { hour: '2-digit', minute: '2-digit', timeZone: spotTimezone })} - {formatTime(window.end_time, { hour: '2-digit', minute: '2-digit', timeZone: spotTimezone })}
+                          </span>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500">{t('spotDetail.noFreeTimes')}</p>
+                    )}
+                  </div>
+                </div>
+
+                <Link to={`/book/${spot.id}`} className="block">
                   <Button 
                     className="w-full" 
                     size="lg"
-                    disabled={spot.availableSlots === 0}
+                    disabled={spot.available_slots === 0}
                   >
-                    {spot.availableSlots > 0 ? 'Book Now' : 'Not Available'}
+                    {spot.available_slots > 0 ? t('spot.bookNow') : t('spot.notAvailable')}
                   </Button>
                 </Link>
 
                 <div className="text-xs text-gray-500 text-center">
-                  You won't be charged until your booking is confirmed
+                  {t('spotDetail.chargeNotice')}
                 </div>
               </CardContent>
             </Card>
@@ -8,12 +8,15 @@ import { Badge } from '../components/ui/badge';
 import { User, Car, Plus, Edit2, Trash2, Save, X } from 'lucide-react';
 import { database } from '../data/database';
 import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
 import { Vehicle } from '../types';
 import { useToast } from '../hooks/use-toast';
+import { isValidPromptPayId, normalizePromptPayId } from '../services/promptpay';
 
 export const ProfilePage: React.FC = () => {
-  const { user, updateUser } = useAuth();
+  const { user, profile, updateProfile } = useAuth();
   const { toast } = useToast();
+  const { t } = useI18n();
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [isEditing, setIsEditing] = useState(false);
   const [isAddingVehicle, setIsAddingVehicle] = useState(false);
@@ -21,15 +24,16 @@ export const ProfilePage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   
   // Form states
-  const [name, setName] = useState(user?.name || '');
-  const [email, setEmail] = useState(user?.email || '');
-  const [phone, setPhone] = useState(user?.phone || '');
+  const [name, setName] = useState(profile?.full_name || '');
+  const [email, setEmail] = useState(profile?.email || '');
+  const [phone, setPhone] = useState(profile?.phone || '');
+  const [promptPayId, setPromptPayId] = useState(profile?.promptpay_id || '');
   
   // New vehicle form state
   const [newVehicle, setNewVehicle] = useState({
     make: '',
     model: '',
-    licensePlate: '',
+    license_plate: '',
     color: ''
   });
 
@@ -37,6 +41,13 @@ export const ProfilePage: React.FC = () => {
     loadVehicles();
   }, [user]);
 
+  useEffect(() => {
+    setName(profile?.full_name || '');
+    setEmail(profile?.email || '');
+    setPhone(profile?.phone || '');
+    setPromptPayId(profile?.promptpay_id || '');
+  }, [profile]);
+
   const loadVehicles = async () => {
     if (!user) return;
     
@@ -54,74 +65,68 @@ export const ProfilePage: React.FC = () => {
   const handleSaveProfile = async () => {
     if (!user) return;
 
+    if (promptPayId && !isValidPromptPayId(promptPayId)) {
+      toast({
+        title: t('profile.invalidPromptPay'),
+        description: t('profile.invalidPromptPayText'),
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
-      const updatedUser = await database.updateUser(user.id, {
-        name,
+      await updateProfile({
+        full_name: name,
         email,
-        phone: phone || undefined
+        phone: phone || undefined,
+        promptpay_id: promptPayId ? normalizePromptPayId(promptPayId) : undefined
       });
 
-      if (updatedUser) {
-        updateUser({
-          ...user,
-          name: updatedUser.name,
-          email: updatedUser.email,
-          phone: updatedUser.phone
-        });
-        
-        toast({
-          title: "Profile Updated",
-          description: "Your profile has been successfully updated",
-        });
-        
-        setIsEditing(false);
-      }
+      toast({
+        title: t('profile.updated'),
+        description: t('profile.updatedText'),
+      });
+      
+      setIsEditing(false);
     } catch (error) {
       console.error('Error updating profile:', error);
       toast({
-        title: "Error",
-        description: "Failed to update profile",
+        title: t('common.error'),
+        description: t('profile.updateFailed'),
         variant: "destructive",
       });
     }
   };
 
   const handleAddVehicle = async () => {
-    if (!user || !newVehicle.make || !newVehicle.model || !newVehicle.licensePlate) {
+    if (!user || !newVehicle.make || !newVehicle.model || !newVehicle.license_plate) {
       toast({
-        title: "Missing Information",
-        description: "Please fill in all required fields",
+        title: t('profile.missingInfo'),
+        description: t('profile.missingInfoText'),
         variant: "destructive",
       });
       return;
     }
 
     try {
-      const vehicleData: Omit<Vehicle, 'id'> & { user_id: string } = {
+      const vehicle = await database.createVehicle({
         ...newVehicle,
         user_id: user.id
-      };
-
-      // Since we don't have an addVehicle method, we'll simulate it
-      const newVehicleId = `vehicle_${Date.now()}`;
-      const vehicle: Vehicle = {
-        id: newVehicleId,
-        ...newVehicle
-      };
+      });
 
       setVehicles([...vehicles, vehicle]);
-      setNewVehicle({ make: '', model: '', licensePlate: '', color: '' });
+      setNewVehicle({ make: '', model: '', license_plate: '', color: '' });
       setIsAddingVehicle(false);
       
       toast({
-        title: "Vehicle Added",
-        description: "Your vehicle has been successfully added",
+        title: t('profile.vehicleAdded'),
+        description: t('profile.vehicleAddedText'),
       });
     } catch (error) {
       console.error('Error adding vehicle:', error);
       toast({
-        title: "Error",
-        description: "Failed to add vehicle",
+        title: t('common.error'),
+        description: t('profile.addVehicleFailed'),
         variant: "destructive",
       });
     }
@@ -129,17 +134,18 @@ export const ProfilePage: React.FC = () => {
 
   const handleDeleteVehicle = async (vehicleId: string) => {
     try {
+      await database.deleteVehicle(vehicleId);
       setVehicles(vehicles.filter(v => v.id !== vehicleId));
       
       toast({
-        title: "Vehicle Removed",
-        description: "Your vehicle has been successfully removed",
+        title: t('profile.vehicleRemoved'),
+        description: t('profile.vehicleRemovedText'),
       });
     } catch (error) {
       console.error('Error deleting vehicle:', error);
       toast({
-        title: "Error",
-        description: "Failed to delete vehicle",
+        title: t('common.error'),
+        description: t('profile.deleteVehicleFailed'),
         variant: "destructive",
       });
     }
@@ -147,7 +153,7 @@ export const ProfilePage: React.FC = () => {
 
   if (isLoading) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
       </div>
     );
@@ -162,22 +168,22 @@ export const ProfilePage: React.FC = () => {
             <div className="flex items-center justify-between">
               <CardTitle className="flex items-center space-x-2">
                 <User className="h-5 w-5" />
-                <span>Profile Information</span>
+                <span>{t('profile.title')}</span>
               </CardTitle>
               {!isEditing ? (
                 <Button variant="outline" onClick={() => setIsEditing(true)}>
                   <Edit2 className="h-4 w-4 mr-2" />
-                  Edit
+                  {t('common.edit')}
                 </Button>
               ) : (
                 <div className="flex space-x-2">
                   <Button variant="outline" onClick={() => setIsEditing(false)}>
                     <X className="h-4 w-4 mr-2" />
-                    Cancel
+                    {t('common.cancel')}
                   </Button>
                   <Button onClick={handleSaveProfile}>
                     <Save className="h-4 w-4 mr-2" />
-                    Save
+                    {t('common.save')}
                   </Button>
                 </div>
               )}
@@ -186,7 +192,7 @@ export const ProfilePage: React.FC = () => {
           <CardContent className="space-y-4">
             <div className="grid md:grid-cols-2 gap-4">
               <div>
-                <Label htmlFor="name">Full Name</Label>
+                <Label htmlFor="name">{t('profile.fullName')}</Label>
                 <Input
                   id="name"
                   value={name}
@@ -195,7 +201,7 @@ export const ProfilePage: React.FC = () => {
                 />
               </div>
               <div>
-                <Label htmlFor="email">Email</Label>
+                <Label htmlFor="email">{t('profile.email')}</Label>
                 <Input
                   id="email"
                   type="email"
@@ -205,20 +211,35 @@ export const ProfilePage: React.FC = () => {
                 />
               </div>
               <div>
-                <Label htmlFor="phone">Phone Number</Label>
+                <Label htmlFor="phone">{t('profile.phone')}</Label>
                 <Input
                   id="phone"
                   value={phone}
                   onChange={(e) => setPhone(e.target.value)}
                   disabled={!isEditing}
-                  placeholder="Optional"
+                  placeholder={t('pricingEditor.optional')}
                 />
               </div>
+              {profile?.user_type !== 'guest' && (
+                <div>
+                  <Label htmlFor="promptpay">{t('profile.promptPayId')}</Label>
+                  <Input
+                    id="promptpay"
+                    value={promptPayId}
+                    onChange={(e) => setPromptPayId(e.target.value)}
+                    disabled={!isEditing}
+                    placeholder={t('profile.promptPayPlaceholder')}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    {t('profile.promptPayHelp')}
+                  </p>
+                </div>
+              )}
               <div>
-                <Label>Account Type</Label>
+                <Label>{t('profile.accountType')}</Label>
                 <div className="mt-2">
-                  <Badge variant={user?.userType === 'owner' ? 'default' : 'secondary'}>
-                    {user?.userType === 'owner' ? 'Parking Owner' : 'Customer'}
+                  <Badge variant={profile?.user_type === 'guest' ? 'secondary' : 'default'}>
+                    {profile?.user_type === 'guest' ? t('profile.customer') : t('profile.owner')}
                   </Badge>
                 </div>
               </div>
@@ -232,63 +253,63 @@ export const ProfilePage: React.FC = () => {
             <div className="flex items-center justify-between">
               <CardTitle className="flex items-center space-x-2">
                 <Car className="h-5 w-5" />
-                <span>My Vehicles ({vehicles?.length || 0})</span>
+                <span>{t('profile.myVehicles', { count: vehicles?.length || 0 })}</span>
               </CardTitle>
               <Button onClick={() => setIsAddingVehicle(true)}>
                 <Plus className="h-4 w-4 mr-2" />
-                Add Vehicle
+                {t('profile.addVehicle')}
               </Button>
             </div>
           </CardHeader>
           <CardContent>
             {/* Add Vehicle Form */}
             {isAddingVehicle && (
-              <div className="border rounded-lg p-4 mb-4 bg-gray-50">
-                <h4 className="font-medium mb-4">Add New Vehicle</h4>
+              <div className="border rounded-lg p-4 mb-4 bg-gray-50 dark:bg-gray-900">
+                <h4 className="font-medium mb-4">{t('profile.addNewVehicle')}</h4>
                 <div className="grid md:grid-cols-2 gap-4">
                   <div>
-                    <Label htmlFor="make">Make</Label>
+                    <Label htmlFor="make">{t('profile.make')}</Label>
                     <Input
                       id="make"
                       value={newVehicle.make}
                       onChange={(e) => setNewVehicle({...newVehicle, make: e.target.value})}
-                      placeholder="e.g., Toyota"
+                      placeholder={t('profile.makePlaceholder')}
                     />
                   </div>
                   <div>
-                    <Label htmlFor="model">Model</Label>
+                    <Label htmlFor="model">{t('profile.model')}</Label>
                     <Input
                       id="model"
                       value={newVehicle.model}
                       onChange={(e) => setNewVehicle({...newVehicle, model: e.target.value})}
-                      placeholder="e.g., Camry"
+                      placeholder={t('profile.modelPlaceholder')}
                     />
                   </div>
                   <div>
-                    <Label htmlFor="licensePlate">License Plate</Label>
+                    <Label htmlFor="licensePlate">{t('profile.licensePlate')}</Label>
                     <Input
                       id="licensePlate"
-                      value={newVehicle.licensePlate}
-                      onChange={(e) => setNewVehicle({...newVehicle, licensePlate: e.target.value})}
-                      placeholder="e.g., ABC123"
+                      value={newVehicle.license_plate}
+                      onChange={(e) => setNewVehicle({...newVehicle, license_plate: e.target.value})}
+                      placeholder={t('profile.licensePlatePlaceholder')}
                     />
                   </div>
                   <div>
-                    <Label htmlFor="color">Color</Label>
+                    <Label htmlFor="color">{t('profile.color')}</Label>
                     <Input
                       id="color"
                       value={newVehicle.color}
                       onChange={(e) => setNewVehicle({...newVehicle, color: e.target.value})}
-                      placeholder="e.g., Blue"
+                      placeholder={t('profile.colorPlaceholder')}
                     />
                   </div>
                 </div>
                 <div className="flex justify-end space-x-2 mt-4">
                   <Button variant="outline" onClick={() => setIsAddingVehicle(false)}>
-                    Cancel
+                    {t('common.cancel')}
                   </Button>
                   <Button onClick={handleAddVehicle}>
-                    Add Vehicle
+                    {t('profile.addVehicle')}
                   </Button>
                 </div>
               </div>
@@ -305,7 +326,7 @@ export const ProfilePage: React.FC = () => {
                       </div>
                       <div>
                         <h4 className="font-medium">{vehicle.make} {vehicle.model}</h4>
-                        <p className="text-sm text-gray-600">{vehicle.licensePlate}</p>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">{vehicle.license_plate}</p>
                         <p className="text-sm text-gray-500">{vehicle.color}</p>
                       </div>
                     </div>
@@ -331,11 +352,11 @@ export const ProfilePage: React.FC = () => {
             ) : (
               <div className="text-center py-8">
                 <Car className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                  No vehicles added
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">
+                  {t('profile.noVehicles')}
                 </h3>
-                <p className="text-gray-600 mb-4">
-                  Add your vehicle information to make booking easier
+                <p className="text-gray-600 dark:text-gray-400 mb-4">
+                  {t('profile.noVehiclesText')}
                 </p>
               </div>
             )}
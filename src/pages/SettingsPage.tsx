@@ -13,27 +13,79 @@ import {
   Smartphone, 
   Mail, 
   MessageSquare,
+  Clock,
   Save,
   Eye,
   EyeOff
 } from 'lucide-react';
-import { useAuth } from '../context/AuthContext';
 import { toast } from '../hooks/use-toast';
+import { useSettings } from '../context/SettingsContext';
+import { useI18n } from '../context/I18nContext';
+import { translateError } from '../i18n/errors';
+import { usePushSubscription } from '../hooks/usePushSubscription';
+import { DeliveryChannel, NotificationTopic, UserPreferences } from '../types';
+import { DEFAULT_USER_SETTINGS } from '../services/settings';
+import { TOPIC_CHANNELS, withChannelPreference } from '../services/notifications';
+import { Language, LANGUAGES, resolveLanguage } from '../i18n/catalog';
+
+const CHANNELS: DeliveryChannel[] = ['email', 'push'];
 
 export const SettingsPage: React.FC = () => {
-  const {  } = useAuth();
-  const [notificationsEnabled, setNotificationsEnabled] = useState(true);
-  const [privacyMode, setPrivacyMode] = useState(false);
-  const [language, setLanguage] = useState('en');
-  const [theme, setTheme] = useState('light');
-  const [showEmail, setShowEmail] = useState(true);
+  const { settings, updateSettings } = useSettings();
+  const { language, t } = useI18n();
+  const push = usePushSubscription();
+  const [pushChanging, setPushChanging] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  // Changes not saved yet, shown over the saved settings.
+  const [draft, setDraft] = useState<Partial<UserPreferences>>({});
+
+  const current: UserPreferences = { ...DEFAULT_USER_SETTINGS, ...settings, ...draft };
+  const hasChanges = Object.keys(draft).length > 0;
+
+  const change = (updates: Partial<UserPreferences>) => setDraft(prev => ({ ...prev, ...updates }));
+
+  const changeChannel = (topic: NotificationTopic, channel: DeliveryChannel, enabled: boolean) =>
+    change({ channel_preferences: withChannelPreference(current.channel_preferences, topic, channel, enabled) });
 
-  const handleSaveSettings = () => {
-    // In a real application, you would save these settings to a database or local storage
-    toast({
-      title: "Settings Saved",
-      description: "Your settings have been successfully saved.",
-    });
+  // Push needs this browser subscribed as well as the channel switched on.
+  const handlePushChange = async (enabled: boolean) => {
+    setPushChanging(true);
+    try {
+      if (enabled) {
+        await push.subscribe();
+      } else {
+        await push.unsubscribe();
+      }
+      await updateSettings({ push_notifications: enabled });
+    } catch (error) {
+      toast({
+        title: enabled ? t('settings.pushEnableFailed') : t('settings.pushDisableFailed'),
+        description: translateError(language, error, 'settings.tryAgain'),
+        variant: "destructive",
+      });
+    } finally {
+      setPushChanging(false);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    setIsSaving(true);
+    try {
+      await updateSettings(draft);
+      setDraft({});
+      toast({
+        title: t('settings.saved'),
+        description: t('settings.savedText'),
+      });
+    } catch (error) {
+      toast({
+        title: t('settings.notSaved'),
+        description: translateError(language, error, 'settings.tryAgain'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   return (
@@ -42,7 +94,7 @@ export const SettingsPage: React.FC = () => {
         {/* Settings Header */}
         <Card>
           <CardHeader>
-            <CardTitle className="text-2xl">Settings</CardTitle>
+            <CardTitle className="text-2xl">{t('nav.settings')}</CardTitle>
           </CardHeader>
         </Card>
 
@@ -51,21 +103,107 @@ export const SettingsPage: React.FC = () => {
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
               <Bell className="h-5 w-5" />
-              <span>Notifications</span>
+              <span>{t('nav.notifications')}</span>
             </CardTitle>
           </CardHeader>
           <CardContent className="grid gap-4">
             <div className="flex items-center justify-between">
-              <Label htmlFor="notifications">Enable Notifications</Label>
+              <Label htmlFor="push-notifications" className="flex items-center space-x-2">
+                <Smartphone className="h-4 w-4" />
+                <span>{t('settings.push')}</span>
+              </Label>
               <Switch
-                id="notifications"
-                checked={notificationsEnabled}
-                onCheckedChange={(checked) => setNotificationsEnabled(checked)}
+                id="push-notifications"
+                checked={!!settings?.push_notifications && push.subscribed}
+                disabled={!settings || !push.supported || pushChanging}
+                onCheckedChange={handlePushChange}
               />
             </div>
             <p className="text-sm text-muted-foreground">
-              Receive updates and important alerts.
+              {push.supported
+                ? t('settings.pushText')
+                : t('settings.pushUnsupported')}
             </p>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="email-notifications" className="flex items-center space-x-2">
+                <Mail className="h-4 w-4" />
+                <span>{t('settings.email')}</span>
+              </Label>
+              <Switch
+                id="email-notifications"
+                checked={current.email_notifications}
+                disabled={!settings}
+                onCheckedChange={(checked: boolean) => change({ email_notifications: checked })}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {t('settings.emailText')}
+            </p>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="booking-reminders" className="flex items-center space-x-2">
+                <Clock className="h-4 w-4" />
+                <span>{t('settings.bookingReminders')}</span>
+              </Label>
+              <Switch
+                id="booking-reminders"
+                checked={current.booking_reminders}
+                disabled={!settings}
+                onCheckedChange={(checked: boolean) => change({ booking_reminders: checked })}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {t('settings.bookingRemindersText')}
+            </p>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="extension-reminders" className="flex items-center space-x-2">
+                <MessageSquare className="h-4 w-4" />
+                <span>{t('settings.extensionReminders')}</span>
+              </Label>
+              <Switch
+                id="extension-reminders"
+                checked={current.extension_reminders}
+                disabled={!settings}
+                onCheckedChange={(checked: boolean) => change({ extension_reminders: checked })}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {t('settings.extensionRemindersText')}
+            </p>
+            <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-900 text-gray-600 dark:text-gray-400">
+                  <tr>
+                    <th className="text-left font-medium px-4 py-2">{t('settings.sendMe')}</th>
+                    <th className="font-medium px-4 py-2 w-20">{t('settings.channels.email')}</th>
+                    <th className="font-medium px-4 py-2 w-20">{t('settings.channels.push')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {(Object.keys(TOPIC_CHANNELS) as NotificationTopic[]).map((topic) => (
+                    <tr key={topic}>
+                      <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{t(`settings.topics.${topic}`)}</td>
+                      {CHANNELS.map((channel) => (
+                        <td key={channel} className="px-4 py-2 text-center">
+                          {TOPIC_CHANNELS[topic].includes(channel) && (
+                            <input
+                              type="checkbox"
+                              aria-label={t('settings.topicByChannel', {
+                                topic: t(`settings.topics.${topic}`),
+                                channel: t(`settings.channels.${channel}`),
+                              })}
+                              checked={current.channel_preferences[topic]?.[channel] !== false}
+                              disabled={!settings || (channel === 'email' ? !current.email_notifications : !current.push_notifications)}
+                              onChange={(e) => changeChannel(topic, channel, e.target.checked)}
+                              className="rounded border-gray-300 dark:border-gray-600"
+                            />
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
           </CardContent>
         </Card>
 
@@ -74,30 +212,36 @@ export const SettingsPage: React.FC = () => {
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
               <Shield className="h-5 w-5" />
-              <span>Privacy</span>
+              <span>{t('settings.privacy')}</span>
             </CardTitle>
           </CardHeader>
           <CardContent className="grid gap-4">
             <div className="flex items-center justify-between">
-              <Label htmlFor="privacy-mode">Privacy Mode</Label>
+              <Label htmlFor="privacy-mode">{t('settings.privacyMode')}</Label>
               <Switch
                 id="privacy-mode"
-                checked={privacyMode}
-                onCheckedChange={(checked) => setPrivacyMode(checked)}
+                checked={current.privacy_mode}
+                disabled={!settings}
+                onCheckedChange={(checked: boolean) => change({ privacy_mode: checked })}
               />
             </div>
             <p className="text-sm text-muted-foreground">
-              Hide your profile from public view.
+              {t('settings.privacyModeText')}
             </p>
             <div className="flex items-center justify-between">
-              <Label htmlFor="show-email">Show Email</Label>
-              <Button variant="outline" size="sm" onClick={() => setShowEmail(!showEmail)}>
-                {showEmail ? <Eye className="h-4 w-4 mr-2" /> : <EyeOff className="h-4 w-4 mr-2" />}
-                {showEmail ? "Hide" : "Show"}
+              <Label htmlFor="show-email">{t('settings.showEmail')}</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!settings}
+                onClick={() => change({ show_email: !current.show_email })}
+              >
+                {current.show_email ? <Eye className="h-4 w-4 mr-2" /> : <EyeOff className="h-4 w-4 mr-2" />}
+                {current.show_email ? t('settings.hide') : t('settings.show')}
               </Button>
             </div>
             <p className="text-sm text-muted-foreground">
-              Control whether your email is visible to others.
+              {t('settings.showEmailText')}
             </p>
           </CardContent>
         </Card>
@@ -107,25 +251,28 @@ export const SettingsPage: React.FC = () => {
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
               <Palette className="h-5 w-5" />
-              <span>Appearance</span>
+              <span>{t('settings.appearance')}</span>
             </CardTitle>
           </CardHeader>
           <CardContent className="grid gap-4">
             <div className="grid gap-2">
-              <Label htmlFor="theme">Theme</Label>
-              <Select value={theme} onValueChange={setTheme}>
+              <Label htmlFor="theme">{t('settings.theme')}</Label>
+              <Select
+                value={current.theme}
+                onValueChange={(value: UserPreferences['theme']) => change({ theme: value })}
+              >
                 <SelectTrigger className="w-full">
-                  <SelectValue placeholder="Select theme" />
+                  <SelectValue placeholder={t('settings.selectTheme')} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="light">Light</SelectItem>
-                  <SelectItem value="dark">Dark</SelectItem>
-                  <SelectItem value="system">System</SelectItem>
+                  <SelectItem value="light">{t('settings.themes.light')}</SelectItem>
+                  <SelectItem value="dark">{t('settings.themes.dark')}</SelectItem>
+                  <SelectItem value="system">{t('settings.themes.system')}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
             <p className="text-sm text-muted-foreground">
-              Customize the look and feel of the app.
+              {t('settings.appearanceText')}
             </p>
           </CardContent>
         </Card>
@@ -135,33 +282,36 @@ export const SettingsPage: React.FC = () => {
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
               <Globe className="h-5 w-5" />
-              <span>Language</span>
+              <span>{t('common.language')}</span>
             </CardTitle>
           </CardHeader>
           <CardContent className="grid gap-4">
             <div className="grid gap-2">
-              <Label htmlFor="language">Language</Label>
-              <Select value={language} onValueChange={setLanguage}>
+              <Label htmlFor="language">{t('common.language')}</Label>
+              <Select
+                value={resolveLanguage(current.language)}
+                onValueChange={(value: Language) => change({ language: value })}
+              >
                 <SelectTrigger className="w-full">
-                  <SelectValue placeholder="Select language" />
+                  <SelectValue placeholder={t('settings.selectLanguage')} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="en">English</SelectItem>
-                  <SelectItem value="es">Spanish</SelectItem>
-                  <SelectItem value="fr">French</SelectItem>
+                  {(Object.keys(LANGUAGES) as Language[]).map(code => (
+                    <SelectItem key={code} value={code}>{LANGUAGES[code].label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
             <p className="text-sm text-muted-foreground">
-              Choose your preferred language.
+              {t('settings.languageText')}
             </p>
           </CardContent>
         </Card>
 
         {/* Save Button */}
-        <Button onClick={handleSaveSettings} className="w-full">
+        <Button onClick={handleSaveSettings} disabled={!hasChanges || isSaving} className="w-full">
           <Save className="h-4 w-4 mr-2" />
-          Save Settings
+          {isSaving ? t('common.saving') : t('settings.save')}
         </Button>
       </div>
     </div>
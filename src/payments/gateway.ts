@@ -0,0 +1,61 @@
+import { Booking } from '../types';
+import { PaymentProvider } from './provider';
+import { MockPaymentProvider } from './mockProvider';
+import { database } from '../data/database';
+import { PaymentWebhookError } from '../data/errors';
+
+// Webhook endpoint logic: verify the delivery, then let the repository apply
+// the event to its booking. Hosted gateways call this from a server function
+// holding the service role; the mock gateway calls it in-process.
+export const handlePaymentWebhook = async (payload: string, signature: string): Promise<Booking> => {
+  if (!paymentProvider) throw new PaymentWebhookError('No card payment gateway is configured');
+  const event = await paymentProvider.constructWebhookEvent(payload, signature);
+  return database.applyPaymentEvent(event);
+};
+
+// Cancels the booking, then returns the refund due to the card it was paid
+// with; the refund webhook updates payment_status. Slip payments are paid
+// back by the host outside the app, and a failed gateway refund leaves the
+// refund outstanding rather than undoing the cancellation.
+export const cancelBookingWithRefund = async (
+  bookingId: string,
+  actorId: string,
+  reason?: string
+): Promise<Booking> => {
+  const booking = await database.cancelBooking(bookingId, actorId, reason);
+  if (
+    paymentProvider &&
+    booking.refund_amount &&
+    booking.payment_intent_id &&
+    booking.payment_provider === paymentProvider.name
+  ) {
+    try {
+      await paymentProvider.refund(booking.payment_intent_id, booking.refund_amount);
+      return (await database.getBookingById(booking.id)) ?? booking;
+    } catch (error) {
+      console.error(`Refund failed for booking ${booking.id}:`, error);
+    }
+  }
+  return booking;
+};
+
+// Pick the card gateway once at startup, like the data source. Only the mock
+// gateway ships today; VITE_PAYMENT_PROVIDER=mock is also the default. The
+// mock signs and delivers its webhooks in the browser, which only the
+// in-memory data source can accept: on Supabase apply_payment_event is kept
+// for a server-side webhook holding the service role. Null when no gateway
+// can confirm payments, in which case card checkout is not offered.
+const createPaymentProvider = (): PaymentProvider | null => {
+  const name = import.meta.env.VITE_PAYMENT_PROVIDER ?? 'mock';
+  if (name === 'mock') {
+    if (import.meta.env.VITE_DATA_SOURCE !== 'memory') return null;
+    return new MockPaymentProvider({
+      deliverWebhook: async (payload, signature) => {
+        await handlePaymentWebhook(payload, signature);
+      },
+    });
+  }
+  throw new Error(`Unknown payment provider: ${name}`);
+};
+
+export const paymentProvider: PaymentProvider | null = createPaymentProvider();
@@ -0,0 +1,192 @@
+import {
+  CardDetails,
+  CreateIntentRequest,
+  PaymentEvent,
+  PaymentEventType,
+  PaymentIntent,
+  PaymentProvider,
+  PaymentRefund,
+} from './provider';
+import { PaymentWebhookError } from '../data/errors';
+import { roundMoney } from '../services/pricing';
+import { hmacSha256Hex, safeEqual } from '../services/signing';
+
+// Card numbers with a scripted outcome. Any other number that passes the Luhn
+// check is charged successfully.
+export const MOCK_TEST_CARDS = {
+  success: '4242424242424242',
+  declined: '4000000000000002',
+  insufficientFunds: '4000000000009995',
+} as const;
+
+const DECLINES: Record<string, string> = {
+  [MOCK_TEST_CARDS.declined]: 'Your card was declined',
+  [MOCK_TEST_CARDS.insufficientFunds]: 'Your card has insufficient funds',
+};
+
+// Deliveries older than this are rejected as replays.
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export type WebhookDelivery = (payload: string, signature: string) => Promise<void>;
+
+interface MockProviderOptions {
+  // Called with each signed event, like the gateway calling our webhook URL.
+  // Awaited, so the booking is updated by the time confirmIntent resolves.
+  deliverWebhook?: WebhookDelivery;
+  webhookSecret?: string;
+}
+
+const now = () => new Date().toISOString();
+
+const randomId = (prefix: string) =>
+  `${prefix}_${Math.random().toString(36).slice(2, 12)}${Date.now().toString(36)}`;
+
+const passesLuhn = (digits: string) => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// Why the card cannot be charged, or null when it can.
+const cardProblem = (card: CardDetails, at: Date) => {
+  const number = card.number.replace(/[\s-]/g, '');
+  if (!/^\d{12,19}$/.test(number) || !passesLuhn(number)) return 'Your card number is incorrect';
+  if (!(card.exp_month >= 1 && card.exp_month <= 12)) return "Your card's expiration month is invalid";
+  const expiresAt = new Date(card.exp_year, card.exp_month, 1);
+  if (expiresAt <= at) return 'Your card has expired';
+  if (!/^\d{3,4}$/.test(card.cvc)) return "Your card's security code is incorrect";
+  return DECLINES[number] ?? null;
+};
+
+// In-process gateway for local development and tests. Intents live in memory
+// and events are signed with HMAC-SHA256 in the `t=<unix>,v1=<hex>` header
+// format used by hosted gateways, so the webhook path is exercised for real.
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock';
+
+  private intents = new Map<string, PaymentIntent>();
+  private deliverWebhook?: WebhookDelivery;
+  private webhookSecret: string;
+
+  constructor(options: MockProviderOptions = {}) {
+    this.deliverWebhook = options.deliverWebhook;
+    this.webhookSecret = options.webhookSecret ?? randomId('whsec');
+  }
+
+  async createIntent(request: CreateIntentRequest): Promise<PaymentIntent> {
+    if (!(request.amount > 0)) throw new Error('Payment amount must be positive');
+
+    const intent: PaymentIntent = {
+      id: randomId('pi'),
+      booking_id: request.booking_id,
+      charge_id: request.charge_id,
+      amount: roundMoney(request.amount),
+      currency: request.currency,
+      status: 'requires_payment_method',
+      client_secret: randomId('secret'),
+      amount_refunded: 0,
+      created_at: now(),
+    };
+    this.intents.set(intent.id, intent);
+    return { ...intent };
+  }
+
+  async confirmIntent(intentId: string, clientSecret: string, card: CardDetails): Promise<PaymentIntent> {
+    const intent = this.findIntent(intentId);
+    if (intent.client_secret !== clientSecret) throw new Error('Payment intent not found');
+    if (intent.status !== 'requires_payment_method') {
+      throw new Error(`This payment has already been ${intent.status}`);
+    }
+
+    const problem = cardProblem(card, new Date());
+    intent.status = problem ? 'requires_payment_method' : 'succeeded';
+    intent.last_error = problem ?? undefined;
+
+    await this.emit(problem ? 'payment_intent.payment_failed' : 'payment_intent.succeeded', intent);
+    return { ...intent };
+  }
+
+  async refund(intentId: string, amount?: number): Promise<PaymentRefund> {
+    const intent = this.findIntent(intentId);
+    if (intent.status !== 'succeeded') throw new Error('Only successful payments can be refunded');
+
+    const remaining = roundMoney(intent.amount - intent.amount_refunded);
+    const refundAmount = roundMoney(amount ?? remaining);
+    if (!(refundAmount > 0) || refundAmount > remaining) {
+      throw new Error(`Refund must be between 0 and ${remaining.toFixed(2)}`);
+    }
+
+    intent.amount_refunded = roundMoney(intent.amount_refunded + refundAmount);
+    await this.emit('charge.refunded', intent);
+    return { id: randomId('re'), payment_intent_id: intent.id, amount: refundAmount, created_at: now() };
+  }
+
+  async constructWebhookEvent(payload: string, signature: string): Promise<PaymentEvent> {
+    const parts = Object.fromEntries(
+      signature.split(',').map(part => part.split('=', 2) as [string, string])
+    );
+    const timestamp = Number(parts.t);
+    if (!parts.v1 || !Number.isFinite(timestamp)) {
+      throw new PaymentWebhookError('Malformed webhook signature');
+    }
+    if (Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+      throw new PaymentWebhookError('Webhook timestamp is outside the tolerance window');
+    }
+
+    const expected = await hmacSha256Hex(this.webhookSecret, `${parts.t}.${payload}`);
+    if (!safeEqual(expected, parts.v1)) {
+      throw new PaymentWebhookError('Webhook signature does not match');
+    }
+
+    try {
+      return JSON.parse(payload) as PaymentEvent;
+    } catch {
+      throw new PaymentWebhookError('Webhook payload is not valid JSON');
+    }
+  }
+
+  private findIntent(id: string): PaymentIntent {
+    const intent = this.intents.get(id);
+    if (!intent) throw new Error('Payment intent not found');
+    return intent;
+  }
+
+  private async emit(type: PaymentEventType, intent: PaymentIntent) {
+    if (!this.deliverWebhook) return;
+
+    const event: PaymentEvent = {
+      id: randomId('evt'),
+      type,
+      provider: this.name,
+      intent: {
+        id: intent.id,
+        booking_id: intent.booking_id,
+        charge_id: intent.charge_id,
+        amount: intent.amount,
+        currency: intent.currency,
+        status: intent.status,
+        amount_refunded: intent.amount_refunded,
+        last_error: intent.last_error,
+        created_at: intent.created_at,
+      },
+      created_at: now(),
+    };
+    const payload = JSON.stringify(event);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = `t=${timestamp},v1=${await hmacSha256Hex(this.webhookSecret, `${timestamp}.${payload}`)}`;
+
+    // A failing endpoint does not undo the charge; real gateways retry later.
+    try {
+      await this.deliverWebhook(payload, signature);
+    } catch (error) {
+      console.error(`Webhook delivery failed for ${event.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+// Card payment contract shared by every gateway. Amounts are in the major
+// currency unit (dollars, not cents), like the rest of the app.
+
+export type PaymentIntentStatus =
+  | 'requires_payment_method'
+  | 'processing'
+  | 'succeeded'
+  | 'canceled';
+
+export interface PaymentIntent {
+  id: string;
+  booking_id: string;
+  charge_id?: string; // pays this extra charge instead of the booking total
+  amount: number;
+  currency: string;
+  status: PaymentIntentStatus;
+  // Handed to the browser to confirm the intent; never stored with the booking.
+  client_secret: string;
+  amount_refunded: number;
+  last_error?: string; // why the latest confirmation attempt failed
+  created_at: string;
+}
+
+export interface CreateIntentRequest {
+  booking_id: string;
+  charge_id?: string;
+  amount: number;
+  currency: string;
+}
+
+// What the guest types into the checkout form. Gateways that tokenise cards in
+// their own hosted fields can ignore this and read their element instead.
+export interface CardDetails {
+  number: string;
+  exp_month: number;
+  exp_year: number;
+  cvc: string;
+}
+
+export interface PaymentRefund {
+  id: string;
+  payment_intent_id: string;
+  amount: number;
+  created_at: string;
+}
+
+export type PaymentEventType =
+  | 'payment_intent.succeeded'
+  | 'payment_intent.payment_failed'
+  | 'charge.refunded';
+
+// A verified webhook notification. Only events are allowed to change a
+// booking's payment state; the browser's view of the intent is advisory.
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  provider: string;
+  intent: Omit<PaymentIntent, 'client_secret'>;
+  created_at: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createIntent(request: CreateIntentRequest): Promise<PaymentIntent>;
+  // Charges the card. A decline leaves the intent in requires_payment_method
+  // with last_error set, so the guest can retry with another card.
+  confirmIntent(intentId: string, clientSecret: string, card: CardDetails): Promise<PaymentIntent>;
+  // Refunds the whole remaining amount unless an amount is given.
+  refund(intentId: string, amount?: number): Promise<PaymentRefund>;
+  // Checks the webhook signature and returns the event it carries. Throws
+  // PaymentWebhookError for a bad signature or malformed payload.
+  constructWebhookEvent(payload: string, signature: string): Promise<PaymentEvent>;
+}
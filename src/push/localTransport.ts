@@ -0,0 +1,22 @@
+import { DevicePushSubscription } from '../types';
+import { PushPayload, PushTransport } from './transport';
+
+// Shows the notification through this browser's service worker instead of a
+// push service, as if it had arrived by push. Stands in for the send-push
+// Edge Function where there is no server, like the memory data source, so
+// every subscription is taken to be this device.
+export class LocalPushTransport implements PushTransport {
+  readonly name = 'local';
+
+  async send(_subscription: DevicePushSubscription, payload: PushPayload): Promise<void> {
+    if (Notification.permission !== 'granted') {
+      throw new Error('Notifications are not allowed in this browser');
+    }
+    const registration = await navigator.serviceWorker.ready;
+    await registration.showNotification(payload.title, {
+      body: payload.body,
+      tag: payload.tag,
+      data: { url: payload.url },
+    });
+  }
+}
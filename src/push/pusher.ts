@@ -0,0 +1,89 @@
+import { DataRepository } from '../data/repository';
+import { isPushSubscriptionGoneError } from '../data/errors';
+import { NotificationDelivery, UserNotification } from '../types';
+import { PushPayload, PushTransport } from './transport';
+import { LocalPushTransport } from './localTransport';
+import { localizeNotification } from '../services/notifications';
+import { Language } from '../i18n/catalog';
+
+// Runs alongside the reminder job so reminders reach devices promptly.
+export const PUSH_JOB_INTERVAL_MS = 60_000;
+
+type PusherRepository = Pick<DataRepository, 'getPushOutbox' | 'recordNotificationDelivery' | 'deletePushSubscription'>;
+
+// Also used by the send-push Edge Function.
+export const pushPayload = (notification: UserNotification, language: Language): PushPayload => {
+  const { title, message } = localizeNotification(notification, language);
+  return {
+    title,
+    body: message,
+    url: notification.action_url ?? '/notifications',
+    tag: notification.id,
+  };
+};
+
+// Pushes every notification in the outbox to its devices and logs each
+// attempt against its notification. Devices the push service no longer
+// knows are unsubscribed.
+export const deliverPendingPushes = async (
+  repository: PusherRepository,
+  transport: PushTransport
+): Promise<NotificationDelivery[]> => {
+  const deliveries: NotificationDelivery[] = [];
+  for (const { notification, subscription, language } of await repository.getPushOutbox()) {
+    const attempt = {
+      notification_id: notification.id,
+      channel: 'push' as const,
+      recipient: subscription.endpoint,
+      transport: transport.name,
+    };
+    try {
+      await transport.send(subscription, pushPayload(notification, language));
+      deliveries.push(await repository.recordNotificationDelivery({ ...attempt, status: 'sent' }));
+    } catch (error) {
+      deliveries.push(
+        await repository.recordNotificationDelivery({
+          ...attempt,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+      if (isPushSubscriptionGoneError(error)) await repository.deletePushSubscription(subscription.endpoint);
+    }
+  }
+  return deliveries;
+};
+
+// Runs deliverPendingPushes now and then on every interval until the
+// returned function is called. On Supabase the send-push Edge Function does
+// this instead, holding the VAPID private key.
+export const startPushJob = (
+  repository: PusherRepository,
+  transport: PushTransport,
+  intervalMs = PUSH_JOB_INTERVAL_MS
+): (() => void) => {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await deliverPendingPushes(repository, transport);
+    } catch (error) {
+      console.error('Error sending push notifications:', error);
+    } finally {
+      running = false;
+    }
+  };
+  run();
+  const interval = setInterval(run, intervalMs);
+  return () => clearInterval(interval);
+};
+
+// Pick the push transport once at startup, like the data source. Only the
+// local transport ships in the app; VITE_PUSH_TRANSPORT=local is also the
+// default.
+export const createPushTransport = (): PushTransport => {
+  const name = import.meta.env.VITE_PUSH_TRANSPORT ?? 'local';
+  if (name === 'local') return new LocalPushTransport();
+  throw new Error(`Unknown push transport: ${name}`);
+};
@@ -0,0 +1,51 @@
+import { NewPushSubscription } from '../data/repository';
+import { PushPermissionError } from '../data/errors';
+
+// Served from the site root so that it controls every page.
+const SERVICE_WORKER_URL = '/sw.js';
+
+export const isPushSupported = () =>
+  typeof window !== 'undefined'
+  && 'serviceWorker' in navigator
+  && 'PushManager' in window
+  && 'Notification' in window
+  && !!import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+// The VAPID public key is published base64url-encoded.
+const applicationServerKey = (base64Url: string) => {
+  const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(base64Url.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+// This browser's subscription, if it has one.
+export const getDevicePushSubscription = async (): Promise<PushSubscription | null> => {
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+// Asks for permission, then subscribes this browser, reusing its existing
+// subscription. Throws PushPermissionError when the user blocks notifications.
+export const subscribeDevice = async (): Promise<Omit<NewPushSubscription, 'user_id'>> => {
+  if (await Notification.requestPermission() !== 'granted') {
+    throw new PushPermissionError();
+  }
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: applicationServerKey(import.meta.env.VITE_VAPID_PUBLIC_KEY!),
+    });
+
+  const { keys } = subscription.toJSON();
+  if (!keys?.p256dh || !keys.auth) throw new Error('The browser did not return push keys');
+  return { endpoint: subscription.endpoint, p256dh: keys.p256dh, auth: keys.auth, user_agent: navigator.userAgent };
+};
+
+// The endpoint this browser was subscribed with, or null when it was not.
+export const unsubscribeDevice = async (): Promise<string | null> => {
+  const subscription = await getDevicePushSubscription();
+  if (!subscription) return null;
+  await subscription.unsubscribe();
+  return subscription.endpoint;
+};
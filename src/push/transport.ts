@@ -0,0 +1,17 @@
+import { DevicePushSubscription } from '../types';
+
+// What the service worker (public/sw.js) shows for a push. tag replaces an
+// earlier notification with the same tag rather than stacking another.
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+}
+
+export interface PushTransport {
+  readonly name: string;
+  // Resolves once the push service has accepted the message. Throws
+  // PushSubscriptionGoneError when the device has unsubscribed.
+  send(subscription: DevicePushSubscription, payload: PushPayload): Promise<void>;
+}
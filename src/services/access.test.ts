@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Booking } from '../types';
+import {
+  ACCESS_LOCKOUT_MINUTES,
+  MAX_FAILED_ACCESS_ATTEMPTS,
+  accessProblem,
+  allocatePin,
+  isAccessRateLimited,
+  pinsInUse,
+  signAccessToken,
+  verifyAccessToken,
+} from './access';
+
+const SECRET = 'test-secret';
+const MINUTE_MS = 60_000;
+
+const booking = (overrides: Partial<Booking> = {}): Booking => ({
+  id: 'b1',
+  spot_id: '1',
+  guest_id: 'user1',
+  host_id: 'owner1',
+  start_time: '2025-01-15T17:00:00.000Z',
+  end_time: '2025-01-15T19:00:00.000Z',
+  total_amount: 30,
+  status: 'confirmed',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const at = (iso: string, minutes = 0) => new Date(Date.parse(iso) + minutes * MINUTE_MS);
+
+describe('access tokens', () => {
+  it('verifies a token signed with the same secret', async () => {
+    const claims = await verifyAccessToken(SECRET, await signAccessToken(SECRET, booking()));
+    expect(claims).toMatchObject({ bid: 'b1', sid: '1' });
+  });
+
+  it('rejects tokens with another secret or a changed payload', async () => {
+    const token = await signAccessToken(SECRET, booking());
+    expect(await verifyAccessToken('other-secret', token)).toBeNull();
+
+    const [version, , signature] = token.split('.');
+    const forged = await signAccessToken(SECRET, booking({ id: 'b2' }));
+    expect(await verifyAccessToken(SECRET, `${version}.${forged.split('.')[1]}.${signature}`)).toBeNull();
+    expect(await verifyAccessToken(SECRET, 'not-a-token')).toBeNull();
+  });
+});
+
+describe('accessProblem', () => {
+  const { start_time, end_time } = booking();
+
+  it('admits from 30 minutes before the start until 30 minutes after the end', () => {
+    expect(accessProblem(booking(), null, false, at(start_time, -31))).toBe('not_yet_valid');
+    expect(accessProblem(booking(), null, false, at(start_time, -29))).toBeNull();
+    expect(accessProblem(booking(), null, false, at(end_time, 29))).toBeNull();
+    expect(accessProblem(booking(), null, false, at(end_time, 30))).toBe('expired');
+  });
+
+  it('admits each booking once', () => {
+    expect(accessProblem(booking(), null, true, at(start_time))).toBe('already_used');
+  });
+
+  it('always lets a checked-in car leave', () => {
+    expect(accessProblem(booking({ status: 'checked_in' }), null, true, at(end_time, 600))).toBeNull();
+  });
+
+  it('refuses cancelled bookings and tokens for another spot', async () => {
+    expect(accessProblem(booking({ status: 'cancelled' }), null, false, at(start_time))).toBe('inactive');
+    const claims = await verifyAccessToken(SECRET, await signAccessToken(SECRET, booking({ spot_id: '2' })));
+    expect(accessProblem(booking(), claims, false, at(start_time))).toBe('invalid');
+  });
+});
+
+describe('PINs', () => {
+  it('avoids PINs held by overlapping bookings on the same spot', () => {
+    const others = [
+      booking({ id: 'b2', pin: '1111' }),
+      booking({ id: 'b3', pin: '2222', spot_id: '2' }),
+      booking({ id: 'b4', pin: '3333', status: 'cancelled' }),
+      booking({ id: 'b5', pin: '4444', start_time: '2025-01-16T17:00:00.000Z', end_time: '2025-01-16T19:00:00.000Z' }),
+    ];
+    expect(pinsInUse(others, '1', booking())).toEqual(new Set(['1111']));
+  });
+
+  it('allocates the only free PIN', () => {
+    const taken = new Set(Array.from({ length: 10_000 }, (_, i) => i.toString().padStart(4, '0')));
+    taken.delete('0042');
+    expect(allocatePin(taken)).toBe('0042');
+  });
+});
+
+describe('isAccessRateLimited', () => {
+  const now = new Date('2025-01-15T12:00:00Z');
+  const attempts = (count: number, minutesAgo: number) =>
+    Array.from({ length: count }, () => at(now.toISOString(), -minutesAgo).toISOString());
+
+  it('locks a scanner out after too many recent failures', () => {
+    expect(isAccessRateLimited(attempts(MAX_FAILED_ACCESS_ATTEMPTS - 1, 1), now)).toBe(false);
+    expect(isAccessRateLimited(attempts(MAX_FAILED_ACCESS_ATTEMPTS, 1), now)).toBe(true);
+  });
+
+  it('forgets failures older than the lockout', () => {
+    expect(isAccessRateLimited(attempts(MAX_FAILED_ACCESS_ATTEMPTS, ACCESS_LOCKOUT_MINUTES + 1), now)).toBe(false);
+  });
+});
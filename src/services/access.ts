@@ -0,0 +1,115 @@
+import { Booking, TimeRange } from '../types';
+import { AccessDeniedReason } from '../data/errors';
+import { isActiveBooking, rangesOverlap } from './capacity';
+import { base64UrlDecode, base64UrlEncode, hmacSha256Base64Url, safeEqual } from './signing';
+
+// Mirrored by the booking access functions in SQL. Keep the two in step.
+export const ACCESS_TOKEN_VERSION = 'v1';
+export const ACCESS_WINDOW_PADDING_MINUTES = 30;
+export const PIN_LENGTH = 4;
+export const MAX_FAILED_ACCESS_ATTEMPTS = 5;
+export const ACCESS_LOCKOUT_MINUTES = 15;
+
+// Signed into the QR token. Times are unix seconds.
+export interface AccessTokenClaims {
+  bid: string; // booking id
+  sid: string; // spot id
+  nbf: number;
+  exp: number;
+}
+
+const MINUTE_MS = 60_000;
+const toUnix = (iso: string) => Math.floor(Date.parse(iso) / 1000);
+
+// When the booking's QR code and PIN are accepted: from shortly before it
+// starts until shortly after it ends.
+export const accessWindow = (booking: TimeRange): TimeRange => ({
+  start_time: new Date(Date.parse(booking.start_time) - ACCESS_WINDOW_PADDING_MINUTES * MINUTE_MS).toISOString(),
+  end_time: new Date(Date.parse(booking.end_time) + ACCESS_WINDOW_PADDING_MINUTES * MINUTE_MS).toISOString(),
+});
+
+// Token format: v1.<base64url claims>.<base64url HMAC-SHA256 of "v1.<claims>">
+export const signAccessToken = async (secret: string, booking: Booking) => {
+  const window = accessWindow(booking);
+  const claims: AccessTokenClaims = {
+    bid: booking.id,
+    sid: booking.spot_id,
+    nbf: toUnix(window.start_time),
+    exp: toUnix(window.end_time),
+  };
+  const body = `${ACCESS_TOKEN_VERSION}.${base64UrlEncode(JSON.stringify(claims))}`;
+  return `${body}.${await hmacSha256Base64Url(secret, body)}`;
+};
+
+// The claims of a genuine token, or null when it is malformed or the
+// signature does not verify. The validity window is checked separately.
+export const verifyAccessToken = async (secret: string, token: string): Promise<AccessTokenClaims | null> => {
+  const parts = token.trim().split('.');
+  if (parts.length !== 3 || parts[0] !== ACCESS_TOKEN_VERSION) return null;
+
+  const [version, payload, signature] = parts;
+  if (!safeEqual(await hmacSha256Base64Url(secret, `${version}.${payload}`), signature)) return null;
+
+  const json = base64UrlDecode(payload);
+  if (!json) return null;
+  try {
+    const claims = JSON.parse(json) as AccessTokenClaims;
+    const valid = typeof claims.bid === 'string' && typeof claims.sid === 'string'
+      && Number.isFinite(claims.nbf) && Number.isFinite(claims.exp);
+    return valid ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
+// Why the booking cannot be admitted, or null when it can. A token carries
+// its own signed window; a PIN is good for the booking's current window. A
+// checked-in booking always passes so that the car can leave, however late.
+export const accessProblem = (
+  booking: Booking,
+  claims: AccessTokenClaims | null,
+  redeemed: boolean,
+  now = new Date()
+): AccessDeniedReason | null => {
+  if (claims && claims.sid !== booking.spot_id) return 'invalid';
+  if (booking.status === 'cancelled' || booking.status === 'completed') return 'inactive';
+  if (booking.status === 'checked_in') return null;
+
+  const window = accessWindow(booking);
+  const notBefore = claims ? claims.nbf * 1000 : Date.parse(window.start_time);
+  const expires = claims ? claims.exp * 1000 : Date.parse(window.end_time);
+  if (now.getTime() < notBefore) return 'not_yet_valid';
+  if (now.getTime() >= expires) return 'expired';
+
+  return redeemed ? 'already_used' : null;
+};
+
+// PINs held by the spot's other live bookings whose access windows overlap
+// the range. A new booking's PIN must avoid all of them.
+export const pinsInUse = (bookings: Booking[], spotId: string, range: TimeRange) => {
+  const window = accessWindow(range);
+  return new Set(
+    bookings
+      .filter(b => b.spot_id === spotId && isActiveBooking(b) && b.pin)
+      .filter(b => rangesOverlap(accessWindow(b), window))
+      .map(b => b.pin as string)
+  );
+};
+
+export const allocatePin = (taken: Set<string>) => {
+  const space = 10 ** PIN_LENGTH;
+  if (taken.size >= space) throw new Error('No free PIN for this spot and time');
+
+  const random = new Uint32Array(1);
+  for (;;) {
+    crypto.getRandomValues(random);
+    const pin = (random[0] % space).toString().padStart(PIN_LENGTH, '0');
+    if (!taken.has(pin)) return pin;
+  }
+};
+
+// True when the scanner has used up its failed attempts for now.
+export const isAccessRateLimited = (failedAttemptTimes: string[], now = new Date()) => {
+  const since = now.getTime() - ACCESS_LOCKOUT_MINUTES * MINUTE_MS;
+  return failedAttemptTimes.filter(t => Date.parse(t) > since).length >= MAX_FAILED_ACCESS_ATTEMPTS;
+};
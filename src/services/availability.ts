@@ -0,0 +1,160 @@
+import { HeldRange, TimeRange, WeeklySchedule } from '../types';
+import { database } from '../data/database';
+import { defaultWindow, hasCapacity, peakOccupancy } from './capacity';
+import {
+  DEFAULT_TIMEZONE,
+  isOpenAt,
+  isOpenThroughout,
+  openWindowsBetween,
+  toZonedInputs,
+  zonedDayRange,
+} from './schedule';
+import { DEFAULT_LANGUAGE, Language, LANGUAGES, translate } from '../i18n/catalog';
+import { formatDate, formatTime } from '../i18n/format';
+
+const MINUTE_MS = 60 * 1000;
+
+// Everything the engine needs to know about one spot. A null schedule means
+// the spot is always open.
+export interface SpotAvailability {
+  capacity: number;
+  held: HeldRange[];
+  schedule: WeeklySchedule | null;
+}
+
+const ms = (iso: string) => new Date(iso).getTime();
+
+const toRange = (start: number, end: number): TimeRange => ({
+  start_time: new Date(start).toISOString(),
+  end_time: new Date(end).toISOString(),
+});
+
+// Earliest window of the given length starting between `from` and `horizon`
+// that lies inside operating hours and keeps a slot free throughout. A start
+// can only become feasible when something ends (a held range frees its slots
+// or the spot opens), so those instants and `from` are the only candidates.
+export const findNextFreeWindow = (
+  { capacity, held, schedule }: SpotAvailability,
+  durationMs: number,
+  from: Date,
+  horizon: Date
+): TimeRange | null => {
+  if (durationMs <= 0 || capacity <= 0) return null;
+
+  const fromMs = from.getTime();
+  const horizonMs = horizon.getTime();
+  const openings = schedule
+    ? openWindowsBetween(schedule, toRange(fromMs, horizonMs)).map(w => ms(w.start_time))
+    : [];
+
+  const candidates = [...new Set([fromMs, ...held.map(h => ms(h.end_time)), ...openings])]
+    .filter(t => t >= fromMs && t < horizonMs)
+    .sort((a, b) => a - b);
+
+  for (const start of candidates) {
+    const range = toRange(start, start + durationMs);
+    if (schedule && !isOpenThroughout(schedule, range)) continue;
+    if (hasCapacity(held, capacity, range)) return range;
+  }
+  return null;
+};
+
+// Maximal stretches inside the range during which the spot is open and has at
+// least one free slot. Nothing changes between consecutive edges (held range
+// and opening-hours boundaries), so each segment is tested at its start.
+export const findFreeWindows = (
+  { capacity, held, schedule }: SpotAvailability,
+  range: TimeRange
+): TimeRange[] => {
+  const from = ms(range.start_time);
+  const to = ms(range.end_time);
+  const openWindows = schedule ? openWindowsBetween(schedule, range) : [];
+
+  const edges = [...new Set([
+    from,
+    to,
+    ...held.flatMap(h => [ms(h.start_time), ms(h.end_time)]),
+    ...openWindows.flatMap(w => [ms(w.start_time), ms(w.end_time)]),
+  ])]
+    .filter(t => t >= from && t <= to)
+    .sort((a, b) => a - b);
+
+  const windows: TimeRange[] = [];
+  for (let i = 0; i < edges.length - 1; i++) {
+    const [start, end] = [edges[i], edges[i + 1]];
+    const open = !schedule || isOpenAt(schedule, new Date(start));
+    if (!open || peakOccupancy(held, toRange(start, end)) >= capacity) continue;
+
+    const last = windows[windows.length - 1];
+    if (last && ms(last.end_time) === start) {
+      last.end_time = new Date(end).toISOString();
+    } else {
+      windows.push(toRange(start, end));
+    }
+  }
+  return windows;
+};
+
+// Loads capacity, schedule and held ranges for the window. Null when the spot
+// does not exist or the host has disabled it.
+export const loadSpotAvailability = async (spotId: string, window: TimeRange): Promise<SpotAvailability | null> => {
+  const [spot, schedule, held] = await Promise.all([
+    database.getParkingSpotById(spotId),
+    database.getSpotSchedule(spotId),
+    database.getSpotHeldRanges(spotId, window),
+  ]);
+  if (!spot || !spot.is_available) return null;
+  return { capacity: spot.total_slots, held, schedule };
+};
+
+export const getNextAvailableWindow = async (
+  spotId: string,
+  durationMinutes = 60,
+  from: Date = new Date()
+): Promise<TimeRange | null> => {
+  const window = defaultWindow(from);
+  const availability = await loadSpotAvailability(spotId, window);
+  if (!availability) return null;
+  return findNextFreeWindow(availability, durationMinutes * MINUTE_MS, from, new Date(window.end_time));
+};
+
+// Earliest moment a guest could park at all.
+export const getNextAvailableTime = async (spotId: string, from: Date = new Date()): Promise<Date | null> => {
+  const window = await getNextAvailableWindow(spotId, 1, from);
+  return window ? new Date(window.start_time) : null;
+};
+
+// Free windows for the calendar day (YYYY-MM-DD) in the spot's timezone,
+// ignoring the part of today that has already passed.
+export const getFreeWindowsForDay = async (spotId: string, date: string, timeZone: string): Promise<TimeRange[]> => {
+  const day = zonedDayRange(date, timeZone);
+  const now = Date.now();
+  if (ms(day.end_time) <= now) return [];
+
+  const range = toRange(Math.max(ms(day.start_time), now), ms(day.end_time));
+  const availability = await loadSpotAvailability(spotId, range);
+  return availability ? findFreeWindows(availability, range) : [];
+};
+
+// When the spot next frees up, in words, in the given language. Today and
+// tomorrow are the spot's, and times are shown in its timezone.
+export const describeNextAvailable = (
+  window: TimeRange | null,
+  language: Language = DEFAULT_LANGUAGE,
+  timeZone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+) => {
+  if (!window) return translate(language, 'availability.noneSoon');
+
+  const start = new Date(window.start_time);
+  if (start.getTime() - now.getTime() < MINUTE_MS) return translate(language, 'availability.now');
+
+  const { locale } = LANGUAGES[language];
+  const time = formatTime(start, locale, { hour: '2-digit', minute: '2-digit', timeZone });
+  const today = zonedDayRange(toZonedInputs(now, timeZone).date, timeZone);
+  if (start < new Date(today.end_time)) return translate(language, 'availability.today', { time });
+  const tomorrow = zonedDayRange(toZonedInputs(new Date(today.end_time), timeZone).date, timeZone);
+  if (start < new Date(tomorrow.end_time)) return translate(language, 'availability.tomorrow', { time });
+  const date = formatDate(start, locale, { weekday: 'short', month: 'short', day: 'numeric', timeZone });
+  return translate(language, 'availability.later', { date, time });
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { BookingStateError } from '../data/errors';
+import { assertTransition, bookingRole, canTransition, nextStatuses, transitionProblem } from './bookingState';
+
+describe('canTransition', () => {
+  it('only lets payment confirm a pending booking', () => {
+    expect(canTransition('pending', 'confirmed', 'system')).toBe(true);
+    expect(canTransition('pending', 'confirmed', 'host')).toBe(false);
+    expect(canTransition('pending', 'confirmed', 'guest')).toBe(false);
+  });
+
+  it('only lets the host check cars in and out', () => {
+    expect(canTransition('confirmed', 'checked_in', 'host')).toBe(true);
+    expect(canTransition('confirmed', 'checked_in', 'guest')).toBe(false);
+    expect(canTransition('checked_in', 'completed', 'host')).toBe(true);
+  });
+
+  it('does not allow cancelling after arrival', () => {
+    expect(canTransition('checked_in', 'cancelled', 'guest')).toBe(false);
+    expect(canTransition('checked_in', 'cancelled', 'host')).toBe(false);
+  });
+});
+
+describe('nextStatuses', () => {
+  it('lists what each party may do next', () => {
+    expect(nextStatuses('confirmed', 'guest')).toEqual(['cancelled']);
+    expect(nextStatuses('confirmed', 'host')).toEqual(['checked_in', 'cancelled']);
+  });
+
+  it('treats completed and cancelled as final', () => {
+    expect(nextStatuses('completed', 'host')).toEqual([]);
+    expect(nextStatuses('cancelled', 'host')).toEqual([]);
+  });
+});
+
+describe('transitionProblem', () => {
+  it('explains why a move is refused', () => {
+    expect(transitionProblem('completed', 'cancelled', 'guest')).toBe('not_allowed');
+    expect(transitionProblem('pending', 'checked_in', 'guest')).toBe('host_only');
+    expect(transitionProblem('pending', 'confirmed', 'guest')).toBe('automatic');
+    expect(transitionProblem('pending', 'cancelled', 'system')).toBe('parties_only');
+    expect(transitionProblem('pending', 'cancelled', 'guest')).toBeNull();
+  });
+});
+
+describe('assertTransition', () => {
+  it('throws BookingStateError for a refused move', () => {
+    expect(() => assertTransition({ id: 'b1', status: 'cancelled' }, 'confirmed', 'host')).toThrow(BookingStateError);
+    expect(() => assertTransition({ id: 'b1', status: 'pending' }, 'checked_in', 'guest'))
+      .toThrow('Only the host can mark this booking checked in');
+    expect(() => assertTransition({ id: 'b1', status: 'pending' }, 'confirmed', 'system')).not.toThrow();
+  });
+
+  it('refuses a host confirming an unpaid booking', () => {
+    expect(() => assertTransition({ id: 'b1', status: 'pending' }, 'confirmed', 'host'))
+      .toThrow(expect.objectContaining({ problem: 'automatic' }));
+  });
+});
+
+describe('bookingRole', () => {
+  it('names the booking party the user is', () => {
+    const booking = { guest_id: 'user1', host_id: 'owner1' };
+    expect(bookingRole(booking, 'owner1')).toBe('host');
+    expect(bookingRole(booking, 'user1')).toBe('guest');
+    expect(bookingRole(booking, 'user2')).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { Booking, BookingActorRole, BookingEvent, BookingStatus } from '../types';
+import { BookingStateError, BookingStateProblem } from '../data/errors';
+import { DEFAULT_LANGUAGE, Language, translate } from '../i18n/catalog';
+
+// The statuses a booking may move to from each status and who may move it
+// there. Only payment confirms a booking, as the system, whether a card
+// payment succeeds or the host approves a slip. The host checks cars in and
+// out, and either party may cancel before arrival. completed and cancelled
+// are final.
+//
+// Mirrored by booking_transition_allowed in SQL. Keep the two in step.
+export const BOOKING_TRANSITIONS: Record<BookingStatus, Partial<Record<BookingStatus, BookingActorRole[]>>> = {
+  pending: {
+    confirmed: ['system'],
+    checked_in: ['host'],
+    cancelled: ['guest', 'host'],
+  },
+  confirmed: {
+    checked_in: ['host'],
+    cancelled: ['guest', 'host'],
+  },
+  checked_in: {
+    completed: ['host'],
+  },
+  completed: {},
+  cancelled: {},
+};
+
+export const canTransition = (from: BookingStatus, to: BookingStatus, role: BookingActorRole) =>
+  BOOKING_TRANSITIONS[from][to]?.includes(role) ?? false;
+
+// The statuses the role may move a booking in `from` to.
+export const nextStatuses = (from: BookingStatus, role: BookingActorRole): BookingStatus[] =>
+  (Object.keys(BOOKING_TRANSITIONS[from]) as BookingStatus[]).filter(to => canTransition(from, to, role));
+
+// Why the role may not move the booking to `to`, or null when it may.
+export const transitionProblem = (
+  from: BookingStatus,
+  to: BookingStatus,
+  role: BookingActorRole
+): BookingStateProblem | null => {
+  const roles = BOOKING_TRANSITIONS[from][to];
+  if (!roles) return 'not_allowed';
+  if (roles.includes(role)) return null;
+  const people = roles.filter(r => r !== 'system');
+  if (people.length === 0) return 'automatic';
+  if (people.length > 1) return 'parties_only';
+  return people[0] === 'host' ? 'host_only' : 'guest_only';
+};
+
+// Throws BookingStateError unless the role may move the booking to `to`.
+export const assertTransition = (booking: Pick<Booking, 'id' | 'status'>, to: BookingStatus, role: BookingActorRole) => {
+  const problem = transitionProblem(booking.status, to, role);
+  if (problem) throw new BookingStateError(booking.id, booking.status, problem, to);
+};
+
+// The booking party the user is, or null when they are neither.
+export const bookingRole = (
+  booking: Pick<Booking, 'guest_id' | 'host_id'>,
+  userId: string
+): Exclude<BookingActorRole, 'system'> | null => {
+  if (booking.host_id === userId) return 'host';
+  if (booking.guest_id === userId) return 'guest';
+  return null;
+};
+
+// "Cancelled by guest" style, for the booking timeline. Payment confirmations
+// read "Confirmed by payment".
+export const bookingEventLabel = (
+  event: Pick<BookingEvent, 'to_status' | 'actor_role'>,
+  language: Language = DEFAULT_LANGUAGE
+) => {
+  const label = translate(language, `bookingEvents.${event.to_status}`);
+  if (event.to_status === 'pending') return label;
+  const by = translate(language, `bookingEvents.actors.${event.actor_role === 'system' ? 'payment' : event.actor_role}`);
+  return translate(language, 'bookingEvents.by', { event: label, actor: by });
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { cancellationRefund, cancellationTiers, refundPercent } from './cancellation';
+
+const HOUR_MS = 3_600_000;
+const now = new Date('2025-01-15T12:00:00Z');
+
+const booking = (hoursBefore: number, payment_status: 'paid' | 'pending' = 'paid') => ({
+  start_time: new Date(now.getTime() + hoursBefore * HOUR_MS).toISOString(),
+  total_amount: 80,
+  payment_status,
+});
+
+describe('refundPercent', () => {
+  it('uses the tier with the most notice the guest gave', () => {
+    const tiers = cancellationTiers({ cancellation_policy: 'moderate' });
+    expect(refundPercent(tiers, 30)).toBe(100);
+    expect(refundPercent(tiers, 10)).toBe(50);
+    expect(refundPercent(tiers, 1)).toBe(0);
+  });
+});
+
+describe('cancellationRefund', () => {
+  it('refunds a paid booking under the spot policy', () => {
+    const spot = { cancellation_policy: 'moderate' as const };
+    expect(cancellationRefund(spot, booking(30), 'guest', now)).toEqual({ refund_percent: 100, refund_amount: 80 });
+    expect(cancellationRefund(spot, booking(10), 'guest', now)).toEqual({ refund_percent: 50, refund_amount: 40 });
+  });
+
+  it('defaults to the flexible policy', () => {
+    expect(cancellationRefund({}, booking(2), 'guest', now).refund_percent).toBe(100);
+    expect(cancellationRefund({}, booking(0.5), 'guest', now).refund_percent).toBe(0);
+  });
+
+  it('applies custom tiers', () => {
+    const spot = {
+      cancellation_policy: 'custom' as const,
+      cancellation_tiers: [{ hours_before: 6, refund_percent: 25 }],
+    };
+    expect(cancellationRefund(spot, booking(8), 'guest', now)).toEqual({ refund_percent: 25, refund_amount: 20 });
+  });
+
+  it('refunds in full when the host cancels', () => {
+    expect(cancellationRefund({ cancellation_policy: 'strict' }, booking(1), 'host', now).refund_percent).toBe(100);
+  });
+
+  it('refunds nothing for an unpaid booking', () => {
+    expect(cancellationRefund({}, booking(30, 'pending'), 'host', now)).toEqual({ refund_percent: 0, refund_amount: 0 });
+  });
+});
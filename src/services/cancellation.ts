@@ -0,0 +1,136 @@
+import { Booking, CancellationPolicyName, CancellationTier, ParkingSpot } from '../types';
+import { NewNotification } from '../data/repository';
+import { roundMoney } from './pricing';
+import { formatMoney } from './currency';
+import { NotificationTextExtra, notificationContent } from './notifications';
+import { DEFAULT_LANGUAGE, Language, MessageParams, translate } from '../i18n/catalog';
+
+type PresetPolicyName = Exclude<CancellationPolicyName, 'custom'>;
+
+// Mirrored by cancellation_tiers and cancel_booking in SQL. Keep the two in
+// step.
+export const CANCELLATION_POLICIES: Record<PresetPolicyName, CancellationTier[]> = {
+  flexible: [{ hours_before: 1, refund_percent: 100 }],
+  moderate: [
+    { hours_before: 24, refund_percent: 100 },
+    { hours_before: 2, refund_percent: 50 },
+  ],
+  strict: [{ hours_before: 72, refund_percent: 50 }],
+};
+
+export const DEFAULT_CANCELLATION_POLICY: PresetPolicyName = 'flexible';
+
+export const CANCELLABLE_STATUSES: Booking['status'][] = ['pending', 'confirmed'];
+
+const HOUR_MS = 3_600_000;
+
+export type CancellationPolicy = Pick<ParkingSpot, 'cancellation_policy' | 'cancellation_tiers'>;
+
+export type CancelledBy = 'guest' | 'host';
+
+export interface CancellationRefund {
+  refund_percent: number;
+  refund_amount: number;
+}
+
+export const canCancel = (booking: Booking) => CANCELLABLE_STATUSES.includes(booking.status);
+
+export const cancellationPolicyLabel = (name: CancellationPolicyName, language: Language = DEFAULT_LANGUAGE) =>
+  translate(language, `cancellation.policies.${name}`);
+
+// The spot's tiers, most notice first.
+export const cancellationTiers = (spot: CancellationPolicy): CancellationTier[] => {
+  const name = spot.cancellation_policy ?? DEFAULT_CANCELLATION_POLICY;
+  const tiers = name === 'custom' ? spot.cancellation_tiers ?? [] : CANCELLATION_POLICIES[name];
+  return [...tiers].sort((a, b) => b.hours_before - a.hours_before);
+};
+
+export const refundPercent = (tiers: CancellationTier[], hoursBefore: number) =>
+  [...tiers]
+    .sort((a, b) => b.hours_before - a.hours_before)
+    .find(tier => hoursBefore >= tier.hours_before)?.refund_percent ?? 0;
+
+// What a cancellation now gives back of the booking total. Only paid
+// bookings get money back; a host cancelling refunds it in full whatever the
+// policy.
+export const cancellationRefund = (
+  spot: CancellationPolicy,
+  booking: Pick<Booking, 'start_time' | 'total_amount' | 'payment_status'>,
+  cancelledBy: CancelledBy,
+  now = new Date()
+): CancellationRefund => {
+  if (booking.payment_status !== 'paid') return { refund_percent: 0, refund_amount: 0 };
+
+  const hoursBefore = (Date.parse(booking.start_time) - now.getTime()) / HOUR_MS;
+  const percent = cancelledBy === 'host' ? 100 : refundPercent(cancellationTiers(spot), hoursBefore);
+  return { refund_percent: percent, refund_amount: roundMoney(booking.total_amount * percent / 100) };
+};
+
+// Why the policy cannot be saved, or null when it can.
+export const validateCancellationPolicy = (
+  spot: CancellationPolicy,
+  language: Language = DEFAULT_LANGUAGE
+): string | null => {
+  if (spot.cancellation_policy !== 'custom') return null;
+
+  const tiers = spot.cancellation_tiers ?? [];
+  if (tiers.length === 0) return translate(language, 'cancellation.errors.noTiers');
+  if (tiers.some(t => !(t.hours_before >= 0))) return translate(language, 'cancellation.errors.negativeNotice');
+  if (tiers.some(t => !(t.refund_percent >= 0 && t.refund_percent <= 100))) {
+    return translate(language, 'cancellation.errors.percentRange');
+  }
+  if (new Set(tiers.map(t => t.hours_before)).size !== tiers.length) {
+    return translate(language, 'cancellation.errors.duplicateNotice');
+  }
+  return null;
+};
+
+// One line per tier for guests, e.g. "50% refund if cancelled 2+ hours before
+// the start", then what happens after the last tier.
+export const describeCancellationPolicy = (spot: CancellationPolicy, language: Language = DEFAULT_LANGUAGE): string[] => {
+  const tiers = cancellationTiers(spot);
+  const lines = tiers.map(tier => {
+    const refund = tier.refund_percent === 100
+      ? translate(language, 'cancellation.fullRefund')
+      : translate(language, 'cancellation.partialRefund', { percent: tier.refund_percent });
+    return tier.hours_before > 0
+      ? translate(language, 'cancellation.refundWithNotice', { refund, hours: tier.hours_before })
+      : translate(language, 'cancellation.refundBeforeStart', { refund });
+  });
+  return [
+    ...lines,
+    translate(language, tiers.length ? 'cancellation.noRefundAfter' : 'cancellation.noRefund'),
+  ];
+};
+
+// Tells the other party about the cancellation.
+export const cancellationNotification = (
+  booking: Pick<Booking, 'id' | 'guest_id' | 'host_id' | 'refund_amount' | 'cancellation_reason' | 'currency'>,
+  cancelledBy: CancelledBy,
+  spotTitle: string
+): NewNotification => {
+  const extras: NotificationTextExtra[] = [];
+  const params: MessageParams = { spot: spotTitle };
+  if (booking.refund_amount) {
+    extras.push('refundDue');
+    params.refund = formatMoney(booking.refund_amount, booking.currency);
+  }
+  if (booking.cancellation_reason) {
+    extras.push('reason');
+    params.reason = booking.cancellation_reason;
+  }
+  const metadata = { booking_id: booking.id, event: 'booking_cancelled' };
+  return cancelledBy === 'guest'
+    ? {
+        user_id: booking.host_id,
+        ...notificationContent({ key: 'cancelledByGuest', params, extras }, metadata),
+        type: 'owner_notification',
+        action_url: '/admin/bookings',
+      }
+    : {
+        user_id: booking.guest_id,
+        ...notificationContent({ key: 'cancelledByHost', params, extras }, metadata),
+        type: 'booking_reminder',
+        action_url: '/bookings',
+      };
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { AvailabilityBlock, HeldRange } from '../types';
+import { expandBlock, hasCapacity, peakOccupancy, suggestAlternativeTimes } from './capacity';
+
+const held = (start: string, end: string, slots = 1): HeldRange => ({
+  start_time: `2025-01-15T${start}:00.000Z`,
+  end_time: `2025-01-15T${end}:00.000Z`,
+  slots,
+});
+
+const range = (start: string, end: string) => ({
+  start_time: `2025-01-15T${start}:00.000Z`,
+  end_time: `2025-01-15T${end}:00.000Z`,
+});
+
+describe('peakOccupancy', () => {
+  it('counts only ranges held at the same moment', () => {
+    const ranges = [held('10:00', '12:00'), held('12:00', '14:00')];
+    expect(peakOccupancy(ranges, range('11:00', '13:00'))).toBe(1);
+    expect(peakOccupancy([...ranges, held('11:30', '12:30')], range('11:00', '13:00'))).toBe(2);
+  });
+
+  it('adds up the slots a block takes', () => {
+    expect(peakOccupancy([held('10:00', '12:00', 10)], range('09:00', '11:00'))).toBe(10);
+  });
+});
+
+describe('hasCapacity', () => {
+  it('refuses a range once every slot is held', () => {
+    const ranges = [held('10:00', '12:00'), held('11:00', '13:00')];
+    expect(hasCapacity(ranges, 2, range('11:30', '12:30'))).toBe(false);
+    expect(hasCapacity(ranges, 2, range('12:00', '13:00'))).toBe(true);
+    expect(hasCapacity(ranges, 3, range('11:30', '12:30'))).toBe(true);
+  });
+});
+
+describe('suggestAlternativeTimes', () => {
+  it('offers free ranges of the same length around the requested one', () => {
+    const suggestions = suggestAlternativeTimes(
+      [held('10:00', '12:00')],
+      1,
+      range('11:00', '12:00'),
+      3,
+      new Date('2025-01-15T00:00:00Z')
+    );
+    expect(suggestions).toEqual([range('09:00', '10:00'), range('12:00', '13:00'), range('13:00', '14:00')]);
+  });
+
+  it('never suggests a time in the past', () => {
+    const suggestions = suggestAlternativeTimes(
+      [held('10:00', '12:00')],
+      1,
+      range('11:00', '12:00'),
+      3,
+      new Date('2025-01-15T11:30:00Z')
+    );
+    expect(suggestions.every(s => s.start_time >= '2025-01-15T11:30:00.000Z')).toBe(true);
+  });
+});
+
+describe('expandBlock', () => {
+  const block: AvailabilityBlock = {
+    id: 'ab1',
+    spot_id: '1',
+    start_time: '2024-01-07T07:00:00Z',
+    end_time: '2024-01-07T09:00:00Z',
+    block_type: 'maintenance',
+    slots_affected: 10,
+    recurrence: 'weekly',
+    created_by: 'owner1',
+    created_at: '2024-01-01T00:00:00Z',
+  };
+
+  it('repeats a weekly block inside the window', () => {
+    const occurrences = expandBlock(block, { start_time: '2024-01-14T00:00:00Z', end_time: '2024-01-22T00:00:00Z' });
+    expect(occurrences.map(o => o.start_time)).toEqual(['2024-01-14T07:00:00.000Z', '2024-01-21T07:00:00.000Z']);
+    expect(occurrences.every(o => o.slots === 10)).toBe(true);
+  });
+
+  it('stops repeating after recurrence_until', () => {
+    const occurrences = expandBlock(
+      { ...block, recurrence_until: '2024-01-15T00:00:00Z' },
+      { start_time: '2024-01-14T00:00:00Z', end_time: '2024-01-22T00:00:00Z' }
+    );
+    expect(occurrences).toHaveLength(1);
+  });
+});
@@ -0,0 +1,127 @@
+import { AvailabilityBlock, Booking, HeldRange, TimeRange } from '../types';
+
+// Bookings in these states hold a slot; cancelled and completed ones free it.
+export const ACTIVE_BOOKING_STATUSES: Booking['status'][] = ['pending', 'confirmed', 'checked_in'];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const isActiveBooking = (booking: Booking) =>
+  ACTIVE_BOOKING_STATUSES.includes(booking.status);
+
+export const rangesOverlap = (a: TimeRange, b: TimeRange) =>
+  new Date(a.start_time) < new Date(b.end_time) && new Date(b.start_time) < new Date(a.end_time);
+
+// Each active booking holds exactly one slot.
+export const bookingToHeldRange = (booking: Booking): HeldRange => ({
+  start_time: booking.start_time,
+  end_time: booking.end_time,
+  slots: 1,
+});
+
+// The helpers below take the ranges that currently hold slots: active bookings
+// and availability block occurrences.
+
+// Highest number of slots held at the same moment inside the range.
+// Occupancy only rises when a held range starts, so it is enough to sample the
+// range start and every held range start that falls inside it.
+export const peakOccupancy = (held: HeldRange[], range: TimeRange): number => {
+  const overlapping = held.filter(b => rangesOverlap(b, range));
+  const rangeStart = new Date(range.start_time).getTime();
+
+  const samples = [rangeStart, ...overlapping.map(b => new Date(b.start_time).getTime())]
+    .filter(t => t >= rangeStart);
+
+  return samples.reduce((peak, t) => {
+    const count = overlapping
+      .filter(b => new Date(b.start_time).getTime() <= t && new Date(b.end_time).getTime() > t)
+      .reduce((sum, b) => sum + b.slots, 0);
+    return Math.max(peak, count);
+  }, 0);
+};
+
+export const hasCapacity = (held: HeldRange[], capacity: number, range: TimeRange) =>
+  peakOccupancy(held, range) < capacity;
+
+// Nearby ranges of the same length that still fit within capacity. Candidates
+// are the moments a slot frees up (held range ends) and the latest start that
+// finishes before a held range begins, closest to the requested start first.
+export const suggestAlternativeTimes = (
+  held: HeldRange[],
+  capacity: number,
+  requested: TimeRange,
+  limit = 3,
+  now: Date = new Date()
+): TimeRange[] => {
+  const requestedStart = new Date(requested.start_time).getTime();
+  const duration = new Date(requested.end_time).getTime() - requestedStart;
+  if (duration <= 0 || capacity <= 0) return [];
+
+  const candidates = new Set<number>();
+  held.forEach(b => {
+    candidates.add(new Date(b.end_time).getTime());
+    candidates.add(new Date(b.start_time).getTime() - duration);
+  });
+  // Fall back to hourly offsets so a fully booked day still yields options.
+  for (let offset = 1; offset <= 24; offset++) {
+    candidates.add(requestedStart + offset * HOUR_MS);
+  }
+
+  return [...candidates]
+    .filter(start => start >= now.getTime() && start !== requestedStart)
+    .sort((a, b) => Math.abs(a - requestedStart) - Math.abs(b - requestedStart))
+    .map(start => ({
+      start_time: new Date(start).toISOString(),
+      end_time: new Date(start + duration).toISOString(),
+    }))
+    .filter(range => hasCapacity(held, capacity, range))
+    .slice(0, limit)
+    .sort((a, b) => a.start_time.localeCompare(b.start_time));
+};
+
+// How far ahead held ranges are loaded when no window is given.
+export const DEFAULT_LOOKAHEAD_MS = 90 * DAY_MS;
+
+const RECURRENCE_PERIOD_MS: Record<Exclude<AvailabilityBlock['recurrence'], 'none'>, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+export const defaultWindow = (from: Date = new Date()): TimeRange => ({
+  start_time: from.toISOString(),
+  end_time: new Date(from.getTime() + DEFAULT_LOOKAHEAD_MS).toISOString(),
+});
+
+// Occurrences of a block that overlap the window, as held ranges. Recurring
+// blocks repeat in fixed 24h / 7d steps, matching generate_series in the
+// spot_block_occurrences SQL function.
+export const expandBlock = (block: AvailabilityBlock, window: TimeRange): HeldRange[] => {
+  const start = new Date(block.start_time).getTime();
+  const duration = new Date(block.end_time).getTime() - start;
+  const from = new Date(window.start_time).getTime();
+  const to = new Date(window.end_time).getTime();
+  if (duration <= 0) return [];
+
+  const occurrence = (occurrenceStart: number): HeldRange => ({
+    start_time: new Date(occurrenceStart).toISOString(),
+    end_time: new Date(occurrenceStart + duration).toISOString(),
+    slots: block.slots_affected,
+  });
+
+  if (block.recurrence === 'none') {
+    return start < to && start + duration > from ? [occurrence(start)] : [];
+  }
+
+  const period = RECURRENCE_PERIOD_MS[block.recurrence];
+  const until = block.recurrence_until ? new Date(block.recurrence_until).getTime() : to;
+  const firstIndex = Math.max(0, Math.floor((from - duration - start) / period) + 1);
+
+  const occurrences: HeldRange[] = [];
+  for (let t = start + firstIndex * period; t < to && t <= until; t += period) {
+    occurrences.push(occurrence(t));
+  }
+  return occurrences;
+};
+
+export const expandBlocks = (blocks: AvailabilityBlock[], window: TimeRange): HeldRange[] =>
+  blocks.flatMap(block => expandBlock(block, window));
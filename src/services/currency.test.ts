@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { convertMoney, currencyOf, formatMoney, mainCurrency, summarizeMoney, totalsByCurrency } from './currency';
+
+describe('formatMoney', () => {
+  it('uses the currency symbol', () => {
+    expect(formatMoney(12.5)).toBe('$12.50');
+    expect(formatMoney(450, 'THB')).toBe('฿450.00');
+    expect(formatMoney(3, 'JPY')).toBe('JPY 3.00');
+  });
+});
+
+describe('currencyOf', () => {
+  it('falls back to US dollars', () => {
+    expect(currencyOf({})).toBe('USD');
+    expect(currencyOf({ currency: 'THB' })).toBe('THB');
+  });
+});
+
+describe('convertMoney', () => {
+  it('converts through the configured rates', () => {
+    expect(convertMoney({ amount: 360, currency: 'THB' }, 'USD')).toBe(10);
+    expect(convertMoney({ amount: 10, currency: 'USD' }, 'USD')).toBe(10);
+  });
+
+  it('returns null for a currency without a rate', () => {
+    expect(convertMoney({ amount: 10, currency: 'JPY' }, 'USD')).toBeNull();
+  });
+});
+
+describe('totalsByCurrency', () => {
+  it('never adds amounts in different currencies together', () => {
+    expect(totalsByCurrency([
+      { amount: 10, currency: 'USD' },
+      { amount: 450, currency: 'THB' },
+      { amount: 5.25, currency: 'USD' },
+    ])).toEqual([{ amount: 15.25, currency: 'USD' }, { amount: 450, currency: 'THB' }]);
+  });
+});
+
+describe('summarizeMoney', () => {
+  it('totals in the reporting currency, leaving out currencies without a rate', () => {
+    const summary = summarizeMoney([
+      { amount: 10, currency: 'USD' },
+      { amount: 360, currency: 'THB' },
+      { amount: 99, currency: 'JPY' },
+    ], 'USD');
+    expect(summary.byCurrency).toHaveLength(3);
+    expect(summary.total).toEqual({ amount: 20, currency: 'USD' });
+  });
+});
+
+describe('mainCurrency', () => {
+  it('picks the currency most spots use', () => {
+    expect(mainCurrency([{ currency: 'THB' }, {}, { currency: 'THB' }])).toBe('THB');
+    expect(mainCurrency([])).toBe('USD');
+  });
+});
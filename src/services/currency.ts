@@ -0,0 +1,88 @@
+import { ParkingSpot } from '../types';
+import { DEFAULT_CURRENCY } from '../i18n/format';
+import { roundMoney } from './pricing';
+
+// Currencies a host can price a spot in, as ISO 4217 codes. Prices, bookings,
+// charges and payments stay in the spot's currency; nothing is converted
+// when a guest pays. Mirrored by the parking_spots.currency check in SQL.
+export const CURRENCIES = ['USD', 'THB', 'EUR', 'GBP', 'SGD'] as const;
+
+export type Currency = (typeof CURRENCIES)[number];
+
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+// Units of each currency per US dollar, used only to show revenue across
+// currencies as one indicative total. Configured here rather than fetched;
+// update them when they drift.
+export const EXCHANGE_RATES: Record<Currency, number> = {
+  USD: 1,
+  THB: 36,
+  EUR: 0.92,
+  GBP: 0.79,
+  SGD: 1.35,
+};
+
+const CURRENCY_SYMBOLS: Record<Currency, string> = {
+  USD: '$',
+  THB: '฿',
+  EUR: '€',
+  GBP: '£',
+  SGD: 'S$',
+};
+
+export const isCurrency = (code: string): code is Currency => (CURRENCIES as readonly string[]).includes(code);
+
+// The currency of a spot, or of a booking, which takes its spot's.
+export const currencyOf = (item: { currency?: string }) => item.currency ?? DEFAULT_CURRENCY;
+
+// Money in the English texts stored with notifications and sent by email,
+// e.g. "$12.50" or "฿450.00". Mirrored by format_money in SQL.
+export const formatMoney = (amount: number, currency = DEFAULT_CURRENCY) =>
+  `${isCurrency(currency) ? CURRENCY_SYMBOLS[currency] : `${currency} `}${amount.toFixed(2)}`;
+
+// The amount in another currency, or null when either has no rate.
+export const convertMoney = ({ amount, currency }: Money, to: string): number | null => {
+  if (currency === to) return amount;
+  if (!isCurrency(currency) || !isCurrency(to)) return null;
+  return roundMoney((amount / EXCHANGE_RATES[currency]) * EXCHANGE_RATES[to]);
+};
+
+// One total per currency, in the order each currency first appears.
+export const totalsByCurrency = (amounts: Money[]): Money[] => {
+  const totals = new Map<string, number>();
+  for (const { amount, currency } of amounts) {
+    totals.set(currency, (totals.get(currency) ?? 0) + amount);
+  }
+  return [...totals].map(([currency, amount]) => ({ amount: roundMoney(amount), currency }));
+};
+
+export interface MoneySummary {
+  byCurrency: Money[];
+  // All of byCurrency converted into the reporting currency, leaving out
+  // any currency without a rate.
+  total: Money;
+}
+
+export const summarizeMoney = (amounts: Money[], reportingCurrency: string): MoneySummary => {
+  const byCurrency = totalsByCurrency(amounts);
+  const total = byCurrency.reduce((sum, money) => sum + (convertMoney(money, reportingCurrency) ?? 0), 0);
+  return { byCurrency, total: { amount: roundMoney(total), currency: reportingCurrency } };
+};
+
+// The currency most of the spots are priced in, for reporting across them.
+export const mainCurrency = (spots: Pick<ParkingSpot, 'currency'>[]) => {
+  const counts = new Map<string, number>();
+  for (const spot of spots) {
+    const currency = currencyOf(spot);
+    counts.set(currency, (counts.get(currency) ?? 0) + 1);
+  }
+  let main = DEFAULT_CURRENCY;
+  let most = 0;
+  for (const [currency, count] of counts) {
+    if (count > most) [main, most] = [currency, count];
+  }
+  return main;
+};
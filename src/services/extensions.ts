@@ -0,0 +1,141 @@
+import { Booking, BookingExtension, ExtensionQuote, ParkingSpot, TimeRange } from '../types';
+import { NewNotification } from '../data/repository';
+import { ExtensionTimeProblem } from '../data/errors';
+import { RateCard, quotePrice, roundMoney } from './pricing';
+import { SERVICE_FEE_RATE, TAX_RATE } from './quote';
+import { formatDuration } from './occupancy';
+import { formatMoney } from './currency';
+import { DEFAULT_LANGUAGE, translate } from '../i18n/catalog';
+import { notificationContent } from './notifications';
+
+// Mirrored by request_booking_extension in SQL. Keep the two in step.
+export const EXTENDABLE_STATUSES: Booking['status'][] = ['confirmed', 'checked_in'];
+
+const MINUTE_MS = 60_000;
+
+export const canExtend = (booking: Booking) => EXTENDABLE_STATUSES.includes(booking.status);
+
+export const autoApprovesExtensions = (spot: Pick<ParkingSpot, 'auto_approve_extensions'>) =>
+  Boolean(spot.auto_approve_extensions);
+
+// The time an extension adds to the booking. Only this part needs free
+// capacity and opening hours; the booked part is already held.
+export const extensionRange = (booking: Pick<Booking, 'end_time'>, newEndTime: string): TimeRange => ({
+  start_time: booking.end_time,
+  end_time: newEndTime,
+});
+
+// Why the booking's end cannot move to newEndTime, or null when it can.
+export const extensionTimeProblem = (
+  booking: Pick<Booking, 'end_time'>,
+  newEndTime: string,
+  now = new Date()
+): ExtensionTimeProblem | null => {
+  const end = Date.parse(newEndTime);
+  if (Number.isNaN(end)) return 'no_end_time';
+  if (end <= Date.parse(booking.end_time)) return 'end_not_later';
+  if (end <= now.getTime()) return 'end_in_past';
+  return null;
+};
+
+// Prices the extension as the difference between the longer and the booked
+// stay on the rate card, so hourly rules and caps apply as if the guest had
+// booked the longer time, then adds the service fee and VAT on top. Labels
+// are English; the app shows each item from the catalog by its code.
+export const buildExtensionQuote = (
+  card: RateCard & Pick<ParkingSpot, 'auto_approve_extensions'>,
+  booking: Pick<Booking, 'id' | 'start_time' | 'end_time'>,
+  newEndTime: string
+): ExtensionQuote => {
+  const minutes = Math.ceil((Date.parse(newEndTime) - Date.parse(booking.end_time)) / MINUTE_MS);
+  const extended = quotePrice(card, { start_time: booking.start_time, end_time: newEndTime }).total;
+  const booked = quotePrice(card, booking).total;
+  const base = roundMoney(Math.max(0, extended - booked));
+  const serviceFee = roundMoney(base * SERVICE_FEE_RATE);
+  const tax = roundMoney((base + serviceFee) * TAX_RATE);
+
+  return {
+    booking_id: booking.id,
+    original_end_time: booking.end_time,
+    new_end_time: newEndTime,
+    additional_minutes: minutes,
+    line_items: [
+      { code: 'base', label: translate(DEFAULT_LANGUAGE, 'extension.baseItem', { duration: formatDuration(minutes) }), amount: base },
+      { code: 'service_fee', label: 'Service fee', amount: serviceFee },
+      { code: 'tax', label: `VAT (${Math.round(TAX_RATE * 100)}%)`, amount: tax },
+    ],
+    base_amount: base,
+    service_fee: serviceFee,
+    tax_amount: tax,
+    total: roundMoney(base + serviceFee + tax),
+    requires_approval: !autoApprovesExtensions(card),
+  };
+};
+
+// The English description of an extension's charge.
+export const extensionChargeDescription = (extension: Pick<BookingExtension, 'additional_minutes'>) =>
+  translate(DEFAULT_LANGUAGE, 'charges.extension', { duration: formatDuration(extension.additional_minutes) });
+
+// Asks the host to review a new request. currency is the booking's.
+export const extensionRequestNotification = (
+  extension: Pick<BookingExtension, 'id' | 'booking_id' | 'host_id' | 'additional_minutes' | 'additional_cost'>,
+  spotTitle: string,
+  currency?: string
+): NewNotification => ({
+  user_id: extension.host_id,
+  ...notificationContent(
+    {
+      key: 'extensionRequested',
+      params: {
+        spot: spotTitle,
+        duration: extension.additional_minutes,
+        amount: formatMoney(extension.additional_cost, currency),
+      },
+    },
+    { booking_id: extension.booking_id, extension_id: extension.id }
+  ),
+  type: 'owner_notification',
+  action_url: '/admin/bookings',
+});
+
+// Tells the guest how their request was decided. currency is the booking's.
+export const extensionDecisionNotification = (
+  extension: Pick<
+    BookingExtension,
+    'id' | 'booking_id' | 'guest_id' | 'status' | 'additional_minutes' | 'additional_cost' | 'rejection_reason'
+  >,
+  spotTitle: string,
+  currency?: string
+): NewNotification => {
+  const metadata = { booking_id: extension.booking_id, extension_id: extension.id };
+  if (extension.status === 'approved') {
+    return {
+      user_id: extension.guest_id,
+      ...notificationContent(
+        {
+          key: 'extensionApproved',
+          params: {
+            spot: spotTitle,
+            duration: extension.additional_minutes,
+            amount: formatMoney(extension.additional_cost, currency),
+          },
+        },
+        metadata
+      ),
+      type: 'extension_reminder',
+      action_url: '/bookings',
+    };
+  }
+  const reason = extension.rejection_reason;
+  return {
+    user_id: extension.guest_id,
+    ...notificationContent(
+      reason
+        ? { key: 'extensionDeclined', params: { spot: spotTitle, reason }, extras: ['reason'] }
+        : { key: 'extensionDeclined', params: { spot: spotTitle } },
+      metadata
+    ),
+    type: 'extension_reminder',
+    action_url: '/bookings',
+  };
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { localizeNotification, translateNotificationText } from './notifications';
+import { cancellationNotification } from './cancellation';
+import { overstayNotifications } from './overstay';
+
+const booking = {
+  id: 'booking-1',
+  guest_id: 'guest-1',
+  host_id: 'host-1',
+  refund_amount: 40,
+  cancellation_reason: 'Plans changed',
+  currency: 'USD',
+};
+
+describe('notificationContent', () => {
+  it('keeps the English and the text to translate it', () => {
+    const notification = cancellationNotification(booking, 'guest', 'Downtown Garage');
+    expect(notification.message).toBe(
+      'A booking at Downtown Garage was cancelled. A refund of $40.00 is due to the guest. Reason: Plans changed'
+    );
+    expect(notification.metadata).toMatchObject({
+      booking_id: 'booking-1',
+      event: 'booking_cancelled',
+      text: { key: 'cancelledByGuest', extras: ['refundDue', 'reason'] },
+    });
+  });
+});
+
+describe('translateNotificationText', () => {
+  it('formats a duration in minutes for the language', () => {
+    const text = { key: 'overstayCharged' as const, params: { spot: 'Lot A', duration: 90, amount: '$6.00' } };
+    expect(translateNotificationText('en', text).message).toContain('1h 30m');
+    expect(translateNotificationText('th', text).message).not.toContain('1h 30m');
+  });
+});
+
+describe('localizeNotification', () => {
+  it('translates notifications that have a text', () => {
+    const [notification] = overstayNotifications(
+      booking,
+      { id: 'charge-1', amount: 6, currency: 'USD', overstay_minutes: 30 },
+      'Lot A'
+    );
+    const thai = localizeNotification(notification, 'th');
+    expect(thai.title).not.toBe(notification.title);
+    expect(localizeNotification(notification, 'en')).toEqual({
+      title: notification.title,
+      message: notification.message,
+    });
+  });
+
+  it('shows the stored English of notifications without one', () => {
+    const notification = { title: 'Welcome', message: 'Thanks for joining.', metadata: {} };
+    expect(localizeNotification(notification, 'th')).toEqual({ title: 'Welcome', message: 'Thanks for joining.' });
+  });
+});
@@ -0,0 +1,293 @@
+import {
+  Booking,
+  DeliveryChannel,
+  NotificationTopic,
+  Review,
+  UserNotification,
+  UserPreferences,
+  UserSettings,
+} from '../types';
+import { NewNotification } from '../data/repository';
+import { DEFAULT_LANGUAGE, Language, MessageParams, translate } from '../i18n/catalog';
+import { Messages } from '../i18n/messages/en';
+import { formatDuration } from './occupancy';
+
+// How long before a booking starts or ends the guest is reminded.
+export const REMINDER_LEAD_MINUTES = 30;
+
+export type ReminderKind = 'starting_soon' | 'ending_soon' | 'overstay';
+
+// The setting that turns each kind of reminder off.
+export const REMINDER_SETTINGS: Record<ReminderKind, keyof UserPreferences> = {
+  starting_soon: 'booking_reminders',
+  ending_soon: 'extension_reminders',
+  overstay: 'booking_reminders',
+};
+
+// The events whose notifications also go out by email, kept in metadata.event.
+export type NotificationEvent = 'booking_confirmed' | 'booking_cancelled' | 'payment_approved' | 'review_request';
+
+// Attempts at sending a notification by one channel before giving up.
+export const MAX_DELIVERY_ATTEMPTS = 3;
+
+// The setting that turns each channel off.
+export const CHANNEL_SETTINGS: Record<DeliveryChannel, keyof UserPreferences> = {
+  email: 'email_notifications',
+  push: 'push_notifications',
+};
+
+// The channels each topic goes out by, unless the user switched them off in
+// channel_preferences. Email topics are the NotificationEvents, each with a
+// template.
+export const TOPIC_CHANNELS: Record<NotificationTopic, DeliveryChannel[]> = {
+  booking_confirmed: ['email'],
+  booking_cancelled: ['email'],
+  payment_approved: ['email', 'push'],
+  review_request: ['email'],
+  booking_reminders: ['push'],
+  extension_updates: ['push'],
+};
+
+// In the order the notifications page offers them as filters; labelled by
+// the notifications.types messages.
+export const NOTIFICATION_TYPES: UserNotification['type'][] = [
+  'booking_reminder',
+  'extension_reminder',
+  'owner_notification',
+  'system',
+  'promotion',
+];
+
+type NotificationTexts = Messages['notificationTexts'];
+
+export type NotificationTextKey = Exclude<keyof NotificationTexts, 'extras'>;
+
+export type NotificationTextExtra = keyof NotificationTexts['extras'];
+
+// A notification's wording as a notificationTexts message, kept in
+// metadata.text so each user reads it in their own language. extras are
+// sentences added after the message; a duration param is in minutes. The
+// title and message columns keep the English for anything reading them
+// directly. Mirrored by set_notification_text in SQL.
+export interface NotificationText {
+  key: NotificationTextKey;
+  params?: MessageParams;
+  extras?: NotificationTextExtra[];
+}
+
+export const translateNotificationText = (
+  language: Language,
+  { key, params = {}, extras = [] }: NotificationText
+): Pick<UserNotification, 'title' | 'message'> => {
+  const values = typeof params.duration === 'number'
+    ? { ...params, duration: formatDuration(params.duration, language) }
+    : params;
+  return {
+    title: translate(language, `notificationTexts.${key}.title`, values),
+    message: [
+      translate(language, `notificationTexts.${key}.message`, values),
+      ...extras.map(extra => translate(language, `notificationTexts.extras.${extra}`, values)),
+    ].join(' '),
+  };
+};
+
+// The title and message in the language. Notifications saved without a text
+// show their stored English.
+export const localizeNotification = (
+  notification: Pick<UserNotification, 'title' | 'message' | 'metadata'>,
+  language: Language
+): Pick<UserNotification, 'title' | 'message'> => {
+  const text = notification.metadata?.text as NotificationText | undefined;
+  return text?.key
+    ? translateNotificationText(language, text)
+    : { title: notification.title, message: notification.message };
+};
+
+// The English title and message of a new notification, with its text added
+// to the metadata.
+export const notificationContent = (text: NotificationText, metadata: Record<string, unknown>) => ({
+  ...translateNotificationText(DEFAULT_LANGUAGE, text),
+  metadata: { ...metadata, text },
+});
+
+// Tells the host about a new booking on their spot.
+export const bookingCreatedNotification = (
+  booking: Pick<Booking, 'id' | 'host_id'>,
+  spotTitle: string
+): NewNotification => ({
+  user_id: booking.host_id,
+  ...notificationContent({ key: 'bookingCreated', params: { spot: spotTitle } }, { booking_id: booking.id }),
+  type: 'owner_notification',
+  action_url: '/admin/bookings',
+});
+
+// Tells the guest their booking went through.
+export const bookingConfirmedNotification = (
+  booking: Pick<Booking, 'id' | 'guest_id'>,
+  spotTitle: string
+): NewNotification => ({
+  user_id: booking.guest_id,
+  ...notificationContent(
+    { key: 'bookingConfirmed', params: { spot: spotTitle } },
+    { booking_id: booking.id, event: 'booking_confirmed' }
+  ),
+  type: 'booking_reminder',
+  action_url: '/bookings',
+});
+
+// Asks the guest to review a stay once they have checked out.
+export const reviewRequestNotification = (
+  booking: Pick<Booking, 'id' | 'guest_id'>,
+  spotTitle: string
+): NewNotification => ({
+  user_id: booking.guest_id,
+  ...notificationContent(
+    { key: 'reviewRequest', params: { spot: spotTitle } },
+    { booking_id: booking.id, event: 'review_request' }
+  ),
+  type: 'system',
+  action_url: '/bookings',
+});
+
+const reminderTime = (time: string) =>
+  new Date(new Date(time).getTime() - REMINDER_LEAD_MINUTES * 60_000).toISOString();
+
+// The guest's reminders still to come for a live booking, each sent by the
+// reminder job at scheduled_for: one before a confirmed booking starts and
+// one before any live booking ends.
+export const bookingReminders = (
+  booking: Pick<Booking, 'id' | 'guest_id' | 'status' | 'start_time' | 'end_time'>,
+  spotTitle: string,
+  now = new Date()
+): NewNotification[] => {
+  if (booking.status !== 'confirmed' && booking.status !== 'checked_in') return [];
+
+  const reminders: NewNotification[] = [];
+  if (booking.status === 'confirmed' && new Date(booking.start_time) > now) {
+    reminders.push({
+      user_id: booking.guest_id,
+      ...notificationContent(
+        { key: 'startingSoon', params: { spot: spotTitle } },
+        { booking_id: booking.id, reminder: 'starting_soon' }
+      ),
+      type: 'booking_reminder',
+      action_url: '/bookings',
+      scheduled_for: reminderTime(booking.start_time),
+    });
+  }
+  if (new Date(booking.end_time) > now) {
+    reminders.push({
+      user_id: booking.guest_id,
+      ...notificationContent(
+        { key: 'endingSoon', params: { spot: spotTitle } },
+        { booking_id: booking.id, reminder: 'ending_soon' }
+      ),
+      type: 'extension_reminder',
+      action_url: '/bookings',
+      scheduled_for: reminderTime(booking.end_time),
+    });
+  }
+  return reminders;
+};
+
+// Tells whoever was reviewed: the host for a guest's review of their spot,
+// the guest for a host's review of their stay.
+export const reviewPostedNotification = (
+  review: Pick<Review, 'id' | 'booking_id' | 'reviewee_id' | 'rating' | 'is_host_review'>,
+  spotTitle: string
+): NewNotification => {
+  const metadata = { booking_id: review.booking_id, review_id: review.id };
+  const params = { spot: spotTitle, rating: review.rating };
+  return review.is_host_review
+    ? {
+        user_id: review.reviewee_id,
+        ...notificationContent({ key: 'hostReviewPosted', params }, metadata),
+        type: 'system',
+      }
+    : {
+        user_id: review.reviewee_id,
+        ...notificationContent({ key: 'guestReviewPosted', params }, metadata),
+        type: 'owner_notification',
+        action_url: '/admin/reviews',
+      };
+};
+
+export const notificationIcon = (type: UserNotification['type']) => {
+  switch (type) {
+    case 'booking_reminder':
+    case 'extension_reminder':
+      return '🚗';
+    case 'owner_notification':
+      return '👤';
+    case 'system':
+      return '📄';
+    default:
+      return '🔔';
+  }
+};
+
+// When the notification was shown: when a reminder was sent, otherwise when
+// it was made.
+export const notificationTime = (notification: Pick<UserNotification, 'sent_at' | 'created_at'>) =>
+  notification.sent_at ?? notification.created_at;
+
+export const notificationEvent = (notification: Pick<UserNotification, 'metadata'>): NotificationEvent | undefined =>
+  notification.metadata?.event as NotificationEvent | undefined;
+
+export const reminderKind = (notification: Pick<UserNotification, 'metadata'>): ReminderKind | undefined =>
+  notification.metadata?.reminder as ReminderKind | undefined;
+
+// Scheduled notifications stay hidden until the reminder job sends them.
+export const isNotificationShown = (notification: Pick<UserNotification, 'scheduled_for' | 'sent_at'>) =>
+  !notification.scheduled_for || !!notification.sent_at;
+
+// Whether the user's settings let the reminder go out. Anything that is not
+// a reminder always does.
+export const wantsReminder = (settings: UserSettings, notification: Pick<UserNotification, 'metadata'>) => {
+  const kind = reminderKind(notification);
+  return !kind || settings[REMINDER_SETTINGS[kind]];
+};
+
+// Which topic the notification belongs to, if it goes out beyond the app.
+export const notificationTopic = (notification: Pick<UserNotification, 'metadata'>): NotificationTopic | undefined => {
+  const event = notificationEvent(notification);
+  if (event) return event;
+  if (reminderKind(notification)) return 'booking_reminders';
+  if (notification.metadata?.extension_id) return 'extension_updates';
+  return undefined;
+};
+
+// Whether the notification goes out by the channel: its topic must use the
+// channel, and the user must not have switched off either.
+export const wantsDelivery = (
+  settings: UserSettings,
+  notification: Pick<UserNotification, 'metadata'>,
+  channel: DeliveryChannel
+) => {
+  const topic = notificationTopic(notification);
+  return !!topic
+    && TOPIC_CHANNELS[topic].includes(channel)
+    && !!settings[CHANNEL_SETTINGS[channel]]
+    && settings.channel_preferences[topic]?.[channel] !== false;
+};
+
+// The preferences after switching the channel on or off for the topic.
+export const withChannelPreference = (
+  preferences: UserSettings['channel_preferences'],
+  topic: NotificationTopic,
+  channel: DeliveryChannel,
+  enabled: boolean
+): UserSettings['channel_preferences'] => ({
+  ...preferences,
+  [topic]: { ...preferences[topic], [channel]: enabled },
+});
+
+export interface NotificationFilter {
+  type: UserNotification['type'] | 'all';
+  unreadOnly: boolean;
+}
+
+export const filterNotifications = (notifications: UserNotification[], filter: NotificationFilter) =>
+  notifications.filter(notification =>
+    (filter.type === 'all' || notification.type === filter.type) && (!filter.unreadOnly || !notification.is_read)
+  );
@@ -0,0 +1,41 @@
+import { Booking } from '../types';
+import { DEFAULT_LANGUAGE, Language, translate } from '../i18n/catalog';
+
+// Mirrored by check_booking_access and check_out_booking in SQL.
+export const CHECK_IN_STATUSES: Booking['status'][] = ['pending', 'confirmed'];
+
+const MINUTE_MS = 60_000;
+
+export const bookingStatusLabel = (status: Booking['status'], language: Language = DEFAULT_LANGUAGE) =>
+  translate(language, `bookingStatus.${status}`);
+
+export const canCheckIn = (booking: Booking) => CHECK_IN_STATUSES.includes(booking.status);
+
+export const canCheckOut = (booking: Booking) => booking.status === 'checked_in';
+
+// The car is still in the spot after the booking has ended.
+export const isOverstaying = (booking: Booking, now = new Date()) =>
+  booking.status === 'checked_in' && now.getTime() >= Date.parse(booking.end_time);
+
+// Whole minutes the car stayed past end_time: until check-out, or until now
+// while it is still checked in. Zero for bookings that never checked in.
+export const overstayMinutes = (
+  booking: Pick<Booking, 'end_time' | 'status' | 'checked_out_at'>,
+  now = new Date()
+) => {
+  const leftAt = booking.checked_out_at
+    ? Date.parse(booking.checked_out_at)
+    : booking.status === 'checked_in' ? now.getTime() : null;
+  if (leftAt === null) return 0;
+  return Math.max(0, Math.floor((leftAt - Date.parse(booking.end_time)) / MINUTE_MS));
+};
+
+// "1h 25m" style, for overstay notices.
+export const formatDuration = (minutes: number, language: Language = DEFAULT_LANGUAGE) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (!hours) return translate(language, 'duration.minutes', { minutes: rest });
+  return rest
+    ? translate(language, 'duration.hoursMinutes', { hours, minutes: rest })
+    : translate(language, 'duration.hours', { hours });
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { overstayFee } from './overstay';
+import { chargeDescription } from './payments';
+import { mockParkingSpots } from '../data/mockData';
+
+// $15 an hour, 10 minute billing grace, default 15 minute overstay grace.
+const spot = mockParkingSpots[0];
+
+// Wednesday 12:00-14:00 in New York.
+const booking = (checkedOutAt?: string) => ({
+  start_time: '2025-01-15T17:00:00Z',
+  end_time: '2025-01-15T19:00:00Z',
+  status: 'completed' as const,
+  checked_out_at: checkedOutAt,
+});
+
+describe('overstayFee', () => {
+  it('charges nothing within the overstay grace period', () => {
+    expect(overstayFee(spot, booking('2025-01-15T19:10:00Z'))).toBeNull();
+  });
+
+  it('charges the extra hours of the actual stay plus VAT', () => {
+    const fee = overstayFee(spot, booking('2025-01-15T20:30:00Z'));
+    expect(fee).toMatchObject({ overstay_minutes: 90, base_amount: 30, tax_amount: 2.1, amount: 32.1 });
+    expect(fee?.description).toBe('Overstay of 1h 30m past the booked end time');
+  });
+
+  it('lets the daily cap absorb a long overstay', () => {
+    const fee = overstayFee({ ...spot, daily_rate: 30 }, booking('2025-01-15T23:00:00Z'));
+    expect(fee).toBeNull();
+  });
+
+  it('charges nothing before check-out', () => {
+    expect(overstayFee(spot, booking())).toBeNull();
+  });
+});
+
+describe('chargeDescription', () => {
+  it('describes a charge in the language from its minutes', () => {
+    const overstay = { kind: 'overstay' as const, description: 'Overstay', overstay_minutes: 90 };
+    const extension = { kind: 'extension' as const, description: 'Extension', extension_minutes: 60 };
+    expect(chargeDescription(overstay, 'th')).toBe('จอดเกินเวลาที่จองไว้ 1 ชม. 30 นาที');
+    expect(chargeDescription(extension, 'th')).toBe('ขยายเวลา 1 ชม.');
+  });
+
+  it('keeps the stored description of a charge without its minutes', () => {
+    expect(chargeDescription({ kind: 'extension', description: 'Extension of 2h' }, 'th')).toBe('Extension of 2h');
+  });
+});
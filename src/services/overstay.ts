@@ -0,0 +1,110 @@
+import { Booking, BookingCharge, ParkingSpot } from '../types';
+import { NewNotification } from '../data/repository';
+import { RateCard, quotePrice, roundMoney } from './pricing';
+import { TAX_RATE } from './quote';
+import { formatDuration, overstayMinutes } from './occupancy';
+import { formatMoney } from './currency';
+import { DEFAULT_LANGUAGE, translate } from '../i18n/catalog';
+import { notificationContent } from './notifications';
+
+// Mirrored by check_out_booking in SQL. Keep the two in step.
+export const DEFAULT_OVERSTAY_GRACE_MINUTES = 15;
+
+export interface OverstayFee {
+  overstay_minutes: number;
+  base_amount: number;
+  tax_amount: number;
+  amount: number;
+  description: string;
+}
+
+export const overstayGraceMinutes = (spot: Pick<ParkingSpot, 'overstay_grace_minutes'>) =>
+  spot.overstay_grace_minutes ?? DEFAULT_OVERSTAY_GRACE_MINUTES;
+
+// What staying past end_time costs on the spot's rate card: the price of the
+// whole actual stay less the price of the booked stay, so hourly rules and
+// daily or monthly caps apply as if the guest had booked the longer time.
+// Null for a departure within the grace period or when the caps absorb it.
+export const overstayFee = (
+  card: RateCard & Pick<ParkingSpot, 'overstay_grace_minutes'>,
+  booking: Pick<Booking, 'start_time' | 'end_time' | 'status' | 'checked_out_at'>
+): OverstayFee | null => {
+  if (!booking.checked_out_at) return null;
+
+  const minutes = overstayMinutes(booking);
+  if (minutes <= overstayGraceMinutes(card)) return null;
+
+  const stayed = quotePrice(card, { start_time: booking.start_time, end_time: booking.checked_out_at }).total;
+  const booked = quotePrice(card, booking).total;
+  const base = roundMoney(stayed - booked);
+  if (base <= 0) return null;
+
+  const tax = roundMoney(base * TAX_RATE);
+  return {
+    overstay_minutes: minutes,
+    base_amount: base,
+    tax_amount: tax,
+    amount: roundMoney(base + tax),
+    description: translate(DEFAULT_LANGUAGE, 'charges.overstay', { duration: formatDuration(minutes) }),
+  };
+};
+
+// Tells both parties about a new overstay charge.
+export const overstayNotifications = (
+  booking: Pick<Booking, 'id' | 'guest_id' | 'host_id'>,
+  charge: Pick<BookingCharge, 'id' | 'amount' | 'currency' | 'overstay_minutes'>,
+  spotTitle: string
+): NewNotification[] => {
+  const metadata = { booking_id: booking.id, charge_id: charge.id };
+  const params = {
+    spot: spotTitle,
+    duration: charge.overstay_minutes ?? 0,
+    amount: formatMoney(charge.amount, charge.currency),
+  };
+  return [
+    {
+      user_id: booking.guest_id,
+      ...notificationContent({ key: 'overstayCharged', params }, metadata),
+      type: 'booking_reminder',
+      action_url: '/bookings',
+    },
+    {
+      user_id: booking.host_id,
+      ...notificationContent({ key: 'overstayChargedHost', params }, metadata),
+      type: 'owner_notification',
+      action_url: '/admin/bookings',
+    },
+  ];
+};
+
+// When a car still in the spot starts running up an overstay fee.
+export const overstayReminderTime = (
+  booking: Pick<Booking, 'end_time'>,
+  spot: Pick<ParkingSpot, 'overstay_grace_minutes'>
+) => new Date(new Date(booking.end_time).getTime() + overstayGraceMinutes(spot) * 60_000).toISOString();
+
+// Sent once by the reminder job when a checked-in car passes the grace period.
+export const overstayReminders = (
+  booking: Pick<Booking, 'id' | 'guest_id' | 'host_id' | 'end_time'>,
+  spot: Pick<ParkingSpot, 'title' | 'overstay_grace_minutes'>
+): NewNotification[] => {
+  const metadata = { booking_id: booking.id, reminder: 'overstay' };
+  const params = { spot: spot.title };
+  const scheduledFor = overstayReminderTime(booking, spot);
+  return [
+    {
+      user_id: booking.guest_id,
+      ...notificationContent({ key: 'overstayApplies', params }, metadata),
+      type: 'booking_reminder',
+      action_url: '/bookings',
+      scheduled_for: scheduledFor,
+    },
+    {
+      user_id: booking.host_id,
+      ...notificationContent({ key: 'guestOverstaying', params }, metadata),
+      type: 'owner_notification',
+      action_url: '/admin/bookings',
+      scheduled_for: scheduledFor,
+    },
+  ];
+};
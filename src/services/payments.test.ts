@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { earnsRevenue } from './payments';
+
+describe('earnsRevenue', () => {
+  it('counts paid bookings and leaves out unpaid and refunded ones', () => {
+    expect(earnsRevenue({ status: 'confirmed', payment_status: 'paid' })).toBe(true);
+    expect(earnsRevenue({ status: 'completed' })).toBe(true);
+    expect(earnsRevenue({ status: 'pending', payment_status: 'pending' })).toBe(false);
+    expect(earnsRevenue({ status: 'cancelled', payment_status: 'refunded' })).toBe(false);
+  });
+
+  it('keeps a cancelled booking the guest got nothing back for', () => {
+    expect(earnsRevenue({ status: 'cancelled', payment_status: 'paid' })).toBe(true);
+  });
+});
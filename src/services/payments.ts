@@ -0,0 +1,149 @@
+import { Booking, BookingCharge, Payment, PaymentDecision } from '../types';
+import { PaymentEvent } from '../payments/provider';
+import { PaymentStateError, PaymentStateProblem } from '../data/errors';
+import { NewNotification } from '../data/repository';
+import { Language, translate } from '../i18n/catalog';
+import { amountsMatch } from './quote';
+import { formatMoney } from './currency';
+import { formatDuration } from './occupancy';
+import { notificationContent } from './notifications';
+
+export const SLIP_FILE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'application/pdf'];
+
+// A slip is reviewed exactly once; after a rejection the guest submits a new one.
+const PAYMENT_TRANSITIONS: Record<Payment['status'], Payment['status'][]> = {
+  submitted: ['approved', 'rejected'],
+  approved: [],
+  rejected: [],
+};
+
+export const canTransitionPayment = (from: Payment['status'], to: Payment['status']) =>
+  PAYMENT_TRANSITIONS[from].includes(to);
+
+// Approval confirms the booking. A rejection leaves it as it was, pending so
+// the guest can pay again unless it has since been cancelled.
+export const bookingStatusAfterReview = (decision: PaymentDecision, status: Booking['status']): Booking['status'] =>
+  decision === 'approved' ? 'confirmed' : status;
+
+// Why a new slip cannot be submitted for the booking, or null when it can.
+export const slipSubmissionProblem = (booking: Booking, payments: Payment[]): PaymentStateProblem | null => {
+  if (payments.some(p => p.status === 'approved')) return 'booking_paid';
+  if (payments.some(p => p.status === 'submitted')) return 'slip_pending';
+  if (booking.status !== 'pending') return 'booking_not_pending';
+  return null;
+};
+
+export const latestPayment = (payments: Payment[]): Payment | null =>
+  payments.reduce<Payment | null>(
+    (latest, p) => (!latest || p.created_at > latest.created_at ? p : latest),
+    null
+  );
+
+// Only payment confirms a booking, so these statuses mean it was paid for.
+const PAID_FOR_STATUSES: Booking['status'][] = ['confirmed', 'checked_in', 'completed'];
+
+// Whether the booking's total counts as the host's revenue. Pending bookings
+// are unpaid and cancelled ones refunded, unless the guest paid and got
+// nothing back.
+export const earnsRevenue = (booking: Pick<Booking, 'status' | 'payment_status'>) =>
+  booking.payment_status === 'paid' || PAID_FOR_STATUSES.includes(booking.status);
+
+export const isPdfSlip = (payment: Payment) =>
+  payment.slip_file_type === 'application/pdf' || /\.pdf($|\?)/i.test(payment.slip_url ?? '');
+
+// Booking changes for a verified card payment event, or null when the event
+// changes nothing (a redelivery, or a decline after the booking was paid).
+// Throws PaymentStateError when a charge cannot be applied to the booking.
+export const bookingUpdateForPaymentEvent = (
+  booking: Booking,
+  event: PaymentEvent
+): Partial<Booking> | null => {
+  const { intent } = event;
+  const sameIntent = booking.payment_intent_id === intent.id;
+
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      if (booking.payment_status === 'paid') {
+        if (sameIntent) return null;
+        throw new PaymentStateError('booking_paid');
+      }
+      if (booking.status !== 'pending') throw new PaymentStateError('booking_not_pending');
+      if (!amountsMatch(intent.amount, booking.total_amount)) {
+        throw new PaymentStateError('amount_mismatch');
+      }
+      return {
+        status: 'confirmed',
+        payment_status: 'paid',
+        payment_provider: event.provider,
+        payment_intent_id: intent.id,
+      };
+    case 'payment_intent.payment_failed':
+      if (booking.payment_status === 'paid' || (booking.payment_status === 'failed' && sameIntent)) return null;
+      return { payment_status: 'failed', payment_provider: event.provider, payment_intent_id: intent.id };
+    case 'charge.refunded': {
+      if (!sameIntent) throw new PaymentStateError('wrong_payment');
+      return {
+        payment_status: amountsMatch(intent.amount_refunded, intent.amount) ? 'refunded' : 'partially_refunded',
+      };
+    }
+  }
+};
+
+// A charge's description in the language, from its kind and minutes. Charges
+// saved without their minutes show their stored English.
+export const chargeDescription = (
+  charge: Pick<BookingCharge, 'kind' | 'description' | 'overstay_minutes' | 'extension_minutes'>,
+  language: Language
+) => {
+  const minutes = charge.kind === 'overstay' ? charge.overstay_minutes : charge.extension_minutes;
+  return minutes == null
+    ? charge.description
+    : translate(language, `charges.${charge.kind}`, { duration: formatDuration(minutes, language) });
+};
+
+// Charge changes for a verified card payment event, or null when the event
+// changes nothing. A decline leaves the charge unpaid for another attempt.
+// Throws PaymentStateError when the payment cannot be applied to the charge.
+export const chargeUpdateForPaymentEvent = (
+  charge: BookingCharge,
+  event: PaymentEvent
+): Partial<BookingCharge> | null => {
+  const { intent } = event;
+
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      if (charge.status === 'paid') {
+        if (charge.payment_intent_id === intent.id) return null;
+        throw new PaymentStateError('charge_paid');
+      }
+      if (charge.status !== 'unpaid') throw new PaymentStateError('charge_waived');
+      if (!amountsMatch(intent.amount, charge.amount)) {
+        throw new PaymentStateError('charge_amount_mismatch');
+      }
+      return {
+        status: 'paid',
+        payment_provider: event.provider,
+        payment_intent_id: intent.id,
+        paid_at: event.created_at,
+      };
+    case 'payment_intent.payment_failed':
+      return null;
+    case 'charge.refunded':
+      if (charge.payment_intent_id !== intent.id) throw new PaymentStateError('wrong_payment');
+      return null;
+  }
+};
+
+// Tells the guest the host accepted their slip.
+export const paymentApprovedNotification = (
+  payment: Pick<Payment, 'id' | 'booking_id' | 'payer_id' | 'amount' | 'currency'>,
+  spotTitle: string
+): NewNotification => ({
+  user_id: payment.payer_id,
+  ...notificationContent(
+    { key: 'paymentApproved', params: { spot: spotTitle, amount: formatMoney(payment.amount, payment.currency) } },
+    { booking_id: payment.booking_id, payment_id: payment.id, event: 'payment_approved' }
+  ),
+  type: 'system',
+  action_url: '/bookings',
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { billableHours, quotePrice, RateCard } from './pricing';
+
+// Spot 1 in the mock data: New York, peak 07:00-10:00 on weekdays.
+const card: RateCard = {
+  hourly_rate: 15,
+  daily_rate: 90,
+  monthly_rate: 1200,
+  peak_hourly_rate: 20,
+  peak_start: '07:00',
+  peak_end: '10:00',
+  weekend_hourly_rate: 10,
+  minimum_duration_minutes: 60,
+  grace_period_minutes: 10,
+  timezone: 'America/New_York',
+};
+
+const codes = (quote: ReturnType<typeof quotePrice>) =>
+  Object.fromEntries(quote.line_items.map(item => [item.code, item.quantity]));
+
+describe('billableHours', () => {
+  it('bills the minimum duration for short stays', () => {
+    expect(billableHours(card, 20)).toBe(1);
+  });
+
+  it('drops a trailing part-hour within the grace period', () => {
+    expect(billableHours(card, 70)).toBe(1);
+    expect(billableHours(card, 71)).toBe(2);
+  });
+
+  it('bills nothing for an empty range', () => {
+    expect(billableHours(card, 0)).toBe(0);
+  });
+});
+
+describe('quotePrice', () => {
+  it('bills weekday hours outside the peak window at the standard rate', () => {
+    // Wednesday 12:00-14:00 in New York (UTC-5 in January).
+    const quote = quotePrice(card, { start_time: '2025-01-15T17:00:00Z', end_time: '2025-01-15T19:00:00Z' });
+    expect(quote.total).toBe(30);
+    expect(codes(quote)).toEqual({ standard: 2 });
+  });
+
+  it('prices each hour by the rate in force when it starts', () => {
+    // Wednesday 06:00-09:00 local: one standard hour, then two peak hours.
+    const quote = quotePrice(card, { start_time: '2025-01-15T11:00:00Z', end_time: '2025-01-15T14:00:00Z' });
+    expect(quote.total).toBe(55);
+    expect(codes(quote)).toEqual({ standard: 1, peak: 2 });
+  });
+
+  it('uses the weekend rate on Saturdays', () => {
+    const quote = quotePrice(card, { start_time: '2025-01-18T17:00:00Z', end_time: '2025-01-18T20:00:00Z' });
+    expect(quote.total).toBe(30);
+    expect(codes(quote)).toEqual({ weekend: 3 });
+  });
+
+  it('reads peak and weekend hours in the spot timezone', () => {
+    // 00:00 UTC on Wednesday is 19:00 Tuesday in New York but 07:00 Wednesday in Bangkok.
+    const range = { start_time: '2025-01-15T00:00:00Z', end_time: '2025-01-15T01:00:00Z' };
+    expect(quotePrice(card, range).total).toBe(15);
+    expect(quotePrice({ ...card, timezone: 'Asia/Bangkok' }, range).total).toBe(20);
+  });
+
+  it('caps each 24 hours at the daily rate', () => {
+    const quote = quotePrice(card, { start_time: '2025-01-15T05:00:00Z', end_time: '2025-01-16T05:00:00Z' });
+    expect(quote.billable_hours).toBe(24);
+    expect(quote.total).toBe(90);
+    expect(codes(quote).daily_cap).toBe(1);
+  });
+
+  it('bills full 30-day periods at the monthly rate', () => {
+    const quote = quotePrice(card, { start_time: '2025-01-01T05:00:00Z', end_time: '2025-01-31T05:00:00Z' });
+    expect(quote.total).toBe(1200);
+    expect(codes(quote)).toEqual({ monthly: 1 });
+  });
+});
@@ -0,0 +1,196 @@
+import { ParkingSpot, PriceLineItem, PriceQuote, TimeRange } from '../types';
+import { DEFAULT_TIMEZONE, zonedWeekdayMinutes } from './schedule';
+import { DEFAULT_LANGUAGE, Language, translate } from '../i18n/catalog';
+
+// The price_booking SQL function mirrors this module so the server persists the
+// same total_amount the booking page shows. Keep the two in step.
+
+export type RateCard = Pick<
+  ParkingSpot,
+  | 'hourly_rate'
+  | 'daily_rate'
+  | 'monthly_rate'
+  | 'weekend_hourly_rate'
+  | 'peak_hourly_rate'
+  | 'peak_start'
+  | 'peak_end'
+  | 'minimum_duration_minutes'
+  | 'grace_period_minutes'
+  | 'timezone'
+>;
+
+// The optional rules a host sets on top of the hourly and daily rates.
+export type PricingRules = Pick<
+  ParkingSpot,
+  | 'monthly_rate'
+  | 'weekend_hourly_rate'
+  | 'peak_hourly_rate'
+  | 'peak_start'
+  | 'peak_end'
+  | 'minimum_duration_minutes'
+  | 'grace_period_minutes'
+  | 'overstay_grace_minutes'
+>;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const HOURS_PER_DAY = 24;
+const HOURS_PER_MONTH = 30 * HOURS_PER_DAY;
+
+const LINE_ITEM_ORDER: PriceLineItem['code'][] = ['monthly', 'standard', 'peak', 'weekend', 'daily_cap', 'monthly_cap'];
+
+const LINE_ITEM_LABELS: Record<PriceLineItem['code'], string> = {
+  monthly: 'Monthly pass',
+  standard: 'Standard rate',
+  peak: 'Peak rate',
+  weekend: 'Weekend rate',
+  daily_cap: 'Daily maximum',
+  monthly_cap: 'Monthly maximum',
+};
+
+export const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const inDailyWindow = (minutes: number, start: string, end: string) => {
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+  return from < to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+};
+
+type HourKind = 'standard' | 'peak' | 'weekend';
+
+// Each billed hour is priced by the rate in force when it starts.
+const hourKind = (card: RateCard, at: Date): HourKind => {
+  const { weekday, minutes } = zonedWeekdayMinutes(at, card.timezone || DEFAULT_TIMEZONE);
+  const isWeekend = weekday === 0 || weekday === 6;
+
+  if (isWeekend && card.weekend_hourly_rate != null) return 'weekend';
+  if (
+    !isWeekend &&
+    card.peak_hourly_rate != null &&
+    card.peak_start &&
+    card.peak_end &&
+    inDailyWindow(minutes, card.peak_start, card.peak_end)
+  ) {
+    return 'peak';
+  }
+  return 'standard';
+};
+
+const hourlyRateFor = (card: RateCard, kind: HourKind) => {
+  switch (kind) {
+    case 'peak':
+      return card.peak_hourly_rate ?? card.hourly_rate;
+    case 'weekend':
+      return card.weekend_hourly_rate ?? card.hourly_rate;
+    default:
+      return card.hourly_rate;
+  }
+};
+
+// Returns a message describing the first problem, or null when the rules are usable.
+export const validatePricingRules = (rules: PricingRules, language: Language = DEFAULT_LANGUAGE): string | null => {
+  if (rules.peak_hourly_rate != null && (!rules.peak_start || !rules.peak_end)) {
+    return translate(language, 'pricing.errors.peakTimes');
+  }
+  if (rules.peak_start && rules.peak_end && rules.peak_start === rules.peak_end) {
+    return translate(language, 'pricing.errors.peakSameTime');
+  }
+  if ((rules.grace_period_minutes ?? 0) >= 60) {
+    return translate(language, 'pricing.errors.graceTooLong');
+  }
+  if ((rules.overstay_grace_minutes ?? 0) < 0) {
+    return translate(language, 'pricing.errors.overstayNegative');
+  }
+  return null;
+};
+
+// Whole hours to bill: the minimum duration applies first, then a trailing
+// part-hour within the grace period is dropped. Anything booked bills at least
+// one hour.
+export const billableHours = (card: RateCard, durationMinutes: number) => {
+  if (durationMinutes <= 0) return 0;
+  const billable = Math.max(durationMinutes, card.minimum_duration_minutes ?? 0);
+  const whole = Math.floor(billable / 60);
+  const remainder = billable - whole * 60;
+  const hours = whole + (remainder > (card.grace_period_minutes ?? 0) ? 1 : 0);
+  return Math.max(hours, 1);
+};
+
+// Prices a booking against a spot's rate card. Full 30-day periods use the
+// monthly rate; the rest is billed hour by hour (standard, peak or weekend)
+// with each 24h block capped at the daily rate and the whole remainder capped
+// at the monthly rate.
+export const quotePrice = (card: RateCard, range: TimeRange): PriceQuote => {
+  const start = new Date(range.start_time).getTime();
+  const durationMinutes = Math.max(0, Math.ceil((new Date(range.end_time).getTime() - start) / MINUTE_MS));
+  const hours = billableHours(card, durationMinutes);
+
+  const items = new Map<PriceLineItem['code'], PriceLineItem>();
+  const add = (code: PriceLineItem['code'], quantity: number, amount: number, unitAmount?: number) => {
+    const existing = items.get(code);
+    if (existing) {
+      existing.quantity += quantity;
+      existing.amount = roundMoney(existing.amount + amount);
+    } else {
+      items.set(code, {
+        code,
+        label: LINE_ITEM_LABELS[code],
+        quantity,
+        unit_amount: unitAmount,
+        amount: roundMoney(amount),
+      });
+    }
+  };
+
+  let cursor = start;
+  let hoursLeft = hours;
+
+  if (card.monthly_rate != null && hours >= HOURS_PER_MONTH) {
+    const months = Math.floor(hours / HOURS_PER_MONTH);
+    add('monthly', months, months * card.monthly_rate, card.monthly_rate);
+    cursor += months * HOURS_PER_MONTH * HOUR_MS;
+    hoursLeft -= months * HOURS_PER_MONTH;
+  }
+
+  let remainderCost = 0;
+  while (hoursLeft > 0) {
+    const blockHours = Math.min(HOURS_PER_DAY, hoursLeft);
+    let blockCost = 0;
+
+    for (let i = 0; i < blockHours; i++) {
+      const kind = hourKind(card, new Date(cursor + i * HOUR_MS));
+      const rate = hourlyRateFor(card, kind);
+      add(kind, 1, rate, rate);
+      blockCost += rate;
+    }
+
+    if (card.daily_rate != null && blockCost > card.daily_rate) {
+      add('daily_cap', 1, card.daily_rate - blockCost);
+      blockCost = card.daily_rate;
+    }
+
+    remainderCost += blockCost;
+    cursor += blockHours * HOUR_MS;
+    hoursLeft -= blockHours;
+  }
+
+  if (card.monthly_rate != null && remainderCost > card.monthly_rate) {
+    add('monthly_cap', 1, card.monthly_rate - remainderCost);
+  }
+
+  const lineItems = [...items.values()].sort(
+    (a, b) => LINE_ITEM_ORDER.indexOf(a.code) - LINE_ITEM_ORDER.indexOf(b.code)
+  );
+
+  return {
+    duration_minutes: durationMinutes,
+    billable_hours: hours,
+    line_items: lineItems,
+    total: roundMoney(lineItems.reduce((sum, item) => sum + item.amount, 0)),
+  };
+};
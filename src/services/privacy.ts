@@ -0,0 +1,23 @@
+import { Profile, UserSettings } from '../types';
+
+// "Jane Doe" -> "Jane D."
+export const shortName = (fullName: string) => {
+  const [first, ...rest] = fullName.trim().split(/\s+/);
+  const last = rest[rest.length - 1];
+  return last ? `${first} ${last[0].toUpperCase()}.` : first;
+};
+
+// A profile as other users see it under its owner's privacy settings.
+// PromptPay ids are only given out for a booking, by getBookingPromptPayId.
+export const publicProfile = (
+  profile: Profile,
+  settings: Pick<UserSettings, 'privacy_mode' | 'show_email'>
+): Profile => {
+  const visible: Profile = {
+    ...profile,
+    email: settings.show_email ? profile.email : '',
+    promptpay_id: undefined,
+  };
+  if (!settings.privacy_mode) return visible;
+  return { ...visible, full_name: shortName(profile.full_name), phone: undefined, avatar_url: undefined, bio: undefined };
+};
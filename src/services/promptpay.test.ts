@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { buildPromptPayPayload, crc16, promptPayTargetType } from './promptpay';
+
+const checksumOf = (payload: string) => payload.slice(-4);
+const withoutChecksum = (payload: string) => payload.slice(0, -4);
+
+describe('crc16', () => {
+  it('matches the CRC-16/CCITT-FALSE check value', () => {
+    expect(crc16('123456789')).toBe('29B1');
+  });
+});
+
+describe('buildPromptPayPayload', () => {
+  it('builds a static QR for a phone number', () => {
+    const payload = buildPromptPayPayload('081-234-5678');
+    expect(withoutChecksum(payload)).toBe(
+      '000201010211' + '2937' + '0016A000000677010111' + '01130066812345678' + '5802TH' + '5303764' + '6304'
+    );
+    expect(checksumOf(payload)).toBe(crc16(withoutChecksum(payload)));
+  });
+
+  it('builds a single-use QR carrying the amount', () => {
+    const payload = buildPromptPayPayload('0812345678', 50);
+    expect(payload).toContain('010212');
+    expect(payload).toContain('540550.00');
+    expect(checksumOf(payload)).toBe(crc16(withoutChecksum(payload)));
+  });
+
+  it('rejects unknown IDs and non-positive amounts', () => {
+    expect(() => buildPromptPayPayload('12345')).toThrow();
+    expect(() => buildPromptPayPayload('0812345678', 0)).toThrow();
+  });
+});
+
+describe('promptPayTargetType', () => {
+  it('tells phone numbers, national IDs and e-wallets apart', () => {
+    expect(promptPayTargetType('0812345678')).toBe('phone');
+    expect(promptPayTargetType('1234567890123')).toBe('national_id');
+    expect(promptPayTargetType('123456789012345')).toBe('ewallet');
+    expect(promptPayTargetType('12345')).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+// PromptPay "Thai QR Payment" payloads, built on the EMVCo merchant-presented
+// QR format: a string of tag/length/value fields closed by a CRC16 checksum.
+
+const PROMPTPAY_AID = 'A000000677010111';
+const THB_CURRENCY_CODE = '764';
+const COUNTRY_CODE = 'TH';
+
+// Sub-tags of the merchant account field (29) that carry the payee.
+const TARGET_TAGS = {
+  phone: '01',
+  national_id: '02',
+  ewallet: '03',
+} as const;
+
+export type PromptPayTargetType = keyof typeof TARGET_TAGS;
+
+export const normalizePromptPayId = (id: string) => id.replace(/\D/g, '');
+
+// Mobile numbers are 10 digits starting with 0 (or already prefixed with the
+// 66 country code), national and tax IDs 13 digits, e-wallet IDs 15 digits.
+export const promptPayTargetType = (id: string): PromptPayTargetType | null => {
+  const digits = normalizePromptPayId(id);
+  if (/^0\d{9}$/.test(digits) || /^66\d{9}$/.test(digits)) return 'phone';
+  if (digits.length === 13) return 'national_id';
+  if (digits.length === 15) return 'ewallet';
+  return null;
+};
+
+export const isValidPromptPayId = (id: string) => promptPayTargetType(id) !== null;
+
+// Phone targets are sent as 13 digits: 0066 followed by the number without
+// its leading zero.
+const formatTarget = (digits: string, type: PromptPayTargetType) => {
+  if (type !== 'phone') return digits;
+  const local = digits.startsWith('66') ? digits.slice(2) : digits.slice(1);
+  return `0066${local}`;
+};
+
+const field = (tag: string, value: string) =>
+  `${tag}${value.length.toString().padStart(2, '0')}${value}`;
+
+// CRC-16/CCITT-FALSE (polynomial 0x1021, initial value 0xFFFF), as EMVCo
+// requires for tag 63.
+export const crc16 = (data: string) => {
+  let crc = 0xffff;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// Payload for a payment to the PromptPay ID. With an amount the QR is
+// single-use ("dynamic") and the payer's banking app fills in the exact
+// amount in baht; without one the payer types it.
+export const buildPromptPayPayload = (id: string, amount?: number) => {
+  const digits = normalizePromptPayId(id);
+  const type = promptPayTargetType(digits);
+  if (!type) throw new Error('Invalid PromptPay ID');
+  if (amount !== undefined && !(amount > 0)) throw new Error('PromptPay amount must be positive');
+
+  const merchantAccount =
+    field('00', PROMPTPAY_AID) + field(TARGET_TAGS[type], formatTarget(digits, type));
+
+  const payload = [
+    field('00', '01'),
+    field('01', amount !== undefined ? '12' : '11'),
+    field('29', merchantAccount),
+    field('58', COUNTRY_CODE),
+    field('53', THB_CURRENCY_CODE),
+    amount !== undefined ? field('54', amount.toFixed(2)) : '',
+  ].join('');
+
+  const unsigned = `${payload}6304`;
+  return unsigned + crc16(unsigned);
+};
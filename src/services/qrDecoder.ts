@@ -0,0 +1,36 @@
+import jsQR from 'jsqr';
+
+// Frames and photos are scaled down to this width before decoding; booking
+// QR codes stay readable and jsQR's cost grows with the pixel count.
+const MAX_DECODE_WIDTH = 1024;
+
+export const decodeImageData = (image: ImageData): string | null =>
+  jsQR(image.data, image.width, image.height, { inversionAttempts: 'attemptBoth' })?.data || null;
+
+// Draws the source onto the canvas at decode size and reads its pixels back.
+export const captureFrame = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  canvas: HTMLCanvasElement
+): ImageData | null => {
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context || !sourceWidth || !sourceHeight) return null;
+
+  const scale = Math.min(1, MAX_DECODE_WIDTH / sourceWidth);
+  canvas.width = Math.round(sourceWidth * scale);
+  canvas.height = Math.round(sourceHeight * scale);
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Text of the first QR code in the image, or null when none can be read.
+export const decodeQRCodeFromFile = async (file: File): Promise<string | null> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const frame = captureFrame(bitmap, bitmap.width, bitmap.height, document.createElement('canvas'));
+    return frame ? decodeImageData(frame) : null;
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { PromoCode } from '../types';
+import { buildBookingQuote, normalizePromoCode, promoCodeProblem, promoDiscount } from './quote';
+
+const range = { start_time: '2025-01-15T17:00:00Z', end_time: '2025-01-15T19:00:00Z' };
+
+const promo = (overrides: Partial<PromoCode> = {}): PromoCode => ({
+  id: 'pc',
+  code: 'WELCOME10',
+  discount_type: 'percent',
+  discount_value: 10,
+  currency: 'USD',
+  max_discount_amount: 20,
+  is_active: true,
+  created_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const noUsage = { total: 0, byGuest: 0 };
+
+describe('buildBookingQuote', () => {
+  it('adds the service fee and VAT on top of the base price', () => {
+    const quote = buildBookingQuote('1', range, 100);
+    expect(quote.service_fee).toBe(5);
+    expect(quote.tax_amount).toBe(7.35);
+    expect(quote.total).toBe(112.35);
+    expect(quote.line_items.map(item => item.code)).toEqual(['base', 'service_fee', 'tax']);
+  });
+
+  it('takes the discount off the base before the fee and VAT', () => {
+    const quote = buildBookingQuote('1', range, 300, promo());
+    expect(quote.discount_amount).toBe(20);
+    expect(quote.service_fee).toBe(14);
+    expect(quote.tax_amount).toBe(20.58);
+    expect(quote.total).toBe(314.58);
+    expect(quote.promo_code).toBe('WELCOME10');
+  });
+});
+
+describe('promoDiscount', () => {
+  it('caps percentage discounts', () => {
+    expect(promoDiscount(promo(), 100)).toBe(10);
+    expect(promoDiscount(promo(), 500)).toBe(20);
+  });
+
+  it('never discounts more than the base price', () => {
+    expect(promoDiscount(promo({ discount_type: 'fixed', discount_value: 5 }), 3)).toBe(3);
+  });
+});
+
+describe('promoCodeProblem', () => {
+  const check = { spotId: '2', currency: 'USD', baseAmount: 50, usage: noUsage, now: new Date('2025-06-01T00:00:00Z') };
+
+  it('accepts a usable code', () => {
+    expect(promoCodeProblem(promo(), check)).toBeNull();
+  });
+
+  it('rejects inactive, early and expired codes', () => {
+    expect(promoCodeProblem(promo({ is_active: false }), check)).toBe('inactive');
+    expect(promoCodeProblem(promo({ starts_at: '2025-07-01T00:00:00Z' }), check)).toBe('not_started');
+    expect(promoCodeProblem(promo({ expires_at: '2025-06-01T00:00:00Z' }), check)).toBe('expired');
+  });
+
+  it('rejects codes for another spot or below the minimum amount', () => {
+    expect(promoCodeProblem(promo({ spot_id: '1' }), check)).toBe('wrong_spot');
+    expect(promoCodeProblem(promo({ min_booking_amount: 60 }), check)).toBe('below_minimum');
+  });
+
+  it('rejects codes for spots priced in another currency', () => {
+    expect(promoCodeProblem(promo({ discount_type: 'fixed', discount_value: 5 }), { ...check, currency: 'THB' }))
+      .toBe('wrong_currency');
+  });
+
+  it('enforces the total and per-guest limits', () => {
+    expect(promoCodeProblem(promo({ max_uses: 3 }), { ...check, usage: { total: 3, byGuest: 0 } })).toBe('usage_limit');
+    expect(promoCodeProblem(promo({ max_uses_per_guest: 1 }), { ...check, usage: { total: 1, byGuest: 1 } })).toBe('guest_limit');
+  });
+});
+
+describe('normalizePromoCode', () => {
+  it('ignores case and surrounding spaces', () => {
+    expect(normalizePromoCode('  welcome10 ')).toBe('WELCOME10');
+  });
+});
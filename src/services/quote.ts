@@ -0,0 +1,86 @@
+import { BookingQuote, PromoCode, QuoteLineItem, TimeRange } from '../types';
+import { PromoCodeProblem } from '../data/errors';
+import { roundMoney } from './pricing';
+
+// Mirrored by compute_booking_quote in SQL. Keep the two in step.
+export const SERVICE_FEE_RATE = 0.05;
+export const TAX_RATE = 0.07;
+
+export interface PromoUsage {
+  total: number;
+  byGuest: number;
+}
+
+export interface PromoCheck {
+  spotId: string;
+  currency: string; // the spot's
+  baseAmount: number;
+  usage: PromoUsage;
+  now?: Date;
+}
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+// Totals are compared to the cent; anything closer is rounding noise.
+export const amountsMatch = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+// Why the code cannot be applied to this booking, or null when it can.
+export const promoCodeProblem = (
+  promo: PromoCode,
+  { spotId, currency, baseAmount, usage, now = new Date() }: PromoCheck
+): PromoCodeProblem | null => {
+  if (!promo.is_active) return 'inactive';
+  if (promo.starts_at && new Date(promo.starts_at) > now) return 'not_started';
+  if (promo.expires_at && new Date(promo.expires_at) <= now) return 'expired';
+  if (promo.spot_id && promo.spot_id !== spotId) return 'wrong_spot';
+  if (promo.currency !== currency) return 'wrong_currency';
+  if (promo.min_booking_amount != null && baseAmount < promo.min_booking_amount) return 'below_minimum';
+  if (promo.max_uses != null && usage.total >= promo.max_uses) return 'usage_limit';
+  if (promo.max_uses_per_guest != null && usage.byGuest >= promo.max_uses_per_guest) return 'guest_limit';
+  return null;
+};
+
+export const promoDiscount = (promo: PromoCode, baseAmount: number) => {
+  const raw = promo.discount_type === 'percent'
+    ? baseAmount * promo.discount_value / 100
+    : promo.discount_value;
+  const capped = promo.max_discount_amount != null ? Math.min(raw, promo.max_discount_amount) : raw;
+  return roundMoney(Math.min(capped, baseAmount));
+};
+
+// Builds the quote from the rate-card price. The discount comes off the base
+// price; the service fee is charged on the discounted price and VAT on
+// everything after that. The promo code must already have been checked.
+export const buildBookingQuote = (
+  spotId: string,
+  range: TimeRange,
+  baseAmount: number,
+  promo?: PromoCode
+): BookingQuote => {
+  const base = roundMoney(baseAmount);
+  const discount = promo ? promoDiscount(promo, base) : 0;
+  const serviceFee = roundMoney((base - discount) * SERVICE_FEE_RATE);
+  const tax = roundMoney((base - discount + serviceFee) * TAX_RATE);
+
+  const lineItems: QuoteLineItem[] = [{ code: 'base', label: 'Parking', amount: base }];
+  if (promo && discount > 0) {
+    lineItems.push({ code: 'discount', label: `Promo ${promo.code}`, amount: -discount });
+  }
+  lineItems.push(
+    { code: 'service_fee', label: 'Service fee', amount: serviceFee },
+    { code: 'tax', label: `VAT (${Math.round(TAX_RATE * 100)}%)`, amount: tax }
+  );
+
+  return {
+    spot_id: spotId,
+    start_time: range.start_time,
+    end_time: range.end_time,
+    promo_code: promo?.code,
+    line_items: lineItems,
+    base_amount: base,
+    discount_amount: discount,
+    service_fee: serviceFee,
+    tax_amount: tax,
+    total: roundMoney(base - discount + serviceFee + tax),
+  };
+};
@@ -0,0 +1,102 @@
+import { Booking, UserNotification } from '../types';
+import { DataChange } from '../data/repository';
+import { isNotificationShown, notificationTime } from './notifications';
+import { DEFAULT_LANGUAGE, Language, LANGUAGES, MessageKey, MessageParams, translate } from '../i18n/catalog';
+import { formatCurrency, formatDateTime } from '../i18n/format';
+
+export interface ChangeToast {
+  title: string;
+  description: string;
+}
+
+// The toast to raise for a change someone else made to the user's bookings,
+// payments or reviews, or null when it is not worth one. Changes the user
+// made themselves are left to the page they made them on.
+export const changeToast = (
+  change: DataChange,
+  userId: string,
+  language: Language = DEFAULT_LANGUAGE
+): ChangeToast | null => {
+  const { locale } = LANGUAGES[language];
+  const t = (key: MessageKey, params?: MessageParams) => translate(language, key, params);
+  const bookingDate = (booking: Pick<Booking, 'start_time'>) => formatDateTime(booking.start_time, locale);
+
+  switch (change.table) {
+    case 'bookings': {
+      const booking = change.record;
+      const isHost = booking.host_id === userId;
+      if (change.type === 'insert') {
+        return isHost && booking.guest_id !== userId
+          ? { title: t('changeToasts.newBooking'), description: t('changeToasts.newBookingText', { date: bookingDate(booking) }) }
+          : null;
+      }
+      if (!change.previous?.status || change.previous.status === booking.status) return null;
+      if (booking.status === 'cancelled' && booking.cancelled_by !== userId) {
+        return isHost
+          ? { title: t('changeToasts.cancelled'), description: t('changeToasts.cancelledByGuest', { date: bookingDate(booking) }) }
+          : { title: t('changeToasts.cancelled'), description: t('changeToasts.cancelledByHost', { date: bookingDate(booking) }) };
+      }
+      if (booking.status === 'confirmed' && !isHost) {
+        return { title: t('changeToasts.confirmed'), description: t('changeToasts.confirmedText', { date: bookingDate(booking) }) };
+      }
+      return null;
+    }
+    case 'payments': {
+      const payment = change.record;
+      if (change.type === 'insert') {
+        return payment.payer_id !== userId
+          ? {
+            title: t('changeToasts.slipReceived'),
+            description: t('changeToasts.slipReceivedText', { amount: formatCurrency(payment.amount, locale, payment.currency) }),
+          }
+          : null;
+      }
+      if (payment.payer_id !== userId || change.previous?.status === payment.status) return null;
+      if (payment.status === 'approved') {
+        return { title: t('changeToasts.paymentApproved'), description: t('changeToasts.paymentApprovedText') };
+      }
+      if (payment.status === 'rejected') {
+        return {
+          title: t('changeToasts.slipRejected'),
+          description: payment.failure_reason ?? t('changeToasts.slipRejectedText'),
+        };
+      }
+      return null;
+    }
+    case 'reviews': {
+      const review = change.record;
+      if (change.type !== 'insert' || review.reviewer_id === userId) return null;
+      return {
+        title: t('changeToasts.newReview'),
+        description: review.comment
+          ? `${review.rating}★ "${review.comment}"`
+          : t('changeToasts.newReviewText', { rating: review.rating }),
+      };
+    }
+    case 'notifications':
+      // Shown under the bell instead.
+      return null;
+  }
+};
+
+// The list with the changed booking added or replaced, newest first. For
+// lists of the user's bookings kept live from the change feed.
+export const applyBookingChange = (bookings: Booking[], change: DataChange): Booking[] => {
+  if (change.table !== 'bookings') return bookings;
+  const record = change.record;
+  const rest = bookings.filter(b => b.id !== record.id);
+  return [record, ...rest].sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+// The list with the changed notification added or replaced, newest first.
+// Reminders not yet sent are left out, as getNotificationsByUser does.
+export const applyNotificationChange = (
+  notifications: UserNotification[],
+  change: DataChange
+): UserNotification[] => {
+  if (change.table !== 'notifications') return notifications;
+  const record = change.record;
+  const rest = notifications.filter(n => n.id !== record.id);
+  if (!isNotificationShown(record)) return rest;
+  return [record, ...rest].sort((a, b) => notificationTime(b).localeCompare(notificationTime(a)));
+};
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { WeeklySchedule } from '../types';
+import {
+  createAlwaysOpenSchedule,
+  createDailySchedule,
+  formatScheduleSummary,
+  fromZonedInputs,
+  getOpenStatus,
+  isOpenAt,
+  isOpenThroughout,
+  nextOpeningAfter,
+  openWindowsBetween,
+  toZonedInputs,
+  validateSchedule,
+  zonedDayRange,
+} from './schedule';
+
+// Spot 3 in the mock data.
+const mall = createDailySchedule('06:00', '23:00', 'America/New_York');
+
+const weekdaysOnly = (open: string, close: string, timezone = 'America/New_York'): WeeklySchedule => {
+  const schedule = createDailySchedule(open, close, timezone);
+  return {
+    ...schedule,
+    days: schedule.days.map(day =>
+      day.day_of_week === 0 || day.day_of_week === 6 ? { ...day, is_open: false, intervals: [] } : day
+    ),
+  };
+};
+
+describe('isOpenAt', () => {
+  it('reads opening hours in the schedule timezone', () => {
+    expect(isOpenAt(mall, new Date('2025-01-15T12:00:00Z'))).toBe(true); // 07:00 in New York
+    expect(isOpenAt(mall, new Date('2025-01-15T10:30:00Z'))).toBe(false); // 05:30 in New York
+  });
+
+  it('follows daylight saving time', () => {
+    // 06:30 in New York is 11:30 UTC in winter and 10:30 UTC in summer.
+    expect(isOpenAt(mall, new Date('2025-07-15T10:30:00Z'))).toBe(true);
+    expect(isOpenAt(mall, new Date('2025-01-15T10:30:00Z'))).toBe(false);
+  });
+
+  it('keeps overnight intervals open past midnight', () => {
+    const bar = createDailySchedule('22:00', '02:00', 'Asia/Bangkok');
+    expect(isOpenAt(bar, new Date('2025-01-15T18:00:00Z'))).toBe(true); // 01:00 in Bangkok
+    expect(isOpenAt(bar, new Date('2025-01-15T20:00:00Z'))).toBe(false); // 03:00 in Bangkok
+  });
+});
+
+describe('isOpenThroughout', () => {
+  it('refuses a range that runs past closing time', () => {
+    expect(isOpenThroughout(mall, { start_time: '2025-01-16T03:00:00Z', end_time: '2025-01-16T04:30:00Z' })).toBe(false);
+    expect(isOpenThroughout(mall, { start_time: '2025-01-16T02:00:00Z', end_time: '2025-01-16T04:00:00Z' })).toBe(true);
+  });
+
+  it('runs across back-to-back days of an always-open schedule', () => {
+    const always = createAlwaysOpenSchedule('America/New_York');
+    expect(isOpenThroughout(always, { start_time: '2025-01-15T00:00:00Z', end_time: '2025-01-20T00:00:00Z' })).toBe(true);
+  });
+});
+
+describe('nextOpeningAfter', () => {
+  it('finds the next opening in the schedule timezone', () => {
+    expect(nextOpeningAfter(mall, new Date('2025-01-15T10:30:00Z'))?.toISOString()).toBe('2025-01-15T11:00:00.000Z');
+  });
+
+  it('skips closed days', () => {
+    // Saturday noon in New York; next opening is Monday 09:00.
+    const office = weekdaysOnly('09:00', '17:00');
+    expect(nextOpeningAfter(office, new Date('2025-01-18T17:00:00Z'))?.toISOString()).toBe('2025-01-20T14:00:00.000Z');
+  });
+});
+
+describe('openWindowsBetween', () => {
+  it('lists each day\'s open window overlapping the range', () => {
+    const windows = openWindowsBetween(mall, { start_time: '2025-01-15T05:00:00Z', end_time: '2025-01-17T05:00:00Z' });
+    expect(windows).toEqual([
+      { start_time: '2025-01-15T11:00:00.000Z', end_time: '2025-01-16T04:00:00.000Z' },
+      { start_time: '2025-01-16T11:00:00.000Z', end_time: '2025-01-17T04:00:00.000Z' },
+    ]);
+  });
+});
+
+describe('getOpenStatus', () => {
+  it('reports when a closed spot opens', () => {
+    const status = getOpenStatus(mall, new Date('2025-01-15T10:30:00Z'));
+    expect(status.isOpen).toBe(false);
+    expect(status.opensAt?.toISOString()).toBe('2025-01-15T11:00:00.000Z');
+  });
+
+  it('reports when an open spot closes', () => {
+    const status = getOpenStatus(mall, new Date('2025-01-15T12:00:00Z'));
+    expect(status.isOpen).toBe(true);
+    expect(status.closesAt?.toISOString()).toBe('2025-01-16T04:00:00.000Z');
+  });
+});
+
+describe('formatScheduleSummary', () => {
+  it('summarizes common schedules', () => {
+    expect(formatScheduleSummary(createAlwaysOpenSchedule('UTC'))).toBe('24/7');
+    expect(formatScheduleSummary(mall)).toBe('Daily 06:00 - 23:00');
+    expect(formatScheduleSummary(weekdaysOnly('09:00', '17:00'))).toBe('Mon-Fri 09:00 - 17:00');
+  });
+
+  it('reads the schedule rather than its labels', () => {
+    const closed = { ...mall, days: mall.days.map(day => ({ ...day, is_open: false })) };
+    expect(formatScheduleSummary(closed)).toBe('Closed');
+    const twoIntervals = createDailySchedule('00:00', '00:00', 'UTC');
+    twoIntervals.days.forEach(day => day.intervals.push({ open: '00:00', close: '00:00' }));
+    expect(formatScheduleSummary(twoIntervals)).toBe('24/7');
+  });
+});
+
+describe('zonedDayRange', () => {
+  it('spans the calendar day in the zone', () => {
+    expect(zonedDayRange('2025-01-15', 'Asia/Bangkok')).toEqual({
+      start_time: '2025-01-14T17:00:00.000Z',
+      end_time: '2025-01-15T17:00:00.000Z',
+    });
+  });
+
+  it('is 23 hours long when the clocks go forward', () => {
+    expect(zonedDayRange('2025-03-09', 'America/New_York')).toEqual({
+      start_time: '2025-03-09T05:00:00.000Z',
+      end_time: '2025-03-10T04:00:00.000Z',
+    });
+  });
+});
+
+describe('zoned inputs', () => {
+  it('reads and writes date and time inputs in the zone', () => {
+    expect(fromZonedInputs('2025-01-15', '08:30', 'Asia/Bangkok').toISOString()).toBe('2025-01-15T01:30:00.000Z');
+    expect(toZonedInputs(new Date('2025-01-14T18:05:00Z'), 'Asia/Bangkok')).toEqual({ date: '2025-01-15', time: '01:05' });
+    expect(toZonedInputs(new Date('2025-01-15T04:00:00Z'), 'America/New_York')).toEqual({ date: '2025-01-14', time: '23:00' });
+  });
+});
+
+describe('validateSchedule', () => {
+  it('rejects unknown timezones and overlapping intervals', () => {
+    expect(validateSchedule({ ...mall, timezone: 'Mars/Olympus' })).not.toBeNull();
+    const overlapping = createDailySchedule('06:00', '12:00', 'UTC');
+    overlapping.days[1].intervals.push({ open: '11:00', close: '14:00' });
+    expect(validateSchedule(overlapping)).not.toBeNull();
+    expect(validateSchedule(mall)).toBeNull();
+  });
+});
@@ -0,0 +1,330 @@
+import { DaySchedule, OpeningInterval, TimeRange, WeeklySchedule } from '../types';
+import { DEFAULT_LANGUAGE, Language, LANGUAGES, translate } from '../i18n/catalog';
+import { formatWeekday } from '../i18n/format';
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+export const SHORT_DAY_NAMES = DAY_NAMES.map(day => day.slice(0, 3));
+
+// Display order for schedules, starting the week on Monday.
+export const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const DEFAULT_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const createAlwaysOpenSchedule = (timezone = DEFAULT_TIMEZONE): WeeklySchedule => ({
+  timezone,
+  days: DAY_NAMES.map((_, day_of_week) => ({
+    day_of_week,
+    is_open: true,
+    intervals: [{ open: '00:00', close: '00:00' }],
+  })),
+});
+
+export const createDailySchedule = (open: string, close: string, timezone = DEFAULT_TIMEZONE): WeeklySchedule => ({
+  timezone,
+  days: DAY_NAMES.map((_, day_of_week) => ({ day_of_week, is_open: true, intervals: [{ open, close }] })),
+});
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const isOvernight = (interval: OpeningInterval) => toMinutes(interval.close) <= toMinutes(interval.open);
+
+// --- Timezone helpers ------------------------------------------------------
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  minutes: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const zonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(date).map(part => [part.type, part.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: SHORT_DAY_NAMES.indexOf(parts.weekday),
+    minutes: (Number(parts.hour) % 24) * 60 + Number(parts.minute),
+  };
+};
+
+// Weekday (0=Sunday) and minutes since midnight of the instant in the zone.
+export const zonedWeekdayMinutes = (date: Date, timeZone: string) => {
+  const p = zonedParts(date, timeZone);
+  return { weekday: p.weekday, minutes: p.minutes };
+};
+
+const offsetAt = (time: number, timeZone: string) => {
+  const wholeMinute = Math.floor(time / 60000) * 60000;
+  const p = zonedParts(new Date(wholeMinute), timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, 0, p.minutes) - wholeMinute;
+};
+
+// Converts a wall-clock time in the given zone to an instant. Day overflow is
+// fine (day 32 rolls into the next month), as Date.UTC normalises it.
+const zonedTimeToDate = (year: number, month: number, day: number, minutes: number, timeZone: string) => {
+  const guess = Date.UTC(year, month - 1, day, 0, minutes);
+  const offset = offsetAt(guess, timeZone);
+  const corrected = offsetAt(guess - offset, timeZone);
+  return new Date(guess - corrected);
+};
+
+// When the calendar day (YYYY-MM-DD) starts and ends in the zone.
+export const zonedDayRange = (date: string, timeZone: string): TimeRange => {
+  const [year, month, day] = date.split('-').map(Number);
+  return {
+    start_time: zonedTimeToDate(year, month, day, 0, timeZone).toISOString(),
+    end_time: zonedTimeToDate(year, month, day + 1, 0, timeZone).toISOString(),
+  };
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// The calendar day (YYYY-MM-DD) and time (HH:MM) of the instant in the zone,
+// as date and time inputs hold them.
+export const toZonedInputs = (date: Date, timeZone: string) => {
+  const p = zonedParts(date, timeZone);
+  return {
+    date: `${p.year}-${pad(p.month)}-${pad(p.day)}`,
+    time: `${pad(Math.floor(p.minutes / 60))}:${pad(p.minutes % 60)}`,
+  };
+};
+
+// The instant at the calendar day (YYYY-MM-DD) and time (HH:MM) in the zone.
+export const fromZonedInputs = (date: string, time: string, timeZone: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return zonedTimeToDate(year, month, day, toMinutes(time), timeZone);
+};
+
+// --- Schedule queries ------------------------------------------------------
+
+interface OpenWindow {
+  start: Date;
+  end: Date;
+}
+
+const windowsForDay = (schedule: WeeklySchedule, p: ZonedParts, dayOffset: number): OpenWindow[] => {
+  const weekday = (p.weekday + dayOffset + 7) % 7;
+  const day = schedule.days.find(d => d.day_of_week === weekday);
+  if (!day?.is_open) return [];
+
+  return day.intervals.map(interval => ({
+    start: zonedTimeToDate(p.year, p.month, p.day + dayOffset, toMinutes(interval.open), schedule.timezone),
+    end: zonedTimeToDate(
+      p.year,
+      p.month,
+      p.day + dayOffset + (isOvernight(interval) ? 1 : 0),
+      toMinutes(interval.close),
+      schedule.timezone
+    ),
+  }));
+};
+
+// The open window containing the instant, checking the previous day too so
+// overnight intervals are found. The latest-closing window wins.
+const windowAt = (schedule: WeeklySchedule, at: Date): OpenWindow | null => {
+  const p = zonedParts(at, schedule.timezone);
+  const matches = [...windowsForDay(schedule, p, 0), ...windowsForDay(schedule, p, -1)]
+    .filter(w => w.start <= at && w.end > at)
+    .sort((a, b) => b.end.getTime() - a.end.getTime());
+  return matches[0] ?? null;
+};
+
+// End of the continuous open period starting at `at`, following back-to-back
+// windows (e.g. consecutive 24h days). Null when closed at `at`. Stops once
+// `until` is reached.
+const openRunEnd = (schedule: WeeklySchedule, at: Date, until: Date): Date | null => {
+  let cursor = at;
+  for (let i = 0; i < 1000 && cursor < until; i++) {
+    const window = windowAt(schedule, cursor);
+    if (!window) return cursor === at ? null : cursor;
+    cursor = window.end;
+  }
+  return cursor;
+};
+
+export const isOpenAt = (schedule: WeeklySchedule, at: Date) => windowAt(schedule, at) !== null;
+
+export const isOpenThroughout = (schedule: WeeklySchedule, range: TimeRange) => {
+  const start = new Date(range.start_time);
+  const end = new Date(range.end_time);
+  const runEnd = openRunEnd(schedule, start, end);
+  return runEnd !== null && runEnd >= end;
+};
+
+export const nextOpeningAfter = (schedule: WeeklySchedule, at: Date): Date | null => {
+  const p = zonedParts(at, schedule.timezone);
+  const starts = [0, 1, 2, 3, 4, 5, 6, 7]
+    .flatMap(offset => windowsForDay(schedule, p, offset))
+    .map(w => w.start)
+    .filter(start => start > at)
+    .sort((a, b) => a.getTime() - b.getTime());
+  return starts[0] ?? null;
+};
+
+// Open windows overlapping the range, earliest first. Back-to-back windows
+// (e.g. consecutive 24h days) are returned separately.
+export const openWindowsBetween = (schedule: WeeklySchedule, range: TimeRange): TimeRange[] => {
+  const from = new Date(range.start_time);
+  const to = new Date(range.end_time);
+  const p = zonedParts(from, schedule.timezone);
+  const dayCount = Math.ceil((to.getTime() - from.getTime()) / DAY_MS) + 1;
+
+  return Array.from({ length: dayCount + 1 }, (_, i) => i - 1)
+    .flatMap(offset => windowsForDay(schedule, p, offset))
+    .filter(w => w.start < to && w.end > from)
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .map(w => ({ start_time: w.start.toISOString(), end_time: w.end.toISOString() }));
+};
+
+export interface OpenStatus {
+  isOpen: boolean;
+  closesAt?: Date; // unset while open when no closing is due within a week
+  opensAt?: Date;
+}
+
+export const getOpenStatus = (schedule: WeeklySchedule, now: Date = new Date()): OpenStatus => {
+  const horizon = new Date(now.getTime() + 7 * DAY_MS);
+  const runEnd = openRunEnd(schedule, now, horizon);
+  if (runEnd) {
+    return { isOpen: true, closesAt: runEnd < horizon ? runEnd : undefined };
+  }
+  return { isOpen: false, opensAt: nextOpeningAfter(schedule, now) ?? undefined };
+};
+
+// --- Formatting and validation ---------------------------------------------
+
+export const formatInTimezone = (date: Date, timeZone: string, withDay = false, locale = 'en-US') =>
+  date.toLocaleString(locale, {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    ...(withDay ? { weekday: 'short' } : {}),
+  });
+
+export const describeOpenStatus = (schedule: WeeklySchedule, language: Language = DEFAULT_LANGUAGE, now: Date = new Date()) => {
+  const status = getOpenStatus(schedule, now);
+  const { locale } = LANGUAGES[language];
+  if (status.isOpen) {
+    return status.closesAt
+      ? translate(language, 'schedule.openUntil', {
+          time: formatInTimezone(status.closesAt, schedule.timezone, status.closesAt.getTime() - now.getTime() >= DAY_MS, locale),
+        })
+      : translate(language, 'schedule.open24Hours');
+  }
+  return status.opensAt
+    ? translate(language, 'schedule.closedUntil', { time: formatInTimezone(status.opensAt, schedule.timezone, true, locale) })
+    : translate(language, 'schedule.closed');
+};
+
+const isClosedDay = (day: DaySchedule | undefined) => !day?.is_open || day.intervals.length === 0;
+
+const isAllDay = (interval: OpeningInterval) => interval.open === '00:00' && interval.close === '00:00';
+
+// The day's hours for display. English is also what the stored summary uses.
+export const formatIntervals = (day: DaySchedule, language: Language = DEFAULT_LANGUAGE) => {
+  if (isClosedDay(day)) return translate(language, 'schedule.closed');
+  return day.intervals
+    .map(i => (isAllDay(i) ? translate(language, 'schedule.open24Hours') : `${i.open} - ${i.close}`))
+    .join(', ');
+};
+
+// Short free-text summary kept in parking_spots.opening_hours for list views.
+export const formatScheduleSummary = (schedule: WeeklySchedule) => {
+  const days = WEEK_ORDER.map(weekday => {
+    const day = schedule.days.find(d => d.day_of_week === weekday);
+    const closed = isClosedDay(day);
+    return {
+      weekday,
+      closed,
+      allDay: !closed && !!day?.intervals.every(isAllDay),
+      label: day && !closed ? formatIntervals(day) : '',
+    };
+  });
+
+  if (days.every(d => d.allDay)) return '24/7';
+  if (days.every(d => d.closed)) return 'Closed';
+
+  const groups: { from: number; to: number; closed: boolean; label: string }[] = [];
+  days.forEach(({ weekday, closed, label }) => {
+    const last = groups[groups.length - 1];
+    if (last && last.closed === closed && last.label === label) {
+      last.to = weekday;
+    } else {
+      groups.push({ from: weekday, to: weekday, closed, label });
+    }
+  });
+
+  if (groups.length === 1) return `Daily ${groups[0].label}`;
+
+  return groups
+    .filter(g => !g.closed)
+    .map(g => {
+      const days = g.from === g.to
+        ? SHORT_DAY_NAMES[g.from]
+        : `${SHORT_DAY_NAMES[g.from]}-${SHORT_DAY_NAMES[g.to]}`;
+      return `${days} ${g.label}`;
+    })
+    .join(', ');
+};
+
+// Returns a user-facing message for the first problem found, or null.
+export const validateSchedule = (schedule: WeeklySchedule, language: Language = DEFAULT_LANGUAGE): string | null => {
+  try {
+    getFormatter(schedule.timezone);
+  } catch {
+    return translate(language, 'schedule.unknownTimezone', { timezone: schedule.timezone });
+  }
+
+  for (const day of schedule.days) {
+    if (!day.is_open) continue;
+    const name = formatWeekday(day.day_of_week, LANGUAGES[language].locale);
+    if (day.intervals.length === 0) return translate(language, 'schedule.noHours', { day: name });
+
+    for (const interval of day.intervals) {
+      if (!TIME_PATTERN.test(interval.open) || !TIME_PATTERN.test(interval.close)) {
+        return translate(language, 'schedule.invalidTime', { day: name });
+      }
+    }
+
+    const sorted = [...day.intervals].sort((a, b) => toMinutes(a.open) - toMinutes(b.open));
+    for (let i = 1; i < sorted.length; i++) {
+      const previous = sorted[i - 1];
+      if (isOvernight(previous) || toMinutes(sorted[i].open) < toMinutes(previous.close)) {
+        return translate(language, 'schedule.overlapping', { day: name });
+      }
+    }
+  }
+
+  return null;
+};
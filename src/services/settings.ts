@@ -0,0 +1,18 @@
+import { UserPreferences, UserSettings } from '../types';
+
+// Mirrored by the column defaults of user_settings in SQL.
+export const DEFAULT_USER_SETTINGS: UserPreferences = {
+  theme: 'light',
+  language: 'en',
+  privacy_mode: false,
+  show_email: true,
+  booking_reminders: true,
+  extension_reminders: true,
+  email_notifications: true,
+  push_notifications: true,
+  channel_preferences: {},
+};
+
+// The saved settings, or the defaults for a user who has not saved any.
+export const withDefaultSettings = (userId: string, saved?: UserSettings | null): UserSettings =>
+  saved ?? { user_id: userId, ...DEFAULT_USER_SETTINGS };
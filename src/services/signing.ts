@@ -0,0 +1,44 @@
+// HMAC-SHA256 helpers on Web Crypto, shared by the mock payment gateway's
+// webhooks and booking access tokens.
+
+const encoder = new TextEncoder();
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+
+const hmacSha256 = async (secret: string, message: string) =>
+  new Uint8Array(await crypto.subtle.sign('HMAC', await importKey(secret), encoder.encode(message)));
+
+const bytesToBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const hmacSha256Hex = async (secret: string, message: string) =>
+  Array.from(await hmacSha256(secret, message), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const hmacSha256Base64Url = async (secret: string, message: string) =>
+  bytesToBase64Url(await hmacSha256(secret, message));
+
+export const base64UrlEncode = (text: string) => bytesToBase64Url(encoder.encode(text));
+
+// Null when the input is not valid base64url-encoded UTF-8.
+export const base64UrlDecode = (encoded: string): string | null => {
+  if (!/^[A-Za-z0-9_-]*$/.test(encoded)) return null;
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    return new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+  } catch {
+    return null;
+  }
+};
+
+// Same-length comparison that does not stop at the first differing character.
+export const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+// Hex string of random bytes, for secrets and nonces.
+export const randomHex = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), byte => byte.toString(16).padStart(2, '0')).join('');
@@ -6,6 +6,8 @@ export interface Profile {
   full_name: string;
   email: string;
   phone?: string;
+  // Hosts: mobile number or national ID that guests pay by PromptPay QR.
+  promptpay_id?: string;
   user_type: 'host' | 'guest' | 'both';
   avatar_url?: string;
   bio?: string;
@@ -22,12 +24,31 @@ export interface ParkingSpot {
   address: string;
   latitude?: number;
   longitude?: number;
+  currency?: string; // ISO 4217 code all the spot's prices are in; DEFAULT_CURRENCY when unset
   hourly_rate: number;
-  daily_rate?: number;
+  daily_rate?: number; // caps the charge for any 24h period
+  monthly_rate?: number; // flat price per 30 days
+  weekend_hourly_rate?: number;
+  peak_hourly_rate?: number; // weekdays between peak_start and peak_end
+  peak_start?: string; // "HH:mm" in the spot's timezone
+  peak_end?: string;
+  minimum_duration_minutes?: number;
+  grace_period_minutes?: number; // trailing minutes not billed as an extra hour
+  overstay_grace_minutes?: number; // minutes past end_time before an overstay fee
+  auto_approve_extensions?: boolean; // extension requests skip the host's review
+  cancellation_policy?: CancellationPolicyName; // flexible when unset
+  cancellation_tiers?: CancellationTier[]; // for the custom policy
+  timezone?: string;
   is_available: boolean;
   images: string[];
   amenities: string[];
   instructions?: string;
+  total_slots: number;
+  available_slots: number;
+  opening_hours?: string;
+  phone?: string;
+  rating?: number;
+  review_count?: number;
   created_at: string;
   updated_at: string;
 }
@@ -37,33 +58,370 @@ export interface Booking {
   spot_id: string;
   guest_id: string;
   host_id: string;
+  vehicle_id?: string;
   start_time: string;
   end_time: string;
   total_amount: number;
-  status: 'pending' | 'confirmed' | 'cancelled' | 'completed';
+  currency?: string; // the spot's currency when booked; charges and payments follow it
+  // Quote components stored alongside the total; see BookingQuote.
+  discount_amount?: number;
+  service_fee?: number;
+  tax_amount?: number;
+  promo_code?: string;
+  // checked_in while the car is in the spot; check-out completes the booking.
+  // Changes only along BOOKING_TRANSITIONS, each recorded as a BookingEvent.
+  status: BookingStatus;
+  // Set by the server from verified payment events (or slip approval), never
+  // by the guest.
+  payment_status?: BookingPaymentStatus;
+  payment_provider?: string;
+  payment_intent_id?: string;
   guest_notes?: string;
   host_notes?: string;
+  qr_code?: string;
+  pin?: string;
+  // When the car actually arrived and left, recorded at the gate.
+  checked_in_at?: string;
+  checked_out_at?: string;
+  extension_count?: number; // approved extensions
+  // Set by cancelBooking. refund_amount is what the guest gets back of
+  // total_amount under the spot's cancellation policy.
+  cancelled_at?: string;
+  cancelled_by?: string;
+  cancellation_reason?: string;
+  refund_amount?: number;
   created_at: string;
   updated_at: string;
 }
 
+export type BookingStatus = 'pending' | 'confirmed' | 'checked_in' | 'cancelled' | 'completed';
+
+// Who moved a booking between statuses. system is the payment gateway and
+// other work no signed-in user triggers.
+export type BookingActorRole = 'guest' | 'host' | 'system';
+
+// One status change in a booking's history. The first event has no
+// from_status and records the booking being made.
+export interface BookingEvent {
+  id: string;
+  booking_id: string;
+  from_status?: BookingStatus;
+  to_status: BookingStatus;
+  actor_role: BookingActorRole;
+  actor_id?: string;
+  reason?: string;
+  created_at: string;
+}
+
+export type CancellationPolicyName = 'flexible' | 'moderate' | 'strict' | 'custom';
+
+// Share of the booking total refunded when a guest cancels at least
+// hours_before the start. The tier with the most notice that the
+// cancellation meets applies; with none, nothing is refunded.
+export interface CancellationTier {
+  hours_before: number;
+  refund_percent: number;
+}
+
+// Host-defined period during which some or all of a spot's slots cannot be
+// booked. Recurring blocks repeat the same start/end every day or week until
+// recurrence_until (inclusive of the occurrence starting then).
+export interface AvailabilityBlock {
+  id: string;
+  spot_id: string;
+  start_time: string;
+  end_time: string;
+  block_type: 'maintenance' | 'blocked' | 'reserved';
+  slots_affected: number;
+  reason?: string;
+  recurrence: 'none' | 'daily' | 'weekly';
+  recurrence_until?: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface PriceLineItem {
+  code: 'monthly' | 'standard' | 'peak' | 'weekend' | 'daily_cap' | 'monthly_cap';
+  label: string;
+  quantity: number;
+  unit_amount?: number; // unset for adjustments such as caps
+  amount: number;
+}
+
+export interface PriceQuote {
+  duration_minutes: number;
+  billable_hours: number;
+  line_items: PriceLineItem[];
+  total: number;
+}
+
+// Money paid for a booking. Slip payments carry the guest's proof of transfer
+// and are approved or rejected by the host; approval confirms the booking.
+export interface Payment {
+  id: string;
+  booking_id: string;
+  payer_id: string;
+  amount: number;
+  currency: string;
+  payment_method: 'slip';
+  status: 'submitted' | 'approved' | 'rejected';
+  slip_url?: string;
+  slip_file_type?: string; // MIME type of the uploaded slip
+  transaction_id?: string; // bank reference, if the guest gave one
+  failure_reason?: string; // set when rejected
+  reviewed_by?: string;
+  reviewed_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PaymentDecision = 'approved' | 'rejected';
+
+export type BookingPaymentStatus = 'pending' | 'paid' | 'failed' | 'partially_refunded' | 'refunded';
+
+// Money owed on a booking on top of its total, raised after the fact. VAT is
+// charged as on the booking itself; extensions also carry the service fee.
+// description is the English; the app shows chargeDescription instead.
+export interface BookingCharge {
+  id: string;
+  booking_id: string;
+  guest_id: string;
+  host_id: string;
+  kind: 'overstay' | 'extension';
+  description: string;
+  base_amount: number;
+  service_fee?: number;
+  tax_amount: number;
+  amount: number; // base_amount + service_fee + tax_amount
+  currency: string;
+  overstay_minutes?: number;
+  extension_id?: string;
+  extension_minutes?: number; // the extension's additional_minutes
+  status: 'unpaid' | 'paid' | 'waived';
+  // Set by the server from verified card payment events.
+  payment_provider?: string;
+  payment_intent_id?: string;
+  paid_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A guest's request to move an active booking's end time later. The price is
+// fixed when requested; approval, by the host or automatically for spots that
+// allow it, extends the booking and raises an extension charge for it.
+export interface BookingExtension {
+  id: string;
+  booking_id: string;
+  guest_id: string;
+  host_id: string;
+  original_end_time: string;
+  new_end_time: string;
+  additional_minutes: number;
+  base_amount: number;
+  service_fee: number;
+  tax_amount: number;
+  additional_cost: number; // total of the ExtensionQuote
+  status: 'pending' | 'approved' | 'rejected';
+  rejection_reason?: string; // the host's
+  rejection_code?: ExtensionRejectionCode; // set when rejected without the host
+  charge_id?: string; // set on approval
+  requested_at: string;
+  processed_at?: string;
+  processed_by?: string;
+}
+
+export type ExtensionDecision = Exclude<BookingExtension['status'], 'pending'>;
+
+// Why an extension was rejected automatically: its booking was cancelled
+// while it awaited the host.
+export type ExtensionRejectionCode = 'booking_cancelled';
+
+// What extending a booking to new_end_time costs: the rate-card price of the
+// longer stay less that of the booked one, plus the service fee and VAT.
+// Promo discounts do not carry over.
+export interface ExtensionQuote {
+  booking_id: string;
+  original_end_time: string;
+  new_end_time: string;
+  additional_minutes: number;
+  line_items: QuoteLineItem[];
+  base_amount: number;
+  service_fee: number;
+  tax_amount: number;
+  total: number;
+  requires_approval: boolean; // false when the spot auto-approves
+}
+
+// In-app message for one user. action_url is an app path to open on click.
+export interface UserNotification {
+  id: string;
+  user_id: string;
+  title: string;
+  message: string;
+  type: 'booking_reminder' | 'extension_reminder' | 'owner_notification' | 'system' | 'promotion';
+  is_read: boolean;
+  action_url?: string;
+  metadata?: Record<string, unknown>;
+  scheduled_for?: string; // reminders: hidden until the reminder job sets sent_at
+  sent_at?: string;
+  created_at: string;
+}
+
+export type DeliveryChannel = 'email' | 'push';
+
+// One attempt to send a notification outside the app. Failed attempts are
+// retried until MAX_DELIVERY_ATTEMPTS.
+export interface NotificationDelivery {
+  id: string;
+  notification_id: string;
+  channel: DeliveryChannel;
+  recipient: string; // email address, or the device's push endpoint
+  status: 'sent' | 'failed';
+  transport: string;
+  provider_message_id?: string;
+  error?: string;
+  created_at: string;
+}
+
+// A browser that accepted Web Push for the user, one row per device. endpoint
+// is the device's address at its push service; p256dh and auth are the keys
+// payloads are encrypted with.
+export interface DevicePushSubscription {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_agent?: string;
+  created_at: string;
+}
+
+// The kinds of notification that go out by email or push as well as in the
+// app; see notificationTopic.
+export type NotificationTopic =
+  | 'booking_confirmed'
+  | 'booking_cancelled'
+  | 'payment_approved'
+  | 'review_request'
+  | 'booking_reminders'
+  | 'extension_updates';
+
+// Channels the user switched off for a topic. Anything not listed is on.
+export type ChannelPreferences = Partial<Record<NotificationTopic, Partial<Record<DeliveryChannel, boolean>>>>;
+
+// A user's preferences (user_settings in db_structure.txt). Users without a
+// saved row get DEFAULT_USER_SETTINGS.
+export interface UserSettings {
+  user_id: string;
+  theme: 'light' | 'dark' | 'system';
+  language: string; // BCP 47 tag, e.g. "en"
+  // Others see only the first name and initial, and no avatar, bio or phone.
+  privacy_mode: boolean;
+  show_email: boolean; // others see the email address
+  booking_reminders: boolean; // before a booking starts, and on overstaying
+  extension_reminders: boolean; // before a booking ends
+  email_notifications: boolean;
+  push_notifications: boolean; // to every device the user subscribed
+  channel_preferences: ChannelPreferences;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type UserPreferences = Omit<UserSettings, 'user_id' | 'created_at' | 'updated_at'>;
+
+// Discount a guest can apply at checkout. Usage counts come from the
+// non-cancelled bookings that carry the code.
+export interface PromoCode {
+  id: string;
+  code: string; // stored upper-case, matched case-insensitively
+  description?: string;
+  discount_type: 'percent' | 'fixed';
+  discount_value: number;
+  currency: string; // of the amounts; the code only applies to spots priced in it
+  max_discount_amount?: number; // caps percent discounts
+  min_booking_amount?: number; // against the rate-card price
+  spot_id?: string; // limits the code to one spot
+  max_uses?: number;
+  max_uses_per_guest?: number;
+  starts_at?: string;
+  expires_at?: string;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface QuoteLineItem {
+  code: 'base' | 'discount' | 'service_fee' | 'tax';
+  label: string;
+  amount: number; // negative for discounts
+}
+
+// What a guest pays for a booking: the rate-card price, less any promo
+// discount, plus the service fee and VAT. Bookings must be stored with this
+// total.
+export interface BookingQuote {
+  spot_id: string;
+  start_time: string;
+  end_time: string;
+  promo_code?: string;
+  line_items: QuoteLineItem[];
+  base_amount: number;
+  discount_amount: number;
+  service_fee: number;
+  tax_amount: number;
+  total: number;
+}
+
 export interface Review {
   id: string;
   booking_id: string;
+  spot_id: string;
   reviewer_id: string;
   reviewee_id: string;
   rating: number;
   comment?: string;
+  reviewer_name?: string;
   is_host_review: boolean;
   created_at: string;
 }
 
 export interface Vehicle {
   id: string;
+  user_id: string;
   make: string;
   model: string;
-  licensePlate: string;
+  license_plate: string;
   color: string;
+  created_at?: string;
+}
+
+// Weekly operating hours. Times are "HH:mm" wall-clock values in the spot's
+// timezone; an interval whose close is not after its open runs past midnight
+// ("22:00"-"06:00"), and "00:00"-"00:00" covers the whole day.
+export interface OpeningInterval {
+  open: string;
+  close: string;
+}
+
+export interface DaySchedule {
+  day_of_week: number; // 0=Sunday, 6=Saturday
+  is_open: boolean;
+  intervals: OpeningInterval[];
+}
+
+export interface WeeklySchedule {
+  timezone: string;
+  days: DaySchedule[];
+}
+
+export interface TimeRange {
+  start_time: string;
+  end_time: string;
+}
+
+// A time range that takes slots away from a spot: an active booking (one
+// slot) or an occurrence of an availability block.
+export interface HeldRange extends TimeRange {
+  slots: number;
 }
 
 // Legacy types for backward compatibility - will be gradually phased out
@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_SOURCE?: 'supabase' | 'memory';
+  readonly VITE_PAYMENT_PROVIDER?: 'mock';
+  readonly VITE_EMAIL_TRANSPORT?: 'capture';
+  readonly VITE_PUSH_TRANSPORT?: 'local';
+  readonly VITE_VAPID_PUBLIC_KEY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,41 @@
+// Emails the notifications in email_outbox. pg_cron calls this every minute
+// (see migration 20251021070000-email-job.sql); run it locally with
+// `supabase functions serve send-email` and POST to it. Needs the
+// RESEND_API_KEY, EMAIL_FROM and APP_URL secrets. The templates and the
+// delivery log are shared with the in-memory app through src/email, so mail
+// from both looks the same; deno.json lets Deno resolve those imports.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { deliverPendingEmails } from '../../../src/email/mailer.ts';
+import { ResendEmailTransport } from '../../../src/email/resendTransport.ts';
+
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+  const transport = new ResendEmailTransport({
+    apiKey: Deno.env.get('RESEND_API_KEY')!,
+    from: Deno.env.get('EMAIL_FROM')!,
+  });
+
+  const repository = {
+    async getEmailOutbox() {
+      const { data, error } = await supabase.rpc('email_outbox');
+      if (error) throw error;
+      return data ?? [];
+    },
+    async recordNotificationDelivery(delivery: Record<string, unknown>) {
+      const { data, error } = await supabase.from('notification_deliveries').insert(delivery).select().single();
+      if (error) throw error;
+      return data;
+    },
+  };
+
+  try {
+    const deliveries = await deliverPendingEmails(repository, transport, Deno.env.get('APP_URL') ?? '');
+    return Response.json({ sent: deliveries.filter(delivery => delivery.status === 'sent').length });
+  } catch (error) {
+    console.error('Error sending emails:', error);
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+});
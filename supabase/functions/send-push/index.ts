@@ -0,0 +1,58 @@
+// Pushes notifications to subscribed devices. pg_cron calls this every
+// minute (see migration 20251021030000-web-push.sql); run it locally with
+// `supabase functions serve send-push` and POST to it. Needs the
+// VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT secrets. The work
+// mirrors deliverPendingPushes in src/push/pusher.ts, whose payload it shares
+// so pushes read in each user's language; deno.json lets Deno resolve it.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import webpush from 'npm:web-push@3';
+import { pushPayload } from '../../../src/push/pusher.ts';
+
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+  webpush.setVapidDetails(
+    Deno.env.get('VAPID_SUBJECT')!,
+    Deno.env.get('VAPID_PUBLIC_KEY')!,
+    Deno.env.get('VAPID_PRIVATE_KEY')!
+  );
+
+  const { data: jobs, error } = await supabase.rpc('push_outbox');
+  if (error) {
+    console.error('Error loading push outbox:', error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  let sent = 0;
+  for (const { notification, subscription, language } of jobs ?? []) {
+    const attempt = {
+      notification_id: notification.id,
+      channel: 'push',
+      recipient: subscription.endpoint,
+      transport: 'web-push',
+    };
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        JSON.stringify(pushPayload(notification, language)),
+        { TTL: 3600 }
+      );
+      await supabase.from('notification_deliveries').insert({ ...attempt, status: 'sent' });
+      sent++;
+    } catch (err) {
+      const statusCode = (err as { statusCode?: number }).statusCode;
+      await supabase.from('notification_deliveries').insert({
+        ...attempt,
+        status: 'failed',
+        error: err instanceof Error ? err.message : String(err),
+      });
+      // The push service no longer knows the device.
+      if (statusCode === 404 || statusCode === 410) {
+        await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+      }
+    }
+  }
+  return Response.json({ sent });
+});
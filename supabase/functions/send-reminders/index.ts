@@ -0,0 +1,19 @@
+// Sends the booking reminders that have come due. pg_cron calls this every
+// minute (see migration 20251021010000-reminder-job.sql); run it locally with
+// `supabase functions serve send-reminders` and POST to it. The work happens
+// in send_due_reminders, which only the service role may call.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const { data, error } = await supabase.rpc('send_due_reminders');
+  if (error) {
+    console.error('Error sending reminders:', error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+  return Response.json({ sent: data });
+});
@@ -0,0 +1,101 @@
+-- Booking capacity enforcement
+--
+-- Bookings in 'pending' or 'confirmed' hold one slot of their spot for their
+-- time range. reserve_booking inserts a booking only if the peak number of
+-- held slots inside the requested range stays below the spot's total_slots.
+
+CREATE INDEX IF NOT EXISTS bookings_spot_time_idx
+  ON public.bookings (spot_id, start_time, end_time)
+  WHERE status IN ('pending', 'confirmed');
+
+-- Time ranges currently holding a slot on a spot. Exposes no guest details, so
+-- guests can see when a spot is busy without reading other guests' bookings.
+CREATE OR REPLACE FUNCTION public.spot_held_ranges(p_spot_id UUID)
+RETURNS TABLE (start_time TIMESTAMP WITH TIME ZONE, end_time TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT b.start_time, b.end_time
+  FROM public.bookings b
+  WHERE b.spot_id = p_spot_id
+    AND b.status IN ('pending', 'confirmed')
+    AND b.end_time > NOW()
+  ORDER BY b.start_time;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reserve_booking(
+  p_spot_id UUID,
+  p_vehicle_id UUID,
+  p_start_time TIMESTAMP WITH TIME ZONE,
+  p_end_time TIMESTAMP WITH TIME ZONE,
+  p_total_amount DECIMAL(10,2),
+  p_qr_code TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_guest_notes TEXT DEFAULT NULL
+)
+RETURNS public.bookings
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_spot public.parking_spots%ROWTYPE;
+  v_peak INTEGER;
+  v_booking public.bookings%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_end_time <= p_start_time THEN
+    RAISE EXCEPTION 'Booking must end after it starts' USING ERRCODE = '22007';
+  END IF;
+
+  -- Lock the spot row so concurrent reservations for it are serialised.
+  SELECT * INTO v_spot FROM public.parking_spots WHERE id = p_spot_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_spot.is_available THEN
+    RAISE EXCEPTION 'Parking spot not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Occupancy only rises when a booking starts, so sampling the range start and
+  -- every overlapping booking start inside the range finds the peak.
+  SELECT COALESCE(MAX(held), 0) INTO v_peak
+  FROM (
+    SELECT (
+      SELECT COUNT(*)
+      FROM public.bookings b
+      WHERE b.spot_id = p_spot_id
+        AND b.status IN ('pending', 'confirmed')
+        AND b.start_time <= t.at
+        AND b.end_time > t.at
+    ) AS held
+    FROM (
+      SELECT p_start_time AS at
+      UNION
+      SELECT b.start_time
+      FROM public.bookings b
+      WHERE b.spot_id = p_spot_id
+        AND b.status IN ('pending', 'confirmed')
+        AND b.start_time > p_start_time
+        AND b.start_time < p_end_time
+    ) t
+  ) samples;
+
+  IF v_peak >= v_spot.total_slots THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'P0409',
+            DETAIL = format('Spot %s has no free slot between %s and %s', p_spot_id, p_start_time, p_end_time);
+  END IF;
+
+  INSERT INTO public.bookings (
+    spot_id, guest_id, host_id, vehicle_id, start_time, end_time,
+    total_amount, status, qr_code, pin, guest_notes
+  )
+  VALUES (
+    p_spot_id, auth.uid(), v_spot.owner_id, p_vehicle_id, p_start_time, p_end_time,
+    p_total_amount, 'pending', p_qr_code, p_pin, p_guest_notes
+  )
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.spot_held_ranges(UUID) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.reserve_booking(UUID, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, DECIMAL, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,145 @@
+-- Weekly operating hours for parking spots
+--
+-- Follows the parking_spot_hours design in db_structure.txt, but allows several
+-- rows per weekday so a spot can open in multiple intervals. A closing_time at
+-- or before opening_time runs past midnight; 00:00-00:00 is open all day. A
+-- spot without rows is treated as always open.
+
+ALTER TABLE public.parking_spots
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Asia/Bangkok';
+
+CREATE TABLE IF NOT EXISTS public.parking_spot_hours (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  spot_id UUID REFERENCES public.parking_spots(id) ON DELETE CASCADE NOT NULL,
+  day_of_week INTEGER NOT NULL CHECK (day_of_week >= 0 AND day_of_week <= 6), -- 0=Sunday, 6=Saturday
+  is_open BOOLEAN NOT NULL DEFAULT TRUE,
+  opening_time TIME,
+  closing_time TIME,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (NOT is_open OR (opening_time IS NOT NULL AND closing_time IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_spot_hours_spot_id ON public.parking_spot_hours(spot_id);
+
+ALTER TABLE public.parking_spot_hours ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view parking spot hours" ON public.parking_spot_hours
+  FOR SELECT USING (true);
+
+CREATE POLICY "Owners can manage their spot hours" ON public.parking_spot_hours
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.parking_spots ps
+      WHERE ps.id = spot_id AND ps.owner_id = auth.uid()
+    )
+  );
+
+-- Replaces a spot's schedule in one transaction. p_hours is an array of
+-- { day_of_week, is_open, opening_time, closing_time } objects.
+CREATE OR REPLACE FUNCTION public.save_spot_schedule(p_spot_id UUID, p_timezone TEXT, p_hours JSONB)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY INVOKER SET search_path = public AS $$
+BEGIN
+  -- Fails with invalid_parameter_value for unknown zone names.
+  PERFORM NOW() AT TIME ZONE p_timezone;
+
+  UPDATE public.parking_spots
+  SET timezone = p_timezone, updated_at = NOW()
+  WHERE id = p_spot_id AND owner_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Parking spot not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM public.parking_spot_hours WHERE spot_id = p_spot_id;
+
+  INSERT INTO public.parking_spot_hours (spot_id, day_of_week, is_open, opening_time, closing_time)
+  SELECT
+    p_spot_id,
+    (h->>'day_of_week')::INTEGER,
+    (h->>'is_open')::BOOLEAN,
+    (h->>'opening_time')::TIME,
+    (h->>'closing_time')::TIME
+  FROM jsonb_array_elements(p_hours) AS h;
+END;
+$$;
+
+-- True when the spot is open for the whole range, following back-to-back
+-- intervals across midnight and across days.
+CREATE OR REPLACE FUNCTION public.spot_is_open_between(
+  p_spot_id UUID,
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_tz TEXT;
+  v_cursor TIMESTAMP WITH TIME ZONE := p_start;
+  v_local_date DATE;
+  v_window_end TIMESTAMP WITH TIME ZONE;
+  v_steps INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.parking_spot_hours WHERE spot_id = p_spot_id) THEN
+    RETURN TRUE;
+  END IF;
+
+  SELECT timezone INTO v_tz FROM public.parking_spots WHERE id = p_spot_id;
+
+  WHILE v_cursor < p_end LOOP
+    v_steps := v_steps + 1;
+    IF v_steps > 1000 THEN
+      RETURN FALSE;
+    END IF;
+
+    v_local_date := (v_cursor AT TIME ZONE v_tz)::DATE;
+
+    -- Windows from today and yesterday (for overnight intervals) that contain
+    -- the cursor; jump to the latest closing one.
+    SELECT MAX(w.close_at) INTO v_window_end
+    FROM (
+      SELECT
+        (d.day + h.opening_time) AT TIME ZONE v_tz AS open_at,
+        ((CASE WHEN h.closing_time <= h.opening_time THEN d.day + 1 ELSE d.day END) + h.closing_time)
+          AT TIME ZONE v_tz AS close_at
+      FROM public.parking_spot_hours h
+      CROSS JOIN (VALUES (v_local_date), (v_local_date - 1)) AS d(day)
+      WHERE h.spot_id = p_spot_id
+        AND h.is_open
+        AND h.day_of_week = EXTRACT(DOW FROM d.day)
+    ) w
+    WHERE w.open_at <= v_cursor AND w.close_at > v_cursor;
+
+    IF v_window_end IS NULL THEN
+      RETURN FALSE;
+    END IF;
+
+    v_cursor := v_window_end;
+  END LOOP;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Rejects bookings outside operating hours whichever path inserts them.
+CREATE OR REPLACE FUNCTION public.enforce_spot_operating_hours()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF NOT public.spot_is_open_between(NEW.spot_id, NEW.start_time, NEW.end_time) THEN
+    RAISE EXCEPTION 'spot_closed'
+      USING ERRCODE = 'P0410',
+            DETAIL = format('Spot %s is closed during part of %s - %s', NEW.spot_id, NEW.start_time, NEW.end_time);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_enforce_operating_hours ON public.bookings;
+CREATE TRIGGER bookings_enforce_operating_hours
+  BEFORE INSERT OR UPDATE OF start_time, end_time ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_spot_operating_hours();
+
+GRANT EXECUTE ON FUNCTION public.save_spot_schedule(UUID, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.spot_is_open_between(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated, anon;
@@ -0,0 +1,188 @@
+-- Availability blocks
+--
+-- Hosts take some or all of a spot's slots out of service for a period
+-- (maintenance, personal use, reserved), optionally repeating daily or weekly.
+-- Block occurrences count against total_slots exactly like bookings do, so
+-- reserve_booking now measures peak occupancy over both.
+
+CREATE TABLE IF NOT EXISTS public.availability_blocks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  spot_id UUID REFERENCES public.parking_spots(id) ON DELETE CASCADE NOT NULL,
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  block_type TEXT NOT NULL CHECK (block_type IN ('maintenance', 'blocked', 'reserved')),
+  slots_affected INTEGER NOT NULL CHECK (slots_affected > 0),
+  reason TEXT,
+  recurrence TEXT NOT NULL DEFAULT 'none' CHECK (recurrence IN ('none', 'daily', 'weekly')),
+  recurrence_until TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES public.profiles(id) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT valid_block_time CHECK (end_time > start_time),
+  -- An occurrence must end before the next one starts.
+  CONSTRAINT valid_block_recurrence CHECK (
+    recurrence = 'none'
+    OR (recurrence = 'daily' AND end_time - start_time <= INTERVAL '1 day')
+    OR (recurrence = 'weekly' AND end_time - start_time <= INTERVAL '7 days')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_availability_blocks_spot_id ON public.availability_blocks(spot_id);
+CREATE INDEX IF NOT EXISTS idx_availability_blocks_time_range ON public.availability_blocks(start_time, end_time);
+
+ALTER TABLE public.availability_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view their spot blocks" ON public.availability_blocks
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.parking_spots ps
+      WHERE ps.id = spot_id AND ps.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owners can manage their spot blocks" ON public.availability_blocks
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.parking_spots ps
+      WHERE ps.id = spot_id AND ps.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    created_by = auth.uid() AND EXISTS (
+      SELECT 1 FROM public.parking_spots ps
+      WHERE ps.id = spot_id AND ps.owner_id = auth.uid()
+    )
+  );
+
+-- Block occurrences overlapping [p_from, p_to). Recurring blocks repeat in
+-- fixed steps from their first start, up to recurrence_until.
+CREATE OR REPLACE FUNCTION public.spot_block_occurrences(
+  p_spot_id UUID,
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (start_time TIMESTAMP WITH TIME ZONE, end_time TIMESTAMP WITH TIME ZONE, slots INTEGER)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT o.occurrence_start, o.occurrence_start + (b.end_time - b.start_time), b.slots_affected
+  FROM public.availability_blocks b
+  CROSS JOIN LATERAL (
+    SELECT b.start_time AS occurrence_start
+    WHERE b.recurrence = 'none'
+    UNION ALL
+    SELECT generate_series(
+      b.start_time,
+      LEAST(COALESCE(b.recurrence_until, p_to), p_to),
+      CASE b.recurrence WHEN 'daily' THEN INTERVAL '1 day' ELSE INTERVAL '7 days' END
+    )
+    WHERE b.recurrence <> 'none'
+  ) o
+  WHERE b.spot_id = p_spot_id
+    AND o.occurrence_start < p_to
+    AND o.occurrence_start + (b.end_time - b.start_time) > p_from;
+$$;
+
+-- Ranges holding slots on a spot: one slot per active booking plus block
+-- occurrences. Exposes no guest or block details.
+DROP FUNCTION IF EXISTS public.spot_held_ranges(UUID);
+
+CREATE OR REPLACE FUNCTION public.spot_held_ranges(
+  p_spot_id UUID,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NOW() + INTERVAL '90 days'
+)
+RETURNS TABLE (start_time TIMESTAMP WITH TIME ZONE, end_time TIMESTAMP WITH TIME ZONE, slots INTEGER)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT h.start_time, h.end_time, h.slots
+  FROM (
+    SELECT b.start_time, b.end_time, 1 AS slots
+    FROM public.bookings b
+    WHERE b.spot_id = p_spot_id
+      AND b.status IN ('pending', 'confirmed')
+      AND b.start_time < p_to
+      AND b.end_time > p_from
+    UNION ALL
+    SELECT o.start_time, o.end_time, o.slots
+    FROM public.spot_block_occurrences(p_spot_id, p_from, p_to) o
+  ) h
+  ORDER BY h.start_time;
+$$;
+
+-- Highest number of slots held at any moment in [p_start, p_end). Occupancy
+-- only rises when a held range starts, so sampling the range start and every
+-- held range start inside it finds the peak.
+CREATE OR REPLACE FUNCTION public.spot_peak_occupancy(
+  p_spot_id UUID,
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE
+)
+RETURNS INTEGER
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  WITH held AS (
+    SELECT * FROM public.spot_held_ranges(p_spot_id, p_start, p_end)
+  )
+  SELECT COALESCE(MAX(samples.total), 0)::INTEGER
+  FROM (
+    SELECT (
+      SELECT COALESCE(SUM(h.slots), 0)
+      FROM held h
+      WHERE h.start_time <= t.at AND h.end_time > t.at
+    ) AS total
+    FROM (
+      SELECT p_start AS at
+      UNION
+      SELECT h.start_time FROM held h WHERE h.start_time > p_start AND h.start_time < p_end
+    ) t
+  ) samples;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reserve_booking(
+  p_spot_id UUID,
+  p_vehicle_id UUID,
+  p_start_time TIMESTAMP WITH TIME ZONE,
+  p_end_time TIMESTAMP WITH TIME ZONE,
+  p_total_amount DECIMAL(10,2),
+  p_qr_code TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_guest_notes TEXT DEFAULT NULL
+)
+RETURNS public.bookings
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_spot public.parking_spots%ROWTYPE;
+  v_booking public.bookings%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_end_time <= p_start_time THEN
+    RAISE EXCEPTION 'Booking must end after it starts' USING ERRCODE = '22007';
+  END IF;
+
+  -- Lock the spot row so concurrent reservations for it are serialised.
+  SELECT * INTO v_spot FROM public.parking_spots WHERE id = p_spot_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_spot.is_available THEN
+    RAISE EXCEPTION 'Parking spot not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF public.spot_peak_occupancy(p_spot_id, p_start_time, p_end_time) >= v_spot.total_slots THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'P0409',
+            DETAIL = format('Spot %s has no free slot between %s and %s', p_spot_id, p_start_time, p_end_time);
+  END IF;
+
+  INSERT INTO public.bookings (
+    spot_id, guest_id, host_id, vehicle_id, start_time, end_time,
+    total_amount, status, qr_code, pin, guest_notes
+  )
+  VALUES (
+    p_spot_id, auth.uid(), v_spot.owner_id, p_vehicle_id, p_start_time, p_end_time,
+    p_total_amount, 'pending', p_qr_code, p_pin, p_guest_notes
+  )
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.spot_held_ranges(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated, anon;
@@ -0,0 +1,170 @@
+-- Pricing engine
+--
+-- Spots get a richer rate card: a monthly rate, weekend and peak hourly rates
+-- (peak applies on weekdays between peak_start and peak_end, which may wrap
+-- past midnight), a minimum billable duration and a grace period for the last
+-- part-hour. price_booking mirrors src/services/pricing.ts and reserve_booking
+-- now prices bookings itself instead of trusting the client's total.
+
+ALTER TABLE public.parking_spots
+  ADD COLUMN IF NOT EXISTS monthly_rate DECIMAL(10,2) CHECK (monthly_rate >= 0),
+  ADD COLUMN IF NOT EXISTS weekend_hourly_rate DECIMAL(10,2) CHECK (weekend_hourly_rate >= 0),
+  ADD COLUMN IF NOT EXISTS peak_hourly_rate DECIMAL(10,2) CHECK (peak_hourly_rate >= 0),
+  ADD COLUMN IF NOT EXISTS peak_start TIME,
+  ADD COLUMN IF NOT EXISTS peak_end TIME,
+  ADD COLUMN IF NOT EXISTS minimum_duration_minutes INTEGER CHECK (minimum_duration_minutes >= 0),
+  ADD COLUMN IF NOT EXISTS grace_period_minutes INTEGER CHECK (grace_period_minutes >= 0 AND grace_period_minutes < 60);
+
+-- Total for parking on a spot over [p_start, p_end). Full 30-day periods use
+-- the monthly rate; the rest is billed per started hour at the rate in force
+-- when the hour starts, each 24h block capped at daily_rate and the whole
+-- remainder capped at monthly_rate.
+CREATE OR REPLACE FUNCTION public.price_booking(
+  p_spot_id UUID,
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE
+)
+RETURNS DECIMAL(10,2)
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_spot public.parking_spots%ROWTYPE;
+  v_minutes INTEGER;
+  v_billable INTEGER;
+  v_hours INTEGER;
+  v_months INTEGER := 0;
+  v_cursor TIMESTAMP WITH TIME ZONE := p_start;
+  v_local TIMESTAMP;
+  v_time TIME;
+  v_is_weekend BOOLEAN;
+  v_rate DECIMAL(10,2);
+  v_block_hours INTEGER;
+  v_block_cost DECIMAL(12,2);
+  v_remainder_cost DECIMAL(12,2) := 0;
+  v_total DECIMAL(12,2) := 0;
+BEGIN
+  SELECT * INTO v_spot FROM public.parking_spots WHERE id = p_spot_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Parking spot not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_minutes := GREATEST(0, CEIL(EXTRACT(EPOCH FROM (p_end - p_start)) / 60))::INTEGER;
+  IF v_minutes = 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_billable := GREATEST(v_minutes, COALESCE(v_spot.minimum_duration_minutes, 0));
+  v_hours := v_billable / 60;
+  IF v_billable % 60 > COALESCE(v_spot.grace_period_minutes, 0) THEN
+    v_hours := v_hours + 1;
+  END IF;
+  v_hours := GREATEST(v_hours, 1);
+
+  IF v_spot.monthly_rate IS NOT NULL AND v_hours >= 720 THEN
+    v_months := v_hours / 720;
+    v_total := v_months * v_spot.monthly_rate;
+    v_cursor := v_cursor + make_interval(hours => v_months * 720);
+    v_hours := v_hours - v_months * 720;
+  END IF;
+
+  WHILE v_hours > 0 LOOP
+    v_block_hours := LEAST(24, v_hours);
+    v_block_cost := 0;
+
+    FOR i IN 0 .. v_block_hours - 1 LOOP
+      v_local := (v_cursor + make_interval(hours => i)) AT TIME ZONE v_spot.timezone;
+      v_time := v_local::TIME;
+      v_is_weekend := EXTRACT(DOW FROM v_local) IN (0, 6);
+
+      IF v_is_weekend AND v_spot.weekend_hourly_rate IS NOT NULL THEN
+        v_rate := v_spot.weekend_hourly_rate;
+      ELSIF NOT v_is_weekend
+        AND v_spot.peak_hourly_rate IS NOT NULL
+        AND v_spot.peak_start IS NOT NULL
+        AND v_spot.peak_end IS NOT NULL
+        AND CASE
+          WHEN v_spot.peak_start < v_spot.peak_end
+            THEN v_time >= v_spot.peak_start AND v_time < v_spot.peak_end
+          ELSE v_time >= v_spot.peak_start OR v_time < v_spot.peak_end
+        END
+      THEN
+        v_rate := v_spot.peak_hourly_rate;
+      ELSE
+        v_rate := v_spot.hourly_rate;
+      END IF;
+
+      v_block_cost := v_block_cost + v_rate;
+    END LOOP;
+
+    IF v_spot.daily_rate IS NOT NULL AND v_block_cost > v_spot.daily_rate THEN
+      v_block_cost := v_spot.daily_rate;
+    END IF;
+
+    v_remainder_cost := v_remainder_cost + v_block_cost;
+    v_cursor := v_cursor + make_interval(hours => v_block_hours);
+    v_hours := v_hours - v_block_hours;
+  END LOOP;
+
+  IF v_spot.monthly_rate IS NOT NULL AND v_remainder_cost > v_spot.monthly_rate THEN
+    v_remainder_cost := v_spot.monthly_rate;
+  END IF;
+
+  RETURN ROUND(v_total + v_remainder_cost, 2);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.reserve_booking(
+  UUID, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, DECIMAL, TEXT, TEXT, TEXT
+);
+
+CREATE OR REPLACE FUNCTION public.reserve_booking(
+  p_spot_id UUID,
+  p_vehicle_id UUID,
+  p_start_time TIMESTAMP WITH TIME ZONE,
+  p_end_time TIMESTAMP WITH TIME ZONE,
+  p_qr_code TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_guest_notes TEXT DEFAULT NULL
+)
+RETURNS public.bookings
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_spot public.parking_spots%ROWTYPE;
+  v_booking public.bookings%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_end_time <= p_start_time THEN
+    RAISE EXCEPTION 'Booking must end after it starts' USING ERRCODE = '22007';
+  END IF;
+
+  -- Lock the spot row so concurrent reservations for it are serialised.
+  SELECT * INTO v_spot FROM public.parking_spots WHERE id = p_spot_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_spot.is_available THEN
+    RAISE EXCEPTION 'Parking spot not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF public.spot_peak_occupancy(p_spot_id, p_start_time, p_end_time) >= v_spot.total_slots THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'P0409',
+            DETAIL = format('Spot %s has no free slot between %s and %s', p_spot_id, p_start_time, p_end_time);
+  END IF;
+
+  INSERT INTO public.bookings (
+    spot_id, guest_id, host_id, vehicle_id, start_time, end_time,
+    total_amount, status, qr_code, pin, guest_notes
+  )
+  VALUES (
+    p_spot_id, auth.uid(), v_spot.owner_id, p_vehicle_id, p_start_time, p_end_time,
+    public.price_booking(p_spot_id, p_start_time, p_end_time), 'pending', p_qr_code, p_pin, p_guest_notes
+  )
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.price_booking(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.reserve_booking(UUID, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,248 @@
+-- Itemized booking quotes and promo codes
+--
+-- A quote is the rate-card price (price_booking), less any promo discount,
+-- plus a 5% service fee on the discounted price and 7% VAT on top. This
+-- mirrors src/services/quote.ts. Every booking insert is re-quoted by a
+-- trigger: total_amount must match to the cent and the quote components are
+-- stored with the booking.
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS service_fee DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS promo_code TEXT;
+
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code)),
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value DECIMAL(10,2) NOT NULL CHECK (discount_value > 0),
+  max_discount_amount DECIMAL(10,2) CHECK (max_discount_amount > 0),
+  min_booking_amount DECIMAL(10,2) CHECK (min_booking_amount >= 0),
+  spot_id UUID REFERENCES public.parking_spots(id) ON DELETE CASCADE,
+  max_uses INTEGER CHECK (max_uses > 0),
+  max_uses_per_guest INTEGER CHECK (max_uses_per_guest > 0),
+  starts_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT valid_percent_discount CHECK (discount_type <> 'percent' OR discount_value <= 100),
+  CONSTRAINT valid_promo_period CHECK (starts_at IS NULL OR expires_at IS NULL OR expires_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bookings_promo_code ON public.bookings(promo_code) WHERE promo_code IS NOT NULL;
+
+-- Guests never read codes directly; they are checked through quote_booking.
+-- Hosts manage codes scoped to their own spots.
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage their spot promo codes" ON public.promo_codes
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.parking_spots ps
+      WHERE ps.id = spot_id AND ps.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.parking_spots ps
+      WHERE ps.id = spot_id AND ps.owner_id = auth.uid()
+    )
+  );
+
+-- Quote for a guest. Raises P0423 with the problem as the message when the
+-- promo code cannot be applied. Usage counts come from non-cancelled bookings
+-- carrying the code.
+CREATE OR REPLACE FUNCTION public.compute_booking_quote(
+  p_spot_id UUID,
+  p_start_time TIMESTAMP WITH TIME ZONE,
+  p_end_time TIMESTAMP WITH TIME ZONE,
+  p_promo_code TEXT,
+  p_guest_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_code TEXT := NULLIF(UPPER(BTRIM(p_promo_code)), '');
+  v_promo public.promo_codes%ROWTYPE;
+  v_base DECIMAL(10,2);
+  v_discount DECIMAL(10,2) := 0;
+  v_fee DECIMAL(10,2);
+  v_tax DECIMAL(10,2);
+  v_uses INTEGER;
+  v_guest_uses INTEGER;
+  v_items JSONB;
+BEGIN
+  v_base := public.price_booking(p_spot_id, p_start_time, p_end_time);
+
+  IF v_code IS NOT NULL THEN
+    SELECT * INTO v_promo FROM public.promo_codes WHERE code = v_code;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'not_found' USING ERRCODE = 'P0423';
+    ELSIF NOT v_promo.is_active THEN
+      RAISE EXCEPTION 'inactive' USING ERRCODE = 'P0423';
+    ELSIF v_promo.starts_at IS NOT NULL AND v_promo.starts_at > NOW() THEN
+      RAISE EXCEPTION 'not_started' USING ERRCODE = 'P0423';
+    ELSIF v_promo.expires_at IS NOT NULL AND v_promo.expires_at <= NOW() THEN
+      RAISE EXCEPTION 'expired' USING ERRCODE = 'P0423';
+    ELSIF v_promo.spot_id IS NOT NULL AND v_promo.spot_id <> p_spot_id THEN
+      RAISE EXCEPTION 'wrong_spot' USING ERRCODE = 'P0423';
+    ELSIF v_promo.min_booking_amount IS NOT NULL AND v_base < v_promo.min_booking_amount THEN
+      RAISE EXCEPTION 'below_minimum' USING ERRCODE = 'P0423';
+    END IF;
+
+    SELECT COUNT(*), COUNT(*) FILTER (WHERE b.guest_id = p_guest_id)
+    INTO v_uses, v_guest_uses
+    FROM public.bookings b
+    WHERE b.promo_code = v_code AND b.status <> 'cancelled';
+
+    IF v_promo.max_uses IS NOT NULL AND v_uses >= v_promo.max_uses THEN
+      RAISE EXCEPTION 'usage_limit' USING ERRCODE = 'P0423';
+    ELSIF v_promo.max_uses_per_guest IS NOT NULL AND v_guest_uses >= v_promo.max_uses_per_guest THEN
+      RAISE EXCEPTION 'guest_limit' USING ERRCODE = 'P0423';
+    END IF;
+
+    v_discount := CASE v_promo.discount_type
+      WHEN 'percent' THEN v_base * v_promo.discount_value / 100
+      ELSE v_promo.discount_value
+    END;
+    v_discount := ROUND(LEAST(v_discount, COALESCE(v_promo.max_discount_amount, v_discount), v_base), 2);
+  END IF;
+
+  v_fee := ROUND((v_base - v_discount) * 0.05, 2);
+  v_tax := ROUND((v_base - v_discount + v_fee) * 0.07, 2);
+
+  v_items := jsonb_build_array(jsonb_build_object('code', 'base', 'label', 'Parking', 'amount', v_base));
+  IF v_discount > 0 THEN
+    v_items := v_items || jsonb_build_object('code', 'discount', 'label', 'Promo ' || v_code, 'amount', -v_discount);
+  END IF;
+  v_items := v_items
+    || jsonb_build_object('code', 'service_fee', 'label', 'Service fee', 'amount', v_fee)
+    || jsonb_build_object('code', 'tax', 'label', 'VAT (7%)', 'amount', v_tax);
+
+  RETURN jsonb_build_object(
+    'spot_id', p_spot_id,
+    'start_time', p_start_time,
+    'end_time', p_end_time,
+    'promo_code', CASE WHEN v_code IS NOT NULL THEN v_code END,
+    'line_items', v_items,
+    'base_amount', v_base,
+    'discount_amount', v_discount,
+    'service_fee', v_fee,
+    'tax_amount', v_tax,
+    'total', v_base - v_discount + v_fee + v_tax
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.compute_booking_quote(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, UUID)
+  FROM PUBLIC, anon, authenticated;
+
+-- Quote for the signed-in guest.
+CREATE OR REPLACE FUNCTION public.quote_booking(
+  p_spot_id UUID,
+  p_start_time TIMESTAMP WITH TIME ZONE,
+  p_end_time TIMESTAMP WITH TIME ZONE,
+  p_promo_code TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT public.compute_booking_quote(p_spot_id, p_start_time, p_end_time, p_promo_code, auth.uid());
+$$;
+
+-- Re-quotes every new booking. The promo row is locked so concurrent
+-- redemptions cannot both pass the usage limit.
+CREATE OR REPLACE FUNCTION public.enforce_booking_quote()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_quote JSONB;
+BEGIN
+  NEW.promo_code := NULLIF(UPPER(BTRIM(NEW.promo_code)), '');
+  IF NEW.promo_code IS NOT NULL THEN
+    PERFORM 1 FROM public.promo_codes WHERE code = NEW.promo_code FOR UPDATE;
+  END IF;
+
+  v_quote := public.compute_booking_quote(NEW.spot_id, NEW.start_time, NEW.end_time, NEW.promo_code, NEW.guest_id);
+
+  IF ABS((v_quote->>'total')::DECIMAL - NEW.total_amount) >= 0.005 THEN
+    RAISE EXCEPTION 'quote_mismatch'
+      USING ERRCODE = 'P0422',
+            DETAIL = v_quote->>'total';
+  END IF;
+
+  NEW.total_amount := (v_quote->>'total')::DECIMAL;
+  NEW.discount_amount := (v_quote->>'discount_amount')::DECIMAL;
+  NEW.service_fee := (v_quote->>'service_fee')::DECIMAL;
+  NEW.tax_amount := (v_quote->>'tax_amount')::DECIMAL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_enforce_quote ON public.bookings;
+CREATE TRIGGER bookings_enforce_quote
+  BEFORE INSERT ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_booking_quote();
+
+-- reserve_booking takes the total the guest agreed to again; the trigger above
+-- rejects it unless it matches the server quote.
+DROP FUNCTION IF EXISTS public.reserve_booking(
+  UUID, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT
+);
+
+CREATE OR REPLACE FUNCTION public.reserve_booking(
+  p_spot_id UUID,
+  p_vehicle_id UUID,
+  p_start_time TIMESTAMP WITH TIME ZONE,
+  p_end_time TIMESTAMP WITH TIME ZONE,
+  p_total_amount DECIMAL(10,2),
+  p_promo_code TEXT DEFAULT NULL,
+  p_qr_code TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_guest_notes TEXT DEFAULT NULL
+)
+RETURNS public.bookings
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_spot public.parking_spots%ROWTYPE;
+  v_booking public.bookings%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_end_time <= p_start_time THEN
+    RAISE EXCEPTION 'Booking must end after it starts' USING ERRCODE = '22007';
+  END IF;
+
+  -- Lock the spot row so concurrent reservations for it are serialised.
+  SELECT * INTO v_spot FROM public.parking_spots WHERE id = p_spot_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_spot.is_available THEN
+    RAISE EXCEPTION 'Parking spot not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF public.spot_peak_occupancy(p_spot_id, p_start_time, p_end_time) >= v_spot.total_slots THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'P0409',
+            DETAIL = format('Spot %s has no free slot between %s and %s', p_spot_id, p_start_time, p_end_time);
+  END IF;
+
+  INSERT INTO public.bookings (
+    spot_id, guest_id, host_id, vehicle_id, start_time, end_time,
+    total_amount, promo_code, status, qr_code, pin, guest_notes
+  )
+  VALUES (
+    p_spot_id, auth.uid(), v_spot.owner_id, p_vehicle_id, p_start_time, p_end_time,
+    p_total_amount, p_promo_code, 'pending', p_qr_code, p_pin, p_guest_notes
+  )
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_booking(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.reserve_booking(UUID, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, DECIMAL, TEXT, TEXT, TEXT, TEXT) TO authenticated;
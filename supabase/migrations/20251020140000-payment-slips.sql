@@ -0,0 +1,136 @@
+-- Payment slip verification
+--
+-- Follows the payments design in db_structure.txt, with the slip workflow's
+-- own states: a guest submits a proof-of-transfer slip for a pending booking
+-- and the host approves or rejects it. Approval confirms the booking; a
+-- rejection leaves it pending so the guest can submit a new slip. Both steps
+-- go through functions so the payment and booking change together.
+
+CREATE TABLE IF NOT EXISTS public.payments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE NOT NULL,
+  payer_id UUID REFERENCES public.profiles(id) NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  payment_method TEXT NOT NULL DEFAULT 'slip' CHECK (payment_method IN ('slip')),
+  status TEXT NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'approved', 'rejected')),
+  slip_url TEXT,
+  slip_file_type TEXT,
+  transaction_id TEXT,
+  failure_reason TEXT,
+  reviewed_by UUID REFERENCES public.profiles(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT slip_has_file CHECK (payment_method <> 'slip' OR slip_url IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_booking_id ON public.payments(booking_id);
+CREATE INDEX IF NOT EXISTS idx_payments_status ON public.payments(status);
+
+-- At most one slip per booking can be waiting for review.
+CREATE UNIQUE INDEX IF NOT EXISTS payments_one_submitted_per_booking
+  ON public.payments(booking_id) WHERE status = 'submitted';
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Guests can view their payments" ON public.payments
+  FOR SELECT USING (payer_id = auth.uid());
+
+CREATE POLICY "Hosts can view payments for their bookings" ON public.payments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.bookings b
+      WHERE b.id = booking_id AND b.host_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.submit_payment_slip(
+  p_booking_id UUID,
+  p_slip_url TEXT,
+  p_slip_file_type TEXT DEFAULT NULL,
+  p_transaction_id TEXT DEFAULT NULL
+)
+RETURNS public.payments
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR v_booking.guest_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.payments WHERE booking_id = p_booking_id AND status = 'approved') THEN
+    RAISE EXCEPTION 'This booking has already been paid' USING ERRCODE = 'P0424';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.payments WHERE booking_id = p_booking_id AND status = 'submitted') THEN
+    RAISE EXCEPTION 'A payment slip for this booking is already awaiting review' USING ERRCODE = 'P0424';
+  END IF;
+
+  IF v_booking.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending bookings can be paid' USING ERRCODE = 'P0424';
+  END IF;
+
+  INSERT INTO public.payments (
+    booking_id, payer_id, amount, payment_method, status, slip_url, slip_file_type, transaction_id
+  )
+  VALUES (
+    p_booking_id, auth.uid(), v_booking.total_amount, 'slip', 'submitted',
+    p_slip_url, p_slip_file_type, p_transaction_id
+  )
+  RETURNING * INTO v_payment;
+
+  RETURN v_payment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_payment(
+  p_payment_id UUID,
+  p_decision TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.payments
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_host_id UUID;
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown review decision %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+  SELECT host_id INTO v_host_id FROM public.bookings WHERE id = v_payment.booking_id FOR UPDATE;
+
+  IF v_payment.id IS NULL OR v_host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Payment not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_payment.status <> 'submitted' THEN
+    RAISE EXCEPTION 'This payment has already been %', v_payment.status USING ERRCODE = 'P0424';
+  END IF;
+
+  UPDATE public.payments
+  SET status = p_decision,
+      failure_reason = CASE WHEN p_decision = 'rejected' THEN p_reason END,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  UPDATE public.bookings
+  SET status = CASE WHEN p_decision = 'approved' THEN 'confirmed' ELSE 'pending' END,
+      updated_at = NOW()
+  WHERE id = v_payment.booking_id;
+
+  RETURN v_payment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_payment_slip(UUID, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_payment(UUID, TEXT, TEXT) TO authenticated;
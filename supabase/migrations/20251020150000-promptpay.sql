@@ -0,0 +1,21 @@
+-- PromptPay payee for hosts
+--
+-- Hosts store the mobile number or national ID their PromptPay account is
+-- registered to. Guests build the payment QR from it, but profiles are only
+-- readable by their owner, so the ID is handed out per booking to that
+-- booking's guest.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS promptpay_id TEXT
+    CHECK (promptpay_id IS NULL OR promptpay_id ~ '^0[0-9]{9}$|^66[0-9]{9}$|^[0-9]{13}$|^[0-9]{15}$');
+
+CREATE OR REPLACE FUNCTION public.booking_promptpay_id(p_booking_id UUID)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT p.promptpay_id
+  FROM public.bookings b
+  JOIN public.profiles p ON p.id = b.host_id
+  WHERE b.id = p_booking_id AND b.guest_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.booking_promptpay_id(UUID) TO authenticated;
@@ -0,0 +1,193 @@
+-- Card payments through a pluggable gateway
+--
+-- Bookings carry their payment state, as in db_structure.txt. The gateway's
+-- signed webhook is the only thing allowed to move it: the webhook server
+-- function verifies the delivery and calls apply_payment_event with the
+-- service role. A successful charge confirms the pending booking; declines
+-- and refunds only change payment_status. Slip approval marks the booking
+-- paid as well.
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS payment_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (payment_status IN ('pending', 'paid', 'failed', 'partially_refunded', 'refunded')),
+  ADD COLUMN IF NOT EXISTS payment_provider TEXT,
+  ADD COLUMN IF NOT EXISTS payment_intent_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_payment_intent_id
+  ON public.bookings(payment_intent_id) WHERE payment_intent_id IS NOT NULL;
+
+UPDATE public.bookings
+SET payment_status = 'paid'
+WHERE id IN (SELECT booking_id FROM public.payments WHERE status = 'approved');
+
+-- Processed webhook events, so redeliveries are applied once. Not readable by
+-- clients.
+CREATE TABLE IF NOT EXISTS public.payment_events (
+  id TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  type TEXT NOT NULL,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE NOT NULL,
+  payload JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.payment_events ENABLE ROW LEVEL SECURITY;
+
+-- Guests and hosts may update their bookings directly, so the payment columns
+-- are pinned for client roles. Deliberately SECURITY INVOKER: inside the
+-- SECURITY DEFINER payment functions current_user is the owner and the
+-- change goes through.
+CREATE OR REPLACE FUNCTION public.protect_booking_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.payment_status := 'pending';
+    NEW.payment_provider := NULL;
+    NEW.payment_intent_id := NULL;
+  ELSIF NEW.payment_status IS DISTINCT FROM OLD.payment_status
+     OR NEW.payment_provider IS DISTINCT FROM OLD.payment_provider
+     OR NEW.payment_intent_id IS DISTINCT FROM OLD.payment_intent_id THEN
+    RAISE EXCEPTION 'Payment details can only be changed by the payment gateway' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_protect_payment ON public.bookings;
+CREATE TRIGGER bookings_protect_payment
+  BEFORE INSERT OR UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.protect_booking_payment();
+
+-- Mirrors bookingUpdateForPaymentEvent in src/services/payments.ts.
+CREATE OR REPLACE FUNCTION public.apply_payment_event(p_event JSONB)
+RETURNS public.bookings
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_intent JSONB := p_event->'intent';
+  v_intent_id TEXT := v_intent->>'id';
+  v_amount DECIMAL := (v_intent->>'amount')::DECIMAL;
+  v_refunded DECIMAL := COALESCE((v_intent->>'amount_refunded')::DECIMAL, 0);
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings
+  WHERE id = (v_intent->>'booking_id')::UUID
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.payment_events WHERE id = p_event->>'id') THEN
+    RETURN v_booking;
+  END IF;
+
+  CASE p_event->>'type'
+    WHEN 'payment_intent.succeeded' THEN
+      IF v_booking.payment_status = 'paid' THEN
+        IF v_booking.payment_intent_id IS DISTINCT FROM v_intent_id THEN
+          RAISE EXCEPTION 'This booking has already been paid' USING ERRCODE = 'P0424';
+        END IF;
+      ELSIF v_booking.status <> 'pending' THEN
+        RAISE EXCEPTION 'Only pending bookings can be paid' USING ERRCODE = 'P0424';
+      ELSIF ABS(v_amount - v_booking.total_amount) >= 0.005 THEN
+        RAISE EXCEPTION 'The payment amount does not match the booking total' USING ERRCODE = 'P0424';
+      ELSE
+        UPDATE public.bookings
+        SET status = 'confirmed',
+            payment_status = 'paid',
+            payment_provider = p_event->>'provider',
+            payment_intent_id = v_intent_id,
+            updated_at = NOW()
+        WHERE id = v_booking.id
+        RETURNING * INTO v_booking;
+      END IF;
+
+    WHEN 'payment_intent.payment_failed' THEN
+      IF v_booking.payment_status <> 'paid' THEN
+        UPDATE public.bookings
+        SET payment_status = 'failed',
+            payment_provider = p_event->>'provider',
+            payment_intent_id = v_intent_id,
+            updated_at = NOW()
+        WHERE id = v_booking.id
+        RETURNING * INTO v_booking;
+      END IF;
+
+    WHEN 'charge.refunded' THEN
+      IF v_booking.payment_intent_id IS DISTINCT FROM v_intent_id THEN
+        RAISE EXCEPTION 'The refund is for a different payment' USING ERRCODE = 'P0424';
+      END IF;
+      UPDATE public.bookings
+      SET payment_status = CASE
+            WHEN ABS(v_refunded - v_amount) < 0.005 THEN 'refunded'
+            ELSE 'partially_refunded'
+          END,
+          updated_at = NOW()
+      WHERE id = v_booking.id
+      RETURNING * INTO v_booking;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown payment event %', p_event->>'type' USING ERRCODE = '22023';
+  END CASE;
+
+  INSERT INTO public.payment_events (id, provider, type, booking_id, payload)
+  VALUES (p_event->>'id', p_event->>'provider', p_event->>'type', v_booking.id, p_event);
+
+  RETURN v_booking;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_payment_event(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_payment_event(JSONB) TO service_role;
+
+-- Unchanged from 20251020140000 except that approval also marks the booking
+-- paid.
+CREATE OR REPLACE FUNCTION public.review_payment(
+  p_payment_id UUID,
+  p_decision TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.payments
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_host_id UUID;
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown review decision %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+  SELECT host_id INTO v_host_id FROM public.bookings WHERE id = v_payment.booking_id FOR UPDATE;
+
+  IF v_payment.id IS NULL OR v_host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Payment not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_payment.status <> 'submitted' THEN
+    RAISE EXCEPTION 'This payment has already been %', v_payment.status USING ERRCODE = 'P0424';
+  END IF;
+
+  UPDATE public.payments
+  SET status = p_decision,
+      failure_reason = CASE WHEN p_decision = 'rejected' THEN p_reason END,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  UPDATE public.bookings
+  SET status = CASE WHEN p_decision = 'approved' THEN 'confirmed' ELSE 'pending' END,
+      payment_status = CASE WHEN p_decision = 'approved' THEN 'paid' ELSE payment_status END,
+      updated_at = NOW()
+  WHERE id = v_payment.booking_id;
+
+  RETURN v_payment;
+END;
+$$;
@@ -0,0 +1,242 @@
+-- Signed booking access
+--
+-- A booking's QR code is an HMAC-signed token naming the booking, its spot
+-- and the window in which it opens the gate, signed on request with a secret
+-- clients never see. PINs are drawn by the server so that no two live
+-- bookings on a spot share one while their access windows overlap. Hosts
+-- check either credential through check_booking_access, which rate-limits
+-- failed attempts per scanner and lets each booking's entry be redeemed once.
+--
+-- Mirrors src/services/access.ts: token format v1.<claims>.<signature>,
+-- 30 minute padding around the booking, 4-digit PINs, 5 failures per
+-- 15 minutes.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS public.app_secrets (
+  name TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+
+ALTER TABLE public.app_secrets ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.app_secrets FROM anon, authenticated;
+
+INSERT INTO public.app_secrets (name, value)
+VALUES ('booking_access', encode(extensions.gen_random_bytes(32), 'hex'))
+ON CONFLICT (name) DO NOTHING;
+
+-- The QR image is rendered from a fresh token, so the stored code is unused.
+ALTER TABLE public.bookings ALTER COLUMN qr_code DROP NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.booking_access_attempts (
+  id BIGSERIAL PRIMARY KEY,
+  scanner_id UUID REFERENCES public.profiles(id) NOT NULL,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('qr', 'pin')),
+  succeeded BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_access_attempts_failures
+  ON public.booking_access_attempts(scanner_id, created_at) WHERE NOT succeeded;
+
+-- One row per booking whose entry has been used; the key is the replay guard.
+CREATE TABLE IF NOT EXISTS public.booking_access_redemptions (
+  booking_id UUID PRIMARY KEY REFERENCES public.bookings(id) ON DELETE CASCADE,
+  redeemed_by UUID REFERENCES public.profiles(id) NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('qr', 'pin')),
+  redeemed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.booking_access_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.booking_access_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.base64url(p_data BYTEA)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT rtrim(translate(replace(encode(p_data, 'base64'), E'\n', ''), '+/', '-_'), '=');
+$$;
+
+CREATE OR REPLACE FUNCTION public.base64url_decode(p_text TEXT)
+RETURNS BYTEA
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT decode(rpad(translate(p_text, '-_', '+/'), (length(p_text) + 3) / 4 * 4, '='), 'base64');
+$$;
+
+CREATE OR REPLACE FUNCTION public.booking_access_signature(p_body TEXT)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions AS $$
+  SELECT public.base64url(hmac(p_body, value, 'sha256'))
+  FROM public.app_secrets
+  WHERE name = 'booking_access';
+$$;
+
+REVOKE ALL ON FUNCTION public.booking_access_signature(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Token for the booking's guest only.
+CREATE OR REPLACE FUNCTION public.booking_access_token(p_booking_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_body TEXT;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND OR v_booking.guest_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_body := 'v1.' || public.base64url(convert_to(jsonb_build_object(
+    'bid', v_booking.id,
+    'sid', v_booking.spot_id,
+    'nbf', floor(extract(epoch FROM v_booking.start_time - INTERVAL '30 minutes'))::BIGINT,
+    'exp', floor(extract(epoch FROM v_booking.end_time + INTERVAL '30 minutes'))::BIGINT
+  )::TEXT, 'UTF8'));
+
+  RETURN v_body || '.' || public.booking_access_signature(v_body);
+END;
+$$;
+
+-- Returns {"booking": ...} or {"problem": <AccessDeniedReason>}. Denials are
+-- returned, not raised, so the failed attempt stays recorded.
+CREATE OR REPLACE FUNCTION public.check_booking_access(
+  p_token TEXT,
+  p_spot_id UUID,
+  p_pin TEXT,
+  p_redeem BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_scanner UUID := auth.uid();
+  v_method TEXT := CASE WHEN p_token IS NOT NULL THEN 'qr' ELSE 'pin' END;
+  v_parts TEXT[];
+  v_claims JSONB;
+  v_booking public.bookings%ROWTYPE;
+  v_not_before TIMESTAMP WITH TIME ZONE;
+  v_expires TIMESTAMP WITH TIME ZONE;
+  v_problem TEXT;
+BEGIN
+  IF v_scanner IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM public.booking_access_attempts
+    WHERE scanner_id = v_scanner AND NOT succeeded AND created_at > NOW() - INTERVAL '15 minutes'
+  ) >= 5 THEN
+    RETURN jsonb_build_object('problem', 'rate_limited');
+  END IF;
+
+  IF p_token IS NOT NULL THEN
+    v_parts := string_to_array(btrim(p_token), '.');
+    IF array_length(v_parts, 1) = 3
+       AND v_parts[1] = 'v1'
+       AND public.booking_access_signature(v_parts[1] || '.' || v_parts[2]) = v_parts[3] THEN
+      v_claims := convert_from(public.base64url_decode(v_parts[2]), 'UTF8')::JSONB;
+    END IF;
+
+    IF v_claims IS NULL THEN
+      v_problem := 'invalid';
+    ELSE
+      SELECT * INTO v_booking FROM public.bookings WHERE id = (v_claims->>'bid')::UUID FOR UPDATE;
+      v_not_before := to_timestamp((v_claims->>'nbf')::BIGINT);
+      v_expires := to_timestamp((v_claims->>'exp')::BIGINT);
+    END IF;
+  ELSE
+    -- PINs repeat across time, so prefer the live booking whose window is open.
+    SELECT * INTO v_booking FROM public.bookings
+    WHERE spot_id = p_spot_id AND pin = p_pin AND status IN ('pending', 'confirmed')
+    ORDER BY (NOW() >= start_time - INTERVAL '30 minutes' AND NOW() < end_time + INTERVAL '30 minutes') DESC,
+             start_time
+    LIMIT 1
+    FOR UPDATE;
+    v_not_before := v_booking.start_time - INTERVAL '30 minutes';
+    v_expires := v_booking.end_time + INTERVAL '30 minutes';
+  END IF;
+
+  IF v_problem IS NULL THEN
+    v_problem := CASE
+      WHEN v_booking.id IS NULL OR v_booking.host_id <> v_scanner THEN 'not_found'
+      WHEN v_claims IS NOT NULL AND v_claims->>'sid' <> v_booking.spot_id::TEXT THEN 'invalid'
+      WHEN v_booking.status IN ('cancelled', 'completed') THEN 'inactive'
+      WHEN NOW() < v_not_before THEN 'not_yet_valid'
+      WHEN NOW() >= v_expires THEN 'expired'
+      WHEN EXISTS (SELECT 1 FROM public.booking_access_redemptions WHERE booking_id = v_booking.id) THEN 'already_used'
+    END;
+  END IF;
+
+  INSERT INTO public.booking_access_attempts (scanner_id, booking_id, method, succeeded)
+  VALUES (v_scanner, CASE WHEN v_booking.host_id = v_scanner THEN v_booking.id END, v_method, v_problem IS NULL);
+
+  IF v_problem IS NOT NULL THEN
+    RETURN jsonb_build_object('problem', v_problem);
+  END IF;
+
+  IF p_redeem THEN
+    INSERT INTO public.booking_access_redemptions (booking_id, redeemed_by, method)
+    VALUES (v_booking.id, v_scanner, v_method);
+  END IF;
+
+  RETURN jsonb_build_object('booking', to_jsonb(v_booking));
+END;
+$$;
+
+-- Draws the PIN for every new booking; a client-supplied PIN or QR code is
+-- ignored. The spot row is locked so concurrent inserts cannot draw the same
+-- PIN.
+CREATE OR REPLACE FUNCTION public.assign_booking_pin()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions AS $$
+DECLARE
+  v_attempts INTEGER := 0;
+BEGIN
+  PERFORM 1 FROM public.parking_spots WHERE id = NEW.spot_id FOR UPDATE;
+
+  NEW.qr_code := NULL;
+  LOOP
+    NEW.pin := lpad(((('x' || encode(gen_random_bytes(4), 'hex'))::BIT(32)::BIGINT) % 10000)::TEXT, 4, '0');
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM public.bookings b
+      WHERE b.spot_id = NEW.spot_id
+        AND b.pin = NEW.pin
+        AND b.status IN ('pending', 'confirmed')
+        AND b.start_time - INTERVAL '30 minutes' < NEW.end_time + INTERVAL '30 minutes'
+        AND NEW.start_time - INTERVAL '30 minutes' < b.end_time + INTERVAL '30 minutes'
+    );
+    v_attempts := v_attempts + 1;
+    IF v_attempts >= 1000 THEN
+      RAISE EXCEPTION 'No free PIN for this spot and time' USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_assign_pin ON public.bookings;
+CREATE TRIGGER bookings_assign_pin
+  BEFORE INSERT ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.assign_booking_pin();
+
+-- Like protect_booking_payment: SECURITY INVOKER so client roles are seen.
+CREATE OR REPLACE FUNCTION public.protect_booking_access()
+RETURNS TRIGGER
+LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated')
+     AND (NEW.pin IS DISTINCT FROM OLD.pin OR NEW.qr_code IS DISTINCT FROM OLD.qr_code) THEN
+    RAISE EXCEPTION 'Booking access codes cannot be changed' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_protect_access ON public.bookings;
+CREATE TRIGGER bookings_protect_access
+  BEFORE UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.protect_booking_access();
+
+GRANT EXECUTE ON FUNCTION public.booking_access_token(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.check_booking_access(TEXT, UUID, TEXT, BOOLEAN) TO authenticated;
@@ -0,0 +1,239 @@
+-- Booking check-in and check-out
+--
+-- A booking is checked_in while the car is actually in the spot. Redeeming
+-- the booking's QR code or PIN at the gate checks it in; check_out_booking
+-- completes it. Both stamp the real arrival and departure times so overstays
+-- past end_time can be seen. A checked-in booking keeps holding its slot and
+-- its PIN, and its credential keeps verifying after the window closes so the
+-- car can always leave.
+--
+-- Mirrors src/services/occupancy.ts.
+
+-- The initial schema allowed 'active' but not the 'confirmed' status the app
+-- has always written.
+UPDATE public.bookings SET status = 'confirmed' WHERE status = 'active';
+
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_status_check
+    CHECK (status IN ('pending', 'confirmed', 'checked_in', 'completed', 'cancelled'));
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS checked_out_at TIMESTAMP WITH TIME ZONE;
+
+-- Overstaying cars, for the host's booking list.
+CREATE INDEX IF NOT EXISTS idx_bookings_checked_in
+  ON public.bookings (host_id, end_time) WHERE status = 'checked_in';
+
+DROP INDEX IF EXISTS public.bookings_spot_time_idx;
+CREATE INDEX bookings_spot_time_idx
+  ON public.bookings (spot_id, start_time, end_time)
+  WHERE status IN ('pending', 'confirmed', 'checked_in');
+
+CREATE OR REPLACE FUNCTION public.spot_held_ranges(
+  p_spot_id UUID,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NOW() + INTERVAL '90 days'
+)
+RETURNS TABLE (start_time TIMESTAMP WITH TIME ZONE, end_time TIMESTAMP WITH TIME ZONE, slots INTEGER)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT h.start_time, h.end_time, h.slots
+  FROM (
+    SELECT b.start_time, b.end_time, 1 AS slots
+    FROM public.bookings b
+    WHERE b.spot_id = p_spot_id
+      AND b.status IN ('pending', 'confirmed', 'checked_in')
+      AND b.start_time < p_to
+      AND b.end_time > p_from
+    UNION ALL
+    SELECT o.start_time, o.end_time, o.slots
+    FROM public.spot_block_occurrences(p_spot_id, p_from, p_to) o
+  ) h
+  ORDER BY h.start_time;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_booking_pin()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions AS $$
+DECLARE
+  v_attempts INTEGER := 0;
+BEGIN
+  PERFORM 1 FROM public.parking_spots WHERE id = NEW.spot_id FOR UPDATE;
+
+  NEW.qr_code := NULL;
+  LOOP
+    NEW.pin := lpad(((('x' || encode(gen_random_bytes(4), 'hex'))::BIT(32)::BIGINT) % 10000)::TEXT, 4, '0');
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM public.bookings b
+      WHERE b.spot_id = NEW.spot_id
+        AND b.pin = NEW.pin
+        AND b.status IN ('pending', 'confirmed', 'checked_in')
+        AND b.start_time - INTERVAL '30 minutes' < NEW.end_time + INTERVAL '30 minutes'
+        AND NEW.start_time - INTERVAL '30 minutes' < b.end_time + INTERVAL '30 minutes'
+    );
+    v_attempts := v_attempts + 1;
+    IF v_attempts >= 1000 THEN
+      RAISE EXCEPTION 'No free PIN for this spot and time' USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- As before, but a checked-in booking always passes (for its exit), and
+-- p_redeem checks the booking in.
+CREATE OR REPLACE FUNCTION public.check_booking_access(
+  p_token TEXT,
+  p_spot_id UUID,
+  p_pin TEXT,
+  p_redeem BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_scanner UUID := auth.uid();
+  v_method TEXT := CASE WHEN p_token IS NOT NULL THEN 'qr' ELSE 'pin' END;
+  v_parts TEXT[];
+  v_claims JSONB;
+  v_booking public.bookings%ROWTYPE;
+  v_not_before TIMESTAMP WITH TIME ZONE;
+  v_expires TIMESTAMP WITH TIME ZONE;
+  v_problem TEXT;
+BEGIN
+  IF v_scanner IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM public.booking_access_attempts
+    WHERE scanner_id = v_scanner AND NOT succeeded AND created_at > NOW() - INTERVAL '15 minutes'
+  ) >= 5 THEN
+    RETURN jsonb_build_object('problem', 'rate_limited');
+  END IF;
+
+  IF p_token IS NOT NULL THEN
+    v_parts := string_to_array(btrim(p_token), '.');
+    IF array_length(v_parts, 1) = 3
+       AND v_parts[1] = 'v1'
+       AND public.booking_access_signature(v_parts[1] || '.' || v_parts[2]) = v_parts[3] THEN
+      v_claims := convert_from(public.base64url_decode(v_parts[2]), 'UTF8')::JSONB;
+    END IF;
+
+    IF v_claims IS NULL THEN
+      v_problem := 'invalid';
+    ELSE
+      SELECT * INTO v_booking FROM public.bookings WHERE id = (v_claims->>'bid')::UUID FOR UPDATE;
+      v_not_before := to_timestamp((v_claims->>'nbf')::BIGINT);
+      v_expires := to_timestamp((v_claims->>'exp')::BIGINT);
+    END IF;
+  ELSE
+    -- PINs repeat across time, so prefer a car that is in the spot, then the
+    -- live booking whose window is open.
+    SELECT * INTO v_booking FROM public.bookings
+    WHERE spot_id = p_spot_id AND pin = p_pin AND status IN ('pending', 'confirmed', 'checked_in')
+    ORDER BY status = 'checked_in' DESC,
+             (NOW() >= start_time - INTERVAL '30 minutes' AND NOW() < end_time + INTERVAL '30 minutes') DESC,
+             start_time
+    LIMIT 1
+    FOR UPDATE;
+    v_not_before := v_booking.start_time - INTERVAL '30 minutes';
+    v_expires := v_booking.end_time + INTERVAL '30 minutes';
+  END IF;
+
+  IF v_problem IS NULL THEN
+    v_problem := CASE
+      WHEN v_booking.id IS NULL OR v_booking.host_id <> v_scanner THEN 'not_found'
+      WHEN v_claims IS NOT NULL AND v_claims->>'sid' <> v_booking.spot_id::TEXT THEN 'invalid'
+      WHEN v_booking.status IN ('cancelled', 'completed') THEN 'inactive'
+      WHEN v_booking.status = 'checked_in' AND p_redeem THEN 'already_used'
+      WHEN v_booking.status = 'checked_in' THEN NULL
+      WHEN NOW() < v_not_before THEN 'not_yet_valid'
+      WHEN NOW() >= v_expires THEN 'expired'
+      WHEN EXISTS (SELECT 1 FROM public.booking_access_redemptions WHERE booking_id = v_booking.id) THEN 'already_used'
+    END;
+  END IF;
+
+  INSERT INTO public.booking_access_attempts (scanner_id, booking_id, method, succeeded)
+  VALUES (v_scanner, CASE WHEN v_booking.host_id = v_scanner THEN v_booking.id END, v_method, v_problem IS NULL);
+
+  IF v_problem IS NOT NULL THEN
+    RETURN jsonb_build_object('problem', v_problem);
+  END IF;
+
+  IF p_redeem THEN
+    INSERT INTO public.booking_access_redemptions (booking_id, redeemed_by, method)
+    VALUES (v_booking.id, v_scanner, v_method);
+
+    UPDATE public.bookings
+    SET status = 'checked_in',
+        checked_in_at = NOW(),
+        updated_at = NOW()
+    WHERE id = v_booking.id
+    RETURNING * INTO v_booking;
+  END IF;
+
+  RETURN jsonb_build_object('booking', to_jsonb(v_booking));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_out_booking(p_booking_id UUID)
+RETURNS public.bookings
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR v_booking.host_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_booking.status <> 'checked_in' THEN
+    RAISE EXCEPTION 'Only a checked-in booking can be checked out'
+      USING ERRCODE = 'P0425', DETAIL = v_booking.status;
+  END IF;
+
+  UPDATE public.bookings
+  SET status = 'completed',
+      checked_out_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+-- Like protect_booking_payment: SECURITY INVOKER so client roles are seen.
+-- Only the gate functions above may move a booking into or out of checked_in.
+CREATE OR REPLACE FUNCTION public.protect_booking_occupancy()
+RETURNS TRIGGER
+LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'checked_in' THEN
+      RAISE EXCEPTION 'Bookings are checked in at the gate' USING ERRCODE = '42501';
+    END IF;
+    NEW.checked_in_at := NULL;
+    NEW.checked_out_at := NULL;
+  ELSIF NEW.checked_in_at IS DISTINCT FROM OLD.checked_in_at
+     OR NEW.checked_out_at IS DISTINCT FROM OLD.checked_out_at
+     OR ((NEW.status = 'checked_in' OR OLD.status = 'checked_in') AND NEW.status IS DISTINCT FROM OLD.status) THEN
+    RAISE EXCEPTION 'Bookings are checked in and out at the gate' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_protect_occupancy ON public.bookings;
+CREATE TRIGGER bookings_protect_occupancy
+  BEFORE INSERT OR UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.protect_booking_occupancy();
+
+GRANT EXECUTE ON FUNCTION public.check_out_booking(UUID) TO authenticated;
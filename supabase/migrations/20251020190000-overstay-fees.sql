@@ -0,0 +1,150 @@
+-- Overstay fees
+--
+-- Checking a car out more than the spot's overstay grace period (15 minutes
+-- unless the host sets one) after the booking ends raises an overstay charge
+-- on the booking. The fee is what the whole actual stay costs on the rate
+-- card less what the booked stay costs, plus VAT, so hourly rules and caps
+-- carry over. Guest and host are both notified. The notifications table
+-- follows db_structure.txt.
+--
+-- Mirrors src/services/overstay.ts.
+
+ALTER TABLE public.parking_spots
+  ADD COLUMN IF NOT EXISTS overstay_grace_minutes INTEGER CHECK (overstay_grace_minutes >= 0);
+
+CREATE TABLE IF NOT EXISTS public.booking_charges (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE NOT NULL,
+  guest_id UUID REFERENCES public.profiles(id) NOT NULL,
+  host_id UUID REFERENCES public.profiles(id) NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('overstay')),
+  description TEXT NOT NULL,
+  base_amount DECIMAL(10,2) NOT NULL CHECK (base_amount >= 0),
+  tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  overstay_minutes INTEGER CHECK (overstay_minutes >= 0),
+  status TEXT NOT NULL DEFAULT 'unpaid' CHECK (status IN ('unpaid', 'paid', 'waived')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_charges_booking_id ON public.booking_charges(booking_id);
+
+ALTER TABLE public.booking_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Guests and hosts can view their booking charges" ON public.booking_charges
+  FOR SELECT USING (guest_id = auth.uid() OR host_id = auth.uid());
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  message TEXT NOT NULL,
+  type TEXT NOT NULL
+    CHECK (type IN ('booking_reminder', 'extension_reminder', 'owner_notification', 'system', 'promotion')),
+  is_read BOOLEAN NOT NULL DEFAULT FALSE,
+  action_url TEXT,
+  metadata JSONB,
+  scheduled_for TIMESTAMP WITH TIME ZONE,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON public.notifications(user_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON public.notifications(user_id, is_read);
+CREATE INDEX IF NOT EXISTS idx_notifications_scheduled ON public.notifications(scheduled_for);
+CREATE INDEX IF NOT EXISTS idx_notifications_type ON public.notifications(type);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notifications" ON public.notifications
+  FOR SELECT USING (user_id = auth.uid());
+
+-- "1h 25m" style, as formatDuration in src/services/occupancy.ts.
+CREATE OR REPLACE FUNCTION public.format_duration(p_minutes INTEGER)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE
+    WHEN p_minutes < 60 THEN p_minutes || 'm'
+    WHEN p_minutes % 60 = 0 THEN (p_minutes / 60) || 'h'
+    ELSE (p_minutes / 60) || 'h ' || (p_minutes % 60) || 'm'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_out_booking(p_booking_id UUID)
+RETURNS public.bookings
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_spot public.parking_spots%ROWTYPE;
+  v_minutes INTEGER;
+  v_base DECIMAL(10,2);
+  v_tax DECIMAL(10,2);
+  v_charge public.booking_charges%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR v_booking.host_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_booking.status <> 'checked_in' THEN
+    RAISE EXCEPTION 'Only a checked-in booking can be checked out'
+      USING ERRCODE = 'P0425', DETAIL = v_booking.status;
+  END IF;
+
+  UPDATE public.bookings
+  SET status = 'completed',
+      checked_out_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  SELECT * INTO v_spot FROM public.parking_spots WHERE id = v_booking.spot_id;
+  v_minutes := GREATEST(0, FLOOR(EXTRACT(EPOCH FROM (v_booking.checked_out_at - v_booking.end_time)) / 60))::INTEGER;
+
+  IF v_minutes > COALESCE(v_spot.overstay_grace_minutes, 15) THEN
+    v_base := public.price_booking(v_spot.id, v_booking.start_time, v_booking.checked_out_at)
+            - public.price_booking(v_spot.id, v_booking.start_time, v_booking.end_time);
+
+    IF v_base > 0 THEN
+      v_tax := ROUND(v_base * 0.07, 2);
+
+      INSERT INTO public.booking_charges (
+        booking_id, guest_id, host_id, kind, description,
+        base_amount, tax_amount, amount, overstay_minutes
+      )
+      VALUES (
+        v_booking.id, v_booking.guest_id, v_booking.host_id, 'overstay',
+        'Overstay of ' || public.format_duration(v_minutes) || ' past the booked end time',
+        v_base, v_tax, v_base + v_tax, v_minutes
+      )
+      RETURNING * INTO v_charge;
+
+      INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+      VALUES
+        (
+          v_booking.guest_id,
+          'Overstay fee added',
+          v_charge.description || ' at ' || v_spot.title || '. An extra charge of $'
+            || to_char(v_charge.amount, 'FM999999990.00') || ' has been added to your booking.',
+          'booking_reminder',
+          '/bookings',
+          jsonb_build_object('booking_id', v_booking.id, 'charge_id', v_charge.id)
+        ),
+        (
+          v_booking.host_id,
+          'Overstay fee charged',
+          v_charge.description || ' at ' || v_spot.title || '. The guest has been charged $'
+            || to_char(v_charge.amount, 'FM999999990.00') || '.',
+          'owner_notification',
+          '/admin/bookings',
+          jsonb_build_object('booking_id', v_booking.id, 'charge_id', v_charge.id)
+        );
+    END IF;
+  END IF;
+
+  RETURN v_booking;
+END;
+$$;
@@ -0,0 +1,537 @@
+-- Booking extensions
+--
+-- Guests ask to move a confirmed or checked-in booking's end time later. The
+-- added time must be within operating hours and have a free slot, and is
+-- priced as the rate-card difference between the longer and the booked stay
+-- plus the service fee and VAT; the price is fixed on the request. Hosts
+-- approve or reject requests, or let a spot approve them automatically.
+-- Approval moves the booking's end and raises an extension charge, which the
+-- guest pays by card like the booking itself. booking_extensions follows
+-- db_structure.txt, with minutes rather than whole hours.
+--
+-- Mirrors src/services/extensions.ts.
+
+ALTER TABLE public.parking_spots
+  ADD COLUMN IF NOT EXISTS auto_approve_extensions BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS extension_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.booking_extensions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE NOT NULL,
+  guest_id UUID REFERENCES public.profiles(id) NOT NULL,
+  host_id UUID REFERENCES public.profiles(id) NOT NULL,
+  original_end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  new_end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  additional_minutes INTEGER NOT NULL CHECK (additional_minutes > 0),
+  base_amount DECIMAL(10,2) NOT NULL CHECK (base_amount >= 0),
+  service_fee DECIMAL(10,2) NOT NULL CHECK (service_fee >= 0),
+  tax_amount DECIMAL(10,2) NOT NULL CHECK (tax_amount >= 0),
+  additional_cost DECIMAL(10,2) NOT NULL CHECK (additional_cost >= 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  rejection_reason TEXT,
+  charge_id UUID,
+  requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  processed_by UUID REFERENCES public.profiles(id),
+  CONSTRAINT valid_extension_time CHECK (new_end_time > original_end_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_extensions_booking_id ON public.booking_extensions(booking_id);
+CREATE INDEX IF NOT EXISTS idx_extensions_status ON public.booking_extensions(status);
+CREATE INDEX IF NOT EXISTS idx_extensions_host_id ON public.booking_extensions(host_id, status);
+
+-- One request at a time per booking.
+CREATE UNIQUE INDEX IF NOT EXISTS booking_extensions_one_pending
+  ON public.booking_extensions(booking_id) WHERE status = 'pending';
+
+ALTER TABLE public.booking_extensions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Guests and hosts can view their booking extensions" ON public.booking_extensions
+  FOR SELECT USING (guest_id = auth.uid() OR host_id = auth.uid());
+
+-- Extension charges, and card payment of any charge.
+ALTER TABLE public.booking_charges DROP CONSTRAINT IF EXISTS booking_charges_kind_check;
+ALTER TABLE public.booking_charges
+  ADD CONSTRAINT booking_charges_kind_check CHECK (kind IN ('overstay', 'extension'));
+
+ALTER TABLE public.booking_charges
+  ADD COLUMN IF NOT EXISTS service_fee DECIMAL(10,2) CHECK (service_fee >= 0),
+  ADD COLUMN IF NOT EXISTS extension_id UUID REFERENCES public.booking_extensions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS payment_provider TEXT,
+  ADD COLUMN IF NOT EXISTS payment_intent_id TEXT,
+  ADD COLUMN IF NOT EXISTS paid_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.booking_extensions
+  ADD CONSTRAINT booking_extensions_charge_id_fkey
+    FOREIGN KEY (charge_id) REFERENCES public.booking_charges(id) ON DELETE SET NULL;
+
+-- Checks the booking can be extended to p_new_end_time and prices it. Shared
+-- by the quote, the request and approval, which lock the booking first.
+CREATE OR REPLACE FUNCTION public.compute_extension_quote(
+  p_booking public.bookings,
+  p_new_end_time TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_spot public.parking_spots%ROWTYPE;
+  v_minutes INTEGER;
+  v_base DECIMAL(10,2);
+  v_fee DECIMAL(10,2);
+  v_tax DECIMAL(10,2);
+BEGIN
+  IF p_booking.status NOT IN ('confirmed', 'checked_in') THEN
+    RAISE EXCEPTION 'Only confirmed or checked-in bookings can be extended'
+      USING ERRCODE = 'P0425', DETAIL = p_booking.status, HINT = p_booking.id::TEXT;
+  END IF;
+
+  IF p_new_end_time IS NULL THEN
+    RAISE EXCEPTION 'Choose a new end time' USING ERRCODE = '22023';
+  ELSIF p_new_end_time <= p_booking.end_time THEN
+    RAISE EXCEPTION 'The new end time must be after the current one' USING ERRCODE = '22023';
+  ELSIF p_new_end_time <= NOW() THEN
+    RAISE EXCEPTION 'The new end time must be in the future' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_spot FROM public.parking_spots WHERE id = p_booking.spot_id;
+
+  v_minutes := CEIL(EXTRACT(EPOCH FROM (p_new_end_time - p_booking.end_time)) / 60)::INTEGER;
+  v_base := GREATEST(0,
+    public.price_booking(v_spot.id, p_booking.start_time, p_new_end_time)
+    - public.price_booking(v_spot.id, p_booking.start_time, p_booking.end_time));
+  v_fee := ROUND(v_base * 0.05, 2);
+  v_tax := ROUND((v_base + v_fee) * 0.07, 2);
+
+  RETURN jsonb_build_object(
+    'booking_id', p_booking.id,
+    'original_end_time', p_booking.end_time,
+    'new_end_time', p_new_end_time,
+    'additional_minutes', v_minutes,
+    'line_items', jsonb_build_array(
+      jsonb_build_object('code', 'base', 'label', 'Parking +' || public.format_duration(v_minutes), 'amount', v_base),
+      jsonb_build_object('code', 'service_fee', 'label', 'Service fee', 'amount', v_fee),
+      jsonb_build_object('code', 'tax', 'label', 'VAT (7%)', 'amount', v_tax)
+    ),
+    'base_amount', v_base,
+    'service_fee', v_fee,
+    'tax_amount', v_tax,
+    'total', v_base + v_fee + v_tax,
+    'requires_approval', NOT v_spot.auto_approve_extensions
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.compute_extension_quote(public.bookings, TIMESTAMP WITH TIME ZONE)
+  FROM PUBLIC, anon, authenticated;
+
+-- The added time must be open and have a free slot. The booking ends where it
+-- starts, so it never counts against itself. Callers lock the spot row.
+CREATE OR REPLACE FUNCTION public.check_extension_room(
+  p_booking public.bookings,
+  p_new_end_time TIMESTAMP WITH TIME ZONE
+)
+RETURNS VOID
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NOT public.spot_is_open_between(p_booking.spot_id, p_booking.end_time, p_new_end_time) THEN
+    RAISE EXCEPTION 'This spot is closed during part of the extra time'
+      USING ERRCODE = 'P0410', DETAIL = p_booking.spot_id::TEXT;
+  END IF;
+
+  IF public.spot_peak_occupancy(p_booking.spot_id, p_booking.end_time, p_new_end_time)
+     >= (SELECT total_slots FROM public.parking_spots WHERE id = p_booking.spot_id) THEN
+    RAISE EXCEPTION 'This spot is fully booked for the extra time'
+      USING ERRCODE = 'P0409', DETAIL = p_booking.spot_id::TEXT;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_extension_room(public.bookings, TIMESTAMP WITH TIME ZONE)
+  FROM PUBLIC, anon, authenticated;
+
+-- Moves the booking's end and raises the charge. Keeps the booking's PIN
+-- unless a booking it now overlaps uses the same one. The caller has locked
+-- the spot, booking and extension rows.
+CREATE OR REPLACE FUNCTION public.approve_booking_extension(
+  p_extension public.booking_extensions,
+  p_reviewer UUID
+)
+RETURNS public.booking_extensions
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_pin TEXT;
+  v_attempts INTEGER := 0;
+  v_charge_id UUID;
+  v_extension public.booking_extensions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_extension.booking_id;
+
+  IF v_booking.status NOT IN ('confirmed', 'checked_in') THEN
+    RAISE EXCEPTION 'Only confirmed or checked-in bookings can be extended'
+      USING ERRCODE = 'P0425', DETAIL = v_booking.status, HINT = v_booking.id::TEXT;
+  END IF;
+
+  IF v_booking.end_time <> p_extension.original_end_time THEN
+    RAISE EXCEPTION 'The booking has changed since this extension was requested' USING ERRCODE = 'P0426';
+  END IF;
+
+  PERFORM public.check_extension_room(v_booking, p_extension.new_end_time);
+
+  v_pin := v_booking.pin;
+  WHILE v_pin IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.bookings b
+    WHERE b.spot_id = v_booking.spot_id
+      AND b.id <> v_booking.id
+      AND b.pin = v_pin
+      AND b.status IN ('pending', 'confirmed', 'checked_in')
+      AND b.start_time - INTERVAL '30 minutes' < p_extension.new_end_time + INTERVAL '30 minutes'
+      AND v_booking.start_time - INTERVAL '30 minutes' < b.end_time + INTERVAL '30 minutes'
+  ) LOOP
+    v_pin := lpad(((('x' || encode(gen_random_bytes(4), 'hex'))::BIT(32)::BIGINT) % 10000)::TEXT, 4, '0');
+    v_attempts := v_attempts + 1;
+    IF v_attempts >= 1000 THEN
+      RAISE EXCEPTION 'No free PIN for this spot and time' USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  UPDATE public.bookings
+  SET end_time = p_extension.new_end_time,
+      extension_count = extension_count + 1,
+      pin = v_pin,
+      updated_at = NOW()
+  WHERE id = v_booking.id;
+
+  INSERT INTO public.booking_charges (
+    booking_id, guest_id, host_id, kind, description,
+    base_amount, service_fee, tax_amount, amount, extension_id
+  )
+  VALUES (
+    v_booking.id, v_booking.guest_id, v_booking.host_id, 'extension',
+    'Extension of ' || public.format_duration(p_extension.additional_minutes),
+    p_extension.base_amount, p_extension.service_fee, p_extension.tax_amount,
+    p_extension.additional_cost, p_extension.id
+  )
+  RETURNING id INTO v_charge_id;
+
+  UPDATE public.booking_extensions
+  SET status = 'approved',
+      charge_id = v_charge_id,
+      processed_at = NOW(),
+      processed_by = p_reviewer
+  WHERE id = p_extension.id
+  RETURNING * INTO v_extension;
+
+  RETURN v_extension;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.approve_booking_extension(public.booking_extensions, UUID)
+  FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.quote_booking_extension(
+  p_booking_id UUID,
+  p_new_end_time TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND OR auth.uid() NOT IN (v_booking.guest_id, v_booking.host_id) THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN public.compute_extension_quote(v_booking, p_new_end_time);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.request_booking_extension(
+  p_booking_id UUID,
+  p_new_end_time TIMESTAMP WITH TIME ZONE
+)
+RETURNS public.booking_extensions
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_spot public.parking_spots%ROWTYPE;
+  v_quote JSONB;
+  v_extension public.booking_extensions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND OR v_booking.guest_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Same lock order as reserve_booking, so the added time cannot be taken
+  -- between the capacity check and approval.
+  SELECT * INTO v_spot FROM public.parking_spots WHERE id = v_booking.spot_id FOR UPDATE;
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  v_quote := public.compute_extension_quote(v_booking, p_new_end_time);
+
+  IF EXISTS (
+    SELECT 1 FROM public.booking_extensions WHERE booking_id = v_booking.id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'An extension for this booking is already awaiting the host' USING ERRCODE = 'P0426';
+  END IF;
+
+  PERFORM public.check_extension_room(v_booking, p_new_end_time);
+
+  INSERT INTO public.booking_extensions (
+    booking_id, guest_id, host_id, original_end_time, new_end_time, additional_minutes,
+    base_amount, service_fee, tax_amount, additional_cost
+  )
+  VALUES (
+    v_booking.id, v_booking.guest_id, v_booking.host_id, v_booking.end_time, p_new_end_time,
+    (v_quote->>'additional_minutes')::INTEGER,
+    (v_quote->>'base_amount')::DECIMAL, (v_quote->>'service_fee')::DECIMAL,
+    (v_quote->>'tax_amount')::DECIMAL, (v_quote->>'total')::DECIMAL
+  )
+  RETURNING * INTO v_extension;
+
+  IF v_spot.auto_approve_extensions THEN
+    v_extension := public.approve_booking_extension(v_extension, NULL);
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+  VALUES (
+    v_extension.host_id,
+    'Extension requested',
+    'A guest at ' || v_spot.title || ' asked to stay '
+      || public.format_duration(v_extension.additional_minutes) || ' longer for $'
+      || to_char(v_extension.additional_cost, 'FM999999990.00') || '.',
+    'owner_notification',
+    '/admin/bookings',
+    jsonb_build_object('booking_id', v_extension.booking_id, 'extension_id', v_extension.id)
+  );
+
+  RETURN v_extension;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_booking_extension(
+  p_extension_id UUID,
+  p_decision TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.booking_extensions
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_extension public.booking_extensions%ROWTYPE;
+  v_booking public.bookings%ROWTYPE;
+  v_spot_title TEXT;
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown review decision %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_extension FROM public.booking_extensions WHERE id = p_extension_id;
+
+  IF NOT FOUND OR v_extension.host_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Extension not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_booking FROM public.bookings WHERE id = v_extension.booking_id;
+  SELECT title INTO v_spot_title FROM public.parking_spots WHERE id = v_booking.spot_id FOR UPDATE;
+  PERFORM 1 FROM public.bookings WHERE id = v_booking.id FOR UPDATE;
+  SELECT * INTO v_extension FROM public.booking_extensions WHERE id = p_extension_id FOR UPDATE;
+
+  IF v_extension.status <> 'pending' THEN
+    RAISE EXCEPTION 'This extension has already been %', v_extension.status USING ERRCODE = 'P0426';
+  END IF;
+
+  IF p_decision = 'approved' THEN
+    v_extension := public.approve_booking_extension(v_extension, auth.uid());
+  ELSE
+    UPDATE public.booking_extensions
+    SET status = 'rejected',
+        rejection_reason = p_reason,
+        processed_at = NOW(),
+        processed_by = auth.uid()
+    WHERE id = p_extension_id
+    RETURNING * INTO v_extension;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+  VALUES (
+    v_extension.guest_id,
+    CASE WHEN p_decision = 'approved' THEN 'Extension approved' ELSE 'Extension declined' END,
+    CASE WHEN p_decision = 'approved'
+      THEN 'Your booking at ' || v_spot_title || ' now runs '
+        || public.format_duration(v_extension.additional_minutes) || ' longer. Please pay the extra $'
+        || to_char(v_extension.additional_cost, 'FM999999990.00') || ' from My Bookings.'
+      ELSE 'Your request to stay longer at ' || v_spot_title || ' was declined'
+        || COALESCE(': ' || p_reason, '.')
+    END,
+    'extension_reminder',
+    '/bookings',
+    jsonb_build_object('booking_id', v_extension.booking_id, 'extension_id', v_extension.id)
+  );
+
+  RETURN v_extension;
+END;
+$$;
+
+-- As in 20251020160000, plus intents that carry a charge_id, which pay that
+-- charge instead of the booking. Mirrors chargeUpdateForPaymentEvent in
+-- src/services/payments.ts.
+CREATE OR REPLACE FUNCTION public.apply_payment_event(p_event JSONB)
+RETURNS public.bookings
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_charge public.booking_charges%ROWTYPE;
+  v_intent JSONB := p_event->'intent';
+  v_intent_id TEXT := v_intent->>'id';
+  v_amount DECIMAL := (v_intent->>'amount')::DECIMAL;
+  v_refunded DECIMAL := COALESCE((v_intent->>'amount_refunded')::DECIMAL, 0);
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings
+  WHERE id = (v_intent->>'booking_id')::UUID
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.payment_events WHERE id = p_event->>'id') THEN
+    RETURN v_booking;
+  END IF;
+
+  IF v_intent->>'charge_id' IS NOT NULL THEN
+    SELECT * INTO v_charge FROM public.booking_charges
+    WHERE id = (v_intent->>'charge_id')::UUID AND booking_id = v_booking.id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Charge not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    CASE p_event->>'type'
+      WHEN 'payment_intent.succeeded' THEN
+        IF v_charge.status = 'paid' THEN
+          IF v_charge.payment_intent_id IS DISTINCT FROM v_intent_id THEN
+            RAISE EXCEPTION 'This charge has already been paid' USING ERRCODE = 'P0424';
+          END IF;
+        ELSIF v_charge.status <> 'unpaid' THEN
+          RAISE EXCEPTION 'This charge has been waived' USING ERRCODE = 'P0424';
+        ELSIF ABS(v_amount - v_charge.amount) >= 0.005 THEN
+          RAISE EXCEPTION 'The payment amount does not match the charge' USING ERRCODE = 'P0424';
+        ELSE
+          UPDATE public.booking_charges
+          SET status = 'paid',
+              payment_provider = p_event->>'provider',
+              payment_intent_id = v_intent_id,
+              paid_at = (p_event->>'created_at')::TIMESTAMP WITH TIME ZONE,
+              updated_at = NOW()
+          WHERE id = v_charge.id;
+        END IF;
+
+      WHEN 'payment_intent.payment_failed' THEN
+        NULL;
+
+      WHEN 'charge.refunded' THEN
+        IF v_charge.payment_intent_id IS DISTINCT FROM v_intent_id THEN
+          RAISE EXCEPTION 'The refund is for a different payment' USING ERRCODE = 'P0424';
+        END IF;
+
+      ELSE
+        RAISE EXCEPTION 'Unknown payment event %', p_event->>'type' USING ERRCODE = '22023';
+    END CASE;
+
+    INSERT INTO public.payment_events (id, provider, type, booking_id, payload)
+    VALUES (p_event->>'id', p_event->>'provider', p_event->>'type', v_booking.id, p_event);
+
+    RETURN v_booking;
+  END IF;
+
+  CASE p_event->>'type'
+    WHEN 'payment_intent.succeeded' THEN
+      IF v_booking.payment_status = 'paid' THEN
+        IF v_booking.payment_intent_id IS DISTINCT FROM v_intent_id THEN
+          RAISE EXCEPTION 'This booking has already been paid' USING ERRCODE = 'P0424';
+        END IF;
+      ELSIF v_booking.status <> 'pending' THEN
+        RAISE EXCEPTION 'Only pending bookings can be paid' USING ERRCODE = 'P0424';
+      ELSIF ABS(v_amount - v_booking.total_amount) >= 0.005 THEN
+        RAISE EXCEPTION 'The payment amount does not match the booking total' USING ERRCODE = 'P0424';
+      ELSE
+        UPDATE public.bookings
+        SET status = 'confirmed',
+            payment_status = 'paid',
+            payment_provider = p_event->>'provider',
+            payment_intent_id = v_intent_id,
+            updated_at = NOW()
+        WHERE id = v_booking.id
+        RETURNING * INTO v_booking;
+      END IF;
+
+    WHEN 'payment_intent.payment_failed' THEN
+      IF v_booking.payment_status <> 'paid' THEN
+        UPDATE public.bookings
+        SET payment_status = 'failed',
+            payment_provider = p_event->>'provider',
+            payment_intent_id = v_intent_id,
+            updated_at = NOW()
+        WHERE id = v_booking.id
+        RETURNING * INTO v_booking;
+      END IF;
+
+    WHEN 'charge.refunded' THEN
+      IF v_booking.payment_intent_id IS DISTINCT FROM v_intent_id THEN
+        RAISE EXCEPTION 'The refund is for a different payment' USING ERRCODE = 'P0424';
+      END IF;
+      UPDATE public.bookings
+      SET payment_status = CASE
+            WHEN ABS(v_refunded - v_amount) < 0.005 THEN 'refunded'
+            ELSE 'partially_refunded'
+          END,
+          updated_at = NOW()
+      WHERE id = v_booking.id
+      RETURNING * INTO v_booking;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown payment event %', p_event->>'type' USING ERRCODE = '22023';
+  END CASE;
+
+  INSERT INTO public.payment_events (id, provider, type, booking_id, payload)
+  VALUES (p_event->>'id', p_event->>'provider', p_event->>'type', v_booking.id, p_event);
+
+  RETURN v_booking;
+END;
+$$;
+
+-- Only the extension functions above may move an end time once the booking
+-- is confirmed, so hosts and guests cannot extend it for free.
+CREATE OR REPLACE FUNCTION public.protect_booking_extension()
+RETURNS TRIGGER
+LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.extension_count := 0;
+  ELSIF NEW.extension_count IS DISTINCT FROM OLD.extension_count
+     OR (OLD.status IN ('confirmed', 'checked_in') AND NEW.end_time IS DISTINCT FROM OLD.end_time) THEN
+    RAISE EXCEPTION 'Bookings are extended through an extension request' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_protect_extension ON public.bookings;
+CREATE TRIGGER bookings_protect_extension
+  BEFORE INSERT OR UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.protect_booking_extension();
+
+GRANT EXECUTE ON FUNCTION public.quote_booking_extension(UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.request_booking_extension(UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_booking_extension(UUID, TEXT, TEXT) TO authenticated;
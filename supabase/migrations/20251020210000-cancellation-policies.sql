@@ -0,0 +1,157 @@
+-- Cancellation policies and refunds
+--
+-- Each spot has a cancellation policy: flexible, moderate, strict or custom
+-- tiers of notice and refund share set by the host. cancel_booking is the
+-- only way to cancel a booking. It records who cancelled, why and the refund
+-- due of the booking total, in full when the host cancels and nothing for an
+-- unpaid booking, and notifies the other party. Checked-in and completed
+-- bookings cannot be cancelled. Card refunds are then issued through the
+-- gateway; slips are paid back by the host.
+--
+-- Mirrors src/services/cancellation.ts.
+
+ALTER TABLE public.parking_spots
+  ADD COLUMN IF NOT EXISTS cancellation_policy TEXT NOT NULL DEFAULT 'flexible'
+    CHECK (cancellation_policy IN ('flexible', 'moderate', 'strict', 'custom')),
+  ADD COLUMN IF NOT EXISTS cancellation_tiers JSONB;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES public.profiles(id),
+  ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+  ADD COLUMN IF NOT EXISTS refund_amount DECIMAL(10,2) CHECK (refund_amount >= 0);
+
+-- The spot's tiers as {hours_before, refund_percent} objects.
+CREATE OR REPLACE FUNCTION public.cancellation_tiers(p_spot public.parking_spots)
+RETURNS JSONB
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE p_spot.cancellation_policy
+    WHEN 'moderate' THEN '[{"hours_before": 24, "refund_percent": 100}, {"hours_before": 2, "refund_percent": 50}]'::JSONB
+    WHEN 'strict' THEN '[{"hours_before": 72, "refund_percent": 50}]'::JSONB
+    WHEN 'custom' THEN COALESCE(p_spot.cancellation_tiers, '[]'::JSONB)
+    ELSE '[{"hours_before": 1, "refund_percent": 100}]'::JSONB
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_booking(p_booking_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.bookings
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_spot public.parking_spots%ROWTYPE;
+  v_by_host BOOLEAN;
+  v_hours_before DECIMAL;
+  v_percent DECIMAL := 0;
+  v_refund DECIMAL(10,2) := 0;
+  v_reason TEXT := NULLIF(BTRIM(p_reason), '');
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() NOT IN (v_booking.guest_id, v_booking.host_id) THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Only pending or confirmed bookings can be cancelled'
+      USING ERRCODE = 'P0425', DETAIL = v_booking.status;
+  END IF;
+
+  SELECT * INTO v_spot FROM public.parking_spots WHERE id = v_booking.spot_id;
+  v_by_host := auth.uid() = v_booking.host_id;
+
+  IF v_booking.payment_status = 'paid' THEN
+    IF v_by_host THEN
+      v_percent := 100;
+    ELSE
+      v_hours_before := EXTRACT(EPOCH FROM (v_booking.start_time - NOW())) / 3600;
+      SELECT COALESCE((
+        SELECT (t->>'refund_percent')::DECIMAL
+        FROM jsonb_array_elements(public.cancellation_tiers(v_spot)) t
+        WHERE v_hours_before >= (t->>'hours_before')::DECIMAL
+        ORDER BY (t->>'hours_before')::DECIMAL DESC
+        LIMIT 1
+      ), 0) INTO v_percent;
+    END IF;
+    v_refund := ROUND(v_booking.total_amount * v_percent / 100, 2);
+  END IF;
+
+  UPDATE public.bookings
+  SET status = 'cancelled',
+      cancelled_at = NOW(),
+      cancelled_by = auth.uid(),
+      cancellation_reason = v_reason,
+      refund_amount = v_refund,
+      updated_at = NOW()
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  UPDATE public.booking_extensions
+  SET status = 'rejected',
+      rejection_reason = 'Booking cancelled',
+      processed_at = NOW()
+  WHERE booking_id = p_booking_id AND status = 'pending';
+
+  INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+  VALUES (
+    CASE WHEN v_by_host THEN v_booking.guest_id ELSE v_booking.host_id END,
+    CASE WHEN v_by_host THEN 'Booking cancelled by host' ELSE 'Booking cancelled by guest' END,
+    CASE WHEN v_by_host
+      THEN 'Your booking at ' || v_spot.title || ' was cancelled by the host.'
+      ELSE 'A booking at ' || v_spot.title || ' was cancelled.'
+    END
+      || CASE WHEN v_refund > 0
+           THEN ' A refund of $' || to_char(v_refund, 'FM999999990.00') || ' is due to the guest.'
+           ELSE ''
+         END
+      || COALESCE(' Reason: ' || v_reason, ''),
+    CASE WHEN v_by_host THEN 'booking_reminder' ELSE 'owner_notification' END,
+    CASE WHEN v_by_host THEN '/bookings' ELSE '/admin/bookings' END,
+    jsonb_build_object('booking_id', v_booking.id)
+  );
+
+  RETURN v_booking;
+END;
+$$;
+
+-- Like protect_booking_payment: SECURITY INVOKER so client roles are seen.
+-- Only cancel_booking may cancel a booking or touch its cancellation record.
+CREATE OR REPLACE FUNCTION public.protect_booking_cancellation()
+RETURNS TRIGGER
+LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'cancelled' THEN
+      RAISE EXCEPTION 'Bookings are cancelled through cancel_booking' USING ERRCODE = '42501';
+    END IF;
+    NEW.cancelled_at := NULL;
+    NEW.cancelled_by := NULL;
+    NEW.cancellation_reason := NULL;
+    NEW.refund_amount := NULL;
+  ELSIF (NEW.status = 'cancelled' AND OLD.status <> 'cancelled')
+     OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+     OR NEW.cancelled_by IS DISTINCT FROM OLD.cancelled_by
+     OR NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason
+     OR NEW.refund_amount IS DISTINCT FROM OLD.refund_amount THEN
+    RAISE EXCEPTION 'Bookings are cancelled through cancel_booking' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_protect_cancellation ON public.bookings;
+CREATE TRIGGER bookings_protect_cancellation
+  BEFORE INSERT OR UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.protect_booking_cancellation();
+
+-- A custom policy needs at least one tier.
+ALTER TABLE public.parking_spots
+  ADD CONSTRAINT parking_spots_cancellation_tiers_check CHECK (
+    cancellation_policy <> 'custom'
+    OR (jsonb_typeof(cancellation_tiers) = 'array' AND jsonb_array_length(cancellation_tiers) > 0)
+  );
+
+GRANT EXECUTE ON FUNCTION public.cancel_booking(UUID, TEXT) TO authenticated;
@@ -0,0 +1,183 @@
+-- Booking state machine and history
+--
+-- A booking's status may only move along booking_transition_allowed, and
+-- only for the role allowed to make that move: the guest, the host, or the
+-- system (payment webhooks and other work without a signed-in user). Every
+-- booking starts pending. The checks run in a trigger, so they hold for the
+-- gate, payment and cancellation functions as well as direct updates. Each
+-- change, and each new booking, is written to booking_events, which guests
+-- and hosts can read as the booking's timeline.
+--
+-- Mirrors src/services/bookingState.ts.
+
+CREATE TABLE IF NOT EXISTS public.booking_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor_role TEXT NOT NULL CHECK (actor_role IN ('guest', 'host', 'system')),
+  actor_id UUID REFERENCES public.profiles(id),
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_events_booking_id ON public.booking_events(booking_id, created_at);
+
+ALTER TABLE public.booking_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Guests and hosts can view their booking events" ON public.booking_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.bookings b
+      WHERE b.id = booking_id AND auth.uid() IN (b.guest_id, b.host_id)
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.booking_transition_allowed(p_from TEXT, p_to TEXT, p_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT (p_from, p_to, p_role) IN (
+    ('pending', 'confirmed', 'host'),
+    ('pending', 'confirmed', 'system'),
+    ('pending', 'checked_in', 'host'),
+    ('pending', 'cancelled', 'guest'),
+    ('pending', 'cancelled', 'host'),
+    ('confirmed', 'checked_in', 'host'),
+    ('confirmed', 'cancelled', 'guest'),
+    ('confirmed', 'cancelled', 'host'),
+    ('checked_in', 'completed', 'host')
+  );
+$$;
+
+-- Who is acting on the booking. Functions called with no signed-in user,
+-- like apply_payment_event from the webhook, act as the system.
+CREATE OR REPLACE FUNCTION public.booking_actor_role(p_booking public.bookings)
+RETURNS TEXT
+LANGUAGE sql STABLE AS $$
+  SELECT CASE
+    WHEN auth.uid() = p_booking.host_id THEN 'host'
+    WHEN auth.uid() = p_booking.guest_id THEN 'guest'
+    ELSE 'system'
+  END;
+$$;
+
+-- SECURITY INVOKER like the protect_booking_* triggers, but it applies to
+-- every caller, the SECURITY DEFINER functions included.
+CREATE OR REPLACE FUNCTION public.enforce_booking_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql SET search_path = public AS $$
+DECLARE
+  v_role TEXT := public.booking_actor_role(NEW);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'New bookings start pending'
+        USING ERRCODE = 'P0425', DETAIL = NEW.status, HINT = NEW.id::TEXT;
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT public.booking_transition_allowed(OLD.status, NEW.status, v_role) THEN
+    RAISE EXCEPTION 'A % booking cannot be marked % by the %',
+        replace(OLD.status, '_', ' '), replace(NEW.status, '_', ' '), v_role
+      USING ERRCODE = 'P0425', DETAIL = OLD.status, HINT = OLD.id::TEXT;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_enforce_transition ON public.bookings;
+CREATE TRIGGER bookings_enforce_transition
+  BEFORE INSERT OR UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_booking_transition();
+
+-- SECURITY DEFINER: clients cannot write booking_events themselves.
+CREATE OR REPLACE FUNCTION public.log_booking_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.booking_events (booking_id, from_status, to_status, actor_role, actor_id, reason)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    public.booking_actor_role(NEW),
+    auth.uid(),
+    CASE WHEN NEW.status = 'cancelled' THEN NEW.cancellation_reason END
+  );
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_log_event ON public.bookings;
+CREATE TRIGGER bookings_log_event
+  AFTER INSERT OR UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.log_booking_event();
+
+-- Unchanged from 20251020160000 except that a rejected slip leaves the
+-- booking's status alone rather than setting it back to pending, which a
+-- cancelled booking may not return to. Approving a slip for a booking that
+-- was cancelled meanwhile now fails in the transition trigger.
+CREATE OR REPLACE FUNCTION public.review_payment(
+  p_payment_id UUID,
+  p_decision TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.payments
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_host_id UUID;
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown review decision %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+  SELECT host_id INTO v_host_id FROM public.bookings WHERE id = v_payment.booking_id FOR UPDATE;
+
+  IF v_payment.id IS NULL OR v_host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Payment not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_payment.status <> 'submitted' THEN
+    RAISE EXCEPTION 'This payment has already been %', v_payment.status USING ERRCODE = 'P0424';
+  END IF;
+
+  UPDATE public.payments
+  SET status = p_decision,
+      failure_reason = CASE WHEN p_decision = 'rejected' THEN p_reason END,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  IF p_decision = 'approved' THEN
+    UPDATE public.bookings
+    SET status = 'confirmed',
+        payment_status = 'paid',
+        updated_at = NOW()
+    WHERE id = v_payment.booking_id;
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+-- Bookings made before the history was kept get their creation and, when
+-- they have moved on since, their current status as system events.
+INSERT INTO public.booking_events (booking_id, from_status, to_status, actor_role, actor_id, created_at)
+SELECT id, NULL, 'pending', 'guest', guest_id, created_at
+FROM public.bookings
+WHERE NOT EXISTS (SELECT 1 FROM public.booking_events e WHERE e.booking_id = bookings.id);
+
+INSERT INTO public.booking_events (booking_id, from_status, to_status, actor_role, reason, created_at)
+SELECT b.id, 'pending', b.status, 'system', 'Recorded before booking history was kept', b.updated_at
+FROM public.bookings b
+WHERE b.status <> 'pending'
+  AND (SELECT COUNT(*) FROM public.booking_events e WHERE e.booking_id = b.id) = 1;
+
+GRANT EXECUTE ON FUNCTION public.booking_transition_allowed(TEXT, TEXT, TEXT) TO authenticated, anon;
@@ -0,0 +1,15 @@
+-- Realtime changes for bookings, payments and reviews
+--
+-- Publishes the three tables to Supabase Realtime so open pages see new and
+-- changed rows without reloading. Realtime checks each row against the
+-- subscriber's select policies, so users only receive rows they can read.
+-- Full replica identity sends the previous row with updates, which tells a
+-- status change apart from other edits.
+--
+-- Consumed by SupabaseRepository.subscribeToChanges.
+
+ALTER TABLE public.bookings REPLICA IDENTITY FULL;
+ALTER TABLE public.payments REPLICA IDENTITY FULL;
+ALTER TABLE public.reviews REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.bookings, public.payments, public.reviews;
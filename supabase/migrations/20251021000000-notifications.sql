@@ -0,0 +1,164 @@
+-- Notifications for booking and review events
+--
+-- Hosts hear about new bookings and reviews of their spots; guests hear when
+-- a booking is confirmed. Live bookings carry two reminders for the guest,
+-- one before the start and one before the end, stored ahead of time with
+-- scheduled_for and kept in step with the booking's status and times.
+-- Reading a notification goes through mark_notifications_read, since users
+-- may only change is_read. Notifications are published to Realtime for the
+-- bell in the navbar.
+--
+-- Mirrors src/services/notifications.ts.
+
+CREATE INDEX IF NOT EXISTS idx_notifications_booking_id ON public.notifications((metadata->>'booking_id'));
+
+-- Marks the caller's notifications read: those in p_ids, or all of them when
+-- p_ids is null. Reminders not yet due are left alone.
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(p_ids UUID[] DEFAULT NULL)
+RETURNS VOID
+LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+  UPDATE public.notifications
+  SET is_read = TRUE
+  WHERE user_id = auth.uid()
+    AND NOT is_read
+    AND (scheduled_for IS NULL OR scheduled_for <= NOW())
+    AND (p_ids IS NULL OR id = ANY(p_ids));
+$$;
+
+-- Drops the booking's reminders that are not due yet and schedules the ones
+-- it needs now. A reminder already due for the same time stays as is.
+CREATE OR REPLACE FUNCTION public.schedule_booking_reminders(p_booking public.bookings, p_spot_title TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  DELETE FROM public.notifications
+  WHERE metadata->>'booking_id' = p_booking.id::TEXT
+    AND metadata ? 'reminder'
+    AND scheduled_for > NOW();
+
+  IF p_booking.status NOT IN ('confirmed', 'checked_in') THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata, scheduled_for)
+  SELECT p_booking.guest_id, r.title, r.message, r.type, '/bookings',
+         jsonb_build_object('booking_id', p_booking.id, 'reminder', r.kind), r.scheduled_for
+  FROM (
+    VALUES
+      (
+        'starting_soon',
+        p_booking.status = 'confirmed' AND p_booking.start_time > NOW(),
+        p_booking.start_time - INTERVAL '30 minutes',
+        'Parking starting soon',
+        'Your parking at ' || p_spot_title || ' starts soon. Show your QR code or PIN at the entrance.',
+        'booking_reminder'
+      ),
+      (
+        'ending_soon',
+        p_booking.end_time > NOW(),
+        p_booking.end_time - INTERVAL '30 minutes',
+        'Parking ending soon',
+        'Your parking at ' || p_spot_title || ' ends soon. Need longer? Request an extension from My Bookings.',
+        'extension_reminder'
+      )
+  ) AS r(kind, wanted, scheduled_for, title, message, type)
+  WHERE r.wanted
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notifications n
+      WHERE n.metadata->>'booking_id' = p_booking.id::TEXT
+        AND n.metadata->>'reminder' = r.kind
+        AND n.scheduled_for = r.scheduled_for
+    );
+END;
+$$;
+
+-- SECURITY DEFINER: clients cannot write notifications themselves.
+CREATE OR REPLACE FUNCTION public.notify_booking_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_spot_title TEXT;
+BEGIN
+  SELECT title INTO v_spot_title FROM public.parking_spots WHERE id = NEW.spot_id;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+    VALUES (
+      NEW.host_id,
+      'New booking',
+      'A guest booked ' || v_spot_title || '.',
+      'owner_notification',
+      '/admin/bookings',
+      jsonb_build_object('booking_id', NEW.id)
+    );
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'confirmed' AND OLD.status IS DISTINCT FROM 'confirmed' THEN
+    INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+    VALUES (
+      NEW.guest_id,
+      'Booking confirmed',
+      'Your booking at ' || v_spot_title || ' is confirmed.',
+      'booking_reminder',
+      '/bookings',
+      jsonb_build_object('booking_id', NEW.id)
+    );
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.start_time IS DISTINCT FROM OLD.start_time
+     OR NEW.end_time IS DISTINCT FROM OLD.end_time THEN
+    PERFORM public.schedule_booking_reminders(NEW, v_spot_title);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_notify ON public.bookings;
+CREATE TRIGGER bookings_notify
+  AFTER INSERT OR UPDATE OF status, start_time, end_time ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.notify_booking_change();
+
+-- Tells whoever was reviewed: the host for a guest's review of their spot,
+-- the guest for a host's review of their stay.
+CREATE OR REPLACE FUNCTION public.notify_review_posted()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_spot_title TEXT;
+BEGIN
+  SELECT title INTO v_spot_title FROM public.parking_spots WHERE id = NEW.spot_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+  VALUES (
+    NEW.reviewee_id,
+    'New review',
+    CASE
+      WHEN NEW.is_host_review THEN 'The host of ' || v_spot_title || ' rated your stay ' || NEW.rating || '★.'
+      ELSE 'A guest rated ' || v_spot_title || ' ' || NEW.rating || '★.'
+    END,
+    CASE WHEN NEW.is_host_review THEN 'system' ELSE 'owner_notification' END,
+    CASE WHEN NEW.is_host_review THEN NULL ELSE '/admin/reviews' END,
+    jsonb_build_object('booking_id', NEW.booking_id, 'review_id', NEW.id)
+  );
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reviews_notify ON public.reviews;
+CREATE TRIGGER reviews_notify
+  AFTER INSERT ON public.reviews
+  FOR EACH ROW EXECUTE FUNCTION public.notify_review_posted();
+
+-- Reminders for bookings already live when this runs.
+SELECT public.schedule_booking_reminders(b, s.title)
+FROM public.bookings b
+JOIN public.parking_spots s ON s.id = b.spot_id
+WHERE b.status IN ('confirmed', 'checked_in') AND b.end_time > NOW();
+
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+GRANT EXECUTE ON FUNCTION public.mark_notifications_read(UUID[]) TO authenticated;
@@ -0,0 +1,191 @@
+-- Reminder job
+--
+-- Booking reminders scheduled by 20251021000000 now stay hidden until
+-- send_due_reminders sends them, which the send-reminders Edge Function
+-- calls every minute. Each run first raises overstay reminders for cars
+-- still checked in past the spot's grace period, then stamps sent_at on
+-- every reminder whose time has come. A unique index keeps each reminder to
+-- one per user, booking and time, so overlapping runs cannot send twice.
+-- Reminders the user has turned off in user_settings are dropped instead.
+-- user_settings holds the notification columns of the table designed in
+-- db_structure.txt.
+--
+-- Mirrors InMemoryRepository.sendDueReminders and src/services/settings.ts.
+
+CREATE TABLE IF NOT EXISTS public.user_settings (
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE PRIMARY KEY,
+  booking_reminders BOOLEAN NOT NULL DEFAULT TRUE,
+  extension_reminders BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own settings" ON public.user_settings
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own settings" ON public.user_settings
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own settings" ON public.user_settings
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_reminder_once
+  ON public.notifications(user_id, (metadata->>'booking_id'), (metadata->>'reminder'), scheduled_for)
+  WHERE metadata ? 'reminder';
+
+-- The setting that turns each kind of reminder off, as REMINDER_SETTINGS in
+-- src/services/notifications.ts. Users without a row get the defaults.
+CREATE OR REPLACE FUNCTION public.user_wants_reminder(p_user_id UUID, p_kind TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SET search_path = public AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE p_kind
+        WHEN 'ending_soon' THEN s.extension_reminders
+        ELSE s.booking_reminders
+      END
+      FROM public.user_settings s
+      WHERE s.user_id = p_user_id
+    ),
+    TRUE
+  );
+$$;
+
+-- Unchanged from 20251021000000 except that only unsent reminders count as
+-- not shown.
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(p_ids UUID[] DEFAULT NULL)
+RETURNS VOID
+LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+  UPDATE public.notifications
+  SET is_read = TRUE
+  WHERE user_id = auth.uid()
+    AND NOT is_read
+    AND (scheduled_for IS NULL OR sent_at IS NOT NULL)
+    AND (p_ids IS NULL OR id = ANY(p_ids));
+$$;
+
+-- Unchanged from 20251021000000 except that the reminders dropped and kept
+-- are told apart by sent_at rather than by time.
+CREATE OR REPLACE FUNCTION public.schedule_booking_reminders(p_booking public.bookings, p_spot_title TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  DELETE FROM public.notifications
+  WHERE metadata->>'booking_id' = p_booking.id::TEXT
+    AND metadata ? 'reminder'
+    AND sent_at IS NULL;
+
+  IF p_booking.status NOT IN ('confirmed', 'checked_in') THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata, scheduled_for)
+  SELECT p_booking.guest_id, r.title, r.message, r.type, '/bookings',
+         jsonb_build_object('booking_id', p_booking.id, 'reminder', r.kind), r.scheduled_for
+  FROM (
+    VALUES
+      (
+        'starting_soon',
+        p_booking.status = 'confirmed' AND p_booking.start_time > NOW(),
+        p_booking.start_time - INTERVAL '30 minutes',
+        'Parking starting soon',
+        'Your parking at ' || p_spot_title || ' starts soon. Show your QR code or PIN at the entrance.',
+        'booking_reminder'
+      ),
+      (
+        'ending_soon',
+        p_booking.end_time > NOW(),
+        p_booking.end_time - INTERVAL '30 minutes',
+        'Parking ending soon',
+        'Your parking at ' || p_spot_title || ' ends soon. Need longer? Request an extension from My Bookings.',
+        'extension_reminder'
+      )
+  ) AS r(kind, wanted, scheduled_for, title, message, type)
+  WHERE r.wanted
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.send_due_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_sent INTEGER;
+BEGIN
+  INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata, scheduled_for)
+  SELECT r.user_id, r.title, r.message, r.type, r.action_url,
+         jsonb_build_object('booking_id', b.id, 'reminder', 'overstay'),
+         b.end_time + make_interval(mins => COALESCE(s.overstay_grace_minutes, 15))
+  FROM public.bookings b
+  JOIN public.parking_spots s ON s.id = b.spot_id
+  CROSS JOIN LATERAL (
+    VALUES
+      (
+        b.guest_id,
+        'Overstay fee applies',
+        'Your booking at ' || s.title || ' has ended. An overstay fee will be charged when you leave '
+          || 'unless you extend your booking from My Bookings.',
+        'booking_reminder',
+        '/bookings'
+      ),
+      (
+        b.host_id,
+        'Guest overstaying',
+        'A car at ' || s.title || ' is still parked after its booking ended. '
+          || 'An overstay fee will be added at check-out.',
+        'owner_notification',
+        '/admin/bookings'
+      )
+  ) AS r(user_id, title, message, type, action_url)
+  WHERE b.status = 'checked_in'
+    AND b.end_time + make_interval(mins => COALESCE(s.overstay_grace_minutes, 15)) <= NOW()
+    AND public.user_wants_reminder(r.user_id, 'overstay')
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM public.notifications
+  WHERE scheduled_for <= NOW()
+    AND sent_at IS NULL
+    AND metadata ? 'reminder'
+    AND NOT public.user_wants_reminder(user_id, metadata->>'reminder');
+
+  UPDATE public.notifications
+  SET sent_at = NOW()
+  WHERE scheduled_for <= NOW()
+    AND sent_at IS NULL;
+
+  GET DIAGNOSTICS v_sent = ROW_COUNT;
+  RETURN v_sent;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.send_due_reminders() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.send_due_reminders() TO service_role;
+
+-- Reminders already due when this runs were shown under the old rule.
+UPDATE public.notifications
+SET sent_at = scheduled_for
+WHERE scheduled_for <= NOW()
+  AND sent_at IS NULL;
+
+-- Calls the Edge Function every minute. Needs the project_url and
+-- service_role_key secrets in Vault.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-reminders',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,271 @@
+-- Email notifications
+--
+-- Booking confirmations, cancellations, approved payments and review
+-- requests are also emailed. Their notifications carry metadata.event, which
+-- names the template. email_outbox hands the mailer everything the templates
+-- need, the guest's QR token included, for notifications not yet emailed and
+-- not yet failed three times; each attempt is logged in
+-- notification_deliveries. Review requests go to the guest when a booking is
+-- completed.
+--
+-- Mirrors src/services/notifications.ts and src/email.
+
+CREATE TABLE IF NOT EXISTS public.notification_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  notification_id UUID REFERENCES public.notifications(id) ON DELETE CASCADE NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email')),
+  recipient TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  transport TEXT NOT NULL,
+  provider_message_id TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_notification_id
+  ON public.notification_deliveries(notification_id, created_at);
+
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Written by the mailer with the service role only.
+CREATE POLICY "Users can view deliveries of their own notifications" ON public.notification_deliveries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.notifications n
+      WHERE n.id = notification_id AND n.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_notifications_event ON public.notifications((metadata->>'event'))
+  WHERE metadata ? 'event';
+
+-- Unchanged from 20251020210000 except that the notification names its
+-- email template.
+CREATE OR REPLACE FUNCTION public.cancel_booking(p_booking_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.bookings
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_spot public.parking_spots%ROWTYPE;
+  v_by_host BOOLEAN;
+  v_hours_before DECIMAL;
+  v_percent DECIMAL := 0;
+  v_refund DECIMAL(10,2) := 0;
+  v_reason TEXT := NULLIF(BTRIM(p_reason), '');
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() NOT IN (v_booking.guest_id, v_booking.host_id) THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Only pending or confirmed bookings can be cancelled'
+      USING ERRCODE = 'P0425', DETAIL = v_booking.status;
+  END IF;
+
+  SELECT * INTO v_spot FROM public.parking_spots WHERE id = v_booking.spot_id;
+  v_by_host := auth.uid() = v_booking.host_id;
+
+  IF v_booking.payment_status = 'paid' THEN
+    IF v_by_host THEN
+      v_percent := 100;
+    ELSE
+      v_hours_before := EXTRACT(EPOCH FROM (v_booking.start_time - NOW())) / 3600;
+      SELECT COALESCE((
+        SELECT (t->>'refund_percent')::DECIMAL
+        FROM jsonb_array_elements(public.cancellation_tiers(v_spot)) t
+        WHERE v_hours_before >= (t->>'hours_before')::DECIMAL
+        ORDER BY (t->>'hours_before')::DECIMAL DESC
+        LIMIT 1
+      ), 0) INTO v_percent;
+    END IF;
+    v_refund := ROUND(v_booking.total_amount * v_percent / 100, 2);
+  END IF;
+
+  UPDATE public.bookings
+  SET status = 'cancelled',
+      cancelled_at = NOW(),
+      cancelled_by = auth.uid(),
+      cancellation_reason = v_reason,
+      refund_amount = v_refund,
+      updated_at = NOW()
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  UPDATE public.booking_extensions
+  SET status = 'rejected',
+      rejection_reason = 'Booking cancelled',
+      processed_at = NOW()
+  WHERE booking_id = p_booking_id AND status = 'pending';
+
+  INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+  VALUES (
+    CASE WHEN v_by_host THEN v_booking.guest_id ELSE v_booking.host_id END,
+    CASE WHEN v_by_host THEN 'Booking cancelled by host' ELSE 'Booking cancelled by guest' END,
+    CASE WHEN v_by_host
+      THEN 'Your booking at ' || v_spot.title || ' was cancelled by the host.'
+      ELSE 'A booking at ' || v_spot.title || ' was cancelled.'
+    END
+      || CASE WHEN v_refund > 0
+           THEN ' A refund of $' || to_char(v_refund, 'FM999999990.00') || ' is due to the guest.'
+           ELSE ''
+         END
+      || COALESCE(' Reason: ' || v_reason, ''),
+    CASE WHEN v_by_host THEN 'booking_reminder' ELSE 'owner_notification' END,
+    CASE WHEN v_by_host THEN '/bookings' ELSE '/admin/bookings' END,
+    jsonb_build_object('booking_id', v_booking.id, 'event', 'booking_cancelled')
+  );
+
+  RETURN v_booking;
+END;
+$$;
+
+-- Unchanged from 20251021000000 except that the confirmation names its email
+-- template and completing a booking asks the guest for a review.
+CREATE OR REPLACE FUNCTION public.notify_booking_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_spot_title TEXT;
+BEGIN
+  SELECT title INTO v_spot_title FROM public.parking_spots WHERE id = NEW.spot_id;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+    VALUES (
+      NEW.host_id,
+      'New booking',
+      'A guest booked ' || v_spot_title || '.',
+      'owner_notification',
+      '/admin/bookings',
+      jsonb_build_object('booking_id', NEW.id)
+    );
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'confirmed' AND OLD.status IS DISTINCT FROM 'confirmed' THEN
+    INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+    VALUES (
+      NEW.guest_id,
+      'Booking confirmed',
+      'Your booking at ' || v_spot_title || ' is confirmed.',
+      'booking_reminder',
+      '/bookings',
+      jsonb_build_object('booking_id', NEW.id, 'event', 'booking_confirmed')
+    );
+  END IF;
+
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+    VALUES (
+      NEW.guest_id,
+      'How was your stay?',
+      'Thanks for parking at ' || v_spot_title || '. Leave a review to help other drivers.',
+      'system',
+      '/bookings',
+      jsonb_build_object('booking_id', NEW.id, 'event', 'review_request')
+    );
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.start_time IS DISTINCT FROM OLD.start_time
+     OR NEW.end_time IS DISTINCT FROM OLD.end_time THEN
+    PERFORM public.schedule_booking_reminders(NEW, v_spot_title);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Tells the guest the host approved their slip.
+CREATE OR REPLACE FUNCTION public.notify_payment_approved()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_spot_title TEXT;
+BEGIN
+  SELECT s.title INTO v_spot_title
+  FROM public.bookings b
+  JOIN public.parking_spots s ON s.id = b.spot_id
+  WHERE b.id = NEW.booking_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+  VALUES (
+    NEW.payer_id,
+    'Payment approved',
+    'The host of ' || v_spot_title || ' approved your $' || to_char(NEW.amount, 'FM999999990.00') || ' payment.',
+    'system',
+    '/bookings',
+    jsonb_build_object('booking_id', NEW.booking_id, 'payment_id', NEW.id, 'event', 'payment_approved')
+  );
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payments_notify_approved ON public.payments;
+CREATE TRIGGER payments_notify_approved
+  AFTER UPDATE OF status ON public.payments
+  FOR EACH ROW
+  WHEN (NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved')
+  EXECUTE FUNCTION public.notify_payment_approved();
+
+-- The token booking_access_token gives the guest, for any booking. Only for
+-- functions that have already checked who may see it.
+CREATE OR REPLACE FUNCTION public.sign_booking_access_token(p_booking public.bookings)
+RETURNS TEXT
+LANGUAGE plpgsql STABLE SET search_path = public AS $$
+DECLARE
+  v_body TEXT;
+BEGIN
+  v_body := 'v1.' || public.base64url(convert_to(jsonb_build_object(
+    'bid', p_booking.id,
+    'sid', p_booking.spot_id,
+    'nbf', floor(extract(epoch FROM p_booking.start_time - INTERVAL '30 minutes'))::BIGINT,
+    'exp', floor(extract(epoch FROM p_booking.end_time + INTERVAL '30 minutes'))::BIGINT
+  )::TEXT, 'UTF8'));
+
+  RETURN v_body || '.' || public.booking_access_signature(v_body);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sign_booking_access_token(public.bookings) FROM PUBLIC, anon, authenticated;
+
+-- EmailJob objects, oldest first. Three failed attempts is
+-- MAX_DELIVERY_ATTEMPTS.
+CREATE OR REPLACE FUNCTION public.email_outbox()
+RETURNS JSONB
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT COALESCE(jsonb_agg(job ORDER BY shown_at), '[]'::JSONB)
+  FROM (
+    SELECT
+      COALESCE(n.sent_at, n.created_at) AS shown_at,
+      jsonb_strip_nulls(jsonb_build_object(
+        'notification', to_jsonb(n),
+        'recipient', jsonb_build_object('id', p.id, 'email', p.email, 'full_name', p.name),
+        'booking', to_jsonb(b),
+        'spot', jsonb_build_object('id', s.id, 'title', s.title, 'address', s.address, 'timezone', s.timezone),
+        'payment', to_jsonb(pay),
+        'access_token', CASE
+          WHEN n.metadata->>'event' = 'booking_confirmed' THEN public.sign_booking_access_token(b)
+        END
+      )) AS job
+    FROM public.notifications n
+    JOIN public.profiles p ON p.id = n.user_id
+    JOIN public.bookings b ON b.id::TEXT = n.metadata->>'booking_id'
+    JOIN public.parking_spots s ON s.id = b.spot_id
+    LEFT JOIN public.payments pay ON pay.id::TEXT = n.metadata->>'payment_id'
+    WHERE n.metadata ? 'event'
+      AND (n.scheduled_for IS NULL OR n.sent_at IS NOT NULL)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.notification_deliveries d
+        WHERE d.notification_id = n.id AND d.channel = 'email' AND d.status = 'sent'
+      )
+      AND (
+        SELECT COUNT(*) FROM public.notification_deliveries d
+        WHERE d.notification_id = n.id AND d.channel = 'email'
+      ) < 3
+  ) jobs;
+$$;
+
+REVOKE ALL ON FUNCTION public.email_outbox() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.email_outbox() TO service_role;
@@ -0,0 +1,176 @@
+-- Web Push
+--
+-- Reminders around a booking's start and end, extension updates and payment
+-- updates are also pushed to every device the user subscribed, unless they
+-- turned push off. Each browser's subscription is stored in
+-- push_subscriptions and moves to whichever account saved it last. The
+-- send-push Edge Function, called every minute, encrypts and sends what
+-- push_outbox returns, logging each attempt per device in
+-- notification_deliveries and deleting subscriptions the push service no
+-- longer knows. user_settings gains the channel switches of the table in
+-- db_structure.txt, which email_outbox now honours too.
+--
+-- Mirrors src/push and isPushNotification in src/services/notifications.ts.
+
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS email_notifications BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS push_notifications BOOLEAN NOT NULL DEFAULT TRUE;
+
+ALTER TABLE public.notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_channel_check;
+ALTER TABLE public.notification_deliveries
+  ADD CONSTRAINT notification_deliveries_channel_check CHECK (channel IN ('email', 'push'));
+
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Saved through save_push_subscription.
+CREATE POLICY "Users can view their own push subscriptions" ON public.push_subscriptions
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own push subscriptions" ON public.push_subscriptions
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Saves this device for the caller, taking it over from any other account.
+CREATE OR REPLACE FUNCTION public.save_push_subscription(
+  p_endpoint TEXT,
+  p_p256dh TEXT,
+  p_auth TEXT,
+  p_user_agent TEXT DEFAULT NULL
+)
+RETURNS public.push_subscriptions
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_subscription public.push_subscriptions%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to subscribe to push notifications' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.push_subscriptions WHERE endpoint = p_endpoint;
+
+  INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), p_endpoint, p_p256dh, p_auth, p_user_agent)
+  RETURNING * INTO v_subscription;
+
+  RETURN v_subscription;
+END;
+$$;
+
+-- The switch for each channel, as CHANNEL_SETTINGS in
+-- src/services/notifications.ts. Users without a row get the defaults.
+CREATE OR REPLACE FUNCTION public.user_wants_channel(p_user_id UUID, p_channel TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SET search_path = public AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE p_channel
+        WHEN 'email' THEN s.email_notifications
+        WHEN 'push' THEN s.push_notifications
+      END
+      FROM public.user_settings s
+      WHERE s.user_id = p_user_id
+    ),
+    TRUE
+  );
+$$;
+
+-- Unchanged from 20251021020000 except that users who turned email off are
+-- skipped.
+CREATE OR REPLACE FUNCTION public.email_outbox()
+RETURNS JSONB
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT COALESCE(jsonb_agg(job ORDER BY shown_at), '[]'::JSONB)
+  FROM (
+    SELECT
+      COALESCE(n.sent_at, n.created_at) AS shown_at,
+      jsonb_strip_nulls(jsonb_build_object(
+        'notification', to_jsonb(n),
+        'recipient', jsonb_build_object('id', p.id, 'email', p.email, 'full_name', p.name),
+        'booking', to_jsonb(b),
+        'spot', jsonb_build_object('id', s.id, 'title', s.title, 'address', s.address, 'timezone', s.timezone),
+        'payment', to_jsonb(pay),
+        'access_token', CASE
+          WHEN n.metadata->>'event' = 'booking_confirmed' THEN public.sign_booking_access_token(b)
+        END
+      )) AS job
+    FROM public.notifications n
+    JOIN public.profiles p ON p.id = n.user_id
+    JOIN public.bookings b ON b.id::TEXT = n.metadata->>'booking_id'
+    JOIN public.parking_spots s ON s.id = b.spot_id
+    LEFT JOIN public.payments pay ON pay.id::TEXT = n.metadata->>'payment_id'
+    WHERE n.metadata ? 'event'
+      AND (n.scheduled_for IS NULL OR n.sent_at IS NOT NULL)
+      AND public.user_wants_channel(n.user_id, 'email')
+      AND NOT EXISTS (
+        SELECT 1 FROM public.notification_deliveries d
+        WHERE d.notification_id = n.id AND d.channel = 'email' AND d.status = 'sent'
+      )
+      AND (
+        SELECT COUNT(*) FROM public.notification_deliveries d
+        WHERE d.notification_id = n.id AND d.channel = 'email'
+      ) < 3
+  ) jobs;
+$$;
+
+
+-- PushJob objects, one per notification and device, oldest first. Devices
+-- only get what was shown after they subscribed.
+CREATE OR REPLACE FUNCTION public.push_outbox()
+RETURNS JSONB
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object('notification', to_jsonb(n), 'subscription', to_jsonb(ps))
+      ORDER BY COALESCE(n.sent_at, n.created_at)
+    ),
+    '[]'::JSONB
+  )
+  FROM public.notifications n
+  JOIN public.push_subscriptions ps ON ps.user_id = n.user_id
+  WHERE (n.metadata ? 'reminder' OR n.metadata ? 'extension_id' OR n.metadata ? 'payment_id')
+    AND (n.scheduled_for IS NULL OR n.sent_at IS NOT NULL)
+    AND COALESCE(n.sent_at, n.created_at) >= ps.created_at
+    AND public.user_wants_channel(n.user_id, 'push')
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notification_deliveries d
+      WHERE d.notification_id = n.id AND d.channel = 'push' AND d.recipient = ps.endpoint AND d.status = 'sent'
+    )
+    AND (
+      SELECT COUNT(*) FROM public.notification_deliveries d
+      WHERE d.notification_id = n.id AND d.channel = 'push' AND d.recipient = ps.endpoint
+    ) < 3;
+$$;
+
+REVOKE ALL ON FUNCTION public.push_outbox() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.push_outbox() TO service_role;
+
+GRANT EXECUTE ON FUNCTION public.save_push_subscription(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Calls the Edge Function every minute, with the Vault secrets used by
+-- send-reminders.
+SELECT cron.schedule(
+  'send-push',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-push',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,156 @@
+-- Persisted user settings
+--
+-- user_settings gains the rest of the table designed in db_structure.txt:
+-- theme and language, applied by the app on sign-in, and the privacy
+-- switches. Other users' profiles are read through public_profiles, which
+-- shortens the name of users in privacy mode and leaves out emails they
+-- hide. channel_preferences holds the channels a user switched off per
+-- notification topic, which email_outbox and push_outbox now follow.
+--
+-- Mirrors src/services/settings.ts, src/services/privacy.ts and
+-- TOPIC_CHANNELS in src/services/notifications.ts.
+
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS theme TEXT NOT NULL DEFAULT 'light' CHECK (theme IN ('light', 'dark', 'system')),
+  ADD COLUMN IF NOT EXISTS language VARCHAR(5) NOT NULL DEFAULT 'en',
+  ADD COLUMN IF NOT EXISTS privacy_mode BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS show_email BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS channel_preferences JSONB NOT NULL DEFAULT '{}'::JSONB
+    CHECK (jsonb_typeof(channel_preferences) = 'object');
+
+-- As notificationTopic.
+CREATE OR REPLACE FUNCTION public.notification_topic(p_metadata JSONB)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE
+    WHEN p_metadata ? 'event' THEN p_metadata->>'event'
+    WHEN p_metadata ? 'reminder' THEN 'booking_reminders'
+    WHEN p_metadata ? 'extension_id' THEN 'extension_updates'
+  END;
+$$;
+
+-- As wantsDelivery: the topic must use the channel, and the user must not
+-- have switched off the channel or the topic on it.
+CREATE OR REPLACE FUNCTION public.user_wants_delivery(p_user_id UUID, p_metadata JSONB, p_channel TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SET search_path = public AS $$
+  SELECT
+    CASE public.notification_topic(p_metadata)
+      WHEN 'booking_confirmed' THEN p_channel = 'email'
+      WHEN 'booking_cancelled' THEN p_channel = 'email'
+      WHEN 'payment_approved' THEN p_channel IN ('email', 'push')
+      WHEN 'review_request' THEN p_channel = 'email'
+      WHEN 'booking_reminders' THEN p_channel = 'push'
+      WHEN 'extension_updates' THEN p_channel = 'push'
+      ELSE FALSE
+    END
+    AND COALESCE(
+      (
+        SELECT CASE p_channel
+            WHEN 'email' THEN s.email_notifications
+            WHEN 'push' THEN s.push_notifications
+          END
+          AND COALESCE((s.channel_preferences -> public.notification_topic(p_metadata) ->> p_channel)::BOOLEAN, TRUE)
+        FROM public.user_settings s
+        WHERE s.user_id = p_user_id
+      ),
+      TRUE
+    );
+$$;
+
+-- Unchanged from 20251021030000 except that the user's per-topic choices
+-- decide what is emailed.
+CREATE OR REPLACE FUNCTION public.email_outbox()
+RETURNS JSONB
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT COALESCE(jsonb_agg(job ORDER BY shown_at), '[]'::JSONB)
+  FROM (
+    SELECT
+      COALESCE(n.sent_at, n.created_at) AS shown_at,
+      jsonb_strip_nulls(jsonb_build_object(
+        'notification', to_jsonb(n),
+        'recipient', jsonb_build_object('id', p.id, 'email', p.email, 'full_name', p.name),
+        'booking', to_jsonb(b),
+        'spot', jsonb_build_object('id', s.id, 'title', s.title, 'address', s.address, 'timezone', s.timezone),
+        'payment', to_jsonb(pay),
+        'access_token', CASE
+          WHEN n.metadata->>'event' = 'booking_confirmed' THEN public.sign_booking_access_token(b)
+        END
+      )) AS job
+    FROM public.notifications n
+    JOIN public.profiles p ON p.id = n.user_id
+    JOIN public.bookings b ON b.id::TEXT = n.metadata->>'booking_id'
+    JOIN public.parking_spots s ON s.id = b.spot_id
+    LEFT JOIN public.payments pay ON pay.id::TEXT = n.metadata->>'payment_id'
+    WHERE (n.scheduled_for IS NULL OR n.sent_at IS NOT NULL)
+      AND public.user_wants_delivery(n.user_id, n.metadata, 'email')
+      AND NOT EXISTS (
+        SELECT 1 FROM public.notification_deliveries d
+        WHERE d.notification_id = n.id AND d.channel = 'email' AND d.status = 'sent'
+      )
+      AND (
+        SELECT COUNT(*) FROM public.notification_deliveries d
+        WHERE d.notification_id = n.id AND d.channel = 'email'
+      ) < 3
+  ) jobs;
+$$;
+
+-- Unchanged from 20251021030000 except that the user's per-topic choices
+-- decide what is pushed.
+CREATE OR REPLACE FUNCTION public.push_outbox()
+RETURNS JSONB
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object('notification', to_jsonb(n), 'subscription', to_jsonb(ps))
+      ORDER BY COALESCE(n.sent_at, n.created_at)
+    ),
+    '[]'::JSONB
+  )
+  FROM public.notifications n
+  JOIN public.push_subscriptions ps ON ps.user_id = n.user_id
+  WHERE (n.scheduled_for IS NULL OR n.sent_at IS NOT NULL)
+    AND COALESCE(n.sent_at, n.created_at) >= ps.created_at
+    AND public.user_wants_delivery(n.user_id, n.metadata, 'push')
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notification_deliveries d
+      WHERE d.notification_id = n.id AND d.channel = 'push' AND d.recipient = ps.endpoint AND d.status = 'sent'
+    )
+    AND (
+      SELECT COUNT(*) FROM public.notification_deliveries d
+      WHERE d.notification_id = n.id AND d.channel = 'push' AND d.recipient = ps.endpoint
+    ) < 3;
+$$;
+
+DROP FUNCTION IF EXISTS public.user_wants_channel(UUID, TEXT);
+
+-- Profiles as others see them, as publicProfile; the caller's own is whole.
+-- Users without settings are shown with the defaults.
+CREATE OR REPLACE FUNCTION public.public_profiles(p_ids UUID[])
+RETURNS JSONB
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT COALESCE(jsonb_agg(
+    CASE WHEN p.id = auth.uid() THEN
+      to_jsonb(p) - 'name' || jsonb_build_object('full_name', p.name)
+    ELSE
+      jsonb_strip_nulls(jsonb_build_object(
+        'id', p.id,
+        'full_name', CASE
+          WHEN COALESCE(s.privacy_mode, FALSE) AND p.name ~ '\s'
+            THEN split_part(btrim(p.name), ' ', 1) || ' ' || upper(left(regexp_replace(btrim(p.name), '^.*\s', ''), 1)) || '.'
+          ELSE p.name
+        END,
+        'email', CASE WHEN COALESCE(s.show_email, TRUE) THEN p.email ELSE '' END,
+        'phone', CASE WHEN NOT COALESCE(s.privacy_mode, FALSE) THEN p.phone END,
+        'user_type', p.user_type,
+        'created_at', p.created_at,
+        'updated_at', p.updated_at
+      ))
+    END
+  ), '[]'::JSONB)
+  FROM public.profiles p
+  LEFT JOIN public.user_settings s ON s.user_id = p.id
+  WHERE p.id = ANY(p_ids);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.public_profiles(UUID[]) TO authenticated;
@@ -0,0 +1,389 @@
+-- Spot currencies
+--
+-- Each spot is priced in its own currency, USD unless the host picks another.
+-- A booking takes its spot's currency when it is made, and its charges and
+-- payments take the booking's, so changing a spot's currency later leaves
+-- existing bookings as they were. Nothing is converted: guests pay in the
+-- spot's currency. Notifications now name the currency of the amounts they
+-- mention.
+--
+-- Mirrors src/services/currency.ts.
+
+ALTER TABLE public.parking_spots
+  ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'USD'
+    CHECK (currency IN ('USD', 'THB', 'EUR', 'GBP', 'SGD'));
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'USD';
+
+-- The booking's currency is its spot's and cannot be changed afterwards.
+CREATE OR REPLACE FUNCTION public.set_booking_currency()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT currency INTO NEW.currency FROM public.parking_spots WHERE id = NEW.spot_id;
+  ELSE
+    NEW.currency := OLD.currency;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_set_currency ON public.bookings;
+CREATE TRIGGER bookings_set_currency
+  BEFORE INSERT OR UPDATE OF currency ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.set_booking_currency();
+
+-- Charges and payments are in their booking's currency.
+CREATE OR REPLACE FUNCTION public.set_booking_money_currency()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  SELECT currency INTO NEW.currency FROM public.bookings WHERE id = NEW.booking_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS booking_charges_set_currency ON public.booking_charges;
+CREATE TRIGGER booking_charges_set_currency
+  BEFORE INSERT ON public.booking_charges
+  FOR EACH ROW EXECUTE FUNCTION public.set_booking_money_currency();
+
+DROP TRIGGER IF EXISTS payments_set_currency ON public.payments;
+CREATE TRIGGER payments_set_currency
+  BEFORE INSERT ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.set_booking_money_currency();
+
+-- As formatMoney: "$12.50", "฿450.00", or the code for other currencies.
+CREATE OR REPLACE FUNCTION public.format_money(p_amount DECIMAL, p_currency TEXT)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE p_currency
+    WHEN 'USD' THEN '$'
+    WHEN 'THB' THEN '฿'
+    WHEN 'EUR' THEN '€'
+    WHEN 'GBP' THEN '£'
+    WHEN 'SGD' THEN 'S$'
+    ELSE p_currency || ' '
+  END || to_char(p_amount, 'FM999999990.00');
+$$;
+
+-- Unchanged from 20251020190000 except that the notifications use the
+-- charge's currency.
+CREATE OR REPLACE FUNCTION public.check_out_booking(p_booking_id UUID)
+RETURNS public.bookings
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_spot public.parking_spots%ROWTYPE;
+  v_minutes INTEGER;
+  v_base DECIMAL(10,2);
+  v_tax DECIMAL(10,2);
+  v_charge public.booking_charges%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR v_booking.host_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_booking.status <> 'checked_in' THEN
+    RAISE EXCEPTION 'Only a checked-in booking can be checked out'
+      USING ERRCODE = 'P0425', DETAIL = v_booking.status;
+  END IF;
+
+  UPDATE public.bookings
+  SET status = 'completed',
+      checked_out_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  SELECT * INTO v_spot FROM public.parking_spots WHERE id = v_booking.spot_id;
+  v_minutes := GREATEST(0, FLOOR(EXTRACT(EPOCH FROM (v_booking.checked_out_at - v_booking.end_time)) / 60))::INTEGER;
+
+  IF v_minutes > COALESCE(v_spot.overstay_grace_minutes, 15) THEN
+    v_base := public.price_booking(v_spot.id, v_booking.start_time, v_booking.checked_out_at)
+            - public.price_booking(v_spot.id, v_booking.start_time, v_booking.end_time);
+
+    IF v_base > 0 THEN
+      v_tax := ROUND(v_base * 0.07, 2);
+
+      INSERT INTO public.booking_charges (
+        booking_id, guest_id, host_id, kind, description,
+        base_amount, tax_amount, amount, overstay_minutes
+      )
+      VALUES (
+        v_booking.id, v_booking.guest_id, v_booking.host_id, 'overstay',
+        'Overstay of ' || public.format_duration(v_minutes) || ' past the booked end time',
+        v_base, v_tax, v_base + v_tax, v_minutes
+      )
+      RETURNING * INTO v_charge;
+
+      INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+      VALUES
+        (
+          v_booking.guest_id,
+          'Overstay fee added',
+          v_charge.description || ' at ' || v_spot.title || '. An extra charge of '
+            || public.format_money(v_charge.amount, v_charge.currency) || ' has been added to your booking.',
+          'booking_reminder',
+          '/bookings',
+          jsonb_build_object('booking_id', v_booking.id, 'charge_id', v_charge.id)
+        ),
+        (
+          v_booking.host_id,
+          'Overstay fee charged',
+          v_charge.description || ' at ' || v_spot.title || '. The guest has been charged '
+            || public.format_money(v_charge.amount, v_charge.currency) || '.',
+          'owner_notification',
+          '/admin/bookings',
+          jsonb_build_object('booking_id', v_booking.id, 'charge_id', v_charge.id)
+        );
+    END IF;
+  END IF;
+
+  RETURN v_booking;
+END;
+$$;
+
+-- Unchanged from 20251020200000 except that the notification uses the
+-- booking's currency.
+CREATE OR REPLACE FUNCTION public.request_booking_extension(
+  p_booking_id UUID,
+  p_new_end_time TIMESTAMP WITH TIME ZONE
+)
+RETURNS public.booking_extensions
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_spot public.parking_spots%ROWTYPE;
+  v_quote JSONB;
+  v_extension public.booking_extensions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND OR v_booking.guest_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Same lock order as reserve_booking, so the added time cannot be taken
+  -- between the capacity check and approval.
+  SELECT * INTO v_spot FROM public.parking_spots WHERE id = v_booking.spot_id FOR UPDATE;
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  v_quote := public.compute_extension_quote(v_booking, p_new_end_time);
+
+  IF EXISTS (
+    SELECT 1 FROM public.booking_extensions WHERE booking_id = v_booking.id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'An extension for this booking is already awaiting the host' USING ERRCODE = 'P0426';
+  END IF;
+
+  PERFORM public.check_extension_room(v_booking, p_new_end_time);
+
+  INSERT INTO public.booking_extensions (
+    booking_id, guest_id, host_id, original_end_time, new_end_time, additional_minutes,
+    base_amount, service_fee, tax_amount, additional_cost
+  )
+  VALUES (
+    v_booking.id, v_booking.guest_id, v_booking.host_id, v_booking.end_time, p_new_end_time,
+    (v_quote->>'additional_minutes')::INTEGER,
+    (v_quote->>'base_amount')::DECIMAL, (v_quote->>'service_fee')::DECIMAL,
+    (v_quote->>'tax_amount')::DECIMAL, (v_quote->>'total')::DECIMAL
+  )
+  RETURNING * INTO v_extension;
+
+  IF v_spot.auto_approve_extensions THEN
+    v_extension := public.approve_booking_extension(v_extension, NULL);
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+  VALUES (
+    v_extension.host_id,
+    'Extension requested',
+    'A guest at ' || v_spot.title || ' asked to stay '
+      || public.format_duration(v_extension.additional_minutes) || ' longer for '
+      || public.format_money(v_extension.additional_cost, v_booking.currency) || '.',
+    'owner_notification',
+    '/admin/bookings',
+    jsonb_build_object('booking_id', v_extension.booking_id, 'extension_id', v_extension.id)
+  );
+
+  RETURN v_extension;
+END;
+$$;
+
+-- Unchanged from 20251020200000 except that the notification uses the
+-- booking's currency.
+CREATE OR REPLACE FUNCTION public.review_booking_extension(
+  p_extension_id UUID,
+  p_decision TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.booking_extensions
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_extension public.booking_extensions%ROWTYPE;
+  v_booking public.bookings%ROWTYPE;
+  v_spot_title TEXT;
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown review decision %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_extension FROM public.booking_extensions WHERE id = p_extension_id;
+
+  IF NOT FOUND OR v_extension.host_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Extension not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_booking FROM public.bookings WHERE id = v_extension.booking_id;
+  SELECT title INTO v_spot_title FROM public.parking_spots WHERE id = v_booking.spot_id FOR UPDATE;
+  PERFORM 1 FROM public.bookings WHERE id = v_booking.id FOR UPDATE;
+  SELECT * INTO v_extension FROM public.booking_extensions WHERE id = p_extension_id FOR UPDATE;
+
+  IF v_extension.status <> 'pending' THEN
+    RAISE EXCEPTION 'This extension has already been %', v_extension.status USING ERRCODE = 'P0426';
+  END IF;
+
+  IF p_decision = 'approved' THEN
+    v_extension := public.approve_booking_extension(v_extension, auth.uid());
+  ELSE
+    UPDATE public.booking_extensions
+    SET status = 'rejected',
+        rejection_reason = p_reason,
+        processed_at = NOW(),
+        processed_by = auth.uid()
+    WHERE id = p_extension_id
+    RETURNING * INTO v_extension;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+  VALUES (
+    v_extension.guest_id,
+    CASE WHEN p_decision = 'approved' THEN 'Extension approved' ELSE 'Extension declined' END,
+    CASE WHEN p_decision = 'approved'
+      THEN 'Your booking at ' || v_spot_title || ' now runs '
+        || public.format_duration(v_extension.additional_minutes) || ' longer. Please pay the extra '
+        || public.format_money(v_extension.additional_cost, v_booking.currency) || ' from My Bookings.'
+      ELSE 'Your request to stay longer at ' || v_spot_title || ' was declined'
+        || COALESCE(': ' || p_reason, '.')
+    END,
+    'extension_reminder',
+    '/bookings',
+    jsonb_build_object('booking_id', v_extension.booking_id, 'extension_id', v_extension.id)
+  );
+
+  RETURN v_extension;
+END;
+$$;
+
+-- Unchanged from 20251021020000 except that the notification uses the
+-- booking's currency.
+CREATE OR REPLACE FUNCTION public.cancel_booking(p_booking_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.bookings
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_spot public.parking_spots%ROWTYPE;
+  v_by_host BOOLEAN;
+  v_hours_before DECIMAL;
+  v_percent DECIMAL := 0;
+  v_refund DECIMAL(10,2) := 0;
+  v_reason TEXT := NULLIF(BTRIM(p_reason), '');
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() NOT IN (v_booking.guest_id, v_booking.host_id) THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Only pending or confirmed bookings can be cancelled'
+      USING ERRCODE = 'P0425', DETAIL = v_booking.status;
+  END IF;
+
+  SELECT * INTO v_spot FROM public.parking_spots WHERE id = v_booking.spot_id;
+  v_by_host := auth.uid() = v_booking.host_id;
+
+  IF v_booking.payment_status = 'paid' THEN
+    IF v_by_host THEN
+      v_percent := 100;
+    ELSE
+      v_hours_before := EXTRACT(EPOCH FROM (v_booking.start_time - NOW())) / 3600;
+      SELECT COALESCE((
+        SELECT (t->>'refund_percent')::DECIMAL
+        FROM jsonb_array_elements(public.cancellation_tiers(v_spot)) t
+        WHERE v_hours_before >= (t->>'hours_before')::DECIMAL
+        ORDER BY (t->>'hours_before')::DECIMAL DESC
+        LIMIT 1
+      ), 0) INTO v_percent;
+    END IF;
+    v_refund := ROUND(v_booking.total_amount * v_percent / 100, 2);
+  END IF;
+
+  UPDATE public.bookings
+  SET status = 'cancelled',
+      cancelled_at = NOW(),
+      cancelled_by = auth.uid(),
+      cancellation_reason = v_reason,
+      refund_amount = v_refund,
+      updated_at = NOW()
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  UPDATE public.booking_extensions
+  SET status = 'rejected',
+      rejection_reason = 'Booking cancelled',
+      processed_at = NOW()
+  WHERE booking_id = p_booking_id AND status = 'pending';
+
+  INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+  VALUES (
+    CASE WHEN v_by_host THEN v_booking.guest_id ELSE v_booking.host_id END,
+    CASE WHEN v_by_host THEN 'Booking cancelled by host' ELSE 'Booking cancelled by guest' END,
+    CASE WHEN v_by_host
+      THEN 'Your booking at ' || v_spot.title || ' was cancelled by the host.'
+      ELSE 'A booking at ' || v_spot.title || ' was cancelled.'
+    END
+      || CASE WHEN v_refund > 0
+           THEN ' A refund of ' || public.format_money(v_refund, v_booking.currency) || ' is due to the guest.'
+           ELSE ''
+         END
+      || COALESCE(' Reason: ' || v_reason, ''),
+    CASE WHEN v_by_host THEN 'booking_reminder' ELSE 'owner_notification' END,
+    CASE WHEN v_by_host THEN '/bookings' ELSE '/admin/bookings' END,
+    jsonb_build_object('booking_id', v_booking.id, 'event', 'booking_cancelled')
+  );
+
+  RETURN v_booking;
+END;
+$$;
+
+-- Unchanged from 20251021020000 except that the notification uses the
+-- payment's currency.
+CREATE OR REPLACE FUNCTION public.notify_payment_approved()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_spot_title TEXT;
+BEGIN
+  SELECT s.title INTO v_spot_title
+  FROM public.bookings b
+  JOIN public.parking_spots s ON s.id = b.spot_id
+  WHERE b.id = NEW.booking_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+  VALUES (
+    NEW.payer_id,
+    'Payment approved',
+    'The host of ' || v_spot_title || ' approved your ' || public.format_money(NEW.amount, NEW.currency) || ' payment.',
+    'system',
+    '/bookings',
+    jsonb_build_object('booking_id', NEW.booking_id, 'payment_id', NEW.id, 'event', 'payment_approved')
+  );
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,40 @@
+-- Booking capacity on every insert
+--
+-- reserve_booking checks slot capacity before it inserts, but the initial
+-- schema also let guests insert bookings directly, which skipped the check and
+-- could overbook a spot. Guests now create bookings only through
+-- reserve_booking, and a trigger applies the same capacity check to every
+-- insert, like the operating hours and quote triggers.
+--
+-- Mirrors hasCapacity in src/services/capacity.ts.
+
+DROP POLICY IF EXISTS "Users can create bookings" ON public.bookings;
+
+-- Rejects a booking that would put more held slots on its spot than it has.
+-- The spot row is locked so concurrent inserts for it are serialised;
+-- reserve_booking already holds that lock.
+CREATE OR REPLACE FUNCTION public.enforce_spot_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_total_slots INTEGER;
+BEGIN
+  SELECT total_slots INTO v_total_slots FROM public.parking_spots WHERE id = NEW.spot_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Parking spot not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF public.spot_peak_occupancy(NEW.spot_id, NEW.start_time, NEW.end_time) >= v_total_slots THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'P0409',
+            DETAIL = format('Spot %s has no free slot between %s and %s', NEW.spot_id, NEW.start_time, NEW.end_time);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_enforce_capacity ON public.bookings;
+CREATE TRIGGER bookings_enforce_capacity
+  BEFORE INSERT ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_spot_capacity();
@@ -0,0 +1,26 @@
+-- Email delivery on Supabase
+--
+-- email_outbox was only drained by the in-memory app's mailer, so nothing
+-- emailed Supabase users. The send-email Edge Function now sends what it
+-- returns through Resend every minute, logging each attempt in
+-- notification_deliveries like send-push.
+--
+-- Mirrors startEmailJob in src/email/mailer.ts.
+
+-- Calls the Edge Function every minute, with the Vault secrets used by
+-- send-reminders.
+SELECT cron.schedule(
+  'send-email',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-email',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,201 @@
+-- Notifications in each user's language
+--
+-- Notifications were saved as English text only, so Thai users read them,
+-- and were emailed and pushed them, in English. A notification now also keeps
+-- its wording as a notificationTexts catalog key with params in
+-- metadata.text, which the app translates when it shows, emails or pushes it.
+-- Rather than rewrite every function that notifies, a trigger derives the
+-- text from the English title and the rows the metadata refers to. The
+-- outboxes now carry the recipient's language.
+--
+-- Mirrors NotificationText in src/services/notifications.ts.
+
+-- The text for a notification, or NULL for titles without one. A duration
+-- is in minutes; amounts are formatted as in the English message.
+CREATE OR REPLACE FUNCTION public.notification_text(p_title TEXT, p_metadata JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SET search_path = public AS $$
+DECLARE
+  v_booking public.bookings;
+  v_spot_title TEXT;
+  v_key TEXT;
+  v_params JSONB;
+  v_extras JSONB := '[]'::JSONB;
+  v_extension public.booking_extensions;
+  v_charge public.booking_charges;
+  v_payment public.payments;
+  v_review public.reviews;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id::TEXT = p_metadata->>'booking_id';
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  SELECT title INTO v_spot_title FROM public.parking_spots WHERE id = v_booking.spot_id;
+  v_params := jsonb_build_object('spot', v_spot_title);
+
+  CASE p_title
+    WHEN 'New booking' THEN v_key := 'bookingCreated';
+    WHEN 'Booking confirmed' THEN v_key := 'bookingConfirmed';
+    WHEN 'How was your stay?' THEN v_key := 'reviewRequest';
+    WHEN 'Parking starting soon' THEN v_key := 'startingSoon';
+    WHEN 'Parking ending soon' THEN v_key := 'endingSoon';
+    WHEN 'Overstay fee applies' THEN v_key := 'overstayApplies';
+    WHEN 'Guest overstaying' THEN v_key := 'guestOverstaying';
+    WHEN 'New review' THEN
+      SELECT * INTO v_review FROM public.reviews WHERE id::TEXT = p_metadata->>'review_id';
+      v_key := CASE WHEN v_review.is_host_review THEN 'hostReviewPosted' ELSE 'guestReviewPosted' END;
+      v_params := v_params || jsonb_build_object('rating', v_review.rating);
+    WHEN 'Booking cancelled by guest', 'Booking cancelled by host' THEN
+      v_key := CASE WHEN p_title = 'Booking cancelled by host' THEN 'cancelledByHost' ELSE 'cancelledByGuest' END;
+      IF v_booking.refund_amount > 0 THEN
+        v_extras := v_extras || '["refundDue"]'::JSONB;
+        v_params := v_params
+          || jsonb_build_object('refund', public.format_money(v_booking.refund_amount, v_booking.currency));
+      END IF;
+      IF v_booking.cancellation_reason IS NOT NULL THEN
+        v_extras := v_extras || '["reason"]'::JSONB;
+        v_params := v_params || jsonb_build_object('reason', v_booking.cancellation_reason);
+      END IF;
+    WHEN 'Payment approved' THEN
+      SELECT * INTO v_payment FROM public.payments WHERE id::TEXT = p_metadata->>'payment_id';
+      v_key := 'paymentApproved';
+      v_params := v_params || jsonb_build_object('amount', public.format_money(v_payment.amount, v_payment.currency));
+    WHEN 'Extension requested', 'Extension approved', 'Extension declined' THEN
+      SELECT * INTO v_extension FROM public.booking_extensions WHERE id::TEXT = p_metadata->>'extension_id';
+      v_key := CASE p_title
+        WHEN 'Extension requested' THEN 'extensionRequested'
+        WHEN 'Extension approved' THEN 'extensionApproved'
+        ELSE 'extensionDeclined'
+      END;
+      IF v_key = 'extensionDeclined' THEN
+        IF v_extension.rejection_reason IS NOT NULL THEN
+          v_extras := '["reason"]'::JSONB;
+          v_params := v_params || jsonb_build_object('reason', v_extension.rejection_reason);
+        END IF;
+      ELSE
+        v_params := v_params || jsonb_build_object(
+          'duration', v_extension.additional_minutes,
+          'amount', public.format_money(v_extension.additional_cost, v_booking.currency)
+        );
+      END IF;
+    WHEN 'Overstay fee added', 'Overstay fee charged' THEN
+      SELECT * INTO v_charge FROM public.booking_charges WHERE id::TEXT = p_metadata->>'charge_id';
+      v_key := CASE WHEN p_title = 'Overstay fee added' THEN 'overstayCharged' ELSE 'overstayChargedHost' END;
+      v_params := v_params || jsonb_build_object(
+        'duration', COALESCE(v_charge.overstay_minutes, 0),
+        'amount', public.format_money(v_charge.amount, v_charge.currency)
+      );
+    ELSE
+      RETURN NULL;
+  END CASE;
+
+  RETURN jsonb_build_object('key', v_key, 'params', v_params)
+    || CASE WHEN jsonb_array_length(v_extras) > 0 THEN jsonb_build_object('extras', v_extras) ELSE '{}'::JSONB END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_notification_text()
+RETURNS TRIGGER
+LANGUAGE plpgsql SET search_path = public AS $$
+DECLARE
+  v_text JSONB;
+BEGIN
+  IF NOT COALESCE(NEW.metadata, '{}'::JSONB) ? 'text' THEN
+    v_text := public.notification_text(NEW.title, COALESCE(NEW.metadata, '{}'::JSONB));
+    IF v_text IS NOT NULL THEN
+      NEW.metadata := COALESCE(NEW.metadata, '{}'::JSONB) || jsonb_build_object('text', v_text);
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_notification_text ON public.notifications;
+CREATE TRIGGER set_notification_text
+  BEFORE INSERT ON public.notifications
+  FOR EACH ROW EXECUTE FUNCTION public.set_notification_text();
+
+-- Existing notifications get a text too, where their title has one.
+UPDATE public.notifications
+SET metadata = metadata || jsonb_build_object('text', public.notification_text(title, metadata))
+WHERE NOT metadata ? 'text'
+  AND public.notification_text(title, metadata) IS NOT NULL;
+
+-- As resolveLanguage on the user's language setting.
+CREATE OR REPLACE FUNCTION public.user_language(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql STABLE SET search_path = public AS $$
+  SELECT CASE
+    WHEN (SELECT language FROM public.user_settings WHERE user_id = p_user_id) LIKE 'th%' THEN 'th'
+    ELSE 'en'
+  END;
+$$;
+
+-- Unchanged from 20251021040000 except that each job has the recipient's
+-- language.
+CREATE OR REPLACE FUNCTION public.email_outbox()
+RETURNS JSONB
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT COALESCE(jsonb_agg(job ORDER BY shown_at), '[]'::JSONB)
+  FROM (
+    SELECT
+      COALESCE(n.sent_at, n.created_at) AS shown_at,
+      jsonb_strip_nulls(jsonb_build_object(
+        'notification', to_jsonb(n),
+        'recipient', jsonb_build_object('id', p.id, 'email', p.email, 'full_name', p.name),
+        'language', public.user_language(n.user_id),
+        'booking', to_jsonb(b),
+        'spot', jsonb_build_object('id', s.id, 'title', s.title, 'address', s.address, 'timezone', s.timezone),
+        'payment', to_jsonb(pay),
+        'access_token', CASE
+          WHEN n.metadata->>'event' = 'booking_confirmed' THEN public.sign_booking_access_token(b)
+        END
+      )) AS job
+    FROM public.notifications n
+    JOIN public.profiles p ON p.id = n.user_id
+    JOIN public.bookings b ON b.id::TEXT = n.metadata->>'booking_id'
+    JOIN public.parking_spots s ON s.id = b.spot_id
+    LEFT JOIN public.payments pay ON pay.id::TEXT = n.metadata->>'payment_id'
+    WHERE (n.scheduled_for IS NULL OR n.sent_at IS NOT NULL)
+      AND public.user_wants_delivery(n.user_id, n.metadata, 'email')
+      AND NOT EXISTS (
+        SELECT 1 FROM public.notification_deliveries d
+        WHERE d.notification_id = n.id AND d.channel = 'email' AND d.status = 'sent'
+      )
+      AND (
+        SELECT COUNT(*) FROM public.notification_deliveries d
+        WHERE d.notification_id = n.id AND d.channel = 'email'
+      ) < 3
+  ) jobs;
+$$;
+
+-- Unchanged from 20251021040000 except that each job has the recipient's
+-- language.
+CREATE OR REPLACE FUNCTION public.push_outbox()
+RETURNS JSONB
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'notification', to_jsonb(n),
+        'subscription', to_jsonb(ps),
+        'language', public.user_language(n.user_id)
+      )
+      ORDER BY COALESCE(n.sent_at, n.created_at)
+    ),
+    '[]'::JSONB
+  )
+  FROM public.notifications n
+  JOIN public.push_subscriptions ps ON ps.user_id = n.user_id
+  WHERE (n.scheduled_for IS NULL OR n.sent_at IS NOT NULL)
+    AND COALESCE(n.sent_at, n.created_at) >= ps.created_at
+    AND public.user_wants_delivery(n.user_id, n.metadata, 'push')
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notification_deliveries d
+      WHERE d.notification_id = n.id AND d.channel = 'push' AND d.recipient = ps.endpoint AND d.status = 'sent'
+    )
+    AND (
+      SELECT COUNT(*) FROM public.notification_deliveries d
+      WHERE d.notification_id = n.id AND d.channel = 'push' AND d.recipient = ps.endpoint
+    ) < 3;
+$$;
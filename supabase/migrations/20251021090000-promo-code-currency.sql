@@ -0,0 +1,100 @@
+-- Promo code currencies
+--
+-- A fixed discount, a discount cap and a minimum booking amount are amounts
+-- of money, but promo codes had no currency, so they were read in whatever
+-- currency the spot uses: a $5 code took ฿5 off a baht booking. Each code now
+-- has the currency of its amounts and is refused with 'wrong_currency' for
+-- spots priced in another. Nothing is converted, as for payments. Existing
+-- codes keep their US dollar meaning.
+--
+-- Mirrors promoCodeProblem in src/services/quote.ts.
+
+ALTER TABLE public.promo_codes
+  ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'USD'
+    CHECK (currency IN ('USD', 'THB', 'EUR', 'GBP', 'SGD'));
+
+-- Unchanged from 20251020130000 except for the currency check.
+CREATE OR REPLACE FUNCTION public.compute_booking_quote(
+  p_spot_id UUID,
+  p_start_time TIMESTAMP WITH TIME ZONE,
+  p_end_time TIMESTAMP WITH TIME ZONE,
+  p_promo_code TEXT,
+  p_guest_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_code TEXT := NULLIF(UPPER(BTRIM(p_promo_code)), '');
+  v_promo public.promo_codes%ROWTYPE;
+  v_base DECIMAL(10,2);
+  v_discount DECIMAL(10,2) := 0;
+  v_fee DECIMAL(10,2);
+  v_tax DECIMAL(10,2);
+  v_uses INTEGER;
+  v_guest_uses INTEGER;
+  v_items JSONB;
+BEGIN
+  v_base := public.price_booking(p_spot_id, p_start_time, p_end_time);
+
+  IF v_code IS NOT NULL THEN
+    SELECT * INTO v_promo FROM public.promo_codes WHERE code = v_code;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'not_found' USING ERRCODE = 'P0423';
+    ELSIF NOT v_promo.is_active THEN
+      RAISE EXCEPTION 'inactive' USING ERRCODE = 'P0423';
+    ELSIF v_promo.starts_at IS NOT NULL AND v_promo.starts_at > NOW() THEN
+      RAISE EXCEPTION 'not_started' USING ERRCODE = 'P0423';
+    ELSIF v_promo.expires_at IS NOT NULL AND v_promo.expires_at <= NOW() THEN
+      RAISE EXCEPTION 'expired' USING ERRCODE = 'P0423';
+    ELSIF v_promo.spot_id IS NOT NULL AND v_promo.spot_id <> p_spot_id THEN
+      RAISE EXCEPTION 'wrong_spot' USING ERRCODE = 'P0423';
+    ELSIF v_promo.currency <> (SELECT currency FROM public.parking_spots WHERE id = p_spot_id) THEN
+      RAISE EXCEPTION 'wrong_currency' USING ERRCODE = 'P0423';
+    ELSIF v_promo.min_booking_amount IS NOT NULL AND v_base < v_promo.min_booking_amount THEN
+      RAISE EXCEPTION 'below_minimum' USING ERRCODE = 'P0423';
+    END IF;
+
+    SELECT COUNT(*), COUNT(*) FILTER (WHERE b.guest_id = p_guest_id)
+    INTO v_uses, v_guest_uses
+    FROM public.bookings b
+    WHERE b.promo_code = v_code AND b.status <> 'cancelled';
+
+    IF v_promo.max_uses IS NOT NULL AND v_uses >= v_promo.max_uses THEN
+      RAISE EXCEPTION 'usage_limit' USING ERRCODE = 'P0423';
+    ELSIF v_promo.max_uses_per_guest IS NOT NULL AND v_guest_uses >= v_promo.max_uses_per_guest THEN
+      RAISE EXCEPTION 'guest_limit' USING ERRCODE = 'P0423';
+    END IF;
+
+    v_discount := CASE v_promo.discount_type
+      WHEN 'percent' THEN v_base * v_promo.discount_value / 100
+      ELSE v_promo.discount_value
+    END;
+    v_discount := ROUND(LEAST(v_discount, COALESCE(v_promo.max_discount_amount, v_discount), v_base), 2);
+  END IF;
+
+  v_fee := ROUND((v_base - v_discount) * 0.05, 2);
+  v_tax := ROUND((v_base - v_discount + v_fee) * 0.07, 2);
+
+  v_items := jsonb_build_array(jsonb_build_object('code', 'base', 'label', 'Parking', 'amount', v_base));
+  IF v_discount > 0 THEN
+    v_items := v_items || jsonb_build_object('code', 'discount', 'label', 'Promo ' || v_code, 'amount', -v_discount);
+  END IF;
+  v_items := v_items
+    || jsonb_build_object('code', 'service_fee', 'label', 'Service fee', 'amount', v_fee)
+    || jsonb_build_object('code', 'tax', 'label', 'VAT (7%)', 'amount', v_tax);
+
+  RETURN jsonb_build_object(
+    'spot_id', p_spot_id,
+    'start_time', p_start_time,
+    'end_time', p_end_time,
+    'promo_code', CASE WHEN v_code IS NOT NULL THEN v_code END,
+    'line_items', v_items,
+    'base_amount', v_base,
+    'discount_amount', v_discount,
+    'service_fee', v_fee,
+    'tax_amount', v_tax,
+    'total', v_base - v_discount + v_fee + v_tax
+  );
+END;
+$$;
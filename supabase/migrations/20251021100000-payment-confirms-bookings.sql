@@ -0,0 +1,88 @@
+-- Only payment confirms a booking
+--
+-- A host could move an unpaid booking to confirmed, by updating its status
+-- or through the dashboard. A booking is now confirmed only when its payment
+-- succeeds: the card webhook, or the host approving a slip, which
+-- review_payment does as the system. The event still records the host as
+-- the actor.
+--
+-- Mirrors BOOKING_TRANSITIONS in src/services/bookingState.ts.
+
+CREATE OR REPLACE FUNCTION public.booking_transition_allowed(p_from TEXT, p_to TEXT, p_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT (p_from, p_to, p_role) IN (
+    ('pending', 'confirmed', 'system'),
+    ('pending', 'checked_in', 'host'),
+    ('pending', 'cancelled', 'guest'),
+    ('pending', 'cancelled', 'host'),
+    ('confirmed', 'checked_in', 'host'),
+    ('confirmed', 'cancelled', 'guest'),
+    ('confirmed', 'cancelled', 'host'),
+    ('checked_in', 'completed', 'host')
+  );
+$$;
+
+-- As before, except that functions acting for payment, like review_payment,
+-- set app.booking_actor to 'system' while they update the booking.
+CREATE OR REPLACE FUNCTION public.booking_actor_role(p_booking public.bookings)
+RETURNS TEXT
+LANGUAGE sql STABLE AS $$
+  SELECT CASE
+    WHEN current_setting('app.booking_actor', TRUE) = 'system' THEN 'system'
+    WHEN auth.uid() = p_booking.host_id THEN 'host'
+    WHEN auth.uid() = p_booking.guest_id THEN 'guest'
+    ELSE 'system'
+  END;
+$$;
+
+-- Unchanged from 20251020220000 except that approving a slip confirms the
+-- booking as the system.
+CREATE OR REPLACE FUNCTION public.review_payment(
+  p_payment_id UUID,
+  p_decision TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.payments
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_host_id UUID;
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown review decision %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+  SELECT host_id INTO v_host_id FROM public.bookings WHERE id = v_payment.booking_id FOR UPDATE;
+
+  IF v_payment.id IS NULL OR v_host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Payment not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_payment.status <> 'submitted' THEN
+    RAISE EXCEPTION 'This payment has already been %', v_payment.status USING ERRCODE = 'P0424';
+  END IF;
+
+  UPDATE public.payments
+  SET status = p_decision,
+      failure_reason = CASE WHEN p_decision = 'rejected' THEN p_reason END,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  IF p_decision = 'approved' THEN
+    PERFORM set_config('app.booking_actor', 'system', TRUE);
+    UPDATE public.bookings
+    SET status = 'confirmed',
+        payment_status = 'paid',
+        updated_at = NOW()
+    WHERE id = v_payment.booking_id;
+    PERFORM set_config('app.booking_actor', '', TRUE);
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
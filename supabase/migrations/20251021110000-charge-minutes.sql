@@ -0,0 +1,34 @@
+-- Charge descriptions in each user's language
+--
+-- The app showed a charge's English description as is. It now words the
+-- charge from its kind and minutes instead, so an extension charge keeps its
+-- extension's additional_minutes next to overstay_minutes. Rather than
+-- rewrite approve_booking_extension, a trigger copies them from the
+-- extension. The description column keeps the English.
+--
+-- Mirrors chargeDescription in src/services/payments.ts.
+
+ALTER TABLE public.booking_charges
+  ADD COLUMN IF NOT EXISTS extension_minutes INTEGER CHECK (extension_minutes >= 0);
+
+CREATE OR REPLACE FUNCTION public.set_charge_extension_minutes()
+RETURNS TRIGGER
+LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF NEW.extension_id IS NOT NULL AND NEW.extension_minutes IS NULL THEN
+    SELECT additional_minutes INTO NEW.extension_minutes
+    FROM public.booking_extensions WHERE id = NEW.extension_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_charge_extension_minutes ON public.booking_charges;
+CREATE TRIGGER set_charge_extension_minutes
+  BEFORE INSERT ON public.booking_charges
+  FOR EACH ROW EXECUTE FUNCTION public.set_charge_extension_minutes();
+
+UPDATE public.booking_charges c
+SET extension_minutes = e.additional_minutes
+FROM public.booking_extensions e
+WHERE e.id = c.extension_id AND c.extension_minutes IS NULL;
@@ -0,0 +1,100 @@
+-- Extension rejection codes
+--
+-- Cancelling a booking rejected its pending extension with the English
+-- reason 'Booking cancelled', which guests then read in English. It now sets
+-- a rejection_code the app translates; rejection_reason is left for the
+-- host's own words.
+--
+-- Mirrors ExtensionRejectionCode in src/types/index.ts.
+
+ALTER TABLE public.booking_extensions
+  ADD COLUMN IF NOT EXISTS rejection_code TEXT CHECK (rejection_code IN ('booking_cancelled'));
+
+UPDATE public.booking_extensions
+SET rejection_code = 'booking_cancelled',
+    rejection_reason = NULL
+WHERE status = 'rejected'
+  AND processed_by IS NULL
+  AND rejection_reason = 'Booking cancelled';
+
+-- Unchanged from 20251021050000 except that pending extensions are rejected
+-- with a code.
+CREATE OR REPLACE FUNCTION public.cancel_booking(p_booking_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.bookings
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_spot public.parking_spots%ROWTYPE;
+  v_by_host BOOLEAN;
+  v_hours_before DECIMAL;
+  v_percent DECIMAL := 0;
+  v_refund DECIMAL(10,2) := 0;
+  v_reason TEXT := NULLIF(BTRIM(p_reason), '');
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() NOT IN (v_booking.guest_id, v_booking.host_id) THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Only pending or confirmed bookings can be cancelled'
+      USING ERRCODE = 'P0425', DETAIL = v_booking.status;
+  END IF;
+
+  SELECT * INTO v_spot FROM public.parking_spots WHERE id = v_booking.spot_id;
+  v_by_host := auth.uid() = v_booking.host_id;
+
+  IF v_booking.payment_status = 'paid' THEN
+    IF v_by_host THEN
+      v_percent := 100;
+    ELSE
+      v_hours_before := EXTRACT(EPOCH FROM (v_booking.start_time - NOW())) / 3600;
+      SELECT COALESCE((
+        SELECT (t->>'refund_percent')::DECIMAL
+        FROM jsonb_array_elements(public.cancellation_tiers(v_spot)) t
+        WHERE v_hours_before >= (t->>'hours_before')::DECIMAL
+        ORDER BY (t->>'hours_before')::DECIMAL DESC
+        LIMIT 1
+      ), 0) INTO v_percent;
+    END IF;
+    v_refund := ROUND(v_booking.total_amount * v_percent / 100, 2);
+  END IF;
+
+  UPDATE public.bookings
+  SET status = 'cancelled',
+      cancelled_at = NOW(),
+      cancelled_by = auth.uid(),
+      cancellation_reason = v_reason,
+      refund_amount = v_refund,
+      updated_at = NOW()
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  UPDATE public.booking_extensions
+  SET status = 'rejected',
+      rejection_code = 'booking_cancelled',
+      processed_at = NOW()
+  WHERE booking_id = p_booking_id AND status = 'pending';
+
+  INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+  VALUES (
+    CASE WHEN v_by_host THEN v_booking.guest_id ELSE v_booking.host_id END,
+    CASE WHEN v_by_host THEN 'Booking cancelled by host' ELSE 'Booking cancelled by guest' END,
+    CASE WHEN v_by_host
+      THEN 'Your booking at ' || v_spot.title || ' was cancelled by the host.'
+      ELSE 'A booking at ' || v_spot.title || ' was cancelled.'
+    END
+      || CASE WHEN v_refund > 0
+           THEN ' A refund of ' || public.format_money(v_refund, v_booking.currency) || ' is due to the guest.'
+           ELSE ''
+         END
+      || COALESCE(' Reason: ' || v_reason, ''),
+    CASE WHEN v_by_host THEN 'booking_reminder' ELSE 'owner_notification' END,
+    CASE WHEN v_by_host THEN '/bookings' ELSE '/admin/bookings' END,
+    jsonb_build_object('booking_id', v_booking.id, 'event', 'booking_cancelled')
+  );
+
+  RETURN v_booking;
+END;
+$$;